@@ -73,6 +73,7 @@ const CheckOutPage = lazy(() => import('@/pages/CheckOutPage'));
 const AdminDashboardPage = lazy(() => import('@/pages/AdminDashboardPage').then(m => ({ default: m.AdminDashboardPage })));
 const MapsListPage = lazy(() => import('@/pages/MapsListPage'));
 const MapEditor = lazy(() => import('@/pages/MapEditor'));
+const MapOperationsPage = lazy(() => import('@/pages/MapOperationsPage'));
 const UserManagementPage = lazy(() => import('@/pages/UserManagementPage').then(m => ({ default: m.UserManagementPage })));
 
 // Accessibility and PWA components - lazy loaded
@@ -340,11 +341,19 @@ function App() {
                   </ProtectedRoute>
                 }
               />
+              <Route
+                path="/maps"
+                element={
+                  <ProtectedRoute requiredRole={[UserRole.STAFF, UserRole.MANAGER, UserRole.ADMIN]}>
+                    <MapOperationsPage />
+                  </ProtectedRoute>
+                }
+              />
               <Route
                 path="/maps/:id"
                 element={
-                  <ProtectedRoute requiredRole={[UserRole.ADMIN, UserRole.MANAGER]}>
-                    <MapEditor />
+                  <ProtectedRoute requiredRole={[UserRole.STAFF, UserRole.MANAGER, UserRole.ADMIN]}>
+                    <MapOperationsPage />
                   </ProtectedRoute>
                 }
               />
@@ -5,6 +5,7 @@
  */
 
 import type { Command } from './Command';
+import type { SerializedCommand } from './serialization';
 import type { AnyModule } from '@/types';
 import { useMapStore } from '@/stores/mapStore';
 
@@ -66,4 +67,8 @@ export class AddCommand implements Command {
             _removeModules(this.successfullyAddedIds);
         }
     }
+
+    serialize(): SerializedCommand {
+        return { type: 'add', modules: this.modules };
+    }
 }
\ No newline at end of file
@@ -5,6 +5,7 @@
  */
 
 import type { Command } from './Command';
+import type { SerializedCommand } from './serialization';
 
 export class BatchCommand implements Command {
     readonly name: string;
@@ -34,6 +35,13 @@ export class BatchCommand implements Command {
         [...this.commands].reverse().forEach((cmd) => cmd.undo());
     }
 
+    /** Serializable only when every command in the batch is */
+    serialize(): SerializedCommand | null {
+        const commands = this.commands.map((cmd) => cmd.serialize?.() ?? null);
+        if (commands.some((cmd) => cmd === null)) return null;
+        return { type: 'batch', name: this.name, commands: commands as SerializedCommand[] };
+    }
+
     /** Number of commands in batch */
     get length(): number {
         return this.commands.length;
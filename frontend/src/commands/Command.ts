@@ -3,8 +3,12 @@
  * Base interface for all commands supporting undo/redo
  */
 
+import type { SerializedCommand } from './serialization';
+
 export interface Command {
     readonly name: string;
     execute(): void;
     undo(): void;
+    /** Plain data describing the command, for sending to other editors */
+    serialize?(): SerializedCommand | null;
 }
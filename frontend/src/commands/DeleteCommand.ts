@@ -5,6 +5,7 @@
  */
 
 import type { Command } from './Command';
+import type { SerializedCommand } from './serialization';
 import type { AnyModule } from '@/types';
 import { useMapStore } from '@/stores/mapStore';
 
@@ -49,4 +50,8 @@ export class DeleteCommand implements Command {
         const { _addModule } = useMapStore.getState();
         this.modules.forEach((m) => _addModule(m));
     }
+
+    serialize(): SerializedCommand {
+        return { type: 'delete', modules: this.modules };
+    }
 }
\ No newline at end of file
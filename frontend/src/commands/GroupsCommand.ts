@@ -0,0 +1,40 @@
+/**
+ * Groups Command
+ * Replaces the map's module groups with undo support.
+ * Batched with a PropertyCommand when modules join or leave the groups.
+ */
+
+import type { Command } from './Command';
+import type { SerializedCommand } from './serialization';
+import type { ModuleGroup } from '@/types';
+import { useMapStore } from '@/stores/mapStore';
+
+export class GroupsCommand implements Command {
+    readonly name: string;
+    private readonly oldGroups: ModuleGroup[];
+    private readonly newGroups: ModuleGroup[];
+
+    /**
+     * Create a groups command
+     * @param oldGroups - Groups before the change (for undo)
+     * @param newGroups - Groups to apply
+     * @param name - Name shown in the history
+     */
+    constructor(oldGroups: ModuleGroup[], newGroups: ModuleGroup[], name = 'Edit Groups') {
+        this.oldGroups = oldGroups;
+        this.newGroups = newGroups;
+        this.name = name;
+    }
+
+    execute(): void {
+        useMapStore.getState().updateMap({ groups: this.newGroups });
+    }
+
+    undo(): void {
+        useMapStore.getState().updateMap({ groups: this.oldGroups });
+    }
+
+    serialize(): SerializedCommand {
+        return { type: 'groups', name: this.name, oldGroups: this.oldGroups, newGroups: this.newGroups };
+    }
+}
@@ -4,10 +4,11 @@
  */
 
 import type { Command } from './Command';
+import type { SerializedCommand } from './serialization';
 import type { Position } from '@/types';
 import { useMapStore } from '@/stores/mapStore';
 
-interface MoveData {
+export interface MoveData {
     id: string;
     oldPosition: Position;
     newPosition: Position;
@@ -31,4 +32,8 @@ export class MoveCommand implements Command {
             store._updateModule(id, { position: oldPosition });
         });
     }
+
+    serialize(): SerializedCommand {
+        return { type: 'move', moves: this.moves };
+    }
 }
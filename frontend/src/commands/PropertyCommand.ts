@@ -5,6 +5,7 @@
  */
 
 import type { Command } from './Command';
+import type { SerializedCommand } from './serialization';
 import type { AnyModule } from '@/types';
 import { useMapStore } from '@/stores/mapStore';
 import { useEditorStore } from '@/stores/editorStore';
@@ -124,4 +125,8 @@ export class PropertyCommand implements Command {
             }
         }
     }
-}
\ No newline at end of file
+
+    serialize(): SerializedCommand {
+        return { type: 'property', changes: this.changes };
+    }
+}
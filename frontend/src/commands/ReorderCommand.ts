@@ -5,6 +5,7 @@
  */
 
 import type { Command } from './Command';
+import type { SerializedCommand } from './serialization';
 import { useMapStore } from '@/stores/mapStore';
 
 export class ReorderCommand implements Command {
@@ -55,4 +56,8 @@ export class ReorderCommand implements Command {
         const { _reorderModule } = useMapStore.getState();
         _reorderModule(this.moduleId, this.oldZIndex);
     }
+
+    serialize(): SerializedCommand {
+        return { type: 'reorder', moduleId: this.moduleId, oldZIndex: this.oldZIndex, newZIndex: this.newZIndex };
+    }
 }
@@ -4,10 +4,11 @@
  */
 
 import type { Command } from './Command';
+import type { SerializedCommand } from './serialization';
 import type { Position, Size } from '@/types';
 import { useMapStore } from '@/stores/mapStore';
 
-interface TransformData {
+export interface TransformData {
     id: string;
     oldPosition: Position;
     newPosition: Position;
@@ -37,4 +38,8 @@ export class TransformCommand implements Command {
             rotation: this.transform.oldRotation,
         });
     }
+
+    serialize(): SerializedCommand {
+        return { type: 'transform', transform: this.transform };
+    }
 }
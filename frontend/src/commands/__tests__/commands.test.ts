@@ -8,6 +8,7 @@ import { AddCommand } from '../AddCommand';
 import { DeleteCommand } from '../DeleteCommand';
 import { PropertyCommand } from '../PropertyCommand';
 import { ReorderCommand } from '../ReorderCommand';
+import { GroupsCommand } from '../GroupsCommand';
 import { BatchCommand } from '../BatchCommand';
 import { useMapStore } from '@/stores/mapStore';
 import type { AnyModule, CampsiteMap } from '@/types';
@@ -287,6 +288,34 @@ describe('ReorderCommand', () => {
     });
 });
 
+describe('GroupsCommand', () => {
+    it('should replace the groups on execute and restore them on undo', () => {
+        const group = { id: 'group-1', name: 'Group 1' };
+        const cmd = new GroupsCommand([], [group], 'Group');
+
+        cmd.execute();
+        expect(useMapStore.getState().currentMap?.groups).toEqual([group]);
+
+        cmd.undo();
+        expect(useMapStore.getState().currentMap?.groups).toEqual([]);
+    });
+
+    it('should undo a new group together with its membership', () => {
+        useMapStore.getState()._addModule(createMockModule('test-1'));
+        const group = { id: 'group-1', name: 'Group 1' };
+
+        const batch = new BatchCommand('Group', [
+            new GroupsCommand([], [group]),
+            new PropertyCommand([{ moduleId: 'test-1', oldProps: { groupId: undefined }, newProps: { groupId: 'group-1' } }]),
+        ]);
+        batch.execute();
+        batch.undo();
+
+        expect(useMapStore.getState().currentMap?.groups).toEqual([]);
+        expect(useMapStore.getState().getModule('test-1')?.groupId).toBeUndefined();
+    });
+});
+
 describe('BatchCommand', () => {
     it('should execute all commands in order', () => {
         const order: string[] = [];
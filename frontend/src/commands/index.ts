@@ -7,7 +7,7 @@
 export type { Command } from './Command';
 
 // Transform commands (existing)
-export { MoveCommand } from './MoveCommand';
+export { MoveCommand, type MoveData } from './MoveCommand';
 export { TransformCommand } from './TransformCommand';
 
 // Batch command
@@ -22,3 +22,15 @@ export { PropertyCommand, type PropertyChange } from './PropertyCommand';
 
 // Layer command
 export { ReorderCommand } from './ReorderCommand';
+
+// Group command
+export { GroupsCommand } from './GroupsCommand';
+
+// Serialization, for sharing commands between editors
+export {
+    serializeCommand,
+    deserializeCommand,
+    invertCommand,
+    getCommandModuleIds,
+    type SerializedCommand,
+} from './serialization';
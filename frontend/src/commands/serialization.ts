@@ -0,0 +1,141 @@
+/**
+ * Command Serialization
+ * Converts commands to and from plain data so they can be sent to other
+ * editors of the same map. Undoing is sent as the inverse command, since a
+ * rebuilt command has no record of what it did when it first ran.
+ */
+
+import type { Command } from './Command';
+import type { AnyModule, ModuleGroup } from '@/types';
+import { AddCommand } from './AddCommand';
+import { BatchCommand } from './BatchCommand';
+import { DeleteCommand } from './DeleteCommand';
+import { GroupsCommand } from './GroupsCommand';
+import { MoveCommand, type MoveData } from './MoveCommand';
+import { PropertyCommand, type PropertyChange } from './PropertyCommand';
+import { ReorderCommand } from './ReorderCommand';
+import { TransformCommand, type TransformData } from './TransformCommand';
+
+export type SerializedCommand =
+    | { type: 'add'; modules: AnyModule[] }
+    | { type: 'delete'; modules: AnyModule[] }
+    | { type: 'move'; moves: MoveData[] }
+    | { type: 'transform'; transform: TransformData }
+    | { type: 'property'; changes: PropertyChange[] }
+    | { type: 'reorder'; moduleId: string; oldZIndex: number; newZIndex: number }
+    | { type: 'groups'; name: string; oldGroups: ModuleGroup[]; newGroups: ModuleGroup[] }
+    | { type: 'batch'; name: string; commands: SerializedCommand[] };
+
+/**
+ * Module dates arrive as strings once sent over the socket
+ */
+const reviveDates = (module: AnyModule): AnyModule => ({
+    ...module,
+    createdAt: new Date(module.createdAt),
+    updatedAt: new Date(module.updatedAt),
+});
+
+/**
+ * Serialize a command, or null for commands that cannot be sent
+ */
+export function serializeCommand(command: Command): SerializedCommand | null {
+    return command.serialize?.() ?? null;
+}
+
+/**
+ * Rebuild a command from its serialized form
+ */
+export function deserializeCommand(data: SerializedCommand): Command {
+    switch (data.type) {
+        case 'add':
+            return new AddCommand(data.modules.map(reviveDates));
+        case 'delete':
+            return new DeleteCommand(data.modules.map(reviveDates));
+        case 'move':
+            return new MoveCommand(data.moves);
+        case 'transform':
+            return new TransformCommand(data.transform);
+        case 'property':
+            return new PropertyCommand(data.changes);
+        case 'reorder':
+            return new ReorderCommand(data.moduleId, data.oldZIndex, data.newZIndex);
+        case 'groups':
+            return new GroupsCommand(data.oldGroups, data.newGroups, data.name);
+        case 'batch':
+            return new BatchCommand(data.name, data.commands.map(deserializeCommand));
+    }
+}
+
+/**
+ * Get the command that undoes a serialized command
+ */
+export function invertCommand(data: SerializedCommand): SerializedCommand {
+    switch (data.type) {
+        case 'add':
+            return { type: 'delete', modules: data.modules };
+        case 'delete':
+            return { type: 'add', modules: data.modules };
+        case 'move':
+            return {
+                type: 'move',
+                moves: data.moves.map(({ id, oldPosition, newPosition }) => ({
+                    id,
+                    oldPosition: newPosition,
+                    newPosition: oldPosition,
+                })),
+            };
+        case 'transform': {
+            const { id, oldPosition, newPosition, oldSize, newSize, oldRotation, newRotation } = data.transform;
+            return {
+                type: 'transform',
+                transform: {
+                    id,
+                    oldPosition: newPosition,
+                    newPosition: oldPosition,
+                    oldSize: newSize,
+                    newSize: oldSize,
+                    oldRotation: newRotation,
+                    newRotation: oldRotation,
+                },
+            };
+        }
+        case 'property':
+            return {
+                type: 'property',
+                changes: [...data.changes].reverse().map(({ moduleId, oldProps, newProps }) => ({
+                    moduleId,
+                    oldProps: newProps,
+                    newProps: oldProps,
+                })),
+            };
+        case 'reorder':
+            return { ...data, oldZIndex: data.newZIndex, newZIndex: data.oldZIndex };
+        case 'groups':
+            return { ...data, oldGroups: data.newGroups, newGroups: data.oldGroups };
+        case 'batch':
+            return { type: 'batch', name: data.name, commands: [...data.commands].reverse().map(invertCommand) };
+    }
+}
+
+/**
+ * Get the IDs of every module a serialized command touches
+ */
+export function getCommandModuleIds(data: SerializedCommand): string[] {
+    switch (data.type) {
+        case 'add':
+        case 'delete':
+            return data.modules.map((module) => module.id);
+        case 'move':
+            return data.moves.map((move) => move.id);
+        case 'transform':
+            return [data.transform.id];
+        case 'property':
+            return data.changes.map((change) => change.moduleId);
+        case 'reorder':
+            return [data.moduleId];
+        case 'groups':
+            return [];
+        case 'batch':
+            return [...new Set(data.commands.flatMap(getCommandModuleIds))];
+    }
+}
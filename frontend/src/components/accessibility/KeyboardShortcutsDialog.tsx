@@ -17,6 +17,7 @@ const shortcuts: KeyboardShortcut[] = [
   { keys: ['V'], description: 'Select tool', category: 'Selection' },
   { keys: ['A'], description: 'Select all modules', category: 'Selection' },
   { keys: ['Esc'], description: 'Deselect all', category: 'Selection' },
+  { keys: ['Alt', 'Click'], description: 'Select one module in a group', category: 'Selection' },
   
   // Tools
   { keys: ['H'], description: 'Pan tool', category: 'Tools' },
@@ -30,6 +31,9 @@ const shortcuts: KeyboardShortcut[] = [
   { keys: ['Ctrl', 'V'], description: 'Paste modules', category: 'Editing' },
   { keys: ['Ctrl', 'X'], description: 'Cut selected modules', category: 'Editing' },
   { keys: ['Ctrl', 'D'], description: 'Duplicate selected modules', category: 'Editing' },
+  { keys: ['Ctrl', 'G'], description: 'Group selected modules', category: 'Editing' },
+  { keys: ['Ctrl', 'Shift', 'G'], description: 'Ungroup selected modules', category: 'Editing' },
+  { keys: ['Shift', 'A'], description: 'Repeat selected modules in a grid or along a path', category: 'Editing' },
   
   // History
   { keys: ['Ctrl', 'Z'], description: 'Undo', category: 'History' },
@@ -38,8 +42,10 @@ const shortcuts: KeyboardShortcut[] = [
   
   // View
   { keys: ['G'], description: 'Toggle grid', category: 'View' },
+  { keys: ['Shift', 'S'], description: 'Toggle smart guides', category: 'View' },
   { keys: ['+'], description: 'Zoom in', category: 'View' },
   { keys: ['-'], description: 'Zoom out', category: 'View' },
+  { keys: ['N'], description: 'Toggle minimap', category: 'View' },
   
   // File
   { keys: ['Ctrl', 'S'], description: 'Save map', category: 'File' },
@@ -0,0 +1,233 @@
+/**
+ * Array Dialog
+ * Repeats the selected modules in a grid or along a selected road or zone,
+ * numbering the copies, as a single undo step.
+ */
+
+import { useState, useCallback, useMemo, useEffect } from 'react';
+import { X, Grid3X3, Route, Copy } from 'lucide-react';
+
+import { useMapStore } from '@/stores/mapStore';
+import { useEditorStore } from '@/stores/editorStore';
+import { AddCommand, BatchCommand, PropertyCommand, type Command } from '@/commands';
+import type { AnyModule } from '@/types';
+import {
+    DEFAULT_ARRAY_OPTIONS,
+    MAX_ARRAY_COPIES,
+    createModuleArray,
+    formatArrayName,
+    getArrayPath,
+    getPathCapacity,
+    type ArrayOptions,
+} from '@/utils/moduleArray';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface ArrayDialogProps {
+    isOpen: boolean;
+    onClose: () => void;
+    executeCommand: (command: Command) => void;
+}
+
+type NumberOption = 'columns' | 'rows' | 'columnGap' | 'rowGap' | 'interval' | 'count' | 'startNumber';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const GRID_FIELDS: { key: NumberOption; label: string; min: number; step?: string }[] = [
+    { key: 'columns', label: 'Columns', min: 1 },
+    { key: 'rows', label: 'Rows', min: 1 },
+    { key: 'columnGap', label: 'Column gap (m)', min: 0, step: 'any' },
+    { key: 'rowGap', label: 'Row gap (m)', min: 0, step: 'any' },
+];
+
+const PATH_FIELDS: { key: NumberOption; label: string; min: number; step?: string }[] = [
+    { key: 'interval', label: 'Spacing along path (m)', min: 0.1, step: 'any' },
+    { key: 'count', label: 'Copies', min: 1 },
+];
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+export function ArrayDialog({ isOpen, onClose, executeCommand }: ArrayDialogProps) {
+    const [options, setOptions] = useState<ArrayOptions>(DEFAULT_ARRAY_OPTIONS);
+
+    const { currentMap } = useMapStore();
+    const { selectedIds } = useEditorStore();
+
+    const selected = useMemo(
+        () => selectedIds
+            .map((id) => currentMap?.modules.find((module) => module.id === id))
+            .filter((module): module is AnyModule => module !== undefined),
+        [currentMap, selectedIds]
+    );
+    const arrayPath = useMemo(() => getArrayPath(selected), [selected]);
+    const scale = currentMap?.scale ?? 1;
+
+    // Follow a road or zone when one is selected with the modules to repeat
+    useEffect(() => {
+        if (isOpen) {
+            setOptions((prev) => ({ ...prev, layout: arrayPath ? 'path' : 'grid' }));
+        }
+    }, [isOpen, arrayPath]);
+
+    const items = options.layout === 'path' && arrayPath ? arrayPath.items : selected;
+    const result = useMemo(
+        () => createModuleArray(items, options, scale, arrayPath?.path),
+        [items, options, scale, arrayPath]
+    );
+    const copyCount = items.length > 0 ? result.copies.length / items.length + 1 : 0;
+    const pathCapacity = arrayPath ? getPathCapacity(arrayPath.path, options.interval * scale) : 0;
+
+    const setNumber = (key: NumberOption, value: string) => {
+        const number = Number(value);
+        if (value.trim() !== '' && Number.isFinite(number)) {
+            setOptions((prev) => ({ ...prev, [key]: number }));
+        }
+    };
+
+    const handleCreate = useCallback(() => {
+        if (result.copies.length === 0) return;
+
+        const commands: Command[] = [];
+        const renames = items
+            .map((module, index) => ({ module, renamed: result.originals[index]! }))
+            .filter(({ module, renamed }) => module.metadata.name !== renamed.metadata.name);
+        if (renames.length > 0) {
+            commands.push(new PropertyCommand(renames.map(({ module, renamed }) => ({
+                moduleId: module.id,
+                oldProps: { metadata: module.metadata } as Partial<AnyModule>,
+                newProps: { metadata: renamed.metadata } as Partial<AnyModule>,
+            }))));
+        }
+        commands.push(new AddCommand(result.copies));
+
+        executeCommand(new BatchCommand('Array', commands));
+        onClose();
+    }, [items, result, executeCommand, onClose]);
+
+    if (!isOpen) {
+        return null;
+    }
+
+    const fields = options.layout === 'grid' ? GRID_FIELDS : PATH_FIELDS;
+    const namePattern = options.namePattern.trim();
+
+    return (
+        <div className="export-dialog__overlay" onClick={onClose}>
+            <div
+                className="export-dialog array-dialog"
+                onClick={(e) => e.stopPropagation()}
+                role="dialog"
+                aria-modal="true"
+                aria-labelledby="array-dialog-title"
+            >
+                <div className="export-dialog__header">
+                    <h2 id="array-dialog-title" className="export-dialog__title">
+                        Array
+                    </h2>
+                    <button
+                        className="export-dialog__close"
+                        onClick={onClose}
+                        aria-label="Close dialog"
+                    >
+                        <X size={20} />
+                    </button>
+                </div>
+
+                <div className="export-dialog__content">
+                    <div className="export-dialog__format-selection">
+                        <label className="export-dialog__format-label">
+                            Layout
+                        </label>
+                        <div className="export-dialog__format-options">
+                            <button
+                                className={`export-dialog__format-option ${options.layout === 'grid' ? 'export-dialog__format-option--selected' : ''}`}
+                                onClick={() => setOptions({ ...options, layout: 'grid' })}
+                            >
+                                <Grid3X3 size={24} />
+                                <span>Grid</span>
+                            </button>
+                            <button
+                                className={`export-dialog__format-option ${options.layout === 'path' ? 'export-dialog__format-option--selected' : ''}`}
+                                onClick={() => setOptions({ ...options, layout: 'path' })}
+                                disabled={!arrayPath}
+                                title={arrayPath ? undefined : 'Select a road or zone along with the modules to repeat'}
+                            >
+                                <Route size={24} />
+                                <span>Along path</span>
+                            </button>
+                        </div>
+                    </div>
+
+                    <div className="array-dialog__fields">
+                        {fields.map(({ key, label, min, step }) => (
+                            <div key={key} className="properties-panel__field">
+                                <label htmlFor={`array-${key}`}>{label}</label>
+                                <input
+                                    id={`array-${key}`}
+                                    type="number"
+                                    min={min}
+                                    step={step}
+                                    defaultValue={options[key]}
+                                    onChange={(e) => setNumber(key, e.target.value)}
+                                />
+                            </div>
+                        ))}
+                        <div className="properties-panel__field">
+                            <label htmlFor="array-name-pattern">Name pattern</label>
+                            <input
+                                id="array-name-pattern"
+                                type="text"
+                                value={options.namePattern}
+                                onChange={(e) => setOptions({ ...options, namePattern: e.target.value })}
+                                placeholder="e.g. A-{n}"
+                            />
+                        </div>
+                        <div className="properties-panel__field">
+                            <label htmlFor="array-startNumber">Start at</label>
+                            <input
+                                id="array-startNumber"
+                                type="number"
+                                defaultValue={options.startNumber}
+                                onChange={(e) => setNumber('startNumber', e.target.value)}
+                            />
+                        </div>
+                    </div>
+
+                    <p className="export-dialog__info export-dialog__info-hint">
+                        {copyCount} cop{copyCount === 1 ? 'y' : 'ies'} of {items.length} module{items.length === 1 ? '' : 's'},
+                        the selection being the first.
+                        {options.layout === 'path' && ` ${pathCapacity} fit along the path at this spacing.`}
+                        {namePattern && copyCount > 0 &&
+                            ` Named ${formatArrayName(namePattern, options.startNumber)} to ${formatArrayName(namePattern, options.startNumber + copyCount - 1)}.`}
+                        {copyCount >= MAX_ARRAY_COPIES && ` At most ${MAX_ARRAY_COPIES} copies are made at once.`}
+                    </p>
+                </div>
+
+                <div className="export-dialog__footer">
+                    <button
+                        className="export-dialog__button export-dialog__button--secondary"
+                        onClick={onClose}
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        className="export-dialog__button export-dialog__button--primary"
+                        onClick={handleCreate}
+                        disabled={result.copies.length === 0}
+                    >
+                        <Copy size={16} />
+                        Create Copies
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
+
+export default ArrayDialog;
@@ -0,0 +1,309 @@
+/**
+ * Background Panel
+ * An aerial photo or site plan to trace over: its opacity, rotation,
+ * cropping, place and lock, and calibrating the map scale by drawing a line
+ * over something of known length on it.
+ */
+
+import { useRef, useState } from 'react';
+import { Image as ImageIcon, X, Lock, Unlock } from 'lucide-react';
+import { useEditorStore } from '@/stores/editorStore';
+import { useMapStore } from '@/stores/mapStore';
+import { MeasurementUnit } from '@/types';
+import type { BackgroundCrop, MapBackground } from '@/types';
+import { createMapBackground, loadBackgroundImage, readFileAsDataUrl } from '@/utils/backgroundHandler';
+import { formatLength, getCalibratedScale, getMeasurementUnit, pixelsToMeters } from '@/utils/measurement';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface BackgroundPanelProps {
+    onClose?: () => void;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const CROP_FIELDS: { key: keyof BackgroundCrop; label: string }[] = [
+    { key: 'top', label: 'Top' },
+    { key: 'right', label: 'Right' },
+    { key: 'bottom', label: 'Bottom' },
+    { key: 'left', label: 'Left' },
+];
+
+const NO_CROP: BackgroundCrop = { top: 0, right: 0, bottom: 0, left: 0 };
+
+/** Length shown for the current scale, e.g. "100 px = 8.0 m" */
+const SCALE_SAMPLE = 100;
+
+/** Read a number input, ignoring it while it is empty or half typed */
+const readNumber = (value: string): number | null => {
+    const number = Number(value);
+    return value.trim() !== '' && Number.isFinite(number) ? number : null;
+};
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+export function BackgroundPanel({ onClose }: BackgroundPanelProps) {
+    const currentMap = useMapStore((state) => state.currentMap);
+    const updateMap = useMapStore((state) => state.updateMap);
+    const { activeTool, setActiveTool, measurement, setMeasurement } = useEditorStore();
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [distance, setDistance] = useState('');
+
+    if (!currentMap) return null;
+
+    const background = currentMap.background;
+    const unit = getMeasurementUnit(currentMap);
+    const unitSymbol = unit === MeasurementUnit.FEET ? 'ft' : 'm';
+    const isCalibrating = activeTool === 'calibrate';
+    const line = isCalibrating ? measurement : null;
+    const calibratedScale = line ? getCalibratedScale(line, Number(distance), unit) : null;
+
+    const updateBackground = (changes: Partial<MapBackground>) => {
+        if (background) {
+            updateMap({ background: { ...background, ...changes } });
+        }
+    };
+
+    const handleFile = async (file: File) => {
+        setError(null);
+        try {
+            const { size, objectUrl } = await loadBackgroundImage(file);
+            URL.revokeObjectURL(objectUrl);
+            const imageUrl = await readFileAsDataUrl(file);
+
+            // Grow the map so the whole image can be traced
+            const width = Math.max(currentMap.imageSize.width, size.width);
+            const height = Math.max(currentMap.imageSize.height, size.height);
+            updateMap({
+                background: createMapBackground(imageUrl, size),
+                imageSize: { width, height },
+                bounds: { ...currentMap.bounds, maxX: Math.max(currentMap.bounds.maxX, width), maxY: Math.max(currentMap.bounds.maxY, height) },
+            });
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to load image');
+        }
+    };
+
+    const handleCalibrate = () => {
+        if (!calibratedScale) return;
+        updateMap({ scale: calibratedScale });
+        setDistance('');
+        setActiveTool('select');
+    };
+
+    return (
+        <div className="layers-panel background-panel">
+            <div className="layers-panel__header">
+                <ImageIcon size={18} />
+                <h3 className="layers-panel__title">Background</h3>
+                {onClose && (
+                    <button
+                        className="site-binding-panel__close"
+                        onClick={onClose}
+                        aria-label="Close background"
+                    >
+                        <X size={16} />
+                    </button>
+                )}
+            </div>
+
+            <div className="layers-panel__content">
+                <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept="image/png,image/jpeg,image/webp"
+                    className="background-panel__file"
+                    onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) void handleFile(file);
+                        e.target.value = '';
+                    }}
+                />
+
+                <div className="site-binding-panel__group">
+                    <h4 className="site-binding-panel__group-title">Image</h4>
+                    <div className="geo-reference-panel__content">
+                        {!background && (
+                            <p className="geo-reference-panel__status">
+                                Add a drone or satellite photo, or a site plan, to trace the modules over.
+                            </p>
+                        )}
+                        {error && (
+                            <p className="geo-reference-panel__status geo-reference-panel__status--error">{error}</p>
+                        )}
+
+                        {background && (
+                            <>
+                                <div className="properties-panel__field">
+                                    <label htmlFor="background-opacity">
+                                        Opacity ({Math.round(background.opacity * 100)}%)
+                                    </label>
+                                    <input
+                                        id="background-opacity"
+                                        type="range"
+                                        min={0}
+                                        max={100}
+                                        value={Math.round(background.opacity * 100)}
+                                        onChange={(e) => updateBackground({ opacity: Number(e.target.value) / 100 })}
+                                    />
+                                </div>
+
+                                <div className="properties-panel__field">
+                                    <label htmlFor="background-rotation">Rotation (°)</label>
+                                    <input
+                                        id="background-rotation"
+                                        type="number"
+                                        step="any"
+                                        value={Math.round(background.rotation * 10) / 10}
+                                        onChange={(e) => {
+                                            const rotation = readNumber(e.target.value);
+                                            if (rotation !== null) updateBackground({ rotation: ((rotation % 360) + 360) % 360 });
+                                        }}
+                                    />
+                                </div>
+
+                                <div className="properties-panel__row">
+                                    {(['x', 'y'] as const).map((axis) => (
+                                        <div key={axis} className="properties-panel__field">
+                                            <label htmlFor={`background-${axis}`}>{axis.toUpperCase()} (px)</label>
+                                            <input
+                                                id={`background-${axis}`}
+                                                type="number"
+                                                value={Math.round(background.position[axis])}
+                                                onChange={(e) => {
+                                                    const value = readNumber(e.target.value);
+                                                    if (value !== null) updateBackground({ position: { ...background.position, [axis]: value } });
+                                                }}
+                                            />
+                                        </div>
+                                    ))}
+                                </div>
+
+                                <div className="background-panel__crop">
+                                    {CROP_FIELDS.map(({ key, label }) => (
+                                        <div key={key} className="properties-panel__field">
+                                            <label htmlFor={`background-crop-${key}`}>Crop {label}</label>
+                                            <input
+                                                id={`background-crop-${key}`}
+                                                type="number"
+                                                min={0}
+                                                value={Math.round((background.crop ?? NO_CROP)[key])}
+                                                onChange={(e) => {
+                                                    const value = readNumber(e.target.value);
+                                                    if (value !== null) {
+                                                        updateBackground({ crop: { ...(background.crop ?? NO_CROP), [key]: Math.max(0, value) } });
+                                                    }
+                                                }}
+                                            />
+                                        </div>
+                                    ))}
+                                </div>
+
+                                <label className="measurement-panel__toggle background-panel__lock">
+                                    <input
+                                        type="checkbox"
+                                        checked={background.locked}
+                                        onChange={() => updateBackground({ locked: !background.locked })}
+                                    />
+                                    {background.locked ? <Lock size={14} /> : <Unlock size={14} />}
+                                    <span>
+                                        {background.locked ? 'Locked' : 'Unlocked: drag, resize and rotate it on the map'}
+                                    </span>
+                                </label>
+                            </>
+                        )}
+
+                        <div className="geo-reference-panel__actions">
+                            {background && (
+                                <button
+                                    className="export-dialog__button export-dialog__button--secondary"
+                                    onClick={() => updateMap({ background: undefined })}
+                                >
+                                    Remove
+                                </button>
+                            )}
+                            <button
+                                className="export-dialog__button export-dialog__button--primary"
+                                onClick={() => fileInputRef.current?.click()}
+                            >
+                                {background ? 'Replace image' : 'Add image'}
+                            </button>
+                        </div>
+                    </div>
+                </div>
+
+                <div className="site-binding-panel__group">
+                    <h4 className="site-binding-panel__group-title">Scale</h4>
+                    <div className="geo-reference-panel__content">
+                        <p className="geo-reference-panel__status">
+                            {SCALE_SAMPLE} px = {formatLength(pixelsToMeters(SCALE_SAMPLE, currentMap.scale), unit)}
+                        </p>
+
+                        <button
+                            className={`export-dialog__button ${isCalibrating ? 'export-dialog__button--secondary' : 'export-dialog__button--primary'} measurement-panel__tool`}
+                            onClick={() => setActiveTool(isCalibrating ? 'select' : 'calibrate')}
+                        >
+                            {isCalibrating ? 'Cancel calibration' : 'Calibrate scale'}
+                        </button>
+
+                        {isCalibrating && !line && (
+                            <p className="geo-reference-panel__status">
+                                Drag along something of known length, such as a building wall or a
+                                road marking. Hold Shift to draw at 45° steps.
+                            </p>
+                        )}
+
+                        {line && (
+                            <>
+                                <div className="properties-panel__field">
+                                    <label htmlFor="calibration-distance">Real length ({unitSymbol})</label>
+                                    <input
+                                        id="calibration-distance"
+                                        type="number"
+                                        min={0}
+                                        step="any"
+                                        value={distance}
+                                        onChange={(e) => setDistance(e.target.value)}
+                                        onKeyDown={(e) => {
+                                            if (e.key === 'Enter') handleCalibrate();
+                                        }}
+                                        autoFocus
+                                    />
+                                </div>
+                                {calibratedScale && (
+                                    <p className="geo-reference-panel__status">
+                                        New scale: {SCALE_SAMPLE} px = {formatLength(pixelsToMeters(SCALE_SAMPLE, calibratedScale), unit)}
+                                    </p>
+                                )}
+                                <div className="geo-reference-panel__actions">
+                                    <button
+                                        className="export-dialog__button export-dialog__button--secondary"
+                                        onClick={() => setMeasurement(null)}
+                                    >
+                                        Redraw
+                                    </button>
+                                    <button
+                                        className="export-dialog__button export-dialog__button--primary"
+                                        onClick={handleCalibrate}
+                                        disabled={!calibratedScale}
+                                    >
+                                        Set scale
+                                    </button>
+                                </div>
+                            </>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
+
+export default BackgroundPanel;
@@ -0,0 +1,54 @@
+/**
+ * Collaborator Avatars
+ * Initials of everyone else editing the map, in the colour of their pointer
+ * on the canvas.
+ */
+
+import { Tooltip } from '@/components/ui/Tooltip';
+import type { Collaborator } from '@/services/collaboration';
+
+interface CollaboratorAvatarsProps {
+    collaborators: Collaborator[];
+}
+
+/** Avatars shown before the rest are summed up as "+n" */
+const MAX_AVATARS = 4;
+
+const getInitials = (name: string) =>
+    name
+        .split(/\s+/)
+        .filter(Boolean)
+        .slice(0, 2)
+        .map((part) => part[0]!.toUpperCase())
+        .join('');
+
+export function CollaboratorAvatars({ collaborators }: CollaboratorAvatarsProps) {
+    if (collaborators.length === 0) return null;
+
+    const shown = collaborators.slice(0, MAX_AVATARS);
+    const hidden = collaborators.slice(MAX_AVATARS);
+
+    return (
+        <div className="flex items-center -space-x-2" aria-label={`${collaborators.length} other editors`}>
+            {shown.map(({ clientId, name, color }) => (
+                <Tooltip key={clientId} content={`${name} is editing`} placement="bottom">
+                    <span
+                        className="flex items-center justify-center w-7 h-7 rounded-full border-2 border-white dark:border-gray-800 text-xs font-semibold text-white"
+                        style={{ background: color }}
+                    >
+                        {getInitials(name)}
+                    </span>
+                </Tooltip>
+            ))}
+            {hidden.length > 0 && (
+                <Tooltip content={hidden.map(({ name }) => name).join(', ')} placement="bottom">
+                    <span className="flex items-center justify-center w-7 h-7 rounded-full border-2 border-white dark:border-gray-800 bg-gray-400 text-xs font-semibold text-white">
+                        +{hidden.length}
+                    </span>
+                </Tooltip>
+            )}
+        </div>
+    );
+}
+
+export default CollaboratorAvatars;
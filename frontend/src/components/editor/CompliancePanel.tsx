@@ -0,0 +1,159 @@
+/**
+ * Compliance Panel
+ * Results of the layout compliance check: the rules each layout must meet
+ * before it is published, with their limits, and the modules that break
+ * them. Clicking a violation selects the modules involved.
+ */
+
+import { ShieldCheck, X, AlertTriangle, AlertCircle } from 'lucide-react';
+import { useEditorStore } from '@/stores/editorStore';
+import { useMapStore } from '@/stores/mapStore';
+import { MeasurementUnit } from '@/types';
+import type { ComplianceRuleId, ComplianceRuleSetting } from '@/types';
+import { COMPLIANCE_RULES, getComplianceSettings } from '@/utils/layoutCompliance';
+import type { ComplianceReport } from '@/utils/layoutCompliance';
+import { METERS_PER_FOOT, getMeasurementUnit } from '@/utils/measurement';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface CompliancePanelProps {
+    report: ComplianceReport | null;
+    onClose?: () => void;
+}
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+export function CompliancePanel({ report, onClose }: CompliancePanelProps) {
+    const currentMap = useMapStore((state) => state.currentMap);
+    const updateMap = useMapStore((state) => state.updateMap);
+    const { selectedIds, setSelection } = useEditorStore();
+
+    if (!currentMap || !report) return null;
+
+    const settings = getComplianceSettings(currentMap);
+    const unit = getMeasurementUnit(currentMap);
+    const unitFactor = unit === MeasurementUnit.FEET ? 1 / METERS_PER_FOOT : 1;
+    const unitSymbol = unit === MeasurementUnit.FEET ? 'ft' : 'm';
+
+    const updateRule = (id: ComplianceRuleId, changes: ComplianceRuleSetting) => {
+        updateMap({
+            complianceRules: {
+                ...currentMap.complianceRules,
+                [id]: { ...currentMap.complianceRules?.[id], ...changes },
+            },
+        });
+    };
+
+    const handleValueChange = (id: ComplianceRuleId, input: string) => {
+        const value = parseFloat(input);
+        if (Number.isNaN(value) || value < 0) return;
+        updateRule(id, { enabled: settings[id].enabled, value: value / unitFactor });
+    };
+
+    const failingRules = COMPLIANCE_RULES.filter((rule) =>
+        report.violations.some((violation) => violation.ruleId === rule.id)
+    );
+
+    return (
+        <div className="layers-panel compliance-panel">
+            <div className="layers-panel__header">
+                <ShieldCheck size={18} />
+                <h3 className="layers-panel__title">Compliance</h3>
+                <span className="layers-panel__count">{report.violations.length}</span>
+                {onClose && (
+                    <button
+                        className="site-binding-panel__close"
+                        onClick={onClose}
+                        aria-label="Close compliance"
+                    >
+                        <X size={16} />
+                    </button>
+                )}
+            </div>
+
+            <div className="layers-panel__content">
+                {report.violations.length === 0 ? (
+                    <div className="layers-panel__empty">
+                        <p>
+                            {report.rulesChecked > 0
+                                ? `The layout meets all ${report.rulesChecked} enabled rules`
+                                : 'All rules are switched off'}
+                        </p>
+                    </div>
+                ) : (
+                    failingRules.map((rule) => {
+                        const violations = report.violations.filter((violation) => violation.ruleId === rule.id);
+                        return (
+                            <div key={rule.id} className="site-binding-panel__group">
+                                <h4 className="site-binding-panel__group-title">
+                                    {rule.label}
+                                    <span className="layers-panel__count">{violations.length}</span>
+                                </h4>
+                                <ul className="layers-panel__list">
+                                    {violations.map((violation) => {
+                                        const isSelected = violation.moduleIds.every((id) => selectedIds.includes(id));
+                                        const Icon = violation.severity === 'error' ? AlertCircle : AlertTriangle;
+                                        return (
+                                            <li
+                                                key={violation.moduleIds.join(':')}
+                                                className={`layers-panel__item compliance-panel__item--${violation.severity} ${isSelected ? 'layers-panel__item--selected' : ''}`}
+                                                onClick={() => setSelection(violation.moduleIds)}
+                                            >
+                                                <Icon size={14} className="compliance-panel__icon" />
+                                                <span className="layers-panel__item-name">{violation.message}</span>
+                                            </li>
+                                        );
+                                    })}
+                                </ul>
+                            </div>
+                        );
+                    })
+                )}
+
+                <div className="site-binding-panel__group">
+                    <h4 className="site-binding-panel__group-title">Rules</h4>
+                    <ul className="layers-panel__list">
+                        {COMPLIANCE_RULES.map((rule) => {
+                            const setting = settings[rule.id];
+                            return (
+                                <li key={rule.id} className="layers-panel__item compliance-panel__rule">
+                                    <label className="measurement-panel__toggle">
+                                        <input
+                                            type="checkbox"
+                                            checked={setting.enabled}
+                                            onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })}
+                                        />
+                                        <span className="layers-panel__item-name">
+                                            {rule.label}
+                                            <span className="site-binding-panel__detail">{rule.description}</span>
+                                        </span>
+                                    </label>
+                                    {rule.defaultValue !== undefined && (
+                                        <div className="compliance-panel__value">
+                                            <input
+                                                type="number"
+                                                min={0}
+                                                step={0.5}
+                                                value={Number((setting.value * unitFactor).toFixed(1))}
+                                                disabled={!setting.enabled}
+                                                onChange={(e) => handleValueChange(rule.id, e.target.value)}
+                                                aria-label={`${rule.label} limit in ${unitSymbol}`}
+                                            />
+                                            <span>{unitSymbol}</span>
+                                        </div>
+                                    )}
+                                </li>
+                            );
+                        })}
+                    </ul>
+                </div>
+            </div>
+        </div>
+    );
+}
+
+export default CompliancePanel;
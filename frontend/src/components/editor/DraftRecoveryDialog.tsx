@@ -0,0 +1,164 @@
+/**
+ * Draft Recovery Dialog
+ * Offers back unsaved changes found for the map when it is opened. Changes
+ * made to the map since are combined with them; modules changed on both sides
+ * are listed so the user can pick which copy of each to keep.
+ */
+
+import { useState, useMemo, useCallback, useEffect } from 'react';
+import { X, AlertTriangle, RotateCcw } from 'lucide-react';
+import { format } from 'date-fns';
+
+import type { AnyModule } from '@/types';
+import type { DraftRecovery } from '@/hooks/useMapDraft';
+import { DIFF_FIELD_LABELS, getChangedFields } from '@/utils/mapDiff';
+import { mergeMaps, type MergeChoice, type MergeConflict } from '@/utils/mapDrafts';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface DraftRecoveryDialogProps {
+    recovery: DraftRecovery | null;
+    onRecover: (choices: Record<string, MergeChoice>) => void;
+    onDiscard: () => void;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const getConflictName = ({ local, server, base }: MergeConflict): string => {
+    const module = local ?? server ?? base;
+    return String(module?.metadata.name || module?.type || 'Module');
+};
+
+/**
+ * Describe what happened to one copy of a conflicting module since the base
+ */
+const describeEdit = (base: AnyModule | undefined, module: AnyModule | undefined): string => {
+    if (!module) return 'Deleted';
+    if (!base) return 'Added';
+    return `Changed ${getChangedFields(base, module).map((field) => DIFF_FIELD_LABELS[field]).join(', ')}`;
+};
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+export function DraftRecoveryDialog({ recovery, onRecover, onDiscard }: DraftRecoveryDialogProps) {
+    const [choices, setChoices] = useState<Record<string, MergeChoice>>({});
+
+    useEffect(() => {
+        setChoices({});
+    }, [recovery]);
+
+    const merge = useMemo(
+        () => recovery && mergeMaps(recovery.draft.base, recovery.draft.map, recovery.server),
+        [recovery]
+    );
+
+    const handleChoice = useCallback((moduleId: string, choice: MergeChoice) => {
+        setChoices((prev) => ({ ...prev, [moduleId]: choice }));
+    }, []);
+
+    if (!recovery || !merge) {
+        return null;
+    }
+
+    return (
+        <div className="export-dialog__overlay">
+            <div
+                className="export-dialog import-dialog"
+                role="dialog"
+                aria-modal="true"
+                aria-labelledby="draft-recovery-dialog-title"
+            >
+                <div className="export-dialog__header">
+                    <h2 id="draft-recovery-dialog-title" className="export-dialog__title">
+                        Recover Unsaved Changes
+                    </h2>
+                    <button
+                        className="export-dialog__close"
+                        onClick={onDiscard}
+                        aria-label="Discard unsaved changes"
+                    >
+                        <X size={20} />
+                    </button>
+                </div>
+
+                <div className="export-dialog__content">
+                    <p className="export-dialog__info import-dialog__summary">
+                        Changes to this map from {format(new Date(recovery.draft.savedAt), 'd MMM yyyy, HH:mm')} were
+                        never saved.
+                        {merge.serverChanged && ' The map has been changed since; changes that do not overlap will be combined.'}
+                    </p>
+
+                    {merge.conflicts.length > 0 && (
+                        <div className="import-dialog__message import-dialog__message--warning" role="alert">
+                            <AlertTriangle size={16} />
+                            <div>
+                                {merge.conflicts.length} module{merge.conflicts.length === 1 ? ' was' : 's were'} changed
+                                both here and in the saved map. Choose which to keep:
+                                <ul className="import-dialog__module-errors">
+                                    {merge.conflicts.map((conflict) => {
+                                        const choice = choices[conflict.moduleId] ?? 'local';
+                                        return (
+                                            <li key={conflict.moduleId}>
+                                                <span className="import-dialog__module-name">
+                                                    {getConflictName(conflict)}
+                                                </span>
+                                                <label className="export-dialog__option export-dialog__option--checkbox">
+                                                    <input
+                                                        type="radio"
+                                                        name={`draft-conflict-${conflict.moduleId}`}
+                                                        checked={choice === 'local'}
+                                                        onChange={() => handleChoice(conflict.moduleId, 'local')}
+                                                    />
+                                                    <span>Unsaved: {describeEdit(conflict.base, conflict.local)}</span>
+                                                </label>
+                                                <label className="export-dialog__option export-dialog__option--checkbox">
+                                                    <input
+                                                        type="radio"
+                                                        name={`draft-conflict-${conflict.moduleId}`}
+                                                        checked={choice === 'server'}
+                                                        onChange={() => handleChoice(conflict.moduleId, 'server')}
+                                                    />
+                                                    <span>Saved: {describeEdit(conflict.base, conflict.server)}</span>
+                                                </label>
+                                            </li>
+                                        );
+                                    })}
+                                </ul>
+                            </div>
+                        </div>
+                    )}
+
+                    <p className="export-dialog__info export-dialog__info-hint">
+                        {merge.serverChanged
+                            ? 'Undo history is not recovered, since the map it was recorded on has changed.'
+                            : 'Undo history is recovered with the changes.'}
+                    </p>
+                </div>
+
+                <div className="export-dialog__footer">
+                    <button
+                        className="export-dialog__button export-dialog__button--secondary"
+                        onClick={onDiscard}
+                    >
+                        Discard
+                    </button>
+                    <button
+                        className="export-dialog__button export-dialog__button--primary"
+                        onClick={() => onRecover(choices)}
+                    >
+                        <RotateCcw size={16} />
+                        Recover Changes
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
+
+export default DraftRecoveryDialog;
@@ -1,6 +1,7 @@
 /**
  * Export Dialog
- * Dialog for exporting the map as PNG image or JSON data.
+ * Dialog for exporting the map as PNG image, SVG drawing, print-ready PDF, JSON data
+ * or GeoJSON features for GIS tools.
  */
 
 import { useState, useCallback } from 'react';
@@ -9,11 +10,23 @@ import {
     Download,
     Image,
     FileJson,
+    FileText,
+    PenTool,
+    Globe,
     Loader2,
     Check,
 } from 'lucide-react';
 
 import { useMapStore } from '@/stores/mapStore';
+import {
+    PAPER_SIZES,
+    buildMapJson,
+    buildMapPdf,
+    buildMapSvg,
+    type PaperOrientation,
+    type PaperSize,
+} from '@/utils/mapExport';
+import { buildMapGeoJson } from '@/utils/geoJson';
 
 // ============================================================================
 // TYPES
@@ -25,7 +38,22 @@ interface ExportDialogProps {
     canvasRef: React.RefObject<HTMLCanvasElement | null>;
 }
 
-type ExportFormat = 'png' | 'json';
+type ExportFormat = 'png' | 'svg' | 'pdf' | 'json' | 'geojson';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function downloadBlob(blob: Blob, filename: string) {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.download = filename;
+    link.href = url;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+}
 
 // ============================================================================
 // MAIN COMPONENT
@@ -41,6 +69,11 @@ export function ExportDialog({
     const [exportSuccess, setExportSuccess] = useState(false);
     const [pngScale, setPngScale] = useState(1);
     const [includeBackground, setIncludeBackground] = useState(true);
+    const [includeLabels, setIncludeLabels] = useState(true);
+    const [includeDimensions, setIncludeDimensions] = useState(true);
+    const [paperSize, setPaperSize] = useState<PaperSize>('a4');
+    const [orientation, setOrientation] = useState<PaperOrientation>('landscape');
+    const [detailGrid, setDetailGrid] = useState(1);
 
     const { currentMap } = useMapStore();
 
@@ -110,6 +143,53 @@ export function ExportDialog({
     }, [canvasRef, currentMap, pngScale, includeBackground]);
 
 
+    // Export as SVG
+    const exportAsSvg = useCallback(() => {
+        if (!currentMap) {
+            console.error('[ExportDialog] No map to export');
+            return;
+        }
+
+        setIsExporting(true);
+
+        try {
+            const svg = buildMapSvg(currentMap, { includeBackground, includeLabels, includeDimensions });
+            downloadBlob(
+                new Blob([svg], { type: 'image/svg+xml' }),
+                `${currentMap.name || 'map'}-export.svg`
+            );
+
+            setExportSuccess(true);
+            setTimeout(() => setExportSuccess(false), 2000);
+        } catch (error) {
+            console.error('[ExportDialog] SVG export failed:', error);
+        } finally {
+            setIsExporting(false);
+        }
+    }, [currentMap, includeBackground, includeLabels, includeDimensions]);
+
+    // Export as print-ready PDF
+    const exportAsPdf = useCallback(() => {
+        if (!currentMap) {
+            console.error('[ExportDialog] No map to export');
+            return;
+        }
+
+        setIsExporting(true);
+
+        try {
+            const pdf = buildMapPdf(currentMap, { paperSize, orientation, detailGrid, includeLabels, includeDimensions });
+            downloadBlob(pdf.toBlob(), `${currentMap.name || 'map'}-${paperSize}-${orientation}.pdf`);
+
+            setExportSuccess(true);
+            setTimeout(() => setExportSuccess(false), 2000);
+        } catch (error) {
+            console.error('[ExportDialog] PDF export failed:', error);
+        } finally {
+            setIsExporting(false);
+        }
+    }, [currentMap, paperSize, orientation, detailGrid, includeLabels, includeDimensions]);
+
     // Export as JSON
     const exportAsJson = useCallback(() => {
         if (!currentMap) {
@@ -120,41 +200,40 @@ export function ExportDialog({
         setIsExporting(true);
 
         try {
-            // Create export data
-            const exportData = {
-                version: '1.0',
-                exportedAt: new Date().toISOString(),
-                map: {
-                    ...currentMap,
-                    // Ensure dates are serialized properly
-                    createdAt: currentMap.createdAt?.toISOString?.() || currentMap.createdAt,
-                    updatedAt: currentMap.updatedAt?.toISOString?.() || currentMap.updatedAt,
-                    modules: currentMap.modules.map((m) => ({
-                        ...m,
-                        createdAt: (m.createdAt as Date)?.toISOString?.() || m.createdAt,
-                        updatedAt: (m.updatedAt as Date)?.toISOString?.() || m.updatedAt,
-                    })),
-                },
-            };
-
-            const jsonString = JSON.stringify(exportData, null, 2);
-            const blob = new Blob([jsonString], { type: 'application/json' });
-            const url = URL.createObjectURL(blob);
+            const jsonString = buildMapJson(currentMap);
+            downloadBlob(
+                new Blob([jsonString], { type: 'application/json' }),
+                `${currentMap.name || 'map'}-export.json`
+            );
 
-            // Create download link
-            const link = document.createElement('a');
-            link.download = `${currentMap.name || 'map'}-export.json`;
-            link.href = url;
-            document.body.appendChild(link);
-            link.click();
-            document.body.removeChild(link);
+            setExportSuccess(true);
+            setTimeout(() => setExportSuccess(false), 2000);
+        } catch (error) {
+            console.error('[ExportDialog] JSON export failed:', error);
+        } finally {
+            setIsExporting(false);
+        }
+    }, [currentMap]);
+
+    // Export as GeoJSON
+    const exportAsGeoJson = useCallback(() => {
+        if (!currentMap) {
+            console.error('[ExportDialog] No map to export');
+            return;
+        }
 
-            URL.revokeObjectURL(url);
+        setIsExporting(true);
+
+        try {
+            downloadBlob(
+                new Blob([JSON.stringify(buildMapGeoJson(currentMap), null, 2)], { type: 'application/geo+json' }),
+                `${currentMap.name || 'map'}.geojson`
+            );
 
             setExportSuccess(true);
             setTimeout(() => setExportSuccess(false), 2000);
         } catch (error) {
-            console.error('[ExportDialog] JSON export failed:', error);
+            console.error('[ExportDialog] GeoJSON export failed:', error);
         } finally {
             setIsExporting(false);
         }
@@ -164,10 +243,16 @@ export function ExportDialog({
     const handleExport = useCallback(() => {
         if (format === 'png') {
             exportAsPng();
+        } else if (format === 'svg') {
+            exportAsSvg();
+        } else if (format === 'pdf') {
+            exportAsPdf();
+        } else if (format === 'geojson') {
+            exportAsGeoJson();
         } else {
             exportAsJson();
         }
-    }, [format, exportAsPng, exportAsJson]);
+    }, [format, exportAsPng, exportAsSvg, exportAsPdf, exportAsJson, exportAsGeoJson]);
 
     if (!isOpen) {
         return null;
@@ -208,6 +293,20 @@ export function ExportDialog({
                                 <Image size={24} />
                                 <span>PNG Image</span>
                             </button>
+                            <button
+                                className={`export-dialog__format-option ${format === 'svg' ? 'export-dialog__format-option--selected' : ''}`}
+                                onClick={() => setFormat('svg')}
+                            >
+                                <PenTool size={24} />
+                                <span>SVG Vector</span>
+                            </button>
+                            <button
+                                className={`export-dialog__format-option ${format === 'pdf' ? 'export-dialog__format-option--selected' : ''}`}
+                                onClick={() => setFormat('pdf')}
+                            >
+                                <FileText size={24} />
+                                <span>Print PDF</span>
+                            </button>
                             <button
                                 className={`export-dialog__format-option ${format === 'json' ? 'export-dialog__format-option--selected' : ''}`}
                                 onClick={() => setFormat('json')}
@@ -215,6 +314,13 @@ export function ExportDialog({
                                 <FileJson size={24} />
                                 <span>JSON Data</span>
                             </button>
+                            <button
+                                className={`export-dialog__format-option ${format === 'geojson' ? 'export-dialog__format-option--selected' : ''}`}
+                                onClick={() => setFormat('geojson')}
+                            >
+                                <Globe size={24} />
+                                <span>GeoJSON</span>
+                            </button>
                         </div>
                     </div>
 
@@ -246,6 +352,110 @@ export function ExportDialog({
                         </div>
                     )}
 
+                    {format === 'svg' && (
+                        <div className="export-dialog__options">
+                            <label className="export-dialog__option export-dialog__option--checkbox">
+                                <input
+                                    type="checkbox"
+                                    checked={includeBackground}
+                                    onChange={(e) =>
+                                        setIncludeBackground(e.target.checked)
+                                    }
+                                />
+                                <span>Include background</span>
+                            </label>
+                            <label className="export-dialog__option export-dialog__option--checkbox">
+                                <input
+                                    type="checkbox"
+                                    checked={includeLabels}
+                                    onChange={(e) =>
+                                        setIncludeLabels(e.target.checked)
+                                    }
+                                />
+                                <span>Include module names</span>
+                            </label>
+                            <label className="export-dialog__option export-dialog__option--checkbox">
+                                <input
+                                    type="checkbox"
+                                    checked={includeDimensions}
+                                    onChange={(e) =>
+                                        setIncludeDimensions(e.target.checked)
+                                    }
+                                />
+                                <span>Include dimensions</span>
+                            </label>
+                        </div>
+                    )}
+
+                    {format === 'pdf' && (
+                        <div className="export-dialog__options">
+                            <label className="export-dialog__option">
+                                <span>Paper size</span>
+                                <select
+                                    value={paperSize}
+                                    onChange={(e) =>
+                                        setPaperSize(e.target.value as PaperSize)
+                                    }
+                                >
+                                    {(Object.keys(PAPER_SIZES) as PaperSize[]).map((size) => (
+                                        <option key={size} value={size}>
+                                            {PAPER_SIZES[size].label}
+                                        </option>
+                                    ))}
+                                </select>
+                            </label>
+                            <label className="export-dialog__option">
+                                <span>Orientation</span>
+                                <select
+                                    value={orientation}
+                                    onChange={(e) =>
+                                        setOrientation(e.target.value as PaperOrientation)
+                                    }
+                                >
+                                    <option value="landscape">Landscape</option>
+                                    <option value="portrait">Portrait</option>
+                                </select>
+                            </label>
+                            <label className="export-dialog__option">
+                                <span>Detail sheets</span>
+                                <select
+                                    value={detailGrid}
+                                    onChange={(e) =>
+                                        setDetailGrid(Number(e.target.value))
+                                    }
+                                >
+                                    <option value={1}>None (overview only)</option>
+                                    <option value={2}>2 x 2 (5 pages)</option>
+                                    <option value={3}>3 x 3 (10 pages)</option>
+                                </select>
+                            </label>
+                            <label className="export-dialog__option export-dialog__option--checkbox">
+                                <input
+                                    type="checkbox"
+                                    checked={includeLabels}
+                                    onChange={(e) =>
+                                        setIncludeLabels(e.target.checked)
+                                    }
+                                />
+                                <span>Include module names</span>
+                            </label>
+                            <label className="export-dialog__option export-dialog__option--checkbox">
+                                <input
+                                    type="checkbox"
+                                    checked={includeDimensions}
+                                    onChange={(e) =>
+                                        setIncludeDimensions(e.target.checked)
+                                    }
+                                />
+                                <span>Include dimensions</span>
+                            </label>
+                            <p className="export-dialog__info-hint">
+                                The overview page includes the legend, a scale
+                                bar, the address and emergency contacts.
+                            </p>
+                        </div>
+                    )}
+
                     {format === 'json' && (
                         <div className="export-dialog__info">
                             <p>
@@ -258,6 +468,21 @@ export function ExportDialog({
                             </p>
                         </div>
                     )}
+
+                    {format === 'geojson' && (
+                        <div className="export-dialog__info">
+                            <p>
+                                Exports each module as a polygon in latitude and
+                                longitude, with its details as properties, for
+                                GIS tools and emergency services.
+                            </p>
+                            <p className="export-dialog__info-hint">
+                                {currentMap?.geoReference
+                                    ? 'Positions use the map\'s geo-reference.'
+                                    : 'This map is not geo-referenced, so the top-left corner is placed at the map address coordinates. Set a geo-reference for accurate positions.'}
+                            </p>
+                        </div>
+                    )}
                 </div>
 
                 <div className="export-dialog__footer">
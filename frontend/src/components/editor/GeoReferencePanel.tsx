@@ -0,0 +1,177 @@
+/**
+ * Geo-Reference Panel
+ * Anchors the map to the real world: a canvas point, the latitude/longitude
+ * it sits at and the bearing of the canvas's up direction. Used by GeoJSON
+ * export and import.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { Globe, X, MapPin } from 'lucide-react';
+import { useMapStore } from '@/stores/mapStore';
+import type { GeoReference } from '@/types';
+import { canvasToGeo, getGeoReference, isValidGeoReference } from '@/utils/geoReference';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface GeoReferencePanelProps {
+    onClose?: () => void;
+}
+
+interface GeoReferenceDraft {
+    latitude: string;
+    longitude: string;
+    anchorX: string;
+    anchorY: string;
+    rotation: string;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const toDraft = (reference: GeoReference): GeoReferenceDraft => ({
+    latitude: String(reference.anchor.latitude),
+    longitude: String(reference.anchor.longitude),
+    anchorX: String(reference.anchorPoint.x),
+    anchorY: String(reference.anchorPoint.y),
+    rotation: String(reference.rotation),
+});
+
+const fromDraft = (draft: GeoReferenceDraft): GeoReference => ({
+    anchor: { latitude: Number(draft.latitude), longitude: Number(draft.longitude) },
+    anchorPoint: { x: Number(draft.anchorX), y: Number(draft.anchorY) },
+    rotation: Number(draft.rotation),
+});
+
+const formatCoordinate = (value: number) => value.toFixed(6);
+
+const FIELDS: { key: keyof GeoReferenceDraft; label: string }[] = [
+    { key: 'latitude', label: 'Latitude' },
+    { key: 'longitude', label: 'Longitude' },
+    { key: 'anchorX', label: 'Anchor X (px)' },
+    { key: 'anchorY', label: 'Anchor Y (px)' },
+    { key: 'rotation', label: 'Rotation (° from north)' },
+];
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+export function GeoReferencePanel({ onClose }: GeoReferencePanelProps) {
+    const currentMap = useMapStore((state) => state.currentMap);
+    const updateMap = useMapStore((state) => state.updateMap);
+    const geoReference = currentMap?.geoReference;
+    const coordinates = currentMap?.metadata.coordinates;
+    const [draft, setDraft] = useState<GeoReferenceDraft | null>(null);
+
+    // Reset the form whenever the stored reference changes
+    useEffect(() => {
+        setDraft(coordinates ? toDraft(getGeoReference({ geoReference, metadata: { coordinates } })) : null);
+    }, [geoReference, coordinates]);
+
+    const reference = useMemo(() => (draft ? fromDraft(draft) : null), [draft]);
+    const isValid = draft !== null &&
+        Object.values(draft).every((value) => value.trim() !== '') &&
+        reference !== null && isValidGeoReference(reference);
+
+    const centre = useMemo(() => {
+        if (!currentMap || !reference || !isValid) return null;
+        return canvasToGeo(
+            { x: currentMap.imageSize.width / 2, y: currentMap.imageSize.height / 2 },
+            reference,
+            currentMap.scale
+        );
+    }, [currentMap, reference, isValid]);
+
+    if (!currentMap || !draft) return null;
+
+    const handleApply = () => {
+        if (reference && isValid) {
+            updateMap({ geoReference: reference });
+        }
+    };
+
+    return (
+        <div className="layers-panel geo-reference-panel">
+            <div className="layers-panel__header">
+                <Globe size={18} />
+                <h3 className="layers-panel__title">Geo-Reference</h3>
+                {onClose && (
+                    <button
+                        className="site-binding-panel__close"
+                        onClick={onClose}
+                        aria-label="Close geo-reference"
+                    >
+                        <X size={16} />
+                    </button>
+                )}
+            </div>
+
+            <div className="layers-panel__content geo-reference-panel__content">
+                <p className="geo-reference-panel__status">
+                    {currentMap.geoReference
+                        ? 'This map is geo-referenced.'
+                        : 'Not geo-referenced yet. Exports place the top-left corner at the map address coordinates, facing north.'}
+                </p>
+
+                {FIELDS.map(({ key, label }) => (
+                    <div key={key} className="properties-panel__field">
+                        <label htmlFor={`geo-${key}`}>{label}</label>
+                        <input
+                            id={`geo-${key}`}
+                            type="number"
+                            step="any"
+                            value={draft[key]}
+                            onChange={(e) => setDraft({ ...draft, [key]: e.target.value })}
+                        />
+                    </div>
+                ))}
+
+                <button
+                    className="geo-reference-panel__link"
+                    onClick={() => setDraft({
+                        ...draft,
+                        latitude: String(currentMap.metadata.coordinates.latitude),
+                        longitude: String(currentMap.metadata.coordinates.longitude),
+                    })}
+                >
+                    <MapPin size={14} />
+                    Use map address coordinates
+                </button>
+
+                {centre && (
+                    <p className="geo-reference-panel__status">
+                        Map centre: {formatCoordinate(centre.latitude)}, {formatCoordinate(centre.longitude)}
+                    </p>
+                )}
+                {!isValid && (
+                    <p className="geo-reference-panel__status geo-reference-panel__status--error">
+                        Enter a latitude between -90 and 90 and a longitude between -180 and 180.
+                    </p>
+                )}
+
+                <div className="geo-reference-panel__actions">
+                    {currentMap.geoReference && (
+                        <button
+                            className="export-dialog__button export-dialog__button--secondary"
+                            onClick={() => updateMap({ geoReference: undefined })}
+                        >
+                            Remove
+                        </button>
+                    )}
+                    <button
+                        className="export-dialog__button export-dialog__button--primary"
+                        onClick={handleApply}
+                        disabled={!isValid}
+                    >
+                        Apply
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
+
+export default GeoReferencePanel;
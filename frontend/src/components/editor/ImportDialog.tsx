@@ -0,0 +1,284 @@
+/**
+ * Import Dialog
+ * Dialog for loading a JSON map export or GeoJSON features, either as a new
+ * map or merged into the current one. Modules that fail validation are
+ * listed and skipped.
+ */
+
+import { useState, useCallback, useMemo, useRef } from 'react';
+import {
+    X,
+    Upload,
+    FilePlus,
+    Merge,
+    AlertTriangle,
+    Check,
+} from 'lucide-react';
+
+import { useMapStore } from '@/stores/mapStore';
+import { AddCommand, type Command } from '@/commands';
+import type { CampsiteMap } from '@/types';
+import {
+    LEGACY_VERSION,
+    parseMapExport,
+    prepareModulesForMerge,
+    type MapImportResult,
+} from '@/utils/mapImport';
+import { isGeoJson, parseGeoJson } from '@/utils/geoJson';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface ImportDialogProps {
+    isOpen: boolean;
+    onClose: () => void;
+    executeCommand: (command: Command) => void;
+    /** Load the imported map into the editor in place of the current one */
+    onOpenAsNewMap: (map: CampsiteMap) => void;
+}
+
+type ImportMode = 'new' | 'merge';
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+export function ImportDialog({
+    isOpen,
+    onClose,
+    executeCommand,
+    onOpenAsNewMap,
+}: ImportDialogProps) {
+    const [fileName, setFileName] = useState<string | null>(null);
+    const [result, setResult] = useState<MapImportResult | null>(null);
+    const [mode, setMode] = useState<ImportMode>('new');
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const { currentMap } = useMapStore();
+
+    const handleClose = useCallback(() => {
+        setFileName(null);
+        setResult(null);
+        onClose();
+    }, [onClose]);
+
+    const handleFileChange = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        setFileName(file.name);
+        try {
+            const text = await file.text();
+            setResult(isGeoJson(text) && currentMap ? parseGeoJson(text, currentMap) : parseMapExport(text));
+        } catch (error) {
+            console.error('[ImportDialog] Could not read file:', error);
+            setResult({ success: false, error: 'The file could not be read', issues: [] });
+        }
+    }, [currentMap]);
+
+    const mergePlan = useMemo(
+        () => (result?.success && currentMap
+            ? prepareModulesForMerge(result.map.modules, currentMap.modules)
+            : null),
+        [result, currentMap]
+    );
+
+    const handleImport = useCallback(() => {
+        if (!result?.success) return;
+
+        if (mode === 'merge') {
+            if (!mergePlan || mergePlan.modules.length === 0) return;
+            executeCommand(new AddCommand(mergePlan.modules));
+        } else {
+            onOpenAsNewMap(result.map);
+        }
+        handleClose();
+    }, [result, mode, mergePlan, executeCommand, onOpenAsNewMap, handleClose]);
+
+    if (!isOpen) {
+        return null;
+    }
+
+    const canImport = result?.success === true && (mode === 'new' || result.map.modules.length > 0);
+
+    return (
+        <div className="export-dialog__overlay" onClick={handleClose}>
+            <div
+                className="export-dialog import-dialog"
+                onClick={(e) => e.stopPropagation()}
+                role="dialog"
+                aria-modal="true"
+                aria-labelledby="import-dialog-title"
+            >
+                <div className="export-dialog__header">
+                    <h2 id="import-dialog-title" className="export-dialog__title">
+                        Import Map
+                    </h2>
+                    <button
+                        className="export-dialog__close"
+                        onClick={handleClose}
+                        aria-label="Close dialog"
+                    >
+                        <X size={20} />
+                    </button>
+                </div>
+
+                <div className="export-dialog__content">
+                    <div className="export-dialog__format-selection">
+                        <label className="export-dialog__format-label">
+                            Map File
+                        </label>
+                        <button
+                            className="import-dialog__file"
+                            onClick={() => fileInputRef.current?.click()}
+                        >
+                            <Upload size={16} />
+                            <span>{fileName ?? 'Choose a JSON export or GeoJSON file...'}</span>
+                        </button>
+                        <input
+                            ref={fileInputRef}
+                            type="file"
+                            accept=".json,.geojson,application/json,application/geo+json"
+                            onChange={handleFileChange}
+                            hidden
+                        />
+                    </div>
+
+                    {result && !result.success && (
+                        <div className="import-dialog__message import-dialog__message--error" role="alert">
+                            <AlertTriangle size={16} />
+                            <div>
+                                <p>{result.error}</p>
+                                {result.issues.length > 0 && (
+                                    <ul className="import-dialog__issues">
+                                        {result.issues.map((issue) => (
+                                            <li key={issue}>{issue}</li>
+                                        ))}
+                                    </ul>
+                                )}
+                            </div>
+                        </div>
+                    )}
+
+                    {result?.success && (
+                        <>
+                            <div className="export-dialog__info import-dialog__summary">
+                                <p>
+                                    <strong>{result.map.name}</strong>: {result.map.modules.length} module
+                                    {result.map.modules.length === 1 ? '' : 's'} ready to import.
+                                </p>
+                                {result.format === 'geojson' && (
+                                    <p className="export-dialog__info-hint">
+                                        {currentMap?.geoReference
+                                            ? 'Features are placed using this map\'s geo-reference.'
+                                            : 'This map is not geo-referenced yet, so positions come from the file. Open it as a new map to keep that reference.'}
+                                    </p>
+                                )}
+                                {result.migrated && (
+                                    <p className="export-dialog__info-hint">
+                                        Upgraded from {result.sourceVersion === LEGACY_VERSION
+                                            ? 'an unversioned export'
+                                            : `export version ${result.sourceVersion}`}.
+                                    </p>
+                                )}
+                            </div>
+
+                            {result.moduleErrors.length > 0 && (
+                                <div className="import-dialog__message import-dialog__message--warning">
+                                    <AlertTriangle size={16} />
+                                    <div>
+                                        <p>
+                                            {result.moduleErrors.length} module
+                                            {result.moduleErrors.length === 1 ? ' is' : 's are'} invalid and will be skipped:
+                                        </p>
+                                        <ul className="import-dialog__module-errors">
+                                            {result.moduleErrors.map((error) => (
+                                                <li key={error.index}>
+                                                    <span className="import-dialog__module-name">
+                                                        #{error.index + 1} {error.name ?? error.id ?? 'Unnamed'}
+                                                        {error.type && ` (${error.type})`}
+                                                    </span>
+                                                    <ul className="import-dialog__issues">
+                                                        {error.issues.map((issue) => (
+                                                            <li key={issue}>{issue}</li>
+                                                        ))}
+                                                    </ul>
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    </div>
+                                </div>
+                            )}
+
+                            <div className="export-dialog__format-selection">
+                                <label className="export-dialog__format-label">
+                                    Import As
+                                </label>
+                                <div className="export-dialog__format-options">
+                                    <button
+                                        className={`export-dialog__format-option ${mode === 'new' ? 'export-dialog__format-option--selected' : ''}`}
+                                        onClick={() => setMode('new')}
+                                    >
+                                        <FilePlus size={24} />
+                                        <span>New Map</span>
+                                    </button>
+                                    <button
+                                        className={`export-dialog__format-option ${mode === 'merge' ? 'export-dialog__format-option--selected' : ''}`}
+                                        onClick={() => setMode('merge')}
+                                        disabled={!currentMap}
+                                    >
+                                        <Merge size={24} />
+                                        <span>Merge Into Current</span>
+                                    </button>
+                                </div>
+                            </div>
+
+                            {mode === 'new' && (
+                                <p className="export-dialog__info export-dialog__info-hint">
+                                    Replaces the editor contents with the imported map.
+                                    It is not saved until you save it.
+                                </p>
+                            )}
+
+                            {mode === 'merge' && mergePlan && (
+                                <div className="export-dialog__info export-dialog__info-hint">
+                                    <p>Modules are added on top of the current map and can be undone.</p>
+                                    {mergePlan.reassignedIds > 0 && (
+                                        <p>{mergePlan.reassignedIds} module ID(s) already in use will be replaced.</p>
+                                    )}
+                                    {mergePlan.unboundModules > 0 && (
+                                        <p>
+                                            {mergePlan.unboundModules} campsite(s) will be unbound because
+                                            their site is already on this map.
+                                        </p>
+                                    )}
+                                </div>
+                            )}
+                        </>
+                    )}
+                </div>
+
+                <div className="export-dialog__footer">
+                    <button
+                        className="export-dialog__button export-dialog__button--secondary"
+                        onClick={handleClose}
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        className="export-dialog__button export-dialog__button--primary"
+                        onClick={handleImport}
+                        disabled={!canImport}
+                    >
+                        <Check size={16} />
+                        Import
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
+
+export default ImportDialog;
@@ -1,10 +1,11 @@
 /**
  * Layers Panel
- * Displays modules sorted by z-index for layer management.
- * Supports visibility toggle, lock toggle, and reordering.
+ * Displays modules sorted by z-index for layer management, nested in their
+ * groups. Supports visibility toggle, lock toggle, reordering, and dragging
+ * modules and groups into other groups.
  */
 
-import { useCallback, useMemo } from 'react';
+import { useCallback, useMemo, useState } from 'react';
 import {
     Eye,
     EyeOff,
@@ -12,14 +13,19 @@ import {
     Unlock,
     ChevronUp,
     ChevronDown,
+    ChevronRight,
     Layers,
     GripVertical,
+    Folder,
+    FolderPlus,
+    FolderMinus,
 } from 'lucide-react';
-import type { AnyModule } from '@/types';
+import type { AnyModule, ModuleGroup } from '@/types';
 import { useEditorStore, useMapStore, selectModulesSorted } from '@/stores';
-import { ReorderCommand } from '@/commands';
-import { useCommandHistory } from '@/hooks';
+import { ReorderCommand, type Command } from '@/commands';
+import { useModuleGroups } from '@/hooks';
 import { getModuleColor } from '@/utils/moduleFactory';
+import { buildLayerTree, getGroupModules, getModuleGroupId, getParentGroupId, type LayerNode } from '@/utils/moduleGroups';
 
 // ============================================================================
 // TYPES
@@ -27,13 +33,22 @@ import { getModuleColor } from '@/utils/moduleFactory';
 
 interface LayersPanelProps {
     onClose?: () => void;
+    executeCommand: (command: Command) => void;
 }
 
+type DragItem = { kind: 'module' | 'group'; id: string };
+
+/** Where a dragged row lands: above the target row, or inside a group */
+type DropPosition = 'before' | 'inside';
+
+/** Indent per level of nesting, in pixels */
+const INDENT = 16;
+
 // ============================================================================
 // MAIN COMPONENT
 // ============================================================================
 
-export function LayersPanel({ onClose: _onClose }: LayersPanelProps) {
+export function LayersPanel({ onClose: _onClose, executeCommand }: LayersPanelProps) {
     const {
         selectedIds,
         setSelection,
@@ -44,14 +59,30 @@ export function LayersPanel({ onClose: _onClose }: LayersPanelProps) {
         isModuleLocked,
     } = useEditorStore();
 
+    const currentMap = useMapStore((state) => state.currentMap);
     const modules = useMapStore(selectModulesSorted);
-    const { executeCommand } = useCommandHistory();
+    const {
+        groupModules,
+        ungroup,
+        renameGroup,
+        moveModulesToGroup,
+        moveGroupTo,
+        toggleGroupLock,
+        toggleGroupVisibility,
+    } = useModuleGroups({ executeCommand });
+
+    const [collapsedIds, setCollapsedIds] = useState<Set<string>>(new Set());
+    const [renamingId, setRenamingId] = useState<string | null>(null);
+    const [dragItem, setDragItem] = useState<DragItem | null>(null);
+    const [dropTarget, setDropTarget] = useState<{ id: string; position: DropPosition } | null>(null);
 
     // Sort modules by z-index (highest first for visual layering)
     const sortedModules = useMemo(() => {
         return [...modules].sort((a, b) => b.zIndex - a.zIndex);
     }, [modules]);
 
+    const tree = useMemo(() => (currentMap ? buildLayerTree(currentMap) : []), [currentMap]);
+
     // Select a module (with shift for add to selection)
     const handleSelect = useCallback(
         (id: string, event: React.MouseEvent) => {
@@ -64,6 +95,35 @@ export function LayersPanel({ onClose: _onClose }: LayersPanelProps) {
         [setSelection, toggleSelection]
     );
 
+    // Select every unlocked module in a group
+    const handleSelectGroup = useCallback(
+        (groupId: string) => {
+            if (!currentMap) return;
+            setSelection(getGroupModules(currentMap, groupId).filter((module) => !module.locked).map((module) => module.id));
+        },
+        [currentMap, setSelection]
+    );
+
+    const handleToggleCollapsed = useCallback((groupId: string) => {
+        setCollapsedIds((prev) => {
+            const next = new Set(prev);
+            if (next.has(groupId)) {
+                next.delete(groupId);
+            } else {
+                next.add(groupId);
+            }
+            return next;
+        });
+    }, []);
+
+    const handleRename = useCallback(
+        (groupId: string, name: string) => {
+            renameGroup(groupId, name);
+            setRenamingId(null);
+        },
+        [renameGroup]
+    );
+
     // Move module up in z-order
     const handleMoveUp = useCallback(
         (module: AnyModule) => {
@@ -94,6 +154,61 @@ export function LayersPanel({ onClose: _onClose }: LayersPanelProps) {
         [sortedModules, executeCommand]
     );
 
+    // Drag and drop: rows take drops above them, group rows also take drops into them
+    const handleDragOver = useCallback(
+        (event: React.DragEvent, id: string, isGroup: boolean) => {
+            if (!dragItem || dragItem.id === id) return;
+            event.preventDefault();
+            event.stopPropagation();
+
+            const rect = event.currentTarget.getBoundingClientRect();
+            const position: DropPosition = isGroup && event.clientY - rect.top > rect.height / 3 ? 'inside' : 'before';
+            if (dropTarget?.id !== id || dropTarget.position !== position) {
+                setDropTarget({ id, position });
+            }
+        },
+        [dragItem, dropTarget]
+    );
+
+    const handleDragEnd = useCallback(() => {
+        setDragItem(null);
+        setDropTarget(null);
+    }, []);
+
+    /**
+     * Drop the dragged row on a target; with no target it goes to the top level.
+     * Dragging a selected module carries the rest of the selection with it.
+     */
+    const handleDrop = useCallback(
+        (event: React.DragEvent, target?: LayerNode) => {
+            event.preventDefault();
+            event.stopPropagation();
+            const position = dropTarget?.position ?? 'before';
+            handleDragEnd();
+            if (!dragItem || !currentMap) return;
+
+            const groups = currentMap.groups ?? [];
+            let parentId: string | undefined;
+            if (target?.kind === 'group') {
+                parentId = position === 'inside' ? target.group.id : getParentGroupId(groups, target.group.id);
+            } else if (target?.kind === 'module') {
+                parentId = getModuleGroupId(currentMap, target.module);
+            }
+
+            if (dragItem.kind === 'module') {
+                const ids = selectedIds.includes(dragItem.id) ? selectedIds : [dragItem.id];
+                moveModulesToGroup(ids, parentId, target?.kind === 'module' ? target.module.id : undefined);
+            } else {
+                const beforeGroupId = target?.kind === 'group' && position === 'before' ? target.group.id : undefined;
+                moveGroupTo(dragItem.id, parentId, beforeGroupId);
+            }
+        },
+        [dragItem, dropTarget, currentMap, selectedIds, moveModulesToGroup, moveGroupTo, handleDragEnd]
+    );
+
+    const getDropClass = (id: string) =>
+        dropTarget?.id === id ? `layers-panel__item--drop-${dropTarget.position}` : '';
+
     // Get module display name
     const getModuleName = (module: AnyModule): string => {
         return (
@@ -102,125 +217,256 @@ export function LayersPanel({ onClose: _onClose }: LayersPanelProps) {
         );
     };
 
+    const renderGroup = (group: ModuleGroup, children: LayerNode[], depth: number) => {
+        const members = currentMap ? getGroupModules(currentMap, group.id) : [];
+        const isSelected = members.length > 0 && members.every((module) => selectedIds.includes(module.id));
+        const isHidden = members.length > 0 && members.every((module) => !module.visible);
+        const isLocked = members.length > 0 && members.every((module) => module.locked);
+        const isCollapsed = collapsedIds.has(group.id);
+
+        return (
+            <li key={group.id}>
+                <div
+                    className={`layers-panel__item layers-panel__item--group ${isSelected ? 'layers-panel__item--selected' : ''} ${isHidden ? 'layers-panel__item--hidden' : ''} ${isLocked ? 'layers-panel__item--locked' : ''} ${getDropClass(group.id)}`}
+                    style={{ paddingLeft: 12 + depth * INDENT }}
+                    onClick={() => handleSelectGroup(group.id)}
+                    draggable={renamingId !== group.id}
+                    onDragStart={() => setDragItem({ kind: 'group', id: group.id })}
+                    onDragOver={(e) => handleDragOver(e, group.id, true)}
+                    onDrop={(e) => handleDrop(e, { kind: 'group', group, children })}
+                    onDragEnd={handleDragEnd}
+                >
+                    <button
+                        className="layers-panel__group-toggle"
+                        onClick={(e) => {
+                            e.stopPropagation();
+                            handleToggleCollapsed(group.id);
+                        }}
+                        aria-label={isCollapsed ? 'Expand group' : 'Collapse group'}
+                        aria-expanded={!isCollapsed}
+                    >
+                        {isCollapsed ? <ChevronRight size={14} /> : <ChevronDown size={14} />}
+                    </button>
+
+                    <Folder size={14} className="layers-panel__group-icon" />
+
+                    {renamingId === group.id ? (
+                        <input
+                            className="layers-panel__rename-input"
+                            defaultValue={group.name}
+                            autoFocus
+                            aria-label="Group name"
+                            onClick={(e) => e.stopPropagation()}
+                            onBlur={(e) => handleRename(group.id, e.target.value)}
+                            onKeyDown={(e) => {
+                                if (e.key === 'Enter') handleRename(group.id, e.currentTarget.value);
+                                if (e.key === 'Escape') setRenamingId(null);
+                            }}
+                        />
+                    ) : (
+                        <span
+                            className="layers-panel__item-name layers-panel__item-name--group"
+                            onDoubleClick={(e) => {
+                                e.stopPropagation();
+                                setRenamingId(group.id);
+                            }}
+                            title="Double-click to rename"
+                        >
+                            {group.name}
+                            <span className="layers-panel__count">{members.length}</span>
+                        </span>
+                    )}
+
+                    <div className="layers-panel__item-actions">
+                        <button
+                            onClick={(e) => {
+                                e.stopPropagation();
+                                ungroup(group.id);
+                            }}
+                            title="Ungroup"
+                            aria-label="Ungroup"
+                        >
+                            <FolderMinus size={14} />
+                        </button>
+                        <button
+                            onClick={(e) => {
+                                e.stopPropagation();
+                                toggleGroupVisibility(group.id);
+                            }}
+                            disabled={members.length === 0}
+                            title={isHidden ? 'Show group' : 'Hide group'}
+                            aria-label={isHidden ? 'Show group' : 'Hide group'}
+                        >
+                            {isHidden ? <EyeOff size={14} /> : <Eye size={14} />}
+                        </button>
+                        <button
+                            onClick={(e) => {
+                                e.stopPropagation();
+                                toggleGroupLock(group.id);
+                            }}
+                            disabled={members.length === 0}
+                            title={isLocked ? 'Unlock group' : 'Lock group'}
+                            aria-label={isLocked ? 'Unlock group' : 'Lock group'}
+                        >
+                            {isLocked ? <Lock size={14} /> : <Unlock size={14} />}
+                        </button>
+                    </div>
+                </div>
+
+                {!isCollapsed && children.length > 0 && (
+                    <ul className="layers-panel__list">
+                        {children.map((child) => renderNode(child, depth + 1))}
+                    </ul>
+                )}
+            </li>
+        );
+    };
+
+    const renderModule = (module: AnyModule, depth: number) => {
+        const idx = sortedModules.findIndex((m) => m.id === module.id);
+        const isSelected = selectedIds.includes(module.id);
+        const isHidden = isModuleHidden(module.id);
+        const isLocked = isModuleLocked(module.id);
+        const color = getModuleColor(module.type);
+
+        return (
+            <li
+                key={module.id}
+                className={`layers-panel__item ${isSelected ? 'layers-panel__item--selected' : ''} ${isHidden ? 'layers-panel__item--hidden' : ''} ${isLocked ? 'layers-panel__item--locked' : ''} ${getDropClass(module.id)}`}
+                style={{ paddingLeft: 12 + depth * INDENT }}
+                onClick={(e) => handleSelect(module.id, e)}
+                draggable
+                onDragStart={() => setDragItem({ kind: 'module', id: module.id })}
+                onDragOver={(e) => handleDragOver(e, module.id, false)}
+                onDrop={(e) => handleDrop(e, { kind: 'module', module })}
+                onDragEnd={handleDragEnd}
+            >
+                <div className="layers-panel__item-drag">
+                    <GripVertical size={14} />
+                </div>
+
+                <div
+                    className="layers-panel__item-color"
+                    style={{ backgroundColor: color }}
+                />
+
+                <span className={`layers-panel__item-name ${isLocked ? 'layers-panel__item-name--locked' : ''}`}>
+                    {isLocked && (
+                        <Lock size={12} className="layers-panel__item-lock-icon" />
+                    )}
+                    {getModuleName(module)}
+                </span>
+
+                <div className="layers-panel__item-actions">
+                    <button
+                        onClick={(e) => {
+                            e.stopPropagation();
+                            handleMoveUp(module);
+                        }}
+                        disabled={idx === 0}
+                        title="Move up"
+                        aria-label="Move layer up"
+                    >
+                        <ChevronUp size={14} />
+                    </button>
+                    <button
+                        onClick={(e) => {
+                            e.stopPropagation();
+                            handleMoveDown(module);
+                        }}
+                        disabled={
+                            idx === sortedModules.length - 1
+                        }
+                        title="Move down"
+                        aria-label="Move layer down"
+                    >
+                        <ChevronDown size={14} />
+                    </button>
+                    <button
+                        onClick={(e) => {
+                            e.stopPropagation();
+                            toggleModuleVisibility(
+                                module.id,
+                                executeCommand
+                            );
+                        }}
+                        title={
+                            isHidden
+                                ? 'Show layer'
+                                : 'Hide layer'
+                        }
+                        aria-label={
+                            isHidden
+                                ? 'Show layer'
+                                : 'Hide layer'
+                        }
+                    >
+                        {isHidden ? (
+                            <EyeOff size={14} />
+                        ) : (
+                            <Eye size={14} />
+                        )}
+                    </button>
+                    <button
+                        onClick={(e) => {
+                            e.stopPropagation();
+                            toggleModuleLock(module.id, executeCommand);
+                        }}
+                        title={
+                            isLocked
+                                ? 'Unlock layer'
+                                : 'Lock layer'
+                        }
+                        aria-label={
+                            isLocked
+                                ? 'Unlock layer'
+                                : 'Lock layer'
+                        }
+                    >
+                        {isLocked ? (
+                            <Lock size={14} />
+                        ) : (
+                            <Unlock size={14} />
+                        )}
+                    </button>
+                </div>
+            </li>
+        );
+    };
+
+    const renderNode = (node: LayerNode, depth: number): React.ReactNode =>
+        node.kind === 'group' ? renderGroup(node.group, node.children, depth) : renderModule(node.module, depth);
+
     return (
         <div className="layers-panel">
             <div className="layers-panel__header">
                 <Layers size={18} />
                 <h3 className="layers-panel__title">Layers</h3>
                 <span className="layers-panel__count">{modules.length}</span>
+                <div className="layers-panel__item-actions">
+                    <button
+                        onClick={() => groupModules(selectedIds)}
+                        disabled={selectedIds.length === 0}
+                        title="Group selection (Ctrl+G)"
+                        aria-label="Group selection"
+                    >
+                        <FolderPlus size={16} />
+                    </button>
+                </div>
             </div>
 
-            <div className="layers-panel__content">
-                {sortedModules.length === 0 ? (
+            <div
+                className="layers-panel__content"
+                onDragOver={(e) => dragItem && e.preventDefault()}
+                onDrop={(e) => handleDrop(e)}
+            >
+                {tree.length === 0 ? (
                     <div className="layers-panel__empty">
                         <p>No modules on canvas</p>
                     </div>
                 ) : (
                     <ul className="layers-panel__list">
-                        {sortedModules.map((module, idx) => {
-                            const isSelected = selectedIds.includes(module.id);
-                            const isHidden = isModuleHidden(module.id);
-                            const isLocked = isModuleLocked(module.id);
-                            const color = getModuleColor(module.type);
-
-                            return (
-                                <li
-                                    key={module.id}
-                                    className={`layers-panel__item ${isSelected ? 'layers-panel__item--selected' : ''} ${isHidden ? 'layers-panel__item--hidden' : ''} ${isLocked ? 'layers-panel__item--locked' : ''}`}
-                                    onClick={(e) => handleSelect(module.id, e)}
-                                >
-                                    <div className="layers-panel__item-drag">
-                                        <GripVertical size={14} />
-                                    </div>
-
-                                    <div
-                                        className="layers-panel__item-color"
-                                        style={{ backgroundColor: color }}
-                                    />
-
-                                    <span className={`layers-panel__item-name ${isLocked ? 'layers-panel__item-name--locked' : ''}`}>
-                                        {isLocked && (
-                                            <Lock size={12} className="layers-panel__item-lock-icon" />
-                                        )}
-                                        {getModuleName(module)}
-                                    </span>
-
-                                    <div className="layers-panel__item-actions">
-                                        <button
-                                            onClick={(e) => {
-                                                e.stopPropagation();
-                                                handleMoveUp(module);
-                                            }}
-                                            disabled={idx === 0}
-                                            title="Move up"
-                                            aria-label="Move layer up"
-                                        >
-                                            <ChevronUp size={14} />
-                                        </button>
-                                        <button
-                                            onClick={(e) => {
-                                                e.stopPropagation();
-                                                handleMoveDown(module);
-                                            }}
-                                            disabled={
-                                                idx === sortedModules.length - 1
-                                            }
-                                            title="Move down"
-                                            aria-label="Move layer down"
-                                        >
-                                            <ChevronDown size={14} />
-                                        </button>
-                                        <button
-                                            onClick={(e) => {
-                                                e.stopPropagation();
-                                                toggleModuleVisibility(
-                                                    module.id,
-                                                    executeCommand
-                                                );
-                                            }}
-                                            title={
-                                                isHidden
-                                                    ? 'Show layer'
-                                                    : 'Hide layer'
-                                            }
-                                            aria-label={
-                                                isHidden
-                                                    ? 'Show layer'
-                                                    : 'Hide layer'
-                                            }
-                                        >
-                                            {isHidden ? (
-                                                <EyeOff size={14} />
-                                            ) : (
-                                                <Eye size={14} />
-                                            )}
-                                        </button>
-                                        <button
-                                            onClick={(e) => {
-                                                e.stopPropagation();
-                                                toggleModuleLock(module.id, executeCommand);
-                                            }}
-                                            title={
-                                                isLocked
-                                                    ? 'Unlock layer'
-                                                    : 'Lock layer'
-                                            }
-                                            aria-label={
-                                                isLocked
-                                                    ? 'Unlock layer'
-                                                    : 'Lock layer'
-                                            }
-                                        >
-                                            {isLocked ? (
-                                                <Lock size={14} />
-                                            ) : (
-                                                <Unlock size={14} />
-                                            )}
-                                        </button>
-                                    </div>
-                                </li>
-                            );
-                        })}
+                        {tree.map((node) => renderNode(node, 0))}
                     </ul>
                 )}
             </div>
@@ -0,0 +1,207 @@
+/**
+ * Measurement Panel
+ * Measuring in real-world units: the measure tool and its result, the
+ * dimensions pinned to the map, and the area and length of the selected
+ * modules, in metres or feet.
+ */
+
+import { useMemo } from 'react';
+import { RulerDimensionLine, X, Trash2, Pin } from 'lucide-react';
+import { useEditorStore } from '@/stores/editorStore';
+import { useMapStore } from '@/stores/mapStore';
+import { MeasurementUnit } from '@/types';
+import {
+    formatArea,
+    formatLength,
+    getDimensionLength,
+    getMeasurementUnit,
+    measureModule,
+} from '@/utils/measurement';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface MeasurementPanelProps {
+    onClose?: () => void;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const UNIT_OPTIONS: { value: MeasurementUnit; label: string }[] = [
+    { value: MeasurementUnit.METERS, label: 'Metres' },
+    { value: MeasurementUnit.FEET, label: 'Feet' },
+];
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+export function MeasurementPanel({ onClose }: MeasurementPanelProps) {
+    const currentMap = useMapStore((state) => state.currentMap);
+    const updateMap = useMapStore((state) => state.updateMap);
+    const {
+        activeTool,
+        setActiveTool,
+        measurement,
+        setMeasurement,
+        layerVisibility,
+        toggleLayer,
+        selectedIds,
+    } = useEditorStore();
+
+    const selectedModules = useMemo(
+        () => currentMap?.modules.filter((module) => selectedIds.includes(module.id)) ?? [],
+        [currentMap, selectedIds]
+    );
+
+    if (!currentMap) return null;
+
+    const unit = getMeasurementUnit(currentMap);
+    const dimensions = currentMap.dimensions ?? [];
+    const isMeasuring = activeTool === 'measure';
+    const measurements = selectedModules.map((module) => ({ module, size: measureModule(module, currentMap.scale) }));
+    const totalArea = measurements.reduce((sum, { size }) => sum + size.area, 0);
+
+    const handlePin = () => {
+        if (!measurement) return;
+        updateMap({ dimensions: [...dimensions, { id: crypto.randomUUID(), ...measurement }] });
+        setMeasurement(null);
+    };
+
+    return (
+        <div className="layers-panel measurement-panel">
+            <div className="layers-panel__header">
+                <RulerDimensionLine size={18} />
+                <h3 className="layers-panel__title">Measurements</h3>
+                {onClose && (
+                    <button
+                        className="site-binding-panel__close"
+                        onClick={onClose}
+                        aria-label="Close measurements"
+                    >
+                        <X size={16} />
+                    </button>
+                )}
+            </div>
+
+            <div className="layers-panel__content">
+                <div className="geo-reference-panel__content">
+                    <div className="properties-panel__field">
+                        <label htmlFor="measurement-unit">Units</label>
+                        <select
+                            id="measurement-unit"
+                            value={unit}
+                            onChange={(e) => updateMap({ measurementUnit: e.target.value as MeasurementUnit })}
+                        >
+                            {UNIT_OPTIONS.map(({ value, label }) => (
+                                <option key={value} value={value}>{label}</option>
+                            ))}
+                        </select>
+                    </div>
+
+                    <button
+                        className={`export-dialog__button ${isMeasuring ? 'export-dialog__button--secondary' : 'export-dialog__button--primary'} measurement-panel__tool`}
+                        onClick={() => setActiveTool(isMeasuring ? 'select' : 'measure')}
+                    >
+                        {isMeasuring ? 'Stop measuring' : 'Measure distance (M)'}
+                    </button>
+
+                    {isMeasuring && !measurement && (
+                        <p className="geo-reference-panel__status">
+                            Drag across the map to measure. Hold Shift to measure at 45° steps.
+                        </p>
+                    )}
+
+                    {measurement && (
+                        <div className="measurement-panel__result">
+                            <span className="measurement-panel__value">
+                                {formatLength(getDimensionLength(measurement, currentMap.scale), unit)}
+                            </span>
+                            <button
+                                className="geo-reference-panel__link"
+                                onClick={handlePin}
+                                title="Pin as dimension (Enter)"
+                            >
+                                <Pin size={14} />
+                                Pin as dimension
+                            </button>
+                        </div>
+                    )}
+
+                    <label className="measurement-panel__toggle">
+                        <input
+                            type="checkbox"
+                            checked={layerVisibility.dimensions}
+                            onChange={() => toggleLayer('dimensions')}
+                        />
+                        <span>Show dimensions on map</span>
+                    </label>
+                </div>
+
+                {measurements.length > 0 && (
+                    <div className="site-binding-panel__group">
+                        <h4 className="site-binding-panel__group-title">
+                            Selection
+                            {measurements.length > 1 && (
+                                <span className="site-binding-panel__detail">{formatArea(totalArea, unit)} total</span>
+                            )}
+                        </h4>
+                        <ul className="layers-panel__list">
+                            {measurements.map(({ module, size }) => (
+                                <li key={module.id} className="layers-panel__item">
+                                    <span className="layers-panel__item-name">
+                                        {String(module.metadata.name ?? module.type)}
+                                        <span className="site-binding-panel__detail">
+                                            {size.length !== undefined
+                                                ? `${formatLength(size.length, unit)} long, ${formatArea(size.area, unit)}`
+                                                : `${formatArea(size.area, unit)}, ${formatLength(size.perimeter, unit)} around`}
+                                        </span>
+                                    </span>
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                )}
+
+                <div className="site-binding-panel__group">
+                    <h4 className="site-binding-panel__group-title">
+                        Dimensions
+                        <span className="layers-panel__count">{dimensions.length}</span>
+                    </h4>
+                    {dimensions.length === 0 ? (
+                        <div className="layers-panel__empty">
+                            <p>Measure a distance and pin it to keep it on the map</p>
+                        </div>
+                    ) : (
+                        <ul className="layers-panel__list">
+                            {dimensions.map((dimension, index) => (
+                                <li key={dimension.id} className="layers-panel__item">
+                                    <span className="layers-panel__item-name">
+                                        Dimension {index + 1}
+                                        <span className="site-binding-panel__detail">
+                                            {formatLength(getDimensionLength(dimension, currentMap.scale), unit)}
+                                        </span>
+                                    </span>
+                                    <div className="layers-panel__item-actions">
+                                        <button
+                                            onClick={() => updateMap({ dimensions: dimensions.filter((item) => item.id !== dimension.id) })}
+                                            title="Remove dimension"
+                                            aria-label={`Remove dimension ${index + 1}`}
+                                        >
+                                            <Trash2 size={14} />
+                                        </button>
+                                    </div>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
+
+export default MeasurementPanel;
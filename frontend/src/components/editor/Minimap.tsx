@@ -0,0 +1,213 @@
+/**
+ * Minimap Component
+ * Small overview of the whole map in the corner of the editor, with the part
+ * currently in view outlined. Click to jump to a spot, or drag to pan.
+ * Toggled with N.
+ */
+
+import React, { useRef, useState, useEffect, useMemo, useCallback } from 'react';
+import * as fabric from 'fabric';
+import { useMapStore } from '@/stores/mapStore';
+import type { AnyModule, Position, Size } from '@/types';
+import { getModuleColor } from '@/utils/moduleFactory';
+import { getAbsolutePoints, isPathModule } from '@/utils/modulePaths';
+import { getMinimapBounds, getPanToCenter, getViewportBounds } from '@/utils/minimap';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface MinimapProps {
+    canvas: fabric.Canvas | null;
+}
+
+interface ViewState {
+    pan: Position;
+    zoom: number;
+    size: Size;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const MAX_WIDTH = 200; // pixels
+const MAX_HEIGHT = 150;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function readView(canvas: fabric.Canvas): ViewState {
+    const vpt = canvas.viewportTransform;
+    return {
+        pan: { x: vpt[4], y: vpt[5] },
+        zoom: canvas.getZoom(),
+        size: { width: canvas.getWidth(), height: canvas.getHeight() },
+    };
+}
+
+function isSameView(a: ViewState | null, b: ViewState): boolean {
+    return !!a &&
+        a.pan.x === b.pan.x &&
+        a.pan.y === b.pan.y &&
+        a.zoom === b.zoom &&
+        a.size.width === b.size.width &&
+        a.size.height === b.size.height;
+}
+
+function renderModule(module: AnyModule) {
+    const color = getModuleColor(module.type);
+
+    if (isPathModule(module)) {
+        const points = getAbsolutePoints(module).map((point) => `${point.x},${point.y}`).join(' ');
+        return module.type === 'zone'
+            ? <polygon key={module.id} points={points} fill={color} fillOpacity={0.3} stroke={color} vectorEffect="non-scaling-stroke" />
+            : <polyline key={module.id} points={points} fill="none" stroke={color} strokeWidth={2} vectorEffect="non-scaling-stroke" />;
+    }
+
+    const { x, y } = module.position;
+    const { width, height } = module.size;
+    return (
+        <rect
+            key={module.id}
+            x={x}
+            y={y}
+            width={width}
+            height={height}
+            fill={color}
+            transform={`rotate(${module.rotation} ${x + width / 2} ${y + height / 2})`}
+        />
+    );
+}
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+export function Minimap({ canvas }: MinimapProps) {
+    const currentMap = useMapStore((state) => state.currentMap);
+    const [view, setView] = useState<ViewState | null>(null);
+
+    // Offset from the centre of the view to where a drag started, in map coordinates
+    const dragOffsetRef = useRef<Position | null>(null);
+
+    // Follow every pan and zoom of the editor canvas
+    useEffect(() => {
+        if (!canvas) return;
+
+        const handleRender = () => {
+            const next = readView(canvas);
+            setView((prev) => (isSameView(prev, next) ? prev : next));
+        };
+
+        handleRender();
+        canvas.on('after:render', handleRender);
+        return () => {
+            canvas.off('after:render', handleRender);
+        };
+    }, [canvas]);
+
+    const modules = currentMap?.modules;
+    const imageSize = currentMap?.imageSize;
+    const bounds = useMemo(
+        () => (imageSize ? getMinimapBounds(imageSize, modules ?? []) : null),
+        [imageSize, modules]
+    );
+    const shapes = useMemo(
+        () => (modules ?? []).filter((module) => module.visible).sort((a, b) => a.zIndex - b.zIndex).map(renderModule),
+        [modules]
+    );
+
+    const toMapPoint = useCallback((e: React.PointerEvent<SVGSVGElement>): Position | null => {
+        if (!bounds) return null;
+        const rect = e.currentTarget.getBoundingClientRect();
+        return {
+            x: bounds.minX + ((e.clientX - rect.left) / rect.width) * (bounds.maxX - bounds.minX),
+            y: bounds.minY + ((e.clientY - rect.top) / rect.height) * (bounds.maxY - bounds.minY),
+        };
+    }, [bounds]);
+
+    const centerOn = useCallback((point: Position) => {
+        if (!canvas) return;
+        const { zoom, size } = readView(canvas);
+        const pan = getPanToCenter(point, zoom, size);
+        const vpt = canvas.viewportTransform;
+        canvas.setViewportTransform([vpt[0], vpt[1], vpt[2], vpt[3], pan.x, pan.y]);
+        canvas.requestRenderAll();
+    }, [canvas]);
+
+    if (!currentMap || !bounds || !view) {
+        return null;
+    }
+
+    const viewport = getViewportBounds(view.pan, view.zoom, view.size);
+    const viewportCenter = { x: (viewport.minX + viewport.maxX) / 2, y: (viewport.minY + viewport.maxY) / 2 };
+    const mapWidth = bounds.maxX - bounds.minX;
+    const mapHeight = bounds.maxY - bounds.minY;
+    const scale = Math.min(MAX_WIDTH / mapWidth, MAX_HEIGHT / mapHeight);
+
+    const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+        const point = toMapPoint(e);
+        if (!point || e.button !== 0) return;
+        e.currentTarget.setPointerCapture(e.pointerId);
+
+        // Dragging the outline keeps hold of it; anywhere else jumps there first
+        const isInView = point.x >= viewport.minX && point.x <= viewport.maxX &&
+            point.y >= viewport.minY && point.y <= viewport.maxY;
+        dragOffsetRef.current = isInView
+            ? { x: point.x - viewportCenter.x, y: point.y - viewportCenter.y }
+            : { x: 0, y: 0 };
+        if (!isInView) centerOn(point);
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+        const offset = dragOffsetRef.current;
+        const point = toMapPoint(e);
+        if (!offset || !point) return;
+        centerOn({ x: point.x - offset.x, y: point.y - offset.y });
+    };
+
+    const handlePointerUp = (e: React.PointerEvent<SVGSVGElement>) => {
+        dragOffsetRef.current = null;
+        if (e.currentTarget.hasPointerCapture(e.pointerId)) {
+            e.currentTarget.releasePointerCapture(e.pointerId);
+        }
+    };
+
+    return (
+        <div className="minimap">
+            <svg
+                className="minimap__svg"
+                width={mapWidth * scale}
+                height={mapHeight * scale}
+                viewBox={`${bounds.minX} ${bounds.minY} ${mapWidth} ${mapHeight}`}
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerUp}
+                role="img"
+                aria-label="Minimap: click or drag to move the view"
+            >
+                <rect
+                    className="minimap__map"
+                    x={0}
+                    y={0}
+                    width={currentMap.imageSize.width}
+                    height={currentMap.imageSize.height}
+                />
+                {shapes}
+                <rect
+                    className="minimap__viewport"
+                    x={viewport.minX}
+                    y={viewport.minY}
+                    width={viewport.maxX - viewport.minX}
+                    height={viewport.maxY - viewport.minY}
+                    vectorEffect="non-scaling-stroke"
+                />
+            </svg>
+        </div>
+    );
+}
+
+export default Minimap;
@@ -1,6 +1,6 @@
 /**
  * Module Toolbox
- * Collapsible palette showing available module types.
+ * Collapsible palette showing available module types and the template library.
  * Supports click-to-add and drag-and-drop to canvas.
  */
 
@@ -17,12 +17,16 @@ import {
     TreePine,
     Package,
     Plus,
+    Spline,
+    Hexagon,
     ChevronLeft,
     ChevronRight,
 } from 'lucide-react';
 import type { ModuleType } from '@/types';
 import { useEditorStore } from '@/stores';
 import { getModuleColor } from '@/utils/moduleFactory';
+import type { PathModuleType } from '@/utils/modulePaths';
+import { TemplateGallery } from './TemplateGallery';
 
 // ============================================================================
 // TYPES
@@ -35,10 +39,19 @@ interface ModuleTemplate {
     description: string;
 }
 
+interface DrawTemplate {
+    type: PathModuleType;
+    label: string;
+    icon: React.ElementType;
+    description: string;
+}
+
 interface ModuleToolboxProps {
     onAddModule?: (type: ModuleType) => void;
 }
 
+type ToolboxTab = 'modules' | 'templates';
+
 // ============================================================================
 // CONSTANTS
 // ============================================================================
@@ -112,6 +125,21 @@ const MODULE_TEMPLATES: ModuleTemplate[] = [
     },
 ];
 
+const DRAW_TEMPLATES: DrawTemplate[] = [
+    {
+        type: 'road',
+        label: 'Road Path',
+        icon: Spline,
+        description: 'Draw a road or trail along a path',
+    },
+    {
+        type: 'zone',
+        label: 'Zone',
+        icon: Hexagon,
+        description: 'Outline an area such as a no-fire zone or flood area',
+    },
+];
+
 // ============================================================================
 // COMPONENT
 // ============================================================================
@@ -119,8 +147,9 @@ const MODULE_TEMPLATES: ModuleTemplate[] = [
 export function ModuleToolbox({ onAddModule }: ModuleToolboxProps) {
     const [isCollapsed, setIsCollapsed] = useState(false);
     const [isDragging, setIsDragging] = useState(false);
+    const [tab, setTab] = useState<ToolboxTab>('modules');
 
-    const { moduleToAdd, setModuleToAdd, activeTool, setActiveTool } =
+    const { moduleToAdd, setModuleToAdd, shapeToDraw, setShapeToDraw, activeTool, setActiveTool } =
         useEditorStore();
 
     const handleModuleClick = useCallback(
@@ -140,6 +169,13 @@ export function ModuleToolbox({ onAddModule }: ModuleToolboxProps) {
         [moduleToAdd, setModuleToAdd, setActiveTool, onAddModule]
     );
 
+    const handleDrawClick = useCallback(
+        (type: PathModuleType) => {
+            setShapeToDraw(shapeToDraw === type ? null : type);
+        },
+        [shapeToDraw, setShapeToDraw]
+    );
+
     const handleDragStart = useCallback(
         (e: React.DragEvent, type: ModuleType) => {
             setIsDragging(true);
@@ -189,59 +225,126 @@ export function ModuleToolbox({ onAddModule }: ModuleToolboxProps) {
             </div>
 
             <div className="module-toolbox__content">
-                <p className="module-toolbox__hint">
-                    Click to add or drag to canvas
-                </p>
-
-                <div className="module-toolbox__grid">
-                    {MODULE_TEMPLATES.map((template) => {
-                        const Icon = template.icon;
-                        const isSelected = moduleToAdd === template.type;
-                        const color = getModuleColor(template.type);
-
-                        return (
-                            <button
-                                key={template.type}
-                                className={`module-toolbox__item ${isSelected ? 'module-toolbox__item--selected' : ''}`}
-                                onClick={() => handleModuleClick(template.type)}
-                                draggable
-                                onDragStart={(e) =>
-                                    handleDragStart(e, template.type)
-                                }
-                                onDragEnd={handleDragEnd}
-                                title={template.description}
-                                aria-pressed={isSelected}
-                                style={
-                                    {
-                                        '--module-color': color,
-                                    } as React.CSSProperties
-                                }
-                            >
-                                <div
-                                    className="module-toolbox__item-icon"
-                                    style={{ color }}
-                                >
-                                    <Icon size={24} />
-                                </div>
-                                <span className="module-toolbox__item-label">
-                                    {template.label}
-                                </span>
-                            </button>
-                        );
-                    })}
+                <div className="module-toolbox__tabs" role="tablist">
+                    {(['modules', 'templates'] as const).map((item) => (
+                        <button
+                            key={item}
+                            role="tab"
+                            aria-selected={tab === item}
+                            className={`module-toolbox__tab ${tab === item ? 'module-toolbox__tab--active' : ''}`}
+                            onClick={() => setTab(item)}
+                        >
+                            {item === 'modules' ? 'Modules' : 'Templates'}
+                        </button>
+                    ))}
                 </div>
 
-                {activeTool === 'add' && moduleToAdd && (
-                    <div className="module-toolbox__status">
-                        Click on canvas to place{' '}
-                        <strong>
-                            {
-                                MODULE_TEMPLATES.find(
-                                    (t) => t.type === moduleToAdd
-                                )?.label
-                            }
-                        </strong>
-                    </div>
+                {tab === 'templates' ? (
+                    <>
+                        <p className="module-toolbox__hint">
+                            Drag a template to the canvas
+                        </p>
+                        <TemplateGallery />
+                    </>
+                ) : (
+                    <>
+                        <p className="module-toolbox__hint">
+                            Click to add or drag to canvas
+                        </p>
+
+                        <div className="module-toolbox__grid">
+                            {MODULE_TEMPLATES.map((template) => {
+                                const Icon = template.icon;
+                                const isSelected = moduleToAdd === template.type;
+                                const color = getModuleColor(template.type);
+
+                                return (
+                                    <button
+                                        key={template.type}
+                                        className={`module-toolbox__item ${isSelected ? 'module-toolbox__item--selected' : ''}`}
+                                        onClick={() => handleModuleClick(template.type)}
+                                        draggable
+                                        onDragStart={(e) =>
+                                            handleDragStart(e, template.type)
+                                        }
+                                        onDragEnd={handleDragEnd}
+                                        title={template.description}
+                                        aria-pressed={isSelected}
+                                        style={
+                                            {
+                                                '--module-color': color,
+                                            } as React.CSSProperties
+                                        }
+                                    >
+                                        <div
+                                            className="module-toolbox__item-icon"
+                                            style={{ color }}
+                                        >
+                                            <Icon size={24} />
+                                        </div>
+                                        <span className="module-toolbox__item-label">
+                                            {template.label}
+                                        </span>
+                                    </button>
+                                );
+                            })}
+                        </div>
+
+                        <h4 className="module-toolbox__section-title">Draw</h4>
+                        <div className="module-toolbox__grid">
+                            {DRAW_TEMPLATES.map((template) => {
+                                const Icon = template.icon;
+                                const isSelected = activeTool === 'draw' && shapeToDraw === template.type;
+                                const color = getModuleColor(template.type);
+
+                                return (
+                                    <button
+                                        key={template.type}
+                                        className={`module-toolbox__item module-toolbox__item--draw ${isSelected ? 'module-toolbox__item--selected' : ''}`}
+                                        onClick={() => handleDrawClick(template.type)}
+                                        title={template.description}
+                                        aria-pressed={isSelected}
+                                        style={
+                                            {
+                                                '--module-color': color,
+                                            } as React.CSSProperties
+                                        }
+                                    >
+                                        <div
+                                            className="module-toolbox__item-icon"
+                                            style={{ color }}
+                                        >
+                                            <Icon size={24} />
+                                        </div>
+                                        <span className="module-toolbox__item-label">
+                                            {template.label}
+                                        </span>
+                                    </button>
+                                );
+                            })}
+                        </div>
+
+                        {activeTool === 'draw' && shapeToDraw && (
+                            <div className="module-toolbox__status">
+                                Click to add points or drag to draw freehand.
+                                Double-click or Enter to finish, Backspace to
+                                undo a point, Esc to cancel.
+                            </div>
+                        )}
+
+                        {activeTool === 'add' && moduleToAdd && (
+                            <div className="module-toolbox__status">
+                                Click on canvas to place{' '}
+                                <strong>
+                                    {
+                                        MODULE_TEMPLATES.find(
+                                            (t) => t.type === moduleToAdd
+                                        )?.label
+                                    }
+                                </strong>
+                            </div>
+                        )}
+                    </>
                 )}
             </div>
         </div>
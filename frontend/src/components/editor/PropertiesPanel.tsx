@@ -16,7 +16,7 @@ import {
     Trash2,
     RotateCw,
 } from 'lucide-react';
-import type { AnyModule, CampsiteModule, BuildingModule, RoadModule, CustomModule } from '@/types';
+import type { AnyModule, CampsiteModule, BuildingModule, RoadModule, ZoneModule, CustomModule, Site } from '@/types';
 import { useEditorStore } from '@/stores';
 import { useMapStore } from '@/stores/mapStore';
 import { PropertyCommand, type PropertyChange } from '@/commands/PropertyCommand';
@@ -24,11 +24,22 @@ import { AddCommand } from '@/commands/AddCommand';
 import { DeleteCommand } from '@/commands/DeleteCommand';
 import type { Command } from '@/commands/Command';
 import { createNewModule } from '@/utils/moduleFactory';
+import { scalePathPoints } from '@/utils/modulePaths';
+import { useSiteBindings } from '@/hooks/useSiteBindings';
+import {
+    campsiteMetadataToSite,
+    getBoundSiteId,
+    isCampsiteModule,
+    siteToCampsiteMetadata,
+    unbindModule,
+} from '@/utils/siteBinding';
 import {
     getModuleIcon,
     CampsiteProperties,
+    SiteBindingSection,
     BuildingProperties,
     RoadProperties,
+    ZoneProperties,
     CustomProperties,
 } from './properties';
 
@@ -198,6 +209,7 @@ export function PropertiesPanel({ onClose, executeCommand }: PropertiesPanelProp
 
     // Subscribe to currentMap to reactively update when modules change
     const currentMap = useMapStore((state) => state.currentMap);
+    const { sites, pushToSite } = useSiteBindings();
 
     // Get selected modules reactively from currentMap
     const selectedModules = useMemo(() => {
@@ -280,6 +292,12 @@ export function PropertiesPanel({ onClose, executeCommand }: PropertiesPanelProp
                     [key]: value,
                 };
 
+                // Path vertices fill the module's size box, so they follow a resize
+                if (key === 'size' && currentModule.points) {
+                    oldProps.points = currentModule.points;
+                    newProps.points = scalePathPoints(currentModule.points, currentModule.size, value as AnyModule['size']);
+                }
+
                 executeCommand(new PropertyCommand([{
                     moduleId,
                     oldProps,
@@ -366,6 +384,46 @@ export function PropertiesPanel({ onClose, executeCommand }: PropertiesPanelProp
         [singleModule, currentMap, executeCommand, selectedIds, setSelection]
     );
 
+    // Site IDs bound to modules other than the selected one
+    const boundSiteIds = useMemo(() => {
+        const ids = new Set<string>();
+        currentMap?.modules.forEach((m) => {
+            const siteId = getBoundSiteId(m);
+            if (siteId && m.id !== singleModule?.id) ids.add(siteId);
+        });
+        return ids;
+    }, [currentMap, singleModule]);
+
+    // Link the selected campsite to a site, taking the site's inventory values
+    const handleBindSite = useCallback(
+        (site: Site) => {
+            if (!singleModule || !isCampsiteModule(singleModule)) return;
+            executeCommand(new PropertyCommand([{
+                moduleId: singleModule.id,
+                oldProps: { metadata: singleModule.metadata },
+                newProps: { metadata: siteToCampsiteMetadata(site, singleModule.metadata) },
+            } as PropertyChange]));
+        },
+        [singleModule, executeCommand]
+    );
+
+    const handleUnbindSite = useCallback(() => {
+        if (!singleModule) return;
+        executeCommand(new PropertyCommand([{
+            moduleId: singleModule.id,
+            oldProps: { metadata: singleModule.metadata },
+            newProps: { metadata: unbindModule(singleModule).metadata },
+        } as PropertyChange]));
+    }, [singleModule, executeCommand]);
+
+    const handlePushToSite = useCallback(
+        (site: Site) => {
+            if (!singleModule || !isCampsiteModule(singleModule)) return;
+            pushToSite(site.id, campsiteMetadataToSite(singleModule.metadata));
+        },
+        [singleModule, pushToSite]
+    );
+
     // Handle delete with inline confirmation
     const handleDeleteClick = useCallback(() => {
         setShowDeleteConfirm(true);
@@ -393,14 +451,15 @@ export function PropertiesPanel({ onClose, executeCommand }: PropertiesPanelProp
                 x: module.position.x + 20,
                 y: module.position.y + 20,
             });
-            // Copy metadata from original
-            return {
+            // Copy metadata from original; the copy is not linked to the original's site
+            return unbindModule({
                 ...newModule,
                 metadata: { ...module.metadata },
                 size: { ...module.size },
+                points: module.points?.map((point) => ({ ...point })),
                 rotation: module.rotation,
                 zIndex: module.zIndex + 1,
-            } as AnyModule;
+            } as AnyModule);
         });
 
         if (duplicatedModules.length > 0) {
@@ -481,10 +540,20 @@ export function PropertiesPanel({ onClose, executeCommand }: PropertiesPanelProp
         switch (singleModule.type) {
             case 'campsite':
                 return (
-                    <CampsiteProperties
-                        module={singleModule as CampsiteModule}
-                        onUpdate={handleMetadataUpdate}
-                    />
+                    <>
+                        <SiteBindingSection
+                            module={singleModule as CampsiteModule}
+                            sites={sites}
+                            boundSiteIds={boundSiteIds}
+                            onBind={handleBindSite}
+                            onUnbind={handleUnbindSite}
+                            onPush={handlePushToSite}
+                        />
+                        <CampsiteProperties
+                            module={singleModule as CampsiteModule}
+                            onUpdate={handleMetadataUpdate}
+                        />
+                    </>
                 );
             case 'building':
                 return (
@@ -500,6 +569,13 @@ export function PropertiesPanel({ onClose, executeCommand }: PropertiesPanelProp
                         onUpdate={handleMetadataUpdate}
                     />
                 );
+            case 'zone':
+                return (
+                    <ZoneProperties
+                        module={singleModule as ZoneModule}
+                        onUpdate={handleMetadataUpdate}
+                    />
+                );
             case 'custom':
                 return (
                     <CustomProperties
@@ -0,0 +1,241 @@
+/**
+ * Save Template Dialog
+ * Dialog for saving the selected modules, or the whole map, to the template
+ * library with a name, category, tags and a generated preview.
+ */
+
+import { useState, useCallback, useMemo, useEffect } from 'react';
+import { X, BookmarkPlus, MousePointer2, Map as MapIcon } from 'lucide-react';
+
+import { useMapStore } from '@/stores/mapStore';
+import { useEditorStore } from '@/stores/editorStore';
+import { useAuthStore } from '@/stores/authStore';
+import { useCreateMapTemplate } from '@/hooks/useTemplates';
+import type { AnyModule } from '@/types';
+import { TEMPLATE_CATEGORIES, buildTemplatePreview, createTemplateModules } from '@/utils/mapTemplates';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface SaveTemplateDialogProps {
+    isOpen: boolean;
+    onClose: () => void;
+}
+
+type TemplateScope = 'selection' | 'map';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const parseTags = (value: string): string[] =>
+    [...new Set(value.split(',').map((tag) => tag.trim().toLowerCase()).filter(Boolean))];
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+export function SaveTemplateDialog({ isOpen, onClose }: SaveTemplateDialogProps) {
+    const [scope, setScope] = useState<TemplateScope>('selection');
+    const [name, setName] = useState('');
+    const [description, setDescription] = useState('');
+    const [category, setCategory] = useState<string>(TEMPLATE_CATEGORIES[0]);
+    const [tags, setTags] = useState('');
+    const [isPublic, setIsPublic] = useState(false);
+
+    const { currentMap } = useMapStore();
+    const { selectedIds } = useEditorStore();
+    const userId = useAuthStore((state) => state.user?.id);
+    const { mutate: createTemplate, isPending, isError } = useCreateMapTemplate();
+
+    // Default to the selection when there is one
+    useEffect(() => {
+        if (isOpen) {
+            setScope(selectedIds.length > 0 ? 'selection' : 'map');
+        }
+    }, [isOpen, selectedIds.length]);
+
+    const modules = useMemo(() => {
+        const all = currentMap?.modules ?? [];
+        if (scope === 'map') return createTemplateModules(all);
+
+        const selected = selectedIds
+            .map((id) => all.find((module) => module.id === id))
+            .filter((module): module is AnyModule => module !== undefined);
+        return createTemplateModules(selected);
+    }, [currentMap, selectedIds, scope]);
+
+    const preview = useMemo(() => buildTemplatePreview(modules), [modules]);
+
+    const handleClose = useCallback(() => {
+        setName('');
+        setDescription('');
+        setTags('');
+        setIsPublic(false);
+        onClose();
+    }, [onClose]);
+
+    const handleSave = useCallback(() => {
+        if (!name.trim() || modules.length === 0) return;
+
+        createTemplate(
+            {
+                name: name.trim(),
+                description: description.trim(),
+                category,
+                modules,
+                previewImage: preview,
+                tags: parseTags(tags),
+                isPublic,
+                createdBy: userId ?? 'anonymous',
+            },
+            { onSuccess: handleClose }
+        );
+    }, [name, description, category, modules, preview, tags, isPublic, userId, createTemplate, handleClose]);
+
+    if (!isOpen) {
+        return null;
+    }
+
+    return (
+        <div className="export-dialog__overlay" onClick={handleClose}>
+            <div
+                className="export-dialog save-template-dialog"
+                onClick={(e) => e.stopPropagation()}
+                role="dialog"
+                aria-modal="true"
+                aria-labelledby="save-template-dialog-title"
+            >
+                <div className="export-dialog__header">
+                    <h2 id="save-template-dialog-title" className="export-dialog__title">
+                        Save as Template
+                    </h2>
+                    <button
+                        className="export-dialog__close"
+                        onClick={handleClose}
+                        aria-label="Close dialog"
+                    >
+                        <X size={20} />
+                    </button>
+                </div>
+
+                <div className="export-dialog__content">
+                    <div className="export-dialog__format-selection">
+                        <label className="export-dialog__format-label">
+                            Save
+                        </label>
+                        <div className="export-dialog__format-options">
+                            <button
+                                className={`export-dialog__format-option ${scope === 'selection' ? 'export-dialog__format-option--selected' : ''}`}
+                                onClick={() => setScope('selection')}
+                                disabled={selectedIds.length === 0}
+                            >
+                                <MousePointer2 size={24} />
+                                <span>Selection ({selectedIds.length})</span>
+                            </button>
+                            <button
+                                className={`export-dialog__format-option ${scope === 'map' ? 'export-dialog__format-option--selected' : ''}`}
+                                onClick={() => setScope('map')}
+                            >
+                                <MapIcon size={24} />
+                                <span>Whole Map</span>
+                            </button>
+                        </div>
+                    </div>
+
+                    <div className="save-template-dialog__body">
+                        <img
+                            className="save-template-dialog__preview"
+                            src={preview}
+                            alt={`Preview of ${modules.length} modules`}
+                        />
+                        <div className="save-template-dialog__fields">
+                            <div className="properties-panel__field">
+                                <label htmlFor="template-name">Name</label>
+                                <input
+                                    id="template-name"
+                                    type="text"
+                                    value={name}
+                                    onChange={(e) => setName(e.target.value)}
+                                    placeholder="e.g. Riverside tent loop"
+                                />
+                            </div>
+                            <div className="properties-panel__field">
+                                <label htmlFor="template-category">Category</label>
+                                <select
+                                    id="template-category"
+                                    className="save-template-dialog__select"
+                                    value={category}
+                                    onChange={(e) => setCategory(e.target.value)}
+                                >
+                                    {TEMPLATE_CATEGORIES.map((item) => (
+                                        <option key={item} value={item}>{item}</option>
+                                    ))}
+                                </select>
+                            </div>
+                        </div>
+                    </div>
+
+                    <div className="properties-panel__field">
+                        <label htmlFor="template-description">Description</label>
+                        <textarea
+                            id="template-description"
+                            className="properties-panel__textarea"
+                            rows={2}
+                            value={description}
+                            onChange={(e) => setDescription(e.target.value)}
+                        />
+                    </div>
+                    <div className="properties-panel__field">
+                        <label htmlFor="template-tags">Tags (comma separated)</label>
+                        <input
+                            id="template-tags"
+                            type="text"
+                            value={tags}
+                            onChange={(e) => setTags(e.target.value)}
+                            placeholder="rv, hookups"
+                        />
+                    </div>
+                    <label className="export-dialog__option export-dialog__option--checkbox">
+                        <input
+                            type="checkbox"
+                            checked={isPublic}
+                            onChange={(e) => setIsPublic(e.target.checked)}
+                        />
+                        <span>Share with other editors</span>
+                    </label>
+
+                    <p className="export-dialog__info export-dialog__info-hint">
+                        {modules.length} module{modules.length === 1 ? '' : 's'}. Site bindings are not
+                        saved, so placed copies start unbound.
+                    </p>
+                    {isError && (
+                        <p className="import-dialog__message import-dialog__message--error" role="alert">
+                            The template could not be saved. Please try again.
+                        </p>
+                    )}
+                </div>
+
+                <div className="export-dialog__footer">
+                    <button
+                        className="export-dialog__button export-dialog__button--secondary"
+                        onClick={handleClose}
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        className="export-dialog__button export-dialog__button--primary"
+                        onClick={handleSave}
+                        disabled={!name.trim() || modules.length === 0 || isPending}
+                    >
+                        <BookmarkPlus size={16} />
+                        {isPending ? 'Saving...' : 'Save Template'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
+
+export default SaveTemplateDialog;
@@ -0,0 +1,212 @@
+/**
+ * Site Binding Panel
+ * Report of how the map's campsite modules line up with the site inventory:
+ * unbound modules, sites not placed on any map, broken links and drift.
+ */
+
+import { useCallback } from 'react';
+import { Link2, X, MapPin, Download, Upload, Unlink } from 'lucide-react';
+import type { AnyModule, CampsiteModule, Site } from '@/types';
+import { useEditorStore } from '@/stores';
+import { AddCommand, PropertyCommand, type Command } from '@/commands';
+import { useSiteBindings } from '@/hooks/useSiteBindings';
+import { createNewModule, getDefaultMetadata } from '@/utils/moduleFactory';
+import {
+    campsiteMetadataToSite,
+    siteToCampsiteMetadata,
+    unbindModule,
+    type CampsiteMetadata,
+} from '@/utils/siteBinding';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface SiteBindingPanelProps {
+    onClose?: () => void;
+    executeCommand: (command: Command) => void;
+}
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+export function SiteBindingPanel({ onClose, executeCommand }: SiteBindingPanelProps) {
+    const { selectedIds, setSelection } = useEditorStore();
+    const { report, isLoading, pushToSite } = useSiteBindings();
+
+    const issueCount =
+        report.unboundModules.length +
+        report.unplacedSites.length +
+        report.brokenModules.length +
+        report.outOfSyncModules.length +
+        report.duplicateBindings.length;
+
+    const setMetadata = useCallback(
+        (module: CampsiteModule, metadata: CampsiteMetadata) => {
+            executeCommand(new PropertyCommand([{
+                moduleId: module.id,
+                oldProps: { metadata: module.metadata },
+                newProps: { metadata },
+            }]));
+        },
+        [executeCommand]
+    );
+
+    // Add a campsite module for the site at its recorded map position
+    const handlePlaceSite = useCallback(
+        (site: Site) => {
+            const defaults = getDefaultMetadata('campsite') as CampsiteMetadata;
+            const module = createNewModule('campsite', { ...site.location.mapPosition }, {
+                metadata: siteToCampsiteMetadata(site, defaults),
+            } as Partial<AnyModule>);
+            executeCommand(new AddCommand([module]));
+            setSelection([module.id]);
+        },
+        [executeCommand, setSelection]
+    );
+
+    const renderModuleItem = (module: CampsiteModule, actions?: React.ReactNode, detail?: string) => (
+        <li
+            key={module.id}
+            className={`layers-panel__item ${selectedIds.includes(module.id) ? 'layers-panel__item--selected' : ''}`}
+            onClick={() => setSelection([module.id])}
+        >
+            <span className="layers-panel__item-name">
+                {module.metadata.name}
+                {detail && <span className="site-binding-panel__detail">{detail}</span>}
+            </span>
+            {actions && <div className="layers-panel__item-actions">{actions}</div>}
+        </li>
+    );
+
+    const renderGroup = (title: string, count: number, children: React.ReactNode) =>
+        count > 0 && (
+            <div className="site-binding-panel__group">
+                <h4 className="site-binding-panel__group-title">
+                    {title}
+                    <span className="layers-panel__count">{count}</span>
+                </h4>
+                <ul className="layers-panel__list">{children}</ul>
+            </div>
+        );
+
+    return (
+        <div className="layers-panel site-binding-panel">
+            <div className="layers-panel__header">
+                <Link2 size={18} />
+                <h3 className="layers-panel__title">Site Bindings</h3>
+                <span className="layers-panel__count">{issueCount}</span>
+                {onClose && (
+                    <button
+                        className="site-binding-panel__close"
+                        onClick={onClose}
+                        aria-label="Close site bindings"
+                    >
+                        <X size={16} />
+                    </button>
+                )}
+            </div>
+
+            <div className="layers-panel__content">
+                {isLoading ? (
+                    <div className="layers-panel__empty">
+                        <p>Loading sites...</p>
+                    </div>
+                ) : issueCount === 0 ? (
+                    <div className="layers-panel__empty">
+                        <p>Every campsite is linked and in sync</p>
+                    </div>
+                ) : (
+                    <>
+                        {renderGroup(
+                            'Unbound modules',
+                            report.unboundModules.length,
+                            report.unboundModules.map((module) => renderModuleItem(module))
+                        )}
+
+                        {renderGroup(
+                            'Not on any map',
+                            report.unplacedSites.length,
+                            report.unplacedSites.map((site) => (
+                                <li key={site.id} className="layers-panel__item">
+                                    <span className="layers-panel__item-name">{site.name}</span>
+                                    <div className="layers-panel__item-actions">
+                                        <button
+                                            onClick={() => handlePlaceSite(site)}
+                                            title="Place on map"
+                                            aria-label={`Place ${site.name} on map`}
+                                        >
+                                            <MapPin size={14} />
+                                        </button>
+                                    </div>
+                                </li>
+                            ))
+                        )}
+
+                        {renderGroup(
+                            'Out of sync',
+                            report.outOfSyncModules.length,
+                            report.outOfSyncModules.map(({ module, site }) =>
+                                renderModuleItem(
+                                    module,
+                                    <>
+                                        <button
+                                            onClick={(e) => {
+                                                e.stopPropagation();
+                                                setMetadata(module, siteToCampsiteMetadata(site, module.metadata));
+                                            }}
+                                            title="Pull values from site"
+                                            aria-label="Pull values from site"
+                                        >
+                                            <Download size={14} />
+                                        </button>
+                                        <button
+                                            onClick={(e) => {
+                                                e.stopPropagation();
+                                                pushToSite(site.id, campsiteMetadataToSite(module.metadata));
+                                            }}
+                                            title="Push values to site"
+                                            aria-label="Push values to site"
+                                        >
+                                            <Upload size={14} />
+                                        </button>
+                                    </>,
+                                    site.name !== module.metadata.name ? site.name : undefined
+                                )
+                            )
+                        )}
+
+                        {renderGroup(
+                            'Linked site missing',
+                            report.brokenModules.length,
+                            report.brokenModules.map((module) =>
+                                renderModuleItem(
+                                    module,
+                                    <button
+                                        onClick={(e) => {
+                                            e.stopPropagation();
+                                            setMetadata(module, unbindModule(module).metadata);
+                                        }}
+                                        title="Unlink"
+                                        aria-label="Unlink missing site"
+                                    >
+                                        <Unlink size={14} />
+                                    </button>
+                                )
+                            )
+                        )}
+
+                        {renderGroup(
+                            'Linked more than once',
+                            report.duplicateBindings.length,
+                            report.duplicateBindings.flatMap(({ site, modules }) =>
+                                modules.map((module) => renderModuleItem(module, undefined, site.name))
+                            )
+                        )}
+                    </>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,149 @@
+/**
+ * Template Gallery
+ * Searchable list of saved map layouts and preconfigured modules, shown in
+ * the module toolbox. Templates are dragged onto the canvas to place them.
+ */
+
+import React, { useMemo, useState } from 'react';
+import { Search, Trash2 } from 'lucide-react';
+import { useTemplateLibrary, useDeleteMapTemplate } from '@/hooks/useTemplates';
+import { useAuthStore } from '@/stores/authStore';
+import { useUIStore } from '@/stores/uiStore';
+import {
+    TEMPLATE_CATEGORIES,
+    buildTemplatePreview,
+    filterTemplates,
+    getTemplateModules,
+    getTemplateTags,
+    isModuleTemplate,
+    type LibraryTemplate,
+} from '@/utils/mapTemplates';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const getPreview = (template: LibraryTemplate): string =>
+    template.previewImage ?? buildTemplatePreview(getTemplateModules(template));
+
+const describeTemplate = (template: LibraryTemplate): string =>
+    isModuleTemplate(template)
+        ? template.type.replace('_', ' ')
+        : `${template.modules.length} module${template.modules.length === 1 ? '' : 's'}`;
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+export function TemplateGallery() {
+    const [search, setSearch] = useState('');
+    const [category, setCategory] = useState('');
+    const [tags, setTags] = useState<string[]>([]);
+
+    const { templates, isLoading } = useTemplateLibrary();
+    const { mutate: deleteTemplate } = useDeleteMapTemplate();
+    const userId = useAuthStore((state) => state.user?.id);
+    const showToast = useUIStore((state) => state.showToast);
+
+    const allTags = useMemo(() => getTemplateTags(templates), [templates]);
+    const results = useMemo(
+        () => filterTemplates(templates, { search, category: category || undefined, tags }),
+        [templates, search, category, tags]
+    );
+
+    const toggleTag = (tag: string) => {
+        setTags((prev) => (prev.includes(tag) ? prev.filter((item) => item !== tag) : [...prev, tag]));
+    };
+
+    const handleDragStart = (e: React.DragEvent, template: LibraryTemplate) => {
+        e.dataTransfer.setData('application/x-template-id', template.id);
+        e.dataTransfer.effectAllowed = 'copy';
+    };
+
+    return (
+        <div className="template-gallery">
+            <div className="template-gallery__search">
+                <Search size={14} />
+                <input
+                    type="search"
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                    placeholder="Search templates"
+                    aria-label="Search templates"
+                />
+            </div>
+
+            <select
+                className="template-gallery__category"
+                value={category}
+                onChange={(e) => setCategory(e.target.value)}
+                aria-label="Template category"
+            >
+                <option value="">All categories</option>
+                {TEMPLATE_CATEGORIES.map((item) => (
+                    <option key={item} value={item}>{item}</option>
+                ))}
+            </select>
+
+            {allTags.length > 0 && (
+                <div className="template-gallery__tags">
+                    {allTags.map((tag) => (
+                        <button
+                            key={tag}
+                            className={`template-gallery__tag ${tags.includes(tag) ? 'template-gallery__tag--active' : ''}`}
+                            onClick={() => toggleTag(tag)}
+                            aria-pressed={tags.includes(tag)}
+                        >
+                            {tag}
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            {isLoading && <p className="module-toolbox__hint">Loading templates...</p>}
+            {!isLoading && results.length === 0 && (
+                <p className="module-toolbox__hint">No templates match.</p>
+            )}
+
+            <ul className="template-gallery__list">
+                {results.map((template) => (
+                    <li
+                        key={template.id}
+                        className="template-gallery__item"
+                        draggable
+                        onDragStart={(e) => handleDragStart(e, template)}
+                        title={template.description}
+                    >
+                        <img
+                            className="template-gallery__preview"
+                            src={getPreview(template)}
+                            alt=""
+                            draggable={false}
+                        />
+                        <div className="template-gallery__details">
+                            <span className="template-gallery__name">{template.name}</span>
+                            <span className="template-gallery__meta">{describeTemplate(template)}</span>
+                        </div>
+                        {!isModuleTemplate(template) && userId && template.createdBy === userId && (
+                            <button
+                                className="template-gallery__delete"
+                                onClick={() => {
+                                    if (window.confirm(`Delete the template "${template.name}"?`)) {
+                                        deleteTemplate(template.id, {
+                                            onError: () => showToast('Failed to delete template', 'error'),
+                                        });
+                                    }
+                                }}
+                                aria-label={`Delete template ${template.name}`}
+                            >
+                                <Trash2 size={14} />
+                            </button>
+                        )}
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+}
+
+export default TemplateGallery;
@@ -0,0 +1,200 @@
+/**
+ * Utility Panel
+ * The map's utility network: the connect tool, the load on each electrical
+ * circuit against its amperage, sites advertising a hookup nothing
+ * supplies, and the service lines laid so far.
+ */
+
+import { useMemo } from 'react';
+import { Zap, X, Trash2 } from 'lucide-react';
+import { useEditorStore } from '@/stores/editorStore';
+import { useMapStore } from '@/stores/mapStore';
+import { UTILITY_LABELS, analyzeUtilityNetwork } from '@/utils/utilityNetwork';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface UtilityPanelProps {
+    onClose?: () => void;
+}
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+export function UtilityPanel({ onClose }: UtilityPanelProps) {
+    const currentMap = useMapStore((state) => state.currentMap);
+    const updateMap = useMapStore((state) => state.updateMap);
+    const {
+        activeTool,
+        setActiveTool,
+        layerVisibility,
+        toggleLayer,
+        selectedIds,
+        setSelection,
+    } = useEditorStore();
+
+    const report = useMemo(() => (currentMap ? analyzeUtilityNetwork(currentMap) : null), [currentMap]);
+
+    if (!currentMap || !report) return null;
+
+    const isConnecting = activeTool === 'connect';
+    const getName = (id: string) => String(currentMap.modules.find((module) => module.id === id)?.metadata.name ?? id);
+
+    const handleToggleTool = () => {
+        setActiveTool(isConnecting ? 'select' : 'connect');
+        // New lines would be invisible with the layer hidden
+        if (!isConnecting && !layerVisibility.utilities) toggleLayer('utilities');
+    };
+
+    const handleRemove = (id: string) => {
+        updateMap({
+            utilityConnections: (currentMap.utilityConnections ?? []).filter((connection) => connection.id !== id),
+        });
+    };
+
+    const itemClass = (ids: string[]) =>
+        `layers-panel__item ${ids.every((id) => selectedIds.includes(id)) ? 'layers-panel__item--selected' : ''}`;
+
+    return (
+        <div className="layers-panel utility-panel">
+            <div className="layers-panel__header">
+                <Zap size={18} />
+                <h3 className="layers-panel__title">Utilities</h3>
+                <span className="layers-panel__count">{report.connections.length}</span>
+                {onClose && (
+                    <button
+                        className="site-binding-panel__close"
+                        onClick={onClose}
+                        aria-label="Close utilities"
+                    >
+                        <X size={16} />
+                    </button>
+                )}
+            </div>
+
+            <div className="layers-panel__content">
+                <div className="geo-reference-panel__content">
+                    <button
+                        className={`export-dialog__button ${isConnecting ? 'export-dialog__button--secondary' : 'export-dialog__button--primary'} measurement-panel__tool`}
+                        onClick={handleToggleTool}
+                    >
+                        {isConnecting ? 'Stop connecting' : 'Connect supply to site'}
+                    </button>
+
+                    {isConnecting && (
+                        <p className="geo-reference-panel__status">
+                            Drag from an electricity, water or sewage point to a campsite.
+                        </p>
+                    )}
+
+                    <label className="measurement-panel__toggle">
+                        <input
+                            type="checkbox"
+                            checked={layerVisibility.utilities}
+                            onChange={() => toggleLayer('utilities')}
+                        />
+                        <span>Show utility layer (U)</span>
+                    </label>
+                </div>
+
+                {report.unsupplied.length > 0 && (
+                    <div className="site-binding-panel__group">
+                        <h4 className="site-binding-panel__group-title">
+                            Hookups without supply
+                            <span className="layers-panel__count">{report.unsupplied.length}</span>
+                        </h4>
+                        <ul className="layers-panel__list">
+                            {report.unsupplied.map(({ site, utility }) => (
+                                <li
+                                    key={`${site.id}:${utility}`}
+                                    className={itemClass([site.id])}
+                                    onClick={() => setSelection([site.id])}
+                                >
+                                    <span className="layers-panel__item-name">
+                                        {site.metadata.name}
+                                        <span className="site-binding-panel__detail">
+                                            Advertises {UTILITY_LABELS[utility].toLowerCase()}, nothing connected
+                                        </span>
+                                    </span>
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                )}
+
+                <div className="site-binding-panel__group">
+                    <h4 className="site-binding-panel__group-title">
+                        Circuits
+                        <span className="layers-panel__count">{report.circuits.length}</span>
+                    </h4>
+                    {report.circuits.length === 0 ? (
+                        <div className="layers-panel__empty">
+                            <p>Add electricity points to the map to plan circuits</p>
+                        </div>
+                    ) : (
+                        <ul className="layers-panel__list">
+                            {report.circuits.map(({ supply, siteIds, load, capacity, overloaded }) => (
+                                <li
+                                    key={supply.id}
+                                    className={`${itemClass([supply.id])} ${overloaded ? 'utility-panel__item--overloaded' : ''}`}
+                                    onClick={() => setSelection([supply.id, ...siteIds])}
+                                >
+                                    <span className="layers-panel__item-name">
+                                        {supply.metadata.name}
+                                        <span className="site-binding-panel__detail">
+                                            {load} / {capacity} A, {siteIds.length} {siteIds.length === 1 ? 'site' : 'sites'}
+                                            {overloaded && ' - overloaded'}
+                                        </span>
+                                    </span>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+
+                <div className="site-binding-panel__group">
+                    <h4 className="site-binding-panel__group-title">
+                        Connections
+                        <span className="layers-panel__count">{report.connections.length}</span>
+                    </h4>
+                    {report.connections.length === 0 ? (
+                        <div className="layers-panel__empty">
+                            <p>Connect supplies to the sites they serve</p>
+                        </div>
+                    ) : (
+                        <ul className="layers-panel__list">
+                            {report.connections.map((connection) => (
+                                <li
+                                    key={connection.id}
+                                    className={itemClass([connection.supplyId, connection.siteId])}
+                                    onClick={() => setSelection([connection.supplyId, connection.siteId])}
+                                >
+                                    <span className="layers-panel__item-name">
+                                        {getName(connection.supplyId)} to {getName(connection.siteId)}
+                                        <span className="site-binding-panel__detail">{UTILITY_LABELS[connection.utility]}</span>
+                                    </span>
+                                    <div className="layers-panel__item-actions">
+                                        <button
+                                            onClick={(e) => {
+                                                e.stopPropagation();
+                                                handleRemove(connection.id);
+                                            }}
+                                            title="Remove connection"
+                                            aria-label={`Remove connection from ${getName(connection.supplyId)} to ${getName(connection.siteId)}`}
+                                        >
+                                            <Trash2 size={14} />
+                                        </button>
+                                    </div>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
+
+export default UtilityPanel;
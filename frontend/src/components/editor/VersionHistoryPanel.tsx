@@ -0,0 +1,254 @@
+/**
+ * Version History Panel
+ * Snapshots of the map taken on save and as named checkpoints. Comparing
+ * against a version lists and overlays every module changed since, each of
+ * which can be reverted on its own, or the whole version can be restored.
+ */
+
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { History, X, Bookmark, RotateCcw, Trash2, Undo2 } from 'lucide-react';
+import { useEditorStore } from '@/stores/editorStore';
+import { useMapStore } from '@/stores/mapStore';
+import { useUIStore } from '@/stores/uiStore';
+import { useCreateMapVersion, useDeleteMapVersion } from '@/hooks/useMapVersions';
+import { AddCommand, DeleteCommand, PropertyCommand, type Command } from '@/commands';
+import type { MapVersion } from '@/types';
+import {
+    CHANGE_KIND_COLORS,
+    CHANGE_KIND_LABELS,
+    DIFF_FIELD_LABELS,
+    getChangeName,
+    pickFields,
+    type ModuleChange,
+    type ModuleChangeKind,
+} from '@/utils/mapDiff';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface VersionHistoryPanelProps {
+    /** Versions of the map, newest first */
+    versions: MapVersion[];
+    comparedVersionId: string | null;
+    onCompare: (versionId: string | null) => void;
+    /** Changes from the compared version to the current map */
+    changes: ModuleChange[];
+    onRestore: (version: MapVersion) => void;
+    onClose?: () => void;
+    executeCommand: (command: Command) => void;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const CHANGE_KINDS: ModuleChangeKind[] = ['added', 'removed', 'moved', 'changed'];
+
+/**
+ * Build the command that takes one module back to how it was in the version
+ */
+function getRevertCommand({ moduleId, before, after, fields }: ModuleChange): Command {
+    if (!before) return new DeleteCommand([after!]);
+    if (!after) return new AddCommand([before]);
+    return new PropertyCommand([{
+        moduleId,
+        oldProps: pickFields(after, fields),
+        newProps: pickFields(before, fields),
+    }]);
+}
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+export function VersionHistoryPanel({
+    versions,
+    comparedVersionId,
+    onCompare,
+    changes,
+    onRestore,
+    onClose,
+    executeCommand,
+}: VersionHistoryPanelProps) {
+    const currentMap = useMapStore((state) => state.currentMap);
+    const showToast = useUIStore((state) => state.showToast);
+    const { selectedIds, setSelection } = useEditorStore();
+    const { mutate: createVersion, isPending } = useCreateMapVersion();
+    const { mutate: deleteVersion } = useDeleteMapVersion();
+    const [checkpointName, setCheckpointName] = useState('');
+
+    if (!currentMap) return null;
+
+    const comparedVersion = versions.find((version) => version.id === comparedVersionId);
+
+    const handleCheckpoint = () => {
+        createVersion(
+            { mapId: currentMap.id, name: checkpointName.trim(), kind: 'checkpoint', snapshot: currentMap },
+            {
+                onSuccess: () => setCheckpointName(''),
+                onError: () => showToast('Failed to save checkpoint', 'error'),
+            }
+        );
+    };
+
+    const handleDelete = (version: MapVersion) => {
+        if (!window.confirm(`Delete the version "${version.name}"?`)) return;
+        if (version.id === comparedVersionId) onCompare(null);
+        deleteVersion(
+            { mapId: version.mapId, id: version.id },
+            { onError: () => showToast('Failed to delete version', 'error') }
+        );
+    };
+
+    const describeChange = ({ kind, fields }: ModuleChange) => {
+        if (kind === 'added') return 'Not in this version';
+        if (kind === 'removed') return 'Deleted since this version';
+        return `${CHANGE_KIND_LABELS[kind]}: ${fields.map((field) => DIFF_FIELD_LABELS[field]).join(', ')}`;
+    };
+
+    return (
+        <div className="layers-panel version-history-panel">
+            <div className="layers-panel__header">
+                <History size={18} />
+                <h3 className="layers-panel__title">Version History</h3>
+                <span className="layers-panel__count">{versions.length}</span>
+                {onClose && (
+                    <button
+                        className="site-binding-panel__close"
+                        onClick={onClose}
+                        aria-label="Close version history"
+                    >
+                        <X size={16} />
+                    </button>
+                )}
+            </div>
+
+            <div className="layers-panel__content">
+                <div className="geo-reference-panel__content">
+                    <div className="properties-panel__field">
+                        <label htmlFor="checkpoint-name">Checkpoint name</label>
+                        <input
+                            id="checkpoint-name"
+                            type="text"
+                            value={checkpointName}
+                            placeholder="e.g. Before adding the north loop"
+                            onChange={(e) => setCheckpointName(e.target.value)}
+                        />
+                    </div>
+                    <button
+                        className="export-dialog__button export-dialog__button--primary measurement-panel__tool"
+                        onClick={handleCheckpoint}
+                        disabled={!checkpointName.trim() || isPending}
+                    >
+                        <Bookmark size={14} />
+                        Save checkpoint
+                    </button>
+                    <p className="geo-reference-panel__status">
+                        A version is also kept each time the map is saved. Select one to compare it with the map.
+                    </p>
+                </div>
+
+                {versions.length === 0 ? (
+                    <div className="layers-panel__empty">
+                        <p>No versions yet</p>
+                    </div>
+                ) : (
+                    <ul className="layers-panel__list">
+                        {versions.map((version) => (
+                            <li
+                                key={version.id}
+                                className={`layers-panel__item ${version.id === comparedVersionId ? 'layers-panel__item--selected' : ''}`}
+                                onClick={() => onCompare(version.id === comparedVersionId ? null : version.id)}
+                            >
+                                <span className="layers-panel__item-name">
+                                    {version.name}
+                                    <span className="site-binding-panel__detail">
+                                        {version.kind === 'checkpoint' ? 'Checkpoint' : 'Saved'},{' '}
+                                        {format(new Date(version.createdAt), 'd MMM yyyy, HH:mm')}
+                                    </span>
+                                </span>
+                                <div className="layers-panel__item-actions">
+                                    <button
+                                        onClick={(e) => {
+                                            e.stopPropagation();
+                                            onRestore(version);
+                                        }}
+                                        title="Restore this version"
+                                        aria-label={`Restore ${version.name}`}
+                                    >
+                                        <RotateCcw size={14} />
+                                    </button>
+                                    <button
+                                        onClick={(e) => {
+                                            e.stopPropagation();
+                                            handleDelete(version);
+                                        }}
+                                        title="Delete version"
+                                        aria-label={`Delete ${version.name}`}
+                                    >
+                                        <Trash2 size={14} />
+                                    </button>
+                                </div>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+
+                {comparedVersion && (
+                    changes.length === 0 ? (
+                        <div className="layers-panel__empty">
+                            <p>No module changes since "{comparedVersion.name}"</p>
+                        </div>
+                    ) : (
+                        CHANGE_KINDS.map((kind) => {
+                            const group = changes.filter((change) => change.kind === kind);
+                            if (group.length === 0) return null;
+                            return (
+                                <div key={kind} className="site-binding-panel__group">
+                                    <h4 className="site-binding-panel__group-title">
+                                        <span
+                                            className="version-history-panel__swatch"
+                                            style={{ background: CHANGE_KIND_COLORS[kind] }}
+                                        />
+                                        {CHANGE_KIND_LABELS[kind]}
+                                        <span className="layers-panel__count">{group.length}</span>
+                                    </h4>
+                                    <ul className="layers-panel__list">
+                                        {group.map((change) => (
+                                            <li
+                                                key={change.moduleId}
+                                                className={`layers-panel__item ${selectedIds.includes(change.moduleId) ? 'layers-panel__item--selected' : ''}`}
+                                                onClick={() => change.after && setSelection([change.moduleId])}
+                                            >
+                                                <span className="layers-panel__item-name">
+                                                    {getChangeName(change)}
+                                                    <span className="site-binding-panel__detail">{describeChange(change)}</span>
+                                                </span>
+                                                <div className="layers-panel__item-actions">
+                                                    <button
+                                                        onClick={(e) => {
+                                                            e.stopPropagation();
+                                                            executeCommand(getRevertCommand(change));
+                                                        }}
+                                                        title="Revert to this version"
+                                                        aria-label={`Revert ${getChangeName(change)} to this version`}
+                                                    >
+                                                        <Undo2 size={14} />
+                                                    </button>
+                                                </div>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                </div>
+                            );
+                        })
+                    )
+                )}
+            </div>
+        </div>
+    );
+}
+
+export default VersionHistoryPanel;
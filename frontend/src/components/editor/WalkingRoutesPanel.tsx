@@ -0,0 +1,138 @@
+/**
+ * Walking Routes Panel
+ * Walking distances from each campsite to the nearest toilet and drinking
+ * water along the map's paths, and saving every site's distances to its
+ * metadata for the public site listing.
+ */
+
+import { useMemo } from 'react';
+import { Footprints, X, Save } from 'lucide-react';
+import { useEditorStore } from '@/stores/editorStore';
+import { useMapStore } from '@/stores/mapStore';
+import { PropertyCommand, type Command } from '@/commands';
+import type { AnyModule, CampsiteModule, WalkingFacilityType } from '@/types';
+import { formatLength, getMeasurementUnit } from '@/utils/measurement';
+import { WALKING_FACILITY_LABELS, getDistanceUpdates } from '@/utils/walkingRoutes';
+import type { SiteRoutes } from '@/utils/walkingRoutes';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface WalkingRoutesPanelProps {
+    routes: Map<string, SiteRoutes>;
+    onClose?: () => void;
+    executeCommand: (command: Command) => void;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/** Facilities listed for each site; the rest show on the canvas on hover */
+const LISTED_FACILITIES: WalkingFacilityType[] = ['toilet', 'water_source'];
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+export function WalkingRoutesPanel({ routes, onClose, executeCommand }: WalkingRoutesPanelProps) {
+    const currentMap = useMapStore((state) => state.currentMap);
+    const { selectedIds, setSelection, setHoveredId } = useEditorStore();
+
+    const updates = useMemo(() => (currentMap ? getDistanceUpdates(currentMap) : []), [currentMap]);
+    const campsites = useMemo(
+        () => (currentMap?.modules ?? [])
+            .filter((module): module is CampsiteModule => module.type === 'campsite')
+            .sort((a, b) => a.metadata.name.localeCompare(b.metadata.name, undefined, { numeric: true })),
+        [currentMap]
+    );
+
+    if (!currentMap) return null;
+
+    const unit = getMeasurementUnit(currentMap);
+    const hasRoads = currentMap.modules.some((module) => module.type === 'road');
+
+    const handleSave = () => {
+        executeCommand(new PropertyCommand(updates.map(({ site, metadata }) => ({
+            moduleId: site.id,
+            oldProps: { metadata: site.metadata },
+            newProps: { metadata } as Partial<AnyModule>,
+        }))));
+    };
+
+    const describeRoutes = (siteRoutes: SiteRoutes = {}) =>
+        LISTED_FACILITIES.map((type) => {
+            const route = siteRoutes[type];
+            return `${WALKING_FACILITY_LABELS[type]} ${route ? formatLength(route.distance, unit) : 'unreachable'}`;
+        }).join(', ');
+
+    return (
+        <div className="layers-panel walking-routes-panel">
+            <div className="layers-panel__header">
+                <Footprints size={18} />
+                <h3 className="layers-panel__title">Walking Routes</h3>
+                <span className="layers-panel__count">{campsites.length}</span>
+                {onClose && (
+                    <button
+                        className="site-binding-panel__close"
+                        onClick={onClose}
+                        aria-label="Close walking routes"
+                    >
+                        <X size={16} />
+                    </button>
+                )}
+            </div>
+
+            <div className="layers-panel__content">
+                <div className="geo-reference-panel__content">
+                    <p className="geo-reference-panel__status">
+                        Routes follow public roads and paths. Hover a campsite to see its routes.
+                    </p>
+                    {updates.length > 0 ? (
+                        <button
+                            className="export-dialog__button export-dialog__button--primary measurement-panel__tool"
+                            onClick={handleSave}
+                        >
+                            <Save size={14} />
+                            Save distances to {updates.length} {updates.length === 1 ? 'site' : 'sites'}
+                        </button>
+                    ) : (
+                        campsites.length > 0 && (
+                            <p className="geo-reference-panel__status">Saved distances are up to date.</p>
+                        )
+                    )}
+                </div>
+
+                {!hasRoads || campsites.length === 0 ? (
+                    <div className="layers-panel__empty">
+                        <p>
+                            {hasRoads
+                                ? 'Add campsites to the map to work out their walking distances'
+                                : 'Draw public roads and paths to work out walking routes'}
+                        </p>
+                    </div>
+                ) : (
+                    <ul className="layers-panel__list">
+                        {campsites.map((site) => (
+                            <li
+                                key={site.id}
+                                className={`layers-panel__item ${selectedIds.includes(site.id) ? 'layers-panel__item--selected' : ''}`}
+                                onClick={() => setSelection([site.id])}
+                                onMouseEnter={() => setHoveredId(site.id)}
+                                onMouseLeave={() => setHoveredId(null)}
+                            >
+                                <span className="layers-panel__item-name">
+                                    {site.metadata.name}
+                                    <span className="site-binding-panel__detail">{describeRoutes(routes.get(site.id))}</span>
+                                </span>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+        </div>
+    );
+}
+
+export default WalkingRoutesPanel;
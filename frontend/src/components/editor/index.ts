@@ -6,6 +6,21 @@
 export { ModuleToolbox } from './ModuleToolbox';
 export { PropertiesPanel } from './PropertiesPanel';
 export { LayersPanel } from './LayersPanel';
+export { SiteBindingPanel } from './SiteBindingPanel';
+export { GeoReferencePanel } from './GeoReferencePanel';
+export { BackgroundPanel } from './BackgroundPanel';
+export { MeasurementPanel } from './MeasurementPanel';
+export { CompliancePanel } from './CompliancePanel';
+export { UtilityPanel } from './UtilityPanel';
+export { WalkingRoutesPanel } from './WalkingRoutesPanel';
+export { VersionHistoryPanel } from './VersionHistoryPanel';
+export { CollaboratorAvatars } from './CollaboratorAvatars';
 export { Rulers, RULER_SIZE } from './Rulers';
+export { Minimap } from './Minimap';
 export { AlignmentToolbar } from './AlignmentToolbar';
 export { ExportDialog } from './ExportDialog';
+export { ImportDialog } from './ImportDialog';
+export { TemplateGallery } from './TemplateGallery';
+export { SaveTemplateDialog } from './SaveTemplateDialog';
+export { ArrayDialog } from './ArrayDialog';
+export { DraftRecoveryDialog } from './DraftRecoveryDialog';
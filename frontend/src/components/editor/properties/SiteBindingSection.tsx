@@ -0,0 +1,122 @@
+/**
+ * SiteBindingSection Component
+ * Links a campsite module to a Site record and shows whether the two are in sync
+ */
+
+import React from 'react';
+import { Link2, CheckCircle2, AlertTriangle, Download, Upload, Unlink } from 'lucide-react';
+import type { CampsiteModule, Site } from '@/types';
+import { PropertySection } from './PropertySection';
+import { Select } from '@/components/ui';
+import { isModuleInSync } from '@/utils/siteBinding';
+
+export interface SiteBindingSectionProps {
+    module: CampsiteModule;
+    sites: Site[];
+    /** Site IDs already bound to other modules on this map */
+    boundSiteIds: Set<string>;
+    onBind: (site: Site) => void;
+    onUnbind: () => void;
+    onPush: (site: Site) => void;
+    disabled?: boolean;
+}
+
+export const SiteBindingSection: React.FC<SiteBindingSectionProps> = ({
+    module,
+    sites,
+    boundSiteIds,
+    onBind,
+    onUnbind,
+    onPush,
+    disabled = false,
+}) => {
+    const siteId = module.metadata.siteId;
+    const site = siteId ? sites.find((s) => s.id === siteId) : undefined;
+    const inSync = site ? isModuleInSync(module, site) : true;
+
+    const options = [
+        { value: '', label: 'Not linked' },
+        ...sites
+            .filter((s) => s.id === siteId || !boundSiteIds.has(s.id))
+            .map((s) => ({ value: s.id, label: `${s.name} (${s.type.replace('_', ' ').toLowerCase()})` })),
+    ];
+
+    const handleChange = (value: string) => {
+        if (!value) {
+            onUnbind();
+            return;
+        }
+        const selected = sites.find((s) => s.id === value);
+        if (selected) onBind(selected);
+    };
+
+    return (
+        <PropertySection title="Linked Site" icon={Link2} defaultExpanded>
+            <Select
+                label="Site Record"
+                value={siteId ?? ''}
+                options={options}
+                onChange={handleChange}
+                disabled={disabled}
+            />
+
+            {siteId && !site && (
+                <p className="properties-panel__field-error">
+                    <AlertTriangle size={12} /> Linked site no longer exists
+                </p>
+            )}
+
+            {site && (
+                <div className="properties-panel__binding-status">
+                    {inSync ? (
+                        <span className="properties-panel__binding-status--ok">
+                            <CheckCircle2 size={14} /> In sync with site
+                        </span>
+                    ) : (
+                        <>
+                            <span className="properties-panel__binding-status--drift">
+                                <AlertTriangle size={14} /> Differs from site
+                            </span>
+                            <div className="properties-panel__row">
+                                <button
+                                    type="button"
+                                    className="properties-panel__action--secondary"
+                                    onClick={() => onBind(site)}
+                                    disabled={disabled}
+                                    title="Replace module values with the site's"
+                                >
+                                    <Download size={14} />
+                                    <span>Pull</span>
+                                </button>
+                                <button
+                                    type="button"
+                                    className="properties-panel__action--secondary"
+                                    onClick={() => onPush(site)}
+                                    disabled={disabled}
+                                    title="Write module values to the site"
+                                >
+                                    <Upload size={14} />
+                                    <span>Push</span>
+                                </button>
+                            </div>
+                        </>
+                    )}
+                </div>
+            )}
+
+            {siteId && (
+                <button
+                    type="button"
+                    className="properties-panel__action--secondary"
+                    onClick={onUnbind}
+                    disabled={disabled}
+                >
+                    <Unlink size={14} />
+                    <span>Unlink</span>
+                </button>
+            )}
+        </PropertySection>
+    );
+};
+
+export default SiteBindingSection;
@@ -0,0 +1,142 @@
+/**
+ * ZoneProperties Component
+ * Property editor for zone modules - areas such as no-fire zones or flood areas
+ */
+
+import React, { useState, useCallback } from 'react';
+import type { ZoneModule } from '@/types';
+import { PropertySection } from './PropertySection';
+import { Select } from '@/components/ui';
+import { validateName, validateDescription } from './propertyValidation';
+import { Hexagon } from 'lucide-react';
+
+// Zone type options
+const ZONE_TYPE_OPTIONS = [
+    { value: 'no_fire', label: 'No-Fire Zone' },
+    { value: 'flood', label: 'Flood Area' },
+    { value: 'quiet', label: 'Quiet Zone' },
+    { value: 'restricted', label: 'Restricted Area' },
+    { value: 'other', label: 'Other' },
+];
+
+export interface ZonePropertiesProps {
+    module: ZoneModule;
+    onUpdate: (changes: Partial<ZoneModule['metadata']>) => void;
+    disabled?: boolean;
+}
+
+export const ZoneProperties: React.FC<ZonePropertiesProps> = ({
+    module,
+    onUpdate,
+    disabled = false,
+}) => {
+    const { metadata } = module;
+
+    // Validation state
+    const [errors, setErrors] = useState<Record<string, string>>({});
+    const [validFields, setValidFields] = useState<Set<string>>(new Set());
+
+    const handleValidation = useCallback((field: string, value: unknown) => {
+        let result: { valid: boolean; error?: string } = { valid: true };
+
+        switch (field) {
+            case 'name':
+                result = validateName(value as string);
+                break;
+            case 'description':
+                result = validateDescription(value as string);
+                break;
+        }
+
+        if (result.valid) {
+            setErrors(prev => {
+                const next = { ...prev };
+                delete next[field];
+                return next;
+            });
+            setValidFields(prev => new Set(prev).add(field));
+        } else {
+            setErrors(prev => ({ ...prev, [field]: result.error || 'Invalid value' }));
+            setValidFields(prev => {
+                const next = new Set(prev);
+                next.delete(field);
+                return next;
+            });
+        }
+
+        return result.valid;
+    }, []);
+
+    return (
+        <PropertySection title="Zone Details" icon={Hexagon} defaultExpanded>
+            {/* Name */}
+            <div className={`properties-panel__field ${errors.name ? 'properties-panel__field--error' : validFields.has('name') ? 'properties-panel__field--valid' : ''}`}>
+                <label>Name</label>
+                <input
+                    type="text"
+                    value={metadata.name}
+                    onChange={(e) => onUpdate({ name: e.target.value })}
+                    onBlur={(e) => handleValidation('name', e.target.value)}
+                    disabled={disabled}
+                    readOnly={false}
+                    onClick={(e) => {
+                        e.stopPropagation();
+                        e.currentTarget.focus();
+                    }}
+                    onDoubleClick={(e) => {
+                        e.stopPropagation();
+                        e.currentTarget.select();
+                    }}
+                    onMouseDown={(e) => {
+                        e.stopPropagation();
+                    }}
+                    onFocus={(e) => {
+                        e.stopPropagation();
+                    }}
+                />
+                {errors.name && <p className="properties-panel__field-error">{errors.name}</p>}
+            </div>
+
+            {/* Zone Type */}
+            <Select
+                label="Zone Type"
+                value={metadata.zoneType}
+                options={ZONE_TYPE_OPTIONS}
+                onChange={(v) => onUpdate({ zoneType: v as ZoneModule['metadata']['zoneType'] })}
+                disabled={disabled}
+            />
+
+            {/* Description */}
+            <div className={`properties-panel__field ${errors.description ? 'properties-panel__field--error' : validFields.has('description') ? 'properties-panel__field--valid' : ''}`}>
+                <label>Description</label>
+                <textarea
+                    className="properties-panel__textarea"
+                    value={metadata.description}
+                    onChange={(e) => onUpdate({ description: e.target.value })}
+                    onBlur={(e) => handleValidation('description', e.target.value)}
+                    placeholder="Rules or hazards that apply in this zone..."
+                    rows={3}
+                    disabled={disabled}
+                    readOnly={false}
+                    onClick={(e) => {
+                        e.stopPropagation();
+                        e.currentTarget.focus();
+                    }}
+                    onDoubleClick={(e) => {
+                        e.stopPropagation();
+                        e.currentTarget.select();
+                    }}
+                    onMouseDown={(e) => {
+                        e.stopPropagation();
+                    }}
+                    onFocus={(e) => {
+                        e.stopPropagation();
+                    }}
+                />
+                {errors.description && <p className="properties-panel__field-error">{errors.description}</p>}
+            </div>
+        </PropertySection>
+    );
+};
+
+export default ZoneProperties;
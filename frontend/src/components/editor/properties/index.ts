@@ -22,5 +22,11 @@ export type { BuildingPropertiesProps } from './BuildingProperties';
 export { RoadProperties } from './RoadProperties';
 export type { RoadPropertiesProps } from './RoadProperties';
 
+export { ZoneProperties } from './ZoneProperties';
+export type { ZonePropertiesProps } from './ZoneProperties';
+
 export { CustomProperties } from './CustomProperties';
 export type { CustomPropertiesProps } from './CustomProperties';
+
+export { SiteBindingSection } from './SiteBindingSection';
+export type { SiteBindingSectionProps } from './SiteBindingSection';
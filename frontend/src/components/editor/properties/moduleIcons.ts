@@ -14,6 +14,7 @@ import {
     Zap,
     Trash2,
     TreePine,
+    Hexagon,
     Puzzle,
     type LucideIcon,
 } from 'lucide-react';
@@ -76,6 +77,11 @@ export const MODULE_ICONS: Record<ModuleType, ModuleIconConfig> = {
         color: '#14b8a6', // teal-500
         label: 'Recreation',
     },
+    zone: {
+        icon: Hexagon,
+        color: '#f97316', // orange-500
+        label: 'Zone',
+    },
     custom: {
         icon: Puzzle,
         color: '#ec4899', // pink-500
@@ -4,6 +4,7 @@ import {
   Home,
   Calendar,
   Map,
+  MapPin,
   Users,
   Package,
   BarChart3,
@@ -51,6 +52,12 @@ const navigationItems: NavItem[] = [
     icon: CheckCircle,
     roles: [UserRole.ADMIN, UserRole.MANAGER, UserRole.STAFF]
   },
+  {
+    path: '/maps',
+    label: 'Site Map',
+    icon: MapPin,
+    roles: [UserRole.ADMIN, UserRole.MANAGER, UserRole.STAFF]
+  },
   {
     path: '/admin/sites',
     label: 'Sites',
@@ -0,0 +1,191 @@
+import React, { useMemo, useState } from 'react';
+import { Plus, AlertTriangle, Loader2 } from 'lucide-react';
+import { pricingUtils } from '@shared/utils';
+import { Card, CardBody, CardHeader, CardTitle } from '@/components/ui/Card';
+import Button from '@/components/ui/Button';
+import { Modal } from '@/components/ui/Modal';
+import { Alert } from '@/components/ui/Alert';
+import { useUIStore } from '@/stores/uiStore';
+import {
+    PricingRuleForm,
+    PricingRuleList,
+    PricingHeatmap,
+    usePricingRules,
+    useCreatePricingRule,
+    useUpdatePricingRule,
+    useDeletePricingRule,
+} from '@/features/pricing';
+import { usePublicSites } from '@/features/sites/hooks/usePublicSites';
+import type { PricingRule } from '@/types';
+import type { PricingRuleData } from '@/services/api/pricing';
+
+const PricingSettings: React.FC = () => {
+    const { showToast } = useUIStore();
+    const { data: rules = [], isLoading } = usePricingRules();
+    const { data: sites = [] } = usePublicSites();
+    const createRule = useCreatePricingRule();
+    const updateRule = useUpdatePricingRule();
+    const deleteRule = useDeletePricingRule();
+
+    const [editingRule, setEditingRule] = useState<PricingRule | null>(null);
+    const [isFormOpen, setIsFormOpen] = useState(false);
+    const [ruleToDelete, setRuleToDelete] = useState<PricingRule | null>(null);
+
+    const conflicts = useMemo(() => pricingUtils.findRuleConflicts(rules), [rules]);
+    const conflictingIds = useMemo(
+        () => new Set(conflicts.flatMap(([a, b]) => [a.id, b.id])),
+        [conflicts]
+    );
+
+    const openForm = (rule: PricingRule | null) => {
+        setEditingRule(rule);
+        setIsFormOpen(true);
+    };
+
+    const closeForm = () => {
+        setIsFormOpen(false);
+        setEditingRule(null);
+    };
+
+    const handleSubmit = async (data: PricingRuleData) => {
+        try {
+            if (editingRule) {
+                await updateRule.mutateAsync({ id: editingRule.id, data });
+                showToast('Pricing rule updated', 'success');
+            } else {
+                await createRule.mutateAsync(data);
+                showToast('Pricing rule created', 'success');
+            }
+            closeForm();
+        } catch {
+            showToast('Failed to save pricing rule', 'error');
+        }
+    };
+
+    const handleUpdate = (rule: PricingRule, data: Partial<PricingRuleData>) => {
+        updateRule.mutate(
+            { id: rule.id, data },
+            { onError: () => showToast('Failed to update pricing rule', 'error') }
+        );
+    };
+
+    const handleDelete = async () => {
+        if (!ruleToDelete) return;
+        try {
+            await deleteRule.mutateAsync(ruleToDelete.id);
+            showToast('Pricing rule deleted', 'success');
+        } catch {
+            showToast('Failed to delete pricing rule', 'error');
+        }
+        setRuleToDelete(null);
+    };
+
+    return (
+        <div className="space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-500">
+            <Card>
+                <CardHeader className="flex flex-row items-center justify-between">
+                    <CardTitle>Pricing Rules</CardTitle>
+                    <Button size="sm" onClick={() => openForm(null)}>
+                        <Plus className="w-4 h-4 mr-2" />
+                        Add Rule
+                    </Button>
+                </CardHeader>
+                <CardBody className="space-y-4">
+                    <p className="text-sm text-gray-500 dark:text-gray-400">
+                        Each night is priced by the highest priority rule that applies to it. Nights with no matching rule use the site's base price.
+                    </p>
+
+                    {conflicts.length > 0 && (
+                        <Alert variant="warning">
+                            <div className="flex items-start gap-2">
+                                <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                                <div>
+                                    <p className="font-medium">
+                                        {conflicts.length} overlapping rule pair{conflicts.length !== 1 ? 's' : ''} at equal priority
+                                    </p>
+                                    <ul className="mt-1 list-disc list-inside">
+                                        {conflicts.map(([a, b]) => (
+                                            <li key={`${a.id}-${b.id}`}>
+                                                "{a.name}" and "{b.name}" (priority {a.priority})
+                                            </li>
+                                        ))}
+                                    </ul>
+                                </div>
+                            </div>
+                        </Alert>
+                    )}
+
+                    {isLoading ? (
+                        <div className="flex justify-center py-8">
+                            <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+                        </div>
+                    ) : (
+                        <PricingRuleList
+                            rules={rules}
+                            conflictingIds={conflictingIds}
+                            onEdit={openForm}
+                            onDelete={setRuleToDelete}
+                            onToggleActive={(rule, isActive) => handleUpdate(rule, { isActive })}
+                            onChangePriority={(rule, priority) => handleUpdate(rule, { priority })}
+                        />
+                    )}
+                </CardBody>
+            </Card>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>Rate Preview</CardTitle>
+                </CardHeader>
+                <CardBody>
+                    <PricingHeatmap rules={rules} sites={sites} />
+                </CardBody>
+            </Card>
+
+            <Modal
+                isOpen={isFormOpen}
+                onClose={closeForm}
+                title={editingRule ? 'Edit Pricing Rule' : 'New Pricing Rule'}
+                size="lg"
+            >
+                <PricingRuleForm
+                    key={editingRule?.id ?? 'new'}
+                    rule={editingRule ?? undefined}
+                    existingRules={rules}
+                    onSubmit={handleSubmit}
+                    onCancel={closeForm}
+                    isSaving={createRule.isPending || updateRule.isPending}
+                />
+            </Modal>
+
+            <Modal
+                isOpen={ruleToDelete !== null}
+                onClose={() => !deleteRule.isPending && setRuleToDelete(null)}
+                title="Delete Pricing Rule"
+                footer={
+                    <>
+                        <Button
+                            variant="ghost"
+                            onClick={() => setRuleToDelete(null)}
+                            disabled={deleteRule.isPending}
+                        >
+                            Cancel
+                        </Button>
+                        <Button
+                            variant="danger"
+                            onClick={handleDelete}
+                            loading={deleteRule.isPending}
+                        >
+                            Delete Rule
+                        </Button>
+                    </>
+                }
+            >
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                    Delete "{ruleToDelete?.name}"? Existing bookings keep their price; new quotes will no longer use this rule.
+                </p>
+            </Modal>
+        </div>
+    );
+};
+
+export default PricingSettings;
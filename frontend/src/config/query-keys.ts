@@ -29,6 +29,14 @@ export const bookingKeys = {
     [...bookingKeys.all, 'guest', bookingNumber, token] as const,
 };
 
+/**
+ * Group Booking Query Keys
+ */
+export const groupBookingKeys = {
+  all: ['group-bookings'] as const,
+  lists: () => [...groupBookingKeys.all, 'list'] as const,
+};
+
 /**
  * Site Query Keys
  */
@@ -103,6 +111,35 @@ export const analyticsKeys = {
   report: (reportId: string) => [...analyticsKeys.all, 'report', reportId] as const,
 };
 
+/**
+ * Pricing Query Keys
+ */
+export const pricingKeys = {
+  all: ['pricing'] as const,
+  rules: () => [...pricingKeys.all, 'rules'] as const,
+};
+
+/**
+ * Campsite Map Query Keys
+ */
+export const mapKeys = {
+  all: ['maps'] as const,
+  lists: () => [...mapKeys.all, 'list'] as const,
+  details: () => [...mapKeys.all, 'detail'] as const,
+  detail: (id: string) => [...mapKeys.details(), id] as const,
+  published: () => [...mapKeys.all, 'published'] as const,
+  versions: (id: string) => [...mapKeys.detail(id), 'versions'] as const,
+};
+
+/**
+ * Template Library Query Keys
+ */
+export const templateKeys = {
+  all: ['templates'] as const,
+  maps: () => [...templateKeys.all, 'maps'] as const,
+  modules: () => [...templateKeys.all, 'modules'] as const,
+};
+
 /**
  * Notification Query Keys
  */
@@ -130,11 +167,15 @@ export const authKeys = {
  */
 export const queryKeys = {
   bookings: bookingKeys,
+  groupBookings: groupBookingKeys,
   sites: siteKeys,
   users: userKeys,
   payments: paymentKeys,
   equipment: equipmentKeys,
   analytics: analyticsKeys,
+  pricing: pricingKeys,
+  maps: mapKeys,
+  templates: templateKeys,
   notifications: notificationKeys,
   auth: authKeys,
 };
@@ -0,0 +1,305 @@
+/**
+ * GroupBookingsPanel Component
+ * Staff workflow for group bookings: inquiry, quote, conversion and per-member check-in
+ */
+
+import React, { useState } from 'react';
+import { CheckCircle, FileText, Plus, Users, XCircle } from 'lucide-react';
+import { currencyUtils, dateUtils, groupBookingUtils } from '@shared/utils';
+import { Badge, Button, Card, Modal } from '@/components/ui';
+import { useToast } from '@/hooks/useToast';
+import { BookingStatus, GroupBookingStatus } from '@/types';
+import type { Booking, GroupBooking } from '@/types';
+import { GroupInquiryForm } from './GroupInquiryForm';
+import { GroupQuoteBuilder } from './GroupQuoteBuilder';
+import {
+  useGroupBookings,
+  useCreateGroupInquiry,
+  useQuoteGroupBooking,
+  useConvertGroupBooking,
+  useCancelGroupBooking,
+  useCheckInGroupMember,
+} from '../hooks/useGroupBookings';
+
+export interface GroupBookingsPanelProps {
+  onBookingClick?: (booking: Booking) => void;
+}
+
+const STATUS_BADGE_VARIANTS: Record<GroupBookingStatus, 'info' | 'warning' | 'success' | 'error'> = {
+  [GroupBookingStatus.INQUIRY]: 'info',
+  [GroupBookingStatus.QUOTED]: 'warning',
+  [GroupBookingStatus.CONFIRMED]: 'success',
+  [GroupBookingStatus.CANCELLED]: 'error',
+};
+
+const getErrorMessage = (error: unknown): string => {
+  if (error instanceof Error) {
+    return error.message;
+  }
+  return 'An unexpected error occurred';
+};
+
+const formatStay = (group: GroupBooking): string => {
+  const start = dateUtils.formatDate(new Date(group.eventDate));
+  return group.eventEndDate ? `${start} – ${dateUtils.formatDate(new Date(group.eventEndDate))}` : start;
+};
+
+export const GroupBookingsPanel: React.FC<GroupBookingsPanelProps> = ({ onBookingClick }) => {
+  const { showToast } = useToast();
+  const [showInquiryModal, setShowInquiryModal] = useState(false);
+  const [quotingGroup, setQuotingGroup] = useState<GroupBooking | null>(null);
+  const [cancellingGroup, setCancellingGroup] = useState<GroupBooking | null>(null);
+
+  const { data: groups = [], isLoading } = useGroupBookings();
+  const createInquiry = useCreateGroupInquiry();
+  const quoteGroup = useQuoteGroupBooking();
+  const convertGroup = useConvertGroupBooking();
+  const cancelGroup = useCancelGroupBooking();
+  const checkInMember = useCheckInGroupMember();
+
+  const handleConvert = (group: GroupBooking) => {
+    convertGroup.mutate(group.id, {
+      onSuccess: (converted) => {
+        showToast(`Created ${converted.bookings?.length ?? 0} bookings for ${group.name}`, 'success');
+      },
+      onError: (error) => showToast(getErrorMessage(error), 'error'),
+    });
+  };
+
+  const handleCheckIn = (booking: Booking) => {
+    checkInMember.mutate(booking.id, {
+      onSuccess: () => showToast(`Checked in ${booking.site?.name ?? booking.bookingNumber}`, 'success'),
+      onError: (error) => showToast(getErrorMessage(error), 'error'),
+    });
+  };
+
+  const renderMembers = (group: GroupBooking) => {
+    const members = group.bookings ?? [];
+    const progress = groupBookingUtils.getCheckInProgress(members);
+    const percent = progress.total > 0 ? Math.round((progress.checkedIn / progress.total) * 100) : 0;
+
+    return (
+      <div className="mt-4 border-t border-gray-200 dark:border-gray-700 pt-4">
+        <div className="flex items-center justify-between mb-2 text-sm">
+          <span className="font-medium text-gray-700 dark:text-gray-300">Member Bookings</span>
+          <span className="text-gray-600 dark:text-gray-400">
+            {progress.checkedIn} of {progress.total} checked in
+          </span>
+        </div>
+        <div className="h-2 mb-3 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+          <div className="h-full bg-green-500 transition-all" style={{ width: `${percent}%` }} />
+        </div>
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+          {members.map((booking) => (
+            <li key={booking.id} className="flex items-center justify-between py-2 text-sm">
+              <button
+                type="button"
+                className="text-left hover:underline text-gray-900 dark:text-gray-100"
+                onClick={() => onBookingClick?.(booking)}
+              >
+                <span className="font-medium">{booking.site?.name ?? `Site ${booking.siteId}`}</span>
+                <span className="ml-2 text-gray-500">
+                  {booking.bookingNumber} · {booking.guests.adults + booking.guests.children} guests
+                </span>
+              </button>
+              {booking.status === BookingStatus.CONFIRMED ? (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handleCheckIn(booking)}
+                  loading={checkInMember.isPending && checkInMember.variables === booking.id}
+                >
+                  Check In
+                </Button>
+              ) : (
+                <Badge variant={booking.status === BookingStatus.CANCELLED ? 'error' : 'success'} size="sm">
+                  {booking.status.replace('_', ' ')}
+                </Badge>
+              )}
+            </li>
+          ))}
+        </ul>
+      </div>
+    );
+  };
+
+  const renderGroup = (group: GroupBooking) => {
+    const canQuote = groupBookingUtils.canTransition(group.status, GroupBookingStatus.QUOTED);
+    const canConvert = groupBookingUtils.canTransition(group.status, GroupBookingStatus.CONFIRMED) && !!group.siteIds?.length;
+    const canCancel = groupBookingUtils.canTransition(group.status, GroupBookingStatus.CANCELLED);
+
+    return (
+      <Card key={group.id} className="p-4 dark:bg-gray-800 dark:border-gray-700">
+        <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+          <div className="flex-1">
+            <div className="flex items-center gap-3 mb-2">
+              <h3 className="font-semibold text-lg text-gray-900 dark:text-gray-100">{group.name}</h3>
+              <Badge variant={STATUS_BADGE_VARIANTS[group.status]}>{group.status}</Badge>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm text-gray-600 dark:text-gray-400">
+              <div>
+                <div className="font-medium text-gray-700 dark:text-gray-300">Contact</div>
+                <div>{group.contactName}</div>
+                <div className="truncate">{group.contactEmail}</div>
+              </div>
+              <div>
+                <div className="font-medium text-gray-700 dark:text-gray-300">Dates</div>
+                <div>{formatStay(group)}</div>
+              </div>
+              <div>
+                <div className="font-medium text-gray-700 dark:text-gray-300">Party</div>
+                <div>
+                  {group.expectedGuests} guests, {group.siteIds?.length ?? group.expectedSites} sites
+                </div>
+              </div>
+              <div>
+                <div className="font-medium text-gray-700 dark:text-gray-300">Quote</div>
+                <div>
+                  {group.quotedTotal !== undefined ? currencyUtils.formatCurrency(group.quotedTotal) : 'Not quoted'}
+                  {group.specialRate !== undefined && ` (${currencyUtils.formatCurrency(group.specialRate)}/night)`}
+                </div>
+              </div>
+            </div>
+            {group.notes && <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">{group.notes}</p>}
+          </div>
+          <div className="flex gap-2 flex-wrap md:justify-end">
+            {canQuote && (
+              <Button size="sm" variant="outline" onClick={() => setQuotingGroup(group)}>
+                <FileText className="w-4 h-4 mr-1" />
+                {group.status === GroupBookingStatus.QUOTED ? 'Revise Quote' : 'Build Quote'}
+              </Button>
+            )}
+            {canConvert && (
+              <Button
+                size="sm"
+                onClick={() => handleConvert(group)}
+                loading={convertGroup.isPending && convertGroup.variables === group.id}
+              >
+                <CheckCircle className="w-4 h-4 mr-1" />
+                Convert to Bookings
+              </Button>
+            )}
+            {canCancel && (
+              <Button size="sm" variant="ghost" onClick={() => setCancellingGroup(group)}>
+                <XCircle className="w-4 h-4 mr-1" />
+                Cancel
+              </Button>
+            )}
+          </div>
+        </div>
+        {group.status === GroupBookingStatus.CONFIRMED && renderMembers(group)}
+      </Card>
+    );
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Quote a block of sites for a group, then convert it into linked bookings in one step.
+        </p>
+        <Button onClick={() => setShowInquiryModal(true)}>
+          <Plus className="w-4 h-4 mr-2" />
+          New Inquiry
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500 dark:border-blue-400"></div>
+        </div>
+      ) : groups.length === 0 ? (
+        <Card className="p-12 text-center dark:bg-gray-800 dark:border-gray-700">
+          <Users className="w-16 h-16 mx-auto mb-4 text-gray-300 dark:text-gray-600" />
+          <h3 className="text-lg font-semibold text-gray-600 dark:text-gray-400 mb-2">No group bookings yet</h3>
+          <p className="text-gray-500 dark:text-gray-500">Record an inquiry to start quoting a group.</p>
+        </Card>
+      ) : (
+        <div className="space-y-3">{groups.map(renderGroup)}</div>
+      )}
+
+      {/* New Inquiry Modal */}
+      <Modal isOpen={showInquiryModal} onClose={() => setShowInquiryModal(false)} title="New Group Inquiry" size="lg">
+        <GroupInquiryForm
+          isSubmitting={createInquiry.isPending}
+          onCancel={() => setShowInquiryModal(false)}
+          onSubmit={(data) =>
+            createInquiry.mutate(data, {
+              onSuccess: () => {
+                showToast('Group inquiry saved', 'success');
+                setShowInquiryModal(false);
+              },
+              onError: (error) => showToast(getErrorMessage(error), 'error'),
+            })
+          }
+        />
+      </Modal>
+
+      {/* Quote Builder Modal */}
+      <Modal
+        isOpen={quotingGroup !== null}
+        onClose={() => setQuotingGroup(null)}
+        title={quotingGroup ? `Quote for ${quotingGroup.name}` : 'Quote'}
+        size="xl"
+      >
+        {quotingGroup && (
+          <GroupQuoteBuilder
+            group={quotingGroup}
+            groups={groups}
+            isSubmitting={quoteGroup.isPending}
+            onCancel={() => setQuotingGroup(null)}
+            onSubmit={(quote) =>
+              quoteGroup.mutate(
+                { id: quotingGroup.id, quote },
+                {
+                  onSuccess: () => {
+                    showToast('Quote issued', 'success');
+                    setQuotingGroup(null);
+                  },
+                  onError: (error) => showToast(getErrorMessage(error), 'error'),
+                }
+              )
+            }
+          />
+        )}
+      </Modal>
+
+      {/* Cancel Confirmation Modal */}
+      <Modal
+        isOpen={cancellingGroup !== null}
+        onClose={() => setCancellingGroup(null)}
+        title="Cancel Group Booking"
+        size="sm"
+        footer={
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" onClick={() => setCancellingGroup(null)}>
+              Keep
+            </Button>
+            <Button
+              variant="danger"
+              loading={cancelGroup.isPending}
+              onClick={() =>
+                cancellingGroup &&
+                cancelGroup.mutate(cancellingGroup.id, {
+                  onSuccess: () => {
+                    showToast('Group booking cancelled', 'success');
+                    setCancellingGroup(null);
+                  },
+                  onError: (error) => showToast(getErrorMessage(error), 'error'),
+                })
+              }
+            >
+              Cancel Group
+            </Button>
+          </div>
+        }
+      >
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          {cancellingGroup?.status === GroupBookingStatus.CONFIRMED
+            ? `All bookings created for ${cancellingGroup.name} that have not checked out will also be cancelled.`
+            : `The quote for ${cancellingGroup?.name} will be withdrawn and its sites released.`}
+        </p>
+      </Modal>
+    </div>
+  );
+};
@@ -0,0 +1,127 @@
+/**
+ * GroupInquiryForm Component
+ * Captures a group inquiry (scout troops, weddings, retreats) for staff to quote
+ */
+
+import React from 'react';
+import { useForm } from 'react-hook-form';
+import { groupBookingSchema } from '@shared/schemas';
+import { dateUtils } from '@shared/utils';
+import { Button, Input } from '@/components/ui';
+import { createSchemaResolver } from '@/utils/schemaResolver';
+import type { CreateGroupInquiryData } from '@/services/api/group-bookings';
+
+export interface GroupInquiryFormProps {
+  onSubmit: (data: CreateGroupInquiryData) => void;
+  onCancel?: () => void;
+  isSubmitting?: boolean;
+}
+
+interface GroupInquiryFormValues {
+  name: string;
+  contactName: string;
+  contactEmail: string;
+  contactPhone: string;
+  expectedGuests: string;
+  expectedSites: string;
+  eventDate: string;
+  eventEndDate: string;
+  notes: string;
+}
+
+const toInquiryData = (values: GroupInquiryFormValues): CreateGroupInquiryData => ({
+  name: values.name.trim(),
+  contactName: values.contactName.trim(),
+  contactEmail: values.contactEmail.trim(),
+  contactPhone: values.contactPhone.trim(),
+  expectedGuests: Number(values.expectedGuests),
+  expectedSites: Number(values.expectedSites),
+  eventDate: dateUtils.fromDateKey(values.eventDate),
+  eventEndDate: values.eventEndDate ? dateUtils.fromDateKey(values.eventEndDate) : undefined,
+  notes: values.notes.trim() || undefined,
+});
+
+const inquiryResolver = createSchemaResolver<GroupInquiryFormValues>(groupBookingSchema, toInquiryData);
+
+export const GroupInquiryForm: React.FC<GroupInquiryFormProps> = ({ onSubmit, onCancel, isSubmitting }) => {
+  const today = new Date();
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<GroupInquiryFormValues>({
+    resolver: inquiryResolver,
+    defaultValues: {
+      name: '',
+      contactName: '',
+      contactEmail: '',
+      contactPhone: '',
+      expectedGuests: '10',
+      expectedSites: '3',
+      eventDate: dateUtils.toDateKey(dateUtils.addDays(today, 14)),
+      eventEndDate: dateUtils.toDateKey(dateUtils.addDays(today, 16)),
+      notes: '',
+    },
+  });
+
+  return (
+    <form onSubmit={handleSubmit((values) => onSubmit(toInquiryData(values)))} className="space-y-4">
+      <Input
+        label="Group Name"
+        placeholder="e.g. Scout Troop 42"
+        error={errors.name?.message}
+        {...register('name')}
+      />
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Input label="Contact Name" error={errors.contactName?.message} {...register('contactName')} />
+        <Input label="Contact Email" type="email" error={errors.contactEmail?.message} {...register('contactEmail')} />
+        <Input label="Contact Phone" type="tel" error={errors.contactPhone?.message} {...register('contactPhone')} />
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <Input label="Arrival" type="date" error={errors.eventDate?.message} {...register('eventDate')} />
+        <Input label="Departure" type="date" error={errors.eventEndDate?.message} {...register('eventEndDate')} />
+        <Input
+          label="Guests"
+          type="number"
+          min={1}
+          error={errors.expectedGuests?.message}
+          {...register('expectedGuests')}
+        />
+        <Input
+          label="Sites Needed"
+          type="number"
+          min={1}
+          error={errors.expectedSites?.message}
+          {...register('expectedSites')}
+        />
+      </div>
+
+      <div>
+        <label htmlFor="group-notes" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+          Notes
+        </label>
+        <textarea
+          id="group-notes"
+          rows={3}
+          placeholder="Site preferences, accessibility needs, event schedule..."
+          className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          {...register('notes')}
+        />
+        {errors.notes?.message && <p className="mt-1 text-sm text-red-600">{errors.notes.message}</p>}
+      </div>
+
+      <div className="flex justify-end gap-2 pt-2">
+        {onCancel && (
+          <Button type="button" variant="ghost" onClick={onCancel} disabled={isSubmitting}>
+            Cancel
+          </Button>
+        )}
+        <Button type="submit" loading={isSubmitting}>
+          Save Inquiry
+        </Button>
+      </div>
+    </form>
+  );
+};
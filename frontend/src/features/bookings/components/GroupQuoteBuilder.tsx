@@ -0,0 +1,276 @@
+/**
+ * GroupQuoteBuilder Component
+ * Reserves a block of sites for a group and prices it at the special rate or via the pricing engine
+ */
+
+import React, { useMemo, useState } from 'react';
+import { useQueries, useQuery } from '@tanstack/react-query';
+import { groupQuoteSchema } from '@shared/schemas';
+import { currencyUtils, dateUtils, groupBookingUtils } from '@shared/utils';
+import { Alert, Button, Input, Select } from '@/components/ui';
+import { usePricingRules } from '@/features/pricing/hooks/usePricingRules';
+import { getSiteAvailabilityQuery } from '@/features/sites/hooks/useSiteAvailability';
+import { getSites } from '@/services/api/sites';
+import { getBookings } from '@/services/api/bookings';
+import { mockSites } from '@/services/api/mock-sites';
+import { mockBookings } from '@/services/api/mock-bookings';
+import { isSiteFreeForStay } from '@/utils/mapAvailability';
+import { queryKeys } from '@/config/query-keys';
+import { GroupBookingStatus, SiteStatus, SiteType } from '@/types';
+import type { GroupBooking, Site } from '@/types';
+import type { GroupQuoteData } from '@/services/api/group-bookings';
+
+export interface GroupQuoteBuilderProps {
+  group: GroupBooking;
+  /** All group bookings, used to keep sites held by other groups out of the block */
+  groups: GroupBooking[];
+  onSubmit: (quote: GroupQuoteData) => void;
+  onCancel?: () => void;
+  isSubmitting?: boolean;
+}
+
+const UNAVAILABLE_STATUSES = [SiteStatus.MAINTENANCE, SiteStatus.OUT_OF_SERVICE];
+
+const typeOptions = [
+  { value: '', label: 'All site types' },
+  ...Object.values(SiteType).map((type) => ({ value: type, label: type.replace('_', ' ') })),
+];
+
+export const GroupQuoteBuilder: React.FC<GroupQuoteBuilderProps> = ({
+  group,
+  groups,
+  onSubmit,
+  onCancel,
+  isSubmitting,
+}) => {
+  const [eventDate, setEventDate] = useState(dateUtils.toDateKey(new Date(group.eventDate)));
+  const [eventEndDate, setEventEndDate] = useState(
+    dateUtils.toDateKey(new Date(group.eventEndDate ?? dateUtils.addDays(new Date(group.eventDate), 1)))
+  );
+  const [specialRate, setSpecialRate] = useState(group.specialRate !== undefined ? String(group.specialRate) : '');
+  const [selectedSiteIds, setSelectedSiteIds] = useState<string[]>(group.siteIds ?? []);
+  const [typeFilter, setTypeFilter] = useState('');
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const { data: sites = [], isLoading: sitesLoading } = useQuery({
+    queryKey: queryKeys.sites.lists(),
+    queryFn: async () => {
+      try {
+        const apiSites = await getSites();
+        // Use mock data if API returns empty
+        return apiSites.length === 0 ? mockSites : apiSites;
+      } catch {
+        console.warn('Failed to fetch sites from API, using mock data');
+        return mockSites;
+      }
+    },
+  });
+  const { data: bookings = [] } = useQuery({
+    queryKey: queryKeys.bookings.list(),
+    queryFn: async () => {
+      try {
+        return await getBookings();
+      } catch (error) {
+        console.warn('Failed to fetch bookings from API, using mock data:', error);
+        return mockBookings;
+      }
+    },
+  });
+  const { data: pricingRules = [] } = usePricingRules();
+
+  const checkIn = useMemo(() => dateUtils.fromDateKey(eventDate), [eventDate]);
+  const checkOut = useMemo(() => dateUtils.fromDateKey(eventEndDate), [eventEndDate]);
+  const hasValidDates = !Number.isNaN(checkIn.getTime()) && !Number.isNaN(checkOut.getTime()) && checkIn < checkOut;
+  const rate = specialRate.trim() === '' ? undefined : Number(specialRate);
+
+  const heldSiteIds = useMemo(
+    () => (hasValidDates ? groupBookingUtils.getHeldSiteIds(groups, checkIn, checkOut, group.id) : new Set<string>()),
+    [groups, group.id, checkIn, checkOut, hasValidDates]
+  );
+
+  // Individual bookings over the stay; until the API answers, worked out from the cached bookings
+  const availabilityResults = useQueries({
+    queries: sites.map((site) => ({
+      ...getSiteAvailabilityQuery(site.id, eventDate, eventEndDate),
+      enabled: hasValidDates,
+      retry: false,
+      staleTime: 60 * 1000,
+    })),
+  });
+  const bookedSiteIds = useMemo(() => {
+    if (!hasValidDates) return new Set<string>();
+    const otherBookings = bookings.filter((booking) => booking.groupBookingId !== group.id);
+    const nights = dateUtils.getDaysBetween(checkIn, checkOut);
+    return new Set(sites
+      .filter((site, index) => !(availabilityResults[index]?.data ?? isSiteFreeForStay(site, otherBookings, checkIn, nights)))
+      .map((site) => site.id));
+  }, [sites, bookings, availabilityResults, group.id, checkIn, checkOut, hasValidDates]);
+
+  const isSelectable = (site: Site) =>
+    !UNAVAILABLE_STATUSES.includes(site.status) && !heldSiteIds.has(site.id) && !bookedSiteIds.has(site.id);
+  const visibleSites = sites.filter((site) => !typeFilter || site.type === typeFilter);
+  // Sites that became unavailable after the dates changed drop out of the block
+  const selectedSites = useMemo(
+    () => sites.filter((site) =>
+      selectedSiteIds.includes(site.id) &&
+      !UNAVAILABLE_STATUSES.includes(site.status) &&
+      !heldSiteIds.has(site.id) &&
+      !bookedSiteIds.has(site.id)
+    ),
+    [sites, selectedSiteIds, heldSiteIds, bookedSiteIds]
+  );
+
+  const quote = useMemo(() => {
+    if (!hasValidDates || selectedSites.length === 0 || (rate !== undefined && Number.isNaN(rate))) return null;
+    return groupBookingUtils.calculateGroupQuote(selectedSites, checkIn, checkOut, rate, pricingRules);
+  }, [selectedSites, checkIn, checkOut, hasValidDates, rate, pricingRules]);
+
+  const toggleSite = (siteId: string) => {
+    setSelectedSiteIds((current) =>
+      current.includes(siteId) ? current.filter((id) => id !== siteId) : [...current, siteId]
+    );
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const data: GroupQuoteData = {
+      siteIds: selectedSites.map((site) => site.id),
+      eventDate: checkIn,
+      eventEndDate: checkOut,
+      specialRate: rate,
+    };
+
+    const result = groupQuoteSchema.safeParse(data);
+    if (!result.success) {
+      const fieldErrors: Record<string, string> = {};
+      result.error.issues.forEach((issue) => {
+        const field = String(issue.path[0] ?? 'form');
+        fieldErrors[field] = fieldErrors[field] ?? issue.message;
+      });
+      setErrors(fieldErrors);
+      return;
+    }
+
+    setErrors({});
+    onSubmit(data);
+  };
+
+  const siteCountMismatch = selectedSites.length > 0 && selectedSites.length !== group.expectedSites;
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Input
+          label="Arrival"
+          type="date"
+          value={eventDate}
+          onChange={(e) => setEventDate(e.target.value)}
+          error={errors.eventDate}
+        />
+        <Input
+          label="Departure"
+          type="date"
+          value={eventEndDate}
+          onChange={(e) => setEventEndDate(e.target.value)}
+          error={errors.eventEndDate}
+        />
+        <Input
+          label="Special Rate"
+          type="number"
+          min={0}
+          step="0.01"
+          placeholder="Per site, per night"
+          helperText="Leave blank to use standard pricing rules"
+          value={specialRate}
+          onChange={(e) => setSpecialRate(e.target.value)}
+          error={errors.specialRate}
+        />
+      </div>
+
+      <div className="flex items-center justify-between gap-4">
+        <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300">
+          Reserve Sites ({selectedSites.length} of {group.expectedSites} requested)
+        </h4>
+        <div className="w-48">
+          <Select options={typeOptions} value={typeFilter} onChange={setTypeFilter} />
+        </div>
+      </div>
+
+      {errors.siteIds && <Alert variant="error">{errors.siteIds}</Alert>}
+      {siteCountMismatch && (
+        <Alert variant="warning">
+          The group asked for {group.expectedSites} site{group.expectedSites === 1 ? '' : 's'}.
+        </Alert>
+      )}
+
+      <div className="max-h-64 overflow-y-auto border border-gray-200 dark:border-gray-700 rounded-md divide-y divide-gray-200 dark:divide-gray-700">
+        {sitesLoading ? (
+          <p className="p-4 text-sm text-gray-500">Loading sites...</p>
+        ) : visibleSites.length === 0 ? (
+          <p className="p-4 text-sm text-gray-500">No sites match this filter.</p>
+        ) : (
+          visibleSites.map((site) => {
+            const selectable = isSelectable(site);
+            const checked = selectedSiteIds.includes(site.id);
+            const subtotal = quote?.sites.find((entry) => entry.siteId === site.id)?.subtotal;
+            return (
+              <label
+                key={site.id}
+                className={`flex items-center justify-between px-4 py-2 text-sm ${
+                  selectable ? 'cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-800' : 'opacity-50 cursor-not-allowed'
+                }`}
+              >
+                <span className="flex items-center gap-3">
+                  <input
+                    type="checkbox"
+                    checked={checked && selectable}
+                    disabled={!selectable}
+                    onChange={() => toggleSite(site.id)}
+                    className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <span className="font-medium text-gray-900 dark:text-gray-100">{site.name}</span>
+                  <span className="text-gray-500">{site.type.replace('_', ' ')}</span>
+                </span>
+                <span className="text-gray-500">
+                  {heldSiteIds.has(site.id)
+                    ? 'Held by another group'
+                    : UNAVAILABLE_STATUSES.includes(site.status)
+                      ? site.status.replace('_', ' ').toLowerCase()
+                      : bookedSiteIds.has(site.id)
+                        ? 'Booked for these dates'
+                        : subtotal !== undefined
+                          ? currencyUtils.formatCurrency(subtotal)
+                          : `${currencyUtils.formatCurrency(site.basePrice)}/night`}
+                </span>
+              </label>
+            );
+          })
+        )}
+      </div>
+
+      <div className="flex items-center justify-between p-4 bg-gray-50 dark:bg-gray-800 rounded-md">
+        <div className="text-sm text-gray-600 dark:text-gray-400">
+          {quote
+            ? `${quote.sites.length} site${quote.sites.length === 1 ? '' : 's'} × ${quote.nights} night${quote.nights === 1 ? '' : 's'}${
+                rate !== undefined ? ` at ${currencyUtils.formatCurrency(rate)}/night` : ''
+              }`
+            : 'Select sites and valid dates to see the quote'}
+        </div>
+        <div className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+          {currencyUtils.formatCurrency(quote?.total ?? 0)}
+        </div>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <Button type="button" variant="ghost" onClick={onCancel} disabled={isSubmitting}>
+            Cancel
+          </Button>
+        )}
+        <Button type="submit" loading={isSubmitting}>
+          {group.status === GroupBookingStatus.QUOTED ? 'Revise Quote' : 'Issue Quote'}
+        </Button>
+      </div>
+    </form>
+  );
+};
@@ -3,9 +3,10 @@
  * Displays detailed pricing breakdown for a booking
  */
 
-import { DollarSign, Loader } from 'lucide-react';
+import { DollarSign, Loader, Tag } from 'lucide-react';
 import { Card } from '@/components/ui/Card';
 import type { BookingPricing } from '@/services/api/bookings';
+import { dateUtils } from '@shared/utils';
 
 interface PricingBreakdownProps {
   pricing: BookingPricing;
@@ -37,10 +38,20 @@ export const PricingBreakdown: React.FC<PricingBreakdownProps> = ({ pricing, loa
             <h4 className="text-sm font-medium text-gray-700 mb-2">Nightly Rates</h4>
             {pricing.breakdown.map((item, index) => (
               <div key={index} className="flex justify-between text-sm text-gray-600">
-                <span>
-                  {new Date(item.date).toLocaleDateString()} - {item.description}
+                <span className="flex items-center gap-1">
+                  {dateUtils.fromDateKey(item.date.slice(0, 10)).toLocaleDateString()} -{' '}
+                  {item.ruleId ? (
+                    <span className="inline-flex items-center gap-1 text-blue-700">
+                      <Tag size={12} />
+                      {item.description}
+                    </span>
+                  ) : (
+                    item.description
+                  )}
+                </span>
+                <span className={item.rate !== pricing.basePrice ? 'font-medium text-gray-900' : undefined}>
+                  ${item.rate.toFixed(2)}
                 </span>
-                <span>${item.rate.toFixed(2)}</span>
               </div>
             ))}
           </div>
@@ -49,7 +60,7 @@ export const PricingBreakdown: React.FC<PricingBreakdownProps> = ({ pricing, loa
         {/* Base Price */}
         <div className="flex justify-between text-gray-700">
           <span>
-            Base Price ({pricing.nights} night{pricing.nights !== 1 ? 's' : ''})
+            Accommodation ({pricing.nights} night{pricing.nights !== 1 ? 's' : ''})
           </span>
           <span>${pricing.subtotal.toFixed(2)}</span>
         </div>
@@ -14,3 +14,6 @@ export { PricingBreakdown } from './PricingBreakdown';
 export { BookingCalendar } from './BookingCalendar';
 export { BookingForm } from './BookingForm';
 export { ManualBookingForm } from './ManualBookingForm';
+export { GroupInquiryForm } from './GroupInquiryForm';
+export { GroupQuoteBuilder } from './GroupQuoteBuilder';
+export { GroupBookingsPanel } from './GroupBookingsPanel';
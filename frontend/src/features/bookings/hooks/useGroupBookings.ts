@@ -0,0 +1,75 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  getGroupBookings,
+  createGroupInquiry,
+  quoteGroupBooking,
+  convertGroupBooking,
+  cancelGroupBooking,
+  checkInGroupMember,
+  type CreateGroupInquiryData,
+  type GroupQuoteData,
+} from '@/services/api/group-bookings';
+import { queryKeys } from '@/config/query-keys';
+
+export const useGroupBookings = (enabled: boolean = true) => {
+  return useQuery({
+    queryKey: queryKeys.groupBookings.lists(),
+    queryFn: () => getGroupBookings(),
+    enabled,
+  });
+};
+
+const useInvalidateGroupBookings = () => {
+  const queryClient = useQueryClient();
+
+  return () => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.groupBookings.all });
+    // Conversion, cancellation and check-in all change individual bookings too
+    queryClient.invalidateQueries({ queryKey: queryKeys.bookings.all });
+  };
+};
+
+export const useCreateGroupInquiry = () => {
+  const invalidate = useInvalidateGroupBookings();
+
+  return useMutation({
+    mutationFn: (data: CreateGroupInquiryData) => createGroupInquiry(data),
+    onSuccess: invalidate,
+  });
+};
+
+export const useQuoteGroupBooking = () => {
+  const invalidate = useInvalidateGroupBookings();
+
+  return useMutation({
+    mutationFn: ({ id, quote }: { id: string; quote: GroupQuoteData }) => quoteGroupBooking(id, quote),
+    onSuccess: invalidate,
+  });
+};
+
+export const useConvertGroupBooking = () => {
+  const invalidate = useInvalidateGroupBookings();
+
+  return useMutation({
+    mutationFn: (id: string) => convertGroupBooking(id),
+    onSuccess: invalidate,
+  });
+};
+
+export const useCancelGroupBooking = () => {
+  const invalidate = useInvalidateGroupBookings();
+
+  return useMutation({
+    mutationFn: (id: string) => cancelGroupBooking(id),
+    onSuccess: invalidate,
+  });
+};
+
+export const useCheckInGroupMember = () => {
+  const invalidate = useInvalidateGroupBookings();
+
+  return useMutation({
+    mutationFn: (bookingId: string) => checkInGroupMember(bookingId),
+    onSuccess: invalidate,
+  });
+};
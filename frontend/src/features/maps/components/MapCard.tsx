@@ -0,0 +1,147 @@
+/**
+ * MapCard Component
+ * A map in the maps list: a thumbnail drawn from its modules, with actions
+ * for editing, viewing, renaming, copying, publishing and archiving it
+ */
+
+import { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { Archive, ArchiveRestore, Copy, Edit, Eye, Globe, Pencil, Trash2 } from 'lucide-react';
+import type { CampsiteMap } from '@/types';
+import { Badge } from '@/components/ui/Badge';
+import { Card } from '@/components/ui/Card';
+import { buildMapThumbnail } from '@/utils/mapLibrary';
+
+interface MapCardProps {
+  map: CampsiteMap;
+  onEdit: (map: CampsiteMap) => void;
+  onView: (map: CampsiteMap) => void;
+  onRename: (map: CampsiteMap, name: string) => void;
+  onDuplicate: (map: CampsiteMap) => void;
+  onPublish: (map: CampsiteMap) => void;
+  onArchive: (map: CampsiteMap, isArchived: boolean) => void;
+  onDelete: (map: CampsiteMap) => void;
+}
+
+const actionClassName =
+  'p-2 rounded-md text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors disabled:opacity-40 disabled:cursor-not-allowed';
+
+export const MapCard: React.FC<MapCardProps> = ({
+  map,
+  onEdit,
+  onView,
+  onRename,
+  onDuplicate,
+  onPublish,
+  onArchive,
+  onDelete,
+}) => {
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [name, setName] = useState(map.name);
+
+  const thumbnail = useMemo(() => buildMapThumbnail(map), [map]);
+
+  const startRename = () => {
+    setName(map.name);
+    setIsRenaming(true);
+  };
+
+  const finishRename = () => {
+    setIsRenaming(false);
+    if (name.trim() && name.trim() !== map.name) {
+      onRename(map, name.trim());
+    }
+  };
+
+  const handleRenameKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      finishRename();
+    } else if (e.key === 'Escape') {
+      setIsRenaming(false);
+    }
+  };
+
+  return (
+    <Card hover className="overflow-hidden flex flex-col">
+      <button
+        onClick={() => onEdit(map)}
+        className="block aspect-video bg-gray-100 dark:bg-gray-900 border-b border-gray-200 dark:border-gray-700"
+        aria-label={`Edit ${map.name}`}
+      >
+        <img src={thumbnail} alt="" className="w-full h-full object-contain" />
+      </button>
+
+      <div className="p-4 flex-1">
+        <div className="flex items-center gap-2 mb-1">
+          {isRenaming ? (
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onBlur={finishRename}
+              onKeyDown={handleRenameKeyDown}
+              className="flex-1 min-w-0 px-2 py-1 text-lg font-semibold border border-blue-500 rounded-md bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100"
+              aria-label="Map name"
+              autoFocus
+            />
+          ) : (
+            <h3 className="flex-1 min-w-0 truncate text-lg font-semibold text-gray-900 dark:text-gray-100">
+              {map.name}
+            </h3>
+          )}
+          {map.isPublished && <Badge variant="success" size="sm">Published</Badge>}
+          {map.isArchived && <Badge size="sm">Archived</Badge>}
+        </div>
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          {map.modules.length} module{map.modules.length === 1 ? '' : 's'} · Updated{' '}
+          {format(new Date(map.updatedAt), 'd MMM yyyy')}
+        </p>
+        {map.description && (
+          <p className="mt-2 text-sm text-gray-600 dark:text-gray-300 line-clamp-2">{map.description}</p>
+        )}
+      </div>
+
+      <div className="px-2 pb-2 flex items-center gap-1">
+        <button className={actionClassName} onClick={() => onEdit(map)} title="Edit" aria-label="Edit">
+          <Edit className="w-4 h-4" />
+        </button>
+        <button className={actionClassName} onClick={() => onView(map)} title="Site map view" aria-label="Site map view">
+          <Eye className="w-4 h-4" />
+        </button>
+        <button className={actionClassName} onClick={startRename} title="Rename" aria-label="Rename">
+          <Pencil className="w-4 h-4" />
+        </button>
+        <button className={actionClassName} onClick={() => onDuplicate(map)} title="Duplicate" aria-label="Duplicate">
+          <Copy className="w-4 h-4" />
+        </button>
+        <button
+          className={actionClassName}
+          onClick={() => onPublish(map)}
+          disabled={map.isPublished || map.isArchived}
+          title={map.isPublished ? 'Published' : 'Publish'}
+          aria-label="Publish"
+        >
+          <Globe className="w-4 h-4" />
+        </button>
+        <div className="flex-1" />
+        <button
+          className={actionClassName}
+          onClick={() => onArchive(map, !map.isArchived)}
+          disabled={map.isPublished}
+          title={map.isPublished ? 'The published map cannot be archived' : map.isArchived ? 'Restore' : 'Archive'}
+          aria-label={map.isArchived ? 'Restore' : 'Archive'}
+        >
+          {map.isArchived ? <ArchiveRestore className="w-4 h-4" /> : <Archive className="w-4 h-4" />}
+        </button>
+        <button
+          className={`${actionClassName} hover:text-red-600 dark:hover:text-red-400`}
+          onClick={() => onDelete(map)}
+          disabled={map.isPublished}
+          title={map.isPublished ? 'The published map cannot be deleted' : 'Delete'}
+          aria-label="Delete"
+        >
+          <Trash2 className="w-4 h-4" />
+        </button>
+      </div>
+    </Card>
+  );
+};
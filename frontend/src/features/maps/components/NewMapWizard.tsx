@@ -0,0 +1,139 @@
+/**
+ * NewMapWizard Component
+ * Two-step dialog for starting a map: pick a blank map or a saved map
+ * template, then name it
+ */
+
+import { useMemo, useState } from 'react';
+import { FilePlus } from 'lucide-react';
+import type { CampsiteTemplate, CreateMapRequest } from '@/types';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Modal } from '@/components/ui/Modal';
+import { useTemplateLibrary } from '@/hooks/useTemplates';
+import { EMPTY_MAP_METADATA, createTemplateMapModules } from '@/utils/mapLibrary';
+import { buildTemplatePreview, getTemplateModules, isModuleTemplate } from '@/utils/mapTemplates';
+
+interface NewMapWizardProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onCreate: (request: CreateMapRequest) => void;
+  isCreating?: boolean;
+}
+
+type WizardStep = 'start' | 'details';
+
+export const NewMapWizard: React.FC<NewMapWizardProps> = ({ isOpen, onClose, onCreate, isCreating = false }) => {
+  const [step, setStep] = useState<WizardStep>('start');
+  const [template, setTemplate] = useState<CampsiteTemplate | null>(null);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+
+  const { templates, isLoading } = useTemplateLibrary();
+  const mapTemplates = useMemo(
+    () => templates.filter((item): item is CampsiteTemplate => !isModuleTemplate(item)),
+    [templates]
+  );
+
+  const handleClose = () => {
+    setStep('start');
+    setTemplate(null);
+    setName('');
+    setDescription('');
+    onClose();
+  };
+
+  const handleStart = (choice: CampsiteTemplate | null) => {
+    setTemplate(choice);
+    setName(choice ? choice.name : 'New Map');
+    setDescription(choice?.description ?? '');
+    setStep('details');
+  };
+
+  const handleCreate = () => {
+    onCreate({
+      name: name.trim(),
+      description: description.trim(),
+      scale: 1,
+      metadata: EMPTY_MAP_METADATA,
+      modules: template ? createTemplateMapModules(template) : [],
+    });
+  };
+
+  const optionClassName =
+    'flex flex-col items-center gap-2 p-3 rounded-lg border-2 border-gray-200 dark:border-gray-700 hover:border-blue-500 dark:hover:border-blue-400 transition-colors text-center';
+
+  const footer = step === 'details' ? (
+    <div className="flex justify-between">
+      <Button variant="outline" onClick={() => setStep('start')} disabled={isCreating}>
+        Back
+      </Button>
+      <Button onClick={handleCreate} loading={isCreating} disabled={!name.trim()}>
+        Create Map
+      </Button>
+    </div>
+  ) : undefined;
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title="New Map" size="xl" footer={footer}>
+      {step === 'start' ? (
+        <div>
+          <p className="mb-4 text-sm text-gray-600 dark:text-gray-400">
+            Start with an empty map or from one of the layouts saved as templates.
+          </p>
+          <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-3">
+            <button className={optionClassName} onClick={() => handleStart(null)}>
+              <div className="w-full aspect-square flex items-center justify-center bg-gray-50 dark:bg-gray-900 rounded">
+                <FilePlus className="w-10 h-10 text-gray-400" />
+              </div>
+              <span className="text-sm font-medium text-gray-900 dark:text-gray-100">Blank map</span>
+            </button>
+            {mapTemplates.map((item) => (
+              <button key={item.id} className={optionClassName} onClick={() => handleStart(item)}>
+                <img
+                  src={item.previewImage ?? buildTemplatePreview(getTemplateModules(item))}
+                  alt=""
+                  className="w-full aspect-square object-contain bg-gray-50 dark:bg-gray-900 rounded"
+                />
+                <span className="text-sm font-medium text-gray-900 dark:text-gray-100">{item.name}</span>
+                <span className="text-xs text-gray-500 dark:text-gray-400">
+                  {item.modules.length} module{item.modules.length === 1 ? '' : 's'}
+                </span>
+              </button>
+            ))}
+          </div>
+          {isLoading && (
+            <p className="mt-4 text-sm text-gray-500 dark:text-gray-400">Loading templates...</p>
+          )}
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            {template ? `Starting from the "${template.name}" template.` : 'Starting from a blank map.'}
+          </p>
+          <Input
+            label="Name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && name.trim()) handleCreate();
+            }}
+            autoFocus
+          />
+          <div>
+            <label htmlFor="new-map-description" className="mb-1.5 block text-sm font-medium text-gray-700 dark:text-gray-300">
+              Description
+            </label>
+            <textarea
+              id="new-map-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={3}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+};
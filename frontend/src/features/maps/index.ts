@@ -0,0 +1,6 @@
+/**
+ * Maps Feature Exports
+ */
+
+export { MapCard } from './components/MapCard';
+export { NewMapWizard } from './components/NewMapWizard';
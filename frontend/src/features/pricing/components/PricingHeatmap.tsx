@@ -0,0 +1,162 @@
+/**
+ * PricingHeatmap Component
+ * Month calendar coloured by the effective nightly rate for a site type
+ */
+
+import { useMemo, useState } from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { businessUtils, dateUtils, pricingUtils } from '@shared/utils';
+import Input from '@/components/ui/Input';
+import { SiteType } from '@/types';
+import type { PricingRule, Site } from '@/types';
+
+interface PricingHeatmapProps {
+  rules: PricingRule[];
+  sites: Site[];
+}
+
+const SITE_TYPES = [SiteType.TENT, SiteType.RV, SiteType.CABIN];
+
+/** Used when there are no sites of a type to take a reference price from */
+const FALLBACK_BASE_PRICE = 100;
+
+/** Rate ratio (vs. base) at which the heat colour is fully saturated */
+const MAX_DEVIATION = 0.5;
+
+const getReferencePrice = (sites: Site[], type: SiteType): number => {
+  const prices = sites.filter((site) => site.type === type).map((site) => site.basePrice);
+  if (prices.length === 0) return FALLBACK_BASE_PRICE;
+  return Math.round(prices.reduce((sum, price) => sum + price, 0) / prices.length);
+};
+
+const getHeatColor = (rate: number, basePrice: number): string | undefined => {
+  if (basePrice <= 0 || rate === basePrice) return undefined;
+  const intensity = Math.min(Math.abs(rate / basePrice - 1) / MAX_DEVIATION, 1);
+  const alpha = 0.15 + intensity * 0.65;
+  // Red for surcharges, green for discounts
+  return rate > basePrice ? `rgba(239, 68, 68, ${alpha})` : `rgba(34, 197, 94, ${alpha})`;
+};
+
+export const PricingHeatmap: React.FC<PricingHeatmapProps> = ({ rules, sites }) => {
+  const [siteType, setSiteType] = useState<SiteType>(SiteType.TENT);
+  const [month, setMonth] = useState(() => dateUtils.getStartOfMonth(new Date()));
+  const [stayLength, setStayLength] = useState(1);
+
+  const basePrice = getReferencePrice(sites, siteType);
+
+  const nights = useMemo(() => {
+    const site = { type: siteType, basePrice };
+    const lastDay = dateUtils.getEndOfMonth(month).getDate();
+    return Array.from({ length: lastDay }, (_, index) => {
+      const date = new Date(month.getFullYear(), month.getMonth(), index + 1);
+      return { calendarDate: date, ...pricingUtils.getNightlyRate(site, date, rules, stayLength) };
+    });
+  }, [month, siteType, basePrice, rules, stayLength]);
+
+  const leadingBlanks = month.getDay();
+  const rates = nights.map((night) => night.rate);
+  const minRate = Math.min(...rates);
+  const maxRate = Math.max(...rates);
+  const monthLabel = `${dateUtils.getMonths()[month.getMonth()]} ${month.getFullYear()}`;
+
+  const shiftMonth = (delta: number) => {
+    setMonth((current) => new Date(current.getFullYear(), current.getMonth() + delta, 1));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div className="flex flex-wrap gap-2" role="tablist" aria-label="Site type">
+          {SITE_TYPES.map((type) => (
+            <button
+              key={type}
+              type="button"
+              role="tab"
+              aria-selected={siteType === type}
+              onClick={() => setSiteType(type)}
+              className={`px-3 py-1.5 text-sm rounded-md transition-colors ${
+                siteType === type
+                  ? 'bg-primary-50 text-primary-700 dark:bg-primary-900/20 dark:text-primary-400'
+                  : 'text-gray-600 hover:bg-gray-100 dark:text-gray-400 dark:hover:bg-gray-800'
+              }`}
+            >
+              {businessUtils.getSiteTypeLabel(type)}
+            </button>
+          ))}
+        </div>
+        <div className="w-36">
+          <Input
+            label="Stay length"
+            type="number"
+            min={1}
+            suffix="nights"
+            value={stayLength}
+            onChange={(event) => setStayLength(Math.max(1, Number(event.target.value) || 1))}
+          />
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <button
+          type="button"
+          onClick={() => shiftMonth(-1)}
+          className="p-1.5 rounded hover:bg-gray-100 dark:hover:bg-gray-800"
+          aria-label="Previous month"
+        >
+          <ChevronLeft size={18} />
+        </button>
+        <div className="text-center">
+          <div className="font-medium text-gray-900 dark:text-gray-100">{monthLabel}</div>
+          <div className="text-xs text-gray-500 dark:text-gray-400">
+            Base ${basePrice.toFixed(2)} · ${minRate.toFixed(2)} – ${maxRate.toFixed(2)} per night
+          </div>
+        </div>
+        <button
+          type="button"
+          onClick={() => shiftMonth(1)}
+          className="p-1.5 rounded hover:bg-gray-100 dark:hover:bg-gray-800"
+          aria-label="Next month"
+        >
+          <ChevronRight size={18} />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-7 gap-1 text-center">
+        {dateUtils.getWeekdays().map((weekday) => (
+          <div key={weekday} className="text-xs font-medium text-gray-500 dark:text-gray-400 py-1">
+            {weekday.slice(0, 3)}
+          </div>
+        ))}
+        {Array.from({ length: leadingBlanks }, (_, index) => (
+          <div key={`blank-${index}`} />
+        ))}
+        {nights.map((night) => (
+          <div
+            key={night.date}
+            className="rounded-md border border-gray-100 dark:border-gray-800 px-1 py-2"
+            style={{ backgroundColor: getHeatColor(night.rate, basePrice) }}
+            title={`${night.calendarDate.toLocaleDateString()}: $${night.rate.toFixed(2)} (${night.description})`}
+          >
+            <div className="text-xs text-gray-500 dark:text-gray-400">{night.calendarDate.getDate()}</div>
+            <div className="text-sm font-medium text-gray-900 dark:text-gray-100">${Math.round(night.rate)}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-4 text-xs text-gray-500 dark:text-gray-400">
+        <span className="flex items-center gap-1">
+          <span className="inline-block w-3 h-3 rounded" style={{ backgroundColor: getHeatColor(0, 1) }} />
+          Discount
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="inline-block w-3 h-3 rounded border border-gray-200 dark:border-gray-700" />
+          Base rate
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="inline-block w-3 h-3 rounded" style={{ backgroundColor: getHeatColor(2, 1) }} />
+          Surcharge
+        </span>
+      </div>
+    </div>
+  );
+};
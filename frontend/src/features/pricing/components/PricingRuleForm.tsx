@@ -0,0 +1,296 @@
+/**
+ * PricingRuleForm Component
+ * Create or edit a pricing rule, validated against the shared pricingRuleSchema
+ */
+
+import { useMemo } from 'react';
+import { useForm, type FieldErrors, type Resolver } from 'react-hook-form';
+import { AlertTriangle } from 'lucide-react';
+import { pricingRuleSchema } from '@shared/schemas';
+import { businessUtils, dateUtils, pricingUtils } from '@shared/utils';
+import Input from '@/components/ui/Input';
+import Select from '@/components/ui/Select';
+import Button from '@/components/ui/Button';
+import { Switch } from '@/components/ui';
+import { Alert } from '@/components/ui/Alert';
+import { createSchemaResolver } from '@/utils/schemaResolver';
+import { SiteType } from '@/types';
+import type { PricingRule } from '@/types';
+import type { PricingRuleData } from '@/services/api/pricing';
+
+interface PricingRuleFormValues {
+  name: string;
+  description: string;
+  siteTypes: SiteType[];
+  startDate: string;
+  endDate: string;
+  daysOfWeek: number[];
+  priceModifier: string;
+  modifierType: PricingRule['modifierType'];
+  minStay: string;
+  maxStay: string;
+  priority: string;
+  isActive: boolean;
+}
+
+interface PricingRuleFormProps {
+  rule?: PricingRule;
+  existingRules: PricingRule[];
+  onSubmit: (data: PricingRuleData) => void;
+  onCancel: () => void;
+  isSaving?: boolean;
+}
+
+const SITE_TYPES = [SiteType.TENT, SiteType.RV, SiteType.CABIN];
+
+const MODIFIER_OPTIONS = [
+  { value: 'multiplier', label: 'Multiplier (× base price)' },
+  { value: 'percentage', label: 'Percentage (± % of base price)' },
+  { value: 'fixed', label: 'Fixed amount (± $ per night)' },
+];
+
+const PREVIEW_BASE_PRICE = 100;
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const optionalNumber = (value: string): number | undefined => {
+  return value.trim() === '' ? undefined : Number(value);
+};
+
+const toPricingRuleData = (values: PricingRuleFormValues): PricingRuleData => ({
+  name: values.name.trim(),
+  description: values.description.trim() || undefined,
+  siteTypes: values.siteTypes,
+  startDate: dateUtils.fromDateKey(values.startDate),
+  endDate: dateUtils.fromDateKey(values.endDate),
+  daysOfWeek: [...values.daysOfWeek].sort((a, b) => a - b),
+  priceModifier: Number(values.priceModifier),
+  modifierType: values.modifierType,
+  minStay: optionalNumber(values.minStay),
+  maxStay: optionalNumber(values.maxStay),
+  priority: Number(values.priority),
+  isActive: values.isActive,
+});
+
+const toFormValues = (rule?: PricingRule): PricingRuleFormValues => {
+  const today = new Date();
+  return {
+    name: rule?.name ?? '',
+    description: rule?.description ?? '',
+    siteTypes: rule?.siteTypes ?? [...SITE_TYPES],
+    startDate: dateUtils.toDateKey(rule ? new Date(rule.startDate) : today),
+    endDate: dateUtils.toDateKey(rule ? new Date(rule.endDate) : dateUtils.addDays(today, 30)),
+    daysOfWeek: rule?.daysOfWeek ?? [],
+    priceModifier: String(rule?.priceModifier ?? 1),
+    modifierType: rule?.modifierType ?? 'multiplier',
+    minStay: rule?.minStay?.toString() ?? '',
+    maxStay: rule?.maxStay?.toString() ?? '',
+    priority: String(rule?.priority ?? 10),
+    isActive: rule?.isActive ?? true,
+  };
+};
+
+const schemaResolver = createSchemaResolver<PricingRuleFormValues>(pricingRuleSchema, toPricingRuleData);
+
+/**
+ * An empty date field would otherwise convert to a valid date in year 1900
+ */
+const pricingRuleResolver: Resolver<PricingRuleFormValues> = async (values, context, options) => {
+  const dateErrors: FieldErrors<PricingRuleFormValues> = {};
+  if (!DATE_KEY_PATTERN.test(values.startDate)) {
+    dateErrors.startDate = { type: 'required', message: 'Start date is required' };
+  }
+  if (!DATE_KEY_PATTERN.test(values.endDate)) {
+    dateErrors.endDate = { type: 'required', message: 'End date is required' };
+  }
+
+  const result = await schemaResolver(values, context, options);
+  if (Object.keys(dateErrors).length === 0) return result;
+  return { values: {}, errors: { ...result.errors, ...dateErrors } };
+};
+
+export const PricingRuleForm: React.FC<PricingRuleFormProps> = ({
+  rule,
+  existingRules,
+  onSubmit,
+  onCancel,
+  isSaving,
+}) => {
+  const {
+    register,
+    handleSubmit,
+    setValue,
+    watch,
+    formState: { errors },
+  } = useForm<PricingRuleFormValues>({
+    resolver: pricingRuleResolver,
+    defaultValues: toFormValues(rule),
+  });
+
+  const values = watch();
+  const weekdays = dateUtils.getWeekdays();
+
+  // Rules that would compete with this one for the same nights at the same priority
+  const conflicts = useMemo(() => {
+    const data = toPricingRuleData(values);
+    if (Number.isNaN(data.priority) || !values.startDate || !values.endDate) return [];
+
+    const candidate: PricingRule = {
+      ...data,
+      id: rule?.id ?? 'draft',
+      createdAt: rule?.createdAt ?? new Date(),
+      updatedAt: new Date(),
+    };
+    return existingRules.filter((other) => pricingUtils.rulesConflict(candidate, other));
+  }, [values, existingRules, rule]);
+
+  const previewRate = Number.isNaN(Number(values.priceModifier))
+    ? null
+    : pricingUtils.applyModifier(PREVIEW_BASE_PRICE, {
+        modifierType: values.modifierType,
+        priceModifier: Number(values.priceModifier),
+      });
+
+  const toggleSiteType = (type: SiteType) => {
+    const next = values.siteTypes.includes(type)
+      ? values.siteTypes.filter((t) => t !== type)
+      : [...values.siteTypes, type];
+    setValue('siteTypes', next, { shouldDirty: true });
+  };
+
+  const toggleDay = (day: number) => {
+    const next = values.daysOfWeek.includes(day)
+      ? values.daysOfWeek.filter((d) => d !== day)
+      : [...values.daysOfWeek, day];
+    setValue('daysOfWeek', next, { shouldDirty: true });
+  };
+
+  return (
+    <form onSubmit={handleSubmit((formValues) => onSubmit(toPricingRuleData(formValues)))} className="space-y-5">
+      <Input
+        label="Rule Name"
+        placeholder="e.g. Summer Peak Season"
+        error={errors.name?.message}
+        {...register('name')}
+      />
+      <Input
+        label="Description"
+        placeholder="Optional note for staff"
+        error={errors.description?.message}
+        {...register('description')}
+      />
+
+      <div>
+        <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Site Types</span>
+        <div className="flex flex-wrap gap-2">
+          {SITE_TYPES.map((type) => (
+            <button
+              key={type}
+              type="button"
+              onClick={() => toggleSiteType(type)}
+              aria-pressed={values.siteTypes.includes(type)}
+              className={`px-3 py-1.5 text-sm rounded-full border transition-colors ${
+                values.siteTypes.includes(type)
+                  ? 'bg-primary-600 border-primary-600 text-white'
+                  : 'border-gray-300 text-gray-700 hover:bg-gray-50 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-800'
+              }`}
+            >
+              {businessUtils.getSiteTypeLabel(type)}
+            </button>
+          ))}
+        </div>
+        {errors.siteTypes?.message && <p className="mt-1 text-sm text-red-600">{errors.siteTypes.message}</p>}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <Input label="Start Date" type="date" error={errors.startDate?.message} {...register('startDate')} />
+        <Input label="End Date" type="date" error={errors.endDate?.message} {...register('endDate')} />
+      </div>
+
+      <div>
+        <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+          Days of Week <span className="font-normal text-gray-500">(none selected = every day)</span>
+        </span>
+        <div className="flex flex-wrap gap-2">
+          {weekdays.map((label, day) => (
+            <button
+              key={label}
+              type="button"
+              onClick={() => toggleDay(day)}
+              aria-pressed={values.daysOfWeek.includes(day)}
+              aria-label={label}
+              className={`w-11 py-1.5 text-sm rounded-md border transition-colors ${
+                values.daysOfWeek.includes(day)
+                  ? 'bg-primary-600 border-primary-600 text-white'
+                  : 'border-gray-300 text-gray-700 hover:bg-gray-50 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-800'
+              }`}
+            >
+              {label.slice(0, 3)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <Select
+          label="Modifier Type"
+          options={MODIFIER_OPTIONS}
+          value={values.modifierType}
+          onChange={(value) =>
+            setValue('modifierType', value as PricingRule['modifierType'], { shouldDirty: true })
+          }
+        />
+        <Input
+          label="Modifier Value"
+          type="number"
+          step="any"
+          error={errors.priceModifier?.message}
+          helperText={previewRate !== null ? `$${PREVIEW_BASE_PRICE} base → $${previewRate.toFixed(2)} per night` : undefined}
+          {...register('priceModifier')}
+        />
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <Input label="Min Stay (nights)" type="number" min={1} error={errors.minStay?.message} {...register('minStay')} />
+        <Input label="Max Stay (nights)" type="number" min={1} error={errors.maxStay?.message} {...register('maxStay')} />
+        <Input
+          label="Priority"
+          type="number"
+          min={1}
+          max={100}
+          helperText="Higher wins"
+          error={errors.priority?.message}
+          {...register('priority')}
+        />
+      </div>
+
+      <Switch
+        checked={values.isActive}
+        onChange={(checked) => setValue('isActive', checked, { shouldDirty: true })}
+        label="Active"
+        description="Inactive rules are kept but never applied to quotes"
+      />
+
+      {conflicts.length > 0 && (
+        <Alert variant="warning">
+          <div className="flex items-start gap-2">
+            <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+            <span>
+              Overlaps with {conflicts.map((other) => `"${other.name}"`).join(', ')} at the same priority.
+              The rule listed first wins on shared nights; give one a different priority to make the order explicit.
+            </span>
+          </div>
+        </Alert>
+      )}
+
+      <div className="flex justify-end gap-2 pt-2">
+        <Button type="button" variant="ghost" onClick={onCancel} disabled={isSaving}>
+          Cancel
+        </Button>
+        <Button type="submit" loading={isSaving}>
+          {rule ? 'Save Rule' : 'Create Rule'}
+        </Button>
+      </div>
+    </form>
+  );
+};
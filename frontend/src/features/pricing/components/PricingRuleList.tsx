@@ -0,0 +1,163 @@
+/**
+ * PricingRuleList Component
+ * Lists pricing rules by priority with inline activation, reordering and conflict flags
+ */
+
+import { ChevronDown, ChevronUp, Edit, Trash2, AlertTriangle } from 'lucide-react';
+import { businessUtils, dateUtils } from '@shared/utils';
+import Badge from '@/components/ui/Badge';
+import { Switch } from '@/components/ui';
+import type { PricingRule } from '@/types';
+
+interface PricingRuleListProps {
+  rules: PricingRule[];
+  /** IDs of rules that overlap another rule at the same priority */
+  conflictingIds: Set<string>;
+  onEdit: (rule: PricingRule) => void;
+  onDelete: (rule: PricingRule) => void;
+  onToggleActive: (rule: PricingRule, isActive: boolean) => void;
+  onChangePriority: (rule: PricingRule, priority: number) => void;
+}
+
+const describeModifier = (rule: Pick<PricingRule, 'modifierType' | 'priceModifier'>): string => {
+  switch (rule.modifierType) {
+    case 'multiplier':
+      return `×${rule.priceModifier}`;
+    case 'percentage':
+      return `${rule.priceModifier >= 0 ? '+' : ''}${rule.priceModifier}%`;
+    case 'fixed':
+      return `${rule.priceModifier >= 0 ? '+' : '-'}$${Math.abs(rule.priceModifier).toFixed(2)}`;
+  }
+};
+
+const describeDays = (daysOfWeek: number[]): string => {
+  if (daysOfWeek.length === 0 || daysOfWeek.length === 7) return 'Every day';
+  const weekdays = dateUtils.getWeekdays();
+  return daysOfWeek.map((day) => weekdays[day]?.slice(0, 3)).join(', ');
+};
+
+const describeStay = (rule: PricingRule): string | null => {
+  if (rule.minStay && rule.maxStay) return `${rule.minStay}–${rule.maxStay} nights`;
+  if (rule.minStay) return `${rule.minStay}+ nights`;
+  if (rule.maxStay) return `Up to ${rule.maxStay} nights`;
+  return null;
+};
+
+export const PricingRuleList: React.FC<PricingRuleListProps> = ({
+  rules,
+  conflictingIds,
+  onEdit,
+  onDelete,
+  onToggleActive,
+  onChangePriority,
+}) => {
+  if (rules.length === 0) {
+    return (
+      <p className="py-8 text-center text-sm text-gray-500 dark:text-gray-400">
+        No pricing rules yet. Every night is charged at the site's base price.
+      </p>
+    );
+  }
+
+  const sortedRules = [...rules].sort((a, b) => b.priority - a.priority);
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+        <thead>
+          <tr className="text-left text-xs font-medium uppercase tracking-wider text-gray-500 dark:text-gray-400">
+            <th className="px-3 py-2">Priority</th>
+            <th className="px-3 py-2">Rule</th>
+            <th className="px-3 py-2">Applies To</th>
+            <th className="px-3 py-2">Dates</th>
+            <th className="px-3 py-2">Adjustment</th>
+            <th className="px-3 py-2">Active</th>
+            <th className="px-3 py-2 sr-only">Actions</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100 dark:divide-gray-800">
+          {sortedRules.map((rule) => {
+            const stay = describeStay(rule);
+            return (
+              <tr key={rule.id} className={rule.isActive ? '' : 'opacity-60'}>
+                <td className="px-3 py-3">
+                  <div className="flex items-center gap-1">
+                    <span className="w-8 font-mono font-medium text-gray-900 dark:text-gray-100">{rule.priority}</span>
+                    <div className="flex flex-col">
+                      <button
+                        type="button"
+                        onClick={() => onChangePriority(rule, Math.min(100, rule.priority + 1))}
+                        disabled={rule.priority >= 100}
+                        className="text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                        aria-label={`Raise priority of ${rule.name}`}
+                      >
+                        <ChevronUp size={14} />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => onChangePriority(rule, Math.max(1, rule.priority - 1))}
+                        disabled={rule.priority <= 1}
+                        className="text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                        aria-label={`Lower priority of ${rule.name}`}
+                      >
+                        <ChevronDown size={14} />
+                      </button>
+                    </div>
+                  </div>
+                </td>
+                <td className="px-3 py-3">
+                  <div className="font-medium text-gray-900 dark:text-gray-100 flex items-center gap-2">
+                    {rule.name}
+                    {conflictingIds.has(rule.id) && (
+                      <Badge variant="warning" size="sm">
+                        <AlertTriangle size={12} className="mr-1 inline" />
+                        Conflict
+                      </Badge>
+                    )}
+                  </div>
+                  {rule.description && (
+                    <div className="text-xs text-gray-500 dark:text-gray-400">{rule.description}</div>
+                  )}
+                </td>
+                <td className="px-3 py-3 text-gray-700 dark:text-gray-300">
+                  <div>{rule.siteTypes.map((type) => businessUtils.getSiteTypeLabel(type)).join(', ')}</div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">
+                    {describeDays(rule.daysOfWeek)}
+                    {stay && ` · ${stay}`}
+                  </div>
+                </td>
+                <td className="px-3 py-3 whitespace-nowrap text-gray-700 dark:text-gray-300">
+                  {new Date(rule.startDate).toLocaleDateString()} – {new Date(rule.endDate).toLocaleDateString()}
+                </td>
+                <td className="px-3 py-3 font-mono text-gray-900 dark:text-gray-100">{describeModifier(rule)}</td>
+                <td className="px-3 py-3">
+                  <Switch checked={rule.isActive} onChange={(checked) => onToggleActive(rule, checked)} />
+                </td>
+                <td className="px-3 py-3">
+                  <div className="flex justify-end gap-1">
+                    <button
+                      type="button"
+                      onClick={() => onEdit(rule)}
+                      className="p-1.5 rounded text-gray-500 hover:text-blue-600 hover:bg-blue-50 dark:hover:bg-blue-900/20"
+                      aria-label={`Edit ${rule.name}`}
+                    >
+                      <Edit size={16} />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => onDelete(rule)}
+                      className="p-1.5 rounded text-gray-500 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20"
+                      aria-label={`Delete ${rule.name}`}
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
@@ -0,0 +1,54 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  getPricingRules,
+  createPricingRule,
+  updatePricingRule,
+  deletePricingRule,
+  type PricingRuleData,
+} from '@/services/api/pricing';
+import { queryKeys } from '@/config/query-keys';
+
+export const usePricingRules = () => {
+  return useQuery({
+    queryKey: queryKeys.pricing.rules(),
+    queryFn: () => getPricingRules(),
+  });
+};
+
+const useInvalidatePricing = () => {
+  const queryClient = useQueryClient();
+
+  return () => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.pricing.all });
+    // Quotes already on screen were priced with the old rules
+    queryClient.invalidateQueries({ queryKey: ['booking-price'] });
+  };
+};
+
+export const useCreatePricingRule = () => {
+  const invalidate = useInvalidatePricing();
+
+  return useMutation({
+    mutationFn: (data: PricingRuleData) => createPricingRule(data),
+    onSuccess: invalidate,
+  });
+};
+
+export const useUpdatePricingRule = () => {
+  const invalidate = useInvalidatePricing();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: Partial<PricingRuleData> }) =>
+      updatePricingRule(id, data),
+    onSuccess: invalidate,
+  });
+};
+
+export const useDeletePricingRule = () => {
+  const invalidate = useInvalidatePricing();
+
+  return useMutation({
+    mutationFn: (id: string) => deletePricingRule(id),
+    onSuccess: invalidate,
+  });
+};
@@ -0,0 +1,14 @@
+/**
+ * Pricing Feature Exports
+ */
+
+export { PricingRuleForm } from './components/PricingRuleForm';
+export { PricingRuleList } from './components/PricingRuleList';
+export { PricingHeatmap } from './components/PricingHeatmap';
+
+export {
+  usePricingRules,
+  useCreatePricingRule,
+  useUpdatePricingRule,
+  useDeletePricingRule,
+} from './hooks/usePricingRules';
@@ -0,0 +1,259 @@
+/**
+ * SiteMapPicker Component
+ * Read-only view of the published campsite map for choosing a site to book.
+ * Sites that are free for the chosen dates can be tapped; the rest are greyed out.
+ */
+
+import { useMemo, useState } from 'react';
+import { ZoomIn, ZoomOut } from 'lucide-react';
+import { dateUtils } from '@shared/utils';
+import type { AnyModule, Site } from '@/types';
+import { Button } from '@/components/ui/Button';
+import { Card } from '@/components/ui/Card';
+import { usePublishedMap } from '@/hooks/useMaps';
+import { useMapAvailability } from '@/hooks/useMapAvailability';
+import { getModuleColor } from '@/utils/moduleFactory';
+import { getAbsolutePoints, getPathStrokeWidth, isPathModule } from '@/utils/modulePaths';
+import { getBoundSiteId } from '@/utils/siteBinding';
+import { AVAILABILITY_COLORS } from '@/utils/mapAvailability';
+
+interface SiteMapPickerProps {
+  /** Sites that can be booked; campsites bound to any other site are greyed out */
+  sites: Site[];
+  /** Date keys (yyyy-MM-dd) of the stay */
+  checkInDate?: string;
+  checkOutDate?: string;
+  selectedSiteId?: string | null;
+  onSelect: (site: Site) => void;
+}
+
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 4;
+
+const UNAVAILABLE_COLOR = '#d1d5db';
+const SELECTED_COLOR = '#2563eb';
+
+export const SiteMapPicker: React.FC<SiteMapPickerProps> = ({
+  sites,
+  checkInDate = '',
+  checkOutDate = '',
+  selectedSiteId,
+  onSelect,
+}) => {
+  const { map, isLoading } = usePublishedMap();
+  const [zoom, setZoom] = useState(MIN_ZOOM);
+
+  const hasDates = !!checkInDate && !!checkOutDate && checkInDate < checkOutDate;
+  const checkIn = useMemo(
+    () => (hasDates ? dateUtils.fromDateKey(checkInDate) : dateUtils.getStartOfDay(new Date())),
+    [hasDates, checkInDate]
+  );
+  const nights = hasDates ? dateUtils.getDaysBetween(checkIn, dateUtils.fromDateKey(checkOutDate)) : 1;
+
+  // Without dates only the site status is known, so nothing is asked of the API
+  const { availableIds, isChecking } = useMapAvailability({
+    modules: map?.modules ?? [],
+    sites,
+    bookings: [],
+    date: checkIn,
+    nights,
+    enabled: hasDates,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-gray-600 dark:text-gray-400">Loading map...</p>
+      </div>
+    );
+  }
+
+  if (!map) {
+    return (
+      <div className="text-center py-12 bg-gray-50 dark:bg-gray-800 rounded-lg">
+        <p className="text-lg font-medium text-gray-900 dark:text-gray-100 mb-2">
+          No site map available
+        </p>
+        <p className="text-gray-600 dark:text-gray-400">
+          Browse the list of sites instead
+        </p>
+      </div>
+    );
+  }
+
+  const sitesById = new Map(sites.map((site) => [site.id, site]));
+  const width = map.bounds.maxX - map.bounds.minX;
+  const height = map.bounds.maxY - map.bounds.minY;
+  // Widens the tappable area around small sites, in map units
+  const hitSlop = Math.max(width, height) / 60;
+
+  const renderModule = (module: AnyModule) => {
+    // Roads and zones follow their points rather than filling their bounding box
+    if (isPathModule(module)) {
+      const color = getModuleColor(module.type);
+      const points = getAbsolutePoints(module).map((point) => `${point.x},${point.y}`).join(' ');
+      const strokeWidth = getPathStrokeWidth(module, map.scale);
+      return module.type === 'zone'
+        ? <polygon key={module.id} points={points} fill={color} fillOpacity={0.25} stroke={color} strokeWidth={strokeWidth} pointerEvents="none" />
+        : <polyline key={module.id} points={points} fill="none" stroke={color} strokeOpacity={0.5} strokeWidth={strokeWidth} strokeLinecap="round" strokeLinejoin="round" pointerEvents="none" />;
+    }
+
+    const { x, y } = module.position;
+    const { width: moduleWidth, height: moduleHeight } = module.size;
+    const transform = `rotate(${module.rotation} ${x + moduleWidth / 2} ${y + moduleHeight / 2})`;
+
+    if (module.type !== 'campsite') {
+      return (
+        <g key={module.id} transform={transform} pointerEvents="none">
+          <rect
+            x={x}
+            y={y}
+            width={moduleWidth}
+            height={moduleHeight}
+            rx={4}
+            fill={getModuleColor(module.type)}
+            fillOpacity={0.5}
+          />
+        </g>
+      );
+    }
+
+    const siteId = getBoundSiteId(module);
+    const site = siteId ? sitesById.get(siteId) : undefined;
+    const isAvailable = !!site && availableIds.has(module.id);
+    const isSelected = !!site && site.id === selectedSiteId;
+    const name = site?.name ?? module.metadata.name;
+    const label = isAvailable
+      ? `${name}: available, $${site.basePrice} per night`
+      : `${name}: unavailable`;
+
+    const select = () => {
+      if (site && isAvailable) onSelect(site);
+    };
+
+    return (
+      <g
+        key={module.id}
+        transform={transform}
+        onClick={select}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' || e.key === ' ') {
+            e.preventDefault();
+            select();
+          }
+        }}
+        className={isAvailable ? 'cursor-pointer focus:outline-none' : 'cursor-not-allowed'}
+        role={isAvailable ? 'button' : undefined}
+        tabIndex={isAvailable ? 0 : undefined}
+        aria-label={label}
+        aria-pressed={isAvailable ? isSelected : undefined}
+        aria-disabled={isAvailable ? undefined : true}
+      >
+        <title>{label}</title>
+        {isAvailable && (
+          <rect
+            x={x}
+            y={y}
+            width={moduleWidth}
+            height={moduleHeight}
+            fill="transparent"
+            stroke="transparent"
+            strokeWidth={hitSlop * 2}
+            pointerEvents="all"
+          />
+        )}
+        <rect
+          x={x}
+          y={y}
+          width={moduleWidth}
+          height={moduleHeight}
+          rx={4}
+          fill={isAvailable ? AVAILABILITY_COLORS.available : UNAVAILABLE_COLOR}
+          fillOpacity={isAvailable ? 1 : 0.6}
+          stroke={isSelected ? SELECTED_COLOR : '#374151'}
+          strokeWidth={isSelected ? 4 : 1}
+        />
+        {moduleWidth >= 40 && (
+          <text
+            x={x + moduleWidth / 2}
+            y={y + moduleHeight / 2}
+            textAnchor="middle"
+            dominantBaseline="middle"
+            fontSize={10}
+            fill={isAvailable ? '#1f2937' : '#6b7280'}
+            pointerEvents="none"
+          >
+            {name.length > 12 ? `${name.slice(0, 11)}…` : name}
+          </text>
+        )}
+      </g>
+    );
+  };
+
+  const visibleModules = map.modules
+    .filter((module) => module.visible)
+    .sort((a, b) => a.zIndex - b.zIndex);
+
+  return (
+    <Card className="p-4 dark:bg-gray-800 dark:border-gray-700">
+      <div className="flex items-center justify-between gap-4 mb-3">
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          {!hasDates
+            ? 'Choose your dates to see which sites are free.'
+            : isChecking
+              ? 'Checking availability...'
+              : `${availableIds.size} sites free for your dates. Tap one to book it.`}
+        </p>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setZoom((value) => Math.max(MIN_ZOOM, value - 0.5))}
+            disabled={zoom <= MIN_ZOOM}
+            ariaLabel="Zoom out"
+          >
+            <ZoomOut className="w-4 h-4" />
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setZoom((value) => Math.min(MAX_ZOOM, value + 0.5))}
+            disabled={zoom >= MAX_ZOOM}
+            ariaLabel="Zoom in"
+          >
+            <ZoomIn className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      {/* Zooming widens the map; the frame scrolls so it can be panned by touch */}
+      <div className="overflow-auto rounded bg-gray-100 dark:bg-gray-900 max-h-[70vh]">
+        <svg
+          viewBox={`${map.bounds.minX} ${map.bounds.minY} ${width} ${height}`}
+          className="h-auto block"
+          style={{ width: `${zoom * 100}%` }}
+          role="group"
+          aria-label={`${map.name} site map`}
+        >
+          {visibleModules.map(renderModule)}
+        </svg>
+      </div>
+
+      <ul className="flex flex-wrap gap-4 mt-3 text-sm text-gray-700 dark:text-gray-300">
+        {[
+          { label: 'Available', color: AVAILABILITY_COLORS.available },
+          { label: 'Unavailable', color: UNAVAILABLE_COLOR },
+        ].map(({ label, color }) => (
+          <li key={label} className="flex items-center gap-2">
+            <span className="inline-block w-4 h-4 rounded border border-gray-400" style={{ backgroundColor: color }} />
+            {label}
+          </li>
+        ))}
+        <li className="flex items-center gap-2">
+          <span className="inline-block w-4 h-4 rounded border-2" style={{ borderColor: SELECTED_COLOR }} />
+          Selected
+        </li>
+      </ul>
+    </Card>
+  );
+};
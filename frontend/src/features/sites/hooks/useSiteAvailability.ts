@@ -1,6 +1,14 @@
 import { useQuery } from '@tanstack/react-query';
 import { checkSiteAvailability } from '@/services/api/sites';
 
+/**
+ * Query options for a site availability check, shared by hooks that check many sites at once
+ */
+export const getSiteAvailabilityQuery = (siteId: string, startDate: string, endDate: string) => ({
+  queryKey: ['site-availability', siteId, startDate, endDate],
+  queryFn: () => checkSiteAvailability(siteId, startDate, endDate),
+});
+
 export const useSiteAvailability = (
   siteId: string,
   startDate: string,
@@ -8,9 +16,7 @@ export const useSiteAvailability = (
   enabled: boolean = true
 ) => {
   return useQuery({
-    queryKey: ['site-availability', siteId, startDate, endDate],
-    queryFn: () => checkSiteAvailability(siteId, startDate, endDate),
+    ...getSiteAvailabilityQuery(siteId, startDate, endDate),
     enabled: enabled && !!siteId && !!startDate && !!endDate,
   });
 };
-
@@ -6,6 +6,7 @@ export { SiteCard } from './components/SiteCard';
 export { SiteAvailabilityGrid } from './components/SiteAvailabilityGrid';
 export { SiteDetailView } from './components/SiteDetailView';
 export { SiteList } from './components/SiteList';
+export { SiteMapPicker } from './components/SiteMapPicker';
 export { SiteForm } from './components/SiteForm';
 export { AmenitySelector } from './components/AmenitySelector';
 export { ImageUpload } from './components/ImageUpload';
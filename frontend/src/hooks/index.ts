@@ -10,9 +10,13 @@ export * from './useWebSocketEvent';
 // Domain-specific WebSocket hooks
 export * from './useBookingEvents';
 export * from './useNotificationEvents';
+export * from './useMapOccupancy';
 
 // Data hooks
 export * from './useNotifications';
+export * from './useMapAvailability';
+export * from './useSiteWalkingDistances';
+export * from './useMaps';
 
 // UI hooks
 export * from './useToast';
@@ -27,3 +31,18 @@ export * from './useNavigationTracking';
 
 // Editor hooks
 export * from './useCommandHistory';
+export * from './useSiteBindings';
+export * from './useTemplates';
+export * from './useMapVersions';
+export * from './usePathDrawing';
+export * from './useVertexEditing';
+export * from './useMeasureTool';
+export * from './useConnectTool';
+export * from './useLayoutCompliance';
+export * from './useWalkingRoutes';
+export * from './useVersionDiff';
+export * from './useCollaboration';
+export * from './useMapDraft';
+export * from './useModuleGroups';
+export * from './useSmartGuides';
+export * from './useBackgroundImage';
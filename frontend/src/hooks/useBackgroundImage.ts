@@ -0,0 +1,38 @@
+/**
+ * useBackgroundImage Hook
+ * Loads the current map's background image so the editor can draw it
+ * under the modules without waiting on every redraw.
+ */
+
+import { useEffect, useState } from 'react';
+import { useMapStore } from '@/stores/mapStore';
+
+/**
+ * Hook for the loaded background image of the current map
+ * @returns The image once loaded, or null while loading or when the map has no background
+ */
+export function useBackgroundImage(): HTMLImageElement | null {
+    const imageUrl = useMapStore((state) => state.currentMap?.background?.imageUrl);
+    const [loaded, setLoaded] = useState<{ url: string; image: HTMLImageElement } | null>(null);
+
+    useEffect(() => {
+        if (!imageUrl) return;
+
+        let cancelled = false;
+        const image = new Image();
+        image.onload = () => {
+            if (!cancelled) setLoaded({ url: imageUrl, image });
+        };
+        image.onerror = () => {
+            console.error('[useBackgroundImage] Failed to load background image');
+        };
+        image.src = imageUrl;
+
+        return () => {
+            cancelled = true;
+        };
+    }, [imageUrl]);
+
+    // An image loaded for a background that has since been replaced is not shown
+    return loaded && loaded.url === imageUrl ? loaded.image : null;
+}
@@ -0,0 +1,246 @@
+/**
+ * useCollaboration Hook
+ * Live editing of the open map together with everyone else who has it open.
+ * useCollaboration joins the map's editors and shares local commands;
+ * useCollaborationOverlay shows their pointers and the modules they are
+ * transforming, and shares our own pointer and transforms.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import * as fabric from 'fabric';
+import { useMapStore } from '@/stores/mapStore';
+import { useAuthStore } from '@/stores/authStore';
+import { useUIStore } from '@/stores';
+import { webSocketService } from '@/services/websocket';
+import {
+    CollaborationSession,
+    type CollaborationConflict,
+    type CollaborationTransport,
+    type Collaborator,
+    type ModuleLock,
+} from '@/services/collaboration';
+import type { Command } from '@/commands';
+import { getModuleId } from '@/utils/moduleFactory';
+import { getModuleCorners } from '@/utils/mapGeometry';
+import { useWebSocket } from './useWebSocket';
+
+interface UseCollaborationOptions {
+    /** Defaults to the app's WebSocket connection */
+    transport?: CollaborationTransport;
+}
+
+export interface UseCollaborationReturn {
+    session: CollaborationSession | null;
+    /** Other editors of the map */
+    collaborators: Collaborator[];
+    /** Modules other editors are transforming, keyed by module ID */
+    locks: Map<string, ModuleLock>;
+    /** Share a command run, undone or redone locally */
+    broadcastCommand: (command: Command, action: 'execute' | 'undo') => void;
+}
+
+interface UseCollaborationOverlayOptions {
+    canvasRef: React.MutableRefObject<fabric.Canvas | null>;
+    collaboration: UseCollaborationReturn;
+}
+
+const LABEL_FONT_SIZE = 11;
+const CURSOR_SIZE = 14;
+
+/**
+ * Describe a conflict for a toast, naming the modules involved
+ */
+const describeConflict = ({ moduleIds, name, kept }: CollaborationConflict): string => {
+    const { getModule } = useMapStore.getState();
+    const names = moduleIds.map((id) => String(getModule(id)?.metadata.name ?? 'a deleted module'));
+    const subject = names.length === 1 ? names[0] : `${names.length} modules`;
+    return kept === 'theirs'
+        ? `${name} changed ${subject} at the same time as you; their change was kept.`
+        : `${name} changed ${subject} at the same time as you; your change was kept.`;
+};
+
+/**
+ * Hook for joining the editors of the open map
+ */
+export function useCollaboration({ transport }: UseCollaborationOptions = {}): UseCollaborationReturn {
+    const mapId = useMapStore((state) => state.currentMap?.id);
+    const user = useAuthStore((state) => state.user);
+    const { isConnected } = useWebSocket();
+    const [session, setSession] = useState<CollaborationSession | null>(null);
+    const [collaborators, setCollaborators] = useState<Collaborator[]>([]);
+    const [locks, setLocks] = useState<Map<string, ModuleLock>>(new Map());
+
+    const name = user ? `${user.firstName} ${user.lastName}` : 'Guest editor';
+    const activeTransport = transport ?? (isConnected ? webSocketService : null);
+
+    useEffect(() => {
+        // Every unsaved map is 'new', so unrelated maps would share one room
+        if (!mapId || mapId === 'new' || !activeTransport) return;
+
+        const next = new CollaborationSession({
+            mapId,
+            transport: activeTransport,
+            name,
+            onRemoteCommand: () => useMapStore.getState().markDirty(),
+            onConflict: (conflict) => useUIStore.getState().showToast(describeConflict(conflict), 'warning'),
+        });
+        const unsubscribe = next.subscribe(() => {
+            setCollaborators(next.getCollaborators());
+            setLocks(new Map(next.getLocks()));
+        });
+        next.start();
+        setSession(next);
+
+        return () => {
+            unsubscribe();
+            next.stop();
+            setSession(null);
+            setCollaborators([]);
+            setLocks(new Map());
+        };
+    }, [mapId, activeTransport, name]);
+
+    const broadcastCommand = useCallback(
+        (command: Command, action: 'execute' | 'undo') => session?.broadcastCommand(command, action),
+        [session]
+    );
+
+    return { session, collaborators, locks, broadcastCommand };
+}
+
+/**
+ * Hook for showing other editors on the canvas and sharing our pointer and transforms
+ */
+export function useCollaborationOverlay({ canvasRef, collaboration }: UseCollaborationOverlayOptions): void {
+    const currentMap = useMapStore((state) => state.currentMap);
+    const { session, collaborators, locks } = collaboration;
+
+    // Share the pointer, and lock modules while they are being transformed
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!canvas || !session) return;
+
+        const handleMouseMove = (opt: fabric.TPointerEventInfo<fabric.TPointerEvent>) => {
+            session.updateCursor(canvas.getPointer(opt.e));
+        };
+        const handleMouseLeave = () => session.updateCursor(null);
+        const handleTransforming = () => {
+            const moduleIds = canvas.getActiveObjects().map(getModuleId).filter((id): id is string => !!id);
+            if (moduleIds.length > 0) session.lockModules(moduleIds);
+        };
+        const handleTransformed = () => session.unlockModules();
+
+        canvas.on('mouse:move', handleMouseMove);
+        canvas.on('object:moving', handleTransforming);
+        canvas.on('object:scaling', handleTransforming);
+        canvas.on('object:rotating', handleTransforming);
+        canvas.on('object:modified', handleTransformed);
+        canvas.on('mouse:up', handleTransformed);
+        canvas.upperCanvasEl.addEventListener('mouseleave', handleMouseLeave);
+
+        return () => {
+            canvas.off('mouse:move', handleMouseMove);
+            canvas.off('object:moving', handleTransforming);
+            canvas.off('object:scaling', handleTransforming);
+            canvas.off('object:rotating', handleTransforming);
+            canvas.off('object:modified', handleTransformed);
+            canvas.off('mouse:up', handleTransformed);
+            canvas.upperCanvasEl.removeEventListener('mouseleave', handleMouseLeave);
+        };
+    }, [canvasRef, session]);
+
+    // Outline modules locked by others, and keep them from being picked up.
+    // The canvas is redrawn on every map change, so this is reapplied with it.
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!canvas || !currentMap || locks.size === 0) return;
+
+        const zoom = canvas.getZoom();
+        const restore: [fabric.FabricObject, boolean, boolean][] = [];
+        const overlays: fabric.FabricObject[] = [];
+
+        canvas.getObjects().forEach((object) => {
+            const moduleId = getModuleId(object);
+            if (!moduleId || !locks.has(moduleId)) return;
+            restore.push([object, object.selectable, object.evented]);
+            object.set({ selectable: false, evented: false });
+            if (canvas.getActiveObjects().includes(object)) canvas.discardActiveObject();
+        });
+
+        currentMap.modules
+            .filter((module) => locks.has(module.id))
+            .forEach((module) => {
+                const { name, color } = locks.get(module.id)!;
+                const corners = getModuleCorners(module);
+                overlays.push(
+                    new fabric.Polygon(corners, {
+                        fill: '',
+                        stroke: color,
+                        strokeWidth: 2 / zoom,
+                        selectable: false,
+                        evented: false,
+                        objectCaching: false,
+                    }),
+                    new fabric.FabricText(name, {
+                        left: Math.min(...corners.map((corner) => corner.x)),
+                        top: Math.min(...corners.map((corner) => corner.y)),
+                        originY: 'bottom',
+                        fontSize: LABEL_FONT_SIZE / zoom,
+                        fontFamily: 'Arial',
+                        fill: '#ffffff',
+                        backgroundColor: color,
+                        selectable: false,
+                        evented: false,
+                    })
+                );
+            });
+
+        overlays.forEach((object) => canvas.add(object));
+        canvas.requestRenderAll();
+
+        return () => {
+            restore.forEach(([object, selectable, evented]) => object.set({ selectable, evented }));
+            overlays.forEach((object) => canvas.remove(object));
+            canvas.requestRenderAll();
+        };
+    }, [canvasRef, currentMap, locks]);
+
+    // Other editors' pointers
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!canvas || !currentMap) return;
+
+        const zoom = canvas.getZoom();
+        const size = CURSOR_SIZE / zoom;
+        const cursors = collaborators
+            .filter((collaborator) => collaborator.cursor)
+            .flatMap(({ cursor, name, color }) => [
+                new fabric.Polygon(
+                    [
+                        { x: cursor!.x, y: cursor!.y },
+                        { x: cursor!.x + size * 0.35, y: cursor!.y + size },
+                        { x: cursor!.x + size * 0.7, y: cursor!.y + size * 0.6 },
+                    ],
+                    { fill: color, stroke: '#ffffff', strokeWidth: 1 / zoom, selectable: false, evented: false }
+                ),
+                new fabric.FabricText(name, {
+                    left: cursor!.x + size * 0.8,
+                    top: cursor!.y + size * 0.6,
+                    fontSize: LABEL_FONT_SIZE / zoom,
+                    fontFamily: 'Arial',
+                    fill: '#ffffff',
+                    backgroundColor: color,
+                    selectable: false,
+                    evented: false,
+                }),
+            ]);
+
+        cursors.forEach((object) => canvas.add(object));
+        canvas.requestRenderAll();
+
+        return () => {
+            cursors.forEach((object) => canvas.remove(object));
+            canvas.requestRenderAll();
+        };
+    }, [canvasRef, currentMap, collaborators]);
+}
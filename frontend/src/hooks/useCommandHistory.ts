@@ -18,6 +18,14 @@ interface UseCommandHistoryReturn {
     canUndo: boolean;
     /** Whether redo is available */
     canRedo: boolean;
+    /** Drop all history, e.g. when a different map is loaded */
+    clearHistory: () => void;
+    /** Commands that can be undone, oldest first */
+    undoStack: Command[];
+    /** Commands that can be redone, with the next to redo last */
+    redoStack: Command[];
+    /** Replace the history, e.g. with one recovered from a draft */
+    restoreHistory: (undoStack: Command[], redoStack: Command[]) => void;
     /** Ref to latest executeCommand function (for use in effects) */
     executeCommandRef: React.MutableRefObject<((command: Command) => void) | undefined>;
     /** Ref to latest undo function (for use in effects) */
@@ -29,6 +37,8 @@ interface UseCommandHistoryReturn {
 interface UseCommandHistoryOptions {
     /** Callback to mark the document as dirty when commands are executed */
     onCommandExecuted?: () => void;
+    /** Callback with each command run, undone or redone, e.g. to share it with other editors */
+    onCommandApplied?: (command: Command, action: 'execute' | 'undo') => void;
     /** Maximum number of commands to keep in history (default: unlimited) */
     maxHistorySize?: number;
 }
@@ -42,7 +52,7 @@ interface UseCommandHistoryOptions {
 export function useCommandHistory(
     options: UseCommandHistoryOptions = {}
 ): UseCommandHistoryReturn {
-    const { onCommandExecuted, maxHistorySize } = options;
+    const { onCommandExecuted, onCommandApplied, maxHistorySize } = options;
 
     // History state
     const [undoStack, setUndoStack] = useState<Command[]>([]);
@@ -68,7 +78,8 @@ export function useCommandHistory(
         
         setRedoStack([]); // Clear redo stack on new action
         onCommandExecuted?.();
-    }, [maxHistorySize, onCommandExecuted]);
+        onCommandApplied?.(command, 'execute');
+    }, [maxHistorySize, onCommandExecuted, onCommandApplied]);
 
     // Undo - use functional updates to avoid stale closures
     const undo = useCallback(() => {
@@ -81,13 +92,14 @@ export function useCommandHistory(
                 
                 setRedoStack((redoPrev) => [...redoPrev, command]);
                 onCommandExecuted?.();
+                onCommandApplied?.(command, 'undo');
                 return prev.slice(0, -1);
             } catch (error) {
                 console.error('[useCommandHistory] Error during undo:', error);
                 return prev;
             }
         });
-    }, [onCommandExecuted]);
+    }, [onCommandExecuted, onCommandApplied]);
 
     // Redo - use functional updates to avoid stale closures
     const redo = useCallback(() => {
@@ -100,13 +112,24 @@ export function useCommandHistory(
                 
                 setUndoStack((undoPrev) => [...undoPrev, command]);
                 onCommandExecuted?.();
+                onCommandApplied?.(command, 'execute');
                 return prev.slice(0, -1);
             } catch (error) {
                 console.error('[useCommandHistory] Error during redo:', error);
                 return prev;
             }
         });
-    }, [onCommandExecuted]);
+    }, [onCommandExecuted, onCommandApplied]);
+
+    const clearHistory = useCallback(() => {
+        setUndoStack([]);
+        setRedoStack([]);
+    }, []);
+
+    const restoreHistory = useCallback((undoCommands: Command[], redoCommands: Command[]) => {
+        setUndoStack(undoCommands);
+        setRedoStack(redoCommands);
+    }, []);
 
     // Update refs when functions change (for use in effects that need stable references)
     useEffect(() => {
@@ -130,6 +153,10 @@ export function useCommandHistory(
         redo,
         canUndo,
         canRedo,
+        clearHistory,
+        undoStack,
+        redoStack,
+        restoreHistory,
         executeCommandRef,
         undoRef,
         redoRef,
@@ -0,0 +1,127 @@
+/**
+ * useConnectTool Hook
+ * The map editor's connect tool: drag from an electricity, water or sewage
+ * supply to a campsite (or the other way) to lay a service line between
+ * them. Escape leaves the tool.
+ */
+
+import { useEffect } from 'react';
+import * as fabric from 'fabric';
+import { useEditorStore } from '@/stores/editorStore';
+import { useMapStore } from '@/stores/mapStore';
+import type { AnyModule, Position } from '@/types';
+import { getModuleCenter, getModuleCorners, isPointInPolygon } from '@/utils/mapGeometry';
+import { UTILITY_COLORS, connectModules, getSupplyUtility } from '@/utils/utilityNetwork';
+
+interface UseConnectToolOptions {
+    canvasRef: React.MutableRefObject<fabric.Canvas | null>;
+    /** Clicks pan the canvas instead of connecting while pan mode is on */
+    isPanMode: boolean;
+}
+
+/** Colour of the line being dragged from a campsite, before a supply is reached */
+const PENDING_COLOR = '#6b7280'; // Gray
+
+/**
+ * Find the topmost visible supply or campsite under a point
+ */
+function findConnectableAt(modules: AnyModule[], point: Position): AnyModule | null {
+    const hits = modules.filter((module) =>
+        module.visible &&
+        (module.type === 'campsite' || getSupplyUtility(module) !== null) &&
+        isPointInPolygon(point, getModuleCorners(module))
+    );
+    return hits.reduce<AnyModule | null>((top, module) => (!top || module.zIndex > top.zIndex ? module : top), null);
+}
+
+/**
+ * Hook for connecting supplies to campsites while the connect tool is active
+ */
+export function useConnectTool({ canvasRef, isPanMode }: UseConnectToolOptions): void {
+    const activeTool = useEditorStore((state) => state.activeTool);
+    const setActiveTool = useEditorStore((state) => state.setActiveTool);
+
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!canvas || activeTool !== 'connect') return;
+
+        let source: AnyModule | null = null;
+        let preview: fabric.Line | null = null;
+
+        // Clicks connect rather than selecting modules
+        canvas.discardActiveObject();
+        canvas.skipTargetFind = true;
+
+        const removePreview = () => {
+            if (preview) canvas.remove(preview);
+            preview = null;
+            canvas.requestRenderAll();
+        };
+
+        const handleMouseDown = (opt: fabric.TPointerEventInfo<fabric.TPointerEvent>) => {
+            const event = opt.e as MouseEvent;
+            const map = useMapStore.getState().currentMap;
+            if (!map || isPanMode || event.altKey || event.button !== 0) return;
+
+            const pointer = canvas.getPointer(event);
+            source = findConnectableAt(map.modules, pointer);
+            if (!source) return;
+
+            const start = getModuleCenter(source);
+            const utility = getSupplyUtility(source);
+            preview = new fabric.Line([start.x, start.y, pointer.x, pointer.y], {
+                stroke: utility ? UTILITY_COLORS[utility] : PENDING_COLOR,
+                strokeWidth: 2 / canvas.getZoom(),
+                strokeDashArray: [6 / canvas.getZoom(), 4 / canvas.getZoom()],
+                selectable: false,
+                evented: false,
+            });
+            canvas.add(preview);
+            canvas.requestRenderAll();
+        };
+
+        const handleMouseMove = (opt: fabric.TPointerEventInfo<fabric.TPointerEvent>) => {
+            if (!preview) return;
+
+            const pointer = canvas.getPointer(opt.e);
+            preview.set({ x2: pointer.x, y2: pointer.y });
+            canvas.requestRenderAll();
+        };
+
+        const handleMouseUp = (opt: fabric.TPointerEventInfo<fabric.TPointerEvent>) => {
+            const { currentMap: map, updateMap } = useMapStore.getState();
+            if (source && map) {
+                const target = findConnectableAt(map.modules, canvas.getPointer(opt.e));
+                const connection = target ? connectModules(map, source.id, target.id) : null;
+                if (connection) {
+                    updateMap({ utilityConnections: [...(map.utilityConnections ?? []), connection] });
+                }
+            }
+            source = null;
+            removePreview();
+        };
+
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) {
+                return;
+            }
+            if (e.key === 'Escape') {
+                setActiveTool('select');
+            }
+        };
+
+        canvas.on('mouse:down', handleMouseDown);
+        canvas.on('mouse:move', handleMouseMove);
+        canvas.on('mouse:up', handleMouseUp);
+        window.addEventListener('keydown', handleKeyDown);
+
+        return () => {
+            canvas.off('mouse:down', handleMouseDown);
+            canvas.off('mouse:move', handleMouseMove);
+            canvas.off('mouse:up', handleMouseUp);
+            window.removeEventListener('keydown', handleKeyDown);
+            removePreview();
+            canvas.skipTargetFind = false;
+        };
+    }, [canvasRef, activeTool, isPanMode, setActiveTool]);
+}
@@ -0,0 +1,76 @@
+/**
+ * useLayoutCompliance Hook
+ * Checks the current map against its layout compliance rules and, while the
+ * overlay is shown, outlines the modules that break a rule on the canvas.
+ */
+
+import { useEffect, useMemo } from 'react';
+import * as fabric from 'fabric';
+import { useMapStore } from '@/stores/mapStore';
+import { getModuleCorners } from '@/utils/mapGeometry';
+import { checkLayoutCompliance } from '@/utils/layoutCompliance';
+import type { ComplianceReport, ComplianceSeverity } from '@/utils/layoutCompliance';
+
+interface UseLayoutComplianceOptions {
+    canvasRef: React.MutableRefObject<fabric.Canvas | null>;
+    /** Outline offending modules on the canvas */
+    showOverlay: boolean;
+}
+
+const SEVERITY_COLORS: Record<ComplianceSeverity, string> = {
+    error: '#dc2626', // Red
+    warning: '#f59e0b', // Amber
+};
+
+/**
+ * Hook for the compliance report of the map being edited
+ */
+export function useLayoutCompliance({ canvasRef, showOverlay }: UseLayoutComplianceOptions): ComplianceReport | null {
+    const currentMap = useMapStore((state) => state.currentMap);
+
+    const report = useMemo(
+        () => (currentMap ? checkLayoutCompliance(currentMap) : null),
+        [currentMap]
+    );
+
+    // Draw the outlines. The canvas is redrawn on every map change, so the
+    // outlines are recreated along with the report.
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!canvas || !currentMap || !report || !showOverlay) return;
+
+        // A module breaking several rules is outlined in its worst severity
+        const severities = new Map<string, ComplianceSeverity>();
+        report.violations.forEach(({ moduleIds, severity }) => {
+            moduleIds.forEach((id) => {
+                if (severities.get(id) !== 'error') severities.set(id, severity);
+            });
+        });
+
+        const zoom = canvas.getZoom();
+        const outlines = currentMap.modules
+            .filter((module) => severities.has(module.id))
+            .map((module) => {
+                const color = SEVERITY_COLORS[severities.get(module.id)!];
+                return new fabric.Polygon(getModuleCorners(module), {
+                    fill: `${color}26`,
+                    stroke: color,
+                    strokeWidth: 3 / zoom,
+                    strokeDashArray: [8 / zoom, 4 / zoom],
+                    selectable: false,
+                    evented: false,
+                    objectCaching: false,
+                });
+            });
+
+        outlines.forEach((outline) => canvas.add(outline));
+        canvas.requestRenderAll();
+
+        return () => {
+            outlines.forEach((outline) => canvas.remove(outline));
+            canvas.requestRenderAll();
+        };
+    }, [canvasRef, currentMap, report, showOverlay]);
+
+    return report;
+}
@@ -0,0 +1,83 @@
+/**
+ * useMapAvailability Hook
+ * Availability of every campsite on a map for one night, for the timeline
+ * slider on the map viewer, or for a whole stay when picking a site to book. Each site is checked with the availability API;
+ * until an answer arrives (or if the API is unreachable) the state is worked
+ * out from the cached bookings.
+ */
+
+import { useQueries } from '@tanstack/react-query';
+import { dateUtils } from '@shared/utils';
+import { getSiteAvailabilityQuery } from '@/features/sites/hooks/useSiteAvailability';
+import type { AnyModule, Booking, Site } from '@/types';
+import { getBoundSiteId } from '@/utils/siteBinding';
+import { getAvailabilityState, isSiteFreeForStay, type AvailabilityState } from '@/utils/mapAvailability';
+
+interface UseMapAvailabilityOptions {
+  modules: AnyModule[];
+  sites: Site[];
+  bookings: Booking[];
+  /** First night to check (check-in on this date) */
+  date: Date;
+  /** Nights to check from the first; defaults to one */
+  nights?: number;
+  enabled?: boolean;
+}
+
+interface UseMapAvailabilityReturn {
+  /** Availability of each campsite module, keyed by module ID */
+  availability: Map<string, AvailabilityState>;
+  /** IDs of campsite modules whose site is free */
+  availableIds: Set<string>;
+  isChecking: boolean;
+}
+
+/**
+ * Hook for the availability of all campsites on a map on a given night or stay
+ */
+export const useMapAvailability = ({
+  modules,
+  sites,
+  bookings,
+  date,
+  nights = 1,
+  enabled = true,
+}: UseMapAvailabilityOptions): UseMapAvailabilityReturn => {
+  const startDate = dateUtils.toDateKey(date);
+  const endDate = dateUtils.toDateKey(dateUtils.addDays(date, Math.max(1, nights)));
+
+  const sitesById = new Map(sites.map((site) => [site.id, site]));
+  const campsites = modules
+    .filter((module) => module.type === 'campsite')
+    .map((module) => {
+      const siteId = getBoundSiteId(module);
+      return { module, site: siteId ? sitesById.get(siteId) : undefined };
+    });
+  const boundSites = campsites.flatMap(({ site }) => (site ? [site] : []));
+
+  const results = useQueries({
+    queries: boundSites.map((site) => ({
+      ...getSiteAvailabilityQuery(site.id, startDate, endDate),
+      enabled,
+      retry: false,
+      staleTime: 60 * 1000,
+    })),
+  });
+
+  const answers = new Map(boundSites.map((site, index) => [site.id, results[index]?.data]));
+  const availability = new Map<string, AvailabilityState>();
+  const availableIds = new Set<string>();
+
+  campsites.forEach(({ module, site }) => {
+    const available = site ? answers.get(site.id) ?? isSiteFreeForStay(site, bookings, date, nights) : false;
+    const state = getAvailabilityState(site, available);
+    availability.set(module.id, state);
+    if (state === 'available') availableIds.add(module.id);
+  });
+
+  return {
+    availability,
+    availableIds,
+    isChecking: results.some((result) => result.isFetching),
+  };
+};
@@ -0,0 +1,153 @@
+/**
+ * useMapDraft Hook
+ * Keeps unsaved work on the open map, with its undo history, as a draft in
+ * IndexedDB after every change, and offers a draft left behind by a crashed
+ * or closed tab back when the map is next opened.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useMapStore } from '@/stores/mapStore';
+import { useUIStore } from '@/stores';
+import type { Command } from '@/commands';
+import type { CampsiteMap } from '@/types';
+import { mapDraftStorage } from '@/utils/indexedDBStorage';
+import {
+    deserializeHistory,
+    hasDraftChanges,
+    mergeMaps,
+    serializeHistory,
+    type MapDraft,
+    type MergeChoice,
+} from '@/utils/mapDrafts';
+
+interface UseMapDraftOptions {
+    /** Command history, kept with the draft */
+    undoStack: Command[];
+    redoStack: Command[];
+    restoreHistory: (undoStack: Command[], redoStack: Command[]) => void;
+    clearHistory: () => void;
+}
+
+/** A draft found for the open map, waiting to be recovered or discarded */
+export interface DraftRecovery {
+    draft: MapDraft;
+    /** The map as loaded from the server */
+    server: CampsiteMap;
+}
+
+interface UseMapDraftReturn {
+    recovery: DraftRecovery | null;
+    /** Merge the draft into the map, resolving conflicting modules by the given choices */
+    recoverDraft: (choices: Record<string, MergeChoice>) => void;
+    discardDraft: () => void;
+}
+
+/**
+ * Hook for autosaving the open map and recovering its drafts
+ */
+export function useMapDraft({
+    undoStack,
+    redoStack,
+    restoreHistory,
+    clearHistory,
+}: UseMapDraftOptions): UseMapDraftReturn {
+    const currentMap = useMapStore((state) => state.currentMap);
+    const isDirty = useMapStore((state) => state.isDirty);
+    const isLoading = useMapStore((state) => state.isLoading);
+    const [recovery, setRecovery] = useState<DraftRecovery | null>(null);
+    // Drafts are only written once any earlier draft has been looked for
+    const [checkedMapId, setCheckedMapId] = useState<string | null>(null);
+
+    // The last clean copy of the map, which unsaved edits are made to
+    const baseRef = useRef<CampsiteMap | null>(null);
+    const hasWarnedRef = useRef(false);
+
+    const mapId = currentMap?.id;
+
+    useEffect(() => {
+        if (currentMap && !isDirty) baseRef.current = currentMap;
+    }, [currentMap, isDirty]);
+
+    // Look for a draft when a map is opened
+    useEffect(() => {
+        if (!mapId || isLoading) return;
+
+        let cancelled = false;
+        mapDraftStorage.getDraft(mapId).then((draft) => {
+            if (cancelled) return;
+            const server = useMapStore.getState().currentMap;
+            if (draft && server && hasDraftChanges(draft, server)) {
+                setRecovery({ draft, server });
+            } else if (draft) {
+                mapDraftStorage.removeDraft(mapId);
+            }
+            hasWarnedRef.current = false;
+            setCheckedMapId(mapId);
+        });
+
+        return () => {
+            cancelled = true;
+            setCheckedMapId(null);
+            setRecovery(null);
+        };
+    }, [mapId, isLoading]);
+
+    // Write the draft on every change, and drop it once the map is saved
+    useEffect(() => {
+        if (!currentMap || checkedMapId !== currentMap.id || recovery) return;
+
+        if (!isDirty) {
+            mapDraftStorage.removeDraft(currentMap.id);
+            return;
+        }
+
+        mapDraftStorage
+            .setDraft({
+                mapId: currentMap.id,
+                base: baseRef.current ?? currentMap,
+                map: currentMap,
+                undoStack: serializeHistory(undoStack),
+                redoStack: serializeHistory(redoStack),
+                savedAt: new Date(),
+            })
+            .catch((error) => {
+                console.error('[useMapDraft] Failed to save draft:', error);
+                if (!hasWarnedRef.current) {
+                    hasWarnedRef.current = true;
+                    useUIStore
+                        .getState()
+                        .showToast('Unsaved changes could not be backed up in this browser. Save soon to avoid losing them.', 'warning');
+                }
+            });
+    }, [currentMap, isDirty, undoStack, redoStack, checkedMapId, recovery]);
+
+    const recoverDraft = useCallback(
+        (choices: Record<string, MergeChoice>) => {
+            if (!recovery) return;
+            const { draft, server } = recovery;
+            const { map, serverChanged } = mergeMaps(draft.base, draft.map, server, choices);
+
+            const { setMap, markDirty } = useMapStore.getState();
+            setMap({ ...map, id: server.id, updatedAt: new Date() });
+            markDirty();
+            baseRef.current = server;
+
+            // The history only replays cleanly onto the map it was recorded on
+            if (serverChanged) {
+                clearHistory();
+            } else {
+                restoreHistory(deserializeHistory(draft.undoStack), deserializeHistory(draft.redoStack));
+            }
+            setRecovery(null);
+        },
+        [recovery, restoreHistory, clearHistory]
+    );
+
+    const discardDraft = useCallback(() => {
+        if (!recovery) return;
+        mapDraftStorage.removeDraft(recovery.draft.mapId);
+        setRecovery(null);
+    }, [recovery]);
+
+    return { recovery, recoverDraft, discardDraft };
+}
@@ -0,0 +1,138 @@
+/**
+ * useMapOccupancy Hook
+ * Live occupancy of every campsite on a map, for the front desk operations view.
+ * Without a map ID, the published map is shown.
+ * Site status changes and check-ins arrive over the websocket and are patched
+ * straight into the cached sites and bookings. The day shown rolls over at midnight.
+ */
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { dateUtils } from '@shared/utils';
+import { useWebSocketEvent } from './useWebSocketEvent';
+import { usePublishedMap } from './useMaps';
+import { usePublicSites } from '@/features/sites/hooks/usePublicSites';
+import { getMapById } from '@/services/api/maps';
+import { getBookings } from '@/services/api/bookings';
+import { getMockMapById } from '@/services/api/mock-maps';
+import { mockBookings } from '@/services/api/mock-bookings';
+import { SOCKET_EVENTS } from '@/services/websocket/types';
+import type { BookingEventPayload, SiteEventPayload } from '@/services/websocket/types';
+import { queryKeys } from '@/config/query-keys';
+import type { Booking, CampsiteMap, Site } from '@/types';
+import {
+  applyBookingCheckIn,
+  applySiteStatusChange,
+  countOccupancy,
+  getMapOccupancy,
+  type OccupancyState,
+  type SiteOccupancy,
+} from '@/utils/siteOccupancy';
+
+interface UseMapOccupancyReturn {
+  map?: CampsiteMap;
+  sites: Site[];
+  bookings: Booking[];
+  /** Occupancy of each campsite module, keyed by module ID */
+  occupancy: Map<string, SiteOccupancy>;
+  counts: Record<OccupancyState, number>;
+  /** The day occupancy is shown for */
+  today: Date;
+  isLoading: boolean;
+  /** When the last live update was applied */
+  lastUpdated: Date | null;
+}
+
+/**
+ * Hook for the occupancy overlay of a map
+ */
+export const useMapOccupancy = (mapId?: string): UseMapOccupancyReturn => {
+  const queryClient = useQueryClient();
+  const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+  const [today, setToday] = useState(() => new Date());
+
+  // Move on to the next day at midnight, so an open page never shows yesterday
+  useEffect(() => {
+    const midnight = dateUtils.addDays(dateUtils.getStartOfDay(today), 1);
+    const timer = setTimeout(() => setToday(new Date()), midnight.getTime() - Date.now());
+    return () => clearTimeout(timer);
+  }, [today]);
+
+  const { map: publishedMap, isLoading: isLoadingPublishedMap } = usePublishedMap(!mapId);
+  const { data: mapById, isLoading: isLoadingMapById } = useQuery({
+    queryKey: queryKeys.maps.detail(mapId ?? ''),
+    queryFn: async () => {
+      try {
+        return await getMapById(mapId!);
+      } catch (error) {
+        console.warn('Failed to fetch map from API, using mock data:', error);
+        return getMockMapById(mapId!);
+      }
+    },
+    enabled: !!mapId,
+  });
+  const map = mapId ? mapById : publishedMap ?? undefined;
+  const isLoadingMap = mapId ? isLoadingMapById : isLoadingPublishedMap;
+
+  const { data: sites = [], isLoading: isLoadingSites } = usePublicSites();
+
+  const { data: bookings = [], isLoading: isLoadingBookings } = useQuery({
+    queryKey: queryKeys.bookings.list(),
+    queryFn: async () => {
+      try {
+        return await getBookings();
+      } catch (error) {
+        console.warn('Failed to fetch bookings from API, using mock data:', error);
+        return mockBookings;
+      }
+    },
+  });
+
+  // Site status changed (e.g. flagged for maintenance)
+  const handleSiteStatusChanged = useCallback(
+    (payload: SiteEventPayload) => {
+      queryClient.setQueriesData<Site[]>({ queryKey: queryKeys.sites.lists() }, (old) =>
+        old ? applySiteStatusChange(old, payload) : old
+      );
+      setLastUpdated(new Date());
+    },
+    [queryClient]
+  );
+
+  // Guest checked in at the front desk or kiosk
+  const handleBookingCheckedIn = useCallback(
+    (payload: BookingEventPayload) => {
+      const current = queryClient.getQueryData<Booking[]>(queryKeys.bookings.list());
+      const updated = current ? applyBookingCheckIn(current, payload) : null;
+
+      if (updated) {
+        queryClient.setQueryData(queryKeys.bookings.list(), updated);
+      } else {
+        queryClient.invalidateQueries({ queryKey: queryKeys.bookings.list() });
+      }
+      setLastUpdated(new Date());
+    },
+    [queryClient]
+  );
+
+  useWebSocketEvent(SOCKET_EVENTS.SITE_STATUS_CHANGED, handleSiteStatusChanged, [handleSiteStatusChanged]);
+  useWebSocketEvent(SOCKET_EVENTS.BOOKING_CHECKED_IN, handleBookingCheckedIn, [handleBookingCheckedIn]);
+
+  const occupancy = useMemo(
+    () => getMapOccupancy(map?.modules ?? [], sites, bookings, today),
+    [map, sites, bookings, today]
+  );
+
+  const counts = useMemo(() => countOccupancy(occupancy), [occupancy]);
+
+  return {
+    map,
+    sites,
+    bookings,
+    occupancy,
+    counts,
+    today,
+    isLoading: isLoadingMap || isLoadingSites || isLoadingBookings,
+    lastUpdated,
+  };
+};
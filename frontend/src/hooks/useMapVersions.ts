@@ -0,0 +1,56 @@
+/**
+ * useMapVersions Hook
+ * The version history of a campsite map, with mutations for taking and
+ * deleting snapshots.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  getMapVersions,
+  createMapVersion,
+  deleteMapVersion,
+  type CreateMapVersionData,
+} from '@/services/api/map-versions';
+import { queryKeys } from '@/config/query-keys';
+import type { MapVersion } from '@/types';
+
+interface UseMapVersionsReturn {
+  /** Versions of the map, newest first */
+  versions: MapVersion[];
+  isLoading: boolean;
+}
+
+/**
+ * Hook for the versions of a map
+ */
+export const useMapVersions = (mapId: string | undefined): UseMapVersionsReturn => {
+  const { data: versions = [], isLoading } = useQuery({
+    queryKey: queryKeys.maps.versions(mapId!),
+    queryFn: () => getMapVersions(mapId!),
+    enabled: !!mapId,
+  });
+
+  return { versions, isLoading };
+};
+
+export const useCreateMapVersion = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: CreateMapVersionData) => createMapVersion(data),
+    onSuccess: (version) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.maps.versions(version.mapId) });
+    },
+  });
+};
+
+export const useDeleteMapVersion = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ mapId, id }: { mapId: string; id: string }) => deleteMapVersion(mapId, id),
+    onSuccess: (_, { mapId }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.maps.versions(mapId) });
+    },
+  });
+};
@@ -0,0 +1,159 @@
+/**
+ * useMaps Hook
+ * The campground's maps for the maps list and the published map the
+ * customer and front desk views show, with mutations for creating, copying,
+ * saving, renaming, archiving, publishing and deleting maps.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  getMaps,
+  getPublishedMap,
+  createMap,
+  updateMap,
+  duplicateMap,
+  setMapArchived,
+  publishMap,
+  deleteMap,
+} from '@/services/api/maps';
+import { getMockMaps, getMockPublishedMap } from '@/services/api/mock-maps';
+import { queryKeys } from '@/config/query-keys';
+import { getMapUpdate } from '@/utils/mapLibrary';
+import type { CampsiteMap, CreateMapRequest } from '@/types';
+
+interface UseMapsReturn {
+  maps: CampsiteMap[];
+  isLoading: boolean;
+}
+
+interface UsePublishedMapReturn {
+  /** Null when no map has been published */
+  map?: CampsiteMap | null;
+  isLoading: boolean;
+}
+
+/**
+ * Hook for every map, archived or not. Searching is done on the client
+ * with filterMaps so results update as the user types.
+ */
+export const useMaps = (): UseMapsReturn => {
+  const { data: maps = [], isLoading } = useQuery({
+    queryKey: queryKeys.maps.lists(),
+    queryFn: async () => {
+      try {
+        return await getMaps();
+      } catch (error) {
+        console.warn('Failed to fetch maps from API, using mock data:', error);
+        return getMockMaps();
+      }
+    },
+  });
+
+  return { maps, isLoading };
+};
+
+/**
+ * Hook for the published map
+ */
+export const usePublishedMap = (enabled = true): UsePublishedMapReturn => {
+  const { data: map, isLoading } = useQuery({
+    queryKey: queryKeys.maps.published(),
+    queryFn: async () => {
+      try {
+        return await getPublishedMap();
+      } catch (error) {
+        console.warn('Failed to fetch published map from API, using mock data:', error);
+        return getMockPublishedMap();
+      }
+    },
+    enabled,
+  });
+
+  return { map, isLoading: enabled && isLoading };
+};
+
+const useInvalidateMaps = () => {
+  const queryClient = useQueryClient();
+
+  return () => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.maps.all });
+  };
+};
+
+export const useCreateMap = () => {
+  const invalidate = useInvalidateMaps();
+
+  return useMutation({
+    mutationFn: (request: CreateMapRequest) => createMap(request),
+    onSuccess: invalidate,
+  });
+};
+
+export const useDuplicateMap = () => {
+  const invalidate = useInvalidateMaps();
+
+  return useMutation({
+    mutationFn: ({ id, name }: { id: string; name: string }) => duplicateMap(id, name),
+    onSuccess: invalidate,
+  });
+};
+
+/**
+ * Save a map from the editor, creating it first if it is new.
+ * A failed save leaves the map unsaved so its draft is kept.
+ */
+export const useSaveMap = () => {
+  const invalidate = useInvalidateMaps();
+
+  return useMutation({
+    mutationFn: async (map: CampsiteMap) => {
+      const id = map.id === 'new'
+        ? (await createMap({
+          name: map.name,
+          description: map.description,
+          scale: map.scale,
+          metadata: map.metadata,
+          modules: map.modules,
+        })).id
+        : map.id;
+      return updateMap(id, { ...getMapUpdate(map), id });
+    },
+    onSuccess: invalidate,
+  });
+};
+
+export const useRenameMap = () => {
+  const invalidate = useInvalidateMaps();
+
+  return useMutation({
+    mutationFn: ({ id, name }: { id: string; name: string }) => updateMap(id, { id, name }),
+    onSuccess: invalidate,
+  });
+};
+
+export const useArchiveMap = () => {
+  const invalidate = useInvalidateMaps();
+
+  return useMutation({
+    mutationFn: ({ id, isArchived }: { id: string; isArchived: boolean }) => setMapArchived(id, isArchived),
+    onSuccess: invalidate,
+  });
+};
+
+export const usePublishMap = () => {
+  const invalidate = useInvalidateMaps();
+
+  return useMutation({
+    mutationFn: (id: string) => publishMap(id),
+    onSuccess: invalidate,
+  });
+};
+
+export const useDeleteMap = () => {
+  const invalidate = useInvalidateMaps();
+
+  return useMutation({
+    mutationFn: (id: string) => deleteMap(id),
+    onSuccess: invalidate,
+  });
+};
@@ -0,0 +1,137 @@
+/**
+ * useMeasureTool Hook
+ * The map editor's measure tool: drag across the map to measure a distance
+ * in the map's measurement unit. Hold Shift to keep the ruler at a multiple
+ * of 45°. Enter pins the measurement to the map as a dimension and Escape
+ * clears it, or leaves the tool when there is nothing to clear.
+ *
+ * The calibrate tool draws the same ruler, labelled in pixels, over
+ * something of known size on the background; the background panel then
+ * sets the map scale from it.
+ */
+
+import { useEffect } from 'react';
+import * as fabric from 'fabric';
+import { useEditorStore } from '@/stores/editorStore';
+import { useMapStore } from '@/stores/mapStore';
+import type { Position } from '@/types';
+import { createDimensionObject } from '@/utils/dimensionRenderer';
+import { formatLength, getDimensionLength, getMeasurementUnit } from '@/utils/measurement';
+
+interface UseMeasureToolOptions {
+    canvasRef: React.MutableRefObject<fabric.Canvas | null>;
+    /** Clicks pan the canvas instead of measuring while pan mode is on */
+    isPanMode: boolean;
+}
+
+/**
+ * Snap the end of a ruler to the nearest multiple of 45° around its start
+ */
+function constrainAngle(start: Position, end: Position): Position {
+    const length = Math.hypot(end.x - start.x, end.y - start.y);
+    const step = Math.PI / 4;
+    const angle = Math.round(Math.atan2(end.y - start.y, end.x - start.x) / step) * step;
+    return { x: start.x + length * Math.cos(angle), y: start.y + length * Math.sin(angle) };
+}
+
+/**
+ * Hook for measuring distances on the editor canvas while the measure or calibrate tool is active
+ */
+export function useMeasureTool({ canvasRef, isPanMode }: UseMeasureToolOptions): void {
+    const activeTool = useEditorStore((state) => state.activeTool);
+    const measurement = useEditorStore((state) => state.measurement);
+    const setMeasurement = useEditorStore((state) => state.setMeasurement);
+    const setActiveTool = useEditorStore((state) => state.setActiveTool);
+    const currentMap = useMapStore((state) => state.currentMap);
+
+    // Pointer and keyboard handling
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!canvas || (activeTool !== 'measure' && activeTool !== 'calibrate')) return;
+
+        let start: Position | null = null;
+
+        // Clicks measure rather than selecting modules
+        canvas.discardActiveObject();
+        canvas.skipTargetFind = true;
+
+        const handleMouseDown = (opt: fabric.TPointerEventInfo<fabric.TPointerEvent>) => {
+            const event = opt.e as MouseEvent;
+            if (isPanMode || event.altKey || event.button !== 0) return;
+
+            const pointer = canvas.getPointer(event);
+            start = { x: pointer.x, y: pointer.y };
+            setMeasurement({ start, end: start });
+        };
+
+        const handleMouseMove = (opt: fabric.TPointerEventInfo<fabric.TPointerEvent>) => {
+            if (!start) return;
+
+            const pointer = canvas.getPointer(opt.e);
+            const end = { x: pointer.x, y: pointer.y };
+            setMeasurement({ start, end: opt.e.shiftKey ? constrainAngle(start, end) : end });
+        };
+
+        const handleMouseUp = () => {
+            const current = useEditorStore.getState().measurement;
+            if (start && current && current.start.x === current.end.x && current.start.y === current.end.y) {
+                setMeasurement(null);
+            }
+            start = null;
+        };
+
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) {
+                return;
+            }
+
+            const current = useEditorStore.getState().measurement;
+            if (e.key === 'Enter' && current && activeTool === 'measure') {
+                e.preventDefault();
+                const { currentMap: map, updateMap } = useMapStore.getState();
+                if (map) {
+                    updateMap({ dimensions: [...(map.dimensions ?? []), { id: crypto.randomUUID(), ...current }] });
+                    setMeasurement(null);
+                }
+            } else if (e.key === 'Escape') {
+                if (current) {
+                    setMeasurement(null);
+                } else {
+                    setActiveTool('select');
+                }
+            }
+        };
+
+        canvas.on('mouse:down', handleMouseDown);
+        canvas.on('mouse:move', handleMouseMove);
+        canvas.on('mouse:up', handleMouseUp);
+        window.addEventListener('keydown', handleKeyDown);
+
+        return () => {
+            canvas.off('mouse:down', handleMouseDown);
+            canvas.off('mouse:move', handleMouseMove);
+            canvas.off('mouse:up', handleMouseUp);
+            window.removeEventListener('keydown', handleKeyDown);
+            canvas.skipTargetFind = false;
+        };
+    }, [canvasRef, activeTool, isPanMode, setMeasurement, setActiveTool]);
+
+    // Draw the ruler. The canvas is redrawn on every map change, so the
+    // ruler is recreated whenever the map changes.
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!canvas || !currentMap || !measurement) return;
+
+        const label = activeTool === 'calibrate'
+            ? `${Math.round(Math.hypot(measurement.end.x - measurement.start.x, measurement.end.y - measurement.start.y))} px`
+            : formatLength(getDimensionLength(measurement, currentMap.scale), getMeasurementUnit(currentMap));
+        const ruler = createDimensionObject(measurement, label, { isMeasuring: true, zoom: canvas.getZoom() });
+        canvas.add(ruler);
+        canvas.requestRenderAll();
+
+        return () => {
+            canvas.remove(ruler);
+            canvas.requestRenderAll();
+        };
+    }, [canvasRef, activeTool, measurement, currentMap]);
+}
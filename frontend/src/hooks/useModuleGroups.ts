@@ -0,0 +1,179 @@
+/**
+ * useModuleGroups Hook
+ * Actions on the module groups of the open map. The groups, group membership
+ * and the state of grouped modules all change through commands, so they can be
+ * undone together.
+ */
+
+import { useCallback } from 'react';
+import { useMapStore } from '@/stores/mapStore';
+import { BatchCommand, GroupsCommand, PropertyCommand, ReorderCommand, type Command } from '@/commands';
+import type { AnyModule } from '@/types';
+import {
+    createGroup,
+    getCommonGroupId,
+    getGroupModules,
+    getNextGroupName,
+    moveGroup,
+    removeGroup,
+} from '@/utils/moduleGroups';
+
+interface UseModuleGroupsOptions {
+    executeCommand: (command: Command) => void;
+}
+
+interface UseModuleGroupsReturn {
+    /** Put modules in a new group, nested in the innermost group they share; returns its ID */
+    groupModules: (moduleIds: string[]) => string | null;
+    /** Remove a group, moving its contents up a level */
+    ungroup: (groupId: string) => void;
+    renameGroup: (groupId: string, name: string) => void;
+    /** Move modules into a group, or out of all groups, optionally placing them just above a module */
+    moveModulesToGroup: (moduleIds: string[], groupId: string | undefined, aboveModuleId?: string) => void;
+    /** Move a group into another group or to the top level, optionally before a sibling group */
+    moveGroupTo: (groupId: string, parentId: string | undefined, beforeGroupId?: string) => void;
+    /** Lock every module in a group, or unlock them all if they already are */
+    toggleGroupLock: (groupId: string) => void;
+    /** Hide every module in a group, or show them all if they already are hidden */
+    toggleGroupVisibility: (groupId: string) => void;
+}
+
+/**
+ * Change one property on each module that does not already have the value
+ */
+const buildPropertyCommand = <K extends 'groupId' | 'locked' | 'visible'>(
+    modules: AnyModule[],
+    field: K,
+    value: AnyModule[K]
+): PropertyCommand | null => {
+    const changes = modules
+        .filter((module) => module[field] !== value)
+        .map((module) => ({
+            moduleId: module.id,
+            oldProps: { [field]: module[field] } as Partial<AnyModule>,
+            newProps: { [field]: value } as Partial<AnyModule>,
+        }));
+    return changes.length > 0 ? new PropertyCommand(changes) : null;
+};
+
+const getMap = () => useMapStore.getState().currentMap;
+
+/**
+ * Run the commands that are needed as one undo step
+ */
+const runCommands = (executeCommand: (command: Command) => void, name: string, commands: (Command | null)[]) => {
+    const needed = commands.filter((command): command is Command => !!command);
+    if (needed.length === 1) {
+        executeCommand(needed[0]!);
+    } else if (needed.length > 1) {
+        executeCommand(new BatchCommand(name, needed));
+    }
+};
+
+/**
+ * Hook for grouping modules and acting on groups
+ */
+export function useModuleGroups({ executeCommand }: UseModuleGroupsOptions): UseModuleGroupsReturn {
+    const groupModules = useCallback((moduleIds: string[]) => {
+        const map = getMap();
+        if (!map) return null;
+
+        const modules = map.modules.filter((module) => moduleIds.includes(module.id));
+        if (modules.length === 0) return null;
+
+        const groups = map.groups ?? [];
+        const group = createGroup(getNextGroupName(groups), getCommonGroupId(map, modules));
+
+        runCommands(executeCommand, 'Group', [
+            new GroupsCommand(groups, [...groups, group], 'Group'),
+            buildPropertyCommand(modules, 'groupId', group.id),
+        ]);
+        return group.id;
+    }, [executeCommand]);
+
+    const ungroup = useCallback((groupId: string) => {
+        const map = getMap();
+        const group = map?.groups?.find((item) => item.id === groupId);
+        if (!map || !group) return;
+
+        const groups = map.groups ?? [];
+        const modules = map.modules.filter((module) => module.groupId === groupId);
+
+        runCommands(executeCommand, 'Ungroup', [
+            buildPropertyCommand(modules, 'groupId', group.parentId),
+            new GroupsCommand(groups, removeGroup(groups, groupId), 'Ungroup'),
+        ]);
+    }, [executeCommand]);
+
+    const renameGroup = useCallback((groupId: string, name: string) => {
+        const map = getMap();
+        if (!map || !name.trim()) return;
+
+        const groups = map.groups ?? [];
+        executeCommand(new GroupsCommand(
+            groups,
+            groups.map((group) => (group.id === groupId ? { ...group, name: name.trim() } : group)),
+            'Rename Group'
+        ));
+    }, [executeCommand]);
+
+    const moveModulesToGroup = useCallback((moduleIds: string[], groupId: string | undefined, aboveModuleId?: string) => {
+        const map = getMap();
+        if (!map) return;
+
+        const modules = map.modules.filter((module) => moduleIds.includes(module.id));
+        const above = aboveModuleId ? map.modules.find((module) => module.id === aboveModuleId) : undefined;
+        const commands: Command[] = [];
+
+        const membership = buildPropertyCommand(modules, 'groupId', groupId);
+        if (membership) commands.push(membership);
+        if (above) {
+            // Stack the moved modules directly above, keeping their order among themselves
+            modules
+                .filter((module) => module.id !== above.id)
+                .sort((a, b) => a.zIndex - b.zIndex)
+                .forEach((module, index) => {
+                    const zIndex = above.zIndex + 1 + index;
+                    if (module.zIndex !== zIndex) commands.push(new ReorderCommand(module.id, module.zIndex, zIndex));
+                });
+        }
+
+        runCommands(executeCommand, 'Move to Group', commands);
+    }, [executeCommand]);
+
+    const moveGroupTo = useCallback((groupId: string, parentId: string | undefined, beforeGroupId?: string) => {
+        const map = getMap();
+        if (!map?.groups) return;
+
+        const groups = moveGroup(map.groups, groupId, parentId, beforeGroupId);
+        if (groups !== map.groups) executeCommand(new GroupsCommand(map.groups, groups, 'Move Group'));
+    }, [executeCommand]);
+
+    const toggleGroupLock = useCallback((groupId: string) => {
+        const map = getMap();
+        if (!map) return;
+
+        const modules = getGroupModules(map, groupId);
+        const command = buildPropertyCommand(modules, 'locked', !modules.every((module) => module.locked));
+        if (command) executeCommand(command);
+    }, [executeCommand]);
+
+    const toggleGroupVisibility = useCallback((groupId: string) => {
+        const map = getMap();
+        if (!map) return;
+
+        const modules = getGroupModules(map, groupId);
+        const command = buildPropertyCommand(modules, 'visible', modules.every((module) => !module.visible));
+        if (command) executeCommand(command);
+    }, [executeCommand]);
+
+    return {
+        groupModules,
+        ungroup,
+        renameGroup,
+        moveModulesToGroup,
+        moveGroupTo,
+        toggleGroupLock,
+        toggleGroupVisibility,
+    };
+}
@@ -0,0 +1,183 @@
+/**
+ * usePathDrawing Hook
+ * The map editor's draw tool: draws roads as polylines and zones as polygons.
+ * Click to place vertices or drag to draw freehand; double-click or Enter
+ * finishes the shape, Backspace removes the last vertex and Escape cancels.
+ * The finished shape is added with an AddCommand, so one undo removes it.
+ */
+
+import { useEffect } from 'react';
+import * as fabric from 'fabric';
+import { AddCommand, type Command } from '@/commands';
+import { useEditorStore } from '@/stores/editorStore';
+import type { Position } from '@/types';
+import { createPathModule, getModuleColor } from '@/utils/moduleFactory';
+import { MIN_PATH_POINTS, getPathLength, simplifyPath, type PathModuleType } from '@/utils/modulePaths';
+
+interface UsePathDrawingOptions {
+    canvasRef: React.MutableRefObject<fabric.Canvas | null>;
+    /** Ref to latest executeCommand function */
+    executeCommandRef: React.MutableRefObject<((command: Command) => void) | undefined>;
+    /** Clicks pan the canvas instead of drawing while pan mode is on */
+    isPanMode: boolean;
+}
+
+/** Freehand strokes take a vertex every few screen pixels of pointer travel */
+const FREEHAND_SPACING = 4;
+
+/** Clicks closer than this to the last vertex, in screen pixels, are ignored */
+const DUPLICATE_DISTANCE = 3;
+
+/** Freehand vertices within this many screen pixels of a straight line are dropped */
+const SIMPLIFY_TOLERANCE = 1.5;
+
+function createPreview(points: Position[], type: PathModuleType): fabric.FabricObject {
+    const options = {
+        stroke: getModuleColor(type),
+        strokeWidth: 2,
+        strokeDashArray: [6, 4],
+        fill: '',
+        selectable: false,
+        evented: false,
+        objectCaching: false,
+    };
+    const vertices = points.map((point) => ({ x: point.x, y: point.y }));
+    return type === 'zone' ? new fabric.Polygon(vertices, options) : new fabric.Polyline(vertices, options);
+}
+
+/**
+ * Hook for drawing path modules on the editor canvas while the draw tool is active
+ */
+export function usePathDrawing({ canvasRef, executeCommandRef, isPanMode }: UsePathDrawingOptions): void {
+    const activeTool = useEditorStore((state) => state.activeTool);
+    const shapeToDraw = useEditorStore((state) => state.shapeToDraw);
+    const setShapeToDraw = useEditorStore((state) => state.setShapeToDraw);
+
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!canvas || activeTool !== 'draw' || !shapeToDraw) return;
+
+        let points: Position[] = [];
+        let cursor: Position | null = null;
+        let isPointerDown = false;
+        let preview: fabric.FabricObject | null = null;
+
+        // Clicks place vertices rather than selecting modules
+        canvas.discardActiveObject();
+        canvas.skipTargetFind = true;
+
+        const toScreen = (distance: number) => distance * canvas.getZoom();
+        const lastPoint = () => points[points.length - 1];
+
+        const renderPreview = () => {
+            if (preview) canvas.remove(preview);
+            preview = null;
+
+            const shown = cursor && !isPointerDown ? [...points, cursor] : points;
+            if (shown.length >= 2) {
+                preview = createPreview(shown, shapeToDraw);
+                canvas.add(preview);
+            }
+            canvas.requestRenderAll();
+        };
+
+        const reset = () => {
+            points = [];
+            isPointerDown = false;
+            renderPreview();
+        };
+
+        const finish = () => {
+            const simplified = simplifyPath(points, SIMPLIFY_TOLERANCE / canvas.getZoom());
+            const isClosed = shapeToDraw === 'zone';
+            if (simplified.length < MIN_PATH_POINTS[shapeToDraw] || toScreen(getPathLength(simplified, isClosed)) < DUPLICATE_DISTANCE * 2) {
+                return;
+            }
+
+            const executeCommand = executeCommandRef.current;
+            if (!executeCommand) {
+                console.warn('[usePathDrawing] executeCommand not available');
+                return;
+            }
+
+            executeCommand(new AddCommand([createPathModule(shapeToDraw, simplified)]));
+            reset();
+            setShapeToDraw(null);
+        };
+
+        const handleMouseDown = (opt: fabric.TPointerEventInfo<fabric.TPointerEvent>) => {
+            const event = opt.e as MouseEvent;
+            if (isPanMode || event.altKey || event.button !== 0) return;
+
+            const pointer = canvas.getPointer(event);
+            const last = lastPoint();
+            if (!last || toScreen(Math.hypot(pointer.x - last.x, pointer.y - last.y)) >= DUPLICATE_DISTANCE) {
+                points.push({ x: pointer.x, y: pointer.y });
+            }
+            isPointerDown = true;
+            renderPreview();
+        };
+
+        const handleMouseMove = (opt: fabric.TPointerEventInfo<fabric.TPointerEvent>) => {
+            const pointer = canvas.getPointer(opt.e);
+            cursor = { x: pointer.x, y: pointer.y };
+
+            // Dragging draws freehand
+            const last = lastPoint();
+            if (isPointerDown && last && toScreen(Math.hypot(pointer.x - last.x, pointer.y - last.y)) >= FREEHAND_SPACING) {
+                points.push(cursor);
+            }
+            renderPreview();
+        };
+
+        const handleMouseUp = () => {
+            isPointerDown = false;
+            renderPreview();
+        };
+
+        const handleDoubleClick = () => {
+            finish();
+        };
+
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) {
+                return;
+            }
+
+            if (e.key === 'Enter') {
+                e.preventDefault();
+                finish();
+            } else if (e.key === 'Escape') {
+                // First Escape drops the shape in progress, the next leaves the tool
+                if (points.length > 0) {
+                    reset();
+                } else {
+                    setShapeToDraw(null);
+                }
+            } else if (e.key === 'Backspace' && points.length > 0) {
+                e.preventDefault();
+                points.pop();
+                renderPreview();
+            }
+        };
+
+        canvas.on('mouse:down', handleMouseDown);
+        canvas.on('mouse:move', handleMouseMove);
+        canvas.on('mouse:up', handleMouseUp);
+        canvas.on('mouse:dblclick', handleDoubleClick);
+        window.addEventListener('keydown', handleKeyDown);
+
+        return () => {
+            canvas.off('mouse:down', handleMouseDown);
+            canvas.off('mouse:move', handleMouseMove);
+            canvas.off('mouse:up', handleMouseUp);
+            canvas.off('mouse:dblclick', handleDoubleClick);
+            window.removeEventListener('keydown', handleKeyDown);
+            if (preview) canvas.remove(preview);
+            canvas.skipTargetFind = false;
+            canvas.requestRenderAll();
+        };
+        // Note: executeCommandRef is a ref that provides the latest executeCommand
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [canvasRef, activeTool, shapeToDraw, isPanMode, setShapeToDraw]);
+}
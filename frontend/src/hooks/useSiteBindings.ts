@@ -0,0 +1,149 @@
+/**
+ * useSiteBindings Hook
+ * Two-way sync between map editor campsite modules and Site records.
+ * Module edits are pushed to the bound site when the map is saved; site changes
+ * are pulled into bound modules while the map has no unsaved edits.
+ */
+
+import { useCallback, useEffect, useMemo } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { usePublicSites } from '@/features/sites/hooks/usePublicSites';
+import { getMaps } from '@/services/api/maps';
+import { updateSite } from '@/services/api/sites';
+import { queryKeys } from '@/config/query-keys';
+import { useMapStore } from '@/stores/mapStore';
+import { useUIStore } from '@/stores/uiStore';
+import type { AnyModule, CampsiteModule, Site } from '@/types';
+import {
+    getSiteBindingReport,
+    getSiteUpdates,
+    isCampsiteModule,
+    isModuleInSync,
+    siteToCampsiteMetadata,
+    type SiteBindingReport,
+    type SyncedSiteFields,
+} from '@/utils/siteBinding';
+
+interface UseSiteBindingsReturn {
+    /** All sites in the inventory */
+    sites: Site[];
+    isLoading: boolean;
+    /** Unbound modules, unplaced sites and drift for the current map */
+    report: SiteBindingReport;
+    /** Write a bound module's inventory fields back to its site */
+    pushToSite: (siteId: string, changes: Partial<SyncedSiteFields>) => void;
+    isPushing: boolean;
+}
+
+/**
+ * Hook for reading site bindings on the current map and pushing module edits to sites
+ */
+export function useSiteBindings(): UseSiteBindingsReturn {
+    const queryClient = useQueryClient();
+    const showToast = useUIStore((state) => state.showToast);
+    const currentMap = useMapStore((state) => state.currentMap);
+    const { data: sites = [], isLoading } = usePublicSites();
+
+    // Other saved maps, so sites placed there are not reported as unplaced
+    const { data: otherMaps = [] } = useQuery({
+        queryKey: queryKeys.maps.lists(),
+        queryFn: async () => {
+            try {
+                return await getMaps();
+            } catch {
+                return [];
+            }
+        },
+    });
+
+    const report = useMemo(
+        () => getSiteBindingReport(
+            currentMap?.modules ?? [],
+            sites,
+            otherMaps.filter((map) => map.id !== currentMap?.id)
+        ),
+        [currentMap, sites, otherMaps]
+    );
+
+    const { mutate, isPending } = useMutation({
+        mutationFn: ({ siteId, changes }: { siteId: string; changes: Partial<SyncedSiteFields> }) =>
+            updateSite(siteId, changes),
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: queryKeys.sites.all });
+        },
+        onError: (error) => {
+            console.error('[useSiteBindings] Error updating site:', error);
+            showToast('Failed to update the linked site', 'error');
+        },
+    });
+
+    const pushToSite = useCallback(
+        (siteId: string, changes: Partial<SyncedSiteFields>) => {
+            if (Object.keys(changes).length === 0) return;
+            mutate({ siteId, changes });
+        },
+        [mutate]
+    );
+
+    return { sites, isLoading, report, pushToSite, isPushing: isPending };
+}
+
+interface UseSiteBindingSyncReturn {
+    /** Write the bound modules' inventory fields to their sites, e.g. once the map is saved */
+    pushModulesToSites: (modules: AnyModule[]) => Promise<void>;
+}
+
+/**
+ * Pull site changes (e.g. made on the Sites page) into bound modules.
+ * Runs when the site inventory or the loaded map changes; the update bypasses
+ * command history because it reflects external data rather than a user edit.
+ * Nothing is pulled while the map is dirty, so unsaved edits are never replaced.
+ */
+export function useSiteBindingSync(): UseSiteBindingSyncReturn {
+    const queryClient = useQueryClient();
+    const { data: sites } = usePublicSites();
+    const mapId = useMapStore((state) => state.currentMap?.id);
+    const isDirty = useMapStore((state) => state.isDirty);
+
+    useEffect(() => {
+        if (!sites || !mapId || isDirty) return;
+
+        const { currentMap, _updateModule, markDirty } = useMapStore.getState();
+        if (!currentMap) return;
+
+        const sitesById = new Map(sites.map((site) => [site.id, site]));
+        let changed = false;
+
+        currentMap.modules.forEach((module) => {
+            if (!isCampsiteModule(module) || !module.metadata.siteId) return;
+            const site = sitesById.get(module.metadata.siteId);
+            if (!site || isModuleInSync(module, site)) return;
+
+            _updateModule(module.id, {
+                metadata: siteToCampsiteMetadata(site, module.metadata),
+            } as Partial<CampsiteModule>);
+            changed = true;
+        });
+
+        if (changed) {
+            markDirty();
+        }
+    }, [sites, mapId, isDirty]);
+
+    const pushModulesToSites = useCallback(
+        async (modules: AnyModule[]) => {
+            const updates = getSiteUpdates(modules, sites ?? []);
+            if (updates.length === 0) return;
+
+            try {
+                await Promise.all(updates.map(({ siteId, changes }) => updateSite(siteId, changes)));
+            } finally {
+                // Some sites may have been updated before one failed
+                await queryClient.invalidateQueries({ queryKey: queryKeys.sites.all });
+            }
+        },
+        [sites, queryClient]
+    );
+
+    return { pushModulesToSites };
+}
@@ -0,0 +1,37 @@
+/**
+ * useSiteWalkingDistances Hook
+ * Walking distances to the nearest facilities for a site, as saved on the
+ * campsite module bound to it on the published map.
+ */
+
+import { usePublishedMap } from './useMaps';
+import { MeasurementUnit, type FacilityDistances } from '@/types';
+import { getBoundSiteId, isCampsiteModule } from '@/utils/siteBinding';
+import { getMeasurementUnit } from '@/utils/measurement';
+
+interface UseSiteWalkingDistancesReturn {
+  /** Distances in metres along public roads and paths */
+  walkingDistances?: FacilityDistances;
+  /** Distances in metres keeping to paved and boardwalk surfaces */
+  stepFreeDistances?: FacilityDistances;
+  /** Unit of the map the site is placed on */
+  unit: MeasurementUnit;
+}
+
+/**
+ * Hook for the saved walking distances of a site
+ */
+export const useSiteWalkingDistances = (siteId: string | undefined): UseSiteWalkingDistancesReturn => {
+  const { map } = usePublishedMap(!!siteId);
+
+  const module = map?.modules.find((candidate) => !!siteId && getBoundSiteId(candidate) === siteId);
+  if (map && module && isCampsiteModule(module)) {
+    return {
+      walkingDistances: module.metadata.walkingDistances,
+      stepFreeDistances: module.metadata.stepFreeDistances,
+      unit: getMeasurementUnit(map),
+    };
+  }
+
+  return { unit: MeasurementUnit.METERS };
+};
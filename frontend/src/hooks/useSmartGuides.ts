@@ -0,0 +1,96 @@
+/**
+ * useSmartGuides Hook
+ * Snapping while modules are dragged on the editor canvas. A dragged module
+ * (or selection) snaps to the edges, centres and spacing of the modules
+ * around it, with guides and distance labels shown until it is dropped. On
+ * an axis where it does not snap to a module it snaps to the grid instead,
+ * so the two are worked out together here.
+ */
+
+import { useEffect } from 'react';
+import * as fabric from 'fabric';
+import { useMapStore } from '@/stores/mapStore';
+import { EDITOR_CONSTANTS } from '@/constants/editorConstants';
+import { isBackgroundObject } from '@/utils/backgroundHandler';
+import { getModuleId } from '@/utils/moduleFactory';
+import { createSmartGuideObject } from '@/utils/guideRenderer';
+import { formatLength, getMeasurementUnit, pixelsToMeters } from '@/utils/measurement';
+import { getSmartGuides } from '@/utils/smartGuides';
+
+interface UseSmartGuidesOptions {
+    canvasRef: React.MutableRefObject<fabric.Canvas | null>;
+    /** Whether the canvas has been created, so snapping is set up once it exists */
+    canvasReady: boolean;
+    /** Snap to other modules and show guides */
+    enabled: boolean;
+    snapToGrid: boolean;
+    gridSize: number;
+}
+
+/**
+ * Hook for snapping dragged modules to other modules and to the grid
+ */
+export function useSmartGuides({ canvasRef, canvasReady, enabled, snapToGrid, gridSize }: UseSmartGuidesOptions): void {
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!canvas) return;
+
+        let overlay: fabric.Group | null = null;
+
+        const removeOverlay = () => {
+            if (!overlay) return;
+            canvas.remove(overlay);
+            overlay = null;
+            canvas.requestRenderAll();
+        };
+
+        const handleMoving = (e: fabric.BasicTransformEvent & { target: fabric.FabricObject }) => {
+            const obj = e.target;
+            if (!obj || isBackgroundObject(obj)) return;
+
+            removeOverlay();
+
+            let snapped = { x: false, y: false };
+            const map = useMapStore.getState().currentMap;
+            if (enabled && map) {
+                const moving = obj instanceof fabric.ActiveSelection ? obj.getObjects() : [obj];
+                const others = canvas.getObjects()
+                    .filter((other) => other.visible && getModuleId(other) && !moving.includes(other))
+                    .map((other) => other.getBoundingRect());
+
+                const zoom = canvas.getZoom();
+                const guides = getSmartGuides(obj.getBoundingRect(), others, EDITOR_CONSTANTS.GUIDE.SNAP_THRESHOLD / zoom);
+                snapped = guides.snapped;
+                obj.set({
+                    left: (obj.left || 0) + guides.offset.x,
+                    top: (obj.top || 0) + guides.offset.y,
+                });
+
+                const unit = getMeasurementUnit(map);
+                overlay = createSmartGuideObject(
+                    guides,
+                    (pixels) => formatLength(pixelsToMeters(pixels, map.scale), unit),
+                    zoom
+                );
+                if (overlay) canvas.add(overlay);
+            }
+
+            if (snapToGrid) {
+                obj.set({
+                    left: snapped.x ? obj.left : Math.round((obj.left || 0) / gridSize) * gridSize,
+                    top: snapped.y ? obj.top : Math.round((obj.top || 0) / gridSize) * gridSize,
+                });
+            }
+            obj.setCoords();
+        };
+
+        canvas.on('object:moving', handleMoving);
+        canvas.on('mouse:up', removeOverlay);
+
+        return () => {
+            canvas.off('object:moving', handleMoving);
+            canvas.off('mouse:up', removeOverlay);
+            removeOverlay();
+        };
+    }, [canvasRef, canvasReady, enabled, snapToGrid, gridSize]);
+}
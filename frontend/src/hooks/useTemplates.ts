@@ -0,0 +1,69 @@
+/**
+ * useTemplates Hook
+ * The template library for the map editor: saved map layouts and built-in
+ * preconfigured modules, with mutations for saving and deleting layouts.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  getMapTemplates,
+  getModuleTemplates,
+  createMapTemplate,
+  deleteMapTemplate,
+  type CreateMapTemplateData,
+} from '@/services/api/templates';
+import { queryKeys } from '@/config/query-keys';
+import type { LibraryTemplate } from '@/utils/mapTemplates';
+
+interface UseTemplateLibraryReturn {
+  /** Map templates followed by module templates */
+  templates: LibraryTemplate[];
+  isLoading: boolean;
+}
+
+/**
+ * Hook for every template in the library. Searching is done on the client
+ * with filterTemplates so results update as the user types.
+ */
+export const useTemplateLibrary = (): UseTemplateLibraryReturn => {
+  const { data: mapTemplates = [], isLoading: isLoadingMaps } = useQuery({
+    queryKey: queryKeys.templates.maps(),
+    queryFn: () => getMapTemplates(),
+  });
+
+  const { data: moduleTemplates = [], isLoading: isLoadingModules } = useQuery({
+    queryKey: queryKeys.templates.modules(),
+    queryFn: () => getModuleTemplates(),
+  });
+
+  return {
+    templates: [...mapTemplates, ...moduleTemplates],
+    isLoading: isLoadingMaps || isLoadingModules,
+  };
+};
+
+const useInvalidateTemplates = () => {
+  const queryClient = useQueryClient();
+
+  return () => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.templates.all });
+  };
+};
+
+export const useCreateMapTemplate = () => {
+  const invalidate = useInvalidateTemplates();
+
+  return useMutation({
+    mutationFn: (data: CreateMapTemplateData) => createMapTemplate(data),
+    onSuccess: invalidate,
+  });
+};
+
+export const useDeleteMapTemplate = () => {
+  const invalidate = useInvalidateTemplates();
+
+  return useMutation({
+    mutationFn: (id: string) => deleteMapTemplate(id),
+    onSuccess: invalidate,
+  });
+};
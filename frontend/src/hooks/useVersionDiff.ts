@@ -0,0 +1,83 @@
+/**
+ * useVersionDiff Hook
+ * Differences between a saved version and the map being edited, overlaid on
+ * the canvas: added and changed modules are outlined, removed ones are shown
+ * where they were, and moved ones are linked to where they came from.
+ */
+
+import { useEffect, useMemo } from 'react';
+import * as fabric from 'fabric';
+import { useMapStore } from '@/stores/mapStore';
+import type { MapVersion } from '@/types';
+import { getModuleCenter, getModuleCorners } from '@/utils/mapGeometry';
+import { CHANGE_KIND_COLORS, diffMaps, type ModuleChange } from '@/utils/mapDiff';
+
+interface UseVersionDiffOptions {
+    canvasRef: React.MutableRefObject<fabric.Canvas | null>;
+    /** Version to compare against; nothing is drawn without one */
+    version: MapVersion | null;
+}
+
+/**
+ * Hook for the changes made to the map being edited since a version
+ * @returns Changes from the version to the current map
+ */
+export function useVersionDiff({ canvasRef, version }: UseVersionDiffOptions): ModuleChange[] {
+    const currentMap = useMapStore((state) => state.currentMap);
+
+    const changes = useMemo(
+        () => (currentMap && version ? diffMaps(version.snapshot, currentMap) : []),
+        [currentMap, version]
+    );
+
+    // Draw the overlay. The canvas is redrawn on every map change, so the
+    // overlay is recreated along with the changes.
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!canvas || changes.length === 0) return;
+
+        const zoom = canvas.getZoom();
+        const overlay = (corners: { x: number; y: number }[], color: string, ghost: boolean) =>
+            new fabric.Polygon(corners, {
+                fill: ghost ? '' : `${color}26`,
+                stroke: color,
+                strokeWidth: 2 / zoom,
+                strokeDashArray: ghost ? [6 / zoom, 4 / zoom] : undefined,
+                selectable: false,
+                evented: false,
+                objectCaching: false,
+            });
+
+        const objects: fabric.FabricObject[] = [];
+        changes.forEach(({ kind, before, after, fields }) => {
+            const color = CHANGE_KIND_COLORS[kind];
+            if (after) objects.push(overlay(getModuleCorners(after), color, false));
+
+            // Where removed and moved modules used to be
+            if (before && (!after || fields.includes('position') || fields.includes('rotation'))) {
+                objects.push(overlay(getModuleCorners(before), color, true));
+                if (after) {
+                    const from = getModuleCenter(before);
+                    const to = getModuleCenter(after);
+                    objects.push(new fabric.Line([from.x, from.y, to.x, to.y], {
+                        stroke: color,
+                        strokeWidth: 2 / zoom,
+                        strokeDashArray: [6 / zoom, 4 / zoom],
+                        selectable: false,
+                        evented: false,
+                    }));
+                }
+            }
+        });
+
+        objects.forEach((object) => canvas.add(object));
+        canvas.requestRenderAll();
+
+        return () => {
+            objects.forEach((object) => canvas.remove(object));
+            canvas.requestRenderAll();
+        };
+    }, [canvasRef, changes]);
+
+    return changes;
+}
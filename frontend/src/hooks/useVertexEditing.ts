@@ -0,0 +1,244 @@
+/**
+ * useVertexEditing Hook
+ * Vertex editing for roads and zones drawn as paths. Double-click a path to
+ * show a handle on each vertex: drag a handle to move the vertex,
+ * double-click the path to add one, and double-click a handle to remove it.
+ * Escape, or a click away from the path, ends editing.
+ *
+ * Each edit is one PropertyCommand. Editing bakes any rotation into the
+ * vertices, so the edited module is refitted with a rotation of 0.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import * as fabric from 'fabric';
+import { PropertyCommand, type Command, type PropertyChange } from '@/commands';
+import { useEditorStore } from '@/stores/editorStore';
+import { useMapStore } from '@/stores/mapStore';
+import type { Position } from '@/types';
+import { getModuleId } from '@/utils/moduleFactory';
+import {
+    MIN_PATH_POINTS,
+    fitPathPoints,
+    getAbsolutePoints,
+    getNearestSegment,
+    getPathStrokeWidth,
+    isPathModule,
+    type PathModule,
+} from '@/utils/modulePaths';
+
+interface UseVertexEditingOptions {
+    canvasRef: React.MutableRefObject<fabric.Canvas | null>;
+    /** Ref to latest executeCommand function */
+    executeCommandRef: React.MutableRefObject<((command: Command) => void) | undefined>;
+}
+
+interface UseVertexEditingReturn {
+    /** Module whose vertices are being edited */
+    editingId: string | null;
+    stopEditing: () => void;
+}
+
+type VertexHandle = fabric.Circle & { data?: { vertexIndex?: number } };
+
+const HANDLE_RADIUS = 6;
+const HANDLE_COLOR = '#2563eb';
+
+/** How close, in screen pixels, a double-click must be to a path to add a vertex */
+const SEGMENT_HIT_DISTANCE = 8;
+
+const getVertexIndex = (obj: fabric.FabricObject | undefined): number | null =>
+    (obj as VertexHandle | undefined)?.data?.vertexIndex ?? null;
+
+function getPathModule(id: string | null): PathModule | null {
+    const module = id ? useMapStore.getState().getModule(id) : undefined;
+    return module && isPathModule(module) ? module : null;
+}
+
+/**
+ * Hook for editing the vertices of path modules on the editor canvas
+ */
+export function useVertexEditing({ canvasRef, executeCommandRef }: UseVertexEditingOptions): UseVertexEditingReturn {
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const currentMap = useMapStore((state) => state.currentMap);
+    const activeTool = useEditorStore((state) => state.activeTool);
+
+    const stopEditing = useCallback(() => setEditingId(null), []);
+
+    // Other tools end vertex editing
+    useEffect(() => {
+        if (activeTool !== 'select') setEditingId(null);
+    }, [activeTool]);
+
+    // Double-clicking a path starts editing it
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!canvas || editingId || activeTool !== 'select') return;
+
+        const handleDoubleClick = (opt: fabric.TPointerEventInfo<MouseEvent>) => {
+            const moduleId = opt.target ? getModuleId(opt.target) : null;
+            const module = getPathModule(moduleId);
+            if (module && !module.locked) {
+                canvas.discardActiveObject();
+                setEditingId(module.id);
+            }
+        };
+
+        canvas.on('mouse:dblclick', handleDoubleClick);
+        return () => {
+            canvas.off('mouse:dblclick', handleDoubleClick);
+        };
+    }, [canvasRef, editingId, activeTool]);
+
+    // Show handles for the module being edited. The canvas is redrawn on
+    // every map change, so handles are recreated whenever the map changes.
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!canvas || !editingId) return;
+
+        const module = getPathModule(editingId);
+        if (!module || module.locked) {
+            setEditingId(null);
+            return;
+        }
+
+        const points = getAbsolutePoints(module);
+        const isClosed = module.type === 'zone';
+        const zoom = canvas.getZoom();
+        let preview: fabric.FabricObject | null = null;
+
+        // Anywhere on a wide road counts as on the path
+        const strokeWidth = getPathStrokeWidth(module, useMapStore.getState().currentMap?.scale ?? 1);
+        const hitDistance = Math.max(SEGMENT_HIT_DISTANCE / zoom, strokeWidth / 2);
+        const isOnPath = (point: Position) => {
+            const hit = getNearestSegment(points, point, isClosed);
+            return hit !== null && hit.distance <= hitDistance ? hit : null;
+        };
+
+        // The path itself stays put while its vertices are edited
+        const pathObject = canvas.getObjects().find((obj) => getModuleId(obj) === module.id);
+        pathObject?.set({ selectable: false, evented: false });
+
+        const handles = points.map((point, index) => {
+            const handle: VertexHandle = new fabric.Circle({
+                left: point.x,
+                top: point.y,
+                radius: HANDLE_RADIUS / zoom,
+                originX: 'center',
+                originY: 'center',
+                fill: '#ffffff',
+                stroke: HANDLE_COLOR,
+                strokeWidth: 2 / zoom,
+                hasControls: false,
+                hasBorders: false,
+                hoverCursor: 'grab',
+            });
+            handle.data = { vertexIndex: index };
+            canvas.add(handle);
+            return handle;
+        });
+        canvas.requestRenderAll();
+
+        const getHandlePoints = (): Position[] =>
+            handles.map((handle) => ({ x: handle.left ?? 0, y: handle.top ?? 0 }));
+
+        const commit = (absolutePoints: Position[]) => {
+            const executeCommand = executeCommandRef.current;
+            if (!executeCommand) {
+                console.warn('[useVertexEditing] executeCommand not available');
+                return;
+            }
+
+            const { position, size, points: relativePoints } = fitPathPoints(absolutePoints);
+            const change: PropertyChange = {
+                moduleId: module.id,
+                oldProps: { position: module.position, size: module.size, rotation: module.rotation, points: module.points },
+                newProps: { position, size, rotation: 0, points: relativePoints },
+            };
+            executeCommand(new PropertyCommand([change]));
+        };
+
+        // Outline of the path as it will be after the drag
+        const handleMoving = (e: fabric.BasicTransformEvent & { target: fabric.FabricObject }) => {
+            if (getVertexIndex(e.target) === null) return;
+
+            if (preview) canvas.remove(preview);
+            const options = {
+                stroke: HANDLE_COLOR,
+                strokeWidth: 1 / zoom,
+                strokeDashArray: [4 / zoom, 4 / zoom],
+                fill: '',
+                selectable: false,
+                evented: false,
+                objectCaching: false,
+            };
+            preview = isClosed
+                ? new fabric.Polygon(getHandlePoints(), options)
+                : new fabric.Polyline(getHandlePoints(), options);
+            canvas.add(preview);
+        };
+
+        const handleModified = (e: fabric.BasicTransformEvent & { target: fabric.FabricObject }) => {
+            if (getVertexIndex(e.target) === null) return;
+            commit(getHandlePoints());
+        };
+
+        const handleDoubleClick = (opt: fabric.TPointerEventInfo<MouseEvent>) => {
+            const vertexIndex = getVertexIndex(opt.target);
+
+            // Double-click a handle to remove its vertex
+            if (vertexIndex !== null) {
+                if (points.length > MIN_PATH_POINTS[module.type]) {
+                    commit(points.filter((_, index) => index !== vertexIndex));
+                }
+                return;
+            }
+
+            // Double-click the path to add a vertex there
+            const pointer = canvas.getPointer(opt.e);
+            const hit = isOnPath(pointer);
+            if (hit) {
+                commit([...points.slice(0, hit.index + 1), { x: pointer.x, y: pointer.y }, ...points.slice(hit.index + 1)]);
+            }
+        };
+
+        // Clicking away from the path ends editing
+        const handleMouseDown = (opt: fabric.TPointerEventInfo<fabric.TPointerEvent>) => {
+            if (getVertexIndex(opt.target) !== null) return;
+
+            if (!isOnPath(canvas.getPointer(opt.e))) {
+                setEditingId(null);
+            }
+        };
+
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape' || e.key === 'Enter') {
+                setEditingId(null);
+            }
+        };
+
+        canvas.on('object:moving', handleMoving);
+        canvas.on('object:modified', handleModified);
+        canvas.on('mouse:dblclick', handleDoubleClick);
+        canvas.on('mouse:down', handleMouseDown);
+        window.addEventListener('keydown', handleKeyDown);
+
+        return () => {
+            canvas.off('object:moving', handleMoving);
+            canvas.off('object:modified', handleModified);
+            canvas.off('mouse:dblclick', handleDoubleClick);
+            canvas.off('mouse:down', handleMouseDown);
+            window.removeEventListener('keydown', handleKeyDown);
+
+            // Handles may already be gone if the canvas was redrawn
+            canvas.discardActiveObject();
+            canvas.remove(...handles);
+            if (preview) canvas.remove(preview);
+            pathObject?.set({ selectable: true, evented: true });
+            canvas.requestRenderAll();
+        };
+        // Note: executeCommandRef is a ref that provides the latest executeCommand
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [canvasRef, editingId, currentMap]);
+
+    return { editingId, stopEditing };
+}
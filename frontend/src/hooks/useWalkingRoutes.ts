@@ -0,0 +1,114 @@
+/**
+ * useWalkingRoutes Hook
+ * Walking routes from each campsite on the map being edited to the nearest
+ * facility of each type. While shown, hovering a campsite on the canvas, or
+ * in a panel through the editor's hovered module, draws its routes.
+ */
+
+import { useEffect, useMemo } from 'react';
+import * as fabric from 'fabric';
+import { useEditorStore } from '@/stores/editorStore';
+import { useMapStore } from '@/stores/mapStore';
+import { getModuleColor, getModuleId } from '@/utils/moduleFactory';
+import { formatLength, getMeasurementUnit } from '@/utils/measurement';
+import { WALKING_FACILITY_LABELS, WALKING_FACILITY_TYPES, getWalkingRoutes } from '@/utils/walkingRoutes';
+import type { SiteRoutes } from '@/utils/walkingRoutes';
+
+interface UseWalkingRoutesOptions {
+    canvasRef: React.MutableRefObject<fabric.Canvas | null>;
+    /** Draw the hovered campsite's routes on the canvas */
+    showRoutes: boolean;
+}
+
+const LABEL_FONT_SIZE = 12;
+
+/**
+ * Hook for the walking routes of the map being edited
+ * @returns Routes keyed by campsite module ID
+ */
+export function useWalkingRoutes({ canvasRef, showRoutes }: UseWalkingRoutesOptions): Map<string, SiteRoutes> {
+    const currentMap = useMapStore((state) => state.currentMap);
+    const hoveredId = useEditorStore((state) => state.hoveredId);
+    const setHoveredId = useEditorStore((state) => state.setHoveredId);
+
+    const routes = useMemo(
+        () => (currentMap && showRoutes ? getWalkingRoutes(currentMap) : new Map<string, SiteRoutes>()),
+        [currentMap, showRoutes]
+    );
+
+    // Track the module under the pointer
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!canvas || !showRoutes) return;
+
+        const handleMouseOver = (opt: fabric.TPointerEventInfo<fabric.TPointerEvent>) => {
+            const moduleId = opt.target ? getModuleId(opt.target) : null;
+            if (moduleId) setHoveredId(moduleId);
+        };
+        const handleMouseOut = () => setHoveredId(null);
+
+        canvas.on('mouse:over', handleMouseOver);
+        canvas.on('mouse:out', handleMouseOut);
+
+        return () => {
+            canvas.off('mouse:over', handleMouseOver);
+            canvas.off('mouse:out', handleMouseOut);
+            setHoveredId(null);
+        };
+    }, [canvasRef, showRoutes, setHoveredId]);
+
+    // Draw the hovered site's routes. The canvas is redrawn on every map
+    // change, so the routes are recreated along with them.
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        const siteRoutes = hoveredId ? routes.get(hoveredId) : undefined;
+        if (!canvas || !currentMap || !showRoutes || !siteRoutes) return;
+
+        const zoom = canvas.getZoom();
+        const unit = getMeasurementUnit(currentMap);
+        const objects: fabric.FabricObject[] = [];
+
+        WALKING_FACILITY_TYPES.forEach((type) => {
+            const route = siteRoutes[type];
+            if (!route) return;
+
+            const color = getModuleColor(type);
+            const end = route.points[route.points.length - 1]!;
+            objects.push(
+                new fabric.Polyline(route.points.map((point) => ({ ...point })), {
+                    stroke: color,
+                    strokeWidth: 3 / zoom,
+                    strokeDashArray: [8 / zoom, 4 / zoom],
+                    strokeLineCap: 'round',
+                    strokeLineJoin: 'round',
+                    fill: '',
+                    selectable: false,
+                    evented: false,
+                    objectCaching: false,
+                }),
+                new fabric.FabricText(`${WALKING_FACILITY_LABELS[type]}: ${formatLength(route.distance, unit)}`, {
+                    left: end.x,
+                    top: end.y,
+                    originX: 'center',
+                    originY: 'bottom',
+                    fontSize: LABEL_FONT_SIZE / zoom,
+                    fontFamily: 'Arial',
+                    fill: color,
+                    backgroundColor: 'rgba(255, 255, 255, 0.85)',
+                    selectable: false,
+                    evented: false,
+                })
+            );
+        });
+
+        objects.forEach((object) => canvas.add(object));
+        canvas.requestRenderAll();
+
+        return () => {
+            objects.forEach((object) => canvas.remove(object));
+            canvas.requestRenderAll();
+        };
+    }, [canvasRef, currentMap, routes, hoveredId, showRoutes]);
+
+    return routes;
+}
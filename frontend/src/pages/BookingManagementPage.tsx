@@ -3,20 +3,22 @@
  * Staff/Manager interface for managing all bookings
  */
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { useQuery } from '@tanstack/react-query';
-import { Plus, Calendar as CalendarIcon, List, ChevronLeft, ChevronRight } from 'lucide-react';
+import { Plus, Calendar as CalendarIcon, List, ChevronLeft, ChevronRight, Users } from 'lucide-react';
 import { Button, Modal, Card } from '@/components/ui';
-import { BookingCalendar, BookingDetailView } from '@/features/bookings/components';
+import { BookingCalendar, BookingDetailView, GroupBookingsPanel } from '@/features/bookings/components';
 import BookingSearchBar from '@/features/bookings/components/BookingSearchBar';
 import ManualBookingForm from '@/features/bookings/components/ManualBookingForm';
-import { getBookings, getBookingsPaginated } from '@/services/api/bookings';
+import { getBookings, getBookingsPaginated, getBookingById } from '@/services/api/bookings';
+import { mockBookings } from '@/services/api/mock-bookings';
 import { queryKeys } from '@/config/query-keys';
 import { useBookingStore } from '@/stores/bookingStore';
 import { Booking, BookingStatus } from '@/types';
 import type { CalendarView } from '@/features/bookings/components/BookingCalendar';
 
-type ViewMode = 'calendar' | 'list';
+type ViewMode = 'calendar' | 'list' | 'groups';
 
 const BookingManagementPage: React.FC = () => {
   const [viewMode, setViewMode] = useState<ViewMode>('calendar');
@@ -29,6 +31,30 @@ const BookingManagementPage: React.FC = () => {
 
   const { selectedBooking, setSelectedBooking, filters, setSearchTerm: setStoreSearchTerm } = useBookingStore();
 
+  // Deep link from other pages (e.g. the map operations view): ?booking=<id>
+  const [searchParams, setSearchParams] = useSearchParams();
+  const linkedBookingId = searchParams.get('booking');
+
+  const { data: linkedBooking } = useQuery({
+    queryKey: queryKeys.bookings.detail(linkedBookingId ?? ''),
+    queryFn: async () => {
+      try {
+        return await getBookingById(linkedBookingId!);
+      } catch (error) {
+        console.warn('Failed to fetch booking from API, using mock data:', error);
+        return mockBookings.find((booking) => booking.id === linkedBookingId) ?? null;
+      }
+    },
+    enabled: !!linkedBookingId,
+  });
+
+  useEffect(() => {
+    if (linkedBooking) {
+      setSelectedBooking(linkedBooking);
+      setShowDetailModal(true);
+    }
+  }, [linkedBooking, setSelectedBooking]);
+
   // Fetch all bookings for calendar view (no pagination needed for calendar)
   const { data: allBookings = [], isLoading: isLoadingAll } = useQuery({
     queryKey: queryKeys.bookings.list({ ...filters, searchTerm }),
@@ -54,7 +80,7 @@ const BookingManagementPage: React.FC = () => {
   });
 
   const bookings = viewMode === 'calendar' ? allBookings : (paginatedData?.items || []);
-  const isLoading = viewMode === 'calendar' ? isLoadingAll : isLoadingPaginated;
+  const isLoading = viewMode === 'calendar' ? isLoadingAll : viewMode === 'list' && isLoadingPaginated;
   const totalPages = paginatedData?.totalPages || 1;
   const totalItems = paginatedData?.total || 0;
 
@@ -76,6 +102,14 @@ const BookingManagementPage: React.FC = () => {
     setShowDetailModal(true);
   };
 
+  const handleCloseDetail = () => {
+    setShowDetailModal(false);
+    setSelectedBooking(null);
+    if (linkedBookingId) {
+      setSearchParams({}, { replace: true });
+    }
+  };
+
   const handleCreateSuccess = (_bookingId: string) => {
     setShowCreateModal(false);
     setCurrentPage(1); // Reset to first page
@@ -272,6 +306,17 @@ const BookingManagementPage: React.FC = () => {
               <List className="w-4 h-4" />
               List
             </button>
+            <button
+              className={`px-4 py-2 text-sm flex items-center gap-2 border-l border-gray-300 dark:border-gray-600 transition-colors ${
+                viewMode === 'groups'
+                  ? 'bg-blue-500 dark:bg-blue-600 text-white'
+                  : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'
+              }`}
+              onClick={() => setViewMode('groups')}
+            >
+              <Users className="w-4 h-4" />
+              Groups
+            </button>
           </div>
           <Button onClick={() => setShowCreateModal(true)}>
             <Plus className="w-4 h-4 mr-2" />
@@ -296,6 +341,8 @@ const BookingManagementPage: React.FC = () => {
               onViewChange={setCalendarView}
               loading={isLoading}
             />
+          ) : viewMode === 'groups' ? (
+            <GroupBookingsPanel onBookingClick={handleBookingClick} />
           ) : (
             renderListView()
           )}
@@ -318,10 +365,7 @@ const BookingManagementPage: React.FC = () => {
       {/* Booking Detail Modal */}
       <Modal
         isOpen={showDetailModal}
-        onClose={() => {
-          setShowDetailModal(false);
-          setSelectedBooking(null);
-        }}
+        onClose={handleCloseDetail}
         title="Booking Details"
         size="xl"
       >
@@ -333,10 +377,7 @@ const BookingManagementPage: React.FC = () => {
               refetch();
               setShowDetailModal(false);
             }}
-            onClose={() => {
-              setShowDetailModal(false);
-              setSelectedBooking(null);
-            }}
+            onClose={handleCloseDetail}
           />
         )}
       </Modal>
@@ -1,18 +1,23 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
 import { useQuery } from '@tanstack/react-query';
 import { getSiteById } from '@/services/api/sites';
 import { queryKeys } from '@/config/query-keys';
 import { mockSites } from '@/services/api/mock-sites';
 import { BookingForm } from '@/features/bookings/components/BookingForm';
+import { SiteMapPicker } from '@/features/sites/components/SiteMapPicker';
+import { usePublicSites } from '@/features/sites/hooks/usePublicSites';
+import type { Site } from '@/types';
 
 const CustomerBookingPage: React.FC = () => {
   const navigate = useNavigate();
-  const [searchParams] = useSearchParams();
+  const [searchParams, setSearchParams] = useSearchParams();
   const siteId = searchParams.get('siteId');
   const checkInDate = searchParams.get('checkIn') || '';
   const checkOutDate = searchParams.get('checkOut') || '';
   const initialGuests = parseInt(searchParams.get('guests') || '2', 10);
+  const [isChangingSite, setIsChangingSite] = useState(false);
+  const { data: sites = [] } = usePublicSites();
 
   const { data: site, isLoading, error } = useQuery({
     queryKey: queryKeys.sites.detail(siteId || ''),
@@ -42,21 +47,33 @@ const CustomerBookingPage: React.FC = () => {
     navigate('/customer/sites');
   };
 
-  // Handle missing siteId
+  const handleSiteSelect = (selected: Site) => {
+    setSearchParams((params) => {
+      params.set('siteId', selected.id);
+      return params;
+    });
+    setIsChangingSite(false);
+  };
+
+  // Without a site, let the customer pick one on the map
   if (!siteId) {
     return (
-      <div className="max-w-7xl mx-auto">
-        <div className="text-center py-12">
-          <p className="text-lg font-medium text-gray-900 dark:text-gray-100 mb-2">
-            Site ID is required
-          </p>
+      <div className="max-w-7xl mx-auto py-8">
+        <div className="flex items-center justify-between mb-4">
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-gray-100">Choose your site</h1>
           <button
             onClick={() => navigate('/customer/sites')}
             className="text-blue-600 dark:text-blue-400 hover:underline"
           >
-            Back to Sites
+            Browse the site list
           </button>
         </div>
+        <SiteMapPicker
+          sites={sites}
+          checkInDate={checkInDate}
+          checkOutDate={checkOutDate}
+          onSelect={handleSiteSelect}
+        />
       </div>
     );
   }
@@ -112,7 +129,28 @@ const CustomerBookingPage: React.FC = () => {
 
   return (
     <div className="max-w-7xl mx-auto py-8">
+      <div className="flex justify-end mb-4">
+        <button
+          onClick={() => setIsChangingSite(!isChangingSite)}
+          className="text-blue-600 dark:text-blue-400 hover:underline"
+          aria-expanded={isChangingSite}
+        >
+          {isChangingSite ? 'Keep this site' : 'Choose a different site on the map'}
+        </button>
+      </div>
+      {isChangingSite && (
+        <div className="mb-6">
+          <SiteMapPicker
+            sites={sites}
+            checkInDate={checkInDate}
+            checkOutDate={checkOutDate}
+            selectedSiteId={site.id}
+            onSelect={handleSiteSelect}
+          />
+        </div>
+      )}
       <BookingForm
+        key={site.id}
         site={site}
         initialCheckInDate={checkInDate}
         initialCheckOutDate={checkOutDate}
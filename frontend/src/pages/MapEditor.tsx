@@ -7,25 +7,53 @@
 import React, { useRef, useEffect, useCallback, useState } from 'react';
 import { useParams, useNavigate, useLocation } from 'react-router-dom';
 import * as fabric from 'fabric';
-import { ArrowLeft, Save, Undo2, Redo2, ZoomIn, ZoomOut, Maximize2, Grid3X3, Magnet, Hand, Layers, Settings, Download, Ruler } from 'lucide-react';
+import { ArrowLeft, Save, Undo2, Redo2, ZoomIn, ZoomOut, Maximize2, Grid3X3, Magnet, Hand, Layers, Settings, Download, Upload, Ruler, Link2, Globe, BookmarkPlus, RulerDimensionLine, ShieldCheck, Zap, Footprints, History, AlignHorizontalSpaceAround, Image as ImageIcon, Grid2X2Plus, Map as MapIcon } from 'lucide-react';
 import { useMapStore } from '@/stores/mapStore';
 import { useEditorStore } from '@/stores/editorStore';
+import { useUIStore } from '@/stores/uiStore';
 import { PageLoader } from '@/components/ui/PageLoader';
 import { Tooltip } from '@/components/ui/Tooltip';
 import { createModuleObject, createNewModule, extractModuleChanges, getModuleId, isGridObject, updateModuleObject } from '@/utils/moduleFactory';
 
 // Import opacity constants for state checks
 const OPACITY_HIDDEN = 0.3;
-import { MoveCommand, TransformCommand, AddCommand, DeleteCommand } from '@/commands';
-import { useCommandHistory } from '@/hooks';
-import type { AnyModule, ModuleType, Position } from '@/types';
+import { MoveCommand, TransformCommand, AddCommand, DeleteCommand, BatchCommand, PropertyCommand, type Command, type MoveData } from '@/commands';
+import { useCommandHistory, useSiteBindingSync, useTemplateLibrary, usePathDrawing, useVertexEditing, useMeasureTool, useConnectTool, useLayoutCompliance, useWalkingRoutes, useMapVersions, useCreateMapVersion, useVersionDiff, useCollaboration, useCollaborationOverlay, useMapDraft, useModuleGroups, useSmartGuides, useBackgroundImage, useSaveMap } from '@/hooks';
+import { unbindModule } from '@/utils/siteBinding';
+import { getGroupModules, getTopLevelGroupId } from '@/utils/moduleGroups';
+import { instantiateTemplate } from '@/utils/mapTemplates';
+import { createMapData, EMPTY_MAP_METADATA } from '@/utils/mapLibrary';
+import { getMapById } from '@/services/api/maps';
+import { getMockMapById } from '@/services/api/mock-maps';
+import { mapDraftStorage } from '@/utils/indexedDBStorage';
+import { isPathModule, scalePathPoints } from '@/utils/modulePaths';
+import { createDimensionObject } from '@/utils/dimensionRenderer';
+import { createBackgroundObject, getBackgroundChanges, isBackgroundObject } from '@/utils/backgroundHandler';
+import { formatLength, getDimensionLength, getMeasurementUnit } from '@/utils/measurement';
+import { analyzeUtilityNetwork } from '@/utils/utilityNetwork';
+import { createConnectionObject, createUnsuppliedMarker } from '@/utils/utilityRenderer';
+import type { AnyModule, CampsiteMap, MapVersion, ModuleType, Position } from '@/types';
 import {
     ModuleToolbox,
     PropertiesPanel,
     LayersPanel,
+    SiteBindingPanel,
+    GeoReferencePanel,
+    BackgroundPanel,
+    MeasurementPanel,
+    CompliancePanel,
+    UtilityPanel,
+    WalkingRoutesPanel,
+    VersionHistoryPanel,
+    CollaboratorAvatars,
     Rulers,
+    Minimap,
     AlignmentToolbar,
     ExportDialog,
+    ImportDialog,
+    SaveTemplateDialog,
+    ArrayDialog,
+    DraftRecoveryDialog,
 } from '@/components/editor';
 
 // Constants
@@ -36,6 +64,10 @@ const DEFAULT_GRID_SIZE = 20;
 const ZOOM_IN_FACTOR = 1.1;
 const ZOOM_OUT_FACTOR = 0.9;
 const FIT_TO_SCREEN_PADDING = 0.9; // Padding factor for fit-to-screen calculation
+const ROTATION_TOLERANCE = 0.01; // Degrees of drift from taking a rotation back out of a selection
+
+/** Panels that share the right-hand side of the canvas; one is open at a time */
+type SidePanel = 'layers' | 'siteBindings' | 'geoReference' | 'background' | 'measurements' | 'compliance' | 'utilities' | 'routes' | 'history';
 
 const MapEditor: React.FC = () => {
     const { id } = useParams<{ id: string }>();
@@ -59,6 +91,7 @@ const MapEditor: React.FC = () => {
     const [zoom, setZoom] = useState(1);
     const [showGrid, setShowGrid] = useState(true);
     const [snapToGrid, setSnapToGrid] = useState(true);
+    const [smartGuides, setSmartGuides] = useState(true);
     const [selectedCount, setSelectedCount] = useState(0);
     const [isPanMode, setIsPanMode] = useState(false);
     const [containerReady, setContainerReady] = useState(false);
@@ -66,9 +99,14 @@ const MapEditor: React.FC = () => {
     // Panel visibility state
     const [showToolbox] = useState(true);
     const [showPropertiesPanel, setShowPropertiesPanel] = useState(false);
-    const [showLayersPanel, setShowLayersPanel] = useState(false);
+    const [sidePanel, setSidePanel] = useState<SidePanel | null>(null);
+    const [comparedVersionId, setComparedVersionId] = useState<string | null>(null);
     const [showRulers, setShowRulers] = useState(false);
+    const [showMinimap, setShowMinimap] = useState(false);
     const [showExportDialog, setShowExportDialog] = useState(false);
+    const [showImportDialog, setShowImportDialog] = useState(false);
+    const [showSaveTemplateDialog, setShowSaveTemplateDialog] = useState(false);
+    const [showArrayDialog, setShowArrayDialog] = useState(false);
 
     // Ref to the HTML canvas element for export
     const htmlCanvasRef = useRef<HTMLCanvasElement | null>(null);
@@ -88,7 +126,7 @@ const MapEditor: React.FC = () => {
     }, []);
 
     // Store state
-    const { currentMap, isLoading, isDirty, setMap, setLoading, markDirty, getModule } = useMapStore();
+    const { currentMap, isLoading, isDirty, setMap, setLoading, markDirty, markClean, getModule } = useMapStore();
 
     // Editor store state for selection sync and clipboard
     const {
@@ -101,22 +139,58 @@ const MapEditor: React.FC = () => {
         moduleToAdd,
         setModuleToAdd,
         activeTool,
+        setActiveTool,
+        layerVisibility,
+        toggleLayer,
     } = useEditorStore();
 
+    // Live editing with everyone else who has this map open
+    const collaboration = useCollaboration();
+
     // Command history management
     const {
         undo,
         redo,
         canUndo,
         canRedo,
+        clearHistory,
+        undoStack,
+        redoStack,
+        restoreHistory,
         executeCommand,
         executeCommandRef,
         undoRef,
         redoRef,
     } = useCommandHistory({
         onCommandExecuted: markDirty,
+        onCommandApplied: collaboration.broadcastCommand,
     });
 
+    // Named groups of modules, shown in the layers panel
+    const { groupModules, ungroup } = useModuleGroups({ executeCommand });
+
+    // Crash-safe drafts of unsaved work, offered back when the map is reopened
+    const { recovery, recoverDraft, discardDraft } = useMapDraft({
+        undoStack,
+        redoStack,
+        restoreHistory,
+        clearHistory,
+    });
+
+    // Keep bound campsite modules in step with their site records
+    const { pushModulesToSites } = useSiteBindingSync();
+
+    // Template library, for templates dropped from the toolbox
+    const { templates } = useTemplateLibrary();
+
+    // Traced background photo, loaded once rather than on every redraw
+    const backgroundImage = useBackgroundImage();
+
+    // Saving the map, with a version added to its history on every save
+    const { mutateAsync: saveMap } = useSaveMap();
+    const { mutateAsync: createVersion } = useCreateMapVersion();
+    const showToast = useUIStore((state) => state.showToast);
+
     // Initialize canvas - runs when container becomes ready
     useEffect(() => {
         if (!containerReady || !containerRef.current || canvasRef.current) return;
@@ -193,8 +267,37 @@ const MapEditor: React.FC = () => {
         };
         canvas.on('mouse:dblclick', handleDoubleClick);
 
+        /**
+         * Widen a click on a grouped module to its outermost group, so the
+         * group is moved and rotated as a unit
+         */
+        const selectClickedGroup = () => {
+            const map = useMapStore.getState().currentMap;
+            const active = canvas.getActiveObjects();
+            if (!map || active.length !== 1) return;
+
+            const moduleId = getModuleId(active[0]!);
+            const module = moduleId ? getModule(moduleId) : undefined;
+            const groupId = module ? getTopLevelGroupId(map, module) : undefined;
+            if (!groupId) return;
+
+            const objects = getGroupModules(map, groupId)
+                .filter(m => !m.locked)
+                .map(m => objectMapRef.current.get(m.id))
+                .filter((obj): obj is fabric.Group => obj !== undefined);
+            if (objects.length > 1) {
+                canvas.setActiveObject(new fabric.ActiveSelection(objects, { canvas }));
+                canvas.requestRenderAll();
+            }
+        };
+
         // Handle selection changes - sync with editorStore
-        const syncSelection = () => {
+        // Alt-click picks a single module out of a group
+        const syncSelection = (opt?: { e?: fabric.TPointerEvent }) => {
+            if (opt?.e && !opt.e.altKey) {
+                selectClickedGroup();
+            }
+
             const activeObjects = canvas.getActiveObjects();
             const validIds: string[] = [];
             const lockedIds: string[] = [];
@@ -325,8 +428,93 @@ const MapEditor: React.FC = () => {
         canvas.on('object:scaling', handleObjectScaling);
         canvas.on('object:rotating', handleObjectRotating);
 
+        /**
+         * Commit modules moved or transformed together, such as a group, as one step.
+         * The store still holds where they started.
+         */
+        const handleSelectionModified = (selection: fabric.ActiveSelection) => {
+            const executeCommand = executeCommandRef.current;
+            if (!executeCommand) return;
+
+            const objects = selection.getObjects();
+            // Leaving the selection gives each object back its own place on the canvas
+            canvas.discardActiveObject();
+
+            const moves: MoveData[] = [];
+            const commands: Command[] = [];
+            const moduleIds: string[] = [];
+
+            objects.forEach(obj => {
+                const moduleId = getModuleId(obj);
+                const module = moduleId ? getModule(moduleId) : undefined;
+                if (!module) return;
+                moduleIds.push(module.id);
+
+                const changes = extractModuleChanges(obj as fabric.Group);
+                const rotation = ((changes.rotation % 360) + 360) % 360;
+                const sizeChanged =
+                    module.size.width !== changes.size.width || module.size.height !== changes.size.height;
+                const rotationChanged = Math.abs(rotation - module.rotation) > ROTATION_TOLERANCE;
+
+                if (sizeChanged || rotationChanged) {
+                    commands.push(new TransformCommand({
+                        id: module.id,
+                        oldPosition: module.position,
+                        newPosition: changes.position,
+                        oldSize: module.size,
+                        newSize: changes.size,
+                        oldRotation: module.rotation,
+                        newRotation: rotationChanged ? rotation : module.rotation,
+                    }));
+                    if (sizeChanged && isPathModule(module)) {
+                        commands.push(new PropertyCommand([{
+                            moduleId: module.id,
+                            oldProps: { points: module.points },
+                            newProps: { points: scalePathPoints(module.points, module.size, changes.size) },
+                        }]));
+                    }
+                } else if (module.position.x !== changes.position.x || module.position.y !== changes.position.y) {
+                    moves.push({ id: module.id, oldPosition: module.position, newPosition: changes.position });
+                }
+            });
+
+            if (moves.length > 0) commands.unshift(new MoveCommand(moves));
+            if (commands.length === 1) {
+                executeCommand(commands[0]!);
+            } else if (commands.length > 1) {
+                executeCommand(new BatchCommand('Transform Selection', commands));
+            }
+
+            // Select the modules again once they are redrawn
+            if (rafIdRef.current !== null) {
+                cancelAnimationFrame(rafIdRef.current);
+            }
+            rafIdRef.current = requestAnimationFrame(() => {
+                rafIdRef.current = null;
+                const objectsToSelect = moduleIds
+                    .map(id => objectMapRef.current.get(id))
+                    .filter((obj): obj is fabric.Group => obj !== undefined);
+                if (objectsToSelect.length > 1 && canvasRef.current) {
+                    canvasRef.current.setActiveObject(new fabric.ActiveSelection(objectsToSelect, { canvas: canvasRef.current }));
+                    canvasRef.current.requestRenderAll();
+                }
+            });
+        };
+
         // Handle object modification end
         const handleObjectModified = (e: fabric.BasicTransformEvent & { target: fabric.FabricObject }) => {
+            if (e.target instanceof fabric.ActiveSelection) {
+                handleSelectionModified(e.target);
+                return;
+            }
+            // An unlocked background moved, resized or rotated on the canvas
+            if (e.target && isBackgroundObject(e.target)) {
+                const { currentMap: map, updateMap } = useMapStore.getState();
+                if (map?.background) {
+                    updateMap({ background: { ...map.background, ...getBackgroundChanges(e.target, map.background) } });
+                }
+                return;
+            }
             if (!e.target || !transformStartRef.current) return;
 
             try {
@@ -359,7 +547,7 @@ const MapEditor: React.FC = () => {
 
                 if (sizeChanged || rotationChanged) {
                     // Use TransformCommand for resize/rotate
-                    executeCommand(new TransformCommand({
+                    const transformCommand = new TransformCommand({
                         id: moduleId,
                         oldPosition: startState.position,
                         newPosition: changes.position,
@@ -367,7 +555,22 @@ const MapEditor: React.FC = () => {
                         newSize: changes.size,
                         oldRotation: startState.rotation,
                         newRotation: changes.rotation,
-                    }));
+                    });
+
+                    // Path vertices fill the module's size box, so a resize stretches them too
+                    const module = getModule(moduleId);
+                    if (sizeChanged && module && isPathModule(module)) {
+                        executeCommand(new BatchCommand('Transform', [
+                            transformCommand,
+                            new PropertyCommand([{
+                                moduleId,
+                                oldProps: { points: module.points },
+                                newProps: { points: scalePathPoints(module.points, module.size, changes.size) },
+                            }]),
+                        ]));
+                    } else {
+                        executeCommand(transformCommand);
+                    }
                 } else {
                     // Use MoveCommand for just position changes
                     executeCommand(new MoveCommand([{
@@ -589,8 +792,9 @@ const MapEditor: React.FC = () => {
         canvas.selection = !isPanMode && activeTool === 'select';
 
         // Update cursor
-        canvas.defaultCursor = activeTool === 'add' ? 'crosshair' : 'default';
-        canvas.hoverCursor = activeTool === 'add' ? 'crosshair' : 'move';
+        const isPlacing = activeTool === 'add' || activeTool === 'draw' || activeTool === 'measure' || activeTool === 'connect' || activeTool === 'calibrate';
+        canvas.defaultCursor = isPlacing ? 'crosshair' : 'default';
+        canvas.hoverCursor = isPlacing ? 'crosshair' : 'move';
 
         // Handle cursor change for locked modules
         // Track current cursor state to avoid unnecessary re-renders
@@ -618,9 +822,9 @@ const MapEditor: React.FC = () => {
         const handleMouseOut = () => {
             // Only reset if cursor was changed
             if (currentCursor === 'not-allowed') {
-                const newCursor = activeTool === 'add' ? 'crosshair' : 'default';
+                const newCursor = isPlacing ? 'crosshair' : 'default';
                 canvas.defaultCursor = newCursor;
-                canvas.hoverCursor = activeTool === 'add' ? 'crosshair' : 'move';
+                canvas.hoverCursor = isPlacing ? 'crosshair' : 'move';
                 currentCursor = newCursor;
                 canvas.renderAll();
             }
@@ -644,7 +848,7 @@ const MapEditor: React.FC = () => {
         // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [isPanMode, activeTool, moduleToAdd, setModuleToAdd]);
 
-    // Load map data (mock for now)
+    // Load map data
     useEffect(() => {
         if (!id) {
             console.error('[MapEditor] No map ID provided in route');
@@ -652,122 +856,40 @@ const MapEditor: React.FC = () => {
         }
 
         if (!currentMap || currentMap.id !== id) {
-            setLoading(true);
-            // TODO: Replace with actual API call
-            const timeoutId = setTimeout(() => {
-
-                if (id === 'new') {
-                    // Initialize blank map
-                    setMap({
-                        id: 'new',
+            if (id === 'new') {
+                // Initialize blank map
+                setMap({
+                    ...createMapData({
                         name: 'New Map',
                         description: 'Start designing your campsite',
-                        imageUrl: '',
-                        imageSize: { width: 800, height: 600 },
                         scale: 1,
-                        bounds: { minX: 0, minY: 0, maxX: 800, maxY: 600 },
-                        modules: [],
-                        metadata: {
-                            address: '',
-                            coordinates: { latitude: 0, longitude: 0 },
-                            timezone: 'UTC',
-                            capacity: 0,
-                            amenities: [],
-                            rules: [],
-                            emergencyContacts: [],
-                        },
-                        createdAt: new Date(),
-                        updatedAt: new Date(),
-                    });
-                } else {
-                    // Load sample map (mock)
-                    setMap({
-                        id,
-                        name: 'Sample Campsite',
-                        description: 'A sample campsite map',
-                        imageUrl: '',
-                        imageSize: { width: 1920, height: 1080 },
-                        scale: 1, // Changed from 10 to 1 for better default view
-                        bounds: { minX: 0, minY: 0, maxX: 1920, maxY: 1080 },
-                        modules: [
-                            {
-                                id: 'module-1',
-                                type: 'campsite',
-                                position: { x: 100, y: 100 },
-                                size: { width: 120, height: 80 },
-                                rotation: 0,
-                                zIndex: 1,
-                                locked: false,
-                                visible: true,
-                                metadata: {
-                                    name: 'Site A1',
-                                    capacity: 4,
-                                    amenities: ['fire_pit'],
-                                    pricing: { basePrice: 35, seasonalMultiplier: 1 },
-                                    accessibility: false,
-                                    electricHookup: true,
-                                    waterHookup: true,
-                                    sewerHookup: false,
-                                },
-                                createdAt: new Date(),
-                                updatedAt: new Date(),
-                            },
-                            {
-                                id: 'module-2',
-                                type: 'toilet',
-                                position: { x: 300, y: 150 },
-                                size: { width: 80, height: 80 },
-                                rotation: 0,
-                                zIndex: 2,
-                                locked: false,
-                                visible: true,
-                                metadata: {
-                                    name: 'Restroom A',
-                                    capacity: 10,
-                                    facilities: ['male', 'female', 'accessible'],
-                                    maintenanceSchedule: 'daily',
-                                    accessible: true,
-                                },
-                                createdAt: new Date(),
-                                updatedAt: new Date(),
-                            },
-                            {
-                                id: 'module-3',
-                                type: 'parking',
-                                position: { x: 500, y: 100 },
-                                size: { width: 200, height: 100 },
-                                rotation: 0,
-                                zIndex: 1,
-                                locked: false,
-                                visible: true,
-                                metadata: {
-                                    name: 'Parking Lot A',
-                                    capacity: 20,
-                                    vehicleTypes: ['car', 'rv'],
-                                    accessible: true,
-                                },
-                                createdAt: new Date(),
-                                updatedAt: new Date(),
-                            },
-                        ] as AnyModule[],
-                        metadata: {
-                            address: '123 Camp Road',
-                            coordinates: { latitude: 0, longitude: 0 },
-                            timezone: 'UTC',
-                            capacity: 100,
-                            amenities: [],
-                            rules: [],
-                            emergencyContacts: [],
-                        },
-                        createdAt: new Date(),
-                        updatedAt: new Date(),
-                    });
+                        metadata: EMPTY_MAP_METADATA,
+                    }),
+                    id: 'new',
+                });
+                return undefined;
+            }
+
+            let cancelled = false;
+            setLoading(true);
+
+            const loadMap = async () => {
+                try {
+                    return await getMapById(id);
+                } catch (error) {
+                    console.warn('Failed to fetch map from API, using mock data:', error);
+                    return getMockMapById(id);
                 }
+            };
+
+            loadMap().then((map) => {
+                if (cancelled) return;
+                setMap(map);
                 setLoading(false);
-            }, 500);
+            });
 
             return () => {
-                clearTimeout(timeoutId);
+                cancelled = true;
             };
         }
         return undefined;
@@ -803,14 +925,46 @@ const MapEditor: React.FC = () => {
             });
             canvas.add(background);
 
+            // Traced photo or plan, between the map area and the modules
+            if (currentMap.background && backgroundImage) {
+                canvas.add(createBackgroundObject(backgroundImage, currentMap.background));
+            }
+
+            // Service lines run underneath the modules they connect
+            const network = layerVisibility.utilities ? analyzeUtilityNetwork(currentMap) : null;
+            if (network) {
+                const modulesById = new Map(currentMap.modules.map(module => [module.id, module]));
+                const overloadedIds = new Set(network.circuits.filter(circuit => circuit.overloaded).map(circuit => circuit.supply.id));
+                network.connections.forEach((connection) => {
+                    canvas.add(createConnectionObject(
+                        connection,
+                        modulesById.get(connection.supplyId)!,
+                        modulesById.get(connection.siteId)!,
+                        overloadedIds.has(connection.supplyId)
+                    ));
+                });
+            }
+
             // Sort modules by zIndex and add to canvas
             const sortedModules = [...currentMap.modules].sort((a, b) => a.zIndex - b.zIndex);
             for (const module of sortedModules) {
-                const obj = createModuleObject(module);
+                const obj = createModuleObject(module, currentMap.scale);
                 canvas.add(obj);
                 objectMapRef.current.set(module.id, obj);
             }
 
+            // Sites missing a supply are marked above the modules
+            network?.unsupplied.forEach(({ site }) => canvas.add(createUnsuppliedMarker(site)));
+
+            // Pinned dimensions sit above the modules
+            if (layerVisibility.dimensions) {
+                const unit = getMeasurementUnit(currentMap);
+                (currentMap.dimensions ?? []).forEach((dimension) => {
+                    const label = formatLength(getDimensionLength(dimension, currentMap.scale), unit);
+                    canvas.add(createDimensionObject(dimension, label));
+                });
+            }
+
             canvas.requestRenderAll();
         } catch (error) {
             console.error('[MapEditor] Error rendering modules to canvas:', error);
@@ -820,7 +974,46 @@ const MapEditor: React.FC = () => {
                 isRenderingRef.current = false;
             });
         }
-    }, [currentMap, containerReady, isLoading]);
+    }, [currentMap, containerReady, isLoading, layerVisibility, backgroundImage]);
+
+    // Draw tool and vertex editing for roads and zones, the measure tool and
+    // compliance outlines. Declared after the render effect so their canvas
+    // objects are added on top of the modules.
+    usePathDrawing({ canvasRef, executeCommandRef, isPanMode });
+    const { editingId: editingPathId } = useVertexEditing({ canvasRef, executeCommandRef });
+    useMeasureTool({ canvasRef, isPanMode });
+    useConnectTool({ canvasRef, isPanMode });
+    useSmartGuides({ canvasRef, canvasReady: containerReady, enabled: smartGuides, snapToGrid, gridSize: DEFAULT_GRID_SIZE });
+    const complianceReport = useLayoutCompliance({ canvasRef, showOverlay: sidePanel === 'compliance' });
+    const walkingRoutes = useWalkingRoutes({ canvasRef, showRoutes: sidePanel === 'routes' });
+    const { versions } = useMapVersions(currentMap?.id);
+    const comparedVersion = versions.find((version) => version.id === comparedVersionId) ?? null;
+    const versionChanges = useVersionDiff({ canvasRef, version: sidePanel === 'history' ? comparedVersion : null });
+    useCollaborationOverlay({ canvasRef, collaboration });
+
+    // Reflect selections made in the side panels on the canvas. Selections
+    // made on the canvas come back unchanged and are left alone.
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!canvas) return;
+
+        const activeIds = canvas.getActiveObjects().map(obj => getModuleId(obj));
+        if (activeIds.length === selectedIds.length && selectedIds.every(id => activeIds.includes(id))) return;
+
+        const objects = selectedIds
+            .filter(id => !getModule(id)?.locked)
+            .map(id => objectMapRef.current.get(id))
+            .filter((obj): obj is fabric.Group => obj !== undefined);
+
+        if (objects.length === 0) {
+            canvas.discardActiveObject();
+        } else if (objects.length === 1) {
+            canvas.setActiveObject(objects[0]!);
+        } else {
+            canvas.setActiveObject(new fabric.ActiveSelection(objects, { canvas }));
+        }
+        canvas.requestRenderAll();
+    }, [selectedIds, getModule]);
 
     // Update canvas objects when module locked/visible state changes
     // Only update modules that have actually changed locked/visible state
@@ -913,48 +1106,98 @@ const MapEditor: React.FC = () => {
             canvas.sendObjectToBack(line);
         }
 
-        // Keep background at the back
+        // Keep background at the back, with any traced image just above it
         const bg = canvas.getObjects().find(obj => {
-            return !isGridObject(obj) && !getModuleId(obj);
+            return !isGridObject(obj) && !isBackgroundObject(obj) && !getModuleId(obj);
         });
         if (bg) {
             canvas.sendObjectToBack(bg);
         }
+        const image = canvas.getObjects().find(isBackgroundObject);
+        if (image) {
+            canvas.moveObjectTo(image, 1);
+        }
 
         canvas.requestRenderAll();
-    }, [showGrid, currentMap, containerReady]);
+    }, [showGrid, currentMap, containerReady, backgroundImage]);
 
-    // Snap to grid during movement
-    useEffect(() => {
-        const canvas = canvasRef.current;
-        if (!canvas) return;
+    /**
+     * Save handler for the current map
+     * Writes the map through the maps API and keeps a version of it in its history.
+     * The map only counts as saved once the API has it; until then it stays
+     * dirty and its draft is kept.
+     */
+    const handleSave = useCallback(async () => {
+        if (!currentMap || !isDirty) return;
+        const snapshot = currentMap;
 
-        const handleSnapToGrid = (e: fabric.BasicTransformEvent & { target: fabric.FabricObject }) => {
-            if (!snapToGrid || !e.target) return;
+        let saved: CampsiteMap;
+        try {
+            saved = await saveMap(snapshot);
+        } catch (error) {
+            console.error('[MapEditor] Error saving map:', error);
+            showToast('Failed to save the map. Your changes are kept as a draft on this device.', 'error');
+            return;
+        }
 
-            const gridSize = DEFAULT_GRID_SIZE;
-            const obj = e.target;
-            obj.set({
-                left: Math.round((obj.left || 0) / gridSize) * gridSize,
-                top: Math.round((obj.top || 0) / gridSize) * gridSize,
-            });
-        };
+        // Linked sites take the map's inventory edits only once the map itself is saved
+        let sitesUpdated = true;
+        try {
+            await pushModulesToSites(snapshot.modules);
+        } catch (error) {
+            console.error('[MapEditor] Error updating linked sites:', error);
+            showToast('The map was saved, but its linked sites could not be updated. Save again to retry.', 'error');
+            sitesUpdated = false;
+        }
 
-        canvas.on('object:moving', handleSnapToGrid);
+        try {
+            await createVersion({ mapId: saved.id, name: 'Saved', kind: 'save', snapshot: { ...snapshot, id: saved.id } });
+        } catch (error) {
+            console.error('[MapEditor] Error creating version:', error);
+            showToast('The map was saved, but this save could not be added to its version history.', 'warning');
+        }
 
-        return () => {
-            canvas.off('object:moving', handleSnapToGrid);
-        };
-    }, [snapToGrid]);
+        if (snapshot.id === 'new') {
+            mapDraftStorage.removeDraft('new');
+            setMap({ ...useMapStore.getState().currentMap ?? snapshot, id: saved.id });
+            navigate(`/admin/map-editor/${saved.id}`, { replace: true });
+        }
+        // Changes made while the save was in flight are still unsaved
+        if (sitesUpdated && useMapStore.getState().currentMap?.modules === snapshot.modules) {
+            markClean();
+        } else {
+            markDirty();
+        }
+    }, [currentMap, isDirty, saveMap, pushModulesToSites, showToast, createVersion, setMap, navigate, markClean, markDirty]);
 
     /**
-     * Save handler for the current map
-     * TODO: Implement actual save functionality
+     * Replace the map with a version from its history
+     * The map as it is now is kept as a checkpoint first, so restoring can be reversed
      */
-    const handleSave = useCallback(async () => {
-        // TODO: Implement actual save functionality
-        // console.log('Save map:', currentMap);
-    }, []);
+    const handleRestoreVersion = useCallback(async (version: MapVersion) => {
+        if (!currentMap) return;
+        if (!window.confirm(`Restore "${version.name}"? The map as it is now will be kept as a checkpoint.`)) {
+            return;
+        }
+
+        // Without the checkpoint the restore could not be reversed, so stop here
+        try {
+            await createVersion({
+                mapId: currentMap.id,
+                name: `Before restoring "${version.name}"`,
+                kind: 'checkpoint',
+                snapshot: currentMap,
+            });
+        } catch (error) {
+            console.error('[MapEditor] Error creating checkpoint:', error);
+            showToast('Could not keep a checkpoint of the current map, so the version was not restored.', 'error');
+            return;
+        }
+        setMap({ ...version.snapshot, id: currentMap.id, updatedAt: new Date() });
+        markDirty();
+        clearHistory();
+        setComparedVersionId(null);
+    }, [currentMap, createVersion, showToast, setMap, markDirty, clearHistory]);
 
     /**
      * Zoom in by ZOOM_STEP
@@ -1047,6 +1290,22 @@ const MapEditor: React.FC = () => {
         }
     }, [isDirty, navigate, location.pathname]);
 
+    /**
+     * Load an imported map file as a new, unsaved map
+     * Confirms first if the current map has unsaved changes
+     */
+    const handleOpenImportedMap = useCallback((map: CampsiteMap) => {
+        if (isDirty && !window.confirm('You have unsaved changes. Discard them and open the imported map?')) {
+            return;
+        }
+
+        const now = new Date();
+        setMap({ ...map, id: 'new', createdAt: now, updatedAt: now });
+        markDirty();
+        clearHistory();
+        navigate('/admin/map-editor/new');
+    }, [isDirty, setMap, markDirty, clearHistory, navigate]);
+
     // Keyboard shortcuts
     useEffect(() => {
         const handleKeyDown = (e: KeyboardEvent) => {
@@ -1065,12 +1324,27 @@ const MapEditor: React.FC = () => {
             } else if (isCtrl && e.key === 's') {
                 e.preventDefault();
                 handleSave();
+            } else if (isCtrl && e.key.toLowerCase() === 'g') {
+                // Group the selection, or ungroup the group it makes up
+                e.preventDefault();
+                if (e.shiftKey) {
+                    const groupIds = new Set(selectedIds.map(id => getModule(id)?.groupId).filter((id): id is string => !!id));
+                    groupIds.forEach(groupId => ungroup(groupId));
+                } else if (selectedIds.length > 0) {
+                    groupModules(selectedIds);
+                }
             } else if (e.key === 'g') {
                 setShowGrid(prev => !prev);
             } else if (e.key === 'Escape') {
                 canvasRef.current?.discardActiveObject();
                 canvasRef.current?.requestRenderAll();
                 setShowExportDialog(false);
+                setShowImportDialog(false);
+                setShowSaveTemplateDialog(false);
+                setShowArrayDialog(false);
+            } else if (e.key === 'A' && !isCtrl) {
+                // Repeat the selection in a grid or along a path
+                if (selectedIds.length > 0) setShowArrayDialog(true);
             } else if (e.key === 'a' && isCtrl) {
                 e.preventDefault();
                 const canvas = canvasRef.current;
@@ -1090,15 +1364,28 @@ const MapEditor: React.FC = () => {
                 handleZoomOut();
             } else if (e.key === 's' && !isCtrl) {
                 setSnapToGrid(prev => !prev);
+            } else if (e.key === 'S' && !isCtrl) {
+                setSmartGuides(prev => !prev);
             } else if (e.key === 'r') {
                 // Toggle rulers
                 setShowRulers(prev => !prev);
+            } else if (e.key === 'n' && !isCtrl) {
+                // Toggle minimap
+                setShowMinimap(prev => !prev);
             } else if (e.key === 'l') {
                 // Toggle layers panel
-                setShowLayersPanel(prev => !prev);
+                setSidePanel(prev => prev === 'layers' ? null : 'layers');
             } else if (e.key === 'p' && !isCtrl) {
                 // Toggle properties panel
                 setShowPropertiesPanel(prev => !prev);
+            } else if (e.key === 'm' && !isCtrl) {
+                // Toggle measure tool, showing its results
+                const isMeasuring = useEditorStore.getState().activeTool === 'measure';
+                setActiveTool(isMeasuring ? 'select' : 'measure');
+                if (!isMeasuring) setSidePanel('measurements');
+            } else if (e.key === 'u' && !isCtrl) {
+                // Toggle utility layer
+                toggleLayer('utilities');
             } else if (isCtrl && e.key === 'c') {
                 // Copy selected modules
                 e.preventDefault();
@@ -1132,9 +1419,10 @@ const MapEditor: React.FC = () => {
                 e.preventDefault();
                 const executeCommand = executeCommandRef.current;
                 if (clipboard.length > 0 && executeCommand) {
-                    // Create new modules with new IDs and offset positions
+                    // Create new modules with new IDs and offset positions.
+                    // Copies are unbound so the original keeps its site.
                     const newModules: AnyModule[] = clipboard.map(m => ({
-                        ...structuredClone(m),
+                        ...unbindModule(structuredClone(m)),
                         id: crypto.randomUUID(),
                         position: {
                             x: m.position.x + clipboardOffset.x,
@@ -1164,6 +1452,10 @@ const MapEditor: React.FC = () => {
                 // Open export dialog
                 e.preventDefault();
                 setShowExportDialog(true);
+            } else if (e.key === 'o' && isCtrl) {
+                // Open import dialog
+                e.preventDefault();
+                setShowImportDialog(true);
             }
         };
 
@@ -1171,7 +1463,7 @@ const MapEditor: React.FC = () => {
         return () => window.removeEventListener('keydown', handleKeyDown);
         // Note: executeCommandRef, redoRef, and undoRef are refs that don't need to be in dependencies
         // eslint-disable-next-line react-hooks/exhaustive-deps
-    }, [handleSave, zoom, handleZoomIn, handleZoomOut, handleToggleFullScreen, selectedIds, getModule, clipboard, clipboardOffset, copyToClipboard, cutToClipboard]);
+    }, [handleSave, zoom, handleZoomIn, handleZoomOut, handleToggleFullScreen, selectedIds, getModule, clipboard, clipboardOffset, copyToClipboard, cutToClipboard, setActiveTool, toggleLayer, groupModules, ungroup]);
 
     /**
      * Handle drag over event for module drop
@@ -1183,11 +1475,38 @@ const MapEditor: React.FC = () => {
     }, []);
 
     /**
-     * Handle drop event for adding modules from toolbox
-     * Creates a new module at the drop position
+     * Handle drop event for adding modules or templates from toolbox
+     * Creates a new module at the drop position, or places the template
+     * centred on it as a single undo step
      */
     const handleDrop = useCallback((e: React.DragEvent) => {
         e.preventDefault();
+
+        const templateId = e.dataTransfer.getData('application/x-template-id');
+        if (templateId) {
+            const template = templates.find((item) => item.id === templateId);
+            const canvas = canvasRef.current;
+            const executeCommand = executeCommandRef.current;
+            if (!template || !canvas || !executeCommand) {
+                console.warn('[MapEditor] Could not place template in drop:', templateId);
+                return;
+            }
+
+            const pointer = canvas.getPointer(e.nativeEvent);
+            const modules = instantiateTemplate(
+                template,
+                { x: pointer.x, y: pointer.y },
+                useMapStore.getState().currentMap?.modules ?? []
+            );
+            if (modules.length > 0) {
+                executeCommand(new BatchCommand(
+                    `Add template "${template.name}"`,
+                    modules.map((module) => new AddCommand([module]))
+                ));
+            }
+            return;
+        }
+
         const type = e.dataTransfer.getData('application/x-module-type');
 
         // Validate module type
@@ -1229,7 +1548,7 @@ const MapEditor: React.FC = () => {
         // Note: createNewModule is a function from store that doesn't need to be in dependencies
         // executeCommandRef is a ref that doesn't need to be in dependencies
         // eslint-disable-next-line react-hooks/exhaustive-deps
-    }, [setModuleToAdd]);
+    }, [setModuleToAdd, templates]);
 
     // Show loader when:
     // 1. isLoading is true (explicitly loading)
@@ -1294,6 +1613,7 @@ const MapEditor: React.FC = () => {
                             </span>
                         )}
                     </div>
+                    <CollaboratorAvatars collaborators={collaboration.collaborators} />
                 </div>
 
                 {/* Center: Tools */}
@@ -1389,6 +1709,17 @@ const MapEditor: React.FC = () => {
                             <Magnet className="w-4 h-4" />
                         </button>
                     </Tooltip>
+                    <Tooltip content={`Smart Guides (Shift+S) - ${smartGuides ? 'On' : 'Off'}`} placement="bottom">
+                        <button
+                            onClick={() => setSmartGuides(!smartGuides)}
+                            title={`Smart Guides (Shift+S) - ${smartGuides ? 'On' : 'Off'}`}
+                            className={`p-2 rounded-md transition-colors ${smartGuides
+                                ? 'bg-pink-100 dark:bg-pink-900 text-pink-600 dark:text-pink-400'
+                                : 'hover:bg-white dark:hover:bg-gray-600 text-gray-700 dark:text-gray-200'
+                                }`}>
+                            <AlignHorizontalSpaceAround className="w-4 h-4" />
+                        </button>
+                    </Tooltip>
                     <Tooltip content={`Toggle Rulers (R) - ${showRulers ? 'On' : 'Off'}`} placement="bottom">
                         <button
                             onClick={() => setShowRulers(!showRulers)}
@@ -1400,20 +1731,43 @@ const MapEditor: React.FC = () => {
                             <Ruler className="w-4 h-4" />
                         </button>
                     </Tooltip>
-
-                    <div className="w-px h-6 bg-gray-300 dark:bg-gray-600 mx-1" />
-
-                    <Tooltip content={`Layers Panel - ${showLayersPanel ? 'On' : 'Off'}`} placement="bottom">
+                    <Tooltip content={`Toggle Minimap (N) - ${showMinimap ? 'On' : 'Off'}`} placement="bottom">
                         <button
-                            onClick={() => setShowLayersPanel(!showLayersPanel)}
-                            title={`Layers Panel - ${showLayersPanel ? 'On' : 'Off'}`}
-                            className={`p-2 rounded-md transition-colors ${showLayersPanel
-                                ? 'bg-indigo-100 dark:bg-indigo-900 text-indigo-600 dark:text-indigo-400'
+                            onClick={() => setShowMinimap(!showMinimap)}
+                            title={`Toggle Minimap (N) - ${showMinimap ? 'On' : 'Off'}`}
+                            className={`p-2 rounded-md transition-colors ${showMinimap
+                                ? 'bg-teal-100 dark:bg-teal-900 text-teal-600 dark:text-teal-400'
                                 : 'hover:bg-white dark:hover:bg-gray-600 text-gray-700 dark:text-gray-200'
                                 }`}>
-                            <Layers className="w-4 h-4" />
+                            <MapIcon className="w-4 h-4" />
                         </button>
                     </Tooltip>
+
+                    <div className="w-px h-6 bg-gray-300 dark:bg-gray-600 mx-1" />
+
+                    {([
+                        { panel: 'layers', label: 'Layers Panel', Icon: Layers },
+                        { panel: 'siteBindings', label: 'Site Bindings', Icon: Link2 },
+                        { panel: 'geoReference', label: 'Geo-Reference', Icon: Globe },
+                        { panel: 'background', label: 'Background', Icon: ImageIcon },
+                        { panel: 'measurements', label: 'Measurements (M)', Icon: RulerDimensionLine },
+                        { panel: 'compliance', label: 'Compliance Check', Icon: ShieldCheck },
+                        { panel: 'utilities', label: 'Utilities', Icon: Zap },
+                        { panel: 'routes', label: 'Walking Routes', Icon: Footprints },
+                        { panel: 'history', label: 'Version History', Icon: History },
+                    ] as const).map(({ panel, label, Icon }) => (
+                        <Tooltip key={panel} content={`${label} - ${sidePanel === panel ? 'On' : 'Off'}`} placement="bottom">
+                            <button
+                                onClick={() => setSidePanel(sidePanel === panel ? null : panel)}
+                                title={`${label} - ${sidePanel === panel ? 'On' : 'Off'}`}
+                                className={`p-2 rounded-md transition-colors ${sidePanel === panel
+                                    ? 'bg-indigo-100 dark:bg-indigo-900 text-indigo-600 dark:text-indigo-400'
+                                    : 'hover:bg-white dark:hover:bg-gray-600 text-gray-700 dark:text-gray-200'
+                                    }`}>
+                                <Icon className="w-4 h-4" />
+                            </button>
+                        </Tooltip>
+                    ))}
                     <Tooltip content={`Properties Panel - ${showPropertiesPanel ? 'On' : 'Off'}`} placement="bottom">
                         <button
                             onClick={() => setShowPropertiesPanel(!showPropertiesPanel)}
@@ -1433,6 +1787,31 @@ const MapEditor: React.FC = () => {
                             <Download className="w-4 h-4" />
                         </button>
                     </Tooltip>
+                    <Tooltip content="Import Map" placement="bottom">
+                        <button
+                            onClick={() => setShowImportDialog(true)}
+                            title="Import Map"
+                            className="p-2 rounded-md hover:bg-white dark:hover:bg-gray-600 transition-colors text-gray-700 dark:text-gray-200">
+                            <Upload className="w-4 h-4" />
+                        </button>
+                    </Tooltip>
+                    <Tooltip content="Save as Template" placement="bottom">
+                        <button
+                            onClick={() => setShowSaveTemplateDialog(true)}
+                            title="Save as Template"
+                            className="p-2 rounded-md hover:bg-white dark:hover:bg-gray-600 transition-colors text-gray-700 dark:text-gray-200">
+                            <BookmarkPlus className="w-4 h-4" />
+                        </button>
+                    </Tooltip>
+                    <Tooltip content="Array (Shift+A)" placement="bottom">
+                        <button
+                            onClick={() => setShowArrayDialog(true)}
+                            disabled={selectedCount === 0}
+                            title="Array (Shift+A)"
+                            className="p-2 rounded-md hover:bg-white dark:hover:bg-gray-600 transition-colors text-gray-700 dark:text-gray-200 disabled:opacity-50 disabled:cursor-not-allowed">
+                            <Grid2X2Plus className="w-4 h-4" />
+                        </button>
+                    </Tooltip>
                 </div>
 
                 {/* Right: Save */}
@@ -1482,11 +1861,55 @@ const MapEditor: React.FC = () => {
                     >
                         <canvas id="map-canvas" ref={htmlCanvasRef} />
                     </div>
+
+                    {/* Minimap navigator (bottom-right of the canvas) */}
+                    {showMinimap && (
+                        <Minimap canvas={canvasRef.current} />
+                    )}
                 </div>
 
                 {/* Right-side panels */}
-                {showLayersPanel && (
-                    <LayersPanel onClose={() => setShowLayersPanel(false)} />
+                {sidePanel === 'layers' && (
+                    <LayersPanel onClose={() => setSidePanel(null)} executeCommand={executeCommand} />
+                )}
+                {sidePanel === 'siteBindings' && (
+                    <SiteBindingPanel
+                        onClose={() => setSidePanel(null)}
+                        executeCommand={executeCommand}
+                    />
+                )}
+                {sidePanel === 'geoReference' && (
+                    <GeoReferencePanel onClose={() => setSidePanel(null)} />
+                )}
+                {sidePanel === 'background' && (
+                    <BackgroundPanel onClose={() => setSidePanel(null)} />
+                )}
+                {sidePanel === 'measurements' && (
+                    <MeasurementPanel onClose={() => setSidePanel(null)} />
+                )}
+                {sidePanel === 'compliance' && (
+                    <CompliancePanel report={complianceReport} onClose={() => setSidePanel(null)} />
+                )}
+                {sidePanel === 'utilities' && (
+                    <UtilityPanel onClose={() => setSidePanel(null)} />
+                )}
+                {sidePanel === 'routes' && (
+                    <WalkingRoutesPanel
+                        routes={walkingRoutes}
+                        onClose={() => setSidePanel(null)}
+                        executeCommand={executeCommand}
+                    />
+                )}
+                {sidePanel === 'history' && (
+                    <VersionHistoryPanel
+                        versions={versions}
+                        comparedVersionId={comparedVersionId}
+                        onCompare={setComparedVersionId}
+                        changes={versionChanges}
+                        onRestore={handleRestoreVersion}
+                        onClose={() => setSidePanel(null)}
+                        executeCommand={executeCommand}
+                    />
                 )}
 
                 {/* Properties Panel with Tab */}
@@ -1524,6 +1947,34 @@ const MapEditor: React.FC = () => {
                 canvasRef={htmlCanvasRef}
             />
 
+            {/* Import Dialog */}
+            <ImportDialog
+                isOpen={showImportDialog}
+                onClose={() => setShowImportDialog(false)}
+                executeCommand={executeCommand}
+                onOpenAsNewMap={handleOpenImportedMap}
+            />
+
+            {/* Save Template Dialog */}
+            <SaveTemplateDialog
+                isOpen={showSaveTemplateDialog}
+                onClose={() => setShowSaveTemplateDialog(false)}
+            />
+
+            {/* Array Dialog */}
+            <ArrayDialog
+                isOpen={showArrayDialog}
+                onClose={() => setShowArrayDialog(false)}
+                executeCommand={executeCommand}
+            />
+
+            {/* Draft Recovery Dialog */}
+            <DraftRecoveryDialog
+                recovery={recovery}
+                onRecover={recoverDraft}
+                onDiscard={discardDraft}
+            />
+
             {/* Status Bar */}
             <div className="flex items-center justify-between px-4 py-1 bg-white dark:bg-gray-800 border-t border-gray-200 dark:border-gray-700 text-xs text-gray-500 dark:text-gray-400">
                 <div className="flex items-center gap-4">
@@ -1531,8 +1982,21 @@ const MapEditor: React.FC = () => {
                     <span>Selected: {selectedCount}</span>
                     <span>Grid: {DEFAULT_GRID_SIZE}px</span>
                     <span>Snap: {snapToGrid ? 'On' : 'Off'}</span>
+                    <span>Smart Guides: {smartGuides ? 'On' : 'Off'}</span>
                 </div>
                 <div className="flex items-center gap-4">
+                    {activeTool === 'measure' && (
+                        <span>Measuring: drag to measure, Enter to pin, Esc to clear</span>
+                    )}
+                    {activeTool === 'calibrate' && (
+                        <span>Calibrating: drag along something of known length, Esc to clear</span>
+                    )}
+                    {activeTool === 'connect' && (
+                        <span>Connecting: drag from a supply to a campsite, Esc to finish</span>
+                    )}
+                    {editingPathId && (
+                        <span>Editing vertices: drag to move, double-click the path to add, double-click a vertex to remove, Esc to finish</span>
+                    )}
                     <span>Zoom: {Math.round(zoom * 100)}%</span>
                     <span>Pan: Alt+Drag</span>
                 </div>
@@ -0,0 +1,390 @@
+/**
+ * MapOperationsPage
+ * Read-only front desk view of a campsite map, coloured by live site occupancy,
+ * with an availability timeline for looking ahead and placing groups.
+ * Shows the published map unless a map ID is given.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { format } from 'date-fns';
+import { dateUtils } from '@shared/utils';
+import { CalendarDays, ChevronLeft, ChevronRight, Edit, Map as MapIcon, Radio, Users } from 'lucide-react';
+import { Badge, Button, Card, Input } from '@/components/ui';
+import { PageLoader } from '@/components/ui/PageLoader';
+import { useMapOccupancy } from '@/hooks/useMapOccupancy';
+import { useMapAvailability } from '@/hooks/useMapAvailability';
+import { useWebSocket } from '@/hooks/useWebSocket';
+import { useAuthStore } from '@/stores/authStore';
+import { UserRole } from '@/types';
+import type { AnyModule } from '@/types';
+import { getModuleColor } from '@/utils/moduleFactory';
+import { getAbsolutePoints, getPathStrokeWidth, isPathModule } from '@/utils/modulePaths';
+import {
+  OCCUPANCY_COLORS,
+  OCCUPANCY_LABELS,
+  OCCUPANCY_STATES,
+  type SiteOccupancy,
+} from '@/utils/siteOccupancy';
+import {
+  AVAILABILITY_COLORS,
+  AVAILABILITY_LABELS,
+  TIMELINE_DAYS,
+  findContiguousArea,
+  type AvailabilityState,
+} from '@/utils/mapAvailability';
+
+type ViewMode = 'occupancy' | 'availability';
+
+const AVAILABILITY_STATES: AvailabilityState[] = ['available', 'booked', 'maintenance', 'unlinked'];
+
+/** Default largest gap between sites in a group, in metres */
+const DEFAULT_GROUP_GAP = 20;
+
+/** Wait for the timeline slider to settle before asking the API about the new date */
+const TIMELINE_DEBOUNCE_MS = 300;
+
+const MapOperationsPage: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuthStore();
+  const { isConnected } = useWebSocket();
+  const { map, sites, bookings, occupancy, counts, today, isLoading, lastUpdated } = useMapOccupancy(id);
+
+  const [viewMode, setViewMode] = useState<ViewMode>('occupancy');
+  const [dayOffset, setDayOffset] = useState(0);
+  const [checkedDayOffset, setCheckedDayOffset] = useState(0);
+  const [groupSize, setGroupSize] = useState(4);
+  const [groupGap, setGroupGap] = useState(DEFAULT_GROUP_GAP);
+  const [groupArea, setGroupArea] = useState<string[] | null>(null);
+
+  const selectedDate = dateUtils.addDays(today, dayOffset);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setCheckedDayOffset(dayOffset), TIMELINE_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [dayOffset]);
+
+  const { availability, availableIds, isChecking } = useMapAvailability({
+    modules: map?.modules ?? [],
+    sites,
+    bookings,
+    date: dateUtils.addDays(today, checkedDayOffset),
+    enabled: viewMode === 'availability',
+  });
+  // Until the answers for the chosen night are in, availableIds may describe another night
+  const isAvailabilityPending = isChecking || checkedDayOffset !== dayOffset;
+
+  const handleDayChange = (offset: number) => {
+    setDayOffset(Math.min(Math.max(offset, 0), TIMELINE_DAYS - 1));
+    setGroupArea(null);
+  };
+
+  const handleFindArea = () => {
+    if (!map || isAvailabilityPending) return;
+    // Map scale is pixels per metre
+    setGroupArea(findContiguousArea(map.modules, availableIds, groupSize, groupGap * map.scale) ?? []);
+  };
+
+  if (isLoading) {
+    return <PageLoader />;
+  }
+
+  if (!map) {
+    return (
+      <div className="p-6 max-w-7xl mx-auto">
+        <Card className="p-6 dark:bg-gray-800 dark:border-gray-700">
+          <div className="flex flex-col items-center justify-center min-h-[400px] text-center">
+            <MapIcon className="w-16 h-16 text-gray-400 dark:text-gray-600 mb-4" />
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100 mb-2">No published map</h2>
+            <p className="text-gray-600 dark:text-gray-400 max-w-md mb-6">
+              The site map appears here once a map has been published from the maps list.
+            </p>
+            {user?.role === UserRole.ADMIN && (
+              <Button variant="outline" onClick={() => navigate('/admin/maps')}>
+                Go to Maps
+              </Button>
+            )}
+          </div>
+        </Card>
+      </div>
+    );
+  }
+
+  const handleSiteClick = (entry?: SiteOccupancy) => {
+    if (viewMode === 'occupancy' && entry?.booking) {
+      navigate(`/manage/bookings?booking=${entry.booking.id}`);
+    }
+  };
+
+  const getTooltip = (module: AnyModule, entry?: SiteOccupancy): string => {
+    if (viewMode === 'availability') {
+      const state = availability.get(module.id);
+      return state ? `${module.metadata.name}\n${AVAILABILITY_LABELS[state]}` : module.metadata.name;
+    }
+    if (!entry) return module.metadata.name;
+    const lines = [module.metadata.name, OCCUPANCY_LABELS[entry.state]];
+    if (entry.booking) {
+      const guest = entry.booking.user
+        ? `${entry.booking.user.firstName} ${entry.booking.user.lastName}`
+        : entry.booking.bookingNumber;
+      lines.push(
+        `${guest}: ${format(new Date(entry.booking.checkInDate), 'MMM d')} - ${format(new Date(entry.booking.checkOutDate), 'MMM d')}`,
+        'Click to open booking'
+      );
+    }
+    return lines.join('\n');
+  };
+
+  const renderModule = (module: AnyModule) => {
+    // Roads and zones follow their points rather than filling their bounding box
+    if (isPathModule(module)) {
+      const color = getModuleColor(module.type);
+      const points = getAbsolutePoints(module).map((point) => `${point.x},${point.y}`).join(' ');
+      const strokeWidth = getPathStrokeWidth(module, map.scale);
+      return module.type === 'zone'
+        ? <polygon key={module.id} points={points} fill={color} fillOpacity={0.25} stroke={color} strokeWidth={strokeWidth} pointerEvents="none" />
+        : <polyline key={module.id} points={points} fill="none" stroke={color} strokeOpacity={0.5} strokeWidth={strokeWidth} strokeLinecap="round" strokeLinejoin="round" pointerEvents="none" />;
+    }
+
+    const entry = occupancy.get(module.id);
+    const state = availability.get(module.id);
+    const { x, y } = module.position;
+    const { width, height } = module.size;
+    const clickable = viewMode === 'occupancy' && !!entry?.booking;
+    const inGroupArea = viewMode === 'availability' && !!groupArea?.includes(module.id);
+
+    let fill = getModuleColor(module.type);
+    if (viewMode === 'occupancy' && entry) fill = OCCUPANCY_COLORS[entry.state];
+    if (viewMode === 'availability' && state) fill = AVAILABILITY_COLORS[state];
+    const isCampsite = module.type === 'campsite';
+    const stateLabel = viewMode === 'availability'
+      ? state && AVAILABILITY_LABELS[state]
+      : entry && OCCUPANCY_LABELS[entry.state];
+
+    return (
+      <g
+        key={module.id}
+        transform={`rotate(${module.rotation} ${x + width / 2} ${y + height / 2})`}
+        onClick={() => handleSiteClick(entry)}
+        className={clickable ? 'cursor-pointer' : undefined}
+        role={clickable ? 'button' : undefined}
+        aria-label={stateLabel ? `${module.metadata.name}: ${stateLabel}` : module.metadata.name}
+      >
+        <title>{getTooltip(module, entry)}</title>
+        <rect
+          x={x}
+          y={y}
+          width={width}
+          height={height}
+          rx={4}
+          fill={fill}
+          fillOpacity={isCampsite ? 1 : 0.5}
+          stroke={inGroupArea ? '#2563eb' : '#374151'}
+          strokeWidth={inGroupArea ? 4 : 1}
+        />
+        {width >= 40 && (
+          <text
+            x={x + width / 2}
+            y={y + height / 2}
+            textAnchor="middle"
+            dominantBaseline="middle"
+            fontSize={10}
+            fill="#1f2937"
+            pointerEvents="none"
+          >
+            {module.metadata.name.length > 12 ? `${module.metadata.name.slice(0, 11)}…` : module.metadata.name}
+          </text>
+        )}
+      </g>
+    );
+  };
+
+  const visibleModules = map.modules
+    .filter((module) => module.visible)
+    .sort((a, b) => a.zIndex - b.zIndex);
+
+  const availabilityCounts = AVAILABILITY_STATES.reduce(
+    (totals, state) => ({ ...totals, [state]: [...availability.values()].filter((value) => value === state).length }),
+    {} as Record<AvailabilityState, number>
+  );
+
+  const legend = viewMode === 'occupancy'
+    ? OCCUPANCY_STATES.map((state) => ({ key: state, label: OCCUPANCY_LABELS[state], color: OCCUPANCY_COLORS[state], count: counts[state] }))
+    : AVAILABILITY_STATES.map((state) => ({ key: state, label: AVAILABILITY_LABELS[state], color: AVAILABILITY_COLORS[state], count: availabilityCounts[state] }));
+
+  const renderModeButton = (mode: ViewMode, label: string, Icon: React.ElementType, first: boolean) => (
+    <button
+      className={`px-4 py-2 text-sm flex items-center gap-2 transition-colors ${first ? '' : 'border-l border-gray-300 dark:border-gray-600'} ${
+        viewMode === mode
+          ? 'bg-blue-500 dark:bg-blue-600 text-white'
+          : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'
+      }`}
+      onClick={() => setViewMode(mode)}
+    >
+      <Icon className="w-4 h-4" />
+      {label}
+    </button>
+  );
+
+  return (
+    <div className="p-6 max-w-7xl mx-auto">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100">{map.name}</h1>
+          <p className="text-gray-600 dark:text-gray-400">
+            {viewMode === 'occupancy'
+              ? `Site occupancy for ${format(today, 'EEEE, MMM d')}`
+              : `Availability for the night of ${format(selectedDate, 'EEEE, MMM d')}`}
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <div className="flex border border-gray-300 dark:border-gray-600 rounded-md overflow-hidden">
+            {renderModeButton('occupancy', 'Today', Radio, true)}
+            {renderModeButton('availability', 'Availability', CalendarDays, false)}
+          </div>
+          <Badge variant={isConnected ? 'success' : 'secondary'}>
+            <Radio className="w-3 h-3 mr-1 inline" />
+            {isConnected ? 'Live' : 'Offline'}
+          </Badge>
+          {lastUpdated && (
+            <span className="text-sm text-gray-500 dark:text-gray-400">
+              Updated {format(lastUpdated, 'HH:mm:ss')}
+            </span>
+          )}
+          {user?.role === UserRole.ADMIN && (
+            <Button variant="outline" onClick={() => navigate(`/admin/map-editor/${map.id}`)}>
+              <Edit className="w-4 h-4 mr-2" />
+              Edit Map
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {viewMode === 'availability' && (
+        <Card className="p-4 mb-6 dark:bg-gray-800 dark:border-gray-700">
+          <div className="flex items-center gap-3">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => handleDayChange(dayOffset - 1)}
+              disabled={dayOffset === 0}
+              ariaLabel="Previous day"
+            >
+              <ChevronLeft className="w-4 h-4" />
+            </Button>
+            <input
+              type="range"
+              min={0}
+              max={TIMELINE_DAYS - 1}
+              value={dayOffset}
+              onChange={(e) => handleDayChange(Number(e.target.value))}
+              className="flex-1 accent-blue-600"
+              aria-label="Date"
+              aria-valuetext={format(selectedDate, 'MMMM d, yyyy')}
+            />
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => handleDayChange(dayOffset + 1)}
+              disabled={dayOffset === TIMELINE_DAYS - 1}
+              ariaLabel="Next day"
+            >
+              <ChevronRight className="w-4 h-4" />
+            </Button>
+            <span className="w-28 text-right text-sm font-medium text-gray-900 dark:text-gray-100">
+              {format(selectedDate, 'EEE, MMM d')}
+            </span>
+          </div>
+          <div className="flex justify-between mt-1 text-xs text-gray-500 dark:text-gray-400">
+            <span>Today</span>
+            <span>{isAvailabilityPending ? 'Checking availability...' : `${availableIds.size} sites free`}</span>
+            <span>{format(dateUtils.addDays(today, TIMELINE_DAYS - 1), 'MMM d')}</span>
+          </div>
+        </Card>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        <Card className="lg:col-span-3 p-4 dark:bg-gray-800 dark:border-gray-700 overflow-auto">
+          <svg
+            viewBox={`${map.bounds.minX} ${map.bounds.minY} ${map.bounds.maxX - map.bounds.minX} ${map.bounds.maxY - map.bounds.minY}`}
+            className="w-full h-auto bg-gray-100 dark:bg-gray-900 rounded"
+            role="img"
+            aria-label={`${map.name} ${viewMode} map`}
+          >
+            {visibleModules.map(renderModule)}
+          </svg>
+        </Card>
+
+        <div className="space-y-6">
+          <Card className="p-4 dark:bg-gray-800 dark:border-gray-700 h-fit">
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-3">Legend</h2>
+            <ul className="space-y-2">
+              {legend.map(({ key, label, color, count }) => (
+                <li key={key} className="flex items-center justify-between text-sm">
+                  <span className="flex items-center gap-2 text-gray-700 dark:text-gray-300">
+                    <span
+                      className="inline-block w-4 h-4 rounded border border-gray-400"
+                      style={{ backgroundColor: color }}
+                    />
+                    {label}
+                  </span>
+                  <span className="font-medium text-gray-900 dark:text-gray-100">{count}</span>
+                </li>
+              ))}
+            </ul>
+            {viewMode === 'occupancy' && (
+              <p className="mt-4 text-xs text-gray-500 dark:text-gray-400">
+                Click an occupied, arriving or departing site to open its booking.
+              </p>
+            )}
+          </Card>
+
+          {viewMode === 'availability' && (
+            <Card className="p-4 dark:bg-gray-800 dark:border-gray-700 h-fit">
+              <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-3 flex items-center gap-2">
+                <Users className="w-5 h-5" />
+                Group Placement
+              </h2>
+              <div className="space-y-3">
+                <Input
+                  label="Sites needed"
+                  type="number"
+                  min={1}
+                  value={groupSize}
+                  onChange={(e) => {
+                    setGroupSize(Math.max(1, Number(e.target.value)));
+                    setGroupArea(null);
+                  }}
+                />
+                <Input
+                  label="Max gap between sites"
+                  type="number"
+                  min={0}
+                  suffix="m"
+                  value={groupGap}
+                  onChange={(e) => {
+                    setGroupGap(Math.max(0, Number(e.target.value)));
+                    setGroupArea(null);
+                  }}
+                />
+                <Button className="w-full" onClick={handleFindArea} disabled={isAvailabilityPending}>
+                  Find free area
+                </Button>
+                {groupArea && (
+                  <p className="text-sm text-gray-600 dark:text-gray-400">
+                    {groupArea.length > 0
+                      ? `Highlighted ${groupArea.length} neighbouring free sites.`
+                      : `No ${groupSize} free sites sit together on this night.`}
+                  </p>
+                )}
+              </div>
+            </Card>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MapOperationsPage;
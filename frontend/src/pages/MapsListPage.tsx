@@ -1,17 +1,146 @@
-import React from 'react';
+/**
+ * Maps List Page
+ * Every map of the campground: search and filter them, start new maps and
+ * choose which one is published to the customer and front desk views
+ */
+
+import React, { useMemo, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Map, Plus, Edit } from 'lucide-react';
+import { endOfDay, parseISO, startOfDay } from 'date-fns';
+import { Archive, Map, Plus, Search, User } from 'lucide-react';
+import { Button, Card, Input } from '@/components/ui';
+import { PageLoader } from '@/components/ui/PageLoader';
+import { MapCard, NewMapWizard } from '@/features/maps';
+import {
+  useMaps,
+  useCreateMap,
+  useDuplicateMap,
+  useRenameMap,
+  useArchiveMap,
+  usePublishMap,
+  useDeleteMap,
+} from '@/hooks/useMaps';
+import { useAuthStore } from '@/stores/authStore';
+import { useUIStore } from '@/stores/uiStore';
+import type { CampsiteMap, CreateMapRequest, MapSearchFilters } from '@/types';
+import { filterMaps, getCopyName } from '@/utils/mapLibrary';
+
+const toggleClassName = (active: boolean) =>
+  `flex items-center gap-2 px-3 py-2 rounded-lg border text-sm transition-colors ${
+    active
+      ? 'border-blue-500 bg-blue-50 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300'
+      : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'
+  }`;
 
 const MapsListPage: React.FC = () => {
   const navigate = useNavigate();
+  const { user } = useAuthStore();
+  const { showToast } = useUIStore();
+
+  const [search, setSearch] = useState('');
+  const [showArchived, setShowArchived] = useState(false);
+  const [onlyMine, setOnlyMine] = useState(false);
+  const [updatedFrom, setUpdatedFrom] = useState('');
+  const [updatedTo, setUpdatedTo] = useState('');
+  const [isWizardOpen, setIsWizardOpen] = useState(false);
+
+  const { maps, isLoading } = useMaps();
+  const createMap = useCreateMap();
+  const duplicateMap = useDuplicateMap();
+  const renameMap = useRenameMap();
+  const archiveMap = useArchiveMap();
+  const publishMap = usePublishMap();
+  const deleteMap = useDeleteMap();
+
+  const visibleMaps = useMemo(() => {
+    const filters: MapSearchFilters = {
+      search,
+      archived: showArchived,
+      createdBy: onlyMine ? user?.id : undefined,
+      dateRange: updatedFrom || updatedTo
+        ? {
+            start: updatedFrom ? startOfDay(parseISO(updatedFrom)) : new Date(0),
+            end: updatedTo ? endOfDay(parseISO(updatedTo)) : new Date(8.64e15),
+          }
+        : undefined,
+    };
+
+    // The published map first, then the most recently changed
+    return filterMaps(maps, filters).sort(
+      (a, b) =>
+        Number(!!b.isPublished) - Number(!!a.isPublished) ||
+        new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
+    );
+  }, [maps, search, showArchived, onlyMine, user?.id, updatedFrom, updatedTo]);
+
+  const handleCreate = (request: CreateMapRequest) => {
+    createMap.mutate(request, {
+      onSuccess: (map) => {
+        setIsWizardOpen(false);
+        showToast(`Created "${map.name}"`, 'success');
+        navigate(`/admin/map-editor/${map.id}`);
+      },
+      onError: () => showToast('Failed to create map', 'error'),
+    });
+  };
+
+  const handleRename = (map: CampsiteMap, name: string) => {
+    renameMap.mutate(
+      { id: map.id, name },
+      {
+        onSuccess: () => showToast(`Renamed to "${name}"`, 'success'),
+        onError: () => showToast('Failed to rename map', 'error'),
+      }
+    );
+  };
+
+  const handleDuplicate = (map: CampsiteMap) => {
+    const name = getCopyName(map.name, maps.map((item) => item.name));
+    duplicateMap.mutate(
+      { id: map.id, name },
+      {
+        onSuccess: () => showToast(`Created "${name}"`, 'success'),
+        onError: () => showToast('Failed to duplicate map', 'error'),
+      }
+    );
+  };
 
-  // Temporary: Navigate to map editor with a test ID
-  // TODO: Replace with actual maps list when implemented
-  const handleOpenMapEditor = (mapId: string = 'test-map-1') => {
-    console.log('[MapsListPage] Navigating to map editor with ID:', mapId);
-    navigate(`/admin/map-editor/${mapId}`);
+  const handlePublish = (map: CampsiteMap) => {
+    if (!window.confirm(`Publish "${map.name}"? Customers and staff will see this map instead of the current one.`)) {
+      return;
+    }
+    publishMap.mutate(map.id, {
+      onSuccess: () => showToast(`"${map.name}" is now the published map`, 'success'),
+      onError: () => showToast('Failed to publish map', 'error'),
+    });
   };
 
+  const handleArchive = (map: CampsiteMap, isArchived: boolean) => {
+    archiveMap.mutate(
+      { id: map.id, isArchived },
+      {
+        onSuccess: () => showToast(isArchived ? `Archived "${map.name}"` : `Restored "${map.name}"`, 'success'),
+        onError: () => showToast(isArchived ? 'Failed to archive map' : 'Failed to restore map', 'error'),
+      }
+    );
+  };
+
+  const handleDelete = (map: CampsiteMap) => {
+    if (!window.confirm(`Delete "${map.name}"? This cannot be undone.`)) {
+      return;
+    }
+    deleteMap.mutate(map.id, {
+      onSuccess: () => showToast(`Deleted "${map.name}"`, 'success'),
+      onError: () => showToast('Failed to delete map', 'error'),
+    });
+  };
+
+  if (isLoading) {
+    return <PageLoader />;
+  }
+
+  const hasFilters = !!search.trim() || onlyMine || !!updatedFrom || !!updatedTo;
+
   return (
     <div className="p-6 max-w-7xl mx-auto">
       <div className="flex items-center justify-between mb-6">
@@ -19,34 +148,98 @@ const MapsListPage: React.FC = () => {
           <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100">Maps</h1>
           <p className="text-gray-600 dark:text-gray-400">Manage campsite maps</p>
         </div>
-        <button
-          onClick={() => handleOpenMapEditor('new')}
-          className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
-        >
-          <Plus className="w-4 h-4" />
+        <Button onClick={() => setIsWizardOpen(true)}>
+          <Plus className="w-4 h-4 mr-2" />
           New Map
-        </button>
+        </Button>
       </div>
 
-      {/* Temporary placeholder - replace with actual maps list */}
-      <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
-        <div className="flex flex-col items-center justify-center min-h-[400px]">
-          <Map className="w-24 h-24 text-gray-400 dark:text-gray-600 mb-6" />
-          <h2 className="text-2xl font-semibold text-gray-900 dark:text-gray-100 mb-2">
-            Maps List
-          </h2>
-          <p className="text-gray-600 dark:text-gray-400 text-center max-w-md mb-6">
-            Maps list functionality coming soon. For now, you can open the map editor directly.
-          </p>
+      <Card className="p-4 mb-6 dark:bg-gray-800 dark:border-gray-700">
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="flex-1 min-w-[240px]">
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search by name, description or address"
+              icon={<Search className="w-4 h-4" />}
+              aria-label="Search maps"
+            />
+          </div>
+          <Input
+            type="date"
+            label="Updated from"
+            value={updatedFrom}
+            onChange={(e) => setUpdatedFrom(e.target.value)}
+            max={updatedTo || undefined}
+          />
+          <Input
+            type="date"
+            label="Updated to"
+            value={updatedTo}
+            onChange={(e) => setUpdatedTo(e.target.value)}
+            min={updatedFrom || undefined}
+          />
+          <button className={toggleClassName(onlyMine)} onClick={() => setOnlyMine(!onlyMine)} aria-pressed={onlyMine}>
+            <User className="w-4 h-4" />
+            Created by me
+          </button>
           <button
-            onClick={() => handleOpenMapEditor()}
-            className="flex items-center gap-2 px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium"
+            className={toggleClassName(showArchived)}
+            onClick={() => setShowArchived(!showArchived)}
+            aria-pressed={showArchived}
           >
-            <Edit className="w-5 h-5" />
-            Open Map Editor
+            <Archive className="w-4 h-4" />
+            Archived
           </button>
         </div>
-      </div>
+      </Card>
+
+      {visibleMaps.length === 0 ? (
+        <Card className="p-6 dark:bg-gray-800 dark:border-gray-700">
+          <div className="flex flex-col items-center justify-center min-h-[300px] text-center">
+            <Map className="w-16 h-16 text-gray-400 dark:text-gray-600 mb-4" />
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100 mb-2">
+              {hasFilters ? 'No maps match' : showArchived ? 'No archived maps' : 'No maps yet'}
+            </h2>
+            <p className="text-gray-600 dark:text-gray-400 max-w-md mb-6">
+              {hasFilters
+                ? 'Try a different search or clear the filters.'
+                : showArchived
+                  ? 'Maps you archive are kept here until they are restored or deleted.'
+                  : 'Start a map from scratch or from one of your templates.'}
+            </p>
+            {!hasFilters && !showArchived && (
+              <Button onClick={() => setIsWizardOpen(true)}>
+                <Plus className="w-4 h-4 mr-2" />
+                New Map
+              </Button>
+            )}
+          </div>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+          {visibleMaps.map((map) => (
+            <MapCard
+              key={map.id}
+              map={map}
+              onEdit={(item) => navigate(`/admin/map-editor/${item.id}`)}
+              onView={(item) => navigate(`/maps/${item.id}`)}
+              onRename={handleRename}
+              onDuplicate={handleDuplicate}
+              onPublish={handlePublish}
+              onArchive={handleArchive}
+              onDelete={handleDelete}
+            />
+          ))}
+        </div>
+      )}
+
+      <NewMapWizard
+        isOpen={isWizardOpen}
+        onClose={() => setIsWizardOpen(false)}
+        onCreate={handleCreate}
+        isCreating={createMap.isPending}
+      />
     </div>
   );
 };
@@ -1,26 +1,34 @@
 import React, { useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import {
   Settings,
   Monitor,
   Bell,
-  Server
+  Server,
+  DollarSign
 } from 'lucide-react';
 import GeneralSettings from '@/components/settings/GeneralSettings';
 import AppearanceSettings from '@/components/settings/AppearanceSettings';
 import NotificationSettings from '@/components/settings/NotificationSettings';
 import SystemSettings from '@/components/settings/SystemSettings';
+import PricingSettings from '@/components/settings/PricingSettings';
 
-type SettingsTab = 'general' | 'appearance' | 'notifications' | 'system';
+type SettingsTab = 'general' | 'appearance' | 'notifications' | 'pricing' | 'system';
 
-const SettingsPage: React.FC = () => {
-  const [activeTab, setActiveTab] = useState<SettingsTab>('general');
+const tabs = [
+  { id: 'general', label: 'General', icon: Settings },
+  { id: 'appearance', label: 'Appearance', icon: Monitor },
+  { id: 'notifications', label: 'Notifications', icon: Bell },
+  { id: 'pricing', label: 'Pricing', icon: DollarSign },
+  { id: 'system', label: 'System', icon: Server },
+];
 
-  const tabs = [
-    { id: 'general', label: 'General', icon: Settings },
-    { id: 'appearance', label: 'Appearance', icon: Monitor },
-    { id: 'notifications', label: 'Notifications', icon: Bell },
-    { id: 'system', label: 'System', icon: Server },
-  ];
+const SettingsPage: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const [activeTab, setActiveTab] = useState<SettingsTab>(() => {
+    const requested = searchParams.get('tab');
+    return tabs.some((tab) => tab.id === requested) ? (requested as SettingsTab) : 'general';
+  });
 
   return (
     <div className="mx-auto max-w-6xl px-4 py-8">
@@ -69,6 +77,7 @@ const SettingsPage: React.FC = () => {
           <div className={activeTab === 'notifications' ? 'block' : 'hidden'}>
             <NotificationSettings />
           </div>
+          {activeTab === 'pricing' && <PricingSettings />}
           <div className={activeTab === 'system' ? 'block' : 'hidden'}>
             <SystemSettings />
           </div>
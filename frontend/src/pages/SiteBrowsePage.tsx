@@ -1,7 +1,7 @@
 import React, { useState, useMemo } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
 import { useQuery } from '@tanstack/react-query';
-import { Search, Filter, Grid, List, X } from 'lucide-react';
+import { Search, Filter, Grid, List, Map as MapIcon, X } from 'lucide-react';
 import { getSites } from '@/services/api/sites';
 import { queryKeys } from '@/config/query-keys';
 import { mockSites } from '@/services/api/mock-sites';
@@ -10,9 +10,10 @@ import type { Site } from '@/types';
 import Button from '@/components/ui/Button';
 import Input from '@/components/ui/Input';
 import { SiteCard } from '@/features/sites/components/SiteCard';
+import { SiteMapPicker } from '@/features/sites/components/SiteMapPicker';
 import { useAuthStore } from '@/stores/authStore';
 
-type ViewMode = 'grid' | 'list';
+type ViewMode = 'grid' | 'list' | 'map';
 
 const SiteBrowsePage: React.FC = () => {
   const navigate = useNavigate();
@@ -216,6 +217,14 @@ const SiteBrowsePage: React.FC = () => {
             >
               <List className="w-5 h-5" />
             </button>
+            <button
+              onClick={() => setViewMode('map')}
+              className={`p-2 ${viewMode === 'map' ? 'bg-blue-600 text-white' : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300'}`}
+              aria-label="Map view"
+              aria-pressed={viewMode === 'map'}
+            >
+              <MapIcon className="w-5 h-5" />
+            </button>
           </div>
         </div>
 
@@ -360,6 +369,13 @@ const SiteBrowsePage: React.FC = () => {
             Please try refreshing the page
           </p>
         </div>
+      ) : viewMode === 'map' ? (
+        <SiteMapPicker
+          sites={filteredSites}
+          checkInDate={checkInDate}
+          checkOutDate={checkOutDate}
+          onSelect={handleBookNow}
+        />
       ) : filteredSites.length === 0 ? (
         <div className="text-center py-12 bg-gray-50 dark:bg-gray-800 rounded-lg">
           <p className="text-lg font-medium text-gray-900 dark:text-gray-100 mb-2">
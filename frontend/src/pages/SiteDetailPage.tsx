@@ -9,12 +9,16 @@ import {
   Droplet,
   Heart,
   ArrowLeft,
-  CheckCircle
+  CheckCircle,
+  Footprints
 } from 'lucide-react';
 import { getSiteById, checkSiteAvailability } from '@/services/api/sites';
 import { queryKeys } from '@/config/query-keys';
 import { mockSites } from '@/services/api/mock-sites';
 import { SiteType } from '@/types';
+import { useSiteWalkingDistances } from '@/hooks/useSiteWalkingDistances';
+import { formatLength } from '@/utils/measurement';
+import { WALKING_FACILITY_LABELS, WALKING_FACILITY_TYPES } from '@/utils/walkingRoutes';
 import Button from '@/components/ui/Button';
 import Input from '@/components/ui/Input';
 import { useAuthStore } from '@/stores/authStore';
@@ -47,6 +51,9 @@ const SiteDetailPage: React.FC = () => {
     enabled: !!id,
   });
 
+  const { walkingDistances = {}, stepFreeDistances = {}, unit } = useSiteWalkingDistances(site?.id);
+  const walkingFacilities = WALKING_FACILITY_TYPES.filter((type) => walkingDistances[type] !== undefined);
+
   const handleCheckAvailability = async () => {
     if (!checkInDate || !checkOutDate || !site) return;
 
@@ -271,6 +278,32 @@ const SiteDetailPage: React.FC = () => {
                 </div>
               )}
             </div>
+
+            {/* Walking Distances */}
+            {walkingFacilities.length > 0 && (
+              <div className="mb-6">
+                <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100 mb-4">
+                  Walking Distances
+                </h2>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {walkingFacilities.map((type) => (
+                    <div key={type} className="flex items-start space-x-2">
+                      <Footprints className="w-5 h-5 mt-0.5 text-blue-600 dark:text-blue-400" />
+                      <div>
+                        <div className="text-gray-700 dark:text-gray-300">
+                          {WALKING_FACILITY_LABELS[type]}: {formatLength(walkingDistances[type]!, unit)}
+                        </div>
+                        <div className="text-sm text-gray-500 dark:text-gray-400">
+                          {stepFreeDistances[type] !== undefined
+                            ? `Step-free: ${formatLength(stepFreeDistances[type]!, unit)}`
+                            : 'No step-free route'}
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
           </div>
         </div>
 
@@ -0,0 +1,139 @@
+/**
+ * Unit tests for the group booking workflow
+ * Tests quoting, site holds and conversion into linked bookings
+ */
+
+import { describe, it, expect } from 'vitest';
+import { groupBookingUtils } from '@shared/utils';
+import { BookingStatus, GroupBookingStatus, SiteType } from '@/types';
+import type { CreateGroupInquiryData } from '../group-bookings';
+import {
+  createMockGroupInquiry,
+  quoteMockGroupBooking,
+  convertMockGroupBooking,
+  checkInMockGroupMember,
+  getMockGroupBookingById,
+  cancelMockGroupBooking,
+} from '../mock-group-bookings';
+import { mockBookings } from '../mock-bookings';
+
+const sites = [
+  { id: 'a', type: SiteType.TENT, basePrice: 40 },
+  { id: 'b', type: SiteType.TENT, basePrice: 40 },
+];
+
+describe('groupBookingUtils', () => {
+  it('should price every site at the special rate when one is set', () => {
+    const quote = groupBookingUtils.calculateGroupQuote(sites, new Date(2025, 4, 5), new Date(2025, 4, 8), 25);
+
+    expect(quote.nights).toBe(3);
+    expect(quote.sites).toEqual([
+      { siteId: 'a', subtotal: 75 },
+      { siteId: 'b', subtotal: 75 },
+    ]);
+    expect(quote.total).toBe(150);
+  });
+
+  it('should fall back to standard pricing without a special rate', () => {
+    const quote = groupBookingUtils.calculateGroupQuote(sites, new Date(2025, 4, 5), new Date(2025, 4, 7));
+
+    expect(quote.total).toBe(160);
+  });
+
+  it('should spread guests evenly across sites', () => {
+    expect(groupBookingUtils.splitGuests(10, 3)).toEqual([4, 3, 3]);
+    expect(groupBookingUtils.splitGuests(2, 3)).toEqual([1, 1, 1]);
+  });
+
+  it('should only report sites held by other active groups over overlapping dates', () => {
+    const groups = [
+      { id: 'g1', status: GroupBookingStatus.QUOTED, siteIds: ['a'], eventDate: new Date(2025, 4, 5), eventEndDate: new Date(2025, 4, 8) },
+      { id: 'g2', status: GroupBookingStatus.CANCELLED, siteIds: ['b'], eventDate: new Date(2025, 4, 5), eventEndDate: new Date(2025, 4, 8) },
+      { id: 'g3', status: GroupBookingStatus.CONFIRMED, siteIds: ['c'], eventDate: new Date(2025, 4, 8), eventEndDate: new Date(2025, 4, 10) },
+    ];
+    const held = groupBookingUtils.getHeldSiteIds(groups, new Date(2025, 4, 6), new Date(2025, 4, 8));
+
+    expect([...held]).toEqual(['a']);
+    expect(groupBookingUtils.getHeldSiteIds(groups, new Date(2025, 4, 6), new Date(2025, 4, 8), 'g1').size).toBe(0);
+  });
+
+  it('should not allow converting an inquiry that was never quoted', () => {
+    expect(groupBookingUtils.canTransition(GroupBookingStatus.INQUIRY, GroupBookingStatus.CONFIRMED)).toBe(false);
+    expect(groupBookingUtils.canTransition(GroupBookingStatus.QUOTED, GroupBookingStatus.CONFIRMED)).toBe(true);
+  });
+});
+
+describe('mock group booking workflow', () => {
+  it('should convert a quote into one linked booking per site and track check-in', () => {
+    const inquiry = createMockGroupInquiry({
+      name: 'Test Retreat',
+      contactName: 'Sam Rivera',
+      contactEmail: 'sam@example.com',
+      contactPhone: '+15550100',
+      expectedGuests: 5,
+      expectedSites: 2,
+      eventDate: new Date(2030, 5, 1),
+    });
+    expect(() => convertMockGroupBooking(inquiry.id)).toThrow();
+
+    quoteMockGroupBooking(inquiry.id, {
+      siteIds: ['site-tent-1', 'site-tent-2'],
+      eventDate: new Date(2030, 5, 1),
+      eventEndDate: new Date(2030, 5, 3),
+      specialRate: 30,
+    });
+    expect(getMockGroupBookingById(inquiry.id).quotedTotal).toBe(120);
+
+    const confirmed = convertMockGroupBooking(inquiry.id);
+    expect(confirmed.status).toBe(GroupBookingStatus.CONFIRMED);
+    expect(confirmed.bookings).toHaveLength(2);
+    expect(confirmed.bookings?.map((booking) => booking.guests.adults)).toEqual([3, 2]);
+    expect(confirmed.bookings?.every((booking) => booking.groupBookingId === inquiry.id)).toBe(true);
+
+    const [first] = confirmed.bookings ?? [];
+    checkInMockGroupMember(first!.id);
+    const progress = groupBookingUtils.getCheckInProgress(getMockGroupBookingById(inquiry.id).bookings ?? []);
+    expect(progress).toEqual({ checkedIn: 1, total: 2 });
+    expect(getMockGroupBookingById(inquiry.id).bookings?.[0]?.status).toBe(BookingStatus.CHECKED_IN);
+  });
+
+  const inquiry: CreateGroupInquiryData = {
+    name: 'Test Rally',
+    contactName: 'Alex Moreno',
+    contactEmail: 'alex@example.com',
+    contactPhone: '+15550101',
+    expectedGuests: 4,
+    expectedSites: 2,
+    eventDate: new Date(2031, 6, 1),
+  };
+  const stay = { eventDate: new Date(2031, 6, 1), eventEndDate: new Date(2031, 6, 4) };
+  const bookSite = (siteId: string) => mockBookings.push({
+    ...mockBookings[0]!,
+    id: `booking-test-${siteId}`,
+    siteId,
+    status: BookingStatus.CONFIRMED,
+    groupBookingId: undefined,
+    checkInDate: new Date(2031, 6, 2),
+    checkOutDate: new Date(2031, 6, 3),
+  });
+
+  it('should not quote or convert sites that individual bookings already take', () => {
+    bookSite('site-cabin-3');
+    const group = createMockGroupInquiry(inquiry);
+    expect(() => quoteMockGroupBooking(group.id, { siteIds: ['site-rv-1', 'site-cabin-3'], ...stay })).toThrow(/site-cabin-3/);
+
+    quoteMockGroupBooking(group.id, { siteIds: ['site-rv-1', 'site-rv-2'], ...stay });
+    bookSite('site-rv-2');
+    expect(() => convertMockGroupBooking(group.id)).toThrow(/site-rv-2/);
+    expect(getMockGroupBookingById(group.id).status).toBe(GroupBookingStatus.QUOTED);
+  });
+
+  it('should not check in a cancelled member booking', () => {
+    const group = createMockGroupInquiry({ ...inquiry, eventDate: new Date(2032, 6, 1) });
+    quoteMockGroupBooking(group.id, { siteIds: ['site-rv-3'], eventDate: new Date(2032, 6, 1), eventEndDate: new Date(2032, 6, 2) });
+    const [booking] = convertMockGroupBooking(group.id).bookings ?? [];
+    cancelMockGroupBooking(group.id);
+
+    expect(() => checkInMockGroupMember(booking!.id)).toThrow(/cancelled/);
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Unit tests for the shared pricing engine
+ * Tests rule matching, priority resolution and mock booking quotes
+ */
+
+import { describe, it, expect } from 'vitest';
+import { pricingUtils } from '@shared/utils';
+import { SiteType } from '@/types';
+import type { PricingRule } from '@/types';
+import { getMockBookingPricing } from '../mock-bookings';
+
+const createRule = (overrides: Partial<PricingRule> = {}): PricingRule => ({
+  id: 'rule-1',
+  name: 'Test Rule',
+  siteTypes: [SiteType.TENT],
+  startDate: new Date(2025, 0, 1),
+  endDate: new Date(2025, 11, 31),
+  daysOfWeek: [],
+  priceModifier: 1.5,
+  modifierType: 'multiplier',
+  priority: 10,
+  isActive: true,
+  createdAt: new Date(2025, 0, 1),
+  updatedAt: new Date(2025, 0, 1),
+  ...overrides,
+});
+
+const tentSite = { type: SiteType.TENT, basePrice: 40 };
+
+describe('pricingUtils', () => {
+  describe('applyModifier', () => {
+    it('should apply multiplier, fixed and percentage modifiers', () => {
+      expect(pricingUtils.applyModifier(40, { modifierType: 'multiplier', priceModifier: 1.5 })).toBe(60);
+      expect(pricingUtils.applyModifier(40, { modifierType: 'fixed', priceModifier: -15 })).toBe(25);
+      expect(pricingUtils.applyModifier(40, { modifierType: 'percentage', priceModifier: 25 })).toBe(50);
+    });
+
+    it('should never produce a negative rate', () => {
+      expect(pricingUtils.applyModifier(40, { modifierType: 'fixed', priceModifier: -100 })).toBe(0);
+    });
+  });
+
+  describe('calculateNightlyRates', () => {
+    it('should return one entry per night at the base price when no rule applies', () => {
+      const rates = pricingUtils.calculateNightlyRates(tentSite, new Date(2025, 4, 5), new Date(2025, 4, 8), []);
+
+      expect(rates).toEqual([
+        { date: '2025-05-05', rate: 40, description: 'Standard rate', ruleId: undefined },
+        { date: '2025-05-06', rate: 40, description: 'Standard rate', ruleId: undefined },
+        { date: '2025-05-07', rate: 40, description: 'Standard rate', ruleId: undefined },
+      ]);
+    });
+
+    it('should only apply a rule on its days of the week', () => {
+      // 2025-05-09 is a Friday
+      const weekend = createRule({ id: 'weekend', name: 'Weekend', daysOfWeek: [5, 6] });
+      const rates = pricingUtils.calculateNightlyRates(tentSite, new Date(2025, 4, 8), new Date(2025, 4, 11), [weekend]);
+
+      expect(rates.map((night) => night.rate)).toEqual([40, 60, 60]);
+      expect(rates[1]?.ruleId).toBe('weekend');
+    });
+
+    it('should ignore inactive rules, other site types and dates outside the range', () => {
+      const rules = [
+        createRule({ id: 'inactive', isActive: false }),
+        createRule({ id: 'cabins', siteTypes: [SiteType.CABIN] }),
+        createRule({ id: 'past', startDate: new Date(2024, 0, 1), endDate: new Date(2024, 11, 31) }),
+      ];
+      const rates = pricingUtils.calculateNightlyRates(tentSite, new Date(2025, 4, 5), new Date(2025, 4, 6), rules);
+
+      expect(rates[0]?.ruleId).toBeUndefined();
+    });
+
+    it('should respect minimum and maximum stay', () => {
+      const longStay = createRule({ id: 'long', modifierType: 'percentage', priceModifier: -10, minStay: 7 });
+
+      const short = pricingUtils.calculateNightlyRates(tentSite, new Date(2025, 4, 1), new Date(2025, 4, 4), [longStay]);
+      const long = pricingUtils.calculateNightlyRates(tentSite, new Date(2025, 4, 1), new Date(2025, 4, 8), [longStay]);
+
+      expect(short.every((night) => night.rate === 40)).toBe(true);
+      expect(long.every((night) => night.rate === 36)).toBe(true);
+    });
+
+    it('should use the highest priority rule and keep list order on ties', () => {
+      const rules = [
+        createRule({ id: 'low', priority: 5, priceModifier: 2 }),
+        createRule({ id: 'first', priority: 20, priceModifier: 1.25 }),
+        createRule({ id: 'second', priority: 20, priceModifier: 1.75 }),
+      ];
+      const [night] = pricingUtils.calculateNightlyRates(tentSite, new Date(2025, 4, 5), new Date(2025, 4, 6), rules);
+
+      expect(night?.ruleId).toBe('first');
+      expect(night?.rate).toBe(50);
+    });
+  });
+
+  describe('findRuleConflicts', () => {
+    it('should flag overlapping rules of equal priority', () => {
+      const a = createRule({ id: 'a', startDate: new Date(2025, 5, 1), endDate: new Date(2025, 7, 31) });
+      const b = createRule({ id: 'b', startDate: new Date(2025, 7, 1), endDate: new Date(2025, 8, 30) });
+
+      expect(pricingUtils.findRuleConflicts([a, b])).toEqual([[a, b]]);
+    });
+
+    it('should not flag rules that can never price the same night', () => {
+      const base = createRule({ id: 'base' });
+      const rules = [
+        createRule({ id: 'other-priority', priority: 11 }),
+        createRule({ id: 'other-type', siteTypes: [SiteType.RV] }),
+        createRule({ id: 'other-year', startDate: new Date(2026, 0, 1), endDate: new Date(2026, 11, 31) }),
+        createRule({ id: 'inactive', isActive: false }),
+      ];
+      const weekdays = createRule({ id: 'weekdays', daysOfWeek: [1, 2, 3] });
+      const weekends = createRule({ id: 'weekends', daysOfWeek: [0, 6] });
+      const shortStay = createRule({ id: 'short', maxStay: 3 });
+      const longStay = createRule({ id: 'long', minStay: 7 });
+
+      expect(rules.some((rule) => pricingUtils.rulesConflict(base, rule))).toBe(false);
+      expect(pricingUtils.rulesConflict(weekdays, weekends)).toBe(false);
+      expect(pricingUtils.rulesConflict(shortStay, longStay)).toBe(false);
+    });
+  });
+});
+
+describe('getMockBookingPricing', () => {
+  it('should derive the subtotal from the nightly breakdown', () => {
+    const pricing = getMockBookingPricing('site-tent-1', '2025-05-05', '2025-05-08');
+    const breakdownTotal = pricing.breakdown.reduce((sum, night) => sum + night.rate, 0);
+
+    expect(pricing.nights).toBe(3);
+    expect(pricing.breakdown).toHaveLength(3);
+    expect(pricing.subtotal).toBeCloseTo(breakdownTotal, 2);
+    expect(pricing.totalAmount).toBeCloseTo(pricing.subtotal + pricing.taxAmount, 2);
+  });
+
+  it('should throw for an unknown site', () => {
+    expect(() => getMockBookingPricing('missing-site', '2025-05-05', '2025-05-06')).toThrow();
+  });
+});
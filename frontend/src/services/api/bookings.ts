@@ -11,6 +11,7 @@ import type {
   PaginatedResponse,
   ApiResponse,
   BookingFilters,
+  NightlyRate,
 } from '@/types';
 
 export interface CreateBookingData {
@@ -52,11 +53,7 @@ export interface BookingPricing {
   equipmentTotal: number;
   discountAmount: number;
   totalAmount: number;
-  breakdown: {
-    date: string;
-    rate: number;
-    description: string;
-  }[];
+  breakdown: NightlyRate[];
 }
 
 /**
@@ -169,6 +166,7 @@ export const getBookingHistory = async (): Promise<Booking[]> => {
 
 /**
  * Calculate booking pricing
+ * Falls back to mock pricing rules if API is unavailable
  */
 export const calculateBookingPrice = async (
   siteId: string,
@@ -176,13 +174,26 @@ export const calculateBookingPrice = async (
   checkOutDate: string,
   equipmentRentals?: { equipmentId: string; quantity: number }[]
 ): Promise<BookingPricing> => {
-  const response = await post<ApiResponse<BookingPricing>>('/bookings/calculate-price', {
-    siteId,
-    checkInDate,
-    checkOutDate,
-    equipmentRentals,
-  });
-  return response.data!;
+  try {
+    const response = await post<ApiResponse<BookingPricing>>('/bookings/calculate-price', {
+      siteId,
+      checkInDate,
+      checkOutDate,
+      equipmentRentals,
+    });
+
+    if (!response || !response.data) {
+      const { getMockBookingPricing } = await import('./mock-bookings');
+      return getMockBookingPricing(siteId, checkInDate, checkOutDate, equipmentRentals);
+    }
+
+    return response.data;
+  } catch (error) {
+    // Fallback to the shared pricing engine with mock rules
+    console.warn('Failed to calculate price from API, using mock pricing:', error);
+    const { getMockBookingPricing } = await import('./mock-bookings');
+    return getMockBookingPricing(siteId, checkInDate, checkOutDate, equipmentRentals);
+  }
 };
 
 /**
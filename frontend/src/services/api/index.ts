@@ -23,6 +23,10 @@ export * from './maps';
 export * from './equipment';
 export * from './analytics';
 export * from './users';
+export * from './pricing';
+export * from './group-bookings';
+export * from './templates';
+export * from './map-versions';
 
 // Export error handling utilities
 export {
@@ -61,4 +65,5 @@ export type {
 // Export mock data (for development)
 export * from './mock-sites';
 export * from './mock-equipment';
+export * from './mock-pricing';
 export * from './mockAnalyticsData';
@@ -0,0 +1,42 @@
+/**
+ * Map Versions API Service
+ * Handles the version history of campsite maps: snapshots taken on save and named checkpoints
+ */
+
+import { get, post, del } from './client';
+import { API_ENDPOINTS } from '@shared/constants';
+import type { MapVersion, ApiResponse } from '@/types';
+
+export type CreateMapVersionData = Omit<MapVersion, 'id' | 'createdAt'>;
+
+// The client base URL already carries the /api prefix
+const endpoint = (path: string) => path.replace(/^\/api/, '');
+
+/**
+ * Get the versions of a map, newest first
+ * Shows an empty history if the API is unavailable
+ */
+export const getMapVersions = async (mapId: string): Promise<MapVersion[]> => {
+  try {
+    const response = await get<ApiResponse<MapVersion[]>>(endpoint(API_ENDPOINTS.MAP_VERSIONS.BY_MAP(mapId)));
+    return response.data || [];
+  } catch (error) {
+    console.warn('Failed to fetch map versions from API:', error);
+    return [];
+  }
+};
+
+/**
+ * Take a snapshot of a map
+ */
+export const createMapVersion = async (data: CreateMapVersionData): Promise<MapVersion> => {
+  const response = await post<ApiResponse<MapVersion>>(endpoint(API_ENDPOINTS.MAP_VERSIONS.BY_MAP(data.mapId)), data);
+  return response.data!;
+};
+
+/**
+ * Delete a map version
+ */
+export const deleteMapVersion = async (mapId: string, id: string): Promise<void> => {
+  await del(endpoint(API_ENDPOINTS.MAP_VERSIONS.BY_ID(mapId, id)));
+};
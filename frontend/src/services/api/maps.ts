@@ -3,12 +3,13 @@
  * Handles all campsite map-related API calls
  */
 
-import { get, post, put, del } from './client';
+import { get, post, put, patch, del } from './client';
 import type { 
   CampsiteMap, 
   AnyModule, 
   CreateMapRequest, 
   UpdateMapRequest,
+  MapContent,
   CreateModuleRequest,
   UpdateModuleRequest,
   BulkUpdateModulesRequest,
@@ -38,9 +39,10 @@ export const createMap = async (mapData: CreateMapRequest): Promise<CampsiteMap>
   const formData = new FormData();
   formData.append('name', mapData.name);
   formData.append('description', mapData.description);
-  formData.append('imageFile', mapData.imageFile);
+  if (mapData.imageFile) formData.append('imageFile', mapData.imageFile);
   formData.append('scale', mapData.scale.toString());
   formData.append('metadata', JSON.stringify(mapData.metadata));
+  if (mapData.modules) formData.append('modules', JSON.stringify(mapData.modules));
 
   const response = await post<ApiResponse<CampsiteMap>>('/maps', formData, {
     headers: {
@@ -50,6 +52,18 @@ export const createMap = async (mapData: CreateMapRequest): Promise<CampsiteMap>
   return response.data!;
 };
 
+/** Map content sent as JSON fields when a map is updated */
+const MAP_CONTENT_FIELDS: (keyof MapContent)[] = [
+  'modules',
+  'groups',
+  'geoReference',
+  'background',
+  'measurementUnit',
+  'dimensions',
+  'utilityConnections',
+  'complianceRules',
+];
+
 /**
  * Update map
  */
@@ -61,6 +75,9 @@ export const updateMap = async (id: string, mapData: UpdateMapRequest): Promise<
   if (mapData.imageFile) formData.append('imageFile', mapData.imageFile);
   if (mapData.scale) formData.append('scale', mapData.scale.toString());
   if (mapData.metadata) formData.append('metadata', JSON.stringify(mapData.metadata));
+  MAP_CONTENT_FIELDS.forEach((field) => {
+    if (mapData[field] !== undefined) formData.append(field, JSON.stringify(mapData[field]));
+  });
 
   const response = await put<ApiResponse<CampsiteMap>>(`/maps/${id}`, formData, {
     headers: {
@@ -77,6 +94,38 @@ export const deleteMap = async (id: string): Promise<void> => {
   await del(`/maps/${id}`);
 };
 
+/**
+ * Get the map customers and front desk staff see, if one has been published
+ */
+export const getPublishedMap = async (): Promise<CampsiteMap | null> => {
+  const response = await get<ApiResponse<CampsiteMap | null>>('/maps/published');
+  return response.data ?? null;
+};
+
+/**
+ * Publish a map, replacing the campground's previously published map
+ */
+export const publishMap = async (id: string): Promise<CampsiteMap> => {
+  const response = await post<ApiResponse<CampsiteMap>>(`/maps/${id}/publish`);
+  return response.data!;
+};
+
+/**
+ * Archive a map, or bring an archived map back
+ */
+export const setMapArchived = async (id: string, isArchived: boolean): Promise<CampsiteMap> => {
+  const response = await patch<ApiResponse<CampsiteMap>>(`/maps/${id}`, { isArchived });
+  return response.data!;
+};
+
+/**
+ * Copy a map with all its modules under a new name
+ */
+export const duplicateMap = async (id: string, name: string): Promise<CampsiteMap> => {
+  const response = await post<ApiResponse<CampsiteMap>>(`/maps/${id}/duplicate`, { name });
+  return response.data!;
+};
+
 /**
  * Add module to map
  */
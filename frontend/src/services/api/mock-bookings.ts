@@ -4,6 +4,11 @@
  */
 
 import { Booking, BookingStatus, PaymentStatus, SiteType, SiteStatus, MeasurementUnit, VehicleType } from '@/types';
+import { businessUtils, currencyUtils, dateUtils } from '@shared/utils';
+import type { BookingPricing } from './bookings';
+import { getMockSiteById } from './mock-sites';
+import { getMockEquipmentById } from './mock-equipment';
+import { getMockPricingRules, MOCK_TAX_RATE, MOCK_DEPOSIT_PERCENTAGE } from './mock-pricing';
 
 /**
  * Mock Bookings Collection
@@ -159,3 +164,50 @@ export const getMockBookingHistory = (): Booking[] => {
         (b) => new Date(b.checkOutDate) < now || b.status === BookingStatus.CHECKED_OUT
     );
 };
+
+/**
+ * Parse a booking date that may be a plain date (yyyy-MM-dd) or a full ISO timestamp
+ */
+const parseBookingDate = (value: string): Date => {
+    return /^\d{4}-\d{2}-\d{2}$/.test(value) ? dateUtils.fromDateKey(value) : new Date(value);
+};
+
+/**
+ * Quote a stay using the shared pricing engine and the mock pricing rules
+ */
+export const getMockBookingPricing = (
+    siteId: string,
+    checkInDate: string,
+    checkOutDate: string,
+    equipmentRentals: { equipmentId: string; quantity: number }[] = []
+): BookingPricing => {
+    const site = getMockSiteById(siteId);
+    if (!site) {
+        throw new Error(`Site ${siteId} not found`);
+    }
+
+    const checkIn = parseBookingDate(checkInDate);
+    const checkOut = parseBookingDate(checkOutDate);
+    const stay = businessUtils.calculateBookingTotal(site, checkIn, checkOut, 0, 0, getMockPricingRules());
+
+    const equipmentTotal = equipmentRentals.reduce((sum, rental) => {
+        const equipment = getMockEquipmentById(rental.equipmentId);
+        return equipment ? sum + equipment.dailyRate * rental.quantity * stay.nights : sum;
+    }, 0);
+
+    const subtotal = currencyUtils.roundToNearestCent(stay.subtotal + equipmentTotal);
+    const taxAmount = currencyUtils.roundToNearestCent(currencyUtils.calculateTax(subtotal, MOCK_TAX_RATE));
+    const totalAmount = currencyUtils.roundToNearestCent(subtotal + taxAmount);
+
+    return {
+        basePrice: site.basePrice,
+        nights: stay.nights,
+        subtotal: stay.subtotal,
+        taxAmount,
+        depositAmount: businessUtils.calculateDepositAmount(totalAmount, MOCK_DEPOSIT_PERCENTAGE),
+        equipmentTotal: currencyUtils.roundToNearestCent(equipmentTotal),
+        discountAmount: 0,
+        totalAmount,
+        breakdown: stay.breakdown,
+    };
+};
@@ -0,0 +1,267 @@
+/**
+ * Mock Group Bookings Data
+ * Provides sample group inquiries and an in-memory workflow for local development when API is unavailable
+ */
+
+import { BookingStatus, GroupBookingStatus, PaymentStatus, UserRole } from '@/types';
+import type { Booking, GroupBooking } from '@/types';
+import { businessUtils, currencyUtils, dateUtils, groupBookingUtils } from '@shared/utils';
+import { isSiteFreeForStay } from '@/utils/mapAvailability';
+import { mockBookings } from './mock-bookings';
+import { getMockSiteById } from './mock-sites';
+import { getActiveMockPricingRules, MOCK_TAX_RATE, MOCK_DEPOSIT_PERCENTAGE } from './mock-pricing';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Mock Group Bookings Collection
+ * One open inquiry and one issued quote
+ */
+export const mockGroupBookings: GroupBooking[] = [
+    {
+        id: 'group-001',
+        name: 'Pine Ridge Scout Troop 42',
+        contactName: 'Dana Whitfield',
+        contactEmail: 'dana.whitfield@example.com',
+        contactPhone: '+1 555-0142',
+        expectedGuests: 18,
+        expectedSites: 4,
+        eventDate: new Date(Date.now() + 21 * DAY_MS),
+        eventEndDate: new Date(Date.now() + 23 * DAY_MS),
+        notes: 'Would like tent sites close together near the fire pit.',
+        status: GroupBookingStatus.INQUIRY,
+        createdAt: new Date('2024-12-02'),
+        updatedAt: new Date('2024-12-02'),
+    },
+    {
+        id: 'group-002',
+        name: 'Harper & Lee Wedding',
+        contactName: 'Morgan Harper',
+        contactEmail: 'morgan.harper@example.com',
+        contactPhone: '+1 555-0199',
+        expectedGuests: 12,
+        expectedSites: 3,
+        eventDate: new Date(Date.now() + 45 * DAY_MS),
+        eventEndDate: new Date(Date.now() + 48 * DAY_MS),
+        specialRate: 160,
+        siteIds: ['site-cabin-1', 'site-cabin-2', 'site-cabin-4'],
+        quotedTotal: 1440,
+        status: GroupBookingStatus.QUOTED,
+        createdAt: new Date('2024-11-20'),
+        updatedAt: new Date('2024-11-28'),
+    },
+];
+
+const findGroup = (id: string): { group: GroupBooking; index: number } => {
+    const index = mockGroupBookings.findIndex((group) => group.id === id);
+    const group = mockGroupBookings[index];
+    if (!group) {
+        throw new Error(`Group booking ${id} not found`);
+    }
+    return { group, index };
+};
+
+const saveGroup = (index: number, group: GroupBooking): GroupBooking => {
+    mockGroupBookings[index] = group;
+    return group;
+};
+
+/**
+ * Find a site in a block that an individual booking (or maintenance) already
+ * takes over the stay. The group's own bookings don't count.
+ */
+const findUnavailableSite = (groupId: string, siteIds: string[], checkIn: Date, checkOut: Date): string | undefined => {
+    const otherBookings = mockBookings.filter((booking) => booking.groupBookingId !== groupId);
+    const nights = dateUtils.getDaysBetween(checkIn, checkOut);
+    return siteIds.find((siteId) => {
+        const site = getMockSiteById(siteId);
+        return !!site && !isSiteFreeForStay(site, otherBookings, checkIn, nights);
+    });
+};
+
+const withBookings = (group: GroupBooking): GroupBooking => ({
+    ...group,
+    bookings: mockBookings.filter((booking) => booking.groupBookingId === group.id),
+});
+
+/**
+ * Get all mock group bookings with their linked bookings
+ */
+export const getMockGroupBookings = (): GroupBooking[] => mockGroupBookings.map(withBookings);
+
+/**
+ * Get a mock group booking by ID
+ */
+export const getMockGroupBookingById = (id: string): GroupBooking => withBookings(findGroup(id).group);
+
+/**
+ * Record a new group inquiry
+ */
+export const createMockGroupInquiry = (
+    data: Omit<GroupBooking, 'id' | 'status' | 'createdAt' | 'updatedAt' | 'bookings'>
+): GroupBooking => {
+    const now = new Date();
+    const group: GroupBooking = {
+        ...data,
+        id: `group-${now.getTime()}`,
+        status: GroupBookingStatus.INQUIRY,
+        createdAt: now,
+        updatedAt: now,
+    };
+    mockGroupBookings.push(group);
+    return withBookings(group);
+};
+
+/**
+ * Issue (or revise) a quote reserving a block of sites
+ */
+export const quoteMockGroupBooking = (
+    id: string,
+    quote: { siteIds: string[]; eventDate: Date; eventEndDate: Date; specialRate?: number }
+): GroupBooking => {
+    const { group, index } = findGroup(id);
+    if (!groupBookingUtils.canTransition(group.status, GroupBookingStatus.QUOTED)) {
+        throw new Error(`Cannot quote a ${group.status} group booking`);
+    }
+
+    const held = groupBookingUtils.getHeldSiteIds(mockGroupBookings, quote.eventDate, quote.eventEndDate, id);
+    const clash = quote.siteIds.find((siteId) => held.has(siteId));
+    if (clash) {
+        throw new Error(`Site ${clash} is already reserved by another group for these dates`);
+    }
+    const booked = findUnavailableSite(id, quote.siteIds, quote.eventDate, quote.eventEndDate);
+    if (booked) {
+        throw new Error(`Site ${booked} is not available for these dates`);
+    }
+
+    const sites = quote.siteIds.map((siteId) => {
+        const site = getMockSiteById(siteId);
+        if (!site) throw new Error(`Site ${siteId} not found`);
+        return site;
+    });
+    const { total } = groupBookingUtils.calculateGroupQuote(
+        sites,
+        quote.eventDate,
+        quote.eventEndDate,
+        quote.specialRate,
+        getActiveMockPricingRules()
+    );
+
+    return withBookings(saveGroup(index, {
+        ...group,
+        ...quote,
+        quotedTotal: total,
+        status: GroupBookingStatus.QUOTED,
+        updatedAt: new Date(),
+    }));
+};
+
+/**
+ * Convert a quote into one confirmed booking per reserved site
+ */
+export const convertMockGroupBooking = (id: string): GroupBooking => {
+    const { group, index } = findGroup(id);
+    if (!groupBookingUtils.canTransition(group.status, GroupBookingStatus.CONFIRMED) || !group.siteIds?.length) {
+        throw new Error('Only quoted group bookings with reserved sites can be converted');
+    }
+
+    const checkIn = new Date(group.eventDate);
+    const checkOut = new Date(group.eventEndDate ?? group.eventDate);
+    // Individual bookings may have taken a site since the quote was issued
+    const booked = findUnavailableSite(id, group.siteIds, checkIn, checkOut);
+    if (booked) {
+        throw new Error(`Site ${booked} has been booked since the quote was issued; revise the quote first`);
+    }
+    const sites = group.siteIds.map((siteId) => getMockSiteById(siteId)).filter((site) => site !== undefined);
+    const quote = groupBookingUtils.calculateGroupQuote(sites, checkIn, checkOut, group.specialRate, getActiveMockPricingRules());
+    const guestSplit = groupBookingUtils.splitGuests(group.expectedGuests, sites.length);
+    const [firstName = group.contactName, ...rest] = group.contactName.split(' ');
+    const now = new Date();
+
+    const bookings: Booking[] = sites.map((site, siteIndex) => {
+        const subtotal = quote.sites[siteIndex]?.subtotal ?? 0;
+        const taxAmount = currencyUtils.roundToNearestCent(currencyUtils.calculateTax(subtotal, MOCK_TAX_RATE));
+        const totalAmount = currencyUtils.roundToNearestCent(subtotal + taxAmount);
+        return {
+            id: `booking-${group.id}-${siteIndex + 1}`,
+            bookingNumber: `GRP-${group.id.replace(/\D/g, '').slice(-6)}-${siteIndex + 1}`,
+            userId: `group-contact-${group.id}`,
+            siteId: site.id,
+            site,
+            checkInDate: checkIn,
+            checkOutDate: checkOut,
+            guests: { adults: guestSplit[siteIndex] ?? 1, children: 0, pets: 0 },
+            vehicles: [],
+            status: BookingStatus.CONFIRMED,
+            paymentStatus: PaymentStatus.PENDING,
+            totalAmount,
+            paidAmount: 0,
+            depositAmount: businessUtils.calculateDepositAmount(totalAmount, MOCK_DEPOSIT_PERCENTAGE),
+            taxAmount,
+            discountAmount: 0,
+            notes: `Part of group booking "${group.name}"`,
+            groupBookingId: group.id,
+            user: {
+                id: `group-contact-${group.id}`,
+                email: group.contactEmail,
+                firstName,
+                lastName: rest.join(' '),
+                phone: group.contactPhone,
+                role: UserRole.CUSTOMER,
+                isActive: true,
+                isEmailVerified: false,
+                isPhoneVerified: false,
+                createdAt: now,
+                updatedAt: now,
+            },
+            createdAt: now,
+            updatedAt: now,
+        };
+    });
+    mockBookings.push(...bookings);
+
+    return withBookings(saveGroup(index, {
+        ...group,
+        status: GroupBookingStatus.CONFIRMED,
+        updatedAt: now,
+    }));
+};
+
+/**
+ * Cancel a group booking and any bookings created from it
+ */
+export const cancelMockGroupBooking = (id: string): GroupBooking => {
+    const { group, index } = findGroup(id);
+    if (!groupBookingUtils.canTransition(group.status, GroupBookingStatus.CANCELLED)) {
+        throw new Error(`Cannot cancel a ${group.status} group booking`);
+    }
+
+    mockBookings.forEach((booking, bookingIndex) => {
+        if (booking.groupBookingId === id && booking.status !== BookingStatus.CHECKED_OUT) {
+            mockBookings[bookingIndex] = { ...booking, status: BookingStatus.CANCELLED, updatedAt: new Date() };
+        }
+    });
+
+    return withBookings(saveGroup(index, {
+        ...group,
+        status: GroupBookingStatus.CANCELLED,
+        updatedAt: new Date(),
+    }));
+};
+
+/**
+ * Check in a single member booking of a group
+ */
+export const checkInMockGroupMember = (bookingId: string): Booking => {
+    const index = mockBookings.findIndex((booking) => booking.id === bookingId);
+    const booking = mockBookings[index];
+    if (!booking) {
+        throw new Error(`Booking ${bookingId} not found`);
+    }
+    if (booking.status === BookingStatus.CANCELLED) {
+        throw new Error(`Booking ${booking.bookingNumber} has been cancelled`);
+    }
+    const updated: Booking = { ...booking, status: BookingStatus.CHECKED_IN, checkInTime: new Date(), updatedAt: new Date() };
+    mockBookings[index] = updated;
+    return updated;
+};
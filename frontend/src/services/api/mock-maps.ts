@@ -0,0 +1,122 @@
+/**
+ * Mock Maps Data
+ * Provides a sample campsite map, and an in-memory list of maps starting
+ * with it, for local development when API is unavailable
+ */
+
+import type { AnyModule, CampsiteMap } from '@/types';
+import { mockSites } from './mock-sites';
+
+const CREATED_AT = new Date('2024-01-15');
+
+/**
+ * One campsite module per mock site, placed at the site's map position and bound to it
+ */
+const campsiteModules: AnyModule[] = mockSites.map((site, index) => ({
+    id: `module-${site.id}`,
+    type: 'campsite',
+    position: { ...site.location.mapPosition },
+    size: { width: 60, height: 40 },
+    rotation: 0,
+    zIndex: index + 1,
+    locked: false,
+    visible: true,
+    metadata: {
+        siteId: site.id,
+        name: site.name,
+        capacity: site.capacity,
+        amenities: [...site.amenities],
+        pricing: { basePrice: site.basePrice, seasonalMultiplier: 1 },
+        accessibility: false,
+        electricHookup: site.hasElectricity,
+        waterHookup: site.hasWater,
+        sewerHookup: site.hasSewer,
+    },
+    createdAt: CREATED_AT,
+    updatedAt: CREATED_AT,
+}));
+
+const facilityModules: AnyModule[] = [
+    {
+        id: 'module-restroom-a',
+        type: 'toilet',
+        position: { x: 380, y: 60 },
+        size: { width: 60, height: 50 },
+        rotation: 0,
+        zIndex: 20,
+        locked: false,
+        visible: true,
+        metadata: {
+            name: 'Restroom A',
+            capacity: 10,
+            facilities: ['male', 'female', 'accessible'],
+            maintenanceSchedule: 'daily',
+            accessible: true,
+        },
+        createdAt: CREATED_AT,
+        updatedAt: CREATED_AT,
+    },
+    {
+        id: 'module-parking-main',
+        type: 'parking',
+        position: { x: 20, y: 20 },
+        size: { width: 160, height: 80 },
+        rotation: 0,
+        zIndex: 21,
+        locked: false,
+        visible: true,
+        metadata: {
+            name: 'Main Parking',
+            capacity: 30,
+            vehicleTypes: ['car', 'rv'],
+            accessible: true,
+        },
+        createdAt: CREATED_AT,
+        updatedAt: CREATED_AT,
+    },
+];
+
+/**
+ * Sample campground map with every mock site placed on it
+ */
+export const mockMap: CampsiteMap = {
+    id: 'map-sample',
+    name: 'Sample Campsite',
+    description: 'A sample campsite map',
+    imageUrl: '',
+    imageSize: { width: 800, height: 620 },
+    scale: 1,
+    bounds: { minX: 0, minY: 0, maxX: 800, maxY: 620 },
+    modules: [...facilityModules, ...campsiteModules],
+    metadata: {
+        address: '123 Camp Road',
+        coordinates: { latitude: 34.0522, longitude: -118.2437 },
+        timezone: 'America/Los_Angeles',
+        capacity: campsiteModules.length,
+        amenities: [],
+        rules: [],
+        emergencyContacts: [],
+    },
+    createdAt: CREATED_AT,
+    updatedAt: CREATED_AT,
+};
+
+const mockMaps: CampsiteMap[] = [{ ...mockMap, isPublished: true }];
+
+/**
+ * Get every map in the mock list
+ */
+export const getMockMaps = (): CampsiteMap[] => [...mockMaps];
+
+/**
+ * Get the mock map under the requested ID.
+ * IDs not in the list resolve to the sample map, so any map can be opened.
+ */
+export const getMockMapById = (id: string): CampsiteMap =>
+    mockMaps.find((map) => map.id === id) ?? { ...mockMap, id };
+
+/**
+ * Get the published mock map, if there is one
+ */
+export const getMockPublishedMap = (): CampsiteMap | null =>
+    mockMaps.find((map) => map.isPublished) ?? null;
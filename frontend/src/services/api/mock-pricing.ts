@@ -0,0 +1,110 @@
+/**
+ * Mock Pricing Data
+ * Provides sample pricing rules for local development when API is unavailable
+ */
+
+import { SiteType } from '@/types';
+import type { PricingRule } from '@/types';
+
+const year = new Date().getFullYear();
+
+/** Sales tax applied to mock quotes */
+export const MOCK_TAX_RATE = 0.08;
+
+/** Deposit required to confirm a mock booking, as a percentage of the total */
+export const MOCK_DEPOSIT_PERCENTAGE = 25;
+
+/**
+ * Mock Pricing Rules Collection
+ * Seasonal, weekend and long-stay rules covering every site type
+ */
+export const mockPricingRules: PricingRule[] = [
+    {
+        id: 'rule-weekend',
+        name: 'Weekend Premium',
+        description: 'Friday and Saturday nights are charged at 120% of the base rate',
+        siteTypes: [SiteType.CABIN, SiteType.RV, SiteType.TENT],
+        startDate: new Date(year, 0, 1),
+        endDate: new Date(year + 1, 11, 31),
+        daysOfWeek: [5, 6],
+        priceModifier: 1.2,
+        modifierType: 'multiplier',
+        priority: 10,
+        isActive: true,
+        createdAt: new Date('2024-01-01'),
+        updatedAt: new Date('2024-01-01'),
+    },
+    {
+        id: 'rule-summer',
+        name: 'Summer Peak Season',
+        description: 'High season surcharge for June through August',
+        siteTypes: [SiteType.CABIN, SiteType.RV, SiteType.TENT],
+        startDate: new Date(year, 5, 1),
+        endDate: new Date(year, 7, 31),
+        daysOfWeek: [],
+        priceModifier: 25,
+        modifierType: 'percentage',
+        priority: 20,
+        isActive: true,
+        createdAt: new Date('2024-01-01'),
+        updatedAt: new Date('2024-03-15'),
+    },
+    {
+        id: 'rule-holiday-cabins',
+        name: 'Holiday Cabins',
+        description: 'Flat holiday surcharge on cabins over the festive period',
+        siteTypes: [SiteType.CABIN],
+        startDate: new Date(year, 11, 20),
+        endDate: new Date(year + 1, 0, 2),
+        daysOfWeek: [],
+        priceModifier: 40,
+        modifierType: 'fixed',
+        priority: 40,
+        isActive: true,
+        createdAt: new Date('2024-06-01'),
+        updatedAt: new Date('2024-06-01'),
+    },
+    {
+        id: 'rule-long-stay',
+        name: 'Long Stay Discount',
+        description: '10% off every night for stays of a week or longer',
+        siteTypes: [SiteType.RV, SiteType.TENT],
+        startDate: new Date(year, 0, 1),
+        endDate: new Date(year + 1, 11, 31),
+        daysOfWeek: [],
+        priceModifier: -10,
+        modifierType: 'percentage',
+        minStay: 7,
+        priority: 30,
+        isActive: true,
+        createdAt: new Date('2024-02-10'),
+        updatedAt: new Date('2024-02-10'),
+    },
+    {
+        id: 'rule-shoulder-tent',
+        name: 'Shoulder Season Tents',
+        description: 'Discounted tent sites in early spring (currently paused)',
+        siteTypes: [SiteType.TENT],
+        startDate: new Date(year, 2, 1),
+        endDate: new Date(year, 3, 30),
+        daysOfWeek: [],
+        priceModifier: 0.8,
+        modifierType: 'multiplier',
+        priority: 15,
+        isActive: false,
+        createdAt: new Date('2024-02-10'),
+        updatedAt: new Date('2024-09-01'),
+    },
+];
+
+/**
+ * Get all mock pricing rules
+ */
+export const getMockPricingRules = (): PricingRule[] => mockPricingRules;
+
+/**
+ * Get active mock pricing rules
+ */
+export const getActiveMockPricingRules = (): PricingRule[] => {
+    return mockPricingRules.filter((rule) => rule.isActive);
+};
@@ -321,6 +321,20 @@ export const getMockSiteById = (id: string): Site | undefined => {
     return mockSites.find(site => site.id === id);
 };
 
+/**
+ * Update a mock site in place
+ */
+export const updateMockSite = (id: string, changes: Partial<Site>): Site => {
+    const index = mockSites.findIndex(site => site.id === id);
+    const site = mockSites[index];
+    if (!site) {
+        throw new Error(`Site ${id} not found`);
+    }
+    const updated: Site = { ...site, ...changes, id: site.id, updatedAt: new Date() };
+    mockSites[index] = updated;
+    return updated;
+};
+
 /**
  * Get mock sites by type
  */
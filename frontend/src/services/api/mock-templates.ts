@@ -0,0 +1,186 @@
+/**
+ * Mock Templates Data
+ * Provides a starter template library and in-memory saving for local development when API is unavailable
+ */
+
+import type { CampsiteTemplate, ModuleTemplate, TemplateSearchFilters } from '@/types';
+import { buildTemplatePreview, filterTemplates, type TemplateModule } from '@/utils/mapTemplates';
+import { getModuleColor } from '@/utils/moduleFactory';
+
+const CREATED_AT = new Date('2024-02-01');
+
+const campsite = (name: string, x: number, y: number, electricHookup: boolean): TemplateModule => ({
+    type: 'campsite',
+    position: { x, y },
+    size: { width: 60, height: 40 },
+    rotation: 0,
+    zIndex: 1,
+    locked: false,
+    visible: true,
+    metadata: {
+        name,
+        capacity: 6,
+        amenities: electricHookup ? ['electricity', 'water'] : [],
+        pricing: { basePrice: electricHookup ? 45 : 25, seasonalMultiplier: 1 },
+        accessibility: false,
+        electricHookup,
+        waterHookup: electricHookup,
+        sewerHookup: false,
+    },
+});
+
+const rvLoopModules: TemplateModule[] = [
+    {
+        type: 'road',
+        position: { x: 0, y: 50 },
+        size: { width: 300, height: 20 },
+        rotation: 0,
+        zIndex: 1,
+        locked: false,
+        visible: true,
+        metadata: {
+            name: 'Loop Road',
+            roadType: 'secondary',
+            surfaceType: 'gravel',
+            width: 6,
+            speedLimit: 10,
+            accessLevel: 'public',
+        },
+    },
+    ...[0, 1, 2].map((index) => ({ ...campsite(`Site ${index + 1}`, 20 + index * 100, 0, true), zIndex: index + 2 })),
+    ...[3, 4, 5].map((index) => ({ ...campsite(`Site ${index + 1}`, 20 + (index - 3) * 100, 80, true), zIndex: index + 2 })),
+];
+
+const comfortStationModules: TemplateModule[] = [
+    {
+        type: 'toilet',
+        position: { x: 0, y: 0 },
+        size: { width: 60, height: 50 },
+        rotation: 0,
+        zIndex: 1,
+        locked: false,
+        visible: true,
+        metadata: {
+            name: 'Comfort Station',
+            capacity: 8,
+            facilities: ['male', 'female', 'accessible', 'family'],
+            maintenanceSchedule: 'daily',
+            accessible: true,
+        },
+    },
+    {
+        type: 'water_source',
+        position: { x: 70, y: 10 },
+        size: { width: 30, height: 30 },
+        rotation: 0,
+        zIndex: 2,
+        locked: false,
+        visible: true,
+        metadata: {
+            name: 'Drinking Water',
+            sourceType: 'tap',
+            potable: true,
+            pressure: 40,
+            capacity: 0,
+        },
+    },
+    {
+        type: 'waste_disposal',
+        position: { x: 110, y: 10 },
+        size: { width: 30, height: 30 },
+        rotation: 0,
+        zIndex: 3,
+        locked: false,
+        visible: true,
+        metadata: {
+            name: 'Bins',
+            disposalType: 'garbage',
+            capacity: 4,
+            collectionSchedule: 'weekly',
+            accessible: true,
+        },
+    },
+];
+
+/**
+ * Mock Map Templates Collection
+ * Multi-module layouts shared with every editor
+ */
+export const mockMapTemplates: CampsiteTemplate[] = [
+    {
+        id: 'template-rv-loop',
+        name: 'RV Loop (6 sites)',
+        description: 'Six full-hookup RV sites either side of a gravel loop road',
+        category: 'Layouts',
+        modules: rvLoopModules,
+        previewImage: buildTemplatePreview(rvLoopModules),
+        tags: ['rv', 'hookups', 'road'],
+        isPublic: true,
+        createdBy: 'system',
+        createdAt: CREATED_AT,
+        updatedAt: CREATED_AT,
+    },
+    {
+        id: 'template-comfort-station',
+        name: 'Comfort Station',
+        description: 'Accessible restroom with drinking water and bins alongside',
+        category: 'Facilities',
+        modules: comfortStationModules,
+        previewImage: buildTemplatePreview(comfortStationModules),
+        tags: ['restroom', 'water', 'accessible'],
+        isPublic: true,
+        createdBy: 'system',
+        createdAt: CREATED_AT,
+        updatedAt: CREATED_AT,
+    },
+];
+
+/**
+ * Mock Module Templates Collection
+ * Built-in preconfigured single modules
+ */
+export const mockModuleTemplates: ModuleTemplate[] = [
+    {
+        id: 'module-template-tent-pad',
+        name: 'Tent Pad',
+        description: 'Small walk-in tent site without hookups',
+        type: 'campsite',
+        defaultSize: { width: 40, height: 40 },
+        defaultMetadata: { ...campsite('Tent Pad', 0, 0, false).metadata, capacity: 4, pricing: { basePrice: 20, seasonalMultiplier: 1 } },
+        icon: 'campsite',
+        color: getModuleColor('campsite'),
+        category: 'Sites',
+        customizable: true,
+        tags: ['tent', 'primitive'],
+        createdAt: CREATED_AT,
+        updatedAt: CREATED_AT,
+    },
+    {
+        id: 'module-template-accessible-site',
+        name: 'Accessible RV Site',
+        description: 'Wide, level full-hookup site with accessible access',
+        type: 'campsite',
+        defaultSize: { width: 80, height: 50 },
+        defaultMetadata: { ...campsite('Accessible Site', 0, 0, true).metadata, accessibility: true },
+        icon: 'campsite',
+        color: getModuleColor('campsite'),
+        category: 'Sites',
+        customizable: true,
+        tags: ['rv', 'accessible', 'hookups'],
+        createdAt: CREATED_AT,
+        updatedAt: CREATED_AT,
+    },
+];
+
+/**
+ * Search map templates
+ */
+export const getMockMapTemplates = (filters?: TemplateSearchFilters): CampsiteTemplate[] =>
+    filterTemplates(mockMapTemplates, filters);
+
+/**
+ * Search module templates
+ */
+export const getMockModuleTemplates = (filters?: TemplateSearchFilters): ModuleTemplate[] =>
+    filterTemplates(mockModuleTemplates, filters);
+
@@ -0,0 +1,68 @@
+/**
+ * Pricing API Service
+ * Handles pricing rule management API calls
+ */
+
+import { get, post, put, del } from './client';
+import { API_ENDPOINTS } from '@shared/constants';
+import type { PricingRule, ApiPricingRule, ApiResponse } from '@/types';
+
+export type PricingRuleData = Omit<PricingRule, 'id' | 'createdAt' | 'updatedAt'>;
+
+// The client base URL already carries the /api prefix
+const PRICING_ENDPOINT = API_ENDPOINTS.SETTINGS.PRICING.replace(/^\/api/, '');
+
+const toPricingRule = (rule: ApiPricingRule): PricingRule => ({
+  ...rule,
+  startDate: new Date(rule.startDate),
+  endDate: new Date(rule.endDate),
+  createdAt: new Date(rule.createdAt),
+  updatedAt: new Date(rule.updatedAt),
+});
+
+/**
+ * Get all pricing rules
+ * Falls back to mock data if API is unavailable
+ */
+export const getPricingRules = async (): Promise<PricingRule[]> => {
+  try {
+    const response = await get<ApiResponse<ApiPricingRule[]>>(PRICING_ENDPOINT);
+
+    if (!response || !response.data || response.data.length === 0) {
+      const { getMockPricingRules } = await import('./mock-pricing');
+      return [...getMockPricingRules()];
+    }
+
+    return response.data.map(toPricingRule);
+  } catch (error) {
+    console.warn('Failed to fetch pricing rules from API, using mock data:', error);
+    const { getMockPricingRules } = await import('./mock-pricing');
+    return [...getMockPricingRules()];
+  }
+};
+
+/**
+ * Create a pricing rule
+ */
+export const createPricingRule = async (data: PricingRuleData): Promise<PricingRule> => {
+  const response = await post<ApiResponse<ApiPricingRule>>(PRICING_ENDPOINT, data);
+  return toPricingRule(response.data!);
+};
+
+/**
+ * Update a pricing rule
+ */
+export const updatePricingRule = async (
+  id: string,
+  data: Partial<PricingRuleData>
+): Promise<PricingRule> => {
+  const response = await put<ApiResponse<ApiPricingRule>>(`${PRICING_ENDPOINT}/${id}`, data);
+  return toPricingRule(response.data!);
+};
+
+/**
+ * Delete a pricing rule
+ */
+export const deletePricingRule = async (id: string): Promise<void> => {
+  await del(`${PRICING_ENDPOINT}/${id}`);
+};
@@ -142,5 +142,9 @@ export const checkSiteAvailability = async (
   const response = await get<ApiResponse<{ available: boolean }>>(`/sites/${siteId}/check-availability`, {
     params: { startDate, endDate, excludeBookingId },
   });
-  return response.data?.available || false;
+  // No answer is not the same as booked; let callers fall back or report the failure
+  if (typeof response.data?.available !== 'boolean') {
+    throw new Error(`No availability returned for site ${siteId}`);
+  }
+  return response.data.available;
 };
@@ -0,0 +1,62 @@
+/**
+ * Templates API Service
+ * Handles the library of reusable map layouts and preconfigured modules
+ */
+
+import { get, post, del } from './client';
+import { API_ENDPOINTS } from '@shared/constants';
+import type { CampsiteTemplate, ModuleTemplate, TemplateSearchFilters, ApiResponse } from '@/types';
+
+export type CreateMapTemplateData = Omit<CampsiteTemplate, 'id' | 'createdAt' | 'updatedAt'>;
+
+// The client base URL already carries the /api prefix
+const endpoint = (path: string) => path.replace(/^\/api/, '');
+
+/**
+ * Search map templates
+ * Falls back to mock data if API is unavailable
+ */
+export const getMapTemplates = async (filters?: TemplateSearchFilters): Promise<CampsiteTemplate[]> => {
+  try {
+    const response = await get<ApiResponse<CampsiteTemplate[]>>(endpoint(API_ENDPOINTS.TEMPLATES.MAPS), {
+      params: filters,
+    });
+    return response.data || [];
+  } catch (error) {
+    console.warn('Failed to fetch map templates from API, using mock data:', error);
+    const { getMockMapTemplates } = await import('./mock-templates');
+    return getMockMapTemplates(filters);
+  }
+};
+
+/**
+ * Search the built-in preconfigured modules
+ * Falls back to mock data if API is unavailable
+ */
+export const getModuleTemplates = async (filters?: TemplateSearchFilters): Promise<ModuleTemplate[]> => {
+  try {
+    const response = await get<ApiResponse<ModuleTemplate[]>>(endpoint(API_ENDPOINTS.TEMPLATES.MODULES), {
+      params: filters,
+    });
+    return response.data || [];
+  } catch (error) {
+    console.warn('Failed to fetch module templates from API, using mock data:', error);
+    const { getMockModuleTemplates } = await import('./mock-templates');
+    return getMockModuleTemplates(filters);
+  }
+};
+
+/**
+ * Save a selection or whole map as a map template
+ */
+export const createMapTemplate = async (data: CreateMapTemplateData): Promise<CampsiteTemplate> => {
+  const response = await post<ApiResponse<CampsiteTemplate>>(endpoint(API_ENDPOINTS.TEMPLATES.MAPS), data);
+  return response.data!;
+};
+
+/**
+ * Delete a map template
+ */
+export const deleteMapTemplate = async (id: string): Promise<void> => {
+  await del(endpoint(API_ENDPOINTS.TEMPLATES.MAP_BY_ID(id)));
+};
@@ -0,0 +1,417 @@
+/**
+ * Collaboration Session
+ * Shares editing of one map between everyone who has it open: commands are
+ * broadcast and applied on arrival, pointers and soft locks are tracked per
+ * editor, and concurrent edits to the same module are resolved the same way
+ * on every side, so all editors end up with the same map.
+ */
+
+import type { Position } from '@/types';
+import {
+  deserializeCommand,
+  getCommandModuleIds,
+  invertCommand,
+  serializeCommand,
+  type Command,
+  type SerializedCommand,
+} from '@/commands';
+import {
+  SOCKET_EVENTS,
+  type EditStamp,
+  type EventHandler,
+  type MapCommandPayload,
+  type MapLeavePayload,
+  type MapLockPayload,
+  type MapPresencePayload,
+} from '@/services/websocket/types';
+
+/**
+ * The part of the WebSocket service a session needs
+ */
+export interface CollaborationTransport {
+  emit(event: string, data?: unknown): void;
+  subscribe<T = unknown>(event: string, handler: EventHandler<T>): () => void;
+}
+
+export interface Collaborator {
+  clientId: string;
+  name: string;
+  color: string;
+  cursor: Position | null;
+  /** When anything was last heard from them */
+  lastSeen: number;
+}
+
+export interface ModuleLock {
+  clientId: string;
+  name: string;
+  color: string;
+  expiresAt: number;
+}
+
+export interface CollaborationConflict {
+  moduleIds: string[];
+  /** Name of the other editor */
+  name: string;
+  /** Whose change won where both edited the same property */
+  kept: 'theirs' | 'ours';
+}
+
+export interface CollaborationSessionOptions {
+  mapId: string;
+  transport: CollaborationTransport;
+  name: string;
+  clientId?: string;
+  /** Called after a command from another editor changes the map */
+  onRemoteCommand?: () => void;
+  /** Called when another editor's command clashed with one of ours */
+  onConflict?: (conflict: CollaborationConflict) => void;
+  /** Apply another editor's command; runs it against the map store by default */
+  applyCommand?: (command: SerializedCommand) => void;
+  /** Clock for presence and lock timeouts, replaceable in tests */
+  now?: () => number;
+}
+
+/** Presence is re-sent this often, and editors not heard from in PRESENCE_TIMEOUT_MS are dropped */
+export const PRESENCE_INTERVAL_MS = 10_000;
+export const PRESENCE_TIMEOUT_MS = 30_000;
+/** Locks lapse unless refreshed, so one left by a closed tab does not block others for long */
+export const LOCK_TIMEOUT_MS = 10_000;
+const LOCK_REFRESH_MS = 3_000;
+const CURSOR_THROTTLE_MS = 50;
+
+export const COLLABORATOR_COLORS = ['#e11d48', '#2563eb', '#16a34a', '#9333ea', '#ea580c', '#0891b2', '#ca8a04', '#db2777'];
+
+/**
+ * Pick a stable colour for an editor
+ */
+export const getCollaboratorColor = (clientId: string): string => {
+  let hash = 0;
+  for (const char of clientId) {
+    hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  }
+  return COLLABORATOR_COLORS[Math.abs(hash) % COLLABORATOR_COLORS.length]!;
+};
+
+/**
+ * Check whether one edit was made after another
+ */
+export const isLaterStamp = (a: EditStamp, b: EditStamp): boolean =>
+  a.clock !== b.clock ? a.clock > b.clock : a.clientId > b.clientId;
+
+const isSameStamp = (a: EditStamp | null, b: EditStamp | null): boolean =>
+  a === b || (!!a && !!b && a.clock === b.clock && a.clientId === b.clientId);
+
+/**
+ * Collaboration Session Class
+ * One per open map; start() joins the map's editors and stop() leaves
+ */
+export class CollaborationSession {
+  readonly clientId: string;
+  readonly color: string;
+
+  private readonly mapId: string;
+  private readonly name: string;
+  private readonly transport: CollaborationTransport;
+  private readonly options: CollaborationSessionOptions;
+  private readonly now: () => number;
+
+  private clock = 0;
+  /** Latest edit applied to each module, and the command that made it */
+  private lastEdits = new Map<string, { stamp: EditStamp; command: SerializedCommand }>();
+  private collaborators = new Map<string, Collaborator>();
+  private locks = new Map<string, ModuleLock>();
+  private ownLocks: string[] = [];
+  private lockSentAt = 0;
+  private cursor: Position | null = null;
+  private cursorSentAt = 0;
+  private cursorTimer: ReturnType<typeof setTimeout> | null = null;
+  private presenceTimer: ReturnType<typeof setInterval> | null = null;
+  private unsubscribers: (() => void)[] = [];
+  private listeners = new Set<() => void>();
+
+  constructor(options: CollaborationSessionOptions) {
+    this.options = options;
+    this.mapId = options.mapId;
+    this.name = options.name;
+    this.transport = options.transport;
+    this.clientId = options.clientId ?? crypto.randomUUID();
+    this.color = getCollaboratorColor(this.clientId);
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Join the map's editors
+   */
+  public start(): void {
+    const handlers: [string, EventHandler<never>][] = [
+      [SOCKET_EVENTS.MAP_JOIN, (payload: MapPresencePayload) => this.handleJoin(payload)],
+      [SOCKET_EVENTS.MAP_PRESENCE, (payload: MapPresencePayload) => this.handlePresence(payload)],
+      [SOCKET_EVENTS.MAP_LEAVE, (payload: MapLeavePayload) => this.handleLeave(payload)],
+      [SOCKET_EVENTS.MAP_COMMAND, (payload: MapCommandPayload) => this.handleCommand(payload)],
+      [SOCKET_EVENTS.MAP_LOCK, (payload: MapLockPayload) => this.handleLock(payload)],
+    ];
+    this.unsubscribers = handlers.map(([event, handler]) =>
+      this.transport.subscribe(event, handler as EventHandler)
+    );
+
+    this.transport.emit(SOCKET_EVENTS.MAP_JOIN, this.getPresence());
+    this.presenceTimer = setInterval(() => {
+      this.transport.emit(SOCKET_EVENTS.MAP_PRESENCE, this.getPresence());
+      this.prune();
+    }, PRESENCE_INTERVAL_MS);
+  }
+
+  /**
+   * Leave the map's editors, releasing any locks
+   */
+  public stop(): void {
+    this.unlockModules();
+    this.transport.emit(SOCKET_EVENTS.MAP_LEAVE, { mapId: this.mapId, clientId: this.clientId });
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe());
+    this.unsubscribers = [];
+    if (this.presenceTimer) clearInterval(this.presenceTimer);
+    if (this.cursorTimer) clearTimeout(this.cursorTimer);
+    this.presenceTimer = null;
+    this.cursorTimer = null;
+    this.collaborators.clear();
+    this.locks.clear();
+    this.notify();
+  }
+
+  /**
+   * Listen for changes to collaborators and locks
+   * Returns unsubscribe function
+   */
+  public subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  public getCollaborators(): Collaborator[] {
+    return [...this.collaborators.values()];
+  }
+
+  /**
+   * Modules other editors are transforming, keyed by module ID
+   */
+  public getLocks(): Map<string, ModuleLock> {
+    return this.locks;
+  }
+
+  /**
+   * Send a command run locally to the other editors
+   */
+  public broadcastCommand(command: Command, action: 'execute' | 'undo'): void {
+    const serialized = serializeCommand(command);
+    if (!serialized) return;
+
+    const data = action === 'undo' ? invertCommand(serialized) : serialized;
+    const moduleIds = getCommandModuleIds(data);
+    const stamp = { clock: ++this.clock, clientId: this.clientId };
+    const base = Object.fromEntries(moduleIds.map((id) => [id, this.lastEdits.get(id)?.stamp ?? null]));
+    moduleIds.forEach((id) => this.lastEdits.set(id, { stamp, command: data }));
+
+    const payload: MapCommandPayload = { mapId: this.mapId, clientId: this.clientId, name: this.name, stamp, base, command: data };
+    this.transport.emit(SOCKET_EVENTS.MAP_COMMAND, payload);
+  }
+
+  /**
+   * Share the pointer position, at most every CURSOR_THROTTLE_MS
+   */
+  public updateCursor(cursor: Position | null): void {
+    this.cursor = cursor;
+    if (this.cursorTimer) return;
+
+    const wait = this.cursorSentAt + CURSOR_THROTTLE_MS - this.now();
+    if (wait <= 0) {
+      this.sendCursor();
+    } else {
+      this.cursorTimer = setTimeout(() => this.sendCursor(), wait);
+    }
+  }
+
+  /**
+   * Claim modules while transforming them. Repeated calls refresh the lock.
+   */
+  public lockModules(moduleIds: string[]): void {
+    const unchanged = moduleIds.length === this.ownLocks.length && moduleIds.every((id) => this.ownLocks.includes(id));
+    if (unchanged && this.now() - this.lockSentAt < LOCK_REFRESH_MS) return;
+
+    this.ownLocks = moduleIds;
+    this.lockSentAt = this.now();
+    this.emitLock(true);
+  }
+
+  public unlockModules(): void {
+    if (this.ownLocks.length === 0) return;
+    this.emitLock(false);
+    this.ownLocks = [];
+  }
+
+  /**
+   * Drop editors not heard from lately and locks that have lapsed
+   */
+  public prune(): void {
+    const now = this.now();
+    let changed = false;
+
+    this.collaborators.forEach((collaborator, clientId) => {
+      if (now - collaborator.lastSeen > PRESENCE_TIMEOUT_MS) {
+        this.collaborators.delete(clientId);
+        changed = true;
+      }
+    });
+    this.locks.forEach((lock, moduleId) => {
+      if (lock.expiresAt <= now) {
+        this.locks.delete(moduleId);
+        changed = true;
+      }
+    });
+
+    if (changed) this.notify();
+  }
+
+  private getPresence(): MapPresencePayload {
+    return {
+      mapId: this.mapId,
+      clientId: this.clientId,
+      name: this.name,
+      color: this.color,
+      cursor: this.cursor,
+      clock: this.clock,
+    };
+  }
+
+  private sendCursor(): void {
+    this.cursorTimer = null;
+    this.cursorSentAt = this.now();
+    this.transport.emit(SOCKET_EVENTS.MAP_PRESENCE, this.getPresence());
+  }
+
+  private emitLock(locked: boolean): void {
+    const payload: MapLockPayload = {
+      mapId: this.mapId,
+      clientId: this.clientId,
+      name: this.name,
+      color: this.color,
+      moduleIds: this.ownLocks,
+      locked,
+    };
+    this.transport.emit(SOCKET_EVENTS.MAP_LOCK, payload);
+  }
+
+  private isForUs(payload: { mapId: string; clientId: string }): boolean {
+    return payload.mapId === this.mapId && payload.clientId !== this.clientId;
+  }
+
+  private notify(): void {
+    this.listeners.forEach((listener) => listener());
+  }
+
+  private handleJoin(payload: MapPresencePayload): void {
+    if (!this.isForUs(payload)) return;
+    this.handlePresence(payload);
+
+    // Introduce ourselves to the newcomer, along with anything we hold
+    this.transport.emit(SOCKET_EVENTS.MAP_PRESENCE, this.getPresence());
+    if (this.ownLocks.length > 0) this.emitLock(true);
+  }
+
+  private handlePresence(payload: MapPresencePayload): void {
+    if (!this.isForUs(payload)) return;
+    this.clock = Math.max(this.clock, payload.clock);
+    this.collaborators.set(payload.clientId, {
+      clientId: payload.clientId,
+      name: payload.name,
+      color: payload.color,
+      cursor: payload.cursor,
+      lastSeen: this.now(),
+    });
+    this.notify();
+  }
+
+  private handleLeave(payload: MapLeavePayload): void {
+    if (!this.isForUs(payload)) return;
+    this.collaborators.delete(payload.clientId);
+    this.locks.forEach((lock, moduleId) => {
+      if (lock.clientId === payload.clientId) this.locks.delete(moduleId);
+    });
+    this.notify();
+  }
+
+  private handleLock(payload: MapLockPayload): void {
+    if (!this.isForUs(payload)) return;
+
+    this.locks.forEach((lock, moduleId) => {
+      if (lock.clientId === payload.clientId) this.locks.delete(moduleId);
+    });
+    if (payload.locked) {
+      const expiresAt = this.now() + LOCK_TIMEOUT_MS;
+      payload.moduleIds.forEach((moduleId) => {
+        this.locks.set(moduleId, { clientId: payload.clientId, name: payload.name, color: payload.color, expiresAt });
+      });
+    }
+    this.notify();
+  }
+
+  /**
+   * Apply another editor's command. If we have applied a different edit to
+   * one of its modules than the sender had, the two were made at once: the
+   * later-stamped edit wins where both set the same property. When ours wins
+   * theirs is applied first and ours again over it, which leaves the same
+   * result they get by applying ours over theirs.
+   */
+  private handleCommand(payload: MapCommandPayload): void {
+    if (!this.isForUs(payload)) return;
+    this.clock = Math.max(this.clock, payload.stamp.clock);
+
+    const moduleIds = getCommandModuleIds(payload.command);
+    const conflicts = moduleIds.filter((id) => {
+      const last = this.lastEdits.get(id);
+      return !!last && !isSameStamp(last.stamp, payload.base[id] ?? null);
+    });
+    const winners = conflicts
+      .map((id) => this.lastEdits.get(id)!)
+      .filter(({ stamp }) => isLaterStamp(stamp, payload.stamp));
+    const ours = conflicts.filter((id) => this.lastEdits.get(id)!.stamp.clientId === this.clientId);
+
+    this.apply(payload.command);
+    const reapplied = new Set<SerializedCommand>();
+    winners.forEach(({ command }) => {
+      if (reapplied.has(command)) return;
+      reapplied.add(command);
+      this.apply(command);
+    });
+
+    moduleIds.forEach((id) => {
+      const last = this.lastEdits.get(id);
+      if (!last || isLaterStamp(payload.stamp, last.stamp)) {
+        this.lastEdits.set(id, { stamp: payload.stamp, command: payload.command });
+      }
+    });
+
+    if (ours.length > 0) {
+      this.options.onConflict?.({
+        moduleIds: ours,
+        name: payload.name,
+        kept: winners.some(({ stamp }) => stamp.clientId === this.clientId) ? 'ours' : 'theirs',
+      });
+    }
+    this.options.onRemoteCommand?.();
+  }
+
+  private apply(command: SerializedCommand): void {
+    try {
+      if (this.options.applyCommand) {
+        this.options.applyCommand(command);
+      } else {
+        deserializeCommand(command).execute();
+      }
+    } catch (error) {
+      console.warn('[Collaboration] Could not apply command:', error);
+    }
+  }
+}
+
+export default CollaborationSession;
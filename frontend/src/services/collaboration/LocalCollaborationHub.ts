@@ -0,0 +1,69 @@
+/**
+ * Local Collaboration Hub
+ * In-process stand-in for the WebSocket server's map rooms. Each connection
+ * is a transport for one editor; whatever one emits is delivered straight
+ * away to every other connection, as the server relays to the rest of a room.
+ * Holding delivery queues messages instead, to play out edits made at once.
+ */
+
+import type { EventHandler } from '@/services/websocket/types';
+import type { CollaborationTransport } from './CollaborationSession';
+
+type Connection = Map<string, Set<EventHandler>>;
+
+export class LocalCollaborationHub {
+  private connections = new Set<Connection>();
+  private queue: (() => void)[] | null = null;
+
+  /**
+   * Queue messages until flush() instead of delivering them
+   */
+  public hold(): void {
+    this.queue ??= [];
+  }
+
+  /**
+   * Deliver queued messages in the order they were sent and stop holding
+   */
+  public flush(): void {
+    const queued = this.queue ?? [];
+    this.queue = null;
+    queued.forEach((deliver) => deliver());
+  }
+
+  /**
+   * Open a connection for one editor
+   */
+  public connect(): CollaborationTransport & { close: () => void } {
+    const handlers: Connection = new Map();
+    this.connections.add(handlers);
+
+    return {
+      emit: (event, data) => {
+        const deliver = () => {
+          this.connections.forEach((connection) => {
+            if (connection === handlers) return;
+            connection.get(event)?.forEach((handler) => handler(data));
+          });
+        };
+        if (this.queue) {
+          this.queue.push(deliver);
+        } else {
+          deliver();
+        }
+      },
+      subscribe: <T = unknown>(event: string, handler: EventHandler<T>) => {
+        if (!handlers.has(event)) handlers.set(event, new Set());
+        handlers.get(event)!.add(handler as EventHandler);
+        return () => {
+          handlers.get(event)?.delete(handler as EventHandler);
+        };
+      },
+      close: () => {
+        this.connections.delete(handlers);
+      },
+    };
+  }
+}
+
+export default LocalCollaborationHub;
@@ -0,0 +1,131 @@
+/**
+ * Unit tests for the collaboration session
+ * Tests sharing commands, resolving concurrent edits, presence and soft locks
+ * between editors connected through the local hub
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { AddCommand, MoveCommand, PropertyCommand, type SerializedCommand } from '@/commands';
+import { useMapStore } from '@/stores/mapStore';
+import { mockMap } from '@/services/api/mock-maps';
+import { createNewModule } from '@/utils/moduleFactory';
+import type { AnyModule } from '@/types';
+import { CollaborationSession, LOCK_TIMEOUT_MS, type CollaborationConflict } from '../CollaborationSession';
+import { LocalCollaborationHub } from '../LocalCollaborationHub';
+
+const toilet = createNewModule('toilet', { x: 0, y: 0 });
+
+const rename = (name: string) =>
+  new PropertyCommand([
+    {
+      moduleId: toilet.id,
+      oldProps: { metadata: toilet.metadata } as Partial<AnyModule>,
+      newProps: { metadata: { ...toilet.metadata, name } } as Partial<AnyModule>,
+    },
+  ]);
+
+describe('CollaborationSession', () => {
+  let hub: LocalCollaborationHub;
+  let time: number;
+  let sessions: CollaborationSession[];
+
+  const join = (clientId: string, options: Partial<ConstructorParameters<typeof CollaborationSession>[0]> = {}) => {
+    const session = new CollaborationSession({
+      mapId: mockMap.id,
+      transport: hub.connect(),
+      name: `Editor ${clientId}`,
+      clientId,
+      now: () => time,
+      ...options,
+    });
+    session.start();
+    sessions.push(session);
+    return session;
+  };
+
+  beforeEach(() => {
+    hub = new LocalCollaborationHub();
+    time = 0;
+    sessions = [];
+    useMapStore.getState().setMap({ ...mockMap, modules: [toilet] });
+  });
+
+  afterEach(() => {
+    sessions.forEach((session) => session.stop());
+    useMapStore.getState().clearMap();
+  });
+
+  it('should apply commands from other editors of the same map', () => {
+    join('a');
+    const b = join('b');
+    const applied: SerializedCommand[] = [];
+    join('c', { mapId: 'other-map', applyCommand: (command) => applied.push(command) });
+
+    b.broadcastCommand(new MoveCommand([{ id: toilet.id, oldPosition: toilet.position, newPosition: { x: 40, y: 60 } }]), 'execute');
+
+    expect(useMapStore.getState().getModule(toilet.id)!.position).toEqual({ x: 40, y: 60 });
+    expect(applied).toEqual([]);
+  });
+
+  it('should send undoing as the inverse command', () => {
+    join('a');
+    const b = join('b');
+
+    b.broadcastCommand(new AddCommand([toilet]), 'undo');
+
+    expect(useMapStore.getState().getModule(toilet.id)).toBeUndefined();
+  });
+
+  it('should resolve edits made at once to the same module the same way for both editors', () => {
+    const applied: Record<string, SerializedCommand[]> = { a: [], b: [] };
+    const conflicts: Record<string, CollaborationConflict[]> = { a: [], b: [] };
+    const [a, b] = ['a', 'b'].map((id) =>
+      join(id, {
+        applyCommand: (command) => applied[id]!.push(command),
+        onConflict: (conflict) => conflicts[id]!.push(conflict),
+      })
+    );
+
+    hub.hold();
+    a!.broadcastCommand(rename('From A'), 'execute');
+    b!.broadcastCommand(rename('From B'), 'execute');
+    hub.flush();
+
+    // Same clock, so the later editor ID wins: A takes B's edit, B keeps its own on top of A's
+    const fromB = rename('From B').serialize();
+    expect(applied.a).toEqual([fromB]);
+    expect(applied.b).toEqual([rename('From A').serialize(), fromB]);
+    expect(conflicts.a).toEqual([{ moduleIds: [toilet.id], name: 'Editor b', kept: 'theirs' }]);
+    expect(conflicts.b).toEqual([{ moduleIds: [toilet.id], name: 'Editor a', kept: 'ours' }]);
+  });
+
+  it('should not treat edits made one after the other as conflicts', () => {
+    const conflicts: CollaborationConflict[] = [];
+    const a = join('a', { onConflict: (conflict) => conflicts.push(conflict) });
+    const b = join('b');
+
+    a.broadcastCommand(rename('First'), 'execute');
+    b.broadcastCommand(rename('Second'), 'execute');
+
+    expect(conflicts).toEqual([]);
+    expect(useMapStore.getState().getModule(toilet.id)!.metadata.name).toBe('Second');
+  });
+
+  it('should track other editors and the modules they lock until they lapse', () => {
+    const a = join('a');
+    const b = join('b');
+
+    expect(a.getCollaborators().map(({ name }) => name)).toEqual(['Editor b']);
+    expect(b.getCollaborators().map(({ name }) => name)).toEqual(['Editor a']);
+
+    b.lockModules([toilet.id]);
+    expect(a.getLocks().get(toilet.id)).toMatchObject({ clientId: 'b', name: 'Editor b' });
+
+    time += LOCK_TIMEOUT_MS;
+    a.prune();
+    expect(a.getLocks().size).toBe(0);
+
+    b.stop();
+    expect(a.getCollaborators()).toEqual([]);
+  });
+});
@@ -0,0 +1,7 @@
+/**
+ * Collaboration Service
+ * Central export for shared map editing
+ */
+
+export * from './CollaborationSession';
+export { LocalCollaborationHub } from './LocalCollaborationHub';
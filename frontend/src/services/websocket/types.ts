@@ -3,6 +3,8 @@
  * Type definitions for WebSocket events and handlers
  */
 
+import type { SerializedCommand } from '@/commands/serialization';
+
 /**
  * WebSocket connection status
  */
@@ -55,6 +57,13 @@ export const SOCKET_EVENTS = {
   // Analytics events
   METRICS_UPDATED: 'metrics:updated',
   DASHBOARD_REFRESH: 'dashboard:refresh',
+
+  // Map editor collaboration events
+  MAP_JOIN: 'map:join',
+  MAP_LEAVE: 'map:leave',
+  MAP_PRESENCE: 'map:presence',
+  MAP_COMMAND: 'map:command',
+  MAP_LOCK: 'map:lock',
 } as const;
 
 export type SocketEvent = typeof SOCKET_EVENTS[keyof typeof SOCKET_EVENTS];
@@ -121,6 +130,49 @@ export interface MetricsEventPayload {
   timestamp: string;
 }
 
+/**
+ * Orders edits to a map: by logical clock, then by editor for edits made at once
+ */
+export interface EditStamp {
+  clock: number;
+  clientId: string;
+}
+
+export interface MapPresencePayload {
+  mapId: string;
+  clientId: string;
+  name: string;
+  color: string;
+  /** Pointer position in map coordinates; null when off the canvas */
+  cursor: { x: number; y: number } | null;
+  /** Logical clock of the sender, so editors who join later stamp edits after it */
+  clock: number;
+}
+
+export interface MapLeavePayload {
+  mapId: string;
+  clientId: string;
+}
+
+export interface MapCommandPayload {
+  mapId: string;
+  clientId: string;
+  name: string;
+  stamp: EditStamp;
+  /** Last edit the sender had applied to each module the command touches */
+  base: Record<string, EditStamp | null>;
+  command: SerializedCommand;
+}
+
+export interface MapLockPayload {
+  mapId: string;
+  clientId: string;
+  name: string;
+  color: string;
+  moduleIds: string[];
+  locked: boolean;
+}
+
 /**
  * Event handler type
  */
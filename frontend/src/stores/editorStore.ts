@@ -6,10 +6,11 @@
  */
 
 import { create } from 'zustand';
-import type { AnyModule, ModuleType, Position } from '@/types';
+import type { AnyModule, DimensionAnnotation, ModuleType, Position } from '@/types';
 import { useMapStore } from './mapStore';
 import { PropertyCommand } from '@/commands';
 import type { Command } from '@/commands/Command';
+import type { PathModuleType } from '@/utils/modulePaths';
 
 // Use native crypto.randomUUID() for ID generation
 const generateId = (): string => crypto.randomUUID();
@@ -24,7 +25,13 @@ export interface Guide {
     position: number; // pixels from origin
 }
 
-export type EditorTool = 'select' | 'pan' | 'add';
+export type EditorTool = 'select' | 'pan' | 'add' | 'draw' | 'measure' | 'connect' | 'calibrate';
+
+/** Overlays drawn with the modules that can be shown or hidden */
+export type EditorLayer = 'dimensions' | 'utilities';
+
+/** Line being measured with the measure or calibrate tool, in canvas pixels */
+export type Measurement = Pick<DimensionAnnotation, 'start' | 'end'>;
 
 export interface EditorState {
     // === Selection ===
@@ -38,6 +45,7 @@ export interface EditorState {
     // === Tool Mode ===
     activeTool: EditorTool;
     moduleToAdd: ModuleType | null;
+    shapeToDraw: PathModuleType | null;
 
     // === Grid Settings ===
     showGrid: boolean;
@@ -49,7 +57,11 @@ export interface EditorState {
     guides: Guide[];
     snapToGuides: boolean;
 
+    // === Measurement ===
+    measurement: Measurement | null;
+
     // === Layer Settings ===
+    layerVisibility: Record<EditorLayer, boolean>;
     hiddenModuleIds: Set<string>;
     lockedModuleIds: Set<string>;
     expandedTypeGroups: Set<ModuleType>;
@@ -78,6 +90,7 @@ export interface EditorActions {
     // === Tool Mode ===
     setActiveTool: (tool: EditorTool) => void;
     setModuleToAdd: (type: ModuleType | null) => void;
+    setShapeToDraw: (type: PathModuleType | null) => void;
 
     // === Grid Settings ===
     toggleGrid: () => void;
@@ -92,7 +105,11 @@ export interface EditorActions {
     moveGuide: (id: string, newPosition: number) => void;
     clearGuides: () => void;
 
+    // === Measurement ===
+    setMeasurement: (measurement: Measurement | null) => void;
+
     // === Layer Settings ===
+    toggleLayer: (layer: EditorLayer) => void;
     toggleModuleVisibility: (id: string, executeCommand?: (command: Command) => void) => void;
     toggleModuleLock: (id: string, executeCommand?: (command: Command) => void) => void;
     isModuleHidden: (id: string) => boolean;
@@ -127,6 +144,7 @@ const initialState: EditorState = {
     // Tool Mode
     activeTool: 'select',
     moduleToAdd: null,
+    shapeToDraw: null,
 
     // Grid Settings
     showGrid: true,
@@ -138,7 +156,11 @@ const initialState: EditorState = {
     guides: [],
     snapToGuides: true,
 
+    // Measurement
+    measurement: null,
+
     // Layer Settings
+    layerVisibility: { dimensions: true, utilities: true },
     hiddenModuleIds: new Set(),
     lockedModuleIds: new Set(),
     expandedTypeGroups: new Set(),
@@ -203,14 +225,26 @@ export const useEditorStore = create<EditorStore>((set, get) => ({
         set({
             activeTool: tool,
             moduleToAdd: tool === 'add' ? get().moduleToAdd : null,
+            shapeToDraw: tool === 'draw' ? get().shapeToDraw : null,
+            measurement: tool === get().activeTool ? get().measurement : null,
         }),
 
     setModuleToAdd: (type) =>
         set({
             moduleToAdd: type,
+            shapeToDraw: null,
+            measurement: null,
             activeTool: type ? 'add' : 'select',
         }),
 
+    setShapeToDraw: (type) =>
+        set({
+            shapeToDraw: type,
+            moduleToAdd: null,
+            measurement: null,
+            activeTool: type ? 'draw' : 'select',
+        }),
+
     // === Grid Settings ===
     toggleGrid: () => set((state) => ({ showGrid: !state.showGrid })),
 
@@ -246,7 +280,15 @@ export const useEditorStore = create<EditorStore>((set, get) => ({
 
     clearGuides: () => set({ guides: [] }),
 
+    // === Measurement ===
+    setMeasurement: (measurement) => set({ measurement }),
+
     // === Layer Settings ===
+    toggleLayer: (layer) =>
+        set((state) => ({
+            layerVisibility: { ...state.layerVisibility, [layer]: !state.layerVisibility[layer] },
+        })),
+
     toggleModuleVisibility: (id, executeCommand?: (command: import('@/commands').Command) => void) => {
         const { getModule } = useMapStore.getState();
         const module = getModule(id);
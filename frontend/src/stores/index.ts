@@ -21,4 +21,6 @@ export {
     selectHasMultiSelection,
     type Guide,
     type EditorTool,
+    type Measurement,
+    type EditorLayer,
 } from './editorStore';
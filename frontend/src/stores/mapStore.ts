@@ -18,6 +18,8 @@ interface MapState {
 interface MapActions {
     // Map lifecycle
     setMap: (map: CampsiteMap) => void;
+    /** Change map-level settings (not modules) and mark the map dirty */
+    updateMap: (changes: Partial<Omit<CampsiteMap, 'id' | 'modules'>>) => void;
     clearMap: () => void;
     markDirty: () => void;
     markClean: () => void;
@@ -49,6 +51,14 @@ export const useMapStore = create<MapStore>((set, get) => ({
     // Map lifecycle
     setMap: (map) => set({ currentMap: map, isDirty: false, error: null }),
 
+    updateMap: (changes) => set((state) => {
+        if (!state.currentMap) return state;
+        return {
+            currentMap: { ...state.currentMap, ...changes, updatedAt: new Date() },
+            isDirty: true,
+        };
+    }),
+
     clearMap: () => set({ currentMap: null, isDirty: false, error: null }),
 
     markDirty: () => set({ isDirty: true }),
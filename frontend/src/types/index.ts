@@ -77,10 +77,17 @@ import type {
   Notification,
   NotificationType,
   PaginatedResponse,
+  PricingRule,
+  ApiPricingRule,
+  NightlyRate,
+  GroupBooking,
+  ApiGroupBooking,
+  MeasurementUnit,
 } from '@shared/types';
 
 export type User = SharedUser;
 export type { Site, Booking, Vehicle, Payment, Equipment, EquipmentRental, Notification, NotificationType, PaginatedResponse };
+export type { PricingRule, ApiPricingRule, NightlyRate, GroupBooking, ApiGroupBooking };
 
 // ============================================================================
 // AUTHENTICATION TYPES
@@ -131,6 +138,7 @@ export type ModuleType =
   | 'electricity'
   | 'waste_disposal'
   | 'recreation'
+  | 'zone'
   | 'custom';
 
 export interface CampsiteModuleBase {
@@ -143,13 +151,33 @@ export interface CampsiteModuleBase {
   locked: boolean;
   visible: boolean;
   metadata: Record<string, unknown>;
+  /**
+   * Vertices relative to `position`, for modules drawn as paths: a road's
+   * centre line or a zone's outline. They lie inside the module's size box.
+   */
+  points?: Position[];
+  /** Layer group the module belongs to; ungrouped when unset */
+  groupId?: string;
   createdAt: Date;
   updatedAt: Date;
 }
 
+/**
+ * A named set of modules in the layers tree, selected, moved, locked and
+ * hidden together. Groups nest; siblings keep their order in `CampsiteMap.groups`.
+ */
+export interface ModuleGroup {
+  id: string;
+  name: string;
+  /** Enclosing group; top level when unset */
+  parentId?: string;
+}
+
 export interface CampsiteModule extends CampsiteModuleBase {
   type: 'campsite';
   metadata: {
+    /** Site record this module represents; inventory fields are kept in sync with it */
+    siteId?: string;
     name: string;
     capacity: number;
     amenities: string[];
@@ -161,9 +189,18 @@ export interface CampsiteModule extends CampsiteModuleBase {
     electricHookup: boolean;
     waterHookup: boolean;
     sewerHookup: boolean;
+    /** Metres to the nearest facility of each type, walking along public roads and paths */
+    walkingDistances?: FacilityDistances;
+    /** As walkingDistances, keeping to paved and boardwalk surfaces */
+    stepFreeDistances?: FacilityDistances;
   };
 }
 
+/** Facilities whose walking distance from each campsite is worked out */
+export type WalkingFacilityType = Extract<ModuleType, 'toilet' | 'water_source' | 'parking' | 'building' | 'waste_disposal' | 'recreation'>;
+
+export type FacilityDistances = Partial<Record<WalkingFacilityType, number>>;
+
 export interface ToiletModule extends CampsiteModuleBase {
   type: 'toilet';
   metadata: {
@@ -268,6 +305,15 @@ export interface RecreationModule extends CampsiteModuleBase {
   };
 }
 
+export interface ZoneModule extends CampsiteModuleBase {
+  type: 'zone';
+  metadata: {
+    name: string;
+    zoneType: 'no_fire' | 'flood' | 'quiet' | 'restricted' | 'other';
+    description: string;
+  };
+}
+
 export interface CustomModule extends CampsiteModuleBase {
   type: 'custom';
   metadata: {
@@ -289,12 +335,85 @@ export type AnyModule =
   | ElectricityModule
   | WasteDisposalModule
   | RecreationModule
+  | ZoneModule
   | CustomModule;
 
 // ============================================================================
 // CAMPSITE MAP TYPES
 // ============================================================================
 
+/** Ties canvas coordinates to real-world latitude/longitude */
+export interface GeoReference {
+  /** Real-world location of the anchor point */
+  anchor: {
+    latitude: number;
+    longitude: number;
+  };
+  /** Canvas position (pixels) of the anchor */
+  anchorPoint: Position;
+  /** Bearing of the canvas's up direction, in degrees clockwise from true north */
+  rotation: number;
+}
+
+/** Space cut from each side of a background image, in canvas pixels */
+export interface BackgroundCrop {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+/** Aerial photo or site plan drawn under the modules for tracing */
+export interface MapBackground {
+  /** Data URL of the image, so it is saved with the map */
+  imageUrl: string;
+  /** Canvas position of the top-left corner of the uncropped image */
+  position: Position;
+  /** Size of the uncropped image on the canvas */
+  size: Size;
+  crop?: BackgroundCrop;
+  /** Degrees clockwise around the centre of the cropped image */
+  rotation: number;
+  /** From 0 to 1 */
+  opacity: number;
+  /** Locked backgrounds cannot be selected or moved on the canvas */
+  locked: boolean;
+}
+
+/** A dimension line pinned to the map with the measure tool, in canvas pixels */
+export interface DimensionAnnotation {
+  id: string;
+  start: Position;
+  end: Position;
+}
+
+/** Utility a supply module provides to the sites connected to it */
+export type UtilityType = 'electric' | 'water' | 'sewer';
+
+/** A service line from a supply module to a campsite */
+export interface UtilityConnection {
+  id: string;
+  utility: UtilityType;
+  /** Electricity, water source or sewage disposal module */
+  supplyId: string;
+  siteId: string;
+}
+
+export type ComplianceRuleId =
+  | 'campsite_spacing'
+  | 'fire_pit_clearance'
+  | 'water_access'
+  | 'toilet_access'
+  | 'emergency_road_width'
+  | 'no_fire_zone';
+
+/** A map's setting for one layout compliance rule */
+export interface ComplianceRuleSetting {
+  enabled: boolean;
+  /** Distance or width limit in metres, for rules that have one */
+  value?: number;
+}
+
 export interface CampsiteMap {
   id: string;
   name: string;
@@ -312,6 +431,19 @@ export interface CampsiteMap {
     width: number;
     height: number;
   };
+  geoReference?: GeoReference;
+  background?: MapBackground;
+  /** Unit for distances and areas shown in the editor and exports; metres when unset */
+  measurementUnit?: MeasurementUnit;
+  dimensions?: DimensionAnnotation[];
+  utilityConnections?: UtilityConnection[];
+  /** Overrides of the default layout compliance rules */
+  complianceRules?: Partial<Record<ComplianceRuleId, ComplianceRuleSetting>>;
+  /** The map customers and front desk staff see; the campground has one published map at a time */
+  isPublished?: boolean;
+  /** Archived maps are kept but left out of the maps list unless asked for */
+  isArchived?: boolean;
+  groups?: ModuleGroup[];
   modules: AnyModule[];
   metadata: {
     address: string;
@@ -329,6 +461,8 @@ export interface CampsiteMap {
       type: 'fire' | 'police' | 'medical' | 'management';
     }[];
   };
+  /** ID of the user who created the map */
+  createdBy?: string;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -364,6 +498,19 @@ export interface ModuleTemplate {
   updatedAt: Date;
 }
 
+/** How a map version was taken: automatically on save, or as a named checkpoint */
+export type MapVersionKind = 'save' | 'checkpoint';
+
+export interface MapVersion {
+  id: string;
+  mapId: string;
+  name: string;
+  kind: MapVersionKind;
+  /** The whole map as it was when the version was taken */
+  snapshot: CampsiteMap;
+  createdAt: Date;
+}
+
 // ============================================================================
 // MAP EDITOR STATE TYPES
 // ============================================================================
@@ -432,12 +579,27 @@ export interface FrontendPaginatedResponse<T> {
 export interface CreateMapRequest {
   name: string;
   description: string;
-  imageFile: File;
+  imageFile?: File;
   scale: number;
   metadata: CampsiteMap['metadata'];
-}
-
-export interface UpdateMapRequest {
+  /** Modules to start with, such as those placed from a template */
+  modules?: AnyModule[];
+}
+
+/** Parts of a map laid out in the editor, saved as a whole */
+export type MapContent = Pick<
+  CampsiteMap,
+  | 'modules'
+  | 'groups'
+  | 'geoReference'
+  | 'background'
+  | 'measurementUnit'
+  | 'dimensions'
+  | 'utilityConnections'
+  | 'complianceRules'
+>;
+
+export interface UpdateMapRequest extends Partial<MapContent> {
   id: string;
   name?: string;
   description?: string;
@@ -488,6 +650,8 @@ export interface MapSearchFilters {
     start: Date;
     end: Date;
   };
+  /** List archived maps instead of active ones */
+  archived?: boolean;
 }
 
 // ============================================================================
@@ -0,0 +1,49 @@
+/**
+ * Unit tests for background handler utilities
+ * Tests cropping background images and reading them back after they are moved on the canvas
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fabric from 'fabric';
+import { createMapBackground, getBackgroundChanges, getCroppedBounds } from '../backgroundHandler';
+
+const background = {
+  ...createMapBackground('data:image/png;base64,', { width: 400, height: 200 }),
+  position: { x: 10, y: 20 },
+  crop: { top: 10, right: 40, bottom: 30, left: 20 },
+};
+
+describe('getCroppedBounds', () => {
+  it('should place the part of the image left after cropping', () => {
+    expect(getCroppedBounds(background)).toEqual({ left: 30, top: 30, width: 340, height: 160 });
+  });
+
+  it('should use the whole image when it is not cropped', () => {
+    expect(getCroppedBounds({ ...background, crop: undefined })).toEqual({ left: 10, top: 20, width: 400, height: 200 });
+  });
+});
+
+describe('getBackgroundChanges', () => {
+  it('should keep the crop on the same part of the image when the background is moved and resized', () => {
+    // The cropped image, doubled in size, centred at (500, 500) and rotated
+    const obj = new fabric.Rect({
+      width: 340,
+      height: 160,
+      scaleX: 2,
+      scaleY: 2,
+      originX: 'center',
+      originY: 'center',
+      left: 500,
+      top: 500,
+      angle: -90,
+      strokeWidth: 0,
+    });
+
+    expect(getBackgroundChanges(obj, background)).toEqual({
+      position: { x: 120, y: 320 },
+      size: { width: 800, height: 400 },
+      crop: { top: 20, right: 80, bottom: 60, left: 40 },
+      rotation: 270,
+    });
+  });
+});
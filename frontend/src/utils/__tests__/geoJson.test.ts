@@ -0,0 +1,132 @@
+/**
+ * Unit tests for geo-referencing and GeoJSON utilities
+ * Tests canvas/lat-long conversion and GeoJSON export/import round trips
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { AnyModule, CampsiteMap, GeoReference } from '@/types';
+import { mockMap } from '@/services/api/mock-maps';
+import { canvasToGeo, geoToCanvas } from '../geoReference';
+import { buildMapGeoJson, parseGeoJson } from '../geoJson';
+import { createPathModule } from '../moduleFactory';
+
+const reference: GeoReference = {
+  anchor: { latitude: 45.5, longitude: -122.6 },
+  anchorPoint: { x: 100, y: 200 },
+  rotation: 30,
+};
+
+const map: CampsiteMap = {
+  ...mockMap,
+  scale: 2,
+  geoReference: reference,
+  modules: mockMap.modules.map((module, index) => ({ ...module, rotation: index * 15 })),
+};
+
+describe('canvasToGeo', () => {
+  it('should place the anchor point at the anchor location', () => {
+    expect(canvasToGeo(reference.anchorPoint, reference, 2)).toEqual(reference.anchor);
+  });
+
+  it('should move north when going up a north-facing canvas', () => {
+    const northFacing = { ...reference, rotation: 0 };
+    const location = canvasToGeo({ x: 100, y: 0 }, northFacing, 2);
+
+    // 200px at 2px/m is 100m, about 0.0009 degrees of latitude
+    expect(location.latitude - reference.anchor.latitude).toBeCloseTo(0.000898, 5);
+    expect(location.longitude).toBeCloseTo(reference.anchor.longitude, 9);
+  });
+
+  it('should be reversed by geoToCanvas', () => {
+    const point = { x: 640, y: -75 };
+    const back = geoToCanvas(canvasToGeo(point, reference, 2), reference, 2);
+
+    expect(back.x).toBeCloseTo(point.x, 6);
+    expect(back.y).toBeCloseTo(point.y, 6);
+  });
+});
+
+describe('buildMapGeoJson', () => {
+  it('should write each module as a closed polygon with its metadata', () => {
+    const collection = buildMapGeoJson(map);
+    const feature = collection.features.find((item) => item.id === map.modules[0]!.id)!;
+
+    expect(collection.features).toHaveLength(map.modules.length);
+    expect(feature.geometry?.type).toBe('Polygon');
+    const ring = feature.geometry!.coordinates as number[][][];
+    expect(ring[0]).toHaveLength(5);
+    expect(ring[0]![0]).toEqual(ring[0]![4]);
+    expect(feature.properties).toMatchObject({
+      ...map.modules[0]!.metadata,
+      moduleType: map.modules[0]!.type,
+    });
+  });
+});
+
+describe('parseGeoJson', () => {
+  it('should round-trip modules through GeoJSON', () => {
+    const result = parseGeoJson(JSON.stringify(buildMapGeoJson(map)), map);
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.moduleErrors).toEqual([]);
+    map.modules.forEach((original) => {
+      const module = result.map.modules.find((item) => item.id === original.id)!;
+      expect(module.type).toBe(original.type);
+      expect(module.metadata).toEqual(original.metadata);
+      expect(module.position.x).toBeCloseTo(original.position.x, 1);
+      expect(module.position.y).toBeCloseTo(original.position.y, 1);
+      expect(module.size.width).toBeCloseTo(original.size.width, 1);
+      expect(module.rotation).toBeCloseTo(original.rotation, 1);
+    });
+  });
+
+  it('should round-trip roads and zones drawn as paths', () => {
+    const road = createPathModule('road', [{ x: 0, y: 0 }, { x: 200, y: 0 }, { x: 200, y: 120 }]);
+    const zone = createPathModule('zone', [{ x: 300, y: 300 }, { x: 400, y: 300 }, { x: 350, y: 380 }]);
+    const pathMap: CampsiteMap = { ...map, modules: [{ ...road, zIndex: 1 }, { ...zone, zIndex: 2 }] as AnyModule[] };
+    const collection = buildMapGeoJson(pathMap);
+
+    expect(collection.features.map((feature) => feature.geometry?.type)).toEqual(['LineString', 'Polygon']);
+    expect((collection.features[1]!.geometry!.coordinates as number[][][])[0]).toHaveLength(4);
+
+    const result = parseGeoJson(JSON.stringify(collection), pathMap);
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.moduleErrors).toEqual([]);
+    [road, zone].forEach((original) => {
+      const module = result.map.modules.find((item) => item.id === original.id)!;
+      expect(module.type).toBe(original.type);
+      expect(module.points).toHaveLength(original.points!.length);
+      module.points!.forEach((point, index) => {
+        expect(module.position.x + point.x).toBeCloseTo(original.position.x + original.points![index]!.x, 1);
+        expect(module.position.y + point.y).toBeCloseTo(original.position.y + original.points![index]!.y, 1);
+      });
+    });
+  });
+
+  it('should turn foreign features into custom modules and roads, and report unsupported geometry', () => {
+    const collection = {
+      type: 'FeatureCollection',
+      features: [
+        { type: 'Feature', geometry: { type: 'Point', coordinates: [-122.6, 45.5] }, properties: { name: 'Hydrant', flow: 1200 } },
+        { type: 'Feature', geometry: { type: 'LineString', coordinates: [[-122.6, 45.5], [-122.5, 45.5]] }, properties: { name: 'Trail' } },
+        { type: 'Feature', geometry: { type: 'MultiLineString', coordinates: [] }, properties: { name: 'Creek' } },
+      ],
+    };
+    const result = parseGeoJson(JSON.stringify(collection), mockMap);
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.map.modules).toHaveLength(2);
+    expect(result.map.modules[0]).toMatchObject({
+      type: 'custom',
+      metadata: { name: 'Hydrant', customType: 'Point', properties: { flow: 1200 } },
+    });
+    expect(result.map.modules[1]).toMatchObject({ type: 'road', metadata: { name: 'Trail', roadType: 'secondary' } });
+    expect(result.map.modules[1]!.points).toHaveLength(2);
+    expect(result.moduleErrors).toEqual([
+      expect.objectContaining({ index: 2, name: 'Creek', issues: [expect.stringContaining('MultiLineString')] }),
+    ]);
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Unit tests for layout compliance utilities
+ * Tests each rule against small layouts and the per-map rule settings
+ */
+
+import { describe, it, expect } from 'vitest';
+import { MeasurementUnit } from '@/types';
+import type { AnyModule, CampsiteMap } from '@/types';
+import { mockMap } from '@/services/api/mock-maps';
+import { createNewModule, createPathModule } from '../moduleFactory';
+import { checkLayoutCompliance, getComplianceSettings } from '../layoutCompliance';
+import { isPointInPolygon } from '../mapGeometry';
+
+// 10px per metre; campsites are 12m x 8m
+const buildMap = (modules: AnyModule[], overrides: Partial<CampsiteMap> = {}): CampsiteMap => ({
+  ...mockMap,
+  scale: 10,
+  modules,
+  ...overrides,
+});
+
+const site = (name: string, x: number, y = 0) =>
+  createNewModule('campsite', { x, y }, { metadata: { name } } as Partial<AnyModule>);
+
+// A toilet and drinking water within easy reach of sites along the top row
+const facilities = () => [
+  createNewModule('toilet', { x: 0, y: 200 }, { metadata: { name: 'Toilet Block' } } as Partial<AnyModule>),
+  createNewModule('water_source', { x: 200, y: 200 }, { metadata: { name: 'Tap' } } as Partial<AnyModule>),
+];
+
+const firePit = (x: number, y: number) =>
+  createNewModule('recreation', { x, y }, { metadata: { name: 'Fire Pit', activityType: 'fire_pit' } } as Partial<AnyModule>);
+
+const ruleIds = (map: CampsiteMap) => checkLayoutCompliance(map).violations.map((violation) => violation.ruleId);
+
+describe('checkLayoutCompliance', () => {
+  it('should pass a layout that meets every rule', () => {
+    const report = checkLayoutCompliance(buildMap([site('A1', 0), site('A2', 200), ...facilities()]));
+
+    expect(report.violations).toEqual([]);
+    expect(report.rulesChecked).toBe(6);
+  });
+
+  it('should report campsites closer than the minimum spacing', () => {
+    const a = site('A1', 0);
+    const b = site('A2', 150);
+    const [violation] = checkLayoutCompliance(buildMap([a, b, ...facilities()])).violations;
+
+    expect(violation).toEqual({
+      ruleId: 'campsite_spacing',
+      severity: 'error',
+      moduleIds: [a.id, b.id],
+      message: 'A1 and A2 are 3.0 m apart (minimum 6.0 m)',
+    });
+  });
+
+  it('should report fire pits too close to buildings', () => {
+    const pit = firePit(0, 0);
+    const office = createNewModule('building', { x: 150, y: 0 }, { metadata: { name: 'Office' } } as Partial<AnyModule>);
+    const { violations } = checkLayoutCompliance(buildMap([pit, office]));
+
+    expect(violations).toHaveLength(1);
+    expect(violations[0]!.moduleIds).toEqual([pit.id, office.id]);
+    expect(violations[0]!.message).toBe('Fire Pit is 3.0 m from Office (minimum 7.5 m)');
+  });
+
+  it('should report fire pits inside no-fire zones', () => {
+    const zone = createPathModule('zone', [{ x: 0, y: 0 }, { x: 400, y: 0 }, { x: 400, y: 400 }, { x: 0, y: 400 }]);
+    zone.metadata = { ...zone.metadata, zoneType: 'no_fire' };
+
+    expect(ruleIds(buildMap([zone, firePit(100, 100)]))).toEqual(['no_fire_zone']);
+    expect(ruleIds(buildMap([zone, firePit(600, 100)]))).toEqual([]);
+  });
+
+  it('should report emergency roads narrower than the minimum width', () => {
+    const road = createNewModule('road', { x: 0, y: 0 }, {
+      metadata: { name: 'Fire Lane', roadType: 'emergency', width: 4 },
+    } as Partial<AnyModule>);
+    const mainRoad = createNewModule('road', { x: 0, y: 100 }, { metadata: { width: 4 } } as Partial<AnyModule>);
+    const { violations } = checkLayoutCompliance(buildMap([road, mainRoad]));
+
+    expect(violations.map((violation) => violation.moduleIds)).toEqual([[road.id]]);
+    expect(violations[0]!.message).toBe('Fire Lane is 4.0 m wide (minimum 6.0 m)');
+  });
+
+  it('should warn about sites far from water and toilets', () => {
+    const far = site('Z9', 0, 3000);
+    const { violations } = checkLayoutCompliance(buildMap([site('A1', 0), far, ...facilities()]));
+
+    expect(violations.map((violation) => violation.ruleId)).toEqual(['water_access', 'toilet_access']);
+    expect(violations.every((violation) => violation.severity === 'warning' && violation.moduleIds[0] === far.id)).toBe(true);
+    expect(violations[1]!.message).toBe('Z9 is 274 m from a toilet (maximum 150 m)');
+  });
+
+  it('should report missing facilities and accept sites with a water hookup', () => {
+    const hooked = createNewModule('campsite', { x: 0, y: 0 }, { metadata: { name: 'A1', waterHookup: true } } as Partial<AnyModule>);
+    const { violations } = checkLayoutCompliance(buildMap([hooked]));
+
+    expect(violations).toHaveLength(1);
+    expect(violations[0]!.message).toBe('A1 has no toilet on the map');
+  });
+
+  it('should follow the map rule settings and measurement unit', () => {
+    const modules = [site('A1', 0), site('A2', 150), ...facilities()];
+
+    expect(ruleIds(buildMap(modules, { complianceRules: { campsite_spacing: { enabled: false } } }))).toEqual([]);
+    expect(ruleIds(buildMap(modules, { complianceRules: { campsite_spacing: { enabled: true, value: 2 } } }))).toEqual([]);
+
+    const [violation] = checkLayoutCompliance(buildMap(modules, { measurementUnit: MeasurementUnit.FEET })).violations;
+    expect(violation!.message).toBe('A1 and A2 are 9.8 ft apart (minimum 19.7 ft)');
+  });
+});
+
+describe('getComplianceSettings', () => {
+  it('should fill in defaults for rules the map does not override', () => {
+    const settings = getComplianceSettings({ complianceRules: { water_access: { enabled: false } } });
+
+    expect(settings.water_access).toEqual({ enabled: false, value: 100 });
+    expect(settings.campsite_spacing).toEqual({ enabled: true, value: 6 });
+  });
+});
+
+describe('isPointInPolygon', () => {
+  const triangle = [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 0, y: 100 }];
+
+  it('should tell points inside a polygon from points outside', () => {
+    expect(isPointInPolygon({ x: 20, y: 20 }, triangle)).toBe(true);
+    expect(isPointInPolygon({ x: 80, y: 80 }, triangle)).toBe(false);
+  });
+});
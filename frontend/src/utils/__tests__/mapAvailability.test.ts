@@ -0,0 +1,100 @@
+/**
+ * Unit tests for map availability utilities
+ * Tests per-night site availability and the contiguous free area finder
+ */
+
+import { describe, it, expect } from 'vitest';
+import { BookingStatus, SiteStatus } from '@/types';
+import type { AnyModule, Booking } from '@/types';
+import { mockSites } from '@/services/api/mock-sites';
+import { mockBookings } from '@/services/api/mock-bookings';
+import { createNewModule } from '../moduleFactory';
+import { getModuleBounds } from '../mapGeometry';
+import { findContiguousArea, getAvailabilityState, isSiteFreeForStay, isSiteFreeOn } from '../mapAvailability';
+
+const site = { ...mockSites[0]!, status: SiteStatus.AVAILABLE };
+
+const booking: Booking = {
+  ...mockBookings[0]!,
+  siteId: site.id,
+  status: BookingStatus.CONFIRMED,
+  checkInDate: new Date(2025, 6, 10),
+  checkOutDate: new Date(2025, 6, 12),
+};
+
+/** A row of 60x40 campsites, `gap` apart, plus one far away */
+const createRow = (gap: number): AnyModule[] => [
+  ...[0, 1, 2, 3].map((index) => ({
+    ...createNewModule('campsite', { x: index * (60 + gap), y: 0 }),
+    id: `row-${index}`,
+    size: { width: 60, height: 40 },
+  })),
+  { ...createNewModule('campsite', { x: 1000, y: 1000 }), id: 'far', size: { width: 60, height: 40 } },
+];
+
+describe('isSiteFreeOn', () => {
+  it('should treat the check-out day as free', () => {
+    expect(isSiteFreeOn(site, [booking], new Date(2025, 6, 9))).toBe(true);
+    expect(isSiteFreeOn(site, [booking], new Date(2025, 6, 10))).toBe(false);
+    expect(isSiteFreeOn(site, [booking], new Date(2025, 6, 11))).toBe(false);
+    expect(isSiteFreeOn(site, [booking], new Date(2025, 6, 12))).toBe(true);
+  });
+
+  it('should ignore cancelled bookings but not maintenance', () => {
+    const cancelled = { ...booking, status: BookingStatus.CANCELLED };
+
+    expect(isSiteFreeOn(site, [cancelled], new Date(2025, 6, 10))).toBe(true);
+    expect(isSiteFreeOn({ ...site, status: SiteStatus.MAINTENANCE }, [], new Date(2025, 6, 10))).toBe(false);
+  });
+
+  it('should report unavailable sites in maintenance separately from booked ones', () => {
+    expect(getAvailabilityState(site, false)).toBe('booked');
+    expect(getAvailabilityState({ ...site, status: SiteStatus.OUT_OF_SERVICE }, false)).toBe('maintenance');
+    expect(getAvailabilityState(undefined, true)).toBe('unlinked');
+  });
+});
+
+describe('isSiteFreeForStay', () => {
+  it('should need every night of the stay to be free', () => {
+    expect(isSiteFreeForStay(site, [booking], new Date(2025, 6, 7), 3)).toBe(true);
+    expect(isSiteFreeForStay(site, [booking], new Date(2025, 6, 8), 3)).toBe(false);
+    expect(isSiteFreeForStay(site, [booking], new Date(2025, 6, 12), 2)).toBe(true);
+  });
+});
+
+describe('getModuleBounds', () => {
+  it('should swap width and height for a quarter turn', () => {
+    const module = { ...createNewModule('campsite', { x: 0, y: 0 }), size: { width: 60, height: 40 }, rotation: 90 };
+    const bounds = getModuleBounds(module);
+
+    expect(bounds.maxX - bounds.minX).toBeCloseTo(40);
+    expect(bounds.maxY - bounds.minY).toBeCloseTo(60);
+  });
+});
+
+describe('findContiguousArea', () => {
+  it('should find neighbouring free sites and skip isolated ones', () => {
+    const modules = createRow(5);
+    const ids = new Set(modules.map((module) => module.id));
+    const area = findContiguousArea(modules, ids, 3, 10);
+
+    expect(area).toHaveLength(3);
+    expect(area).not.toContain('far');
+  });
+
+  it('should not bridge a booked site', () => {
+    const modules = createRow(5);
+    const ids = new Set(['row-0', 'row-2', 'row-3', 'far']);
+
+    expect(findContiguousArea(modules, ids, 2, 10)?.sort()).toEqual(['row-2', 'row-3']);
+    expect(findContiguousArea(modules, ids, 3, 10)).toBeNull();
+  });
+
+  it('should respect the maximum gap', () => {
+    const modules = createRow(30);
+    const ids = new Set(modules.map((module) => module.id));
+
+    expect(findContiguousArea(modules, ids, 2, 10)).toBeNull();
+    expect(findContiguousArea(modules, ids, 2, 30)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * Unit tests for map diff utilities
+ * Tests classifying module changes between two versions of a map
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { AnyModule, CampsiteMap } from '@/types';
+import { mockMap } from '@/services/api/mock-maps';
+import { createNewModule } from '../moduleFactory';
+import { diffMaps, getChangeName, pickFields } from '../mapDiff';
+
+const buildMap = (modules: AnyModule[]): CampsiteMap => ({ ...mockMap, modules });
+
+const toilet = createNewModule('toilet', { x: 0, y: 0 });
+const tap = createNewModule('water_source', { x: 100, y: 0 }, { metadata: { name: 'Tap' } } as Partial<AnyModule>);
+
+describe('diffMaps', () => {
+  it('should find added and removed modules', () => {
+    const changes = diffMaps(buildMap([toilet]), buildMap([tap]));
+
+    expect(changes.map(({ moduleId, kind }) => [moduleId, kind])).toEqual([
+      [tap.id, 'added'],
+      [toilet.id, 'removed'],
+    ]);
+  });
+
+  it('should tell moved modules from otherwise changed ones', () => {
+    const moved = { ...toilet, position: { x: 50, y: 50 }, rotation: 90, updatedAt: new Date() };
+    const renamed = { ...tap, position: { x: 120, y: 0 }, metadata: { ...tap.metadata, name: 'Drinking Water' } } as AnyModule;
+    const [first, second] = diffMaps(buildMap([toilet, tap]), buildMap([moved, renamed]));
+
+    expect(first).toMatchObject({ kind: 'moved', fields: ['position', 'rotation'] });
+    expect(second).toMatchObject({ kind: 'changed', fields: ['position', 'metadata'] });
+  });
+
+  it('should ignore modules that only have new timestamps', () => {
+    expect(diffMaps(buildMap([toilet]), buildMap([{ ...toilet, updatedAt: new Date(0) }]))).toEqual([]);
+  });
+});
+
+describe('pickFields', () => {
+  it('should copy only the given properties', () => {
+    expect(pickFields(tap, ['position', 'rotation'])).toEqual({ position: tap.position, rotation: tap.rotation });
+  });
+});
+
+describe('getChangeName', () => {
+  it('should name changes after the module, or its type when unnamed', () => {
+    const [added, removed] = diffMaps(buildMap([{ ...toilet, metadata: { ...toilet.metadata, name: '' } } as AnyModule]), buildMap([tap]));
+
+    expect(getChangeName(added!)).toBe('Tap');
+    expect(getChangeName(removed!)).toBe('toilet');
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Unit tests for map draft utilities
+ * Tests merging drafts with the server copy of a map and saving undo history
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { AnyModule, CampsiteMap } from '@/types';
+import { MoveCommand, type Command } from '@/commands';
+import { mockMap } from '@/services/api/mock-maps';
+import { createNewModule } from '../moduleFactory';
+import { deserializeHistory, hasDraftChanges, mergeMaps, serializeHistory, type MapDraft } from '../mapDrafts';
+
+const buildMap = (modules: AnyModule[], overrides: Partial<CampsiteMap> = {}): CampsiteMap => ({
+  ...mockMap,
+  modules,
+  ...overrides,
+});
+
+const toilet = createNewModule('toilet', { x: 0, y: 0 });
+const tap = createNewModule('water_source', { x: 100, y: 0 });
+
+const moveTo = (module: AnyModule, x: number): AnyModule => ({ ...module, position: { x, y: 0 } });
+
+describe('mergeMaps', () => {
+  const base = buildMap([toilet, tap]);
+
+  it('should combine edits to different modules from both sides', () => {
+    const local = buildMap([moveTo(toilet, 10), tap]);
+    const server = buildMap([toilet], { name: 'Renamed on server' });
+
+    const { map, conflicts, serverChanged } = mergeMaps(base, local, server);
+
+    expect(map.modules).toEqual([moveTo(toilet, 10)]);
+    expect(map.name).toBe('Renamed on server');
+    expect(conflicts).toEqual([]);
+    expect(serverChanged).toBe(true);
+  });
+
+  it('should keep modules added on either side', () => {
+    const added = createNewModule('parking', { x: 200, y: 0 });
+    const { map } = mergeMaps(base, buildMap([toilet, tap, added]), buildMap([toilet]));
+
+    expect(map.modules.map((module) => module.id)).toEqual([toilet.id, added.id]);
+  });
+
+  it('should report modules edited differently on both sides, keeping the draft by default', () => {
+    const local = buildMap([moveTo(toilet, 10), tap]);
+    const server = buildMap([moveTo(toilet, 20)]);
+
+    const { map, conflicts } = mergeMaps(base, local, server);
+
+    expect(conflicts).toEqual([{ moduleId: toilet.id, base: toilet, local: moveTo(toilet, 10), server: moveTo(toilet, 20) }]);
+    expect(map.modules).toEqual([moveTo(toilet, 10)]);
+    expect(mergeMaps(base, local, server, { [toilet.id]: 'server' }).map.modules).toEqual([moveTo(toilet, 20)]);
+  });
+
+  it('should not report the same edit made on both sides as a conflict', () => {
+    const edited = buildMap([moveTo(toilet, 10), tap]);
+
+    expect(mergeMaps(base, edited, edited).conflicts).toEqual([]);
+  });
+
+  it('should report a module deleted on one side and edited on the other', () => {
+    const { conflicts } = mergeMaps(base, buildMap([tap]), buildMap([moveTo(toilet, 20), tap]));
+
+    expect(conflicts).toMatchObject([{ moduleId: toilet.id, local: undefined }]);
+  });
+});
+
+describe('hasDraftChanges', () => {
+  const draft = (map: CampsiteMap): MapDraft => ({
+    mapId: mockMap.id,
+    base: buildMap([toilet]),
+    map,
+    undoStack: [],
+    redoStack: [],
+    savedAt: new Date(),
+  });
+
+  it('should tell drafts with unsaved edits from ones the server already has', () => {
+    expect(hasDraftChanges(draft(buildMap([moveTo(toilet, 10)])), buildMap([toilet]))).toBe(true);
+    expect(hasDraftChanges(draft(buildMap([toilet], { name: 'Draft name' })), buildMap([toilet]))).toBe(true);
+    expect(hasDraftChanges(draft(buildMap([moveTo(toilet, 10)])), buildMap([moveTo(toilet, 10)]))).toBe(false);
+    expect(hasDraftChanges(draft(buildMap([toilet])), buildMap([moveTo(toilet, 20)]))).toBe(false);
+  });
+});
+
+describe('serializeHistory', () => {
+  const move = new MoveCommand([{ id: toilet.id, oldPosition: { x: 0, y: 0 }, newPosition: { x: 10, y: 0 } }]);
+
+  it('should round-trip commands', () => {
+    const [restored] = deserializeHistory(serializeHistory([move]));
+
+    expect(restored!.serialize!()).toEqual(move.serialize());
+  });
+
+  it('should keep only the commands after the last one that cannot be serialized', () => {
+    const local: Command = { name: 'Local only', execute: () => {}, undo: () => {} };
+
+    expect(serializeHistory([move, local, move])).toEqual([move.serialize()]);
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Unit tests for map export utilities
+ * Tests SVG output, the print PDF layout and the PDF writer
+ */
+
+import { describe, it, expect } from 'vitest';
+import { MeasurementUnit, type CampsiteMap } from '@/types';
+import { mockMap } from '@/services/api/mock-maps';
+import { buildMapPdf, buildMapSvg, getLegendEntries, getScaleBar } from '../mapExport';
+import { createPathModule } from '../moduleFactory';
+import { PdfDocument } from '../pdfWriter';
+
+const map: CampsiteMap = {
+  ...mockMap,
+  name: 'Pine & Lake <North>',
+  metadata: {
+    ...mockMap.metadata,
+    emergencyContacts: [{ name: 'Ranger Station', phone: '555-0100', type: 'management' }],
+  },
+};
+
+describe('getScaleBar', () => {
+  it('should pick the longest round length that fits', () => {
+    expect(getScaleBar(2, 150)).toEqual({ meters: 50, length: 100 });
+    expect(getScaleBar(0.1, 150)).toEqual({ meters: 1000, length: 100 });
+  });
+});
+
+describe('getLegendEntries', () => {
+  it('should count visible modules by type in first-seen order', () => {
+    const toilet = map.modules.find((module) => module.type === 'toilet')!;
+    const campsite = map.modules.find((module) => module.type === 'campsite')!;
+    const hidden = { ...toilet, id: 'hidden', visible: false };
+    const entries = getLegendEntries([campsite, toilet, campsite, hidden]);
+
+    expect(entries.map(({ label, count }) => [label, count])).toEqual([
+      ['Campsite', 2],
+      ['Toilet', 1],
+    ]);
+  });
+});
+
+describe('buildMapSvg', () => {
+  it('should draw every visible module and escape text', () => {
+    const svg = buildMapSvg(map);
+
+    expect(svg.startsWith('<?xml')).toBe(true);
+    expect(svg).toContain('<title>Pine &amp; Lake &lt;North&gt;</title>');
+    expect(svg.match(/<rect [^>]*rx="4"/g)).toHaveLength(map.modules.length);
+  });
+
+  it('should leave out the background and labels when asked', () => {
+    const svg = buildMapSvg(map, { includeBackground: false, includeLabels: false });
+
+    expect(svg).not.toContain('fill="#ffffff"');
+    expect(svg).not.toContain('<text');
+  });
+
+  it('should draw pinned dimensions in the map unit unless left out', () => {
+    const dimensions = [{ id: 'dimension-1', start: { x: 0, y: 0 }, end: { x: 300, y: 400 } }];
+    const measured = { ...map, scale: 10, measurementUnit: MeasurementUnit.FEET, dimensions };
+
+    // 500px at 10px/m is 50m, about 164ft
+    expect(buildMapSvg(measured)).toContain('>164 ft</text>');
+    expect(buildMapSvg(measured).match(/<line /g)).toHaveLength(3);
+    expect(buildMapSvg(measured, { includeDimensions: false })).not.toContain('class="dimension"');
+  });
+
+  it('should draw roads and zones from their vertices', () => {
+    const road = createPathModule('road', [{ x: 10, y: 10 }, { x: 110, y: 10 }, { x: 110, y: 60 }]);
+    const zone = createPathModule('zone', [{ x: 200, y: 200 }, { x: 300, y: 200 }, { x: 250, y: 280 }]);
+    const svg = buildMapSvg({ ...map, scale: 2, modules: [road, zone] });
+
+    // Roads are 4m wide by default, so 8px at 2px/m
+    expect(svg).toContain('<polyline points="10,10 110,10 110,60" fill="none"');
+    expect(svg).toContain('stroke-width="8"');
+    expect(svg).toContain('<polygon points="200,200 300,200 250,280"');
+    expect(svg).not.toContain('<rect x="10"');
+  });
+});
+
+describe('buildMapPdf', () => {
+  it('should add a detail sheet per grid cell after the overview', () => {
+    expect(buildMapPdf(map, { paperSize: 'a4', orientation: 'portrait', detailGrid: 1 }).pageCount).toBe(1);
+    expect(buildMapPdf(map, { paperSize: 'a3', orientation: 'landscape', detailGrid: 2 }).pageCount).toBe(5);
+  });
+
+  it('should include the title block text', () => {
+    const pdf = buildMapPdf(map, { paperSize: 'letter', orientation: 'landscape', detailGrid: 1 }).build();
+
+    expect(pdf).toContain('(Pine & Lake <North>) Tj');
+    expect(pdf).toContain(`(${map.metadata.address}) Tj`);
+    expect(pdf).toContain('(555-0100) Tj');
+    expect(pdf).toContain('/MediaBox [0 0 792 612]');
+  });
+});
+
+describe('PdfDocument', () => {
+  it('should write a cross-reference table that points at each object', () => {
+    const pdf = new PdfDocument()
+      .addPage(200, 100)
+      .text(10, 20, 'Site (A)')
+      .addPage(200, 100)
+      .rect(0, 0, 10, 10, { fill: '#ff0000' })
+      .build();
+
+    const offsets = [...pdf.matchAll(/^(\d{10}) 00000 n $/gm)].map((match) => Number(match[1]));
+    expect(offsets).toHaveLength(8);
+    offsets.forEach((offset, index) => {
+      expect(pdf.slice(offset).startsWith(`${index + 1} 0 obj`)).toBe(true);
+    });
+    expect(pdf).toContain('(Site \\(A\\)) Tj');
+    expect(pdf).toContain('/Count 2');
+  });
+
+  it('should draw dashed, closed polylines', () => {
+    const pdf = new PdfDocument()
+      .addPage(200, 100)
+      .polyline([{ x: 0, y: 0 }, { x: 50, y: 0 }, { x: 50, y: 50 }], { stroke: '#000000', dash: [4, 2] }, true)
+      .build();
+
+    expect(pdf).toContain('q 1 J 1 j 0 100 m 50 100 l 50 50 l h 0 0 0 RG 1 w [4 2] 0 d S Q');
+  });
+
+  it('should refuse to draw before a page exists', () => {
+    expect(() => new PdfDocument().text(0, 0, 'x')).toThrow();
+  });
+});
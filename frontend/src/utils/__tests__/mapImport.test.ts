@@ -0,0 +1,198 @@
+/**
+ * Unit tests for map import utilities
+ * Tests export round trips, legacy migration, per-module validation and merging
+ */
+
+import { describe, it, expect } from 'vitest';
+import { MeasurementUnit, type AnyModule, type CampsiteModule } from '@/types';
+import { mockMap } from '@/services/api/mock-maps';
+import { buildMapJson, MAP_EXPORT_VERSION } from '../mapExport';
+import { getExportVersion, LEGACY_VERSION, parseMapExport, prepareModulesForMerge } from '../mapImport';
+
+const campsite = mockMap.modules.find((module): module is CampsiteModule => module.type === 'campsite')!;
+
+const withModules = (modules: unknown[]): string =>
+  JSON.stringify({ version: MAP_EXPORT_VERSION, map: { ...JSON.parse(buildMapJson(mockMap)).map, modules } });
+
+describe('parseMapExport', () => {
+  it('should round-trip a JSON export', () => {
+    const result = parseMapExport(buildMapJson(mockMap));
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.migrated).toBe(false);
+    expect(result.moduleErrors).toEqual([]);
+    expect(result.map).toEqual(mockMap);
+    expect(result.map.modules[0]!.createdAt).toBeInstanceOf(Date);
+  });
+
+  it('should keep the measurement unit and pinned dimensions', () => {
+    const map = {
+      ...mockMap,
+      measurementUnit: MeasurementUnit.FEET,
+      dimensions: [{ id: 'dimension-1', start: { x: 0, y: 0 }, end: { x: 100, y: 0 } }],
+    };
+    const result = parseMapExport(buildMapJson(map));
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.map.measurementUnit).toBe(MeasurementUnit.FEET);
+    expect(result.map.dimensions).toEqual(map.dimensions);
+  });
+
+  it('should keep compliance rule settings', () => {
+    const map = { ...mockMap, complianceRules: { campsite_spacing: { enabled: true, value: 8 } } };
+    const result = parseMapExport(buildMapJson(map));
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.map.complianceRules).toEqual(map.complianceRules);
+  });
+
+  it('should keep utility connections', () => {
+    const connection = { id: 'connection-1', utility: 'water' as const, supplyId: 'tap', siteId: 'site' };
+    const result = parseMapExport(buildMapJson({ ...mockMap, utilityConnections: [connection] }));
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.map.utilityConnections).toEqual([connection]);
+  });
+
+  it('should keep walking distances saved on campsites', () => {
+    const metadata = { ...campsite.metadata, walkingDistances: { toilet: 80 }, stepFreeDistances: {} };
+    const result = parseMapExport(withModules([{ ...campsite, metadata }]));
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.moduleErrors).toEqual([]);
+    expect((result.map.modules[0] as CampsiteModule).metadata).toEqual(metadata);
+  });
+
+  it('should keep module groups', () => {
+    const map = {
+      ...mockMap,
+      groups: [
+        { id: 'north-loop', name: 'North Loop' },
+        { id: 'cabin-row', name: 'Cabin Row', parentId: 'north-loop' },
+      ],
+      modules: [{ ...campsite, groupId: 'cabin-row' }],
+    };
+    const result = parseMapExport(buildMapJson(map));
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.map.groups).toEqual(map.groups);
+    expect(result.map.modules[0]!.groupId).toBe('cabin-row');
+  });
+
+  it('should skip invalid modules and report each one', () => {
+    const broken = { ...campsite, id: 'broken', metadata: { ...campsite.metadata, capacity: 'four' } };
+    const unknown = { ...campsite, id: 'mystery', type: 'helipad' };
+    const result = parseMapExport(withModules([campsite, broken, unknown, campsite]));
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.map.modules.map((module) => module.id)).toEqual([campsite.id]);
+    expect(result.moduleErrors.map(({ index, id }) => [index, id])).toEqual([
+      [1, 'broken'],
+      [2, 'mystery'],
+      [3, campsite.id],
+    ]);
+    expect(result.moduleErrors[0]!.issues[0]).toMatch(/^metadata\.capacity:/);
+    expect(result.moduleErrors[1]!.issues).toEqual(['Unknown module type "helipad"']);
+    expect(result.moduleErrors[2]!.issues).toEqual(['Duplicate module ID']);
+  });
+
+  it('should fail when the map itself is invalid', () => {
+    const file = JSON.parse(buildMapJson(mockMap));
+    file.map.scale = -1;
+    const result = parseMapExport(JSON.stringify(file));
+
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.issues).toEqual([expect.stringMatching(/^map\.scale:/)]);
+  });
+
+  it('should reject files that are not map exports or come from a newer release', () => {
+    expect(parseMapExport('{not json').success).toBe(false);
+    expect(parseMapExport(JSON.stringify({ hello: 'world' })).success).toBe(false);
+
+    const newer = parseMapExport(JSON.stringify({ version: '99.0', map: {} }));
+    expect(newer.success).toBe(false);
+    if (newer.success) return;
+    expect(newer.error).toContain('99.0');
+  });
+
+  it('should migrate a version 1.0 export', () => {
+    const file = { ...JSON.parse(buildMapJson(mockMap)), version: '1.0' };
+    const result = parseMapExport(JSON.stringify(file));
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.migrated).toBe(true);
+    expect(result.sourceVersion).toBe('1.0');
+    expect(result.map.groups).toBeUndefined();
+    expect(result.map.modules).toHaveLength(mockMap.modules.length);
+  });
+
+  it('should migrate a version 1.2 export', () => {
+    const file = { ...JSON.parse(buildMapJson(mockMap)), version: '1.2' };
+    const result = parseMapExport(JSON.stringify(file));
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.migrated).toBe(true);
+    expect(result.sourceVersion).toBe('1.2');
+    expect(result.map.dimensions).toBeUndefined();
+    expect(result.map.background).toBeUndefined();
+  });
+
+  it('should migrate a bare legacy map and fill in missing fields', () => {
+    const { id, type, position, size, metadata } = campsite;
+    const legacy = {
+      id: 'old-map',
+      name: 'Old Map',
+      imageSize: mockMap.imageSize,
+      scale: mockMap.scale,
+      bounds: mockMap.bounds,
+      metadata: { address: '1 Old Road' },
+      modules: [{ id, type, position, size, metadata }],
+    };
+    expect(getExportVersion(legacy)).toBe(LEGACY_VERSION);
+
+    const result = parseMapExport(JSON.stringify(legacy));
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.migrated).toBe(true);
+    expect(result.sourceVersion).toBe(LEGACY_VERSION);
+    expect(result.map.metadata.address).toBe('1 Old Road');
+    expect(result.map.metadata.timezone).toBe('UTC');
+    expect(result.map.modules[0]).toMatchObject({ id, rotation: 0, zIndex: 1, locked: false, visible: true });
+  });
+});
+
+describe('prepareModulesForMerge', () => {
+  it('should replace taken IDs, unbind placed sites and stack above existing modules', () => {
+    const existing: AnyModule[] = [{ ...campsite, zIndex: 5 }];
+    const other: CampsiteModule = {
+      ...campsite,
+      id: 'new-site',
+      zIndex: 2,
+      metadata: { ...campsite.metadata, siteId: 'unplaced-site' },
+    };
+    const result = prepareModulesForMerge([campsite, other], existing);
+
+    expect(result.reassignedIds).toBe(1);
+    expect(result.unboundModules).toBe(1);
+    expect(result.modules[0]!.id).not.toBe(campsite.id);
+    expect((result.modules[0] as CampsiteModule).metadata.siteId).toBeUndefined();
+    expect(result.modules[1]).toMatchObject({ id: 'new-site', zIndex: 7 });
+    expect((result.modules[1] as CampsiteModule).metadata.siteId).toBe('unplaced-site');
+  });
+
+  it('should leave merged modules ungrouped', () => {
+    const result = prepareModulesForMerge([{ ...campsite, groupId: 'north-loop' }], []);
+
+    expect(result.modules[0]!.groupId).toBeUndefined();
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Unit tests for map library utilities
+ * Tests searching maps, naming copies and creating maps blank or from a template
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { CampsiteMap } from '@/types';
+import { mockMap } from '@/services/api/mock-maps';
+import { mockMapTemplates } from '@/services/api/mock-templates';
+import { getModuleBounds } from '../mapGeometry';
+import {
+  BLANK_MAP_SIZE,
+  EMPTY_MAP_METADATA,
+  copyMap,
+  createMapData,
+  createTemplateMapModules,
+  filterMaps,
+  getCopyName,
+  getMapUpdate,
+} from '../mapLibrary';
+
+const toMap = (changes: Partial<CampsiteMap>): CampsiteMap => ({ ...mockMap, ...changes });
+
+describe('filterMaps', () => {
+  const maps = [
+    toMap({ id: 'a', name: 'Lakeside', createdBy: 'user-1', updatedAt: new Date('2026-03-10') }),
+    toMap({ id: 'b', name: 'Forest Loop', description: 'Overflow area', createdBy: 'user-2', updatedAt: new Date('2026-05-01') }),
+    toMap({ id: 'c', name: 'Old Layout', isArchived: true }),
+  ];
+
+  it('should list archived maps only when asked for', () => {
+    expect(filterMaps(maps).map((map) => map.id)).toEqual(['a', 'b']);
+    expect(filterMaps(maps, { archived: true }).map((map) => map.id)).toEqual(['c']);
+  });
+
+  it('should search names and descriptions', () => {
+    expect(filterMaps(maps, { search: 'lake' }).map((map) => map.id)).toEqual(['a']);
+    expect(filterMaps(maps, { search: 'OVERFLOW' }).map((map) => map.id)).toEqual(['b']);
+  });
+
+  it('should filter by creator and by when the map was last changed', () => {
+    expect(filterMaps(maps, { createdBy: 'user-2' }).map((map) => map.id)).toEqual(['b']);
+    const dateRange = { start: new Date('2026-03-01'), end: new Date('2026-03-31') };
+    expect(filterMaps(maps, { dateRange }).map((map) => map.id)).toEqual(['a']);
+  });
+});
+
+describe('getCopyName', () => {
+  it('should number copies when the name is taken', () => {
+    expect(getCopyName('Lakeside', ['Lakeside'])).toBe('Lakeside (copy)');
+    expect(getCopyName('Lakeside', ['Lakeside (copy)', 'Lakeside (copy 2)'])).toBe('Lakeside (copy 3)');
+  });
+});
+
+describe('copyMap', () => {
+  it('should give the copy a new id and drop its published and archived state', () => {
+    const copy = copyMap(toMap({ isPublished: true, isArchived: true, createdBy: 'user-1' }), 'Copy', 'user-2');
+
+    expect(copy.id).not.toBe(mockMap.id);
+    expect(copy.name).toBe('Copy');
+    expect(copy.createdBy).toBe('user-2');
+    expect(copy).not.toHaveProperty('isPublished');
+    expect(copy).not.toHaveProperty('isArchived');
+    expect(copy.modules).toEqual(mockMap.modules);
+    expect(copy.modules).not.toBe(mockMap.modules);
+  });
+});
+
+describe('createMapData', () => {
+  const request = { name: 'New', description: '', scale: 1, metadata: EMPTY_MAP_METADATA };
+
+  it('should create a blank map at the default size', () => {
+    const map = createMapData(request);
+
+    expect(map.modules).toEqual([]);
+    expect(map.imageSize).toEqual(BLANK_MAP_SIZE);
+  });
+
+  it('should grow the map to fit the modules of a template', () => {
+    const template = mockMapTemplates[0]!;
+    const modules = createTemplateMapModules(template);
+    const map = createMapData({ ...request, modules }, 'user-1');
+
+    expect(modules).toHaveLength(template.modules.length);
+    expect(Math.min(...modules.map((module) => getModuleBounds(module).minX))).toBeCloseTo(40);
+    modules.forEach((module) => {
+      const bounds = getModuleBounds(module);
+      expect(bounds.maxX).toBeLessThanOrEqual(map.imageSize.width);
+      expect(bounds.maxY).toBeLessThanOrEqual(map.imageSize.height);
+    });
+    expect(map.createdBy).toBe('user-1');
+  });
+});
+
+describe('getMapUpdate', () => {
+  it('should carry everything laid out in the editor under the map ID', () => {
+    const map = toMap({ id: 'map-1', dimensions: [], groups: [{ id: 'g', name: 'Loop A' }] });
+    const update = getMapUpdate(map);
+
+    expect(update.id).toBe('map-1');
+    expect(update.modules).toBe(map.modules);
+    expect(update.groups).toEqual(map.groups);
+    expect(update.utilityConnections).toEqual([]);
+    expect(update).not.toHaveProperty('createdAt');
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Unit tests for map template utilities
+ * Tests creating templates from modules, searching the library and placing templates
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { AnyModule, CampsiteModule, CampsiteTemplate } from '@/types';
+import { mockMap } from '@/services/api/mock-maps';
+import { mockMapTemplates, mockModuleTemplates } from '@/services/api/mock-templates';
+import {
+  buildTemplatePreview,
+  createTemplateModules,
+  filterTemplates,
+  getTemplateTags,
+  instantiateTemplate,
+} from '../mapTemplates';
+
+const campsites = mockMap.modules.filter((module): module is CampsiteModule => module.type === 'campsite');
+
+const toTemplate = (modules: AnyModule[]): CampsiteTemplate => ({
+  id: 'template-test',
+  name: 'Test',
+  description: '',
+  category: 'Layouts',
+  modules: createTemplateModules(modules),
+  tags: [],
+  isPublic: false,
+  createdBy: 'user-1',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+});
+
+describe('createTemplateModules', () => {
+  it('should make positions relative to the top-left corner and drop site bindings', () => {
+    const [first, second] = campsites;
+    const modules = createTemplateModules([second!, first!]);
+
+    const minX = Math.min(first!.position.x, second!.position.x);
+    const minY = Math.min(first!.position.y, second!.position.y);
+    expect(modules).toHaveLength(2);
+    expect(modules[0]!.position).toEqual({ x: first!.position.x - minX, y: first!.position.y - minY });
+    expect(modules.map((module) => module.zIndex)).toEqual([1, 2]);
+    modules.forEach((module) => {
+      expect(module).not.toHaveProperty('id');
+      expect(module.metadata).not.toHaveProperty('siteId');
+    });
+    expect(first!.metadata.siteId).toBeDefined();
+  });
+
+  it('should draw a preview with one shape per module', () => {
+    const preview = buildTemplatePreview(createTemplateModules(campsites));
+
+    expect(preview).toMatch(/^data:image\/svg\+xml/);
+    expect(decodeURIComponent(preview).match(/<rect /g)).toHaveLength(campsites.length);
+  });
+});
+
+describe('filterTemplates', () => {
+  const library = [...mockMapTemplates, ...mockModuleTemplates];
+
+  it('should match search text against names, descriptions and tags', () => {
+    expect(filterTemplates(library, { search: 'LOOP' }).map((template) => template.id)).toEqual(['template-rv-loop']);
+    expect(filterTemplates(library, { search: 'primitive' }).map((template) => template.id)).toEqual([
+      'module-template-tent-pad',
+    ]);
+  });
+
+  it('should require every tag and filter by category and module type', () => {
+    expect(filterTemplates(library, { tags: ['rv', 'accessible'] }).map((template) => template.id)).toEqual([
+      'module-template-accessible-site',
+    ]);
+    expect(filterTemplates(library, { category: 'Facilities' })).toHaveLength(1);
+    expect(filterTemplates(library, { type: 'toilet' }).map((template) => template.id)).toEqual([
+      'template-comfort-station',
+    ]);
+  });
+
+  it('should list every tag once', () => {
+    const tags = getTemplateTags(library);
+
+    expect(tags).toEqual([...new Set(tags)].sort());
+    expect(tags).toContain('hookups');
+  });
+});
+
+describe('instantiateTemplate', () => {
+  it('should centre the template on the point with new IDs above existing modules', () => {
+    const template = toTemplate(campsites.slice(0, 2));
+    const modules = instantiateTemplate(template, { x: 1000, y: 500 }, mockMap.modules);
+
+    const maxZIndex = Math.max(...mockMap.modules.map((module) => module.zIndex));
+    const minX = Math.min(...modules.map((module) => module.position.x));
+    const maxX = Math.max(...modules.map((module) => module.position.x + module.size.width));
+    expect(modules).toHaveLength(2);
+    expect((minX + maxX) / 2).toBeCloseTo(1000);
+    expect(modules.map((module) => module.zIndex)).toEqual([maxZIndex + 1, maxZIndex + 2]);
+    expect(new Set(modules.map((module) => module.id)).size).toBe(2);
+    expect(modules.some((module) => mockMap.modules.some((existing) => existing.id === module.id))).toBe(false);
+  });
+
+  it('should place a module template with its preset size and metadata', () => {
+    const [tentPad] = mockModuleTemplates;
+    const [module] = instantiateTemplate(tentPad!, { x: 100, y: 100 }, []);
+
+    expect(module).toMatchObject({
+      type: 'campsite',
+      size: tentPad!.defaultSize,
+      position: { x: 80, y: 80 },
+      metadata: { name: 'Tent Pad', capacity: 4 },
+    });
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Unit tests for measurement utilities
+ * Tests unit formatting, dimension geometry and module areas in real-world units
+ */
+
+import { describe, it, expect } from 'vitest';
+import { MeasurementUnit } from '@/types';
+import { mockMap } from '@/services/api/mock-maps';
+import { createNewModule, createPathModule } from '../moduleFactory';
+import {
+  formatArea,
+  formatLength,
+  getCalibratedScale,
+  getDimensionGeometry,
+  getDimensionLength,
+  getMeasurementUnit,
+  getPolygonArea,
+  measureModule,
+} from '../measurement';
+
+describe('formatLength', () => {
+  it('should write metres and feet with one decimal below 100', () => {
+    expect(formatLength(12.34, MeasurementUnit.METERS)).toBe('12.3 m');
+    expect(formatLength(3.048, MeasurementUnit.FEET)).toBe('10.0 ft');
+  });
+
+  it('should round longer distances to whole units', () => {
+    expect(formatLength(1234.5, MeasurementUnit.METERS)).toBe('1,235 m');
+  });
+});
+
+describe('formatArea', () => {
+  it('should convert square metres to square feet', () => {
+    expect(formatArea(10, MeasurementUnit.METERS)).toBe('10.0 m²');
+    expect(formatArea(10, MeasurementUnit.FEET)).toBe('108 ft²');
+  });
+});
+
+describe('getMeasurementUnit', () => {
+  it('should default to metres', () => {
+    expect(getMeasurementUnit(mockMap)).toBe(MeasurementUnit.METERS);
+    expect(getMeasurementUnit({ measurementUnit: MeasurementUnit.FEET })).toBe(MeasurementUnit.FEET);
+  });
+});
+
+describe('getDimensionGeometry', () => {
+  it('should measure in metres and put end marks across the line', () => {
+    const dimension = { start: { x: 0, y: 0 }, end: { x: 0, y: 100 } };
+    const { ticks, midpoint, angle } = getDimensionGeometry(dimension, 10);
+
+    expect(getDimensionLength(dimension, 4)).toBe(25);
+    expect(midpoint).toEqual({ x: 0, y: 50 });
+    expect(angle).toBe(90);
+    expect(ticks[1]).toEqual([{ x: 5, y: 100 }, { x: -5, y: 100 }]);
+  });
+
+  it('should keep labels reading left to right', () => {
+    expect(getDimensionGeometry({ start: { x: 100, y: 0 }, end: { x: 0, y: 0 } }, 10).angle).toBe(0);
+  });
+});
+
+describe('getCalibratedScale', () => {
+  it('should set the scale from a line of known length', () => {
+    const line = { start: { x: 0, y: 0 }, end: { x: 300, y: 400 } };
+
+    expect(getCalibratedScale(line, 50, MeasurementUnit.METERS)).toBe(10);
+    expect(getCalibratedScale(line, 50 / 0.3048, MeasurementUnit.FEET)).toBeCloseTo(10);
+  });
+
+  it('should not calibrate from an empty line or distance', () => {
+    expect(getCalibratedScale({ start: { x: 5, y: 5 }, end: { x: 5, y: 5 } }, 10, MeasurementUnit.METERS)).toBeNull();
+    expect(getCalibratedScale({ start: { x: 0, y: 0 }, end: { x: 10, y: 0 } }, 0, MeasurementUnit.METERS)).toBeNull();
+  });
+});
+
+describe('measureModule', () => {
+  it('should measure rectangular modules at the map scale', () => {
+    const module = createNewModule('campsite', { x: 0, y: 0 }, { size: { width: 100, height: 50 } });
+
+    expect(measureModule(module, 10)).toEqual({ area: 50, perimeter: 30 });
+  });
+
+  it('should measure zones by the polygon they enclose', () => {
+    const zone = createPathModule('zone', [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 0, y: 100 }]);
+
+    expect(getPolygonArea(zone.points)).toBe(5000);
+    expect(measureModule(zone, 10).area).toBeCloseTo(50);
+  });
+
+  it('should measure roads along their centre line', () => {
+    const road = createPathModule('road', [{ x: 0, y: 0 }, { x: 300, y: 0 }, { x: 300, y: 400 }]);
+    const { length, area } = measureModule(road, 10);
+
+    // 700px at 10px/m, 4m wide by default
+    expect(length).toBeCloseTo(70);
+    expect(area).toBeCloseTo(280);
+  });
+});
@@ -0,0 +1,37 @@
+/**
+ * Unit tests for minimap utilities
+ * Tests the area the minimap covers and moving between the minimap and the editor viewport
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createNewModule } from '../moduleFactory';
+import { getMinimapBounds, getPanToCenter, getViewportBounds } from '../minimap';
+
+const viewSize = { width: 800, height: 600 };
+
+describe('getMinimapBounds', () => {
+  it('should cover the map image and any modules outside it', () => {
+    const inside = createNewModule('campsite', { x: 100, y: 100 }, { size: { width: 40, height: 20 } });
+    const outside = createNewModule('campsite', { x: 1950, y: -30 }, { size: { width: 100, height: 50 } });
+
+    expect(getMinimapBounds({ width: 2000, height: 1000 }, [inside])).toEqual({ minX: 0, minY: 0, maxX: 2000, maxY: 1000 });
+    expect(getMinimapBounds({ width: 2000, height: 1000 }, [inside, outside])).toEqual({ minX: 0, minY: -30, maxX: 2050, maxY: 1000 });
+  });
+});
+
+describe('getViewportBounds', () => {
+  it('should turn the viewport transform into the visible part of the map', () => {
+    expect(getViewportBounds({ x: -200, y: -100 }, 2, viewSize)).toEqual({ minX: 100, minY: 50, maxX: 500, maxY: 350 });
+  });
+});
+
+describe('getPanToCenter', () => {
+  it('should put the point in the middle of the viewport', () => {
+    const pan = getPanToCenter({ x: 1000, y: 500 }, 0.5, viewSize);
+    const bounds = getViewportBounds(pan, 0.5, viewSize);
+
+    expect(pan).toEqual({ x: -100, y: 50 });
+    expect((bounds.minX + bounds.maxX) / 2).toBe(1000);
+    expect((bounds.minY + bounds.maxY) / 2).toBe(500);
+  });
+});
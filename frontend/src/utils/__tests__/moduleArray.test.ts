@@ -0,0 +1,79 @@
+/**
+ * Unit tests for module array utilities
+ * Tests repeating modules in grids and along paths, and numbering the copies
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createNewModule, createPathModule } from '../moduleFactory';
+import {
+  DEFAULT_ARRAY_OPTIONS,
+  createModuleArray,
+  formatArrayName,
+  getArrayPath,
+  getPathCapacity,
+  getPathPlacement,
+} from '../moduleArray';
+
+const pitch = createNewModule('campsite', { x: 0, y: 0 }, { size: { width: 40, height: 20 } });
+
+describe('formatArrayName', () => {
+  it('should fill in the number, or add it to the end', () => {
+    expect(formatArrayName('A-{n}', 7)).toBe('A-7');
+    expect(formatArrayName('Pitch ', 3)).toBe('Pitch 3');
+  });
+});
+
+describe('createModuleArray', () => {
+  it('should lay out a grid with gaps in metres and number the copies row by row', () => {
+    const { originals, copies } = createModuleArray(
+      [pitch],
+      { ...DEFAULT_ARRAY_OPTIONS, columns: 3, rows: 2, columnGap: 1, rowGap: 2, namePattern: 'A-{n}' },
+      10
+    );
+
+    expect(originals[0]!.id).toBe(pitch.id);
+    expect(originals[0]!.metadata.name).toBe('A-1');
+    expect(copies.map((module) => module.position)).toEqual([
+      { x: 50, y: 0 },
+      { x: 100, y: 0 },
+      { x: 0, y: 40 },
+      { x: 50, y: 40 },
+      { x: 100, y: 40 },
+    ]);
+    expect(copies.map((module) => module.metadata.name)).toEqual(['A-2', 'A-3', 'A-4', 'A-5', 'A-6']);
+    expect(new Set(copies.map((module) => module.id)).size).toBe(5);
+  });
+
+  it('should keep names when there is no pattern', () => {
+    const { originals, copies } = createModuleArray([pitch], { ...DEFAULT_ARRAY_OPTIONS, columns: 2 }, 10);
+
+    expect(originals[0]).toBe(pitch);
+    expect(copies[0]!.metadata.name).toBe(pitch.metadata.name);
+  });
+
+  it('should follow a path, keeping the offset from it and turning at corners', () => {
+    // Pitch centred 20px below the start of a road that runs right then down
+    const path = [{ x: 20, y: -10 }, { x: 120, y: -10 }, { x: 120, y: 90 }];
+    const { copies } = createModuleArray([pitch], { ...DEFAULT_ARRAY_OPTIONS, layout: 'path', interval: 5, count: 10 }, 10, path);
+
+    expect(getPathCapacity(path, 50)).toBe(5);
+    expect(copies).toHaveLength(4);
+    expect(copies[0]!.position).toEqual({ x: 50, y: 0 });
+    expect(copies[0]!.rotation).toBe(0);
+    // Past the corner the road heads down and the pitch turns with it
+    expect(copies[2]!.rotation).toBe(90);
+    expect(copies[2]!.position.x).toBeCloseTo(80);
+    expect(copies[2]!.position.y).toBeCloseTo(30);
+  });
+});
+
+describe('getArrayPath', () => {
+  it('should take the selected road as the path and the rest as the modules to repeat', () => {
+    const road = createPathModule('road', [{ x: 0, y: 0 }, { x: 100, y: 0 }]);
+    const result = getArrayPath([pitch, road]);
+
+    expect(result?.items).toEqual([pitch]);
+    expect(getPathPlacement(result!.path, 30)?.point).toEqual({ x: 30, y: 0 });
+    expect(getArrayPath([pitch])).toBeNull();
+  });
+});
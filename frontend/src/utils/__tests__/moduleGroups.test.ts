@@ -0,0 +1,115 @@
+/**
+ * Unit tests for module group utilities
+ * Tests the layers tree, group lookups and moving and removing nested groups
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { AnyModule, CampsiteMap, ModuleGroup } from '@/types';
+import { mockMap } from '@/services/api/mock-maps';
+import { createNewModule } from '../moduleFactory';
+import {
+  buildLayerTree,
+  getAncestorIds,
+  getCommonGroupId,
+  getGroupModules,
+  getNextGroupName,
+  getTopLevelGroupId,
+  moveGroup,
+  removeGroup,
+  type LayerNode,
+} from '../moduleGroups';
+
+const northLoop: ModuleGroup = { id: 'north-loop', name: 'North Loop' };
+const cabinRow: ModuleGroup = { id: 'cabin-row', name: 'Cabin Row', parentId: 'north-loop' };
+const lakeside: ModuleGroup = { id: 'lakeside', name: 'Lakeside' };
+
+const cabin = { ...createNewModule('campsite', { x: 0, y: 0 }), zIndex: 1, groupId: 'cabin-row' } as AnyModule;
+const toilet = { ...createNewModule('toilet', { x: 100, y: 0 }), zIndex: 2, groupId: 'north-loop' } as AnyModule;
+const parking = { ...createNewModule('parking', { x: 200, y: 0 }), zIndex: 3 } as AnyModule;
+
+const buildMap = (modules: AnyModule[], groups: ModuleGroup[] = [northLoop, cabinRow, lakeside]): CampsiteMap => ({
+  ...mockMap,
+  groups,
+  modules,
+});
+
+/** Flatten a tree to IDs, nested groups in brackets */
+const describeTree = (nodes: LayerNode[]): unknown[] =>
+  nodes.map((node) => (node.kind === 'group' ? [node.group.id, describeTree(node.children)] : node.module.id));
+
+describe('buildLayerTree', () => {
+  it('should nest groups and modules, groups first and modules from the top layer down', () => {
+    const tree = buildLayerTree(buildMap([cabin, toilet, parking]));
+
+    expect(describeTree(tree)).toEqual([
+      ['north-loop', [['cabin-row', [cabin.id]], toilet.id]],
+      ['lakeside', []],
+      parking.id,
+    ]);
+  });
+
+  it('should put modules and groups whose group is missing, or nested in a loop, at the top level', () => {
+    const loop: ModuleGroup[] = [
+      { id: 'a', name: 'A', parentId: 'b' },
+      { id: 'b', name: 'B', parentId: 'a' },
+    ];
+    const tree = buildLayerTree(buildMap([{ ...parking, groupId: 'deleted' } as AnyModule], loop));
+
+    expect(describeTree(tree)).toEqual([['a', []], ['b', []], parking.id]);
+  });
+});
+
+describe('group lookups', () => {
+  const map = buildMap([cabin, toilet, parking]);
+
+  it('should find a group\'s modules including those in nested groups', () => {
+    expect(getGroupModules(map, 'north-loop').map((module) => module.id)).toEqual([cabin.id, toilet.id]);
+    expect(getGroupModules(map, 'cabin-row').map((module) => module.id)).toEqual([cabin.id]);
+  });
+
+  it('should find enclosing groups', () => {
+    expect(getAncestorIds(map.groups!, 'cabin-row')).toEqual(['north-loop']);
+    expect(getTopLevelGroupId(map, cabin)).toBe('north-loop');
+    expect(getTopLevelGroupId(map, parking)).toBeUndefined();
+  });
+
+  it('should find the innermost group shared by modules', () => {
+    expect(getCommonGroupId(map, [cabin, toilet])).toBe('north-loop');
+    expect(getCommonGroupId(map, [cabin])).toBe('cabin-row');
+    expect(getCommonGroupId(map, [cabin, parking])).toBeUndefined();
+  });
+});
+
+describe('moveGroup', () => {
+  const groups = [northLoop, cabinRow, lakeside];
+
+  it('should move a group into another, before a sibling or last', () => {
+    expect(moveGroup(groups, 'lakeside', 'north-loop', 'cabin-row')).toEqual([
+      northLoop,
+      { ...lakeside, parentId: 'north-loop' },
+      cabinRow,
+    ]);
+    expect(moveGroup(groups, 'cabin-row', undefined)).toEqual([northLoop, lakeside, { id: 'cabin-row', name: 'Cabin Row' }]);
+  });
+
+  it('should not move a group into itself or a group nested in it', () => {
+    expect(moveGroup(groups, 'north-loop', 'cabin-row')).toBe(groups);
+    expect(moveGroup(groups, 'north-loop', 'north-loop')).toBe(groups);
+  });
+});
+
+describe('removeGroup', () => {
+  it('should move nested groups up a level', () => {
+    expect(removeGroup([northLoop, cabinRow, lakeside], 'north-loop')).toEqual([
+      { id: 'cabin-row', name: 'Cabin Row' },
+      lakeside,
+    ]);
+  });
+});
+
+describe('getNextGroupName', () => {
+  it('should number new groups after the highest in use', () => {
+    expect(getNextGroupName([])).toBe('Group 1');
+    expect(getNextGroupName([northLoop, { id: 'g', name: 'Group 4' }])).toBe('Group 5');
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Unit tests for module path utilities
+ * Tests fitting, scaling, hit-testing and simplifying road and zone vertices
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createPathModule } from '../moduleFactory';
+import {
+  fitPathPoints,
+  getAbsolutePoints,
+  getNearestSegment,
+  getPathLength,
+  isPathModule,
+  scalePathPoints,
+  simplifyPath,
+} from '../modulePaths';
+
+describe('fitPathPoints', () => {
+  it('should fit the module box around the vertices', () => {
+    const path = fitPathPoints([{ x: 50, y: 80 }, { x: 150, y: 20 }, { x: 90, y: 60 }]);
+
+    expect(path.position).toEqual({ x: 50, y: 20 });
+    expect(path.size).toEqual({ width: 100, height: 60 });
+    expect(path.points).toEqual([{ x: 0, y: 60 }, { x: 100, y: 0 }, { x: 40, y: 40 }]);
+  });
+
+  it('should centre a straight path in a box at least one unit tall', () => {
+    const path = fitPathPoints([{ x: 0, y: 10 }, { x: 40, y: 10 }]);
+
+    expect(path.size).toEqual({ width: 40, height: 1 });
+    expect(path.points).toEqual([{ x: 0, y: 0.5 }, { x: 40, y: 0.5 }]);
+  });
+});
+
+describe('createPathModule', () => {
+  it('should create a road that is drawn from its vertices', () => {
+    const road = createPathModule('road', [{ x: 10, y: 10 }, { x: 60, y: 40 }]);
+
+    expect(road).toMatchObject({ type: 'road', position: { x: 10, y: 10 }, size: { width: 50, height: 30 } });
+    expect(isPathModule(road)).toBe(true);
+    expect(isPathModule({ ...road, points: undefined })).toBe(false);
+  });
+});
+
+describe('getAbsolutePoints', () => {
+  it('should rotate the vertices about the module centre', () => {
+    const road = { ...createPathModule('road', [{ x: 0, y: 0 }, { x: 100, y: 0 }]), rotation: 90 };
+    const [start, end] = getAbsolutePoints(road);
+
+    expect(start!.x).toBeCloseTo(50);
+    expect(start!.y).toBeCloseTo(-50);
+    expect(end!.x).toBeCloseTo(50);
+    expect(end!.y).toBeCloseTo(50);
+  });
+});
+
+describe('scalePathPoints', () => {
+  it('should stretch the vertices with the module size', () => {
+    expect(scalePathPoints([{ x: 10, y: 20 }], { width: 100, height: 100 }, { width: 200, height: 50 })).toEqual([
+      { x: 20, y: 10 },
+    ]);
+  });
+});
+
+describe('getNearestSegment', () => {
+  const square = [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 100 }, { x: 0, y: 100 }];
+
+  it('should find the closest segment and its distance', () => {
+    expect(getNearestSegment(square, { x: 95, y: 50 }, false)).toEqual({ index: 1, distance: 5 });
+  });
+
+  it('should include the closing segment of closed paths only', () => {
+    expect(getNearestSegment(square, { x: 2, y: 50 }, true)).toEqual({ index: 3, distance: 2 });
+    expect(getNearestSegment(square, { x: 2, y: 50 }, false)!.index).not.toBe(3);
+  });
+});
+
+describe('simplifyPath', () => {
+  it('should drop vertices that lie close to a straight line', () => {
+    const stroke = [{ x: 0, y: 0 }, { x: 10, y: 0.2 }, { x: 20, y: -0.1 }, { x: 30, y: 0 }, { x: 30, y: 30 }];
+
+    expect(simplifyPath(stroke, 1)).toEqual([{ x: 0, y: 0 }, { x: 30, y: 0 }, { x: 30, y: 30 }]);
+  });
+
+  it('should keep the length of the simplified path close to the original', () => {
+    const stroke = [{ x: 0, y: 0 }, { x: 50, y: 0.5 }, { x: 100, y: 0 }];
+
+    expect(getPathLength(simplifyPath(stroke, 1))).toBe(100);
+    expect(getPathLength(stroke, true)).toBeCloseTo(200, 0);
+  });
+});
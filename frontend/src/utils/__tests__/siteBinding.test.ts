@@ -0,0 +1,96 @@
+/**
+ * Unit tests for site binding utilities
+ * Tests module/site field mapping, drift detection and the binding report
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { AnyModule, CampsiteModule, Site } from '@/types';
+import { mockSites } from '@/services/api/mock-sites';
+import { createNewModule } from '../moduleFactory';
+import {
+  getSiteBindingReport,
+  getSiteUpdates,
+  getSyncedSiteChanges,
+  isModuleInSync,
+  siteToCampsiteMetadata,
+  unbindModule,
+} from '../siteBinding';
+
+const [cabin, otherCabin, thirdCabin] = mockSites as [Site, Site, Site];
+
+const createCampsite = (site?: Site): CampsiteModule => {
+  const module = createNewModule('campsite', { x: 0, y: 0 }) as CampsiteModule;
+  return site ? { ...module, metadata: siteToCampsiteMetadata(site, module.metadata) } : module;
+};
+
+describe('siteBinding', () => {
+  it('should mirror site inventory fields into module metadata', () => {
+    const module = createCampsite(cabin);
+
+    expect(module.metadata.siteId).toBe(cabin.id);
+    expect(module.metadata.name).toBe(cabin.name);
+    expect(module.metadata.capacity).toBe(cabin.capacity);
+    expect(module.metadata.pricing.basePrice).toBe(cabin.basePrice);
+    expect(module.metadata.electricHookup).toBe(cabin.hasElectricity);
+    expect(isModuleInSync(module, cabin)).toBe(true);
+  });
+
+  it('should only report synced fields as site changes', () => {
+    const before = createCampsite(cabin).metadata;
+    const after = {
+      ...before,
+      capacity: before.capacity + 2,
+      pricing: { ...before.pricing, seasonalMultiplier: 1.5 },
+    };
+
+    expect(getSyncedSiteChanges(before, after)).toEqual({ capacity: before.capacity + 2 });
+    expect(getSyncedSiteChanges(before, { ...before, accessibility: true })).toEqual({});
+  });
+
+  it('should detect drift between a module and its site', () => {
+    const module = createCampsite(cabin);
+
+    expect(isModuleInSync(module, { ...cabin, amenities: [...cabin.amenities, 'Kayak'] })).toBe(false);
+  });
+
+  it('should collect the site changes made by bound modules', () => {
+    const edited = createCampsite(cabin);
+    edited.metadata = { ...edited.metadata, capacity: cabin.capacity + 2 };
+    const modules: AnyModule[] = [edited, createCampsite(otherCabin), createCampsite()];
+
+    expect(getSiteUpdates(modules, [cabin, otherCabin])).toEqual([
+      { siteId: cabin.id, changes: { capacity: cabin.capacity + 2 } },
+    ]);
+    expect(getSiteUpdates(modules, [otherCabin])).toEqual([]);
+  });
+
+  it('should strip the site binding from a copied module', () => {
+    const module = createCampsite(cabin);
+
+    expect(unbindModule(module).metadata.siteId).toBeUndefined();
+    expect(module.metadata.siteId).toBe(cabin.id);
+  });
+
+  it('should group modules and sites by binding state', () => {
+    const unbound = createCampsite();
+    const inSync = createCampsite(cabin);
+    const drifted = { ...createCampsite(otherCabin), metadata: { ...createCampsite(otherCabin).metadata, capacity: 99 } };
+    const duplicate = createCampsite(cabin);
+    const broken = { ...createCampsite(), metadata: { ...createCampsite().metadata, siteId: 'missing' } };
+    const modules: AnyModule[] = [unbound, inSync, drifted, duplicate, broken];
+
+    const report = getSiteBindingReport(modules, [cabin, otherCabin, thirdCabin]);
+
+    expect(report.unboundModules).toEqual([unbound]);
+    expect(report.brokenModules).toEqual([broken]);
+    expect(report.outOfSyncModules).toEqual([{ module: drifted, site: otherCabin }]);
+    expect(report.duplicateBindings).toEqual([{ site: cabin, modules: [inSync, duplicate] }]);
+    expect(report.unplacedSites).toEqual([thirdCabin]);
+  });
+
+  it('should not report sites placed on another map as unplaced', () => {
+    const report = getSiteBindingReport([], [cabin, otherCabin], [{ modules: [createCampsite(otherCabin)] }]);
+
+    expect(report.unplacedSites).toEqual([cabin]);
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Unit tests for site occupancy utilities
+ * Tests the per-site state shown on the map operations view and live updates
+ */
+
+import { describe, it, expect } from 'vitest';
+import { BookingStatus, SiteStatus } from '@/types';
+import type { AnyModule, Booking, Site } from '@/types';
+import { mockSites } from '@/services/api/mock-sites';
+import { mockBookings } from '@/services/api/mock-bookings';
+import { mockMap } from '@/services/api/mock-maps';
+import {
+  applyBookingCheckIn,
+  applySiteStatusChange,
+  countOccupancy,
+  getMapOccupancy,
+  getSiteOccupancy,
+} from '../siteOccupancy';
+
+const today = new Date(2025, 6, 10, 9, 30);
+const site: Site = { ...mockSites[0]!, status: SiteStatus.AVAILABLE };
+
+const createBooking = (overrides: Partial<Booking>): Booking => ({
+  ...mockBookings[0]!,
+  siteId: site.id,
+  checkInDate: new Date(2025, 6, 8),
+  checkOutDate: new Date(2025, 6, 12),
+  ...overrides,
+});
+
+describe('getSiteOccupancy', () => {
+  it('should report a vacant site without bookings', () => {
+    expect(getSiteOccupancy(site, [], today).state).toBe('vacant');
+  });
+
+  it('should distinguish in-house guests from those departing today', () => {
+    const staying = createBooking({ id: 'stay', status: BookingStatus.CHECKED_IN });
+    const leaving = createBooking({ id: 'leave', status: BookingStatus.CHECKED_IN, checkOutDate: new Date(2025, 6, 10) });
+
+    expect(getSiteOccupancy(site, [staying], today)).toMatchObject({ state: 'occupied', booking: staying });
+    expect(getSiteOccupancy(site, [leaving], today)).toMatchObject({ state: 'departing', booking: leaving });
+  });
+
+  it('should report confirmed bookings starting today as arrivals', () => {
+    const arriving = createBooking({ status: BookingStatus.CONFIRMED, checkInDate: new Date(2025, 6, 10) });
+
+    expect(getSiteOccupancy(site, [arriving], today)).toMatchObject({ state: 'arriving', booking: arriving });
+    expect(getSiteOccupancy(site, [{ ...arriving, status: BookingStatus.CANCELLED }], today).state).toBe('vacant');
+  });
+
+  it('should show maintenance sites unless a guest is still in house', () => {
+    const underMaintenance = { ...site, status: SiteStatus.MAINTENANCE };
+    const staying = createBooking({ status: BookingStatus.CHECKED_IN });
+
+    expect(getSiteOccupancy(underMaintenance, [], today).state).toBe('maintenance');
+    expect(getSiteOccupancy(underMaintenance, [staying], today).state).toBe('occupied');
+  });
+});
+
+describe('getMapOccupancy', () => {
+  it('should only cover campsite modules and flag those not linked to a site', () => {
+    const unlinked = { ...mockMap.modules.find((module) => module.type === 'campsite')!, id: 'loose' } as AnyModule;
+    const modules = [...mockMap.modules, { ...unlinked, metadata: { ...unlinked.metadata, siteId: undefined } } as AnyModule];
+
+    const occupancy = getMapOccupancy(modules, mockSites, [], today);
+    const counts = countOccupancy(occupancy);
+
+    expect(occupancy.size).toBe(mockSites.length + 1);
+    expect(occupancy.get('loose')?.state).toBe('unlinked');
+    expect(counts.unlinked).toBe(1);
+  });
+});
+
+describe('live updates', () => {
+  it('should apply a site status change to the matching site only', () => {
+    const updated = applySiteStatusChange(mockSites, { id: 'evt-1', siteId: site.id, status: SiteStatus.MAINTENANCE });
+
+    expect(updated[0]?.status).toBe(SiteStatus.MAINTENANCE);
+    expect(updated[1]).toBe(mockSites[1]);
+  });
+
+  it('should mark a known booking as checked in and ask for a refetch otherwise', () => {
+    const booking = createBooking({ id: 'b-1', status: BookingStatus.CONFIRMED });
+    const payload = {
+      id: 'b-1',
+      userId: booking.userId,
+      siteId: site.id,
+      status: BookingStatus.CHECKED_IN,
+      checkInDate: booking.checkInDate.toISOString(),
+      checkOutDate: booking.checkOutDate.toISOString(),
+    };
+
+    expect(applyBookingCheckIn([booking], payload)?.[0]?.status).toBe(BookingStatus.CHECKED_IN);
+    expect(applyBookingCheckIn([booking], { ...payload, id: 'other' })).toBeNull();
+  });
+});
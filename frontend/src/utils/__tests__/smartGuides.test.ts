@@ -0,0 +1,62 @@
+/**
+ * Unit tests for smart guide utilities
+ * Tests snapping to nearby modules' edges, centres and spacing, and the guides shown
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getSmartGuides, type Bounds } from '../smartGuides';
+
+const box = (left: number, top: number, width = 40, height = 40): Bounds => ({ left, top, width, height });
+
+describe('getSmartGuides', () => {
+  it('should snap edges and centres to a nearby module and show the lines they share', () => {
+    const guides = getSmartGuides(box(100, 3), [box(0, 0)], 5);
+
+    expect(guides.offset).toEqual({ x: 0, y: -3 });
+    expect(guides.snapped).toEqual({ x: false, y: true });
+    expect(guides.alignments).toEqual([0, 20, 40].map((y) => ({ start: { x: 0, y }, end: { x: 140, y } })));
+  });
+
+  it('should leave a module alone when nothing is within the threshold', () => {
+    const guides = getSmartGuides(box(100, 100), [box(0, 0)], 5);
+
+    expect(guides.offset).toEqual({ x: 0, y: 0 });
+    expect(guides.snapped).toEqual({ x: false, y: false });
+    expect(guides.alignments).toEqual([]);
+    expect(guides.spacings).toEqual([]);
+    expect(guides.distances).toEqual([]);
+  });
+
+  it('should carry on the spacing of a row and mark the equal gaps', () => {
+    const guides = getSmartGuides(box(123, 0), [box(0, 0), box(60, 0)], 5);
+
+    expect(guides.offset).toEqual({ x: -3, y: 0 });
+    expect(guides.spacings).toEqual([
+      { start: { x: 40, y: 20 }, end: { x: 60, y: 20 } },
+      { start: { x: 100, y: 20 }, end: { x: 120, y: 20 } },
+    ]);
+  });
+
+  it('should centre a module between its neighbours in a column', () => {
+    const guides = getSmartGuides(box(0, 97), [box(0, 0), box(0, 200)], 5);
+
+    expect(guides.offset).toEqual({ x: 0, y: 3 });
+    expect(guides.spacings).toEqual([
+      { start: { x: 20, y: 40 }, end: { x: 20, y: 100 } },
+      { start: { x: 20, y: 140 }, end: { x: 20, y: 200 } },
+    ]);
+  });
+
+  it('should not mark spacing between only two modules', () => {
+    expect(getSmartGuides(box(60, 0), [box(0, 0)], 5).spacings).toEqual([]);
+  });
+
+  it('should measure the distance to the nearest module on each side', () => {
+    const guides = getSmartGuides(box(100, 0), [box(0, 0), box(50, 10), box(200, 20)], 5);
+
+    expect(guides.distances).toEqual([
+      { start: { x: 90, y: 25 }, end: { x: 100, y: 25 }, length: 10 },
+      { start: { x: 140, y: 30 }, end: { x: 200, y: 30 }, length: 60 },
+    ]);
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Unit tests for utility network utilities
+ * Tests connecting supplies to sites, circuit loads and unsupplied hookups
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { AnyModule, CampsiteMap, UtilityConnection } from '@/types';
+import { mockMap } from '@/services/api/mock-maps';
+import { createNewModule } from '../moduleFactory';
+import { analyzeUtilityNetwork, connectModules, getSupplyUtility } from '../utilityNetwork';
+
+const buildMap = (modules: AnyModule[], utilityConnections: UtilityConnection[] = []): CampsiteMap => ({
+  ...mockMap,
+  modules,
+  utilityConnections,
+});
+
+const site = (name: string, hookups: Record<string, boolean> = {}) =>
+  createNewModule('campsite', { x: 0, y: 0 }, { metadata: { name, ...hookups } } as Partial<AnyModule>);
+
+// Default pedestal: 30A circuit with 30A outlets
+const pedestal = createNewModule('electricity', { x: 200, y: 0 }, { metadata: { name: 'Pedestal 1' } } as Partial<AnyModule>);
+const tap = createNewModule('water_source', { x: 200, y: 200 }, { metadata: { name: 'Tap' } } as Partial<AnyModule>);
+const bins = createNewModule('waste_disposal', { x: 400, y: 0 });
+const dumpStation = createNewModule('waste_disposal', { x: 400, y: 200 }, {
+  metadata: { name: 'Dump Station', disposalType: 'sewage' },
+} as Partial<AnyModule>);
+
+describe('getSupplyUtility', () => {
+  it('should tell which utility a module supplies', () => {
+    expect(getSupplyUtility(pedestal)).toBe('electric');
+    expect(getSupplyUtility(tap)).toBe('water');
+    expect(getSupplyUtility(dumpStation)).toBe('sewer');
+    expect(getSupplyUtility(bins)).toBeNull();
+    expect(getSupplyUtility(site('A1'))).toBeNull();
+  });
+});
+
+describe('connectModules', () => {
+  it('should connect a supply and a site given in either order', () => {
+    const a1 = site('A1');
+    const map = buildMap([a1, pedestal, tap]);
+
+    expect(connectModules(map, pedestal.id, a1.id)).toMatchObject({ utility: 'electric', supplyId: pedestal.id, siteId: a1.id });
+    expect(connectModules(map, a1.id, tap.id)).toMatchObject({ utility: 'water', supplyId: tap.id, siteId: a1.id });
+  });
+
+  it('should refuse modules that cannot be connected or already are', () => {
+    const a1 = site('A1');
+    const a2 = site('A2');
+    const connection = connectModules(buildMap([a1, pedestal]), pedestal.id, a1.id)!;
+    const map = buildMap([a1, a2, pedestal, tap, bins], [connection]);
+
+    expect(connectModules(map, pedestal.id, a1.id)).toBeNull();
+    expect(connectModules(map, a1.id, a2.id)).toBeNull();
+    expect(connectModules(map, pedestal.id, tap.id)).toBeNull();
+    expect(connectModules(map, bins.id, a2.id)).toBeNull();
+  });
+});
+
+describe('analyzeUtilityNetwork', () => {
+  it('should add up the load on each circuit against its amperage', () => {
+    const a1 = site('A1');
+    const a2 = site('A2');
+    const connections = [a1, a2].map((module) => connectModules(buildMap([module, pedestal]), pedestal.id, module.id)!);
+    const { circuits } = analyzeUtilityNetwork(buildMap([a1, a2, pedestal], connections));
+
+    expect(circuits).toHaveLength(1);
+    expect(circuits[0]).toMatchObject({ siteIds: [a1.id, a2.id], load: 60, capacity: 30, overloaded: true });
+  });
+
+  it('should flag advertised hookups with no connected supply', () => {
+    const a1 = site('A1', { electricHookup: true, waterHookup: true, sewerHookup: true });
+    const connection = connectModules(buildMap([a1, tap]), tap.id, a1.id)!;
+    const { unsupplied } = analyzeUtilityNetwork(buildMap([a1, tap], [connection]));
+
+    expect(unsupplied.map(({ site: module, utility }) => [module.id, utility])).toEqual([
+      [a1.id, 'electric'],
+      [a1.id, 'sewer'],
+    ]);
+  });
+
+  it('should leave out connections to modules no longer on the map', () => {
+    const a1 = site('A1', { waterHookup: true });
+    const connection = connectModules(buildMap([a1, tap]), tap.id, a1.id)!;
+    const report = analyzeUtilityNetwork(buildMap([a1], [connection]));
+
+    expect(report.connections).toEqual([]);
+    expect(report.unsupplied).toHaveLength(1);
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Unit tests for walking route utilities
+ * Tests the road network, nearest-facility routes and the distances stored on sites
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { AnyModule, CampsiteMap, Position, RoadModule } from '@/types';
+import { mockMap } from '@/services/api/mock-maps';
+import { createNewModule, createPathModule } from '../moduleFactory';
+import { getDistanceUpdates, getRoadCentreLine, getWalkingRoutes } from '../walkingRoutes';
+
+// 10px per metre
+const buildMap = (modules: AnyModule[]): CampsiteMap => ({ ...mockMap, scale: 10, modules });
+
+const road = (points: Position[], metadata: Partial<RoadModule['metadata']> = {}) => {
+  const module = createPathModule('road', points) as RoadModule;
+  module.metadata = { ...module.metadata, ...metadata };
+  return module;
+};
+
+// Centred on the given point
+const site = (center: Position) =>
+  createNewModule('campsite', { x: center.x - 60, y: center.y - 40 }, { metadata: { name: 'A1' } } as Partial<AnyModule>);
+const toilet = (center: Position) => createNewModule('toilet', { x: center.x - 30, y: center.y - 30 });
+
+const mainRoad = () => road([{ x: 0, y: 100 }, { x: 1000, y: 100 }]);
+
+describe('getRoadCentreLine', () => {
+  it('should run along the long side of rectangular roads', () => {
+    const module = createNewModule('road', { x: 0, y: 0 }, { size: { width: 40, height: 200 } }) as RoadModule;
+    const [start, end] = getRoadCentreLine(module);
+
+    expect(start!.x).toBeCloseTo(20);
+    expect(start!.y).toBeCloseTo(0);
+    expect(end!.x).toBeCloseTo(20);
+    expect(end!.y).toBeCloseTo(200);
+  });
+});
+
+describe('getWalkingRoutes', () => {
+  it('should route along the road from a site to the nearest facility', () => {
+    const a1 = site({ x: 100, y: 50 });
+    const near = toilet({ x: 800, y: 50 });
+    const far = toilet({ x: 950, y: 50 });
+    const route = getWalkingRoutes(buildMap([mainRoad(), a1, near, far])).get(a1.id)!.toilet!;
+
+    // 5m to the road, 70m along it and 5m to the toilet
+    expect(route.facilityId).toBe(near.id);
+    expect(route.distance).toBeCloseTo(80);
+    expect(route.points).toEqual([{ x: 100, y: 50 }, { x: 100, y: 100 }, { x: 800, y: 100 }, { x: 800, y: 50 }]);
+  });
+
+  it('should turn at crossroads and join roads that stop just short of another', () => {
+    const a1 = site({ x: 550, y: 900 });
+    const block = toilet({ x: 100, y: 50 });
+    const crossing = road([{ x: 500, y: 0 }, { x: 500, y: 1000 }]);
+    const spur = road([{ x: 500, y: 110 }, { x: 500, y: 1000 }]);
+
+    expect(getWalkingRoutes(buildMap([mainRoad(), crossing, a1, block])).get(a1.id)!.toilet!.distance).toBeCloseTo(130);
+    expect(getWalkingRoutes(buildMap([mainRoad(), spur, a1, block])).get(a1.id)!.toilet!.distance).toBeCloseTo(130);
+  });
+
+  it('should keep to public roads, and to paved surfaces for step-free routes', () => {
+    const a1 = site({ x: 100, y: 50 });
+    const block = toilet({ x: 800, y: 50 });
+    const staffRoad = road([{ x: 0, y: 100 }, { x: 1000, y: 100 }], { accessLevel: 'staff' });
+    const gravel = mainRoad();
+    const paved = road([{ x: 0, y: 100 }, { x: 1000, y: 100 }], { surfaceType: 'paved' });
+
+    expect(getWalkingRoutes(buildMap([staffRoad, a1, block])).get(a1.id)).toEqual({});
+    expect(getWalkingRoutes(buildMap([gravel, a1, block]), { stepFree: true }).get(a1.id)).toEqual({});
+    expect(getWalkingRoutes(buildMap([paved, a1, block]), { stepFree: true }).get(a1.id)!.toilet).toBeDefined();
+  });
+
+  it('should only count drinking water as a water source', () => {
+    const a1 = site({ x: 100, y: 50 });
+    const tap = createNewModule('water_source', { x: 780, y: 30 }, { metadata: { potable: false } } as Partial<AnyModule>);
+
+    expect(getWalkingRoutes(buildMap([mainRoad(), a1, tap])).get(a1.id)!.water_source).toBeUndefined();
+  });
+});
+
+describe('getDistanceUpdates', () => {
+  it('should round distances to metres and skip sites already up to date', () => {
+    const a1 = site({ x: 100, y: 50 });
+    const modules = [mainRoad(), a1, toilet({ x: 800, y: 50 })];
+    const [update] = getDistanceUpdates(buildMap(modules));
+
+    expect(update!.site.id).toBe(a1.id);
+    expect(update!.metadata.walkingDistances).toEqual({ toilet: 80 });
+    expect(update!.metadata.stepFreeDistances).toEqual({});
+
+    const updated = modules.map((module) => (module.id === a1.id ? { ...a1, metadata: update!.metadata } : module));
+    expect(getDistanceUpdates(buildMap(updated as AnyModule[]))).toEqual([]);
+  });
+});
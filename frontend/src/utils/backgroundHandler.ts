@@ -1,11 +1,12 @@
 /**
  * Background Handler
  * Utilities for loading and rendering background images on Fabric.js canvas.
- * Handles validation, scaling, and placement.
+ * Handles validation, scaling, and placement, and the cropping, rotation
+ * and fading of aerial photos traced over in the editor.
  */
 
 import * as fabric from 'fabric';
-import type { Size } from '@/types';
+import type { MapBackground, Size } from '@/types';
 
 // ============================================================================
 // TYPES
@@ -35,6 +36,9 @@ const DEFAULT_OPTIONS: BackgroundOptions = {
     minHeight: 300,
 };
 
+/** Opacity of a new background, faded so the modules traced over it stand out */
+export const DEFAULT_BACKGROUND_OPACITY = 0.6;
+
 // ============================================================================
 // IMAGE LOADING
 // ============================================================================
@@ -104,6 +108,118 @@ export async function loadBackgroundImage(
     });
 }
 
+/**
+ * Read an image file as a data URL, so it can be saved with the map
+ */
+export function readFileAsDataUrl(file: File): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(new Error('Failed to read image'));
+        reader.readAsDataURL(file);
+    });
+}
+
+// ============================================================================
+// MAP BACKGROUNDS
+// ============================================================================
+
+/**
+ * Create a map background for a loaded image, placed at the origin and locked
+ */
+export function createMapBackground(imageUrl: string, size: Size): MapBackground {
+    return {
+        imageUrl,
+        position: { x: 0, y: 0 },
+        size,
+        rotation: 0,
+        opacity: DEFAULT_BACKGROUND_OPACITY,
+        locked: true,
+    };
+}
+
+/**
+ * Get the canvas area of the part of a background left after cropping,
+ * before it is rotated
+ */
+export function getCroppedBounds(background: MapBackground): { left: number; top: number; width: number; height: number } {
+    const { top = 0, right = 0, bottom = 0, left = 0 } = background.crop ?? {};
+
+    return {
+        left: background.position.x + left,
+        top: background.position.y + top,
+        width: Math.max(1, background.size.width - left - right),
+        height: Math.max(1, background.size.height - top - bottom),
+    };
+}
+
+/**
+ * Read a background's place, size and rotation back from its canvas object
+ * after it has been moved, resized or rotated on the canvas
+ */
+export function getBackgroundChanges(
+    obj: fabric.FabricObject,
+    background: MapBackground
+): Pick<MapBackground, 'position' | 'size' | 'crop' | 'rotation'> {
+    const bounds = getCroppedBounds(background);
+    const factorX = obj.getScaledWidth() / bounds.width;
+    const factorY = obj.getScaledHeight() / bounds.height;
+    const crop = background.crop && {
+        top: background.crop.top * factorY,
+        right: background.crop.right * factorX,
+        bottom: background.crop.bottom * factorY,
+        left: background.crop.left * factorX,
+    };
+    const centre = obj.getCenterPoint();
+
+    return {
+        position: {
+            x: centre.x - (bounds.width * factorX) / 2 - (crop?.left ?? 0),
+            y: centre.y - (bounds.height * factorY) / 2 - (crop?.top ?? 0),
+        },
+        size: { width: background.size.width * factorX, height: background.size.height * factorY },
+        crop,
+        rotation: (((obj.angle || 0) % 360) + 360) % 360,
+    };
+}
+
+/**
+ * Create the canvas object for a map background from its loaded image.
+ * Unlocked backgrounds can be moved, resized and rotated on the canvas.
+ */
+export function createBackgroundObject(image: HTMLImageElement, background: MapBackground): fabric.FabricImage {
+    const bounds = getCroppedBounds(background);
+    // Image pixels per canvas pixel
+    const ratioX = image.naturalWidth / background.size.width;
+    const ratioY = image.naturalHeight / background.size.height;
+
+    const img = new fabric.FabricImage(image, {
+        cropX: (bounds.left - background.position.x) * ratioX,
+        cropY: (bounds.top - background.position.y) * ratioY,
+        width: bounds.width * ratioX,
+        height: bounds.height * ratioY,
+        scaleX: 1 / ratioX,
+        scaleY: 1 / ratioY,
+        originX: 'center',
+        originY: 'center',
+        left: bounds.left + bounds.width / 2,
+        top: bounds.top + bounds.height / 2,
+        angle: background.rotation,
+        opacity: background.opacity,
+        selectable: !background.locked,
+        evented: !background.locked,
+        lockSkewingX: true,
+        lockSkewingY: true,
+    });
+
+    // Store background metadata
+    (img as fabric.FabricImage & { data?: Record<string, unknown> }).data = {
+        isBackground: true,
+    };
+
+    return img;
+}
+
 // ============================================================================
 // CANVAS INTEGRATION
 // ============================================================================
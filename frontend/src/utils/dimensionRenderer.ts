@@ -0,0 +1,75 @@
+/**
+ * Dimension Renderer
+ * Fabric.js objects for dimension lines: the live ruler of the measure tool
+ * and the dimensions pinned to the map.
+ */
+
+import * as fabric from 'fabric';
+import type { DimensionAnnotation } from '@/types';
+import { DIMENSION_COLOR, getDimensionGeometry } from './measurement';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const MEASURE_COLOR = '#2563eb'; // Blue
+const TICK_LENGTH = 12;
+const LABEL_FONT_SIZE = 12;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Check if a canvas object is a dimension line
+ */
+export function isDimensionObject(obj: fabric.FabricObject): boolean {
+    return (obj as fabric.FabricObject & { data?: { isDimension?: boolean } }).data?.isDimension === true;
+}
+
+/**
+ * Create a dimension line with end marks and its length as a label.
+ * Pinned dimensions are solid; the measure tool's ruler is dashed.
+ * @param zoom - Current canvas zoom, so the ruler keeps its screen size
+ */
+export function createDimensionObject(
+    dimension: Pick<DimensionAnnotation, 'start' | 'end'>,
+    label: string,
+    options: { isMeasuring?: boolean; zoom?: number } = {}
+): fabric.Group {
+    const { isMeasuring = false, zoom = 1 } = options;
+    const color = isMeasuring ? MEASURE_COLOR : DIMENSION_COLOR;
+    const strokeWidth = 1.5 / zoom;
+    const { start, end } = dimension;
+    const { ticks, midpoint, angle } = getDimensionGeometry(dimension, TICK_LENGTH / zoom);
+
+    const lineOptions = { stroke: color, strokeWidth, selectable: false, evented: false };
+    const objects: fabric.FabricObject[] = [
+        new fabric.Line([start.x, start.y, end.x, end.y], {
+            ...lineOptions,
+            strokeDashArray: isMeasuring ? [6 / zoom, 4 / zoom] : undefined,
+        }),
+        ...ticks.map(([a, b]) => new fabric.Line([a.x, a.y, b.x, b.y], lineOptions)),
+        new fabric.FabricText(label, {
+            left: midpoint.x,
+            top: midpoint.y,
+            originX: 'center',
+            originY: 'center',
+            angle,
+            fontSize: LABEL_FONT_SIZE / zoom,
+            fontFamily: 'Arial',
+            fill: color,
+            backgroundColor: 'rgba(255, 255, 255, 0.85)',
+            selectable: false,
+            evented: false,
+        }),
+    ];
+
+    const group = new fabric.Group(objects, {
+        selectable: false,
+        evented: false,
+        objectCaching: false,
+    });
+    (group as fabric.Group & { data?: { isDimension: boolean } }).data = { isDimension: true };
+    return group;
+}
@@ -0,0 +1,359 @@
+/**
+ * GeoJSON
+ * Exchanges map modules with GIS tools as GeoJSON features. Each module is
+ * written as a polygon of its rotated footprint with its metadata as
+ * properties, except roads and zones drawn as paths, which are written as
+ * a line string and a polygon of their vertices; on import, features are placed back on the canvas through the
+ * map's geo-reference and validated like any other imported module.
+ */
+
+import type { AnyModule, CampsiteMap, GeoReference, ModuleType, Position } from '@/types';
+import { getModuleCorners } from './mapGeometry';
+import { canvasToGeo, geoToCanvas, getGeoReference } from './geoReference';
+import { getDefaultMetadata, getDefaultSize } from './moduleFactory';
+import { fitPathPoints, getAbsolutePoints, isPathModule } from './modulePaths';
+import { isModuleType, validateModules, type MapImportResult, type ModuleImportError } from './mapImport';
+import { MAP_EXPORT_VERSION } from './mapExport';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** [longitude, latitude], the GeoJSON axis order */
+export type GeoJsonPosition = [number, number];
+
+export type GeoJsonGeometry =
+    | { type: 'Point'; coordinates: GeoJsonPosition }
+    | { type: 'LineString'; coordinates: GeoJsonPosition[] }
+    | { type: 'Polygon'; coordinates: GeoJsonPosition[][] };
+
+export interface GeoJsonFeature {
+    type: 'Feature';
+    id?: string | number;
+    geometry: GeoJsonGeometry | null;
+    properties: Record<string, unknown> | null;
+}
+
+export interface GeoJsonFeatureCollection {
+    type: 'FeatureCollection';
+    name?: string;
+    /** Foreign member with the map's own settings, so exports re-import exactly */
+    campsiteMap?: {
+        id: string;
+        scale: number;
+        geoReference: GeoReference;
+    };
+    features: GeoJsonFeature[];
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/** Property names written alongside the module metadata */
+const MODULE_PROPERTIES = ['moduleId', 'moduleType', 'zIndex', 'locked', 'visible'] as const;
+
+/** Coordinates are rounded to 7 decimal places, about a centimetre */
+const COORDINATE_PRECISION = 1e7;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isPosition = (value: unknown): value is GeoJsonPosition =>
+    Array.isArray(value) && value.length >= 2 && typeof value[0] === 'number' && typeof value[1] === 'number';
+
+const isPositionList = (value: unknown): value is GeoJsonPosition[] =>
+    Array.isArray(value) && value.every(isPosition);
+
+const roundCoordinate = (value: number) => Math.round(value * COORDINATE_PRECISION) / COORDINATE_PRECISION;
+
+const toPosition = (point: Position, reference: GeoReference, scale: number): GeoJsonPosition => {
+    const { latitude, longitude } = canvasToGeo(point, reference, scale);
+    return [roundCoordinate(longitude), roundCoordinate(latitude)];
+};
+
+const fromPosition = ([longitude, latitude]: GeoJsonPosition, reference: GeoReference, scale: number): Position =>
+    geoToCanvas({ latitude, longitude }, reference, scale);
+
+const distance = (a: Position, b: Position) => Math.hypot(a.x - b.x, a.y - b.y);
+
+/**
+ * Drop the repeated closing position of a polygon ring
+ */
+function openRing(ring: Position[]): Position[] {
+    const first = ring[0];
+    const last = ring[ring.length - 1];
+    return first && last && ring.length > 1 && distance(first, last) < 1e-6 ? ring.slice(0, -1) : ring;
+}
+
+/**
+ * Work out a module footprint from a polygon ring in canvas coordinates.
+ * Rectangles keep their size and rotation; any other shape becomes its
+ * axis-aligned bounding box.
+ */
+function getFootprint(ring: Position[]): { center: Position; width: number; height: number; rotation: number } {
+    const corners = openRing(ring);
+
+    const [a, b, c, d] = corners;
+    if (corners.length === 4 && a && b && c && d) {
+        const diagonal = distance(a, c);
+        const isRectangle = Math.abs(diagonal - distance(b, d)) < 0.01 * diagonal &&
+            Math.abs(distance(a, b) - distance(c, d)) < 0.01 * diagonal;
+
+        if (isRectangle) {
+            const rotation = (Math.atan2(b.y - a.y, b.x - a.x) * 180) / Math.PI;
+            return {
+                center: { x: (a.x + c.x) / 2, y: (a.y + c.y) / 2 },
+                width: distance(a, b),
+                height: distance(b, c),
+                rotation: Math.round(((rotation % 360) + 360) % 360 * 100) / 100,
+            };
+        }
+    }
+
+    const xs = corners.map((point) => point.x);
+    const ys = corners.map((point) => point.y);
+    const minX = Math.min(...xs);
+    const minY = Math.min(...ys);
+    const maxX = Math.max(...xs);
+    const maxY = Math.max(...ys);
+    return {
+        center: { x: (minX + maxX) / 2, y: (minY + maxY) / 2 },
+        width: maxX - minX,
+        height: maxY - minY,
+        rotation: 0,
+    };
+}
+
+/**
+ * Reference for placing features on a map that is not geo-referenced yet:
+ * the north-west corner of the features lands on the canvas origin
+ */
+function getFeatureReference(features: GeoJsonFeature[]): GeoReference | null {
+    const positions = features.flatMap((feature) => {
+        const geometry = isRecord(feature) ? feature.geometry : null;
+        if (geometry?.type === 'Point') return [geometry.coordinates];
+        if (geometry?.type === 'LineString' && Array.isArray(geometry.coordinates)) return geometry.coordinates;
+        if (geometry?.type === 'Polygon' && Array.isArray(geometry.coordinates)) return geometry.coordinates[0] ?? [];
+        return [];
+    }).filter(isPosition);
+
+    if (positions.length === 0) return null;
+    return {
+        anchor: {
+            latitude: Math.max(...positions.map(([, latitude]) => latitude)),
+            longitude: Math.min(...positions.map(([longitude]) => longitude)),
+        },
+        anchorPoint: { x: 0, y: 0 },
+        rotation: 0,
+    };
+}
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+/**
+ * Get the GeoJSON geometry of a module: its footprint, or its vertices for paths
+ */
+function getModuleGeometry(module: AnyModule, reference: GeoReference, scale: number): GeoJsonGeometry {
+    if (isPathModule(module) && module.type === 'road') {
+        return {
+            type: 'LineString',
+            coordinates: getAbsolutePoints(module).map((point) => toPosition(point, reference, scale)),
+        };
+    }
+
+    const corners = isPathModule(module) ? getAbsolutePoints(module) : getModuleCorners(module);
+    const ring = corners.map((corner) => toPosition(corner, reference, scale));
+    return { type: 'Polygon', coordinates: [[...ring, ring[0]!]] };
+}
+
+/**
+ * Convert a module to a GeoJSON feature
+ */
+export function moduleToFeature(module: AnyModule, reference: GeoReference, scale: number): GeoJsonFeature {
+    return {
+        type: 'Feature',
+        id: module.id,
+        geometry: getModuleGeometry(module, reference, scale),
+        properties: {
+            ...module.metadata,
+            moduleId: module.id,
+            moduleType: module.type,
+            zIndex: module.zIndex,
+            locked: module.locked,
+            visible: module.visible,
+        },
+    };
+}
+
+/**
+ * Build a GeoJSON feature collection of every module on the map
+ */
+export function buildMapGeoJson(map: CampsiteMap): GeoJsonFeatureCollection {
+    const reference = getGeoReference(map);
+
+    return {
+        type: 'FeatureCollection',
+        name: map.name,
+        campsiteMap: { id: map.id, scale: map.scale, geoReference: reference },
+        features: [...map.modules]
+            .sort((a, b) => a.zIndex - b.zIndex)
+            .map((module) => moduleToFeature(module, reference, map.scale)),
+    };
+}
+
+// ============================================================================
+// IMPORT
+// ============================================================================
+
+/**
+ * Check whether file contents are a GeoJSON feature collection
+ */
+export function isGeoJson(json: string): boolean {
+    try {
+        const data: unknown = JSON.parse(json);
+        return isRecord(data) && data.type === 'FeatureCollection';
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Convert a feature to module data, ready for validation. Line strings
+ * become roads drawn as paths. Other features written by other tools (no
+ * moduleType property) become custom modules that keep their properties.
+ */
+function featureToModuleData(
+    feature: GeoJsonFeature,
+    index: number,
+    reference: GeoReference,
+    scale: number
+): Record<string, unknown> | string {
+    const geometry = feature.geometry;
+    const properties = isRecord(feature.properties) ? feature.properties : {};
+    const isLine = geometry?.type === 'LineString';
+    const type: ModuleType = isLine ? 'road' : isModuleType(properties.moduleType) ? properties.moduleType : 'custom';
+
+    let center: Position;
+    let size = getDefaultSize(type);
+    let rotation = 0;
+    let points: Position[] | undefined;
+
+    if (geometry?.type === 'Point' && isPosition(geometry.coordinates)) {
+        center = fromPosition(geometry.coordinates, reference, scale);
+    } else if (
+        (geometry?.type === 'LineString' && isPositionList(geometry.coordinates) && geometry.coordinates.length >= 2) ||
+        (geometry?.type === 'Polygon' && type === 'zone' && isPositionList(geometry.coordinates[0]))
+    ) {
+        const positions = geometry.type === 'LineString' ? geometry.coordinates : geometry.coordinates[0]!;
+        const vertices = positions.map((position) => fromPosition(position, reference, scale));
+        const path = fitPathPoints(geometry.type === 'LineString' ? vertices : openRing(vertices));
+        size = path.size;
+        center = { x: path.position.x + size.width / 2, y: path.position.y + size.height / 2 };
+        points = path.points;
+    } else if (geometry?.type === 'Polygon' && Array.isArray(geometry.coordinates[0]) && geometry.coordinates[0].every(isPosition)) {
+        const footprint = getFootprint(geometry.coordinates[0].map((position) => fromPosition(position, reference, scale)));
+        center = footprint.center;
+        size = { width: footprint.width, height: footprint.height };
+        rotation = footprint.rotation;
+    } else {
+        return `Unsupported geometry ${geometry ? `"${String(geometry.type)}"` : '(none)'}; use Point, LineString or Polygon`;
+    }
+
+    const metadata: Record<string, unknown> = { ...properties };
+    MODULE_PROPERTIES.forEach((key) => delete metadata[key]);
+
+    const now = new Date();
+    return {
+        id: typeof properties.moduleId === 'string' ? properties.moduleId : String(feature.id ?? crypto.randomUUID()),
+        type,
+        position: { x: center.x - size.width / 2, y: center.y - size.height / 2 },
+        size,
+        ...(points && { points }),
+        rotation,
+        zIndex: typeof properties.zIndex === 'number' ? properties.zIndex : index + 1,
+        locked: properties.locked === true,
+        visible: properties.visible !== false,
+        metadata: isLine && properties.moduleType !== 'road'
+            ? {
+                ...getDefaultMetadata('road'),
+                name: typeof properties.name === 'string' ? properties.name : `Feature ${index + 1}`,
+            }
+            : type === 'custom' && properties.moduleType !== 'custom'
+            ? {
+                ...getDefaultMetadata('custom'),
+                name: typeof properties.name === 'string' ? properties.name : `Feature ${index + 1}`,
+                description: typeof properties.description === 'string' ? properties.description : '',
+                customType: geometry.type,
+                properties,
+            }
+            : { ...getDefaultMetadata(type), ...metadata },
+        createdAt: now,
+        updatedAt: now,
+    };
+}
+
+/**
+ * Parse a GeoJSON feature collection into modules on the given map.
+ * Features are placed using the map's geo-reference, or the one stored in
+ * the file when the map has none.
+ */
+export function parseGeoJson(json: string, map: CampsiteMap): MapImportResult {
+    let data: unknown;
+    try {
+        data = JSON.parse(json);
+    } catch {
+        return { success: false, error: 'The file is not valid JSON', issues: [] };
+    }
+
+    if (!isRecord(data) || data.type !== 'FeatureCollection' || !Array.isArray(data.features)) {
+        return { success: false, error: 'The file is not a GeoJSON feature collection', issues: [] };
+    }
+
+    const collection = data as unknown as GeoJsonFeatureCollection;
+    const reference = map.geoReference ??
+        collection.campsiteMap?.geoReference ??
+        getFeatureReference(collection.features);
+    if (!reference) {
+        return { success: false, error: 'The file has no features with coordinates', issues: [] };
+    }
+
+    const items = new Map<number, unknown>();
+    const featureErrors: ModuleImportError[] = [];
+
+    collection.features.forEach((feature, index) => {
+        const moduleData = isRecord(feature) && feature.type === 'Feature'
+            ? featureToModuleData(feature, index, reference, map.scale)
+            : 'Not a GeoJSON feature';
+
+        if (typeof moduleData === 'string') {
+            const properties = isRecord(feature?.properties) ? feature.properties : {};
+            featureErrors.push({
+                index,
+                id: feature?.id !== undefined ? String(feature.id) : undefined,
+                name: typeof properties.name === 'string' ? properties.name : undefined,
+                issues: [moduleData],
+            });
+        } else {
+            items.set(index, moduleData);
+        }
+    });
+
+    const { modules, moduleErrors } = validateModules(items);
+
+    return {
+        success: true,
+        format: 'geojson',
+        map: {
+            ...map,
+            name: typeof collection.name === 'string' && collection.name ? collection.name : map.name,
+            geoReference: reference,
+            modules,
+        },
+        sourceVersion: MAP_EXPORT_VERSION,
+        migrated: false,
+        moduleErrors: [...featureErrors, ...moduleErrors].sort((a, b) => a.index - b.index),
+    };
+}
@@ -0,0 +1,102 @@
+/**
+ * Geo-Reference
+ * Converts between canvas pixels and latitude/longitude for a map anchored
+ * to the real world. Campgrounds are small enough that a local flat-earth
+ * approximation around the anchor is accurate to well under a metre.
+ */
+
+import type { CampsiteMap, GeoReference, Position } from '@/types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface LatLng {
+    latitude: number;
+    longitude: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** WGS 84 equatorial radius in metres */
+const EARTH_RADIUS = 6378137;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+// ============================================================================
+// REFERENCE
+// ============================================================================
+
+/**
+ * Get the map's geo-reference, falling back to its address coordinates at the
+ * top-left corner with the canvas facing north
+ */
+export function getGeoReference(map: {
+    geoReference?: GeoReference;
+    metadata: Pick<CampsiteMap['metadata'], 'coordinates'>;
+}): GeoReference {
+    return map.geoReference ?? {
+        anchor: { ...map.metadata.coordinates },
+        anchorPoint: { x: 0, y: 0 },
+        rotation: 0,
+    };
+}
+
+/**
+ * Check a geo-reference is usable: a real location and a finite rotation
+ */
+export function isValidGeoReference(reference: GeoReference): boolean {
+    const { latitude, longitude } = reference.anchor;
+    return (
+        Number.isFinite(latitude) && Math.abs(latitude) < 90 &&
+        Number.isFinite(longitude) && Math.abs(longitude) <= 180 &&
+        Number.isFinite(reference.anchorPoint.x) && Number.isFinite(reference.anchorPoint.y) &&
+        Number.isFinite(reference.rotation)
+    );
+}
+
+// ============================================================================
+// CONVERSION
+// ============================================================================
+
+/**
+ * Convert a canvas point to latitude/longitude
+ * @param scale - Map scale in pixels per metre
+ */
+export function canvasToGeo(point: Position, reference: GeoReference, scale: number): LatLng {
+    // Metres right of and above the anchor on the canvas
+    const right = (point.x - reference.anchorPoint.x) / scale;
+    const up = (reference.anchorPoint.y - point.y) / scale;
+
+    const bearing = toRadians(reference.rotation);
+    const east = right * Math.cos(bearing) + up * Math.sin(bearing);
+    const north = up * Math.cos(bearing) - right * Math.sin(bearing);
+
+    const latitude = reference.anchor.latitude + toDegrees(north / EARTH_RADIUS);
+    const longitude = reference.anchor.longitude +
+        toDegrees(east / (EARTH_RADIUS * Math.cos(toRadians(reference.anchor.latitude))));
+
+    return { latitude, longitude };
+}
+
+/**
+ * Convert latitude/longitude to a canvas point
+ * @param scale - Map scale in pixels per metre
+ */
+export function geoToCanvas(location: LatLng, reference: GeoReference, scale: number): Position {
+    const north = toRadians(location.latitude - reference.anchor.latitude) * EARTH_RADIUS;
+    const east = toRadians(location.longitude - reference.anchor.longitude) *
+        EARTH_RADIUS * Math.cos(toRadians(reference.anchor.latitude));
+
+    const bearing = toRadians(reference.rotation);
+    const right = east * Math.cos(bearing) - north * Math.sin(bearing);
+    const up = east * Math.sin(bearing) + north * Math.cos(bearing);
+
+    return {
+        x: reference.anchorPoint.x + right * scale,
+        y: reference.anchorPoint.y - up * scale,
+    };
+}
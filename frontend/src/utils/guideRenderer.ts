@@ -6,6 +6,7 @@
 
 import * as fabric from 'fabric';
 import type { Position, Size } from '@/types';
+import type { GuideSegment, SmartGuides } from './smartGuides';
 
 // ============================================================================
 // TYPES
@@ -30,6 +31,10 @@ const GUIDE_COLOR = '#00bcd4'; // Cyan
 const GUIDE_STROKE_WIDTH = 1;
 const GUIDE_DASH_ARRAY = [5, 5];
 
+const SMART_GUIDE_COLOR = '#ec4899'; // Pink
+const SPACING_TICK_LENGTH = 8;
+const LABEL_FONT_SIZE = 11;
+
 // ============================================================================
 // GUIDE CREATION
 // ============================================================================
@@ -222,3 +227,76 @@ export function getClosestGuide(
 
     return closest;
 }
+
+// ============================================================================
+// SMART GUIDES
+// ============================================================================
+
+/**
+ * Check if a Fabric object is the smart guide overlay shown while dragging
+ */
+export function isSmartGuideObject(obj: fabric.FabricObject): boolean {
+    return (obj as fabric.FabricObject & { data?: { isSmartGuide?: boolean } }).data
+        ?.isSmartGuide === true;
+}
+
+/**
+ * Create the overlay for a drag: alignment lines, equal gaps marked with end
+ * ticks, and the distances to the nearest modules as labels
+ * @param formatDistance - Formats a distance in canvas pixels for its label
+ * @param zoom - Current canvas zoom, so the overlay keeps its screen size
+ */
+export function createSmartGuideObject(
+    guides: SmartGuides,
+    formatDistance: (pixels: number) => string,
+    zoom: number
+): fabric.Group | null {
+    const lineOptions = {
+        stroke: SMART_GUIDE_COLOR,
+        strokeWidth: GUIDE_STROKE_WIDTH / zoom,
+        selectable: false,
+        evented: false,
+    };
+    const toLine = ({ start, end }: GuideSegment, options: Partial<fabric.FabricObjectProps> = {}) =>
+        new fabric.Line([start.x, start.y, end.x, end.y], { ...lineOptions, ...options });
+
+    const objects: fabric.FabricObject[] = [
+        ...guides.alignments.map((segment) => toLine(segment)),
+        ...guides.spacings.flatMap((segment) => {
+            const isHorizontal = segment.start.y === segment.end.y;
+            const half = SPACING_TICK_LENGTH / zoom / 2;
+            const tick = ({ x, y }: Position) => toLine(isHorizontal
+                ? { start: { x, y: y - half }, end: { x, y: y + half } }
+                : { start: { x: x - half, y }, end: { x: x + half, y } });
+            return [toLine(segment), tick(segment.start), tick(segment.end)];
+        }),
+        ...guides.distances.flatMap((distance) => [
+            toLine(distance, { strokeDashArray: GUIDE_DASH_ARRAY.map((dash) => dash / zoom) }),
+            new fabric.FabricText(formatDistance(distance.length), {
+                left: (distance.start.x + distance.end.x) / 2,
+                top: (distance.start.y + distance.end.y) / 2,
+                originX: 'center',
+                originY: 'center',
+                fontSize: LABEL_FONT_SIZE / zoom,
+                fontFamily: 'Arial',
+                fill: '#ffffff',
+                backgroundColor: SMART_GUIDE_COLOR,
+                selectable: false,
+                evented: false,
+            }),
+        ]),
+    ];
+
+    if (objects.length === 0) {
+        return null;
+    }
+
+    const group = new fabric.Group(objects, {
+        selectable: false,
+        evented: false,
+        objectCaching: false,
+        excludeFromExport: true,
+    });
+    (group as fabric.Group & { data?: { isSmartGuide: boolean } }).data = { isSmartGuide: true };
+    return group;
+}
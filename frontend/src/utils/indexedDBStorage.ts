@@ -6,16 +6,22 @@
  */
 
 import { openDB, DBSchema, IDBPDatabase } from 'idb';
+import type { MapDraft } from './mapDrafts';
 
 const DB_NAME = 'campsite-storage';
-const DB_VERSION = 1;
+const DB_VERSION = 2;
 const STORE_NAME = 'maps';
+const DRAFTS_STORE_NAME = 'drafts';
 
 interface CampsiteDB extends DBSchema {
   maps: {
     key: string;
     value: string;
   };
+  drafts: {
+    key: string;
+    value: MapDraft;
+  };
 }
 
 let dbPromise: Promise<IDBPDatabase<CampsiteDB>> | null = null;
@@ -31,6 +37,9 @@ function getDB(): Promise<IDBPDatabase<CampsiteDB>> {
         if (!db.objectStoreNames.contains(STORE_NAME)) {
           db.createObjectStore(STORE_NAME);
         }
+        if (!db.objectStoreNames.contains(DRAFTS_STORE_NAME)) {
+          db.createObjectStore(DRAFTS_STORE_NAME, { keyPath: 'mapId' });
+        }
       },
     });
   }
@@ -90,6 +99,37 @@ export const indexedDBStorage = {
   },
 };
 
+/**
+ * Unsaved map drafts, keyed by map ID
+ * Unlike the persist adapter there is no localStorage fallback: a draft can be
+ * larger than localStorage allows, so failed writes are left to the caller to report.
+ */
+export const mapDraftStorage = {
+  getDraft: async (mapId: string): Promise<MapDraft | null> => {
+    try {
+      const db = await getDB();
+      return (await db.get(DRAFTS_STORE_NAME, mapId)) ?? null;
+    } catch (error) {
+      console.warn('Failed to read draft from IndexedDB:', error);
+      return null;
+    }
+  },
+
+  setDraft: async (draft: MapDraft): Promise<void> => {
+    const db = await getDB();
+    await db.put(DRAFTS_STORE_NAME, draft);
+  },
+
+  removeDraft: async (mapId: string): Promise<void> => {
+    try {
+      const db = await getDB();
+      await db.delete(DRAFTS_STORE_NAME, mapId);
+    } catch (error) {
+      console.warn('Failed to delete draft from IndexedDB:', error);
+    }
+  },
+};
+
 /**
  * Check if IndexedDB is available
  */
@@ -0,0 +1,246 @@
+/**
+ * Layout Compliance
+ * Rule-based checks of a campsite layout against fire and safety rules:
+ * spacing between campsites, fire pits away from buildings and out of
+ * no-fire zones, water and toilets within reach of every site, and
+ * emergency roads wide enough for fire apparatus. Each map can switch rules
+ * off and change their limits; limits are stored in metres.
+ */
+
+import type {
+    AnyModule,
+    CampsiteMap,
+    CampsiteModule,
+    ComplianceRuleId,
+    ComplianceRuleSetting,
+    Position,
+    RecreationModule,
+    RoadModule,
+    WaterSourceModule,
+    ZoneModule,
+} from '@/types';
+import { getBoundsGap, getModuleBounds, getModuleCenter, isPointInPolygon } from './mapGeometry';
+import { getAbsolutePoints, isPathModule } from './modulePaths';
+import { formatLength, getMeasurementUnit, pixelsToMeters } from './measurement';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ComplianceSeverity = 'error' | 'warning';
+
+export interface ComplianceRuleDefinition {
+    id: ComplianceRuleId;
+    label: string;
+    description: string;
+    severity: ComplianceSeverity;
+    /** Default limit in metres; rules without one simply pass or fail */
+    defaultValue?: number;
+}
+
+export interface ComplianceViolation {
+    ruleId: ComplianceRuleId;
+    severity: ComplianceSeverity;
+    /** Modules that break the rule; the first is the one the message is about */
+    moduleIds: string[];
+    message: string;
+}
+
+export interface ComplianceReport {
+    violations: ComplianceViolation[];
+    /** Number of enabled rules that were checked */
+    rulesChecked: number;
+}
+
+/** Settings for every rule, with the map's overrides applied */
+export type ComplianceSettings = Record<ComplianceRuleId, Required<ComplianceRuleSetting>>;
+
+// ============================================================================
+// RULES
+// ============================================================================
+
+export const COMPLIANCE_RULES: ComplianceRuleDefinition[] = [
+    {
+        id: 'campsite_spacing',
+        label: 'Campsite spacing',
+        description: 'Minimum gap between neighbouring campsites',
+        severity: 'error',
+        defaultValue: 6,
+    },
+    {
+        id: 'fire_pit_clearance',
+        label: 'Fire pit clearance',
+        description: 'Minimum distance from fire pits to buildings, toilets and storage',
+        severity: 'error',
+        defaultValue: 7.5,
+    },
+    {
+        id: 'no_fire_zone',
+        label: 'No-fire zones',
+        description: 'Fire pits must not be inside a no-fire zone',
+        severity: 'error',
+    },
+    {
+        id: 'emergency_road_width',
+        label: 'Emergency road width',
+        description: 'Minimum width of emergency access roads',
+        severity: 'error',
+        defaultValue: 6,
+    },
+    {
+        id: 'water_access',
+        label: 'Water access',
+        description: 'Furthest a campsite without a water hookup may be from drinking water',
+        severity: 'warning',
+        defaultValue: 100,
+    },
+    {
+        id: 'toilet_access',
+        label: 'Toilet access',
+        description: 'Furthest a campsite may be from a toilet',
+        severity: 'warning',
+        defaultValue: 150,
+    },
+];
+
+/** Modules a fire pit must keep clear of */
+const STRUCTURE_TYPES = new Set<AnyModule['type']>(['building', 'toilet', 'storage']);
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Get the settings for every rule: the defaults, overridden by the map
+ */
+export function getComplianceSettings(map: Pick<CampsiteMap, 'complianceRules'>): ComplianceSettings {
+    return Object.fromEntries(
+        COMPLIANCE_RULES.map((rule) => {
+            const override = map.complianceRules?.[rule.id];
+            return [rule.id, {
+                enabled: override?.enabled ?? true,
+                value: override?.value ?? rule.defaultValue ?? 0,
+            }];
+        })
+    ) as ComplianceSettings;
+}
+
+const getName = (module: AnyModule): string => String(module.metadata.name || module.type);
+
+const isFirePit = (module: AnyModule): module is RecreationModule =>
+    module.type === 'recreation' && module.metadata.activityType === 'fire_pit';
+
+// ============================================================================
+// CHECKS
+// ============================================================================
+
+/**
+ * Check a map's layout against its enabled compliance rules
+ */
+export function checkLayoutCompliance(map: CampsiteMap): ComplianceReport {
+    const settings = getComplianceSettings(map);
+    const unit = getMeasurementUnit(map);
+    const format = (meters: number) => formatLength(meters, unit);
+    const gapInMeters = (a: AnyModule, b: AnyModule) =>
+        pixelsToMeters(getBoundsGap(getModuleBounds(a), getModuleBounds(b)), map.scale);
+
+    const campsites = map.modules.filter((module): module is CampsiteModule => module.type === 'campsite');
+    const firePits = map.modules.filter(isFirePit);
+    const violations: ComplianceViolation[] = [];
+    const add = (ruleId: ComplianceRuleId, moduleIds: string[], message: string) => {
+        const rule = COMPLIANCE_RULES.find((item) => item.id === ruleId)!;
+        violations.push({ ruleId, severity: rule.severity, moduleIds, message });
+    };
+
+    // Nearest module from a set, measured edge to edge
+    const nearest = (module: AnyModule, candidates: AnyModule[]) =>
+        candidates.reduce<{ module: AnyModule; gap: number } | null>((best, candidate) => {
+            const gap = gapInMeters(module, candidate);
+            return !best || gap < best.gap ? { module: candidate, gap } : best;
+        }, null);
+
+    if (settings.campsite_spacing.enabled) {
+        const { value } = settings.campsite_spacing;
+        campsites.forEach((a, index) => {
+            campsites.slice(index + 1).forEach((b) => {
+                const gap = gapInMeters(a, b);
+                if (gap < value) {
+                    add('campsite_spacing', [a.id, b.id], `${getName(a)} and ${getName(b)} are ${format(gap)} apart (minimum ${format(value)})`);
+                }
+            });
+        });
+    }
+
+    if (settings.fire_pit_clearance.enabled) {
+        const { value } = settings.fire_pit_clearance;
+        const structures = map.modules.filter((module) => STRUCTURE_TYPES.has(module.type));
+        firePits.forEach((pit) => {
+            structures.forEach((structure) => {
+                const gap = gapInMeters(pit, structure);
+                if (gap < value) {
+                    add('fire_pit_clearance', [pit.id, structure.id], `${getName(pit)} is ${format(gap)} from ${getName(structure)} (minimum ${format(value)})`);
+                }
+            });
+        });
+    }
+
+    if (settings.no_fire_zone.enabled) {
+        const noFireZones = map.modules.filter(
+            (module): module is ZoneModule & { points: Position[] } =>
+                module.type === 'zone' && module.metadata.zoneType === 'no_fire' && isPathModule(module)
+        );
+        firePits.forEach((pit) => {
+            noFireZones.forEach((zone) => {
+                if (isPointInPolygon(getModuleCenter(pit), getAbsolutePoints(zone))) {
+                    add('no_fire_zone', [pit.id, zone.id], `${getName(pit)} is inside no-fire zone ${getName(zone)}`);
+                }
+            });
+        });
+    }
+
+    if (settings.emergency_road_width.enabled) {
+        const { value } = settings.emergency_road_width;
+        map.modules
+            .filter((module): module is RoadModule =>
+                module.type === 'road' && (module.metadata.roadType === 'emergency' || module.metadata.accessLevel === 'emergency'))
+            .forEach((road) => {
+                if (road.metadata.width < value) {
+                    add('emergency_road_width', [road.id], `${getName(road)} is ${format(road.metadata.width)} wide (minimum ${format(value)})`);
+                }
+            });
+    }
+
+    if (settings.water_access.enabled) {
+        const { value } = settings.water_access;
+        const water = map.modules.filter((module): module is WaterSourceModule =>
+            module.type === 'water_source' && module.metadata.potable);
+        campsites
+            .filter((site) => !site.metadata.waterHookup)
+            .forEach((site) => {
+                const source = nearest(site, water);
+                if (!source) {
+                    add('water_access', [site.id], `${getName(site)} has no drinking water on the map`);
+                } else if (source.gap > value) {
+                    add('water_access', [site.id, source.module.id], `${getName(site)} is ${format(source.gap)} from drinking water (maximum ${format(value)})`);
+                }
+            });
+    }
+
+    if (settings.toilet_access.enabled) {
+        const { value } = settings.toilet_access;
+        const toilets = map.modules.filter((module) => module.type === 'toilet');
+        campsites.forEach((site) => {
+            const toilet = nearest(site, toilets);
+            if (!toilet) {
+                add('toilet_access', [site.id], `${getName(site)} has no toilet on the map`);
+            } else if (toilet.gap > value) {
+                add('toilet_access', [site.id, toilet.module.id], `${getName(site)} is ${format(toilet.gap)} from a toilet (maximum ${format(value)})`);
+            }
+        });
+    }
+
+    return {
+        violations,
+        rulesChecked: COMPLIANCE_RULES.filter((rule) => settings[rule.id].enabled).length,
+    };
+}
@@ -0,0 +1,158 @@
+/**
+ * Map Availability
+ * Utility functions for the availability timeline on the map viewer:
+ * per-night site availability and finding a block of free sites that sit
+ * next to each other for group requests.
+ */
+
+import { dateUtils } from '@shared/utils';
+import { BookingStatus, SiteStatus } from '@/types';
+import type { AnyModule, Booking, CampsiteModule, Site } from '@/types';
+import { getBoundsGap, getDistance, getModuleBounds, getModuleCenter } from './mapGeometry';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type AvailabilityState = 'available' | 'booked' | 'maintenance' | 'unlinked';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** How far ahead the timeline slider reaches */
+export const TIMELINE_DAYS = 90;
+
+export const AVAILABILITY_LABELS: Record<AvailabilityState, string> = {
+    available: 'Available',
+    booked: 'Booked',
+    maintenance: 'Maintenance',
+    unlinked: 'Not linked to a site',
+};
+
+export const AVAILABILITY_COLORS: Record<AvailabilityState, string> = {
+    available: '#86efac',
+    booked: '#f87171',
+    maintenance: '#9ca3af',
+    unlinked: '#e5e7eb',
+};
+
+/** Booking statuses that hold a site */
+const HOLDING_STATUSES: BookingStatus[] = [BookingStatus.PENDING, BookingStatus.CONFIRMED, BookingStatus.CHECKED_IN];
+
+// ============================================================================
+// AVAILABILITY
+// ============================================================================
+
+/**
+ * Check locally whether any booking holds a site for the night starting on a date.
+ * Used when the availability API cannot be reached.
+ */
+export function isSiteFreeOn(site: Site, bookings: Booking[], date: Date): boolean {
+    if (site.status === SiteStatus.MAINTENANCE || site.status === SiteStatus.OUT_OF_SERVICE) {
+        return false;
+    }
+
+    const night = dateUtils.toDateKey(date);
+    return !bookings.some(
+        (booking) =>
+            booking.siteId === site.id &&
+            HOLDING_STATUSES.includes(booking.status) &&
+            dateUtils.toDateKey(new Date(booking.checkInDate)) <= night &&
+            dateUtils.toDateKey(new Date(booking.checkOutDate)) > night
+    );
+}
+
+/**
+ * Check locally whether a site is free for every night of a stay
+ */
+export function isSiteFreeForStay(site: Site, bookings: Booking[], checkIn: Date, nights: number): boolean {
+    for (let night = 0; night < Math.max(1, nights); night++) {
+        if (!isSiteFreeOn(site, bookings, dateUtils.addDays(checkIn, night))) return false;
+    }
+    return true;
+}
+
+/**
+ * Turn an availability answer into the state shown on the map
+ */
+export function getAvailabilityState(site: Site | undefined, available: boolean): AvailabilityState {
+    if (!site) return 'unlinked';
+    if (available) return 'available';
+    return site.status === SiteStatus.MAINTENANCE || site.status === SiteStatus.OUT_OF_SERVICE
+        ? 'maintenance'
+        : 'booked';
+}
+
+// ============================================================================
+// CONTIGUOUS AREAS
+// ============================================================================
+
+/**
+ * Find the most compact group of available campsites that are all within
+ * reach of each other, for placing a group together.
+ * @param modules - Modules on the map
+ * @param availableIds - IDs of modules whose sites are free
+ * @param count - Number of sites needed
+ * @param maxGap - Largest gap between neighbouring sites, in map units
+ * @returns Module IDs of the group, or null if no group of that size exists
+ */
+export function findContiguousArea(
+    modules: AnyModule[],
+    availableIds: Set<string>,
+    count: number,
+    maxGap: number
+): string[] | null {
+    const candidates = modules.filter(
+        (module): module is CampsiteModule => module.type === 'campsite' && availableIds.has(module.id)
+    );
+    if (count <= 0 || candidates.length < count) return null;
+
+    const bounds = new Map(candidates.map((module) => [module.id, getModuleBounds(module)]));
+    const centers = new Map(candidates.map((module) => [module.id, getModuleCenter(module)]));
+    const neighbours = new Map(
+        candidates.map((module) => [
+            module.id,
+            candidates
+                .filter((other) => other.id !== module.id && getBoundsGap(bounds.get(module.id)!, bounds.get(other.id)!) <= maxGap)
+                .map((other) => other.id),
+        ])
+    );
+
+    const getCentroid = (ids: string[]) => ({
+        x: ids.reduce((sum, id) => sum + centers.get(id)!.x, 0) / ids.length,
+        y: ids.reduce((sum, id) => sum + centers.get(id)!.y, 0) / ids.length,
+    });
+
+    let best: { ids: string[]; spread: number } | null = null;
+
+    for (const seed of candidates) {
+        const group = [seed.id];
+        const frontier = new Set(neighbours.get(seed.id));
+
+        while (group.length < count && frontier.size > 0) {
+            // Grow towards the neighbour closest to the group's centre
+            const centroid = getCentroid(group);
+            const next = [...frontier].reduce((closest, id) =>
+                getDistance(centers.get(id)!, centroid) < getDistance(centers.get(closest)!, centroid) ? id : closest
+            );
+
+            group.push(next);
+            frontier.delete(next);
+            neighbours.get(next)!.forEach((id) => {
+                if (!group.includes(id)) frontier.add(id);
+            });
+        }
+
+        if (group.length < count) continue;
+
+        const centroid = getCentroid(group);
+        const spread = group.reduce((sum, id) => sum + getDistance(centers.get(id)!, centroid), 0);
+
+        if (!best || spread < best.spread) {
+            best = { ids: group, spread };
+        }
+    }
+
+    return best?.ids ?? null;
+}
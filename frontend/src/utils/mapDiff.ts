@@ -0,0 +1,129 @@
+/**
+ * Map Diff
+ * Compares the modules of two versions of a map: which were added, removed,
+ * moved, or otherwise changed between them.
+ */
+
+import type { AnyModule, CampsiteMap } from '@/types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Module properties compared between versions; timestamps are left out */
+export const DIFF_FIELDS = ['position', 'rotation', 'size', 'points', 'zIndex', 'locked', 'visible', 'groupId', 'metadata'] as const;
+
+export type DiffField = (typeof DIFF_FIELDS)[number];
+
+/**
+ * How a module differs: moved modules only changed position or rotation,
+ * changed modules had anything else edited (and may also have moved)
+ */
+export type ModuleChangeKind = 'added' | 'removed' | 'moved' | 'changed';
+
+export interface ModuleChange {
+    moduleId: string;
+    kind: ModuleChangeKind;
+    /** The module in the older map; missing when added */
+    before?: AnyModule;
+    /** The module in the newer map; missing when removed */
+    after?: AnyModule;
+    /** Properties that differ, for moved and changed modules */
+    fields: DiffField[];
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const CHANGE_KIND_LABELS: Record<ModuleChangeKind, string> = {
+    added: 'Added',
+    removed: 'Removed',
+    moved: 'Moved',
+    changed: 'Changed',
+};
+
+export const CHANGE_KIND_COLORS: Record<ModuleChangeKind, string> = {
+    added: '#16a34a', // Green
+    removed: '#dc2626', // Red
+    moved: '#2563eb', // Blue
+    changed: '#f59e0b', // Amber
+};
+
+export const DIFF_FIELD_LABELS: Record<DiffField, string> = {
+    position: 'position',
+    rotation: 'rotation',
+    size: 'size',
+    points: 'shape',
+    zIndex: 'stacking order',
+    locked: 'lock',
+    visible: 'visibility',
+    groupId: 'group',
+    metadata: 'properties',
+};
+
+const PLACEMENT_FIELDS = new Set<DiffField>(['position', 'rotation']);
+
+// ============================================================================
+// FUNCTIONS
+// ============================================================================
+
+const isEqual = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Get the properties that differ between two copies of a module
+ */
+export function getChangedFields(before: AnyModule, after: AnyModule): DiffField[] {
+    return DIFF_FIELDS.filter((field) => !isEqual(before[field], after[field]));
+}
+
+/**
+ * Compare the modules of an older and a newer version of a map.
+ * Changes are listed in the newer map's module order, followed by removals.
+ */
+export function diffMaps(before: CampsiteMap, after: CampsiteMap): ModuleChange[] {
+    const previous = new Map(before.modules.map((module) => [module.id, module]));
+    const current = new Set(after.modules.map((module) => module.id));
+    const changes: ModuleChange[] = [];
+
+    after.modules.forEach((module) => {
+        const old = previous.get(module.id);
+        if (!old) {
+            changes.push({ moduleId: module.id, kind: 'added', after: module, fields: [] });
+            return;
+        }
+
+        const fields = getChangedFields(old, module);
+        if (fields.length === 0) return;
+        changes.push({
+            moduleId: module.id,
+            kind: fields.every((field) => PLACEMENT_FIELDS.has(field)) ? 'moved' : 'changed',
+            before: old,
+            after: module,
+            fields,
+        });
+    });
+
+    before.modules.forEach((module) => {
+        if (!current.has(module.id)) {
+            changes.push({ moduleId: module.id, kind: 'removed', before: module, fields: [] });
+        }
+    });
+
+    return changes;
+}
+
+/**
+ * Pick the compared properties out of a module
+ */
+export function pickFields(module: AnyModule, fields: DiffField[]): Partial<AnyModule> {
+    return Object.fromEntries(fields.map((field) => [field, module[field]])) as Partial<AnyModule>;
+}
+
+/**
+ * Get the display name of the module a change is about
+ */
+export function getChangeName(change: ModuleChange): string {
+    const module = (change.after ?? change.before)!;
+    return String(module.metadata.name || module.type.replace('_', ' '));
+}
@@ -0,0 +1,148 @@
+/**
+ * Map Drafts
+ * Unsaved editor work is kept in the browser as a draft, so it survives a
+ * crashed or closed tab. A recovered draft is merged three ways with the
+ * server's copy of the map, using the map the draft started from as the base.
+ */
+
+import type { AnyModule, CampsiteMap } from '@/types';
+import { deserializeCommand, serializeCommand, type Command, type SerializedCommand } from '@/commands';
+import { getChangedFields } from './mapDiff';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface MapDraft {
+    mapId: string;
+    /** The map as last loaded or saved, which the unsaved edits were made to */
+    base: CampsiteMap;
+    /** The map with the unsaved edits */
+    map: CampsiteMap;
+    undoStack: SerializedCommand[];
+    redoStack: SerializedCommand[];
+    savedAt: Date;
+}
+
+/** A module edited both in the draft and on the server since the base */
+export interface MergeConflict {
+    moduleId: string;
+    /** Each copy is missing where the module did not exist or was deleted */
+    base?: AnyModule;
+    local?: AnyModule;
+    server?: AnyModule;
+}
+
+/** Which copy of a conflicting module to keep */
+export type MergeChoice = 'local' | 'server';
+
+export interface MapMergeResult {
+    map: CampsiteMap;
+    conflicts: MergeConflict[];
+    /** Whether the server copy was changed since the base */
+    serverChanged: boolean;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Map properties that are not merged field by field */
+const UNMERGED_MAP_FIELDS = new Set(['id', 'modules', 'createdAt', 'updatedAt']);
+
+// ============================================================================
+// FUNCTIONS
+// ============================================================================
+
+const isEqual = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const isSameModule = (a?: AnyModule, b?: AnyModule) =>
+    a === b || (!!a && !!b && getChangedFields(a, b).length === 0);
+
+const getMapFields = (...maps: CampsiteMap[]) =>
+    [...new Set(maps.flatMap((map) => Object.keys(map)))].filter(
+        (field) => !UNMERGED_MAP_FIELDS.has(field)
+    ) as (keyof CampsiteMap)[];
+
+/**
+ * Merge a draft with the server copy of its map.
+ * Edits made on only one side are kept. Modules edited differently on both
+ * sides are conflicts, resolved by the given choices and otherwise in favour
+ * of the draft; map settings edited on both sides always keep the draft's.
+ */
+export function mergeMaps(
+    base: CampsiteMap,
+    local: CampsiteMap,
+    server: CampsiteMap,
+    choices: Record<string, MergeChoice> = {}
+): MapMergeResult {
+    const baseModules = new Map(base.modules.map((module) => [module.id, module]));
+    const localModules = new Map(local.modules.map((module) => [module.id, module]));
+    const serverModules = new Map(server.modules.map((module) => [module.id, module]));
+    const ids = new Set([...server.modules, ...local.modules].map((module) => module.id));
+    baseModules.forEach((_, id) => ids.add(id));
+
+    const modules: AnyModule[] = [];
+    const conflicts: MergeConflict[] = [];
+    let serverChanged = false;
+
+    ids.forEach((id) => {
+        const [before, mine, theirs] = [baseModules.get(id), localModules.get(id), serverModules.get(id)];
+        const localEdited = !isSameModule(before, mine);
+        const serverEdited = !isSameModule(before, theirs);
+        serverChanged ||= serverEdited;
+
+        let merged = localEdited ? mine : theirs;
+        if (localEdited && serverEdited && !isSameModule(mine, theirs)) {
+            conflicts.push({ moduleId: id, base: before, local: mine, server: theirs });
+            merged = choices[id] === 'server' ? theirs : mine;
+        }
+        if (merged) modules.push(merged);
+    });
+
+    const map: CampsiteMap = { ...server, modules };
+    getMapFields(base, local, server).forEach((field) => {
+        const localEdited = !isEqual(base[field], local[field]);
+        serverChanged ||= !isEqual(base[field], server[field]);
+        if (localEdited) Object.assign(map, { [field]: local[field] });
+    });
+
+    return { map, conflicts, serverChanged };
+}
+
+/**
+ * Whether a draft holds anything the server copy of its map does not
+ */
+export function hasDraftChanges(draft: MapDraft, server: CampsiteMap): boolean {
+    const { map } = mergeMaps(draft.base, draft.map, server);
+    return (
+        !isEqual(
+            map.modules.map((module) => module.id),
+            server.modules.map((module) => module.id)
+        ) ||
+        map.modules.some((module, index) => !isSameModule(module, server.modules[index])) ||
+        getMapFields(map, server).some((field) => !isEqual(map[field], server[field]))
+    );
+}
+
+/**
+ * Serialize an undo or redo stack for a draft.
+ * Only the most recent commands that can be serialized are kept, since
+ * replaying a stack with a gap in it would leave the map in the wrong state.
+ */
+export function serializeHistory(stack: Command[]): SerializedCommand[] {
+    const serialized: SerializedCommand[] = [];
+    for (let index = stack.length - 1; index >= 0; index--) {
+        const data = serializeCommand(stack[index]!);
+        if (!data) break;
+        serialized.unshift(data);
+    }
+    return serialized;
+}
+
+/**
+ * Rebuild an undo or redo stack saved with a draft
+ */
+export function deserializeHistory(stack: SerializedCommand[]): Command[] {
+    return stack.map(deserializeCommand);
+}
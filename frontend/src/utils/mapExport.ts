@@ -0,0 +1,527 @@
+/**
+ * Map Export
+ * Exports of a campsite map: the versioned JSON data file, a standalone
+ * SVG drawing and a print-ready PDF with title block, legend, scale bar
+ * and optional detail sheets that split the map across several pages.
+ */
+
+import type { AnyModule, CampsiteMap, DimensionAnnotation, ModuleType } from '@/types';
+import { getModuleIcon } from '@/components/editor/properties/moduleIcons';
+import { getModuleColor } from './moduleFactory';
+import { getModuleBounds, type Bounds } from './mapGeometry';
+import { getAbsolutePoints, getPathStrokeWidth, isPathModule } from './modulePaths';
+import { DIMENSION_COLOR, formatLength, getDimensionGeometry, getDimensionLength, getMeasurementUnit } from './measurement';
+import { PdfDocument, measureText } from './pdfWriter';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type PaperSize = 'a4' | 'a3' | 'letter' | 'tabloid';
+export type PaperOrientation = 'portrait' | 'landscape';
+
+export interface LegendEntry {
+    type: ModuleType;
+    label: string;
+    color: string;
+    count: number;
+}
+
+export interface ScaleBar {
+    /** Real-world length the bar represents */
+    meters: number;
+    /** Bar length in output units */
+    length: number;
+}
+
+export interface SvgExportOptions {
+    includeBackground?: boolean;
+    includeLabels?: boolean;
+    /** Draw the dimensions pinned with the measure tool */
+    includeDimensions?: boolean;
+}
+
+/** JSON export file; dates are written as ISO strings */
+export interface MapExportFile {
+    version: string;
+    exportedAt: string;
+    map: CampsiteMap;
+}
+
+export interface PdfExportOptions {
+    paperSize: PaperSize;
+    orientation: PaperOrientation;
+    /** Split the map into an N x N grid of detail sheets after the overview (1 = overview only) */
+    detailGrid: number;
+    includeLabels?: boolean;
+    includeDimensions?: boolean;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Version written to JSON exports. Bump it when the exported shape changes
+ * and add a migration from the previous version in mapImport.
+ */
+export const MAP_EXPORT_VERSION = '1.3';
+
+/** Paper sizes in points (portrait) */
+export const PAPER_SIZES: Record<PaperSize, { label: string; width: number; height: number }> = {
+    a4: { label: 'A4', width: 595.28, height: 841.89 },
+    a3: { label: 'A3', width: 841.89, height: 1190.55 },
+    letter: { label: 'Letter', width: 612, height: 792 },
+    tabloid: { label: 'Tabloid', width: 792, height: 1224 },
+};
+
+const PAGE_MARGIN = 36;
+const SIDEBAR_WIDTH = 150;
+const TITLE_BLOCK_HEIGHT = 96;
+const SHEET_HEADER_HEIGHT = 28;
+const SCALE_STEPS = [1, 2, 5];
+const EXTENT_PADDING = 20;
+const INK = '#1f2937';
+const DIMENSION_TICK_LENGTH = 12;
+const MUTED = '#6b7280';
+
+// ============================================================================
+// SHARED HELPERS
+// ============================================================================
+
+const getVisibleModules = (map: CampsiteMap): AnyModule[] =>
+    map.modules.filter((module) => module.visible).sort((a, b) => a.zIndex - b.zIndex);
+
+const getDimensionBounds = ({ start, end }: DimensionAnnotation): Bounds => ({
+    minX: Math.min(start.x, end.x),
+    minY: Math.min(start.y, end.y),
+    maxX: Math.max(start.x, end.x),
+    maxY: Math.max(start.y, end.y),
+});
+
+/**
+ * Get the area of the map to draw: all visible modules and dimensions plus
+ * padding, or the map bounds when the map is empty
+ */
+export function getMapExtent(map: CampsiteMap): Bounds {
+    const drawn = [
+        ...getVisibleModules(map).map(getModuleBounds),
+        ...(map.dimensions ?? []).map(getDimensionBounds),
+    ];
+    if (drawn.length === 0) {
+        return { ...map.bounds };
+    }
+
+    const extent = drawn.reduce((acc, bounds) => ({
+        minX: Math.min(acc.minX, bounds.minX),
+        minY: Math.min(acc.minY, bounds.minY),
+        maxX: Math.max(acc.maxX, bounds.maxX),
+        maxY: Math.max(acc.maxY, bounds.maxY),
+    }));
+
+    return {
+        minX: extent.minX - EXTENT_PADDING,
+        minY: extent.minY - EXTENT_PADDING,
+        maxX: extent.maxX + EXTENT_PADDING,
+        maxY: extent.maxY + EXTENT_PADDING,
+    };
+}
+
+/**
+ * Group visible modules by type for the legend, in first-seen order
+ */
+export function getLegendEntries(modules: AnyModule[]): LegendEntry[] {
+    const entries = new Map<ModuleType, LegendEntry>();
+
+    modules.forEach((module) => {
+        if (!module.visible) return;
+        const entry = entries.get(module.type);
+        if (entry) {
+            entry.count += 1;
+        } else {
+            entries.set(module.type, {
+                type: module.type,
+                label: getModuleIcon(module.type).label,
+                color: getModuleColor(module.type),
+                count: 1,
+            });
+        }
+    });
+
+    return [...entries.values()];
+}
+
+/**
+ * Pick a round scale bar length (1, 2 or 5 x 10^n metres) that fits the space available
+ * @param unitsPerMeter - Output units per metre at the drawing scale
+ * @param maxLength - Longest bar that fits, in output units
+ */
+export function getScaleBar(unitsPerMeter: number, maxLength: number): ScaleBar {
+    const maxMeters = maxLength / unitsPerMeter;
+    let meters = 1;
+
+    for (let exponent = -2; exponent <= 6; exponent++) {
+        for (const step of SCALE_STEPS) {
+            const candidate = step * 10 ** exponent;
+            if (candidate <= maxMeters) meters = candidate;
+        }
+    }
+
+    return { meters, length: meters * unitsPerMeter };
+}
+
+const formatMeters = (meters: number): string =>
+    meters >= 1000 ? `${meters / 1000} km` : `${meters} m`;
+
+/**
+ * Shorten a label to fit a width, using an ASCII ellipsis so it survives PDF encoding
+ */
+function fitLabel(label: string, maxWidth: number, size: number): string | null {
+    if (measureText(label, size) <= maxWidth) return label;
+    for (let length = label.length - 1; length > 0; length--) {
+        const candidate = `${label.slice(0, length)}...`;
+        if (measureText(candidate, size) <= maxWidth) return candidate;
+    }
+    return null;
+}
+
+// ============================================================================
+// SVG
+// ============================================================================
+
+const escapeXml = (value: string): string =>
+    value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+
+/**
+ * Draw a module's shape, unrotated: a rectangle, or its vertices for roads and zones
+ */
+function buildModuleShape(module: AnyModule, unitsPerMeter: number): string {
+    const color = getModuleColor(module.type);
+    const { x, y } = module.position;
+
+    if (!isPathModule(module)) {
+        return `<rect x="${x}" y="${y}" width="${module.size.width}" height="${module.size.height}" rx="4" fill="${color}" stroke="#374151" stroke-width="1"/>`;
+    }
+
+    const points = module.points.map((point) => `${x + point.x},${y + point.y}`).join(' ');
+    const strokeWidth = getPathStrokeWidth(module, unitsPerMeter);
+    return module.type === 'zone'
+        ? `<polygon points="${points}" fill="${color}" fill-opacity="0.25" stroke="${color}" stroke-width="${strokeWidth}" stroke-dasharray="8 4"/>`
+        : `<polyline points="${points}" fill="none" stroke="${color}" stroke-width="${strokeWidth}" stroke-linecap="round" stroke-linejoin="round"/>`;
+}
+
+/**
+ * Draw the map's pinned dimensions: a line with end marks and its length
+ * written along it
+ */
+function buildDimensionsSvg(map: CampsiteMap): string[] {
+    const unit = getMeasurementUnit(map);
+
+    return (map.dimensions ?? []).map((dimension) => {
+        const { start, end } = dimension;
+        const { ticks, midpoint, angle } = getDimensionGeometry(dimension, DIMENSION_TICK_LENGTH);
+        const label = formatLength(getDimensionLength(dimension, map.scale), unit);
+        const marks = ticks.map(([a, b]) => `<line x1="${a.x}" y1="${a.y}" x2="${b.x}" y2="${b.y}"/>`).join('');
+
+        return (
+            `  <g class="dimension" stroke="${DIMENSION_COLOR}" stroke-width="1.5">` +
+            `<line x1="${start.x}" y1="${start.y}" x2="${end.x}" y2="${end.y}"/>${marks}` +
+            `<text x="${midpoint.x}" y="${midpoint.y - 4}" transform="rotate(${angle} ${midpoint.x} ${midpoint.y})" text-anchor="middle" font-size="12" fill="${DIMENSION_COLOR}" stroke="none">${escapeXml(label)}</text>` +
+            '</g>'
+        );
+    });
+}
+
+/**
+ * Build a standalone SVG drawing of the map, in map units
+ */
+export function buildMapSvg(map: CampsiteMap, options: SvgExportOptions = {}): string {
+    const { includeBackground = true, includeLabels = true, includeDimensions = true } = options;
+    const extent = getMapExtent(map);
+    const width = extent.maxX - extent.minX;
+    const height = extent.maxY - extent.minY;
+
+    const modules = getVisibleModules(map).map((module) => {
+        const { x, y } = module.position;
+        const { width: w, height: h } = module.size;
+        const name = String(module.metadata.name ?? '');
+        const label = includeLabels && name
+            ? `<text x="${x + w / 2}" y="${y + h / 2}" text-anchor="middle" dominant-baseline="middle" font-size="12" fill="${INK}">${escapeXml(name)}</text>`
+            : '';
+
+        return (
+            `  <g id="${escapeXml(module.id)}" data-type="${module.type}" transform="rotate(${module.rotation} ${x + w / 2} ${y + h / 2})">` +
+            `<title>${escapeXml(name)}</title>` +
+            `${buildModuleShape(module, map.scale)}` +
+            `${label}</g>`
+        );
+    });
+
+    const lines = [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<svg xmlns="http://www.w3.org/2000/svg" viewBox="${extent.minX} ${extent.minY} ${width} ${height}" width="${width}" height="${height}" font-family="Helvetica, Arial, sans-serif">`,
+        `  <title>${escapeXml(map.name)}</title>`,
+    ];
+    if (includeBackground) {
+        lines.push(`  <rect x="${extent.minX}" y="${extent.minY}" width="${width}" height="${height}" fill="#ffffff"/>`);
+    }
+    lines.push(...modules);
+    if (includeDimensions) {
+        lines.push(...buildDimensionsSvg(map));
+    }
+    lines.push('</svg>', '');
+
+    return lines.join('\n');
+}
+
+// ============================================================================
+// PDF
+// ============================================================================
+
+interface Frame {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+interface MapRegionOptions {
+    includeLabels: boolean;
+    includeDimensions: boolean;
+}
+
+/**
+ * Draw a region of the map into a frame on the current page.
+ * Returns the drawing scale in points per map unit.
+ */
+function drawMapRegion(
+    doc: PdfDocument,
+    map: CampsiteMap,
+    region: Bounds,
+    frame: Frame,
+    { includeLabels, includeDimensions }: MapRegionOptions
+): number {
+    const modules = getVisibleModules(map);
+    const unitsPerMeter = map.scale;
+    const scale = Math.min(
+        frame.width / (region.maxX - region.minX),
+        frame.height / (region.maxY - region.minY)
+    );
+    // Centre the region in the frame
+    const offsetX = frame.x + (frame.width - (region.maxX - region.minX) * scale) / 2;
+    const offsetY = frame.y + (frame.height - (region.maxY - region.minY) * scale) / 2;
+
+    doc.rect(frame.x, frame.y, frame.width, frame.height, { stroke: '#d1d5db', lineWidth: 0.5 });
+    doc.clip(frame.x, frame.y, frame.width, frame.height, () => {
+        modules.forEach((module) => {
+            const x = offsetX + (module.position.x - region.minX) * scale;
+            const y = offsetY + (module.position.y - region.minY) * scale;
+            const width = module.size.width * scale;
+            const height = module.size.height * scale;
+
+            if (isPathModule(module)) {
+                const points = getAbsolutePoints(module).map((point) => ({
+                    x: offsetX + (point.x - region.minX) * scale,
+                    y: offsetY + (point.y - region.minY) * scale,
+                }));
+                const color = getModuleColor(module.type);
+                if (module.type === 'zone') {
+                    doc.polyline(points, { stroke: color, lineWidth: 1, dash: [4, 2] }, true);
+                } else {
+                    doc.polyline(points, { stroke: color, lineWidth: getPathStrokeWidth(module, unitsPerMeter) * scale });
+                }
+            } else {
+                doc.rect(x, y, width, height, { fill: getModuleColor(module.type), stroke: '#374151', lineWidth: 0.5 }, module.rotation);
+            }
+
+            if (includeLabels) {
+                const size = Math.min(8, height * 0.4);
+                const label = size >= 4 ? fitLabel(String(module.metadata.name ?? ''), width - 2, size) : null;
+                if (label) {
+                    doc.text(x + width / 2, y + height / 2 + size / 3, label, { size, color: INK, align: 'center' });
+                }
+            }
+        });
+
+        if (includeDimensions) {
+            const unit = getMeasurementUnit(map);
+            const toPage = (point: { x: number; y: number }) => ({
+                x: offsetX + (point.x - region.minX) * scale,
+                y: offsetY + (point.y - region.minY) * scale,
+            });
+
+            (map.dimensions ?? []).forEach((dimension) => {
+                const start = toPage(dimension.start);
+                const end = toPage(dimension.end);
+                const { ticks, midpoint } = getDimensionGeometry({ start, end }, 6);
+                const style = { stroke: DIMENSION_COLOR, lineWidth: 0.75 };
+
+                doc.line(start.x, start.y, end.x, end.y, style);
+                ticks.forEach(([a, b]) => doc.line(a.x, a.y, b.x, b.y, style));
+                doc.text(midpoint.x, midpoint.y - 3, formatLength(getDimensionLength(dimension, map.scale), unit), {
+                    size: 7,
+                    color: DIMENSION_COLOR,
+                    align: 'center',
+                });
+            });
+        }
+    });
+
+    return scale;
+}
+
+function drawScaleBar(doc: PdfDocument, x: number, y: number, unitsPerMeter: number, maxLength: number): void {
+    const bar = getScaleBar(unitsPerMeter, maxLength);
+    const half = bar.length / 2;
+
+    doc.rect(x, y, half, 4, { fill: INK });
+    doc.rect(x + half, y, half, 4, { fill: '#ffffff', stroke: INK, lineWidth: 0.5 });
+    doc.text(x, y + 14, '0', { size: 7, color: INK });
+    doc.text(x + bar.length, y + 14, formatMeters(bar.meters), { size: 7, color: INK, align: 'right' });
+}
+
+/**
+ * Build a print-ready PDF: an overview page with title block, legend and
+ * scale bar, followed by detail sheets when a grid is requested
+ */
+export function buildMapPdf(map: CampsiteMap, options: PdfExportOptions): PdfDocument {
+    const { paperSize, orientation, detailGrid, includeLabels = true, includeDimensions = true } = options;
+    const paper = PAPER_SIZES[paperSize];
+    const pageWidth = orientation === 'portrait' ? paper.width : paper.height;
+    const pageHeight = orientation === 'portrait' ? paper.height : paper.width;
+    const modules = getVisibleModules(map);
+    const extent = getMapExtent(map);
+    const grid = Math.max(1, Math.floor(detailGrid));
+    const sheetCount = grid > 1 ? grid * grid : 0;
+    const totalPages = 1 + sheetCount;
+    const exportedOn = new Date().toLocaleDateString();
+
+    const doc = new PdfDocument();
+
+    // ------------------------------------------------------------------------
+    // Overview page
+    // ------------------------------------------------------------------------
+    doc.addPage(pageWidth, pageHeight);
+
+    const mapFrame: Frame = {
+        x: PAGE_MARGIN,
+        y: PAGE_MARGIN,
+        width: pageWidth - PAGE_MARGIN * 2 - SIDEBAR_WIDTH - 12,
+        height: pageHeight - PAGE_MARGIN * 2 - TITLE_BLOCK_HEIGHT - 12,
+    };
+    const scale = drawMapRegion(doc, map, extent, mapFrame, { includeLabels, includeDimensions });
+
+    // Outline the detail sheets so readers can find them
+    if (grid > 1) {
+        const cellWidth = (extent.maxX - extent.minX) / grid;
+        const cellHeight = (extent.maxY - extent.minY) / grid;
+        const offsetX = mapFrame.x + (mapFrame.width - (extent.maxX - extent.minX) * scale) / 2;
+        const offsetY = mapFrame.y + (mapFrame.height - (extent.maxY - extent.minY) * scale) / 2;
+
+        for (let row = 0; row < grid; row++) {
+            for (let col = 0; col < grid; col++) {
+                const x = offsetX + col * cellWidth * scale;
+                const y = offsetY + row * cellHeight * scale;
+                doc.rect(x, y, cellWidth * scale, cellHeight * scale, { stroke: '#2563eb', lineWidth: 0.75 });
+                doc.text(x + 4, y + 11, `${row * grid + col + 2}`, { size: 9, bold: true, color: '#2563eb' });
+            }
+        }
+    }
+
+    // Sidebar: legend and scale bar
+    const sidebarX = pageWidth - PAGE_MARGIN - SIDEBAR_WIDTH;
+    let cursorY = PAGE_MARGIN + 12;
+    doc.text(sidebarX, cursorY, 'Legend', { size: 11, bold: true, color: INK });
+    cursorY += 10;
+
+    getLegendEntries(modules).forEach((entry) => {
+        doc.rect(sidebarX, cursorY, 10, 10, { fill: entry.color, stroke: '#374151', lineWidth: 0.5 });
+        doc.text(sidebarX + 16, cursorY + 8, entry.label, { size: 9, color: INK });
+        doc.text(sidebarX + SIDEBAR_WIDTH, cursorY + 8, String(entry.count), { size: 9, color: MUTED, align: 'right' });
+        cursorY += 16;
+    });
+
+    cursorY += 12;
+    doc.text(sidebarX, cursorY, 'Scale', { size: 11, bold: true, color: INK });
+    cursorY += 10;
+    // Map scale is pixels per metre
+    drawScaleBar(doc, sidebarX, cursorY, scale * map.scale, SIDEBAR_WIDTH - 10);
+
+    // Title block
+    const titleY = pageHeight - PAGE_MARGIN - TITLE_BLOCK_HEIGHT;
+    const contactsX = PAGE_MARGIN + (pageWidth - PAGE_MARGIN * 2) / 2;
+    doc.rect(PAGE_MARGIN, titleY, pageWidth - PAGE_MARGIN * 2, TITLE_BLOCK_HEIGHT, { stroke: INK, lineWidth: 1 });
+    doc.line(contactsX - 8, titleY, contactsX - 8, titleY + TITLE_BLOCK_HEIGHT, { stroke: INK, lineWidth: 0.5 });
+
+    doc.text(PAGE_MARGIN + 10, titleY + 22, map.name, { size: 16, bold: true, color: INK });
+    if (map.metadata.address) {
+        doc.text(PAGE_MARGIN + 10, titleY + 40, map.metadata.address, { size: 10, color: INK });
+    }
+    doc.text(PAGE_MARGIN + 10, titleY + TITLE_BLOCK_HEIGHT - 12, `Printed ${exportedOn} - Page 1 of ${totalPages}`, { size: 8, color: MUTED });
+
+    doc.text(contactsX, titleY + 18, 'Emergency Contacts', { size: 10, bold: true, color: INK });
+    const contacts = map.metadata.emergencyContacts;
+    if (contacts.length === 0) {
+        doc.text(contactsX, titleY + 34, 'Call 911 in an emergency', { size: 9, color: INK });
+    }
+    contacts.slice(0, 5).forEach((contact, index) => {
+        const type = contact.type.charAt(0).toUpperCase() + contact.type.slice(1);
+        doc.text(contactsX, titleY + 34 + index * 12, `${type}: ${contact.name}`, { size: 9, color: INK });
+        doc.text(pageWidth - PAGE_MARGIN - 10, titleY + 34 + index * 12, contact.phone, { size: 9, bold: true, color: INK, align: 'right' });
+    });
+
+    // ------------------------------------------------------------------------
+    // Detail sheets
+    // ------------------------------------------------------------------------
+    if (grid > 1) {
+        const cellWidth = (extent.maxX - extent.minX) / grid;
+        const cellHeight = (extent.maxY - extent.minY) / grid;
+
+        for (let row = 0; row < grid; row++) {
+            for (let col = 0; col < grid; col++) {
+                const pageNumber = row * grid + col + 2;
+                const region: Bounds = {
+                    minX: extent.minX + col * cellWidth,
+                    minY: extent.minY + row * cellHeight,
+                    maxX: extent.minX + (col + 1) * cellWidth,
+                    maxY: extent.minY + (row + 1) * cellHeight,
+                };
+
+                doc.addPage(pageWidth, pageHeight);
+                doc.text(PAGE_MARGIN, PAGE_MARGIN + 14, `${map.name} - Sheet ${pageNumber}`, { size: 12, bold: true, color: INK });
+                doc.text(pageWidth - PAGE_MARGIN, PAGE_MARGIN + 14, `Page ${pageNumber} of ${totalPages}`, { size: 8, color: MUTED, align: 'right' });
+
+                const frame: Frame = {
+                    x: PAGE_MARGIN,
+                    y: PAGE_MARGIN + SHEET_HEADER_HEIGHT,
+                    width: pageWidth - PAGE_MARGIN * 2,
+                    height: pageHeight - PAGE_MARGIN * 2 - SHEET_HEADER_HEIGHT - 30,
+                };
+                const sheetScale = drawMapRegion(doc, map, region, frame, { includeLabels, includeDimensions });
+                drawScaleBar(doc, PAGE_MARGIN, frame.y + frame.height + 10, sheetScale * map.scale, 150);
+            }
+        }
+    }
+
+    return doc;
+}
+
+// ============================================================================
+// JSON
+// ============================================================================
+
+/**
+ * Serialise a map to the JSON export format read back by mapImport
+ */
+export function buildMapJson(map: CampsiteMap): string {
+    const file: MapExportFile = {
+        version: MAP_EXPORT_VERSION,
+        exportedAt: new Date().toISOString(),
+        map,
+    };
+    return JSON.stringify(file, null, 2);
+}
@@ -0,0 +1,107 @@
+/**
+ * Map Geometry
+ * Utility functions for working with module geometry in map coordinates.
+ * Module positions are stored as the top-left corner of the unrotated shape,
+ * and rotation is applied around the centre (matching createModuleObject).
+ */
+
+import type { AnyModule, Position } from '@/types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface Bounds {
+    minX: number;
+    minY: number;
+    maxX: number;
+    maxY: number;
+}
+
+// ============================================================================
+// GEOMETRY
+// ============================================================================
+
+/**
+ * Get the centre point of a module
+ */
+export function getModuleCenter(module: AnyModule): Position {
+    return {
+        x: module.position.x + module.size.width / 2,
+        y: module.position.y + module.size.height / 2,
+    };
+}
+
+/**
+ * Get the axis-aligned bounding box of a module, accounting for rotation
+ */
+export function getModuleBounds(module: AnyModule): Bounds {
+    const center = getModuleCenter(module);
+    const radians = (module.rotation * Math.PI) / 180;
+    const cos = Math.abs(Math.cos(radians));
+    const sin = Math.abs(Math.sin(radians));
+    const halfWidth = (module.size.width * cos + module.size.height * sin) / 2;
+    const halfHeight = (module.size.width * sin + module.size.height * cos) / 2;
+
+    return {
+        minX: center.x - halfWidth,
+        minY: center.y - halfHeight,
+        maxX: center.x + halfWidth,
+        maxY: center.y + halfHeight,
+    };
+}
+
+/**
+ * Get the corners of a module after rotation, clockwise from the top-left
+ */
+export function getModuleCorners(module: AnyModule): Position[] {
+    const center = getModuleCenter(module);
+    const radians = (module.rotation * Math.PI) / 180;
+    const cos = Math.cos(radians);
+    const sin = Math.sin(radians);
+    const halfWidth = module.size.width / 2;
+    const halfHeight = module.size.height / 2;
+    const offsets: [number, number][] = [
+        [-halfWidth, -halfHeight],
+        [halfWidth, -halfHeight],
+        [halfWidth, halfHeight],
+        [-halfWidth, halfHeight],
+    ];
+
+    return offsets.map(([dx, dy]) => ({
+        x: center.x + dx * cos - dy * sin,
+        y: center.y + dx * sin + dy * cos,
+    }));
+}
+
+/**
+ * Get the shortest gap between two bounding boxes (0 when they touch or overlap)
+ */
+export function getBoundsGap(a: Bounds, b: Bounds): number {
+    const dx = Math.max(0, a.minX - b.maxX, b.minX - a.maxX);
+    const dy = Math.max(0, a.minY - b.maxY, b.minY - a.maxY);
+    return Math.hypot(dx, dy);
+}
+
+/**
+ * Get the distance between two points
+ */
+export function getDistance(a: Position, b: Position): number {
+    return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+/**
+ * Check whether a point is inside a polygon (ray casting)
+ */
+export function isPointInPolygon(point: Position, polygon: Position[]): boolean {
+    let inside = false;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+        const a = polygon[i]!;
+        const b = polygon[j]!;
+        if ((a.y > point.y) !== (b.y > point.y) &&
+            point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+            inside = !inside;
+        }
+    }
+    return inside;
+}
@@ -0,0 +1,541 @@
+/**
+ * Map Import
+ * Loads JSON map exports back into the editor. Files are migrated from the
+ * version they were written with up to the current export version, then
+ * validated: the map itself must be valid, while invalid modules are dropped
+ * and reported one by one so the rest of the map can still be imported.
+ */
+
+import { z } from 'zod';
+import { MeasurementUnit } from '@/types';
+import type { AnyModule, CampsiteMap, ModuleType } from '@/types';
+import { MAP_EXPORT_VERSION } from './mapExport';
+import { getPlacedSiteIds, unbindModule } from './siteBinding';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ModuleImportError {
+    /** Position of the module in the file's module list */
+    index: number;
+    id?: string;
+    type?: string;
+    name?: string;
+    issues: string[];
+}
+
+export type MapImportResult =
+    | {
+        success: true;
+        format: 'json' | 'geojson';
+        map: CampsiteMap;
+        /** Export version the file was written with */
+        sourceVersion: string;
+        migrated: boolean;
+        /** Modules that failed validation and were left out of `map` */
+        moduleErrors: ModuleImportError[];
+    }
+    | {
+        success: false;
+        error: string;
+        issues: string[];
+    };
+
+export interface MergeResult {
+    modules: AnyModule[];
+    /** Modules given a new ID because theirs was already on the map */
+    reassignedIds: number;
+    /** Campsite modules unbound because their site is already placed on the map */
+    unboundModules: number;
+}
+
+type JsonRecord = Record<string, unknown>;
+
+// ============================================================================
+// SCHEMAS
+// ============================================================================
+
+const positionSchema = z.object({ x: z.number(), y: z.number() });
+const sizeSchema = z.object({ width: z.number().positive(), height: z.number().positive() });
+const dateSchema = z.coerce.date();
+const nameSchema = z.string().min(1, 'Name is required');
+const facilityDistancesSchema = z.partialRecord(
+    z.enum(['toilet', 'water_source', 'parking', 'building', 'waste_disposal', 'recreation']),
+    z.number().nonnegative()
+);
+
+const moduleBaseShape = {
+    id: z.string().min(1, 'Module ID is required'),
+    position: positionSchema,
+    size: sizeSchema,
+    rotation: z.number(),
+    zIndex: z.number().int(),
+    locked: z.boolean(),
+    visible: z.boolean(),
+    points: z.array(positionSchema).min(2, 'A path needs at least 2 points').optional(),
+    groupId: z.string().optional(),
+    createdAt: dateSchema,
+    updatedAt: dateSchema,
+};
+
+const moduleSchema = <T extends ModuleType, M extends z.ZodRawShape>(type: T, metadata: M) =>
+    z.object({ ...moduleBaseShape, type: z.literal(type), metadata: z.object(metadata) });
+
+/** One schema per module variant; keyed by type so a new ModuleType cannot be missed */
+const MODULE_SCHEMAS: Record<ModuleType, z.ZodType<AnyModule>> = {
+    campsite: moduleSchema('campsite', {
+        siteId: z.string().optional(),
+        name: nameSchema,
+        capacity: z.number().int().nonnegative(),
+        amenities: z.array(z.string()),
+        pricing: z.object({
+            basePrice: z.number().nonnegative(),
+            seasonalMultiplier: z.number().positive(),
+        }),
+        accessibility: z.boolean(),
+        electricHookup: z.boolean(),
+        waterHookup: z.boolean(),
+        sewerHookup: z.boolean(),
+        walkingDistances: facilityDistancesSchema.optional(),
+        stepFreeDistances: facilityDistancesSchema.optional(),
+    }),
+    toilet: moduleSchema('toilet', {
+        name: nameSchema,
+        capacity: z.number().int().nonnegative(),
+        facilities: z.array(z.enum(['male', 'female', 'accessible', 'family'])),
+        maintenanceSchedule: z.string(),
+        accessible: z.boolean(),
+    }),
+    storage: moduleSchema('storage', {
+        name: nameSchema,
+        storageType: z.enum(['equipment', 'maintenance', 'general']),
+        capacity: z.number().nonnegative(),
+        contents: z.array(z.string()),
+        accessLevel: z.enum(['public', 'staff', 'admin']),
+    }),
+    building: moduleSchema('building', {
+        name: nameSchema,
+        buildingType: z.enum(['office', 'reception', 'store', 'restaurant', 'activity_center', 'other']),
+        capacity: z.number().int().nonnegative(),
+        operatingHours: z.object({ open: z.string(), close: z.string() }),
+        services: z.array(z.string()),
+    }),
+    parking: moduleSchema('parking', {
+        name: nameSchema,
+        capacity: z.number().int().nonnegative(),
+        vehicleTypes: z.array(z.enum(['car', 'rv', 'motorcycle', 'bicycle'])),
+        accessible: z.boolean(),
+    }),
+    road: moduleSchema('road', {
+        name: nameSchema,
+        roadType: z.enum(['main', 'secondary', 'path', 'emergency']),
+        surfaceType: z.enum(['paved', 'gravel', 'dirt', 'boardwalk']),
+        width: z.number().positive(),
+        speedLimit: z.number().nonnegative(),
+        accessLevel: z.enum(['public', 'staff', 'emergency']),
+    }),
+    water_source: moduleSchema('water_source', {
+        name: nameSchema,
+        sourceType: z.enum(['tap', 'well', 'spring', 'hookup']),
+        potable: z.boolean(),
+        pressure: z.number().nonnegative(),
+        capacity: z.number().nonnegative(),
+    }),
+    electricity: moduleSchema('electricity', {
+        name: nameSchema,
+        voltage: z.number().positive(),
+        amperage: z.number().positive(),
+        outlets: z.number().int().nonnegative(),
+        circuitType: z.enum(['15amp', '30amp', '50amp']),
+        weatherproof: z.boolean(),
+    }),
+    waste_disposal: moduleSchema('waste_disposal', {
+        name: nameSchema,
+        disposalType: z.enum(['garbage', 'recycling', 'compost', 'sewage']),
+        capacity: z.number().nonnegative(),
+        collectionSchedule: z.string(),
+        accessible: z.boolean(),
+    }),
+    recreation: moduleSchema('recreation', {
+        name: nameSchema,
+        activityType: z.enum(['playground', 'sports', 'swimming', 'hiking', 'picnic', 'fire_pit', 'other']),
+        capacity: z.number().int().nonnegative(),
+        equipment: z.array(z.string()),
+        ageRestrictions: z.string(),
+        safetyRequirements: z.array(z.string()),
+    }),
+    zone: moduleSchema('zone', {
+        name: nameSchema,
+        zoneType: z.enum(['no_fire', 'flood', 'quiet', 'restricted', 'other']),
+        description: z.string(),
+    }),
+    custom: moduleSchema('custom', {
+        name: nameSchema,
+        description: z.string(),
+        customType: z.string(),
+        properties: z.record(z.string(), z.unknown()),
+    }),
+};
+
+/** The map without its modules, which are validated one at a time */
+const mapSchema = z.object({
+    id: z.string(),
+    name: nameSchema,
+    description: z.string(),
+    imageUrl: z.string(),
+    imageSize: sizeSchema,
+    scale: z.number().positive(),
+    bounds: z.object({
+        minX: z.number(),
+        minY: z.number(),
+        maxX: z.number(),
+        maxY: z.number(),
+    }),
+    gridBounds: sizeSchema.optional(),
+    geoReference: z.object({
+        anchor: z.object({
+            latitude: z.number().min(-90).max(90),
+            longitude: z.number().min(-180).max(180),
+        }),
+        anchorPoint: positionSchema,
+        rotation: z.number(),
+    }).optional(),
+    background: z.object({
+        imageUrl: z.string(),
+        position: positionSchema,
+        size: sizeSchema,
+        crop: z.object({
+            top: z.number().nonnegative(),
+            right: z.number().nonnegative(),
+            bottom: z.number().nonnegative(),
+            left: z.number().nonnegative(),
+        }).optional(),
+        rotation: z.number(),
+        opacity: z.number().min(0).max(1),
+        locked: z.boolean(),
+    }).optional(),
+    measurementUnit: z.enum(MeasurementUnit).optional(),
+    dimensions: z.array(z.object({
+        id: z.string(),
+        start: positionSchema,
+        end: positionSchema,
+    })).optional(),
+    utilityConnections: z.array(z.object({
+        id: z.string(),
+        utility: z.enum(['electric', 'water', 'sewer']),
+        supplyId: z.string(),
+        siteId: z.string(),
+    })).optional(),
+    complianceRules: z.partialRecord(
+        z.enum(['campsite_spacing', 'fire_pit_clearance', 'water_access', 'toilet_access', 'emergency_road_width', 'no_fire_zone']),
+        z.object({
+            enabled: z.boolean(),
+            value: z.number().nonnegative().optional(),
+        })
+    ).optional(),
+    groups: z.array(z.object({
+        id: z.string().min(1, 'Group ID is required'),
+        name: nameSchema,
+        parentId: z.string().optional(),
+    })).optional(),
+    modules: z.array(z.unknown()),
+    metadata: z.object({
+        address: z.string(),
+        coordinates: z.object({
+            latitude: z.number().min(-90).max(90),
+            longitude: z.number().min(-180).max(180),
+        }),
+        timezone: z.string(),
+        capacity: z.number().nonnegative(),
+        amenities: z.array(z.string()),
+        rules: z.array(z.string()),
+        emergencyContacts: z.array(z.object({
+            name: z.string(),
+            phone: z.string(),
+            type: z.enum(['fire', 'police', 'medical', 'management']),
+        })),
+    }),
+    createdAt: dateSchema,
+    updatedAt: dateSchema,
+});
+
+const exportFileSchema = z.object({
+    version: z.literal(MAP_EXPORT_VERSION),
+    exportedAt: z.string().optional(),
+    map: mapSchema,
+});
+
+// ============================================================================
+// MIGRATIONS
+// ============================================================================
+
+/** Version given to bare map objects saved before exports carried a version */
+export const LEGACY_VERSION = '0';
+
+const isRecord = (value: unknown): value is JsonRecord =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const compareVersions = (a: string, b: string): number => {
+    const left = a.split('.').map(Number);
+    const right = b.split('.').map(Number);
+    for (let i = 0; i < Math.max(left.length, right.length); i++) {
+        const diff = (left[i] ?? 0) - (right[i] ?? 0);
+        if (diff !== 0) return diff;
+    }
+    return 0;
+};
+
+/**
+ * Legacy files are the map object on its own. Fields that were optional
+ * back then get the defaults the editor would give a new map or module.
+ */
+function migrateLegacyMap(file: JsonRecord): JsonRecord {
+    const now = new Date().toISOString();
+    const metadata = isRecord(file.metadata) ? file.metadata : {};
+    const modules = Array.isArray(file.modules) ? file.modules : [];
+
+    return {
+        version: '1.0',
+        map: {
+            description: '',
+            imageUrl: '',
+            createdAt: now,
+            updatedAt: now,
+            ...file,
+            metadata: {
+                address: '',
+                coordinates: { latitude: 0, longitude: 0 },
+                timezone: 'UTC',
+                capacity: 0,
+                amenities: [],
+                rules: [],
+                emergencyContacts: [],
+                ...metadata,
+            },
+            modules: modules.map((module, index) => (isRecord(module)
+                ? {
+                    rotation: 0,
+                    zIndex: index + 1,
+                    locked: false,
+                    visible: true,
+                    createdAt: now,
+                    updatedAt: now,
+                    ...module,
+                }
+                : module)),
+        },
+    };
+}
+
+/**
+ * Upgrades keyed by the version they read; each returns the file at the
+ * next version. Add an entry here whenever MAP_EXPORT_VERSION is bumped.
+ */
+const MIGRATIONS: Record<string, (file: JsonRecord) => JsonRecord> = {
+    [LEGACY_VERSION]: migrateLegacyMap,
+    // 1.1 added the optional map geoReference; 1.0 maps simply have none
+    '1.0': (file) => ({ ...file, version: '1.1' }),
+    // 1.2 added module groups; 1.1 maps and modules are all ungrouped
+    '1.1': (file) => ({ ...file, version: '1.2' }),
+    // 1.3 added zone modules, path points, dimensions and measurement unit,
+    // compliance rules, utility connections, walking distances and the
+    // background image; all are optional, so 1.2 maps simply have none
+    '1.2': (file) => ({ ...file, version: '1.3' }),
+};
+
+/**
+ * Work out which export version a parsed file was written with
+ */
+export function getExportVersion(data: unknown): string | null {
+    if (!isRecord(data)) return null;
+    if (typeof data.version === 'string' && isRecord(data.map)) return data.version;
+    if (Array.isArray(data.modules)) return LEGACY_VERSION;
+    return null;
+}
+
+/**
+ * Bring a parsed export file up to the current version
+ */
+export function migrateMapExport(data: JsonRecord, version: string): JsonRecord {
+    let file = data;
+    let current = version;
+
+    while (current !== MAP_EXPORT_VERSION) {
+        const migrate = MIGRATIONS[current];
+        if (!migrate) {
+            throw new Error(`Export version ${current} is not supported`);
+        }
+        file = migrate(file);
+        current = String(file.version);
+    }
+
+    return file;
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Check a value names one of the module types
+ */
+export function isModuleType(value: unknown): value is ModuleType {
+    return typeof value === 'string' && Object.prototype.hasOwnProperty.call(MODULE_SCHEMAS, value);
+}
+
+const formatIssues = (error: z.ZodError): string[] =>
+    error.issues.map((issue) =>
+        issue.path.length > 0 ? `${issue.path.map(String).join('.')}: ${issue.message}` : issue.message
+    );
+
+/**
+ * Validate a single module against the schema for its type
+ */
+export function validateModule(
+    data: unknown,
+    index: number
+): { module: AnyModule; error?: undefined } | { module?: undefined; error: ModuleImportError } {
+    const record = isRecord(data) ? data : {};
+    const metadata = isRecord(record.metadata) ? record.metadata : {};
+    const error: ModuleImportError = {
+        index,
+        id: typeof record.id === 'string' ? record.id : undefined,
+        type: typeof record.type === 'string' ? record.type : undefined,
+        name: typeof metadata.name === 'string' ? metadata.name : undefined,
+        issues: [],
+    };
+
+    if (!isRecord(data)) {
+        return { error: { ...error, issues: ['Module must be an object'] } };
+    }
+
+    if (!isModuleType(error.type)) {
+        return { error: { ...error, issues: [`Unknown module type "${error.type ?? ''}"`] } };
+    }
+
+    const result = MODULE_SCHEMAS[error.type].safeParse(data);
+    if (!result.success) {
+        return { error: { ...error, issues: formatIssues(result.error) } };
+    }
+    return { module: result.data };
+}
+
+/**
+ * Validate a list of modules, dropping invalid ones and repeated IDs
+ * @param items - Module data keyed by its position in the source file
+ */
+export function validateModules(items: Map<number, unknown>): {
+    modules: AnyModule[];
+    moduleErrors: ModuleImportError[];
+} {
+    const modules: AnyModule[] = [];
+    const moduleErrors: ModuleImportError[] = [];
+    const seenIds = new Set<string>();
+
+    items.forEach((data, index) => {
+        const { module, error } = validateModule(data, index);
+        if (error) {
+            moduleErrors.push(error);
+        } else if (seenIds.has(module.id)) {
+            moduleErrors.push({
+                index,
+                id: module.id,
+                type: module.type,
+                name: module.metadata.name,
+                issues: ['Duplicate module ID'],
+            });
+        } else {
+            seenIds.add(module.id);
+            modules.push(module);
+        }
+    });
+
+    return { modules, moduleErrors };
+}
+
+/**
+ * Parse, migrate and validate the contents of a JSON map export
+ */
+export function parseMapExport(json: string): MapImportResult {
+    let data: unknown;
+    try {
+        data = JSON.parse(json);
+    } catch {
+        return { success: false, error: 'The file is not valid JSON', issues: [] };
+    }
+
+    const sourceVersion = getExportVersion(data);
+    if (sourceVersion === null || !isRecord(data)) {
+        return { success: false, error: 'The file is not a campsite map export', issues: [] };
+    }
+    if (compareVersions(sourceVersion, MAP_EXPORT_VERSION) > 0) {
+        return {
+            success: false,
+            error: `The file was exported by a newer release (version ${sourceVersion}); update the editor to import it`,
+            issues: [],
+        };
+    }
+
+    let migrated: JsonRecord;
+    try {
+        migrated = migrateMapExport(data, sourceVersion);
+    } catch (error) {
+        return { success: false, error: (error as Error).message, issues: [] };
+    }
+
+    const file = exportFileSchema.safeParse(migrated);
+    if (!file.success) {
+        return { success: false, error: 'The map data is invalid', issues: formatIssues(file.error) };
+    }
+
+    const { modules, moduleErrors } = validateModules(
+        new Map(file.data.map.modules.map((module, index) => [index, module]))
+    );
+
+    return {
+        success: true,
+        format: 'json',
+        map: { ...file.data.map, modules },
+        sourceVersion,
+        migrated: sourceVersion !== MAP_EXPORT_VERSION,
+        moduleErrors,
+    };
+}
+
+// ============================================================================
+// MERGING
+// ============================================================================
+
+/**
+ * Prepare imported modules for adding to an existing map: IDs already in use
+ * are replaced, campsites whose site is already placed are unbound, and the
+ * imported modules are stacked above the existing ones
+ */
+export function prepareModulesForMerge(imported: AnyModule[], existing: AnyModule[]): MergeResult {
+    const usedIds = new Set(existing.map((module) => module.id));
+    const placedSiteIds = getPlacedSiteIds([{ modules: existing }]);
+    const zOffset = existing.reduce((max, module) => Math.max(max, module.zIndex), 0);
+    const result: MergeResult = { modules: [], reassignedIds: 0, unboundModules: 0 };
+
+    imported.forEach((module) => {
+        // Groups are not brought across, so merged modules arrive ungrouped
+        const { groupId: _groupId, ...rest } = module;
+        let prepared = { ...rest, zIndex: module.zIndex + zOffset } as AnyModule;
+
+        if (usedIds.has(prepared.id)) {
+            prepared = { ...prepared, id: crypto.randomUUID() };
+            result.reassignedIds++;
+        }
+        usedIds.add(prepared.id);
+
+        if (prepared.type === 'campsite' && prepared.metadata.siteId && placedSiteIds.has(prepared.metadata.siteId)) {
+            prepared = unbindModule(prepared);
+            result.unboundModules++;
+        }
+
+        result.modules.push(prepared);
+    });
+
+    return result;
+}
@@ -0,0 +1,176 @@
+/**
+ * Map Library
+ * Helpers for the maps list: searching maps, drawing their thumbnails and
+ * creating new maps, blank, from a template or as a copy of another map.
+ */
+
+import type { AnyModule, CampsiteMap, CampsiteTemplate, CreateMapRequest, MapSearchFilters, UpdateMapRequest } from '@/types';
+import { getModuleBounds } from './mapGeometry';
+import { buildMapSvg } from './mapExport';
+import { instantiateTemplate } from './mapTemplates';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Size of a new map, grown to fit the modules it starts with */
+export const BLANK_MAP_SIZE = { width: 800, height: 600 };
+
+/** Space left around modules placed from a template */
+const MAP_PADDING = 40;
+
+export const EMPTY_MAP_METADATA: CampsiteMap['metadata'] = {
+    address: '',
+    coordinates: { latitude: 0, longitude: 0 },
+    timezone: 'UTC',
+    capacity: 0,
+    amenities: [],
+    rules: [],
+    emergencyContacts: [],
+};
+
+// ============================================================================
+// CREATE
+// ============================================================================
+
+/**
+ * Build a new map from a create request, large enough to hold its modules
+ */
+export function createMapData(request: CreateMapRequest, createdBy?: string): CampsiteMap {
+    const modules = request.modules ?? [];
+    const extent = modules.map(getModuleBounds).reduce(
+        (acc, bounds) => ({ maxX: Math.max(acc.maxX, bounds.maxX), maxY: Math.max(acc.maxY, bounds.maxY) }),
+        { maxX: 0, maxY: 0 }
+    );
+    const width = Math.max(BLANK_MAP_SIZE.width, Math.ceil(extent.maxX + MAP_PADDING));
+    const height = Math.max(BLANK_MAP_SIZE.height, Math.ceil(extent.maxY + MAP_PADDING));
+    const now = new Date();
+
+    return {
+        id: crypto.randomUUID(),
+        name: request.name,
+        description: request.description,
+        imageUrl: '',
+        imageSize: { width, height },
+        scale: request.scale,
+        bounds: { minX: 0, minY: 0, maxX: width, maxY: height },
+        modules,
+        metadata: request.metadata,
+        ...(createdBy ? { createdBy } : {}),
+        createdAt: now,
+        updatedAt: now,
+    };
+}
+
+/**
+ * Create the modules of a map template for a new map, placed in its top-left corner
+ */
+export function createTemplateMapModules(template: CampsiteTemplate): AnyModule[] {
+    const modules = instantiateTemplate(template, { x: 0, y: 0 }, []);
+    if (modules.length === 0) return [];
+
+    const bounds = modules.map(getModuleBounds);
+    const offsetX = MAP_PADDING - Math.min(...bounds.map((item) => item.minX));
+    const offsetY = MAP_PADDING - Math.min(...bounds.map((item) => item.minY));
+
+    return modules.map((module) => ({
+        ...module,
+        position: { x: module.position.x + offsetX, y: module.position.y + offsetY },
+    }));
+}
+
+/**
+ * Name a copy of a map "Name (copy)", numbering it if that name is taken
+ */
+export function getCopyName(name: string, existingNames: string[]): string {
+    const base = `${name} (copy)`;
+    if (!existingNames.includes(base)) return base;
+
+    let number = 2;
+    while (existingNames.includes(`${name} (copy ${number})`)) {
+        number += 1;
+    }
+    return `${name} (copy ${number})`;
+}
+
+/**
+ * Copy a map under a new name. The copy is neither published nor archived.
+ */
+export function copyMap(map: CampsiteMap, name: string, createdBy?: string): CampsiteMap {
+    const { isPublished: _isPublished, isArchived: _isArchived, createdBy: _createdBy, ...rest } = structuredClone(map);
+    const now = new Date();
+
+    return {
+        ...rest,
+        id: crypto.randomUUID(),
+        name,
+        ...(createdBy ? { createdBy } : {}),
+        createdAt: now,
+        updatedAt: now,
+    };
+}
+
+/**
+ * Build the request that saves everything laid out in the editor to a map
+ */
+export function getMapUpdate(map: CampsiteMap): UpdateMapRequest {
+    return {
+        id: map.id,
+        name: map.name,
+        description: map.description,
+        scale: map.scale,
+        metadata: map.metadata,
+        modules: map.modules,
+        groups: map.groups ?? [],
+        geoReference: map.geoReference,
+        background: map.background,
+        measurementUnit: map.measurementUnit,
+        dimensions: map.dimensions ?? [],
+        utilityConnections: map.utilityConnections ?? [],
+        complianceRules: map.complianceRules,
+    };
+}
+
+// ============================================================================
+// SEARCH
+// ============================================================================
+
+/**
+ * Filter maps. Search matches name, description and address; the date range
+ * matches when the map was last changed; archived maps are only listed when
+ * asked for, and then on their own.
+ */
+export function filterMaps(maps: CampsiteMap[], filters: MapSearchFilters = {}): CampsiteMap[] {
+    const search = filters.search?.trim().toLowerCase();
+
+    return maps.filter((map) => {
+        if (!!map.isArchived !== !!filters.archived) return false;
+        if (filters.createdBy && map.createdBy !== filters.createdBy) return false;
+
+        if (filters.dateRange) {
+            const updatedAt = new Date(map.updatedAt).getTime();
+            if (updatedAt < filters.dateRange.start.getTime() || updatedAt > filters.dateRange.end.getTime()) {
+                return false;
+            }
+        }
+
+        if (search) {
+            const haystack = [map.name, map.description, map.metadata.address].join(' ').toLowerCase();
+            if (!haystack.includes(search)) return false;
+        }
+
+        return true;
+    });
+}
+
+// ============================================================================
+// THUMBNAILS
+// ============================================================================
+
+/**
+ * Draw a thumbnail of a map from its modules, as an SVG data URL
+ */
+export function buildMapThumbnail(map: CampsiteMap): string {
+    const svg = buildMapSvg(map, { includeLabels: false, includeDimensions: false });
+    return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+}
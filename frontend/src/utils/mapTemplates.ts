@@ -0,0 +1,213 @@
+/**
+ * Map Templates
+ * Helpers for the template library: turning a selection of modules into a
+ * reusable template, searching the library and placing a template back on a
+ * map. Template modules are stored relative to the template's top-left
+ * corner with no IDs or site bindings, so they can be dropped anywhere.
+ */
+
+import type {
+    AnyModule,
+    CampsiteTemplate,
+    ModuleTemplate,
+    Position,
+    TemplateSearchFilters,
+} from '@/types';
+import { getModuleBounds, type Bounds } from './mapGeometry';
+import { getDefaultMetadata, getModuleColor } from './moduleFactory';
+import { unbindModule } from './siteBinding';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type TemplateModule = CampsiteTemplate['modules'][number];
+
+/** Any entry in the template library */
+export type LibraryTemplate = CampsiteTemplate | ModuleTemplate;
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const TEMPLATE_CATEGORIES = ['Layouts', 'Sites', 'Facilities', 'Amenities', 'Other'] as const;
+
+/** Preview images are drawn into a square of this size */
+const PREVIEW_SIZE = 120;
+const PREVIEW_PADDING = 8;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Check whether a library entry is a single-module template
+ */
+export function isModuleTemplate(template: LibraryTemplate): template is ModuleTemplate {
+    return 'defaultSize' in template;
+}
+
+const getExtent = (modules: Pick<AnyModule, 'position' | 'size' | 'rotation'>[]): Bounds =>
+    modules
+        .map((module) => getModuleBounds(module as AnyModule))
+        .reduce((acc, bounds) => ({
+            minX: Math.min(acc.minX, bounds.minX),
+            minY: Math.min(acc.minY, bounds.minY),
+            maxX: Math.max(acc.maxX, bounds.maxX),
+            maxY: Math.max(acc.maxY, bounds.maxY),
+        }));
+
+// ============================================================================
+// CREATE
+// ============================================================================
+
+/**
+ * Convert modules into template modules: positions relative to the group's
+ * top-left corner, stacking order kept, and site bindings dropped so a
+ * template never claims a real site
+ */
+export function createTemplateModules(modules: AnyModule[]): TemplateModule[] {
+    if (modules.length === 0) return [];
+
+    const extent = getExtent(modules);
+
+    return [...modules]
+        .sort((a, b) => a.zIndex - b.zIndex)
+        .map((module, index) => {
+            const { id: _id, groupId: _groupId, createdAt: _createdAt, updatedAt: _updatedAt, ...rest } = unbindModule(structuredClone(module));
+            return {
+                ...rest,
+                position: {
+                    x: module.position.x - extent.minX,
+                    y: module.position.y - extent.minY,
+                },
+                zIndex: index + 1,
+                locked: false,
+                visible: true,
+            } as TemplateModule;
+        });
+}
+
+/**
+ * Draw a small SVG preview of template modules, as a data URL
+ */
+export function buildTemplatePreview(modules: TemplateModule[]): string {
+    const extent = modules.length > 0 ? getExtent(modules) : { minX: 0, minY: 0, maxX: 1, maxY: 1 };
+    const width = Math.max(extent.maxX - extent.minX, 1);
+    const height = Math.max(extent.maxY - extent.minY, 1);
+    const scale = (PREVIEW_SIZE - PREVIEW_PADDING * 2) / Math.max(width, height);
+    const offsetX = (PREVIEW_SIZE - width * scale) / 2 - extent.minX * scale;
+    const offsetY = (PREVIEW_SIZE - height * scale) / 2 - extent.minY * scale;
+
+    const shapes = modules.map((module) => {
+        const x = offsetX + module.position.x * scale;
+        const y = offsetY + module.position.y * scale;
+        const w = module.size.width * scale;
+        const h = module.size.height * scale;
+        return (
+            `<rect x="${x}" y="${y}" width="${w}" height="${h}" rx="2" fill="${getModuleColor(module.type)}" ` +
+            `stroke="#374151" stroke-width="0.5" transform="rotate(${module.rotation} ${x + w / 2} ${y + h / 2})"/>`
+        );
+    });
+
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${PREVIEW_SIZE} ${PREVIEW_SIZE}">${shapes.join('')}</svg>`;
+    return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+}
+
+// ============================================================================
+// SEARCH
+// ============================================================================
+
+/**
+ * Filter library templates. Search matches name, description and tags;
+ * every requested tag must be present; a type filter matches module
+ * templates of that type and map templates containing it. Module templates
+ * are always public.
+ */
+export function filterTemplates<T extends LibraryTemplate>(templates: T[], filters: TemplateSearchFilters = {}): T[] {
+    const search = filters.search?.trim().toLowerCase();
+    const tags = filters.tags?.map((tag) => tag.toLowerCase()) ?? [];
+
+    return templates.filter((template) => {
+        if (filters.category && template.category !== filters.category) return false;
+
+        if (filters.type) {
+            const hasType = isModuleTemplate(template)
+                ? template.type === filters.type
+                : template.modules.some((module) => module.type === filters.type);
+            if (!hasType) return false;
+        }
+
+        if (filters.isPublic !== undefined) {
+            const isPublic = isModuleTemplate(template) || template.isPublic;
+            if (isPublic !== filters.isPublic) return false;
+        }
+
+        const templateTags = template.tags.map((tag) => tag.toLowerCase());
+        if (!tags.every((tag) => templateTags.includes(tag))) return false;
+
+        if (search) {
+            const haystack = [template.name, template.description, ...templateTags].join(' ').toLowerCase();
+            if (!haystack.includes(search)) return false;
+        }
+
+        return true;
+    });
+}
+
+/**
+ * Get every tag used in the library, sorted
+ */
+export function getTemplateTags(templates: LibraryTemplate[]): string[] {
+    return [...new Set(templates.flatMap((template) => template.tags))].sort((a, b) => a.localeCompare(b));
+}
+
+// ============================================================================
+// PLACE
+// ============================================================================
+
+/**
+ * Get the modules a library template places. A module template places a
+ * single module with its preset size and metadata.
+ */
+export function getTemplateModules(template: LibraryTemplate): TemplateModule[] {
+    if (!isModuleTemplate(template)) return template.modules;
+
+    return [{
+        type: template.type,
+        position: { x: 0, y: 0 },
+        size: { ...template.defaultSize },
+        rotation: 0,
+        zIndex: 1,
+        locked: false,
+        visible: true,
+        metadata: { ...getDefaultMetadata(template.type), ...template.defaultMetadata },
+    } as TemplateModule];
+}
+
+/**
+ * Create map modules from a library template, centred on a point and
+ * stacked above the modules already on the map
+ */
+export function instantiateTemplate(template: LibraryTemplate, center: Position, existing: AnyModule[]): AnyModule[] {
+    const modules = getTemplateModules(template);
+    if (modules.length === 0) return [];
+
+    const extent = getExtent(modules);
+    const offsetX = center.x - (extent.minX + extent.maxX) / 2;
+    const offsetY = center.y - (extent.minY + extent.maxY) / 2;
+    const baseZIndex = existing.reduce((max, module) => Math.max(max, module.zIndex), 0);
+    const now = new Date();
+
+    return modules.map((module) => ({
+        ...structuredClone(module),
+        id: crypto.randomUUID(),
+        position: {
+            x: module.position.x + offsetX,
+            y: module.position.y + offsetY,
+        },
+        zIndex: baseZIndex + module.zIndex,
+        createdAt: now,
+        updatedAt: now,
+    }) as AnyModule);
+}
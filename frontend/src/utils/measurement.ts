@@ -0,0 +1,170 @@
+/**
+ * Measurement
+ * Real-world distances and areas on a campsite map. The map scale is in
+ * pixels per metre; results are reported in the map's measurement unit,
+ * metres or feet.
+ */
+
+import { MeasurementUnit } from '@/types';
+import type { AnyModule, CampsiteMap, DimensionAnnotation, Position } from '@/types';
+import { getAbsolutePoints, getPathLength, isPathModule } from './modulePaths';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Size of a module in metres and square metres */
+export interface ModuleMeasurement {
+    area: number;
+    perimeter: number;
+    /** Centre-line length of roads drawn as paths */
+    length?: number;
+}
+
+/** Drawing geometry of a dimension line, shared by the canvas and exports */
+export interface DimensionGeometry {
+    /** Short end marks, perpendicular to the line */
+    ticks: [Position, Position][];
+    midpoint: Position;
+    /** Angle of the line in degrees, kept between -90 and 90 so labels read left to right */
+    angle: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const METERS_PER_FOOT = 0.3048;
+
+/** Colour of dimension lines on the canvas and in exports */
+export const DIMENSION_COLOR = '#dc2626'; // Red
+
+const UNIT_SYMBOLS: Record<MeasurementUnit, string> = {
+    [MeasurementUnit.METERS]: 'm',
+    [MeasurementUnit.FEET]: 'ft',
+};
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+export function getMeasurementUnit(map: Pick<CampsiteMap, 'measurementUnit'>): MeasurementUnit {
+    return map.measurementUnit ?? MeasurementUnit.METERS;
+}
+
+/**
+ * Convert a canvas distance to metres
+ * @param scale - Map scale in pixels per metre
+ */
+export function pixelsToMeters(pixels: number, scale: number): number {
+    return scale > 0 ? pixels / scale : 0;
+}
+
+/** Round to one decimal place below 100 and to whole units above */
+const formatValue = (value: number): string =>
+    Math.abs(value) < 100 ? value.toFixed(1) : Math.round(value).toLocaleString('en-US');
+
+/**
+ * Format a length in metres in the given unit, e.g. "12.5 m" or "41.0 ft"
+ */
+export function formatLength(meters: number, unit: MeasurementUnit): string {
+    const value = unit === MeasurementUnit.FEET ? meters / METERS_PER_FOOT : meters;
+    return `${formatValue(value)} ${UNIT_SYMBOLS[unit]}`;
+}
+
+/**
+ * Format an area in square metres in the given unit, e.g. "150 m²"
+ */
+export function formatArea(squareMeters: number, unit: MeasurementUnit): string {
+    const value = unit === MeasurementUnit.FEET ? squareMeters / (METERS_PER_FOOT * METERS_PER_FOOT) : squareMeters;
+    return `${formatValue(value)} ${UNIT_SYMBOLS[unit]}²`;
+}
+
+/**
+ * Get the area enclosed by a polygon with the shoelace formula
+ */
+export function getPolygonArea(points: Position[]): number {
+    let twiceArea = 0;
+    points.forEach((point, index) => {
+        const next = points[(index + 1) % points.length]!;
+        twiceArea += point.x * next.y - next.x * point.y;
+    });
+    return Math.abs(twiceArea) / 2;
+}
+
+/**
+ * Get the real-world length of a dimension line in metres
+ */
+export function getDimensionLength(dimension: Pick<DimensionAnnotation, 'start' | 'end'>, scale: number): number {
+    const { start, end } = dimension;
+    return pixelsToMeters(Math.hypot(end.x - start.x, end.y - start.y), scale);
+}
+
+/**
+ * Work out the map scale from a line drawn over something of known size
+ * @param distance - Real-world length of the line in the given unit
+ * @returns Scale in pixels per metre, or null when the line or distance is empty
+ */
+export function getCalibratedScale(
+    dimension: Pick<DimensionAnnotation, 'start' | 'end'>,
+    distance: number,
+    unit: MeasurementUnit
+): number | null {
+    const { start, end } = dimension;
+    const pixels = Math.hypot(end.x - start.x, end.y - start.y);
+    const meters = unit === MeasurementUnit.FEET ? distance * METERS_PER_FOOT : distance;
+    if (pixels === 0 || !(meters > 0)) return null;
+    return pixels / meters;
+}
+
+/**
+ * Get the end marks, midpoint and label angle of a dimension line
+ * @param tickLength - Full length of each end mark
+ */
+export function getDimensionGeometry(dimension: Pick<DimensionAnnotation, 'start' | 'end'>, tickLength: number): DimensionGeometry {
+    const { start, end } = dimension;
+    const length = Math.hypot(end.x - start.x, end.y - start.y) || 1;
+    const normal = {
+        x: (-(end.y - start.y) / length) * (tickLength / 2),
+        y: ((end.x - start.x) / length) * (tickLength / 2),
+    };
+    const tick = (point: Position): [Position, Position] => [
+        { x: point.x - normal.x, y: point.y - normal.y },
+        { x: point.x + normal.x, y: point.y + normal.y },
+    ];
+
+    let angle = (Math.atan2(end.y - start.y, end.x - start.x) * 180) / Math.PI;
+    if (angle > 90) angle -= 180;
+    if (angle < -90) angle += 180;
+
+    return {
+        ticks: [tick(start), tick(end)],
+        midpoint: { x: (start.x + end.x) / 2, y: (start.y + end.y) / 2 },
+        angle,
+    };
+}
+
+/**
+ * Measure a module. Zones use the polygon they enclose; roads drawn as
+ * paths are as long as their centre line and as wide as their width.
+ */
+export function measureModule(module: AnyModule, scale: number): ModuleMeasurement {
+    if (isPathModule(module)) {
+        const points = getAbsolutePoints(module);
+
+        if (module.type === 'zone') {
+            return {
+                area: getPolygonArea(points) / (scale * scale),
+                perimeter: pixelsToMeters(getPathLength(points, true), scale),
+            };
+        }
+
+        const length = pixelsToMeters(getPathLength(points), scale);
+        const width = Number(module.metadata.width) || 0;
+        return { area: length * width, perimeter: 2 * (length + width), length };
+    }
+
+    const width = pixelsToMeters(module.size.width, scale);
+    const height = pixelsToMeters(module.size.height, scale);
+    return { area: width * height, perimeter: 2 * (width + height) };
+}
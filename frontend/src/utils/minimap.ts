@@ -0,0 +1,62 @@
+/**
+ * Minimap
+ * Geometry for the editor's minimap navigator: the area of the map it shows,
+ * the part of the map visible in the editor, and the pan that brings a point
+ * into the middle of the editor. Pans are the translation of the Fabric.js
+ * viewport transform, in screen pixels.
+ */
+
+import type { AnyModule, Position, Size } from '@/types';
+import { getModuleBounds, type Bounds } from './mapGeometry';
+
+// ============================================================================
+// BOUNDS
+// ============================================================================
+
+/**
+ * Get the area the minimap covers: the map image plus any modules placed outside it
+ */
+export function getMinimapBounds(imageSize: Size, modules: AnyModule[]): Bounds {
+    return modules.reduce<Bounds>(
+        (bounds, module) => {
+            const moduleBounds = getModuleBounds(module);
+            return {
+                minX: Math.min(bounds.minX, moduleBounds.minX),
+                minY: Math.min(bounds.minY, moduleBounds.minY),
+                maxX: Math.max(bounds.maxX, moduleBounds.maxX),
+                maxY: Math.max(bounds.maxY, moduleBounds.maxY),
+            };
+        },
+        { minX: 0, minY: 0, maxX: imageSize.width, maxY: imageSize.height }
+    );
+}
+
+// ============================================================================
+// VIEWPORT
+// ============================================================================
+
+/**
+ * Get the part of the map visible in the editor, in map coordinates
+ * @param pan - Viewport translation in screen pixels
+ * @param viewSize - Size of the editor canvas in screen pixels
+ */
+export function getViewportBounds(pan: Position, zoom: number, viewSize: Size): Bounds {
+    const minX = -pan.x / zoom;
+    const minY = -pan.y / zoom;
+    return {
+        minX,
+        minY,
+        maxX: minX + viewSize.width / zoom,
+        maxY: minY + viewSize.height / zoom,
+    };
+}
+
+/**
+ * Get the viewport translation that puts a map point in the middle of the editor
+ */
+export function getPanToCenter(point: Position, zoom: number, viewSize: Size): Position {
+    return {
+        x: viewSize.width / 2 - point.x * zoom,
+        y: viewSize.height / 2 - point.y * zoom,
+    };
+}
@@ -0,0 +1,224 @@
+/**
+ * Module Arrays
+ * Repeating a selection of modules to lay out rows of campsites: in a grid
+ * of columns and rows, or along a road or zone edge. The selection is the
+ * first copy; every copy can be numbered from a name pattern like "A-{n}".
+ */
+
+import type { AnyModule, Position } from '@/types';
+import { getModuleBounds, getModuleCenter } from './mapGeometry';
+import { getAbsolutePoints, getPathLength, isPathModule } from './modulePaths';
+import { unbindModule } from './siteBinding';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ArrayLayout = 'grid' | 'path';
+
+export interface ArrayOptions {
+    layout: ArrayLayout;
+    /** Grid columns and rows, counting the selection */
+    columns: number;
+    rows: number;
+    /** Space between neighbouring copies in a grid, edge to edge, in metres */
+    columnGap: number;
+    rowGap: number;
+    /** Distance between copies along a path, in metres */
+    interval: number;
+    /** Copies along a path, counting the selection; cut short at the end of the path */
+    count: number;
+    /** "{n}" is replaced by the copy's number; names are kept when empty */
+    namePattern: string;
+    startNumber: number;
+}
+
+export interface ModuleArray {
+    /** The selected modules, renamed as the first copy */
+    originals: AnyModule[];
+    /** New modules for every other copy */
+    copies: AnyModule[];
+}
+
+/** A place along a path and the direction of the path there */
+interface PathPlacement {
+    point: Position;
+    /** Radians, clockwise from the x axis */
+    angle: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const DEFAULT_ARRAY_OPTIONS: ArrayOptions = {
+    layout: 'grid',
+    columns: 5,
+    rows: 1,
+    columnGap: 2,
+    rowGap: 2,
+    interval: 12,
+    count: 10,
+    namePattern: '',
+    startNumber: 1,
+};
+
+/** Largest number of copies made at once, so a typo cannot freeze the editor */
+export const MAX_ARRAY_COPIES = 500;
+
+// ============================================================================
+// NAMING
+// ============================================================================
+
+/**
+ * Name a copy from a pattern; a pattern without "{n}" has the number added to the end
+ */
+export function formatArrayName(pattern: string, number: number): string {
+    return pattern.includes('{n}') ? pattern.split('{n}').join(String(number)) : `${pattern}${number}`;
+}
+
+// ============================================================================
+// PATHS
+// ============================================================================
+
+/**
+ * Find the point a given distance along a path and the direction of the path there
+ */
+export function getPathPlacement(points: Position[], distance: number): PathPlacement | null {
+    if (points.length < 2) return null;
+
+    let remaining = Math.max(0, distance);
+    for (let index = 0; index < points.length - 1; index++) {
+        const a = points[index]!;
+        const b = points[index + 1]!;
+        const length = Math.hypot(b.x - a.x, b.y - a.y);
+        if (length === 0) continue;
+
+        const isLast = index === points.length - 2;
+        if (remaining <= length || isLast) {
+            const t = Math.min(1, remaining / length);
+            return {
+                point: { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t },
+                angle: Math.atan2(b.y - a.y, b.x - a.x),
+            };
+        }
+        remaining -= length;
+    }
+    return null;
+}
+
+/**
+ * Count the copies that fit along a path at the given spacing, counting the first
+ * @param interval - Distance between copies in canvas pixels
+ */
+export function getPathCapacity(points: Position[], interval: number): number {
+    if (!(interval > 0)) return 1;
+    return Math.floor(getPathLength(points) / interval + 1e-9) + 1;
+}
+
+/**
+ * Split a selection into the modules to repeat and the path to repeat them
+ * along: the first road or zone that is selected with other modules
+ */
+export function getArrayPath(modules: AnyModule[]): { path: Position[]; items: AnyModule[] } | null {
+    const pathModule = modules.find(isPathModule);
+    const items = modules.filter((module) => module !== pathModule);
+    if (!pathModule || items.length === 0) return null;
+    return { path: getAbsolutePoints(pathModule), items };
+}
+
+// ============================================================================
+// ARRAYS
+// ============================================================================
+
+/**
+ * Copy a module to a new place and rotation, unbound from its site and renamed
+ */
+function copyModule(module: AnyModule, center: Position, rotation: number, name: string | null): AnyModule {
+    const copy = unbindModule(structuredClone(module));
+    const now = new Date();
+
+    return {
+        ...copy,
+        id: crypto.randomUUID(),
+        position: { x: center.x - module.size.width / 2, y: center.y - module.size.height / 2 },
+        rotation,
+        metadata: name === null ? copy.metadata : { ...copy.metadata, name },
+        createdAt: now,
+        updatedAt: now,
+    } as AnyModule;
+}
+
+const rename = (module: AnyModule, name: string | null): AnyModule =>
+    name === null ? module : ({ ...module, metadata: { ...module.metadata, name } } as AnyModule);
+
+/**
+ * Lay out copies of modules in a grid, or along a path starting from where
+ * the modules sit beside its start and turning with it
+ * @param scale - Map scale in pixels per metre, for the spacing
+ * @param path - Points of the path to follow, for the path layout
+ */
+export function createModuleArray(
+    modules: AnyModule[],
+    options: ArrayOptions,
+    scale: number,
+    path: Position[] = []
+): ModuleArray {
+    const nameFor = (copyIndex: number) =>
+        options.namePattern.trim() ? formatArrayName(options.namePattern.trim(), options.startNumber + copyIndex) : null;
+    const originals = modules.map((module) => rename(module, nameFor(0)));
+    const copies: AnyModule[] = [];
+    if (modules.length === 0) return { originals, copies };
+
+    if (options.layout === 'grid') {
+        const bounds = modules.map(getModuleBounds);
+        const width = Math.max(...bounds.map((item) => item.maxX)) - Math.min(...bounds.map((item) => item.minX));
+        const height = Math.max(...bounds.map((item) => item.maxY)) - Math.min(...bounds.map((item) => item.minY));
+        const stepX = width + options.columnGap * scale;
+        const stepY = height + options.rowGap * scale;
+        const total = Math.min(Math.max(1, options.columns) * Math.max(1, options.rows), MAX_ARRAY_COPIES);
+
+        for (let copyIndex = 1; copyIndex < total; copyIndex++) {
+            const column = copyIndex % Math.max(1, options.columns);
+            const row = Math.floor(copyIndex / Math.max(1, options.columns));
+            modules.forEach((module) => {
+                const center = getModuleCenter(module);
+                copies.push(copyModule(
+                    module,
+                    { x: center.x + column * stepX, y: center.y + row * stepY },
+                    module.rotation,
+                    nameFor(copyIndex)
+                ));
+            });
+        }
+        return { originals, copies };
+    }
+
+    const start = getPathPlacement(path, 0);
+    if (!start) return { originals, copies };
+
+    const interval = options.interval * scale;
+    const total = Math.min(options.count, getPathCapacity(path, interval), MAX_ARRAY_COPIES);
+
+    for (let copyIndex = 1; copyIndex < total; copyIndex++) {
+        const placement = getPathPlacement(path, copyIndex * interval)!;
+        const turn = placement.angle - start.angle;
+        const cos = Math.cos(turn);
+        const sin = Math.sin(turn);
+
+        modules.forEach((module) => {
+            // Keep the module's offset from the start of the path, turned with the path
+            const center = getModuleCenter(module);
+            const dx = center.x - start.point.x;
+            const dy = center.y - start.point.y;
+            const rotation = (((module.rotation + (turn * 180) / Math.PI) % 360) + 360) % 360;
+            copies.push(copyModule(
+                module,
+                { x: placement.point.x + dx * cos - dy * sin, y: placement.point.y + dx * sin + dy * cos },
+                rotation,
+                nameFor(copyIndex)
+            ));
+        });
+    }
+    return { originals, copies };
+}
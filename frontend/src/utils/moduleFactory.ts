@@ -5,10 +5,18 @@
 
 import * as fabric from 'fabric';
 import type { AnyModule, ModuleType, Position, Size } from '@/types';
+import { fitPathPoints, getPathStrokeWidth, isPathModule, type PathModule, type PathModuleType } from './modulePaths';
 
 // Type helper for accessing custom data on Fabric objects
 export type FabricObjectWithData = fabric.FabricObject & {
-    data?: { moduleId?: string; moduleType?: string; isGrid?: boolean; isLockIcon?: boolean };
+    data?: {
+        moduleId?: string;
+        moduleType?: string;
+        isGrid?: boolean;
+        isLockIcon?: boolean;
+        /** Stroke width a path draws beyond its module size box, in pixels */
+        strokePadding?: number;
+    };
 };
 
 /**
@@ -81,9 +89,13 @@ const MODULE_COLORS: Record<ModuleType, string> = {
     electricity: '#facc15',   // yellow
     waste_disposal: '#ef4444', // red
     recreation: '#ec4899',    // pink
+    zone: '#2dd4bf',          // teal
     custom: '#8b5cf6',        // violet
 };
 
+// Zone fill is the zone colour at 25% opacity, so modules beneath show through
+const ZONE_FILL_ALPHA = '40';
+
 // Opacity constants for module states
 const OPACITY_LOCKED = 0.85;
 const OPACITY_HIDDEN = 0.3;
@@ -170,6 +182,10 @@ const MODULE_ICONS: Record<ModuleType, IconElement[]> = {
         { type: 'path', d: 'm17 14 3 3.3a1 1 0 0 1-.7 1.7H4.7a1 1 0 0 1-.7-1.7L7 14h-.3a1 1 0 0 1-.7-1.7L9 9h-.2A1 1 0 0 1 8 7.3L12 3l4 4.3a1 1 0 0 1-.8 1.7H15l3 3.3a1 1 0 0 1-.7 1.7H17Z' },
         { type: 'path', d: 'M12 22v-3' },
     ],
+    // Hexagon icon (Lucide Hexagon) - zone - 1 path
+    zone: [
+        { type: 'path', d: 'M21 16V8a2 2 0 0 0-1-1.73l-7-4a2 2 0 0 0-2 0l-7 4A2 2 0 0 0 3 8v8a2 2 0 0 0 1 1.73l7 4a2 2 0 0 0 2 0l7-4A2 2 0 0 0 21 16z' },
+    ],
     // Plus icon (Lucide Plus) - custom - 2 path elements
     custom: [
         { type: 'path', d: 'M5 12h14' },
@@ -243,19 +259,49 @@ function createIconObjects(elements: IconElement[], strokeColor: string): fabric
     return iconObjects;
 }
 
+/**
+ * Create the polyline (road) or polygon (zone) for a path module, in the
+ * same coordinates as the module's size box
+ */
+function createPathShape(module: PathModule, color: string, strokeWidth: number): fabric.FabricObject {
+    const points = module.points.map((point) => ({ x: point.x, y: point.y }));
+
+    if (module.type === 'zone') {
+        return new fabric.Polygon(points, {
+            fill: `${color}${ZONE_FILL_ALPHA}`,
+            stroke: color,
+            strokeWidth,
+            strokeDashArray: [8, 4],
+            strokeLineJoin: 'round',
+        });
+    }
+
+    return new fabric.Polyline(points, {
+        fill: '',
+        stroke: color,
+        strokeWidth,
+        strokeLineCap: 'round',
+        strokeLineJoin: 'round',
+    });
+}
+
 /**
  * Create a Fabric.js group object from module data
+ * @param module - Module to draw
+ * @param scale - Map scale in pixels per metre, used for road widths
  */
-export function createModuleObject(module: AnyModule): fabric.Group {
+export function createModuleObject(module: AnyModule, scale = 1): fabric.Group {
     const color = getModuleColor(module.type);
+    const isPath = isPathModule(module);
 
-    // Create the rectangle shape
+    // Create the rectangle shape. Paths draw their own shape, so for them the
+    // rectangle is an invisible frame that keeps the group the module's size.
     const rect = new fabric.Rect({
         width: module.size.width,
         height: module.size.height,
-        fill: color,
+        fill: isPath ? 'transparent' : color,
         stroke: '#374151',
-        strokeWidth: 1,
+        strokeWidth: isPath ? 0 : 1,
         rx: 4,
         ry: 4,
         originX: 'left',
@@ -265,9 +311,14 @@ export function createModuleObject(module: AnyModule): fabric.Group {
     // Calculate icon size based on module size (icon should fit nicely)
     const minDimension = Math.min(module.size.width, module.size.height);
     const iconSize = Math.min(minDimension * 0.6, 48); // Max 48px, 60% of smallest dimension
-    const showIcon = iconSize >= 16; // Only show icon if it's at least 16px
+    const showIcon = !isPath && iconSize >= 16; // Only show icon if it's at least 16px
 
     const objects: fabric.FabricObject[] = [rect];
+    const strokePadding = isPath ? getPathStrokeWidth(module, scale) : 0;
+
+    if (isPath) {
+        objects.push(createPathShape(module, color, strokePadding));
+    }
 
     // Create the icon if it fits
     if (showIcon) {
@@ -321,7 +372,8 @@ export function createModuleObject(module: AnyModule): fabric.Group {
     // Store module ID for reference (set after creation for Fabric v6)
     (group as fabric.Group & { data?: Record<string, unknown> }).data = {
         moduleId: module.id,
-        moduleType: module.type
+        moduleType: module.type,
+        ...(isPath && { strokePadding }),
     };
 
     // Apply custom rotation control with distinct purple color
@@ -499,9 +551,11 @@ export function updateModuleObject(obj: fabric.Group, module: AnyModule): void {
         angle: module.rotation ?? 0,
     });
 
-    // Update size by scaling the group
-    const currentWidth = obj.width || 1;
-    const currentHeight = obj.height || 1;
+    // Update size by scaling the group. A path's stroke reaches past its
+    // size box, so it is left out of the group's size.
+    const strokePadding = (obj as FabricObjectWithData).data?.strokePadding ?? 0;
+    const currentWidth = (obj.width || 1) - strokePadding;
+    const currentHeight = (obj.height || 1) - strokePadding;
     
     // Validate current dimensions
     if (currentWidth <= 0 || currentHeight <= 0 || 
@@ -594,7 +648,7 @@ export function updateModuleObject(obj: fabric.Group, module: AnyModule): void {
         if (rectObj) {
             rectObj.set({
                 strokeDashArray: undefined, // Remove dashed border
-                strokeWidth: 1,
+                strokeWidth: isPathModule(module) ? 0 : 1,
             });
         }
 
@@ -662,8 +716,10 @@ export function extractModuleChanges(obj: fabric.Group): {
         throw new Error(`[extractModuleChanges] Invalid scale values: scaleX=${scaleX}, scaleY=${scaleY}`);
     }
     
-    const baseWidth = obj.width || 100;
-    const baseHeight = obj.height || 100;
+    // Leave out the part of a path's stroke that reaches past its size box
+    const strokePadding = (obj as FabricObjectWithData).data?.strokePadding ?? 0;
+    const baseWidth = (obj.width || 100) - strokePadding;
+    const baseHeight = (obj.height || 100) - strokePadding;
     const width = Math.max(1, baseWidth * scaleX);
     const height = Math.max(1, baseHeight * scaleY);
     
@@ -720,6 +776,7 @@ const DEFAULT_MODULE_SIZES: Record<ModuleType, Size> = {
     waste_disposal: { width: 60, height: 60 },
     recreation: { width: 120, height: 120 },
     storage: { width: 80, height: 60 },
+    zone: { width: 160, height: 120 },
     custom: { width: 80, height: 80 },
 };
 
@@ -835,6 +892,12 @@ export function getDefaultMetadata(type: ModuleType): Record<string, unknown> {
                 contents: [],
                 accessLevel: 'staff',
             };
+        case 'zone':
+            return {
+                ...baseMetadata,
+                zoneType: 'other',
+                description: '',
+            };
         case 'custom':
         default:
             return {
@@ -890,6 +953,16 @@ export function createNewModule(
     return baseModule as AnyModule;
 }
 
+/**
+ * Create a road or zone from vertices drawn on the canvas
+ * @param type - Path module type to create
+ * @param points - Vertices in map coordinates
+ */
+export function createPathModule(type: PathModuleType, points: Position[]): PathModule {
+    const { position, size, points: relativePoints } = fitPathPoints(points);
+    return createNewModule(type, position, { size, points: relativePoints }) as PathModule;
+}
+
 /**
  * Clone a module with a new ID and optional position offset
  * @param module - Module to clone
@@ -0,0 +1,183 @@
+/**
+ * Module Groups
+ * Utility functions for the named, nestable groups of modules shown in the
+ * layers tree. Modules point at their group; groups point at their parent.
+ * A module or group whose group no longer exists is treated as top level.
+ */
+
+import type { AnyModule, CampsiteMap, ModuleGroup } from '@/types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type LayerNode =
+    | { kind: 'group'; group: ModuleGroup; children: LayerNode[] }
+    | { kind: 'module'; module: AnyModule };
+
+// ============================================================================
+// LOOKUP
+// ============================================================================
+
+/**
+ * Whether following a group's parents leads back to it, as can happen in a hand-edited file
+ */
+const isInLoop = (byId: Map<string, ModuleGroup>, groupId: string): boolean => {
+    const visited = new Set<string>();
+    let parentId = byId.get(groupId)?.parentId;
+    while (parentId && byId.has(parentId) && !visited.has(parentId)) {
+        if (parentId === groupId) return true;
+        visited.add(parentId);
+        parentId = byId.get(parentId)?.parentId;
+    }
+    return false;
+};
+
+/**
+ * Get the ID of a group's enclosing group, if it exists. Groups in a loop are top level.
+ */
+export function getParentGroupId(groups: ModuleGroup[], groupId: string): string | undefined {
+    const byId = new Map(groups.map((group) => [group.id, group]));
+    const parentId = byId.get(groupId)?.parentId;
+    return parentId && byId.has(parentId) && !isInLoop(byId, groupId) ? parentId : undefined;
+}
+
+/**
+ * Get the IDs of a group's enclosing groups, innermost first
+ */
+export function getAncestorIds(groups: ModuleGroup[], groupId: string): string[] {
+    const ancestors: string[] = [];
+    let parentId = getParentGroupId(groups, groupId);
+    while (parentId) {
+        ancestors.push(parentId);
+        parentId = getParentGroupId(groups, parentId);
+    }
+    return ancestors;
+}
+
+/**
+ * Get a group's ID and the IDs of every group nested inside it
+ */
+export function getDescendantGroupIds(groups: ModuleGroup[], groupId: string): string[] {
+    return groups
+        .filter((group) => group.id === groupId || getAncestorIds(groups, group.id).includes(groupId))
+        .map((group) => group.id);
+}
+
+/**
+ * Get the modules in a group, including those in its nested groups
+ */
+export function getGroupModules(map: CampsiteMap, groupId: string): AnyModule[] {
+    const groupIds = new Set(getDescendantGroupIds(map.groups ?? [], groupId));
+    return map.modules.filter((module) => module.groupId && groupIds.has(module.groupId));
+}
+
+/**
+ * Get the ID of a module's group, if that group exists
+ */
+export function getModuleGroupId(map: CampsiteMap, module: AnyModule): string | undefined {
+    const { groupId } = module;
+    return groupId && map.groups?.some((group) => group.id === groupId) ? groupId : undefined;
+}
+
+/**
+ * Get the outermost group a module is in, which is selected when the module is clicked
+ */
+export function getTopLevelGroupId(map: CampsiteMap, module: AnyModule): string | undefined {
+    const groupId = getModuleGroupId(map, module);
+    if (!groupId) return undefined;
+    const ancestors = getAncestorIds(map.groups ?? [], groupId);
+    return ancestors[ancestors.length - 1] ?? groupId;
+}
+
+/**
+ * Get the innermost group holding all the given modules, if they share one
+ */
+export function getCommonGroupId(map: CampsiteMap, modules: AnyModule[]): string | undefined {
+    const chains = modules.map((module) => {
+        const groupId = getModuleGroupId(map, module);
+        return groupId ? [groupId, ...getAncestorIds(map.groups ?? [], groupId)] : [];
+    });
+    const [first = [], ...rest] = chains;
+    return first.find((groupId) => rest.every((chain) => chain.includes(groupId)));
+}
+
+/**
+ * Arrange a map's groups and modules as a tree. Within each group its nested
+ * groups come first, in order, followed by its modules from the top layer down.
+ */
+export function buildLayerTree(map: CampsiteMap): LayerNode[] {
+    const groups = map.groups ?? [];
+    const groupIds = new Set(groups.map((group) => group.id));
+    const sortedModules = [...map.modules].sort((a, b) => b.zIndex - a.zIndex);
+
+    const buildLevel = (parentId: string | undefined): LayerNode[] => [
+        ...groups
+            .filter((group) => getParentGroupId(groups, group.id) === parentId)
+            .map((group): LayerNode => ({ kind: 'group', group, children: buildLevel(group.id) })),
+        ...sortedModules
+            .filter((module) => (module.groupId && groupIds.has(module.groupId) ? module.groupId : undefined) === parentId)
+            .map((module): LayerNode => ({ kind: 'module', module })),
+    ];
+
+    return buildLevel(undefined);
+}
+
+// ============================================================================
+// EDITING
+// ============================================================================
+
+/**
+ * Name a new group "Group N", after the highest such name in use
+ */
+export function getNextGroupName(groups: ModuleGroup[]): string {
+    const highest = groups.reduce((max, group) => {
+        const match = /^Group (\d+)$/.exec(group.name);
+        return match ? Math.max(max, Number(match[1])) : max;
+    }, 0);
+    return `Group ${highest + 1}`;
+}
+
+export function createGroup(name: string, parentId?: string): ModuleGroup {
+    return parentId ? { id: crypto.randomUUID(), name, parentId } : { id: crypto.randomUUID(), name };
+}
+
+/**
+ * Move a group into another (or to the top level when no parent is given),
+ * placed before a sibling group or otherwise last. Moving a group into
+ * itself or one of its own nested groups leaves the groups unchanged.
+ */
+export function moveGroup(
+    groups: ModuleGroup[],
+    groupId: string,
+    parentId: string | undefined,
+    beforeGroupId?: string
+): ModuleGroup[] {
+    const group = groups.find((item) => item.id === groupId);
+    if (!group || (parentId && getDescendantGroupIds(groups, groupId).includes(parentId))) {
+        return groups;
+    }
+
+    const { parentId: _parentId, ...rest } = group;
+    const moved: ModuleGroup = parentId ? { ...rest, parentId } : rest;
+    const others = groups.filter((item) => item.id !== groupId);
+    const index = beforeGroupId ? others.findIndex((item) => item.id === beforeGroupId) : -1;
+
+    return index === -1 ? [...others, moved] : [...others.slice(0, index), moved, ...others.slice(index)];
+}
+
+/**
+ * Remove a group, moving the groups nested directly inside it up a level
+ */
+export function removeGroup(groups: ModuleGroup[], groupId: string): ModuleGroup[] {
+    const group = groups.find((item) => item.id === groupId);
+    if (!group) return groups;
+
+    return groups
+        .filter((item) => item.id !== groupId)
+        .map((item) => {
+            if (item.parentId !== groupId) return item;
+            const { parentId: _parentId, ...rest } = item;
+            return group.parentId ? { ...rest, parentId: group.parentId } : rest;
+        });
+}
@@ -0,0 +1,201 @@
+/**
+ * Module Paths
+ * Geometry for modules drawn as vertex paths: roads as polylines with a
+ * width, and zones as closed polygons. Vertices are stored in `points`
+ * relative to the module position and fill the module's size box, so moving,
+ * rotating and layering work exactly as they do for rectangular modules.
+ */
+
+import type { AnyModule, ModuleType, Position, Size } from '@/types';
+import { getModuleCenter } from './mapGeometry';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type PathModuleType = Extract<ModuleType, 'road' | 'zone'>;
+
+export type PathModule = AnyModule & { type: PathModuleType; points: Position[] };
+
+export interface FittedPath {
+    position: Position;
+    size: Size;
+    points: Position[];
+}
+
+export interface SegmentHit {
+    /** Index of the segment's first vertex */
+    index: number;
+    distance: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Fewest vertices that make a valid shape */
+export const MIN_PATH_POINTS: Record<PathModuleType, number> = {
+    road: 2,
+    zone: 3,
+};
+
+/** Zone outlines are drawn at a fixed width, in pixels */
+const ZONE_STROKE_WIDTH = 2;
+
+/** Narrow roads are never drawn thinner than this, so they stay visible */
+const MIN_ROAD_STROKE_WIDTH = 2;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+export function isPathModuleType(type: ModuleType): type is PathModuleType {
+    return type === 'road' || type === 'zone';
+}
+
+/**
+ * Check whether a module is drawn from its vertices. Roads without points
+ * are the older rectangular roads and render as before.
+ */
+export function isPathModule(module: AnyModule): module is PathModule {
+    return isPathModuleType(module.type) &&
+        Array.isArray(module.points) &&
+        module.points.length >= MIN_PATH_POINTS[module.type];
+}
+
+/**
+ * Get the stroke width of a path in pixels. Roads are as wide as their
+ * metadata width in metres at the map scale (pixels per metre).
+ */
+export function getPathStrokeWidth(module: PathModule, scale: number): number {
+    if (module.type === 'zone') return ZONE_STROKE_WIDTH;
+
+    const width = Number(module.metadata.width);
+    return Math.max(MIN_ROAD_STROKE_WIDTH, Number.isFinite(width) ? width * scale : 0);
+}
+
+/**
+ * Get the vertices of a path in map coordinates, with rotation applied
+ */
+export function getAbsolutePoints(module: PathModule): Position[] {
+    const center = getModuleCenter(module);
+    const radians = (module.rotation * Math.PI) / 180;
+    const cos = Math.cos(radians);
+    const sin = Math.sin(radians);
+
+    return module.points.map((point) => {
+        const dx = module.position.x + point.x - center.x;
+        const dy = module.position.y + point.y - center.y;
+        return {
+            x: center.x + dx * cos - dy * sin,
+            y: center.y + dx * sin + dy * cos,
+        };
+    });
+}
+
+/**
+ * Fit a module box around vertices in map coordinates. The box is at least
+ * one unit in each direction so straight paths still have a valid size.
+ */
+export function fitPathPoints(points: Position[]): FittedPath {
+    const xs = points.map((point) => point.x);
+    const ys = points.map((point) => point.y);
+    const minX = Math.min(...xs);
+    const minY = Math.min(...ys);
+    const width = Math.max(...xs) - minX;
+    const height = Math.max(...ys) - minY;
+
+    // Centre a straight path in its padded box
+    const offsetX = Math.max(0, 1 - width) / 2;
+    const offsetY = Math.max(0, 1 - height) / 2;
+    const position = { x: minX - offsetX, y: minY - offsetY };
+
+    return {
+        position,
+        size: { width: Math.max(1, width), height: Math.max(1, height) },
+        points: points.map((point) => ({ x: point.x - position.x, y: point.y - position.y })),
+    };
+}
+
+/**
+ * Stretch path vertices to follow a change of module size
+ */
+export function scalePathPoints(points: Position[], oldSize: Size, newSize: Size): Position[] {
+    const scaleX = newSize.width / oldSize.width;
+    const scaleY = newSize.height / oldSize.height;
+    return points.map((point) => ({ x: point.x * scaleX, y: point.y * scaleY }));
+}
+
+const getSegmentDistance = (point: Position, a: Position, b: Position): number => {
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSquared = dx * dx + dy * dy;
+    const t = lengthSquared === 0
+        ? 0
+        : Math.max(0, Math.min(1, ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSquared));
+    return Math.hypot(point.x - (a.x + t * dx), point.y - (a.y + t * dy));
+};
+
+/**
+ * Find the segment nearest to a point. Closed paths include the segment
+ * from the last vertex back to the first.
+ */
+export function getNearestSegment(points: Position[], point: Position, closed: boolean): SegmentHit | null {
+    let nearest: SegmentHit | null = null;
+    const count = closed ? points.length : points.length - 1;
+
+    for (let index = 0; index < count; index++) {
+        const a = points[index]!;
+        const b = points[(index + 1) % points.length]!;
+        const distance = getSegmentDistance(point, a, b);
+        if (!nearest || distance < nearest.distance) {
+            nearest = { index, distance };
+        }
+    }
+
+    return nearest;
+}
+
+/**
+ * Simplify a path with the Ramer-Douglas-Peucker algorithm, dropping
+ * vertices closer than `tolerance` to the line through their neighbours.
+ * Used to thin out freehand strokes, which are sampled on every mouse move.
+ */
+export function simplifyPath(points: Position[], tolerance: number): Position[] {
+    if (points.length <= 2) return points.map((point) => ({ ...point }));
+
+    const first = points[0]!;
+    const last = points[points.length - 1]!;
+    let maxDistance = 0;
+    let maxIndex = 0;
+
+    for (let index = 1; index < points.length - 1; index++) {
+        const distance = getSegmentDistance(points[index]!, first, last);
+        if (distance > maxDistance) {
+            maxDistance = distance;
+            maxIndex = index;
+        }
+    }
+
+    if (maxDistance <= tolerance) {
+        return [{ ...first }, { ...last }];
+    }
+
+    const head = simplifyPath(points.slice(0, maxIndex + 1), tolerance);
+    const tail = simplifyPath(points.slice(maxIndex), tolerance);
+    return [...head.slice(0, -1), ...tail];
+}
+
+/**
+ * Get the length of a path, closing it back to the start when asked
+ */
+export function getPathLength(points: Position[], closed = false): number {
+    let length = 0;
+    const count = closed ? points.length : points.length - 1;
+    for (let index = 0; index < count; index++) {
+        const a = points[index]!;
+        const b = points[(index + 1) % points.length]!;
+        length += Math.hypot(b.x - a.x, b.y - a.y);
+    }
+    return length;
+}
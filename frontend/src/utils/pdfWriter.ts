@@ -0,0 +1,239 @@
+/**
+ * PDF Writer
+ * Minimal vector PDF generator for print exports. Supports filled and stroked
+ * rectangles, lines, polylines and Helvetica text on any number of pages, which is all a
+ * printed site map needs, without pulling in a PDF library.
+ *
+ * Drawing calls use top-left origin coordinates in points (1/72 inch), like
+ * the canvas; the writer converts them to PDF's bottom-left origin.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface PdfShapeStyle {
+    fill?: string;
+    stroke?: string;
+    lineWidth?: number;
+    /** Dash pattern for the stroke, in points */
+    dash?: number[];
+}
+
+export interface PdfTextStyle {
+    size?: number;
+    bold?: boolean;
+    color?: string;
+    align?: 'left' | 'center' | 'right';
+}
+
+interface PdfPage {
+    width: number;
+    height: number;
+    operations: string[];
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/** Average Helvetica glyph width as a fraction of font size, for alignment */
+const AVERAGE_GLYPH_WIDTH = 0.52;
+
+const formatNumber = (value: number): string => {
+    const rounded = Math.round(value * 100) / 100;
+    return Object.is(rounded, -0) ? '0' : String(rounded);
+};
+
+/**
+ * Convert a #rrggbb colour to PDF RGB components
+ */
+function toRgb(hex: string): string {
+    const value = hex.replace('#', '');
+    const full = value.length === 3 ? value.split('').map((c) => c + c).join('') : value;
+    const channels = [0, 2, 4].map((offset) => parseInt(full.slice(offset, offset + 2), 16) / 255);
+    return channels.map((channel) => formatNumber(Number.isNaN(channel) ? 0 : channel)).join(' ');
+}
+
+/**
+ * Escape text for a PDF string literal; characters outside printable ASCII are replaced
+ */
+function escapeText(text: string): string {
+    return text
+        .replace(/[^\x20-\x7e]/g, '?')
+        .replace(/\\/g, '\\\\')
+        .replace(/\(/g, '\\(')
+        .replace(/\)/g, '\\)');
+}
+
+/**
+ * Estimate the width of a line of Helvetica text
+ */
+export function measureText(text: string, size: number): number {
+    return text.length * size * AVERAGE_GLYPH_WIDTH;
+}
+
+// ============================================================================
+// DOCUMENT
+// ============================================================================
+
+export class PdfDocument {
+    private pages: PdfPage[] = [];
+
+    /**
+     * Start a new page; subsequent drawing calls go to it
+     */
+    addPage(width: number, height: number): this {
+        this.pages.push({ width, height, operations: [] });
+        return this;
+    }
+
+    get pageCount(): number {
+        return this.pages.length;
+    }
+
+    private get page(): PdfPage {
+        const page = this.pages[this.pages.length - 1];
+        if (!page) {
+            throw new Error('PdfDocument: call addPage() before drawing');
+        }
+        return page;
+    }
+
+    private y(value: number): number {
+        return this.page.height - value;
+    }
+
+    private paint(style: PdfShapeStyle): string {
+        const ops: string[] = [];
+        if (style.fill) ops.push(`${toRgb(style.fill)} rg`);
+        if (style.stroke) ops.push(`${toRgb(style.stroke)} RG ${formatNumber(style.lineWidth ?? 1)} w`);
+        if (style.stroke && style.dash) ops.push(`[${style.dash.map(formatNumber).join(' ')}] 0 d`);
+        const paintOp = style.fill && style.stroke ? 'B' : style.fill ? 'f' : 'S';
+        return `${ops.join(' ')} ${paintOp}`.trim();
+    }
+
+    /**
+     * Draw a rectangle, optionally rotated (degrees, clockwise) around its centre
+     */
+    rect(x: number, y: number, width: number, height: number, style: PdfShapeStyle, rotation = 0): this {
+        if (rotation === 0) {
+            this.page.operations.push(
+                `q ${formatNumber(x)} ${formatNumber(this.y(y + height))} ${formatNumber(width)} ${formatNumber(height)} re ${this.paint(style)} Q`
+            );
+            return this;
+        }
+
+        // Move the origin to the centre, rotate, then draw around it
+        const radians = (-rotation * Math.PI) / 180;
+        const cos = Math.cos(radians);
+        const sin = Math.sin(radians);
+        const cx = x + width / 2;
+        const cy = this.y(y + height / 2);
+        this.page.operations.push(
+            `q ${[cos, sin, -sin, cos, cx, cy].map(formatNumber).join(' ')} cm ` +
+            `${formatNumber(-width / 2)} ${formatNumber(-height / 2)} ${formatNumber(width)} ${formatNumber(height)} re ${this.paint(style)} Q`
+        );
+        return this;
+    }
+
+    /**
+     * Run drawing calls clipped to a rectangle
+     */
+    clip(x: number, y: number, width: number, height: number, draw: () => void): this {
+        this.page.operations.push(
+            `q ${formatNumber(x)} ${formatNumber(this.y(y + height))} ${formatNumber(width)} ${formatNumber(height)} re W n`
+        );
+        draw();
+        this.page.operations.push('Q');
+        return this;
+    }
+
+    /**
+     * Draw a straight line
+     */
+    line(x1: number, y1: number, x2: number, y2: number, style: PdfShapeStyle = {}): this {
+        this.page.operations.push(
+            `q ${toRgb(style.stroke ?? '#000000')} RG ${formatNumber(style.lineWidth ?? 1)} w ` +
+            `${formatNumber(x1)} ${formatNumber(this.y(y1))} m ${formatNumber(x2)} ${formatNumber(this.y(y2))} l S Q`
+        );
+        return this;
+    }
+
+    /**
+     * Draw a path through the points with round joins, closing it when asked
+     */
+    polyline(points: Array<{ x: number; y: number }>, style: PdfShapeStyle, closed = false): this {
+        if (points.length < 2) return this;
+
+        const path = points
+            .map((point, index) => `${formatNumber(point.x)} ${formatNumber(this.y(point.y))} ${index === 0 ? 'm' : 'l'}`)
+            .join(' ');
+        this.page.operations.push(`q 1 J 1 j ${path}${closed ? ' h' : ''} ${this.paint(style)} Q`);
+        return this;
+    }
+
+    /**
+     * Draw a line of text; y is the baseline
+     */
+    text(x: number, y: number, text: string, style: PdfTextStyle = {}): this {
+        const size = style.size ?? 10;
+        const width = measureText(text, size);
+        const left = style.align === 'center' ? x - width / 2 : style.align === 'right' ? x - width : x;
+
+        this.page.operations.push(
+            `BT /${style.bold ? 'F2' : 'F1'} ${formatNumber(size)} Tf ${toRgb(style.color ?? '#000000')} rg ` +
+            `${formatNumber(left)} ${formatNumber(this.y(y))} Td (${escapeText(text)}) Tj ET`
+        );
+        return this;
+    }
+
+    /**
+     * Serialise the document to PDF 1.4 source
+     */
+    build(): string {
+        if (this.pages.length === 0) {
+            throw new Error('PdfDocument: a PDF needs at least one page');
+        }
+
+        // Object numbers: 1 catalog, 2 page tree, 3-4 fonts, then page + content pairs
+        const objects: string[] = [];
+        const pageRefs = this.pages.map((_, index) => `${5 + index * 2} 0 R`);
+
+        objects.push('<< /Type /Catalog /Pages 2 0 R >>');
+        objects.push(`<< /Type /Pages /Kids [${pageRefs.join(' ')}] /Count ${this.pages.length} >>`);
+        objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+        objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+
+        this.pages.forEach((page, index) => {
+            const content = page.operations.join('\n');
+            objects.push(
+                `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${formatNumber(page.width)} ${formatNumber(page.height)}] ` +
+                `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${6 + index * 2} 0 R >>`
+            );
+            objects.push(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+        });
+
+        // Output is ASCII only, so string length equals byte offset
+        let output = '%PDF-1.4\n';
+        const offsets = objects.map((object, index) => {
+            const offset = output.length;
+            output += `${index + 1} 0 obj\n${object}\nendobj\n`;
+            return offset;
+        });
+
+        const xrefOffset = output.length;
+        output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+        output += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+        output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+        return output;
+    }
+
+    /**
+     * Build the document as a downloadable Blob
+     */
+    toBlob(): Blob {
+        return new Blob([this.build()], { type: 'application/pdf' });
+    }
+}
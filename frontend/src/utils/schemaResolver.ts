@@ -0,0 +1,44 @@
+/**
+ * Schema Resolver Utility
+ * Adapts the shared zod schemas to react-hook-form forms whose field values differ from the schema input
+ */
+
+import type { FieldError, FieldErrors, FieldValues, Resolver } from 'react-hook-form';
+
+/**
+ * Minimal shape of a zod schema's safeParse, so schemas from the shared package
+ * (which pins its own zod version) can be used without a version-specific import
+ */
+interface SafeParseSchema {
+  safeParse(data: unknown): {
+    success: boolean;
+    error?: { issues: Array<{ path: PropertyKey[]; code: string; message: string }> };
+  };
+}
+
+/**
+ * Create a form resolver that maps form values to schema input before validating.
+ * Only the first issue per top-level field is reported.
+ * @param schema - Shared zod schema
+ * @param toSchemaInput - Converts raw form values (e.g. date strings) into the schema's input shape
+ */
+export function createSchemaResolver<TValues extends FieldValues>(
+  schema: SafeParseSchema,
+  toSchemaInput: (values: TValues) => unknown
+): Resolver<TValues> {
+  return async (values) => {
+    const result = schema.safeParse(toSchemaInput(values));
+    if (result.success || !result.error) {
+      return { values, errors: {} };
+    }
+
+    const errors: Record<string, FieldError> = {};
+    result.error.issues.forEach((issue) => {
+      const field = String(issue.path[0] ?? 'root');
+      if (!errors[field]) {
+        errors[field] = { type: issue.code, message: issue.message };
+      }
+    });
+    return { values: {}, errors: errors as FieldErrors<TValues> };
+  };
+}
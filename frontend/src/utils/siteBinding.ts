@@ -0,0 +1,226 @@
+/**
+ * Site Binding
+ * Utility functions for linking map editor campsite modules to Site records.
+ * A bound module mirrors the site's inventory fields; everything else on the
+ * module (position, seasonal multiplier, accessibility) stays map-only.
+ */
+
+import type { AnyModule, CampsiteMap, CampsiteModule, Site } from '@/types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type CampsiteMetadata = CampsiteModule['metadata'];
+
+/** Site fields that are kept in sync with a bound campsite module */
+export type SyncedSiteFields = Pick<Site, 'name' | 'capacity' | 'amenities' | 'basePrice' | 'hasElectricity' | 'hasWater' | 'hasSewer'>;
+
+export interface SiteBindingReport {
+    /** Campsite modules with no site linked */
+    unboundModules: CampsiteModule[];
+    /** Sites that no campsite module on any map is linked to */
+    unplacedSites: Site[];
+    /** Modules linked to a site that no longer exists */
+    brokenModules: CampsiteModule[];
+    /** Modules whose inventory fields differ from their linked site */
+    outOfSyncModules: { module: CampsiteModule; site: Site }[];
+    /** Sites linked from more than one module on this map */
+    duplicateBindings: { site: Site; modules: CampsiteModule[] }[];
+}
+
+/** Inventory fields a bound module changes on its site */
+export interface SiteUpdate {
+    siteId: string;
+    changes: Partial<SyncedSiteFields>;
+}
+
+// ============================================================================
+// MAPPING
+// ============================================================================
+
+export function isCampsiteModule(module: AnyModule): module is CampsiteModule {
+    return module.type === 'campsite';
+}
+
+/**
+ * Get the ID of the site a module is bound to, if any
+ */
+export function getBoundSiteId(module: AnyModule): string | undefined {
+    return isCampsiteModule(module) ? module.metadata.siteId : undefined;
+}
+
+/**
+ * Drop a module's site binding, e.g. when duplicating so two modules never claim one site
+ */
+export function unbindModule<T extends AnyModule>(module: T): T {
+    if (!isCampsiteModule(module) || !module.metadata.siteId) return module;
+    const { siteId: _siteId, ...metadata } = module.metadata;
+    return { ...module, metadata } as T;
+}
+
+/**
+ * Build the module metadata that mirrors a site's inventory fields
+ */
+export function siteToCampsiteMetadata(site: Site, metadata: CampsiteMetadata): CampsiteMetadata {
+    return {
+        ...metadata,
+        siteId: site.id,
+        name: site.name,
+        capacity: site.capacity,
+        amenities: [...site.amenities],
+        pricing: { ...metadata.pricing, basePrice: site.basePrice },
+        electricHookup: site.hasElectricity,
+        waterHookup: site.hasWater,
+        sewerHookup: site.hasSewer,
+    };
+}
+
+/**
+ * Extract the site fields a bound module writes back to its site
+ */
+export function campsiteMetadataToSite(metadata: CampsiteMetadata): SyncedSiteFields {
+    return {
+        name: metadata.name,
+        capacity: metadata.capacity,
+        amenities: [...metadata.amenities],
+        basePrice: metadata.pricing.basePrice,
+        hasElectricity: metadata.electricHookup,
+        hasWater: metadata.waterHookup,
+        hasSewer: metadata.sewerHookup,
+    };
+}
+
+/**
+ * Pick only the synced fields from a metadata change, so unrelated edits
+ * (seasonal multiplier, accessibility) do not trigger a site update
+ */
+export function getSyncedSiteChanges(
+    before: CampsiteMetadata,
+    after: CampsiteMetadata
+): Partial<SyncedSiteFields> {
+    const previous = campsiteMetadataToSite(before);
+    const next = campsiteMetadataToSite(after);
+    const changes: Partial<SyncedSiteFields> = {};
+
+    (Object.keys(next) as (keyof SyncedSiteFields)[]).forEach((key) => {
+        if (JSON.stringify(previous[key]) !== JSON.stringify(next[key])) {
+            Object.assign(changes, { [key]: next[key] });
+        }
+    });
+
+    return changes;
+}
+
+/**
+ * Check whether a bound module matches its site's inventory fields
+ */
+export function isModuleInSync(module: CampsiteModule, site: Site): boolean {
+    const fromModule = campsiteMetadataToSite(module.metadata);
+    const fromSite: SyncedSiteFields = {
+        name: site.name,
+        capacity: site.capacity,
+        amenities: site.amenities,
+        basePrice: site.basePrice,
+        hasElectricity: site.hasElectricity,
+        hasWater: site.hasWater,
+        hasSewer: site.hasSewer,
+    };
+
+    return (Object.keys(fromSite) as (keyof SyncedSiteFields)[]).every(
+        (key) => JSON.stringify(fromModule[key]) === JSON.stringify(fromSite[key])
+    );
+}
+
+/**
+ * Collect the changes a map's bound modules make to their sites.
+ * Modules bound to a missing site, or already matching theirs, are skipped.
+ */
+export function getSiteUpdates(modules: AnyModule[], sites: Site[]): SiteUpdate[] {
+    const sitesById = new Map(sites.map((site) => [site.id, site]));
+    const updates: SiteUpdate[] = [];
+
+    modules.forEach((module) => {
+        if (!isCampsiteModule(module) || !module.metadata.siteId) return;
+        const site = sitesById.get(module.metadata.siteId);
+        if (!site || isModuleInSync(module, site)) return;
+
+        updates.push({
+            siteId: site.id,
+            changes: getSyncedSiteChanges(siteToCampsiteMetadata(site, module.metadata), module.metadata),
+        });
+    });
+
+    return updates;
+}
+
+// ============================================================================
+// REPORTING
+// ============================================================================
+
+/**
+ * Collect the site IDs bound on a set of maps
+ */
+export function getPlacedSiteIds(maps: Pick<CampsiteMap, 'modules'>[]): Set<string> {
+    const placed = new Set<string>();
+    maps.forEach((map) => {
+        map.modules.forEach((module) => {
+            const siteId = getBoundSiteId(module);
+            if (siteId) placed.add(siteId);
+        });
+    });
+    return placed;
+}
+
+/**
+ * Compare the campsite modules on a map with the site inventory
+ * @param modules - Modules on the map being edited
+ * @param sites - All sites in the inventory
+ * @param otherMaps - Other saved maps, so sites placed elsewhere are not reported as unplaced
+ */
+export function getSiteBindingReport(
+    modules: AnyModule[],
+    sites: Site[],
+    otherMaps: Pick<CampsiteMap, 'modules'>[] = []
+): SiteBindingReport {
+    const sitesById = new Map(sites.map((site) => [site.id, site]));
+    const campsites = modules.filter(isCampsiteModule);
+    const placed = getPlacedSiteIds([{ modules }, ...otherMaps]);
+    const modulesBySite = new Map<string, CampsiteModule[]>();
+
+    const report: SiteBindingReport = {
+        unboundModules: [],
+        unplacedSites: sites.filter((site) => !placed.has(site.id)),
+        brokenModules: [],
+        outOfSyncModules: [],
+        duplicateBindings: [],
+    };
+
+    campsites.forEach((module) => {
+        const siteId = module.metadata.siteId;
+        if (!siteId) {
+            report.unboundModules.push(module);
+            return;
+        }
+
+        const site = sitesById.get(siteId);
+        if (!site) {
+            report.brokenModules.push(module);
+            return;
+        }
+
+        modulesBySite.set(siteId, [...(modulesBySite.get(siteId) ?? []), module]);
+        if (!isModuleInSync(module, site)) {
+            report.outOfSyncModules.push({ module, site });
+        }
+    });
+
+    modulesBySite.forEach((bound, siteId) => {
+        const site = sitesById.get(siteId);
+        if (site && bound.length > 1) {
+            report.duplicateBindings.push({ site, modules: bound });
+        }
+    });
+
+    return report;
+}
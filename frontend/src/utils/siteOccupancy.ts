@@ -0,0 +1,157 @@
+/**
+ * Site Occupancy
+ * Utility functions for the map operations view: works out what is happening
+ * on each campsite today from its Site status and bookings, and applies live
+ * websocket updates to cached sites and bookings.
+ */
+
+import { dateUtils } from '@shared/utils';
+import { BookingStatus, SiteStatus } from '@/types';
+import type { AnyModule, Booking, Site } from '@/types';
+import type { BookingEventPayload, SiteEventPayload } from '@/services/websocket/types';
+import { getBoundSiteId } from './siteBinding';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type OccupancyState = 'vacant' | 'arriving' | 'occupied' | 'departing' | 'maintenance' | 'unlinked';
+
+export interface SiteOccupancy {
+    state: OccupancyState;
+    site?: Site;
+    /** Booking behind the state (the arriving, staying or departing guest) */
+    booking?: Booking;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const OCCUPANCY_STATES: OccupancyState[] = ['vacant', 'arriving', 'occupied', 'departing', 'maintenance', 'unlinked'];
+
+export const OCCUPANCY_LABELS: Record<OccupancyState, string> = {
+    vacant: 'Vacant',
+    arriving: 'Arriving today',
+    occupied: 'Occupied',
+    departing: 'Departing today',
+    maintenance: 'Maintenance',
+    unlinked: 'Not linked to a site',
+};
+
+export const OCCUPANCY_COLORS: Record<OccupancyState, string> = {
+    vacant: '#86efac',
+    arriving: '#93c5fd',
+    occupied: '#f87171',
+    departing: '#fdba74',
+    maintenance: '#9ca3af',
+    unlinked: '#e5e7eb',
+};
+
+const OUT_OF_USE_STATUSES: SiteStatus[] = [SiteStatus.MAINTENANCE, SiteStatus.OUT_OF_SERVICE];
+
+// ============================================================================
+// OCCUPANCY
+// ============================================================================
+
+const isOn = (date: Date | string, dateKey: string): boolean =>
+    dateUtils.toDateKey(new Date(date)) === dateKey;
+
+/**
+ * Work out a site's state for a given day.
+ * A guest departing today wins over a turnover arrival, and an in-house guest
+ * wins over a maintenance flag, so staff always see who is on the pitch.
+ */
+export function getSiteOccupancy(site: Site, bookings: Booking[], date: Date = new Date()): SiteOccupancy {
+    const dateKey = dateUtils.toDateKey(date);
+    const siteBookings = bookings.filter((booking) => booking.siteId === site.id);
+
+    const inHouse = siteBookings.find((booking) => booking.status === BookingStatus.CHECKED_IN);
+    if (inHouse) {
+        return {
+            state: isOn(inHouse.checkOutDate, dateKey) ? 'departing' : 'occupied',
+            site,
+            booking: inHouse,
+        };
+    }
+
+    if (site.status === SiteStatus.OCCUPIED) {
+        return { state: 'occupied', site };
+    }
+
+    if (OUT_OF_USE_STATUSES.includes(site.status)) {
+        return { state: 'maintenance', site };
+    }
+
+    const arriving = siteBookings.find(
+        (booking) =>
+            (booking.status === BookingStatus.CONFIRMED || booking.status === BookingStatus.PENDING) &&
+            isOn(booking.checkInDate, dateKey)
+    );
+    if (arriving) {
+        return { state: 'arriving', site, booking: arriving };
+    }
+
+    return { state: 'vacant', site };
+}
+
+/**
+ * Work out the state of every campsite module on a map, keyed by module ID
+ */
+export function getMapOccupancy(
+    modules: AnyModule[],
+    sites: Site[],
+    bookings: Booking[],
+    date: Date = new Date()
+): Map<string, SiteOccupancy> {
+    const sitesById = new Map(sites.map((site) => [site.id, site]));
+    const occupancy = new Map<string, SiteOccupancy>();
+
+    modules.forEach((module) => {
+        if (module.type !== 'campsite') return;
+
+        const siteId = getBoundSiteId(module);
+        const site = siteId ? sitesById.get(siteId) : undefined;
+        occupancy.set(module.id, site ? getSiteOccupancy(site, bookings, date) : { state: 'unlinked' });
+    });
+
+    return occupancy;
+}
+
+/**
+ * Count modules in each state, for the legend
+ */
+export function countOccupancy(occupancy: Map<string, SiteOccupancy>): Record<OccupancyState, number> {
+    const counts = Object.fromEntries(OCCUPANCY_STATES.map((state) => [state, 0])) as Record<OccupancyState, number>;
+    occupancy.forEach(({ state }) => {
+        counts[state] += 1;
+    });
+    return counts;
+}
+
+// ============================================================================
+// LIVE UPDATES
+// ============================================================================
+
+/**
+ * Apply a site:status_changed event to a list of sites
+ */
+export function applySiteStatusChange(sites: Site[], payload: SiteEventPayload): Site[] {
+    return sites.map((site) =>
+        site.id === payload.siteId ? { ...site, status: payload.status as SiteStatus } : site
+    );
+}
+
+/**
+ * Apply a booking:checked_in event to a list of bookings.
+ * Returns null when the booking is not in the list, so the caller can refetch.
+ */
+export function applyBookingCheckIn(bookings: Booking[], payload: BookingEventPayload): Booking[] | null {
+    if (!bookings.some((booking) => booking.id === payload.id)) return null;
+
+    return bookings.map((booking) =>
+        booking.id === payload.id
+            ? { ...booking, status: BookingStatus.CHECKED_IN, checkInTime: booking.checkInTime ?? new Date() }
+            : booking
+    );
+}
@@ -0,0 +1,255 @@
+/**
+ * Smart Guides
+ * Alignment feedback while dragging modules. A dragged module snaps to the
+ * edges and centres of the modules around it, and to the spacing of rows
+ * and columns of modules, so its gaps match its neighbours'. Works in canvas
+ * pixels on the modules' axis-aligned bounding boxes.
+ */
+
+import type { Position } from '@/types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Axis-aligned bounding box of a module on the canvas */
+export interface Bounds {
+    left: number;
+    top: number;
+    width: number;
+    height: number;
+}
+
+export interface GuideSegment {
+    start: Position;
+    end: Position;
+}
+
+/** Gap between the dragged module and its nearest neighbour on one side */
+export interface GuideDistance extends GuideSegment {
+    length: number;
+}
+
+export interface SmartGuides {
+    /** Move to apply to the dragged module, zero on an axis that did not snap */
+    offset: Position;
+    snapped: { x: boolean; y: boolean };
+    /** Lines through edges and centres the module is aligned with */
+    alignments: GuideSegment[];
+    /** Equal gaps in a row or column of three or more modules */
+    spacings: GuideSegment[];
+    distances: GuideDistance[];
+}
+
+type Axis = 'x' | 'y';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Edges closer than this are treated as lined up, to allow for rounding */
+const TOLERANCE = 0.5;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const crossAxis = (axis: Axis): Axis => (axis === 'x' ? 'y' : 'x');
+
+const getMin = (bounds: Bounds, axis: Axis): number => (axis === 'x' ? bounds.left : bounds.top);
+
+const getSize = (bounds: Bounds, axis: Axis): number => (axis === 'x' ? bounds.width : bounds.height);
+
+const getMax = (bounds: Bounds, axis: Axis): number => getMin(bounds, axis) + getSize(bounds, axis);
+
+const getMid = (bounds: Bounds, axis: Axis): number => getMin(bounds, axis) + getSize(bounds, axis) / 2;
+
+/** Edges and centre along an axis, in the order left/top, centre, right/bottom */
+const getAnchors = (bounds: Bounds, axis: Axis): number[] => [
+    getMin(bounds, axis),
+    getMid(bounds, axis),
+    getMax(bounds, axis),
+];
+
+/** A point given by its position along an axis and across it */
+const toPoint = (axis: Axis, along: number, across: number): Position =>
+    axis === 'x' ? { x: along, y: across } : { x: across, y: along };
+
+const shift = (bounds: Bounds, offset: Position): Bounds => ({
+    ...bounds,
+    left: bounds.left + offset.x,
+    top: bounds.top + offset.y,
+});
+
+/**
+ * Whether two boxes share a row (for the x axis) or column (for the y axis)
+ */
+const isInLine = (a: Bounds, b: Bounds, axis: Axis): boolean => {
+    const cross = crossAxis(axis);
+    return getMin(a, cross) < getMax(b, cross) && getMin(b, cross) < getMax(a, cross);
+};
+
+/** Middle of the stretch across the axis shared by two boxes in line */
+const getSharedMid = (a: Bounds, b: Bounds, axis: Axis): number => {
+    const cross = crossAxis(axis);
+    return (Math.max(getMin(a, cross), getMin(b, cross)) + Math.min(getMax(a, cross), getMax(b, cross))) / 2;
+};
+
+/**
+ * Get the nearest boxes before and after a box along an axis, of those in line with it
+ */
+const getNeighbours = (bounds: Bounds, others: Bounds[], axis: Axis) => {
+    const inLine = others.filter((other) => isInLine(bounds, other, axis));
+    const before = inLine
+        .filter((other) => getMid(other, axis) < getMid(bounds, axis))
+        .sort((a, b) => getMax(b, axis) - getMax(a, axis));
+    const after = inLine
+        .filter((other) => getMid(other, axis) >= getMid(bounds, axis))
+        .sort((a, b) => getMin(a, axis) - getMin(b, axis));
+    return { before, after };
+};
+
+/**
+ * Find the smallest move along an axis, within the threshold, that lines the
+ * box up with another box or evens out the gaps in its row or column
+ */
+const findSnap = (moving: Bounds, others: Bounds[], axis: Axis, threshold: number): number | null => {
+    const deltas: number[] = [];
+
+    const anchors = getAnchors(moving, axis);
+    others.forEach((other) => {
+        getAnchors(other, axis).forEach((target) => {
+            anchors.forEach((anchor) => deltas.push(target - anchor));
+        });
+    });
+
+    const { before, after } = getNeighbours(moving, others, axis);
+    const [prev, prevPrev] = before;
+    const [next, nextNext] = after;
+    const size = getSize(moving, axis);
+
+    // Centred between its neighbours
+    if (prev && next && getMin(next, axis) - getMax(prev, axis) >= size) {
+        deltas.push((getMax(prev, axis) + getMin(next, axis) - size) / 2 - getMin(moving, axis));
+    }
+    // Carrying on the spacing of the two modules before or after it
+    if (prev && prevPrev && getMin(prev, axis) > getMax(prevPrev, axis)) {
+        const gap = getMin(prev, axis) - getMax(prevPrev, axis);
+        deltas.push(getMax(prev, axis) + gap - getMin(moving, axis));
+    }
+    if (next && nextNext && getMin(nextNext, axis) > getMax(next, axis)) {
+        const gap = getMin(nextNext, axis) - getMax(next, axis);
+        deltas.push(getMin(next, axis) - gap - getMax(moving, axis));
+    }
+
+    return deltas
+        .filter((delta) => Math.abs(delta) <= threshold)
+        .reduce<number | null>((best, delta) => (best === null || Math.abs(delta) < Math.abs(best) ? delta : best), null);
+};
+
+/**
+ * Lines along an axis through every edge or centre the box shares with another,
+ * running from the furthest end of the two boxes to the other
+ */
+const getAlignments = (moving: Bounds, others: Bounds[], axis: Axis): GuideSegment[] => {
+    const cross = crossAxis(axis);
+    const extents = new Map<number, [number, number]>();
+
+    others.forEach((other) => {
+        getAnchors(other, axis).forEach((target) => {
+            if (!getAnchors(moving, axis).some((anchor) => Math.abs(anchor - target) < TOLERANCE)) return;
+
+            const [start, end] = extents.get(target) ?? [getMin(moving, cross), getMax(moving, cross)];
+            extents.set(target, [Math.min(start, getMin(other, cross)), Math.max(end, getMax(other, cross))]);
+        });
+    });
+
+    return [...extents].map(([position, [start, end]]) => ({
+        start: toPoint(axis, position, start),
+        end: toPoint(axis, position, end),
+    }));
+};
+
+/**
+ * Gaps in the box's row or column that match one of its own gaps, when at
+ * least two gaps match (three or more evenly spaced modules)
+ */
+const getSpacings = (moving: Bounds, others: Bounds[], axis: Axis): GuideSegment[] => {
+    const inLine = others.filter((other) => isInLine(moving, other, axis));
+    const line = [...inLine, moving].sort((a, b) => getMin(a, axis) - getMin(b, axis));
+
+    const gaps = line.slice(1)
+        .map((box, index) => ({ from: line[index]!, to: box, length: getMin(box, axis) - getMax(line[index]!, axis) }))
+        .filter((gap) => gap.length > 0);
+
+    const isSameLength = (a: number, b: number) => Math.abs(a - b) < TOLERANCE;
+    const evenLengths = gaps
+        .filter((gap) => gap.from === moving || gap.to === moving)
+        .map((gap) => gap.length)
+        .filter((length) => gaps.filter((gap) => isSameLength(gap.length, length)).length >= 2);
+
+    return gaps
+        .filter((gap) => evenLengths.some((length) => isSameLength(gap.length, length)))
+        .map(({ from, to }) => {
+            const across = getSharedMid(from, to, axis);
+            return {
+                start: toPoint(axis, getMax(from, axis), across),
+                end: toPoint(axis, getMin(to, axis), across),
+            };
+        });
+};
+
+/**
+ * Distances from the box to its nearest neighbours on both sides along an axis
+ */
+const getDistances = (moving: Bounds, others: Bounds[], axis: Axis): GuideDistance[] => {
+    const { before, after } = getNeighbours(moving, others, axis);
+    const distances: GuideDistance[] = [];
+
+    const prev = before[0];
+    if (prev && getMin(moving, axis) > getMax(prev, axis)) {
+        const across = getSharedMid(moving, prev, axis);
+        distances.push({
+            start: toPoint(axis, getMax(prev, axis), across),
+            end: toPoint(axis, getMin(moving, axis), across),
+            length: getMin(moving, axis) - getMax(prev, axis),
+        });
+    }
+
+    const next = after[0];
+    if (next && getMin(next, axis) > getMax(moving, axis)) {
+        const across = getSharedMid(moving, next, axis);
+        distances.push({
+            start: toPoint(axis, getMax(moving, axis), across),
+            end: toPoint(axis, getMin(next, axis), across),
+            length: getMin(next, axis) - getMax(moving, axis),
+        });
+    }
+
+    return distances;
+};
+
+// ============================================================================
+// SNAPPING
+// ============================================================================
+
+/**
+ * Snap a dragged module to the modules around it and work out the guides to show
+ * @param moving - Bounds of the dragged module (or selection) before snapping
+ * @param others - Bounds of the other modules on the map
+ * @param threshold - Furthest the module is moved to snap, in canvas pixels
+ */
+export function getSmartGuides(moving: Bounds, others: Bounds[], threshold: number): SmartGuides {
+    const x = findSnap(moving, others, 'x', threshold);
+    const y = findSnap(moving, others, 'y', threshold);
+    const offset = { x: x ?? 0, y: y ?? 0 };
+    const snapped = shift(moving, offset);
+
+    return {
+        offset,
+        snapped: { x: x !== null, y: y !== null },
+        alignments: [...getAlignments(snapped, others, 'x'), ...getAlignments(snapped, others, 'y')],
+        spacings: [...getSpacings(snapped, others, 'x'), ...getSpacings(snapped, others, 'y')],
+        distances: [...getDistances(snapped, others, 'x'), ...getDistances(snapped, others, 'y')],
+    };
+}
@@ -0,0 +1,157 @@
+/**
+ * Utility Network
+ * Service lines from supply modules to campsites: electricity pedestals,
+ * water sources and sewage disposal points. Works out the load on each
+ * electrical circuit and the sites that advertise a hookup nothing supplies.
+ */
+
+import type {
+    AnyModule,
+    CampsiteMap,
+    CampsiteModule,
+    ElectricityModule,
+    UtilityConnection,
+    UtilityType,
+} from '@/types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface CircuitLoad {
+    supply: ElectricityModule;
+    siteIds: string[];
+    /** Amps drawn by the connected sites */
+    load: number;
+    /** Amps the circuit can carry */
+    capacity: number;
+    overloaded: boolean;
+}
+
+/** A campsite advertising a hookup with no connected supply */
+export interface UnsuppliedHookup {
+    site: CampsiteModule;
+    utility: UtilityType;
+}
+
+export interface UtilityNetworkReport {
+    /** Connections whose supply and site are both on the map */
+    connections: UtilityConnection[];
+    circuits: CircuitLoad[];
+    unsupplied: UnsuppliedHookup[];
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const UTILITY_LABELS: Record<UtilityType, string> = {
+    electric: 'Electricity',
+    water: 'Water',
+    sewer: 'Sewer',
+};
+
+export const UTILITY_COLORS: Record<UtilityType, string> = {
+    electric: '#eab308', // Yellow
+    water: '#0ea5e9', // Sky blue
+    sewer: '#92400e', // Brown
+};
+
+/** Colour of lines on an overloaded circuit and of sites without supply */
+export const UTILITY_FAULT_COLOR = '#dc2626'; // Red
+
+/** Amps a site draws from a pedestal, by the pedestal's outlet rating */
+export const CIRCUIT_AMPS: Record<ElectricityModule['metadata']['circuitType'], number> = {
+    '15amp': 15,
+    '30amp': 30,
+    '50amp': 50,
+};
+
+const HOOKUP_FLAGS: Record<UtilityType, 'electricHookup' | 'waterHookup' | 'sewerHookup'> = {
+    electric: 'electricHookup',
+    water: 'waterHookup',
+    sewer: 'sewerHookup',
+};
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Get the utility a module supplies, or null if it is not a supply
+ */
+export function getSupplyUtility(module: AnyModule): UtilityType | null {
+    switch (module.type) {
+        case 'electricity':
+            return 'electric';
+        case 'water_source':
+            return 'water';
+        case 'waste_disposal':
+            return module.metadata.disposalType === 'sewage' ? 'sewer' : null;
+        default:
+            return null;
+    }
+}
+
+/**
+ * Create a connection between a supply and a campsite, given in either
+ * order. Returns null if the modules cannot be connected or already are.
+ */
+export function connectModules(map: CampsiteMap, firstId: string, secondId: string): UtilityConnection | null {
+    const first = map.modules.find((module) => module.id === firstId);
+    const second = map.modules.find((module) => module.id === secondId);
+    if (!first || !second) return null;
+
+    const [supply, site] = first.type === 'campsite' ? [second, first] : [first, second];
+    const utility = getSupplyUtility(supply);
+    if (!utility || site.type !== 'campsite') return null;
+
+    const exists = (map.utilityConnections ?? []).some(
+        (connection) => connection.supplyId === supply.id && connection.siteId === site.id
+    );
+    if (exists) return null;
+
+    return { id: crypto.randomUUID(), utility, supplyId: supply.id, siteId: site.id };
+}
+
+/**
+ * Analyse a map's utility network. Connections to modules no longer on the
+ * map, or to supplies that no longer provide the utility, are left out; they
+ * come back if the change is undone.
+ */
+export function analyzeUtilityNetwork(map: CampsiteMap): UtilityNetworkReport {
+    const modules = new Map(map.modules.map((module) => [module.id, module]));
+    const connections = (map.utilityConnections ?? []).filter((connection) => {
+        const supply = modules.get(connection.supplyId);
+        return supply !== undefined &&
+            getSupplyUtility(supply) === connection.utility &&
+            modules.get(connection.siteId)?.type === 'campsite';
+    });
+
+    const circuits = map.modules
+        .filter((module): module is ElectricityModule => module.type === 'electricity')
+        .map((supply) => {
+            const siteIds = connections
+                .filter((connection) => connection.supplyId === supply.id)
+                .map((connection) => connection.siteId);
+            const load = siteIds.length * CIRCUIT_AMPS[supply.metadata.circuitType];
+            const capacity = supply.metadata.amperage;
+            return { supply, siteIds, load, capacity, overloaded: load > capacity };
+        });
+
+    const unsupplied: UnsuppliedHookup[] = [];
+    map.modules
+        .filter((module): module is CampsiteModule => module.type === 'campsite')
+        .forEach((site) => {
+            (Object.keys(HOOKUP_FLAGS) as UtilityType[]).forEach((utility) => {
+                const isSupplied = connections.some(
+                    (connection) => connection.siteId === site.id && connection.utility === utility
+                );
+                if (site.metadata[HOOKUP_FLAGS[utility]] && !isSupplied) {
+                    unsupplied.push({ site, utility });
+                }
+            });
+        });
+
+    return { connections, circuits, unsupplied };
+}
@@ -0,0 +1,58 @@
+/**
+ * Utility Renderer
+ * Fabric.js objects for the utility layer: service lines from supplies to
+ * campsites, and markers on sites with a hookup nothing supplies.
+ */
+
+import * as fabric from 'fabric';
+import type { AnyModule, UtilityConnection } from '@/types';
+import { getModuleCenter, getModuleCorners } from './mapGeometry';
+import { UTILITY_COLORS, UTILITY_FAULT_COLOR } from './utilityNetwork';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const LINE_WIDTH = 3;
+const SEWER_DASH_ARRAY = [10, 5];
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Create a service line between the centres of a supply and a site.
+ * Lines on an overloaded circuit are drawn in the fault colour.
+ */
+export function createConnectionObject(
+    connection: UtilityConnection,
+    supply: AnyModule,
+    site: AnyModule,
+    isOverloaded = false
+): fabric.Line {
+    const from = getModuleCenter(supply);
+    const to = getModuleCenter(site);
+    return new fabric.Line([from.x, from.y, to.x, to.y], {
+        stroke: isOverloaded ? UTILITY_FAULT_COLOR : UTILITY_COLORS[connection.utility],
+        strokeWidth: LINE_WIDTH,
+        strokeDashArray: connection.utility === 'sewer' ? SEWER_DASH_ARRAY : undefined,
+        strokeLineCap: 'round',
+        selectable: false,
+        evented: false,
+    });
+}
+
+/**
+ * Create an outline marking a site with a hookup nothing supplies
+ */
+export function createUnsuppliedMarker(site: AnyModule): fabric.Polygon {
+    return new fabric.Polygon(getModuleCorners(site), {
+        fill: 'transparent',
+        stroke: UTILITY_FAULT_COLOR,
+        strokeWidth: 2,
+        strokeDashArray: [4, 4],
+        selectable: false,
+        evented: false,
+        objectCaching: false,
+    });
+}
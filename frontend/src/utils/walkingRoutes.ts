@@ -0,0 +1,362 @@
+/**
+ * Walking Routes
+ * Shortest walking routes from each campsite to the nearest facility of each
+ * type, along the map's roads and paths. Guests walk on public roads only;
+ * step-free routes also keep to paved and boardwalk surfaces. Sites and
+ * facilities join the network at the nearest point on a usable road.
+ */
+
+import type {
+    AnyModule,
+    CampsiteMap,
+    CampsiteModule,
+    FacilityDistances,
+    Position,
+    RoadModule,
+    WalkingFacilityType,
+} from '@/types';
+import { getModuleCenter } from './mapGeometry';
+import { getAbsolutePoints, isPathModule } from './modulePaths';
+import { pixelsToMeters } from './measurement';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface WalkingRoute {
+    facilityId: string;
+    /** Length of the route in metres */
+    distance: number;
+    /** From the site's centre to the facility's centre, in canvas pixels */
+    points: Position[];
+}
+
+export type SiteRoutes = Partial<Record<WalkingFacilityType, WalkingRoute>>;
+
+export interface WalkingRouteOptions {
+    /** Keep to paved and boardwalk surfaces */
+    stepFree?: boolean;
+}
+
+interface Segment {
+    a: Position;
+    b: Position;
+    roadIndex: number;
+}
+
+interface Cut {
+    t: number;
+    point: Position;
+}
+
+interface Edge {
+    to: string;
+    length: number;
+}
+
+interface GraphNode {
+    point: Position;
+    edges: Edge[];
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const WALKING_FACILITY_TYPES: WalkingFacilityType[] = [
+    'toilet',
+    'water_source',
+    'parking',
+    'building',
+    'waste_disposal',
+    'recreation',
+];
+
+export const WALKING_FACILITY_LABELS: Record<WalkingFacilityType, string> = {
+    toilet: 'Toilets',
+    water_source: 'Drinking water',
+    parking: 'Parking',
+    building: 'Buildings',
+    waste_disposal: 'Waste disposal',
+    recreation: 'Recreation',
+};
+
+const STEP_FREE_SURFACES = new Set<RoadModule['metadata']['surfaceType']>(['paved', 'boardwalk']);
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const pointKey = (point: Position) => `${point.x.toFixed(3)},${point.y.toFixed(3)}`;
+
+const moduleKey = (module: AnyModule) => `module:${module.id}`;
+
+const lerp = (a: Position, b: Position, t: number): Position => ({
+    x: a.x + (b.x - a.x) * t,
+    y: a.y + (b.y - a.y) * t,
+});
+
+/**
+ * Get the nearest point on a segment as its position along the segment
+ */
+function projectOntoSegment(point: Position, a: Position, b: Position): Cut {
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSquared = dx * dx + dy * dy;
+    const t = lengthSquared === 0
+        ? 0
+        : Math.max(0, Math.min(1, ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSquared));
+    return { t, point: lerp(a, b, t) };
+}
+
+/**
+ * Get where two segments cross, as positions along each
+ */
+function intersectSegments(first: Segment, second: Segment): [number, number] | null {
+    const r = { x: first.b.x - first.a.x, y: first.b.y - first.a.y };
+    const s = { x: second.b.x - second.a.x, y: second.b.y - second.a.y };
+    const denominator = r.x * s.y - r.y * s.x;
+    if (denominator === 0) return null;
+
+    const qp = { x: second.a.x - first.a.x, y: second.a.y - first.a.y };
+    const t = (qp.x * s.y - qp.y * s.x) / denominator;
+    const u = (qp.x * r.y - qp.y * r.x) / denominator;
+    return t >= 0 && t <= 1 && u >= 0 && u <= 1 ? [t, u] : null;
+}
+
+/**
+ * Get the centre line of a road: its vertices when drawn as a path,
+ * otherwise the long axis of its rectangle
+ */
+export function getRoadCentreLine(road: RoadModule): Position[] {
+    if (isPathModule(road)) return getAbsolutePoints(road);
+
+    const center = getModuleCenter(road);
+    const { width, height } = road.size;
+    const radians = (road.rotation * Math.PI) / 180 + (height > width ? Math.PI / 2 : 0);
+    const half = Math.max(width, height) / 2;
+    const offset = { x: Math.cos(radians) * half, y: Math.sin(radians) * half };
+    return [
+        { x: center.x - offset.x, y: center.y - offset.y },
+        { x: center.x + offset.x, y: center.y + offset.y },
+    ];
+}
+
+/**
+ * Check whether a module counts as a facility of a type. Only drinking
+ * water counts as a water source.
+ */
+export function isWalkingFacility(module: AnyModule, type: WalkingFacilityType): boolean {
+    if (module.type !== type) return false;
+    return module.type !== 'water_source' || module.metadata.potable;
+}
+
+// ============================================================================
+// GRAPH
+// ============================================================================
+
+/**
+ * Build the walking network: road centre lines split wherever they cross,
+ * road ends joined to roads they run into, and each module joined to the
+ * nearest point on a road
+ */
+function buildGraph(roads: RoadModule[], modules: AnyModule[], scale: number): Map<string, GraphNode> {
+    const nodes = new Map<string, GraphNode>();
+    const getNode = (key: string, point: Position) => {
+        let node = nodes.get(key);
+        if (!node) {
+            node = { point, edges: [] };
+            nodes.set(key, node);
+        }
+        return node;
+    };
+    const addEdge = (fromKey: string, from: Position, toKey: string, to: Position) => {
+        if (fromKey === toKey) return;
+        const length = Math.hypot(to.x - from.x, to.y - from.y);
+        getNode(fromKey, from).edges.push({ to: toKey, length });
+        getNode(toKey, to).edges.push({ to: fromKey, length });
+    };
+
+    const lines = roads.map(getRoadCentreLine);
+    const segments: Segment[] = lines.flatMap((points, roadIndex) =>
+        points.slice(1).map((b, index) => ({ a: points[index]!, b, roadIndex }))
+    );
+    const cuts: Cut[][] = segments.map(({ a, b }) => [{ t: 0, point: a }, { t: 1, point: b }]);
+
+    // Nearest point on any segment, optionally leaving out one road's own
+    const nearestOnRoads = (point: Position, skipRoad?: number) => {
+        let nearest: { index: number; cut: Cut; distance: number } | null = null;
+        for (let index = 0; index < segments.length; index++) {
+            const segment = segments[index]!;
+            if (segment.roadIndex === skipRoad) continue;
+            const cut = projectOntoSegment(point, segment.a, segment.b);
+            const distance = Math.hypot(cut.point.x - point.x, cut.point.y - point.y);
+            if (!nearest || distance < nearest.distance) nearest = { index, cut, distance };
+        }
+        return nearest;
+    };
+
+    // Crossroads
+    segments.forEach((first, i) => {
+        segments.slice(i + 1).forEach((second, offset) => {
+            if (first.roadIndex === second.roadIndex) return;
+            const hit = intersectSegments(first, second);
+            if (!hit) return;
+            const point = lerp(first.a, first.b, hit[0]);
+            cuts[i]!.push({ t: hit[0], point });
+            cuts[i + offset + 1]!.push({ t: hit[1], point });
+        });
+    });
+
+    // Road ends that stop at, or just short of, another road
+    lines.forEach((points, roadIndex) => {
+        [points[0]!, points[points.length - 1]!].forEach((end) => {
+            const hit = nearestOnRoads(end, roadIndex);
+            if (!hit) return;
+            const other = roads[segments[hit.index]!.roadIndex]!;
+            const reach = ((roads[roadIndex]!.metadata.width + other.metadata.width) / 2) * scale;
+            if (hit.distance > reach) return;
+            cuts[hit.index]!.push(hit.cut);
+            addEdge(pointKey(end), end, pointKey(hit.cut.point), hit.cut.point);
+        });
+    });
+
+    // Sites and facilities join at the nearest point on a road
+    modules.forEach((module) => {
+        const center = getModuleCenter(module);
+        const hit = nearestOnRoads(center);
+        if (!hit) return;
+        cuts[hit.index]!.push(hit.cut);
+        addEdge(moduleKey(module), center, pointKey(hit.cut.point), hit.cut.point);
+    });
+
+    cuts.forEach((segmentCuts) => {
+        const sorted = [...segmentCuts].sort((a, b) => a.t - b.t);
+        sorted.slice(1).forEach((cut, index) => {
+            const previous = sorted[index]!;
+            addEdge(pointKey(previous.point), previous.point, pointKey(cut.point), cut.point);
+        });
+    });
+
+    return nodes;
+}
+
+/**
+ * Dijkstra's algorithm from several sources at once, so each node ends up
+ * with its distance to, and the path towards, the nearest source
+ */
+function findNearest(nodes: Map<string, GraphNode>, sources: string[]) {
+    const distances = new Map<string, number>();
+    const next = new Map<string, string>();
+    const visited = new Set<string>();
+    sources.forEach((key) => distances.set(key, 0));
+
+    for (;;) {
+        let key: string | null = null;
+        let base = Infinity;
+        for (const [candidate, distance] of distances) {
+            if (!visited.has(candidate) && distance < base) {
+                key = candidate;
+                base = distance;
+            }
+        }
+        if (key === null) break;
+
+        visited.add(key);
+        nodes.get(key)?.edges.forEach(({ to, length }) => {
+            if (visited.has(to)) return;
+            if (base + length < (distances.get(to) ?? Infinity)) {
+                distances.set(to, base + length);
+                next.set(to, key);
+            }
+        });
+    }
+
+    return { distances, next };
+}
+
+// ============================================================================
+// ROUTES
+// ============================================================================
+
+/**
+ * Find the shortest walking route from each campsite to the nearest facility
+ * of each type. Sites with no route to a facility type have no entry for it.
+ * @returns Routes keyed by campsite module ID
+ */
+export function getWalkingRoutes(map: CampsiteMap, options: WalkingRouteOptions = {}): Map<string, SiteRoutes> {
+    const roads = map.modules.filter((module): module is RoadModule =>
+        module.type === 'road' &&
+        module.metadata.accessLevel === 'public' &&
+        (!options.stepFree || STEP_FREE_SURFACES.has(module.metadata.surfaceType))
+    );
+    const campsites = map.modules.filter((module): module is CampsiteModule => module.type === 'campsite');
+    const facilities = map.modules.filter((module) =>
+        WALKING_FACILITY_TYPES.some((type) => isWalkingFacility(module, type))
+    );
+
+    const routes = new Map<string, SiteRoutes>(campsites.map((site) => [site.id, {}]));
+    if (roads.length === 0) return routes;
+
+    const nodes = buildGraph(roads, [...campsites, ...facilities], map.scale);
+
+    WALKING_FACILITY_TYPES.forEach((type) => {
+        const sources = facilities.filter((module) => isWalkingFacility(module, type)).map(moduleKey);
+        if (sources.length === 0) return;
+
+        const { distances, next } = findNearest(nodes, sources);
+        campsites.forEach((site) => {
+            const start = moduleKey(site);
+            const distance = distances.get(start);
+            if (distance === undefined) return;
+
+            const path = [start];
+            while (next.has(path[path.length - 1]!)) {
+                path.push(next.get(path[path.length - 1]!)!);
+            }
+            routes.get(site.id)![type] = {
+                facilityId: path[path.length - 1]!.slice('module:'.length),
+                distance: pixelsToMeters(distance, map.scale),
+                points: path.map((key) => nodes.get(key)!.point),
+            };
+        });
+    });
+
+    return routes;
+}
+
+/**
+ * Reduce routes to the distances stored on a campsite, to the nearest metre
+ */
+export function getFacilityDistances(routes: SiteRoutes): FacilityDistances {
+    const distances: FacilityDistances = {};
+    WALKING_FACILITY_TYPES.forEach((type) => {
+        const route = routes[type];
+        if (route) distances[type] = Math.round(route.distance);
+    });
+    return distances;
+}
+
+/**
+ * Work out the distances to store on each campsite, leaving out sites whose
+ * stored distances are already up to date
+ */
+export function getDistanceUpdates(map: CampsiteMap): { site: CampsiteModule; metadata: CampsiteModule['metadata'] }[] {
+    const walking = getWalkingRoutes(map);
+    const stepFree = getWalkingRoutes(map, { stepFree: true });
+
+    return map.modules
+        .filter((module): module is CampsiteModule => module.type === 'campsite')
+        .map((site) => ({
+            site,
+            metadata: {
+                ...site.metadata,
+                walkingDistances: getFacilityDistances(walking.get(site.id) ?? {}),
+                stepFreeDistances: getFacilityDistances(stepFree.get(site.id) ?? {}),
+            },
+        }))
+        .filter(({ site, metadata }) =>
+            JSON.stringify(site.metadata.walkingDistances ?? {}) !== JSON.stringify(metadata.walkingDistances) ||
+            JSON.stringify(site.metadata.stepFreeDistances ?? {}) !== JSON.stringify(metadata.stepFreeDistances)
+        );
+}
@@ -42,6 +42,28 @@ export const API_ENDPOINTS = {
     QR_CODE: (id: string) => `/api/bookings/${id}/qr-code`,
   },
 
+  // Group bookings
+  GROUP_BOOKINGS: {
+    BASE: '/api/group-bookings',
+    BY_ID: (id: string) => `/api/group-bookings/${id}`,
+    QUOTE: (id: string) => `/api/group-bookings/${id}/quote`,
+    CONVERT: (id: string) => `/api/group-bookings/${id}/convert`,
+    CANCEL: (id: string) => `/api/group-bookings/${id}/cancel`,
+  },
+
+  // Map and module templates
+  TEMPLATES: {
+    MAPS: '/api/templates/maps',
+    MAP_BY_ID: (id: string) => `/api/templates/maps/${id}`,
+    MODULES: '/api/templates/modules',
+  },
+
+  // Campsite map version history
+  MAP_VERSIONS: {
+    BY_MAP: (mapId: string) => `/api/maps/${mapId}/versions`,
+    BY_ID: (mapId: string, id: string) => `/api/maps/${mapId}/versions/${id}`,
+  },
+
   // Payments
   PAYMENTS: {
     BASE: '/api/payments',
@@ -350,6 +350,20 @@ export const groupBookingSchema = z.object({
   notes: z.string().max(2000).optional(),
 });
 
+export const groupQuoteSchema = z.object({
+  siteIds: z.array(z.string().min(1)).min(1, 'Select at least one site'),
+  eventDate: z.string().datetime().or(z.date()),
+  eventEndDate: z.string().datetime().or(z.date()),
+  specialRate: z.number().min(0).optional(),
+}).refine((data) => {
+  const start = new Date(data.eventDate);
+  const end = new Date(data.eventEndDate);
+  return start < end;
+}, {
+  message: 'End date must be after start date',
+  path: ['eventEndDate'],
+});
+
 // Settings schemas
 export const campsiteSettingsSchema = z.object({
   name: z.string().min(1).max(100),
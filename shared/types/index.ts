@@ -212,6 +212,8 @@ export interface Booking {
   /** Actual check-out timestamp (null until checked out) */
   checkOutTime?: Date;
   qrCode?: string;
+  /** Group booking this stay was created from, if any */
+  groupBookingId?: string;
   readonly createdAt: Date;
   readonly updatedAt: Date;
 
@@ -407,6 +409,19 @@ export interface PricingRule {
   readonly updatedAt: Date;
 }
 
+/**
+ * Effective price of a single night, as resolved by the pricing engine
+ */
+export interface NightlyRate {
+  /** Night date (yyyy-MM-dd) */
+  date: string;
+  rate: number;
+  /** Name of the applied rule, or "Standard rate" */
+  description: string;
+  /** ID of the pricing rule that set the rate, if any */
+  ruleId?: string;
+}
+
 // ============================================================================
 // Group Booking Types
 // ============================================================================
@@ -421,7 +436,12 @@ export interface GroupBooking {
   expectedSites: number;
   eventDate: Date;
   eventEndDate?: Date;
+  /** Negotiated nightly rate per site, replacing rule-based pricing when set */
   specialRate?: number;
+  /** Sites held for the group once a quote has been issued */
+  siteIds?: string[];
+  /** Quoted total for all reserved sites (before tax) */
+  quotedTotal?: number;
   notes?: string;
   status: GroupBookingStatus;
   readonly createdAt: Date;
@@ -1,7 +1,7 @@
 // Utilities for Campsite Management System
 
 import { REGEX_PATTERNS, DATE_FORMATS, VALIDATION_RULES } from '../constants';
-import { Booking, Site, Payment, SiteType, UserRole, ValidationError } from '../types';
+import { Booking, BookingStatus, GroupBooking, GroupBookingStatus, Site, Payment, SiteType, UserRole, ValidationError, PricingRule, NightlyRate } from '../types';
 
 // Date Utilities
 export const dateUtils = {
@@ -81,6 +81,21 @@ export const dateUtils = {
     return new Date(date.getFullYear(), date.getMonth() + 1, 0);
   },
 
+  getStartOfDay(date: Date): Date {
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  },
+
+  toDateKey(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+  },
+
+  fromDateKey(dateKey: string): Date {
+    const [year = 0, month = 1, day = 1] = dateKey.split('-').map(Number);
+    return new Date(year, month - 1, day);
+  },
+
   isSameDay(date1: Date, date2: Date): boolean {
     return date1.getFullYear() === date2.getFullYear() &&
       date1.getMonth() === date2.getMonth() &&
@@ -543,17 +558,213 @@ export const idUtils = {
   },
 };
 
+// Pricing Utilities
+export const pricingUtils = {
+  isRuleApplicable(rule: PricingRule, siteType: SiteType, date: Date, nights: number): boolean {
+    if (!rule.isActive || !rule.siteTypes.includes(siteType)) return false;
+
+    const day = dateUtils.getStartOfDay(date);
+    const start = dateUtils.getStartOfDay(new Date(rule.startDate));
+    const end = dateUtils.getStartOfDay(new Date(rule.endDate));
+    if (!dateUtils.isDateInRange(day, start, end)) return false;
+
+    // An empty list means the rule applies on every day of the week
+    if (rule.daysOfWeek.length > 0 && !rule.daysOfWeek.includes(day.getDay())) return false;
+    if (rule.minStay !== undefined && nights < rule.minStay) return false;
+    if (rule.maxStay !== undefined && nights > rule.maxStay) return false;
+
+    return true;
+  },
+
+  applyModifier(basePrice: number, rule: Pick<PricingRule, 'priceModifier' | 'modifierType'>): number {
+    let rate: number;
+    switch (rule.modifierType) {
+      case 'multiplier':
+        rate = basePrice * rule.priceModifier;
+        break;
+      case 'fixed':
+        rate = basePrice + rule.priceModifier;
+        break;
+      case 'percentage':
+        rate = basePrice * (1 + rule.priceModifier / 100);
+        break;
+    }
+    return Math.max(0, currencyUtils.roundToNearestCent(rate));
+  },
+
+  /**
+   * Resolve the rule that prices a given night. The highest priority applicable
+   * rule wins; rules of equal priority resolve to the first one in the list.
+   */
+  findApplicableRule(rules: PricingRule[], siteType: SiteType, date: Date, nights: number): PricingRule | undefined {
+    return rules.reduce<PricingRule | undefined>((winner, rule) => {
+      if (!pricingUtils.isRuleApplicable(rule, siteType, date, nights)) return winner;
+      return !winner || rule.priority > winner.priority ? rule : winner;
+    }, undefined);
+  },
+
+  getNightlyRate(site: Pick<Site, 'type' | 'basePrice'>, date: Date, rules: PricingRule[], nights: number = 1): NightlyRate {
+    const rule = pricingUtils.findApplicableRule(rules, site.type, date, nights);
+    return {
+      date: dateUtils.toDateKey(date),
+      rate: rule ? pricingUtils.applyModifier(site.basePrice, rule) : site.basePrice,
+      description: rule ? rule.name : 'Standard rate',
+      ruleId: rule?.id,
+    };
+  },
+
+  calculateNightlyRates(site: Pick<Site, 'type' | 'basePrice'>, checkIn: Date, checkOut: Date, rules: PricingRule[]): NightlyRate[] {
+    const nights = dateUtils.getDaysBetween(checkIn, checkOut);
+    const rates: NightlyRate[] = [];
+    for (let i = 0; i < nights; i++) {
+      rates.push(pricingUtils.getNightlyRate(site, dateUtils.addDays(checkIn, i), rules, nights));
+    }
+    return rates;
+  },
+
+  sumNightlyRates(rates: NightlyRate[]): number {
+    return currencyUtils.roundToNearestCent(rates.reduce((sum, night) => sum + night.rate, 0));
+  },
+
+  /**
+   * Two rules conflict when they share a priority and could both price the same
+   * night: an overlapping site type, date range, weekday and stay length.
+   */
+  rulesConflict(a: PricingRule, b: PricingRule): boolean {
+    if (a.id === b.id || !a.isActive || !b.isActive || a.priority !== b.priority) return false;
+    if (!a.siteTypes.some(type => b.siteTypes.includes(type))) return false;
+
+    const aStart = dateUtils.getStartOfDay(new Date(a.startDate));
+    const aEnd = dateUtils.getStartOfDay(new Date(a.endDate));
+    const bStart = dateUtils.getStartOfDay(new Date(b.startDate));
+    const bEnd = dateUtils.getStartOfDay(new Date(b.endDate));
+    if (aStart > bEnd || bStart > aEnd) return false;
+
+    const daysOverlap = a.daysOfWeek.length === 0 || b.daysOfWeek.length === 0 ||
+      a.daysOfWeek.some(day => b.daysOfWeek.includes(day));
+    if (!daysOverlap) return false;
+
+    const aMin = a.minStay ?? 1;
+    const bMin = b.minStay ?? 1;
+    const aMax = a.maxStay ?? Infinity;
+    const bMax = b.maxStay ?? Infinity;
+    return aMin <= bMax && bMin <= aMax;
+  },
+
+  findRuleConflicts(rules: PricingRule[]): Array<[PricingRule, PricingRule]> {
+    const conflicts: Array<[PricingRule, PricingRule]> = [];
+    rules.forEach((rule, index) => {
+      rules.slice(index + 1).forEach(other => {
+        if (pricingUtils.rulesConflict(rule, other)) {
+          conflicts.push([rule, other]);
+        }
+      });
+    });
+    return conflicts;
+  },
+};
+
+// Group Booking Utilities
+export const groupBookingUtils = {
+  canTransition(from: GroupBookingStatus, to: GroupBookingStatus): boolean {
+    const transitions: Record<GroupBookingStatus, GroupBookingStatus[]> = {
+      [GroupBookingStatus.INQUIRY]: [GroupBookingStatus.QUOTED, GroupBookingStatus.CANCELLED],
+      // A quote can be revised before it is accepted
+      [GroupBookingStatus.QUOTED]: [GroupBookingStatus.QUOTED, GroupBookingStatus.CONFIRMED, GroupBookingStatus.CANCELLED],
+      [GroupBookingStatus.CONFIRMED]: [GroupBookingStatus.CANCELLED],
+      [GroupBookingStatus.CANCELLED]: [],
+    };
+    return transitions[from].includes(to);
+  },
+
+  /**
+   * Price a block of sites for the stay. A special rate replaces the per-night
+   * rule pricing for every site; otherwise each site goes through the pricing engine.
+   */
+  calculateGroupQuote(
+    sites: Pick<Site, 'id' | 'type' | 'basePrice'>[],
+    checkIn: Date,
+    checkOut: Date,
+    specialRate?: number,
+    pricingRules: PricingRule[] = []
+  ): { nights: number; sites: { siteId: string; subtotal: number }[]; total: number } {
+    const nights = dateUtils.getDaysBetween(checkIn, checkOut);
+    const siteTotals = sites.map(site => ({
+      siteId: site.id,
+      subtotal: specialRate !== undefined
+        ? currencyUtils.roundToNearestCent(specialRate * nights)
+        : pricingUtils.sumNightlyRates(pricingUtils.calculateNightlyRates(site, checkIn, checkOut, pricingRules)),
+    }));
+
+    return {
+      nights,
+      sites: siteTotals,
+      total: currencyUtils.roundToNearestCent(siteTotals.reduce((sum, site) => sum + site.subtotal, 0)),
+    };
+  },
+
+  /** Spread the expected guests as evenly as possible across the reserved sites */
+  splitGuests(expectedGuests: number, siteCount: number): number[] {
+    if (siteCount <= 0) return [];
+    const base = Math.floor(expectedGuests / siteCount);
+    const remainder = expectedGuests % siteCount;
+    return Array.from({ length: siteCount }, (_, index) => Math.max(1, base + (index < remainder ? 1 : 0)));
+  },
+
+  /**
+   * Sites already held by other quoted or confirmed groups over an overlapping stay,
+   * so a new quote cannot reserve the same block twice.
+   */
+  getHeldSiteIds(
+    groups: Pick<GroupBooking, 'id' | 'status' | 'siteIds' | 'eventDate' | 'eventEndDate'>[],
+    checkIn: Date,
+    checkOut: Date,
+    excludeGroupId?: string
+  ): Set<string> {
+    const held = new Set<string>();
+    groups.forEach(group => {
+      if (group.id === excludeGroupId) return;
+      if (group.status !== GroupBookingStatus.QUOTED && group.status !== GroupBookingStatus.CONFIRMED) return;
+      const groupStart = new Date(group.eventDate);
+      const groupEnd = new Date(group.eventEndDate ?? group.eventDate);
+      if (groupStart < checkOut && checkIn < groupEnd) {
+        group.siteIds?.forEach(siteId => held.add(siteId));
+      }
+    });
+    return held;
+  },
+
+  getCheckInProgress(bookings: Pick<Booking, 'status'>[]): { checkedIn: number; total: number } {
+    const active = bookings.filter(booking => booking.status !== BookingStatus.CANCELLED);
+    return {
+      checkedIn: active.filter(booking =>
+        booking.status === BookingStatus.CHECKED_IN || booking.status === BookingStatus.CHECKED_OUT
+      ).length,
+      total: active.length,
+    };
+  },
+};
+
 // Business Logic Utilities
 export const businessUtils = {
-  calculateBookingTotal(site: Site, checkIn: Date, checkOut: Date, taxRate: number, discountAmount: number = 0): {
+  calculateBookingTotal(
+    site: Site,
+    checkIn: Date,
+    checkOut: Date,
+    taxRate: number,
+    discountAmount: number = 0,
+    pricingRules: PricingRule[] = []
+  ): {
     nights: number;
     subtotal: number;
     tax: number;
     discount: number;
     total: number;
+    breakdown: NightlyRate[];
   } {
-    const nights = dateUtils.getDaysBetween(checkIn, checkOut);
-    const subtotal = site.basePrice * nights;
+    const breakdown = pricingUtils.calculateNightlyRates(site, checkIn, checkOut, pricingRules);
+    const nights = breakdown.length;
+    const subtotal = pricingUtils.sumNightlyRates(breakdown);
     const tax = currencyUtils.calculateTax(subtotal, taxRate);
     const total = subtotal + tax - discountAmount;
 
@@ -563,6 +774,7 @@ export const businessUtils = {
       tax: currencyUtils.roundToNearestCent(tax),
       discount: discountAmount,
       total: currencyUtils.roundToNearestCent(total),
+      breakdown,
     };
   },
 